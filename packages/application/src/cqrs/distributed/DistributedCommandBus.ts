@@ -0,0 +1,43 @@
+import { Result } from '@marcusprado02/kernel';
+import type { Command } from '../Command';
+import type { CommandBus, CommandConstructor } from '../CommandBus';
+import type { CommandHandler } from '../CommandHandler';
+import type { RemoteBusClient } from './RemoteBusClient';
+import type { DistributedCommandBusOptions } from './types';
+
+/**
+ * Command bus that runs registered handlers in-process and sends every other
+ * command to the service hosting its handler through a
+ * {@link RemoteBusClient}. Call sites keep using {@link CommandBus}; handlers
+ * move to another service by registering them on its
+ * {@link RemoteHandlerHost} instead of here.
+ */
+export class DistributedCommandBus implements CommandBus {
+  private readonly handlers = new Map<string, CommandHandler<Command, unknown, Error>>();
+
+  constructor(
+    private readonly client: RemoteBusClient,
+    private readonly options: DistributedCommandBusOptions = {},
+  ) {}
+
+  register<TCommand extends Command, TResult = void, TError = Error>(
+    commandType: CommandConstructor<TCommand>,
+    handler: CommandHandler<TCommand, TResult, TError>,
+  ): void {
+    this.handlers.set(commandType.name, handler as CommandHandler<Command, unknown, Error>);
+  }
+
+  async dispatch<TCommand extends Command, TResult = void, TError = Error>(
+    command: TCommand,
+  ): Promise<Result<TResult, TError>> {
+    const handler = this.handlers.get(command.constructor.name);
+    if (handler !== undefined) {
+      return handler.handle(command) as Promise<Result<TResult, TError>>;
+    }
+    if (this.options.awaitReplies === false) {
+      await this.client.send('command', command);
+      return Result.ok(undefined as TResult);
+    }
+    return this.client.request<TResult, TError>('command', command);
+  }
+}
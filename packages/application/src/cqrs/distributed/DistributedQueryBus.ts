@@ -0,0 +1,33 @@
+import type { Result } from '@marcusprado02/kernel';
+import type { Query } from '../Query';
+import type { QueryBus, QueryConstructor } from '../QueryBus';
+import type { QueryHandler } from '../QueryHandler';
+import type { RemoteBusClient } from './RemoteBusClient';
+
+/**
+ * Query bus that runs registered handlers in-process and asks the service
+ * hosting the handler of every other query through a {@link RemoteBusClient},
+ * waiting for its reply.
+ */
+export class DistributedQueryBus implements QueryBus {
+  private readonly handlers = new Map<string, QueryHandler<Query<unknown>, unknown, Error>>();
+
+  constructor(private readonly client: RemoteBusClient) {}
+
+  register<TQuery extends Query<TResult>, TResult = unknown, TError = Error>(
+    queryType: QueryConstructor<TQuery>,
+    handler: QueryHandler<TQuery, TResult, TError>,
+  ): void {
+    this.handlers.set(queryType.name, handler as QueryHandler<Query<unknown>, unknown, Error>);
+  }
+
+  async dispatch<TQuery extends Query<TResult>, TResult = unknown, TError = Error>(
+    query: TQuery,
+  ): Promise<Result<TResult, TError>> {
+    const handler = this.handlers.get(query.constructor.name);
+    if (handler !== undefined) {
+      return handler.handle(query) as Promise<Result<TResult, TError>>;
+    }
+    return this.client.request<TResult, TError>('query', query);
+  }
+}
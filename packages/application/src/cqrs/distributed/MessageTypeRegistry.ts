@@ -0,0 +1,88 @@
+import type { SerializedError } from './types';
+import { RemoteHandlerError } from './RemoteErrors';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyConstructor<T = unknown> = abstract new (...args: any[]) => T;
+
+/**
+ * Knows how to rebuild commands, queries and errors from their JSON form,
+ * keyed by class name like the buses.
+ *
+ * Unless given a reviver, a message or error is rebuilt from the prototype
+ * of its class and its transported properties — the constructor does not
+ * run, and `instanceof` works.
+ *
+ * @example
+ * ```ts
+ * const registry = new MessageTypeRegistry()
+ *   .registerError(OrderNotFoundError)
+ *   .registerMessage(PlaceOrderCommand, (p) => new PlaceOrderCommand(p.customerId, p.lines));
+ * ```
+ */
+export class MessageTypeRegistry {
+  private readonly messages = new Map<string, (payload: Record<string, unknown>) => object>();
+  private readonly errors = new Map<
+    string,
+    (error: SerializedError & { type: 'error' }) => Error
+  >();
+
+  registerMessage<T extends object>(
+    type: AnyConstructor<T>,
+    revive: (payload: Record<string, unknown>) => T = (payload): T => rebuild(type, payload),
+  ): this {
+    this.messages.set(type.name, revive);
+    return this;
+  }
+
+  registerError<T extends Error>(
+    type: AnyConstructor<T>,
+    revive: (error: SerializedError & { type: 'error' }) => T = (error): T =>
+      rebuild(type, { ...error.properties, message: error.message }),
+  ): this {
+    this.errors.set(type.name, revive);
+    return this;
+  }
+
+  hasMessage(typeName: string): boolean {
+    return this.messages.has(typeName);
+  }
+
+  /** Rebuilds a message of a registered type. */
+  reviveMessage(typeName: string, payload: Record<string, unknown>): object {
+    const revive = this.messages.get(typeName);
+    if (revive === undefined) {
+      throw new Error(`No message type registered: ${typeName}`);
+    }
+    return revive(payload);
+  }
+
+  serializeError(error: unknown): SerializedError {
+    if (!(error instanceof Error)) {
+      return { type: 'value', value: error };
+    }
+    return {
+      type: 'error',
+      name: error.constructor.name,
+      message: error.message,
+      properties: { ...error },
+    };
+  }
+
+  /**
+   * Rebuilds an error; errors of unregistered types become a
+   * {@link RemoteHandlerError}.
+   */
+  reviveError(error: SerializedError): unknown {
+    if (error.type === 'value') {
+      return error.value;
+    }
+    const revive = this.errors.get(error.name);
+    return revive === undefined
+      ? new RemoteHandlerError(error.name, error.message, error.properties)
+      : revive(error);
+  }
+}
+
+function rebuild<T>(type: AnyConstructor<T>, properties: Record<string, unknown>): T {
+  return Object.assign(Object.create(type.prototype as object) as object, properties) as T;
+}
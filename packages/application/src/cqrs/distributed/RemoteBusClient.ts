@@ -0,0 +1,114 @@
+import { Result } from '@marcusprado02/kernel';
+import { RequestReplyBroker } from '@marcusprado02/messaging';
+import type { EventConsumer, EventEnvelope, EventPublisherPort } from '@marcusprado02/messaging';
+import type { MessageTypeRegistry } from './MessageTypeRegistry';
+import type { RemoteBusClientOptions, RemoteMessageKind, RemoteReply } from './types';
+import { RemoteRequestTimeoutError } from './RemoteErrors';
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/**
+ * Sending side of the distributed buses: publishes commands and queries as
+ * {@link EventEnvelope}s and matches the replies of the
+ * {@link RemoteHandlerHost} to them through a {@link RequestReplyBroker}.
+ *
+ * A command or query is published under its class name (plus `typePrefix`)
+ * as event type, so any transport routing by event type — Kafka topics,
+ * RabbitMQ routing keys, EventBridge detail types — reaches the service
+ * hosting its handler. Share one client between the command and query bus
+ * of a service, and start the consumer once both are created.
+ */
+export class RemoteBusClient {
+  private readonly broker = new RequestReplyBroker<unknown, RemoteReply>();
+  private readonly typePrefix: string;
+  private readonly timeoutMs: number;
+  private readonly generateId: () => string;
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly publisher: EventPublisherPort,
+    consumer: EventConsumer,
+    private readonly registry: MessageTypeRegistry,
+    private readonly options: RemoteBusClientOptions,
+  ) {
+    this.typePrefix = options.typePrefix ?? '';
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.generateId = options.generateId ?? ((): string => crypto.randomUUID());
+    this.now = options.now ?? ((): Date => new Date());
+    consumer.subscribe<RemoteReply>(options.replyTo, {
+      handle: (reply): Promise<void> => {
+        this.broker.deliver(reply);
+        return Promise.resolve();
+      },
+    });
+  }
+
+  /**
+   * Publishes a message and resolves with the `Result` of its remote handler.
+   * Rejects with the exception the handler threw, or with a
+   * {@link RemoteRequestTimeoutError} when no reply arrives in time.
+   */
+  async request<TResult, TError>(
+    kind: RemoteMessageKind,
+    message: object,
+  ): Promise<Result<TResult, TError>> {
+    const envelope = this.envelope(kind, message, true);
+    const messageType = message.constructor.name;
+    const reply = this.broker
+      .awaitReply(envelope.eventId, { timeoutMs: this.timeoutMs })
+      .catch((): never => {
+        throw new RemoteRequestTimeoutError(messageType, this.timeoutMs);
+      });
+    // The broker may time out while publishing; the rejection is awaited below.
+    reply.catch(() => undefined);
+
+    try {
+      await this.publisher.publish(envelope);
+    } catch (error) {
+      this.broker.cancel(envelope.eventId);
+      throw error;
+    }
+    return this.toResult((await reply).payload);
+  }
+
+  /** Publishes a message without waiting for its handler. */
+  async send(kind: RemoteMessageKind, message: object): Promise<void> {
+    await this.publisher.publish(this.envelope(kind, message, false));
+  }
+
+  /** Requests still waiting for their reply. */
+  pendingCount(): number {
+    return this.broker.pendingCount();
+  }
+
+  private envelope(
+    kind: RemoteMessageKind,
+    message: object,
+    awaitReply: boolean,
+  ): EventEnvelope<Record<string, unknown>> {
+    const eventId = this.generateId();
+    return {
+      eventId,
+      eventType: `${this.typePrefix}${message.constructor.name}`,
+      eventVersion: '1.0',
+      timestamp: this.now().toISOString(),
+      correlationId: eventId,
+      payload: { ...message },
+      metadata: {
+        messageKind: kind,
+        ...(awaitReply && { replyTo: this.options.replyTo }),
+      },
+    };
+  }
+
+  private toResult<TResult, TError>(reply: RemoteReply): Result<TResult, TError> {
+    switch (reply.status) {
+      case 'ok':
+        return Result.ok(reply.value as TResult);
+      case 'err':
+        return Result.err(this.registry.reviveError(reply.error) as TError);
+      case 'exception':
+        throw this.registry.reviveError(reply.error);
+    }
+  }
+}
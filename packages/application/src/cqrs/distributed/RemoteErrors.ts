@@ -0,0 +1,27 @@
+/**
+ * A remote handler failed with an error type the {@link MessageTypeRegistry}
+ * does not know; it carries what was transported.
+ */
+export class RemoteHandlerError extends Error {
+  constructor(
+    public readonly remoteName: string,
+    message: string,
+    public readonly properties: Readonly<Record<string, unknown>> = {},
+  ) {
+    super(message);
+    this.name = 'RemoteHandlerError';
+  }
+}
+
+/**
+ * No reply arrived for a remote command or query in time.
+ */
+export class RemoteRequestTimeoutError extends Error {
+  constructor(
+    public readonly messageType: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(`No reply for ${messageType} within ${timeoutMs}ms`);
+    this.name = 'RemoteRequestTimeoutError';
+  }
+}
@@ -0,0 +1,108 @@
+import type { Result } from '@marcusprado02/kernel';
+import type { EventConsumer, EventEnvelope, EventPublisherPort } from '@marcusprado02/messaging';
+import type { Command } from '../Command';
+import type { CommandConstructor } from '../CommandBus';
+import type { CommandHandler } from '../CommandHandler';
+import type { Query } from '../Query';
+import type { QueryConstructor } from '../QueryBus';
+import type { QueryHandler } from '../QueryHandler';
+import type { MessageTypeRegistry } from './MessageTypeRegistry';
+import type { RemoteHandlerHostOptions, RemoteReply } from './types';
+
+type Handle = (message: object) => Promise<Result<unknown, unknown>>;
+
+/**
+ * Receiving side of the distributed buses: consumes the commands and queries
+ * of its registered handlers, runs them and publishes their `Result` to the
+ * `replyTo` event type of the sender.
+ *
+ * A handler that throws is reported to the sender, which rethrows the
+ * error. Commands sent without awaiting a reply have nobody to report to,
+ * so the error propagates to the consumer and its redelivery policy.
+ *
+ * @example
+ * ```ts
+ * const host = new RemoteHandlerHost(consumer, publisher, registry);
+ * host.registerCommand(PlaceOrderCommand, new PlaceOrderHandler(repository));
+ * host.registerQuery(GetOrderQuery, new GetOrderHandler(readModel));
+ * await consumer.start();
+ * ```
+ */
+export class RemoteHandlerHost {
+  private readonly typePrefix: string;
+  private readonly generateId: () => string;
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly consumer: EventConsumer,
+    private readonly publisher: EventPublisherPort,
+    private readonly registry: MessageTypeRegistry,
+    options: RemoteHandlerHostOptions = {},
+  ) {
+    this.typePrefix = options.typePrefix ?? '';
+    this.generateId = options.generateId ?? ((): string => crypto.randomUUID());
+    this.now = options.now ?? ((): Date => new Date());
+  }
+
+  registerCommand<TCommand extends Command, TResult = void, TError = Error>(
+    commandType: CommandConstructor<TCommand>,
+    handler: CommandHandler<TCommand, TResult, TError>,
+  ): void {
+    this.expose(commandType, (message) => handler.handle(message as TCommand));
+  }
+
+  registerQuery<TQuery extends Query<TResult>, TResult = unknown, TError = Error>(
+    queryType: QueryConstructor<TQuery>,
+    handler: QueryHandler<TQuery, TResult, TError>,
+  ): void {
+    this.expose(queryType, (message) => handler.handle(message as TQuery));
+  }
+
+  private expose(type: CommandConstructor | QueryConstructor, handle: Handle): void {
+    if (!this.registry.hasMessage(type.name)) {
+      this.registry.registerMessage<object>(type);
+    }
+    this.consumer.subscribe<Record<string, unknown>>(`${this.typePrefix}${type.name}`, {
+      handle: (envelope) => this.handle(type.name, envelope, handle),
+    });
+  }
+
+  private async handle(
+    typeName: string,
+    request: EventEnvelope<Record<string, unknown>>,
+    handle: Handle,
+  ): Promise<void> {
+    const replyTo = request.metadata?.['replyTo'];
+    let reply: RemoteReply;
+    try {
+      const result = await handle(this.registry.reviveMessage(typeName, request.payload));
+      reply = result.match<RemoteReply>({
+        ok: (value) => ({ status: 'ok', value }),
+        err: (error) => ({ status: 'err', error: this.registry.serializeError(error) }),
+      });
+    } catch (error) {
+      if (typeof replyTo !== 'string') throw error;
+      reply = { status: 'exception', error: this.registry.serializeError(error) };
+    }
+    if (typeof replyTo === 'string') {
+      await this.publisher.publish(this.replyEnvelope(request, replyTo, reply));
+    }
+  }
+
+  private replyEnvelope(
+    request: EventEnvelope<unknown>,
+    replyTo: string,
+    reply: RemoteReply,
+  ): EventEnvelope<RemoteReply> {
+    return {
+      eventId: this.generateId(),
+      eventType: replyTo,
+      eventVersion: '1.0',
+      timestamp: this.now().toISOString(),
+      correlationId: request.correlationId ?? request.eventId,
+      causationId: request.eventId,
+      ...(request.tenantId !== undefined && { tenantId: request.tenantId }),
+      payload: reply,
+    };
+  }
+}
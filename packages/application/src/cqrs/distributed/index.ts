@@ -0,0 +1,14 @@
+export type {
+  RemoteMessageKind,
+  SerializedError,
+  RemoteReply,
+  RemoteBusClientOptions,
+  DistributedCommandBusOptions,
+  RemoteHandlerHostOptions,
+} from './types';
+export { RemoteHandlerError, RemoteRequestTimeoutError } from './RemoteErrors';
+export { MessageTypeRegistry } from './MessageTypeRegistry';
+export { RemoteBusClient } from './RemoteBusClient';
+export { DistributedCommandBus } from './DistributedCommandBus';
+export { DistributedQueryBus } from './DistributedQueryBus';
+export { RemoteHandlerHost } from './RemoteHandlerHost';
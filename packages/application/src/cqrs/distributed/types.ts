@@ -0,0 +1,56 @@
+/** Whether a remote message is a command or a query. */
+export type RemoteMessageKind = 'command' | 'query';
+
+/**
+ * An error as it travels between services: `error` for `Error` instances,
+ * `value` for anything else a handler failed with.
+ */
+export type SerializedError =
+  | {
+      readonly type: 'error';
+      readonly name: string;
+      readonly message: string;
+      /** Own enumerable properties of the error, e.g. a `code`. */
+      readonly properties: Readonly<Record<string, unknown>>;
+    }
+  | { readonly type: 'value'; readonly value: unknown };
+
+/**
+ * Payload of a reply envelope: the `Result` the remote handler returned,
+ * or the exception it threw.
+ */
+export type RemoteReply =
+  | { readonly status: 'ok'; readonly value: unknown }
+  | { readonly status: 'err'; readonly error: SerializedError }
+  | { readonly status: 'exception'; readonly error: SerializedError };
+
+export interface RemoteBusClientOptions {
+  /**
+   * Event type the replies to this client are published under. Each running
+   * instance needs its own, e.g. `orders-api.replies.<instance id>`.
+   */
+  readonly replyTo: string;
+  /** Prepended to the message class name to form the request event type. Default: `''`. */
+  readonly typePrefix?: string;
+  /** How long to wait for a reply. Default: 30 seconds. */
+  readonly timeoutMs?: number;
+  /** Generates envelope ids. Default: `crypto.randomUUID()`. */
+  readonly generateId?: () => string;
+  readonly now?: () => Date;
+}
+
+export interface DistributedCommandBusOptions {
+  /**
+   * `false` only publishes remote commands and resolves with `Result.ok`
+   * once published, without waiting for the handler. Default: `true`.
+   */
+  readonly awaitReplies?: boolean;
+}
+
+export interface RemoteHandlerHostOptions {
+  /** Must match the `typePrefix` of the clients. Default: `''`. */
+  readonly typePrefix?: string;
+  /** Generates envelope ids. Default: `crypto.randomUUID()`. */
+  readonly generateId?: () => string;
+  readonly now?: () => Date;
+}
@@ -4,9 +4,14 @@ const DEFAULT_THRESHOLD_MS = 5000;
 
 /**
  * Tracks eventual consistency lag per projection and reports on overall health.
+ *
+ * Lag samples are the time between an event occurring and it being projected;
+ * `recordPosition` adds how many events a projection's checkpoint is behind
+ * the head of the event log. `ProjectionDaemon` records both.
  */
 export class ConsistencyMonitor {
   private readonly lags = new Map<string, number[]>();
+  private readonly positions = new Map<string, { checkpoint: number; head: number }>();
 
   recordLag(projectionName: string, lagMs: number): void {
     if (!this.lags.has(projectionName)) {
@@ -15,6 +20,18 @@ export class ConsistencyMonitor {
     this.lags.get(projectionName)!.push(lagMs);
   }
 
+  recordPosition(projectionName: string, checkpoint: number, headPosition: number): void {
+    this.positions.set(projectionName, { checkpoint, head: headPosition });
+    if (!this.lags.has(projectionName)) {
+      this.lags.set(projectionName, []);
+    }
+  }
+
+  getEventsBehind(projectionName: string): number {
+    const position = this.positions.get(projectionName);
+    return position === undefined ? 0 : Math.max(0, position.head - position.checkpoint);
+  }
+
   getAverageLag(projectionName: string): number {
     const values = this.lags.get(projectionName);
     if (!values || values.length === 0) return 0;
@@ -46,6 +63,7 @@ export class ConsistencyMonitor {
         averageLagMs: this.getAverageLag(name),
         maxLagMs: this.getMaxLag(name),
         sampleCount: this.getSampleCount(name),
+        eventsBehind: this.getEventsBehind(name),
         isHealthy: healthy,
       };
     }
@@ -55,5 +73,6 @@ export class ConsistencyMonitor {
 
   reset(): void {
     this.lags.clear();
+    this.positions.clear();
   }
 }
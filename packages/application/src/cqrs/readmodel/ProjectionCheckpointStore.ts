@@ -0,0 +1,17 @@
+import type { ProjectionCheckpointStore } from './types.js';
+
+/**
+ * In-memory implementation of ProjectionCheckpointStore.
+ */
+export class InMemoryProjectionCheckpointStore implements ProjectionCheckpointStore {
+  private readonly positions = new Map<string, number>();
+
+  load(projectionName: string): Promise<number | undefined> {
+    return Promise.resolve(this.positions.get(projectionName));
+  }
+
+  save(projectionName: string, position: number): Promise<void> {
+    this.positions.set(projectionName, position);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,352 @@
+import type { ConsistencyMonitor } from './ConsistencyMonitor.js';
+import type { Projection } from './Projection.js';
+import type {
+  PositionedProjectedEvent,
+  ProjectionCheckpointStore,
+  ProjectionEventSource,
+  ProjectionStatus,
+  RebuildResult,
+} from './types.js';
+
+export interface ProjectionDaemonOptions {
+  /** How often to poll the event source (ms). Default: 1000. */
+  pollIntervalMs?: number;
+  /** Maximum events read and projected per batch. Default: 100. */
+  batchSize?: number;
+  /**
+   * Number of partitions a batch is split into by aggregate id. Partitions
+   * are projected in parallel; events of one aggregate stay in order.
+   * Default: 1 (sequential).
+   */
+  partitions?: number;
+  /**
+   * How long a hole in the positions of the source is waited on before it is
+   * skipped (ms). Concurrent writers may commit positions out of order, so a
+   * hole may belong to an append still in flight. Default: 5000.
+   */
+  gapTimeoutMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<ProjectionDaemonOptions> = {
+  pollIntervalMs: 1000,
+  batchSize: 100,
+  partitions: 1,
+  gapTimeoutMs: 5000,
+};
+
+/** A hole after `after` in the positions, first seen at `since`. */
+interface PositionGap {
+  readonly after: number;
+  readonly since: number;
+}
+
+interface ProjectionEntry {
+  projection: Projection;
+  position: number;
+  paused: boolean;
+  lastError: Error | undefined;
+  /** Serialises runs and the rebuild swap of one projection. */
+  lock: Promise<void>;
+  gap: PositionGap | undefined;
+}
+
+/**
+ * Long-running process that keeps projections up to date with an
+ * {@link ProjectionEventSource}.
+ *
+ * Each projection has its own checkpoint: a run reads the events after it in
+ * batches, projects each batch (partitioned by aggregate id) and then saves
+ * the position of the batch's last event. A hole in the positions holds the
+ * checkpoint back until it fills up or `gapTimeoutMs` passes, so an event
+ * committed late is not skipped. A failed batch is retried from the
+ * checkpoint on the next run, so events may be projected more than once —
+ * projections should be idempotent (e.g. by comparing `aggregateVersion`).
+ *
+ * {@link rebuild} performs a blue/green rebuild: a shadow projection is
+ * replayed from the start while the live one keeps running, then swapped in.
+ *
+ * @example
+ * ```ts
+ * const daemon = new ProjectionDaemon(source, checkpoints, { partitions: 4 }, monitor);
+ * daemon.register(new UserProjection(users));
+ * daemon.start();
+ * ```
+ */
+export class ProjectionDaemon {
+  private readonly resolvedOptions: Required<ProjectionDaemonOptions>;
+  private readonly entries = new Map<string, ProjectionEntry>();
+  private intervalHandle: ReturnType<typeof setInterval> | undefined;
+  private running: Promise<void> | undefined;
+
+  constructor(
+    private readonly source: ProjectionEventSource,
+    private readonly checkpoints: ProjectionCheckpointStore,
+    options?: ProjectionDaemonOptions,
+    private readonly monitor?: ConsistencyMonitor,
+  ) {
+    this.resolvedOptions = { ...DEFAULT_OPTIONS, ...options };
+    if (!Number.isInteger(this.resolvedOptions.partitions) || this.resolvedOptions.partitions < 1) {
+      throw new Error(
+        `partitions must be a positive integer, got ${this.resolvedOptions.partitions}`,
+      );
+    }
+  }
+
+  register(projection: Projection): void {
+    if (this.entries.has(projection.name)) {
+      throw new Error(`Projection already registered: ${projection.name}`);
+    }
+    this.entries.set(projection.name, {
+      projection,
+      position: 0,
+      paused: false,
+      lastError: undefined,
+      lock: Promise.resolve(),
+      gap: undefined,
+    });
+  }
+
+  getRegisteredProjections(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /**
+   * Brings every projection that is not paused up to the head of the event
+   * source. A failing projection does not hold back the others; its error is
+   * kept in {@link getStatus}. `start()` calls this on a recurring timer.
+   */
+  runOnce(): Promise<void> {
+    // Ticks that arrive while a run is in progress join it.
+    this.running ??= this.runAll().finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  /** Starts the recurring poll timer. No-op if already running. */
+  start(): void {
+    if (this.intervalHandle !== undefined) return;
+    this.intervalHandle = setInterval(() => {
+      void this.runOnce();
+    }, this.resolvedOptions.pollIntervalMs);
+  }
+
+  /** Stops the recurring poll timer. No-op if not running. */
+  stop(): void {
+    if (this.intervalHandle === undefined) return;
+    clearInterval(this.intervalHandle);
+    this.intervalHandle = undefined;
+  }
+
+  /** Returns `true` if the daemon is currently polling. */
+  isRunning(): boolean {
+    return this.intervalHandle !== undefined;
+  }
+
+  /** Returns `false` if the most recent run of any projection failed. */
+  isHealthy(): boolean {
+    return Array.from(this.entries.values()).every((entry) => entry.lastError === undefined);
+  }
+
+  /** Stops projecting events into `projectionName` after the batch in progress. */
+  pause(projectionName: string): void {
+    this.entryOf(projectionName).paused = true;
+  }
+
+  /** Resumes a paused projection from its checkpoint on the next run. */
+  resume(projectionName: string): void {
+    this.entryOf(projectionName).paused = false;
+  }
+
+  getStatus(projectionName: string): ProjectionStatus {
+    const { position, paused, lastError } = this.entryOf(projectionName);
+    return { name: projectionName, position, paused, lastError };
+  }
+
+  /**
+   * Blue/green rebuild of a registered projection.
+   *
+   * `shadow` — typically the same projection writing to a fresh read model
+   * store — is reset and replayed from the first event while the live
+   * projection keeps being updated. Once it has caught up, the remaining
+   * events are applied and the shadow replaces the live projection under the
+   * projection's lock, so no event is skipped or projected twice. `onSwap`
+   * runs at that point, e.g. to switch a {@link SwappableReadModelStore}.
+   * `shadow` must have the same name, as it takes over the checkpoint.
+   */
+  async rebuild(
+    projectionName: string,
+    shadow: Projection,
+    onSwap?: () => void | Promise<void>,
+  ): Promise<RebuildResult> {
+    const entry = this.entryOf(projectionName);
+    if (shadow.name !== projectionName) {
+      throw new Error(`Shadow projection ${shadow.name} cannot replace ${projectionName}`);
+    }
+    const start = Date.now();
+    await shadow.reset();
+
+    const replayed = await this.replay(shadow, 0);
+    const eventsProcessed = await this.exclusive(entry, async () => {
+      const rest = await this.replay(shadow, replayed.position);
+      await this.checkpoints.save(projectionName, rest.position);
+      await onSwap?.();
+      entry.projection = shadow;
+      entry.position = rest.position;
+      entry.lastError = undefined;
+      return replayed.count + rest.count;
+    });
+
+    return { projectionName, eventsProcessed, errors: 0, durationMs: Date.now() - start };
+  }
+
+  private async runAll(): Promise<void> {
+    await Promise.all(
+      Array.from(this.entries, ([name, entry]) =>
+        this.exclusive(entry, () => this.run(name, entry)),
+      ),
+    );
+  }
+
+  private async run(name: string, entry: ProjectionEntry): Promise<void> {
+    try {
+      entry.position = (await this.checkpoints.load(name)) ?? 0;
+      if (!entry.paused) await this.catchUp(name, entry);
+      entry.lastError = undefined;
+      // Paused projections keep reporting how far they fall behind.
+      this.monitor?.recordPosition(name, entry.position, await this.source.headPosition());
+    } catch (err) {
+      entry.lastError = err instanceof Error ? err : new Error(String(err));
+    }
+  }
+
+  private async catchUp(name: string, entry: ProjectionEntry): Promise<void> {
+    let batch: PositionedProjectedEvent[];
+    let ready: PositionedProjectedEvent[];
+    do {
+      batch = await this.source.readAfter(entry.position, this.resolvedOptions.batchSize);
+      ready = this.contiguous(entry, entry.position, batch);
+      await this.project(name, entry, ready);
+    } while (ready.length === batch.length && this.hasMore(entry, batch));
+  }
+
+  private async project(
+    name: string,
+    entry: ProjectionEntry,
+    batch: PositionedProjectedEvent[],
+  ): Promise<void> {
+    const last = batch.at(-1);
+    if (last === undefined) return;
+    await this.projectBatch(entry.projection, batch);
+    await this.checkpoints.save(name, last.position);
+    entry.position = last.position;
+    this.monitor?.recordLag(name, Date.now() - last.event.occurredAt.getTime());
+  }
+
+  /** A full batch means more events may be waiting, unless the projection was paused meanwhile. */
+  private hasMore(entry: ProjectionEntry, batch: PositionedProjectedEvent[]): boolean {
+    return batch.length === this.resolvedOptions.batchSize && !entry.paused;
+  }
+
+  /** Projects all events after `position` into `projection`; returns where it stopped. */
+  private async replay(
+    projection: Projection,
+    position: number,
+  ): Promise<{ position: number; count: number }> {
+    const gaps: Pick<ProjectionEntry, 'gap'> = { gap: undefined };
+    let current = position;
+    let count = 0;
+    let batch: PositionedProjectedEvent[];
+    let ready: PositionedProjectedEvent[];
+    do {
+      batch = await this.source.readAfter(current, this.resolvedOptions.batchSize);
+      ready = this.contiguous(gaps, current, batch);
+      await this.projectBatch(projection, ready);
+      current = ready.at(-1)?.position ?? current;
+      count += ready.length;
+    } while (ready.length === batch.length && batch.length === this.resolvedOptions.batchSize);
+    return { position: current, count };
+  }
+
+  /** The events of `batch` before the first hole in the positions that is still waited on. */
+  private contiguous(
+    tracker: Pick<ProjectionEntry, 'gap'>,
+    position: number,
+    batch: PositionedProjectedEvent[],
+  ): PositionedProjectedEvent[] {
+    let current = position;
+    for (const [index, { position: next }] of batch.entries()) {
+      if (!this.canAdvance(tracker, current, next)) return batch.slice(0, index);
+      current = next;
+    }
+    return batch;
+  }
+
+  private canAdvance(
+    tracker: Pick<ProjectionEntry, 'gap'>,
+    position: number,
+    next: number,
+  ): boolean {
+    if (next === position + 1) return true;
+    const now = Date.now();
+    if (tracker.gap?.after !== position) tracker.gap = { after: position, since: now };
+    if (now - tracker.gap.since < this.resolvedOptions.gapTimeoutMs) return false;
+    tracker.gap = undefined;
+    return true;
+  }
+
+  /**
+   * Projects each partition of the batch in order, partitions in parallel.
+   * Waits for every partition before reporting the first failure, so no
+   * work is still in flight once the lock is released.
+   */
+  private async projectBatch(
+    projection: Projection,
+    batch: PositionedProjectedEvent[],
+  ): Promise<void> {
+    const results = await Promise.allSettled(
+      this.partition(batch).map(async (events) => {
+        for (const { event } of events) {
+          await projection.project(event);
+        }
+      }),
+    );
+    const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failure !== undefined) throw failure.reason;
+  }
+
+  private partition(batch: PositionedProjectedEvent[]): PositionedProjectedEvent[][] {
+    const { partitions } = this.resolvedOptions;
+    if (partitions === 1) return [batch];
+    const buckets: PositionedProjectedEvent[][] = Array.from({ length: partitions }, () => []);
+    for (const positioned of batch) {
+      buckets[partitionOf(positioned.event.aggregateId, partitions)]!.push(positioned);
+    }
+    return buckets.filter((bucket) => bucket.length > 0);
+  }
+
+  private exclusive<T>(entry: ProjectionEntry, task: () => Promise<T>): Promise<T> {
+    const result = entry.lock.then(task);
+    entry.lock = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    return result;
+  }
+
+  private entryOf(projectionName: string): ProjectionEntry {
+    const entry = this.entries.get(projectionName);
+    if (!entry) {
+      throw new Error(`Projection not registered: ${projectionName}`);
+    }
+    return entry;
+  }
+}
+
+function partitionOf(key: string, partitions: number): number {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash) % partitions;
+}
@@ -30,3 +30,39 @@ export class InMemoryReadModelStore<T extends ReadModel> implements ReadModelSto
     return this.map.size;
   }
 }
+
+/**
+ * ReadModelStore that delegates to a target which can be replaced at runtime.
+ * Queries go through it, so a blue/green projection rebuild can switch them
+ * to the freshly built store in one step.
+ */
+export class SwappableReadModelStore<T extends ReadModel> implements ReadModelStore<T> {
+  constructor(private target: ReadModelStore<T>) {}
+
+  /** Routes all further calls to `next` and returns the previous target. */
+  swap(next: ReadModelStore<T>): ReadModelStore<T> {
+    const previous = this.target;
+    this.target = next;
+    return previous;
+  }
+
+  save(model: T): Promise<void> {
+    return this.target.save(model);
+  }
+
+  findById(id: string): Promise<T | undefined> {
+    return this.target.findById(id);
+  }
+
+  findAll(): Promise<T[]> {
+    return this.target.findAll();
+  }
+
+  delete(id: string): Promise<void> {
+    return this.target.delete(id);
+  }
+
+  size(): number {
+    return this.target.size();
+  }
+}
@@ -7,10 +7,17 @@ export type {
   RebuildResult,
   ProjectionConsistencyStats,
   ConsistencyReport,
+  PositionedProjectedEvent,
+  ProjectionEventSource,
+  ProjectionCheckpointStore,
+  ProjectionStatus,
 } from './types.js';
 export type { Projection } from './Projection.js';
 export { BaseProjection } from './Projection.js';
-export { InMemoryReadModelStore } from './ReadModelStore.js';
+export { InMemoryReadModelStore, SwappableReadModelStore } from './ReadModelStore.js';
+export { InMemoryProjectionCheckpointStore } from './ProjectionCheckpointStore.js';
+export { ProjectionDaemon } from './ProjectionDaemon.js';
+export type { ProjectionDaemonOptions } from './ProjectionDaemon.js';
 export { ProjectionRebuildManager } from './ProjectionRebuildManager.js';
 export { ConsistencyMonitor } from './ConsistencyMonitor.js';
 export { InMemorySnapshotStore, shouldTakeSnapshot } from './SnapshotStore.js';
@@ -10,6 +10,44 @@ export interface ProjectedEvent {
   readonly payload?: unknown;
 }
 
+/**
+ * A projected event together with its position in the global event order.
+ */
+export interface PositionedProjectedEvent {
+  readonly position: number;
+  readonly event: ProjectedEvent;
+}
+
+/**
+ * Source the projection daemon reads events from, by global position
+ * (e.g. an adapter over an event store's `$all` stream).
+ */
+export interface ProjectionEventSource {
+  /** Up to `limit` events with a position greater than `position`, in order. */
+  readAfter(position: number, limit: number): Promise<PositionedProjectedEvent[]>;
+  /** Position of the last event written (0 when there are none). */
+  headPosition(): Promise<number>;
+}
+
+/**
+ * Persists the position each projection has processed up to.
+ */
+export interface ProjectionCheckpointStore {
+  load(projectionName: string): Promise<number | undefined>;
+  save(projectionName: string, position: number): Promise<void>;
+}
+
+/**
+ * Runtime state of a projection managed by the projection daemon.
+ */
+export interface ProjectionStatus {
+  readonly name: string;
+  readonly position: number;
+  readonly paused: boolean;
+  /** Error of the most recent run, if it failed. */
+  readonly lastError: Error | undefined;
+}
+
 /**
  * Base read model shape. Every read model must have an id, version and updatedAt.
  */
@@ -67,6 +105,8 @@ export interface ProjectionConsistencyStats {
   readonly averageLagMs: number;
   readonly maxLagMs: number;
   readonly sampleCount: number;
+  /** Events between the projection's checkpoint and the head of the event log. */
+  readonly eventsBehind: number;
   readonly isHealthy: boolean;
 }
 
@@ -6,12 +6,25 @@ export type {
   PostProcessor,
   MediatorLogEntry,
   CacheEntry,
+  StreamRequestHandler,
+  StreamPipelineBehavior,
+  NotificationHandler,
+  HandlerFactory,
+  HandlerSource,
+  BehaviorOptions,
+  PublishStrategy,
+  MediatorOptions,
 } from './mediator/index.js';
-export { MediatorRequest } from './mediator/index.js';
+export type { RequestMetadata } from './mediator/index.js';
+export { MediatorRequest, StreamRequest } from './mediator/index.js';
 export { Mediator } from './mediator/index.js';
 export { LoggingBehavior } from './mediator/index.js';
 export { ValidationBehavior, MediatorValidationError } from './mediator/index.js';
 export { CachingBehavior } from './mediator/index.js';
+export { requestMetadata } from './mediator/index.js';
+export { UnitOfWorkBehavior, ResilienceBehavior, IdempotencyBehavior } from './mediator/index.js';
+export { AuthorizationBehavior, MediatorAuthorizationError } from './mediator/index.js';
+export { MetricsBehavior, TracingBehavior } from './mediator/index.js';
 
 // CQRS – Read model projections (CQRS avançado)
 export type {
@@ -23,10 +36,16 @@ export type {
   RebuildResult,
   ProjectionConsistencyStats,
   ConsistencyReport,
+  PositionedProjectedEvent,
+  ProjectionEventSource,
+  ProjectionCheckpointStore,
+  ProjectionStatus,
+  ProjectionDaemonOptions,
 } from './cqrs/readmodel/index.js';
 export type { Projection } from './cqrs/readmodel/index.js';
 export { BaseProjection } from './cqrs/readmodel/index.js';
-export { InMemoryReadModelStore } from './cqrs/readmodel/index.js';
+export { InMemoryReadModelStore, SwappableReadModelStore } from './cqrs/readmodel/index.js';
+export { InMemoryProjectionCheckpointStore, ProjectionDaemon } from './cqrs/readmodel/index.js';
 export { ProjectionRebuildManager } from './cqrs/readmodel/index.js';
 export { ConsistencyMonitor } from './cqrs/readmodel/index.js';
 export { InMemorySnapshotStore, shouldTakeSnapshot } from './cqrs/readmodel/index.js';
@@ -43,6 +62,20 @@ export type { QueryHandler } from './cqrs/QueryHandler';
 export type { QueryBus, QueryConstructor } from './cqrs/QueryBus';
 export { InMemoryQueryBus } from './cqrs/QueryBus';
 
+// CQRS – Distributed buses
+export type {
+  RemoteMessageKind,
+  SerializedError,
+  RemoteReply,
+  RemoteBusClientOptions,
+  DistributedCommandBusOptions,
+  RemoteHandlerHostOptions,
+} from './cqrs/distributed/index';
+export { RemoteHandlerError, RemoteRequestTimeoutError } from './cqrs/distributed/index';
+export { MessageTypeRegistry, RemoteBusClient } from './cqrs/distributed/index';
+export { DistributedCommandBus, DistributedQueryBus } from './cqrs/distributed/index';
+export { RemoteHandlerHost } from './cqrs/distributed/index';
+
 // Use Cases
 export type { UseCase } from './usecases/UseCase';
 export type { UseCaseContext } from './usecases/UseCaseContext';
@@ -1,35 +1,114 @@
-import type { MediatorRequest, RequestHandler, PipelineBehavior } from './types.js';
+import type {
+  BehaviorOptions,
+  HandlerSource,
+  MediatorOptions,
+  MediatorRequest,
+  NotificationHandler,
+  PipelineBehavior,
+  PublishStrategy,
+  RequestHandler,
+  StreamPipelineBehavior,
+  StreamRequest,
+  StreamRequestHandler,
+} from './types.js';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type AnyConstructor = new (...args: any[]) => unknown;
 
+interface Registered<TBehavior> {
+  readonly behavior: TBehavior;
+  readonly requestTypes: BehaviorOptions['requestTypes'];
+}
+
 /**
  * Mediator that dispatches requests through an ordered pipeline of behaviors
- * before delivering them to the registered handler.
+ * before delivering them to the registered handler. It also publishes
+ * notifications to any number of handlers and streams the items of
+ * {@link StreamRequest}s through their own pipeline.
+ *
+ * Handlers may be registered as instances or as factories; a factory is
+ * called on every dispatch, so each request can get scoped dependencies.
  */
 export class Mediator {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private readonly handlers = new Map<string, RequestHandler<any, any>>();
+  private readonly handlers = new Map<string, HandlerSource<RequestHandler<any, any>>>();
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private readonly behaviors: PipelineBehavior<any, any>[] = [];
+  private readonly behaviors: Registered<PipelineBehavior<any, any>>[] = [];
+  private readonly streamHandlers = new Map<
+    string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    HandlerSource<StreamRequestHandler<any, any>>
+  >();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private readonly streamBehaviors: Registered<StreamPipelineBehavior<any, any>>[] = [];
+  private readonly notificationHandlers = new Map<
+    string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    HandlerSource<NotificationHandler<any>>[]
+  >();
+  private readonly publishStrategy: PublishStrategy;
+  private readonly onPublishError: (error: unknown, notification: object) => void;
+
+  constructor(options: MediatorOptions = {}) {
+    this.publishStrategy = options.publishStrategy ?? 'sequential';
+    this.onPublishError = options.onPublishError ?? ((): void => undefined);
+  }
 
   /**
-   * Register a handler for a request type.
+   * Register a handler, or a factory creating one per dispatch, for a request type.
    */
   register<TRequest, TResponse>(
     requestType: AnyConstructor,
-    handler: RequestHandler<TRequest, TResponse>,
+    handler: HandlerSource<RequestHandler<TRequest, TResponse>>,
   ): void {
     this.handlers.set(requestType.name, handler);
   }
 
+  /**
+   * Register a handler, or a factory creating one per dispatch, for a streaming request type.
+   */
+  registerStream<TRequest, TItem>(
+    requestType: AnyConstructor,
+    handler: HandlerSource<StreamRequestHandler<TRequest, TItem>>,
+  ): void {
+    this.streamHandlers.set(requestType.name, handler);
+  }
+
+  /**
+   * Add a handler, or a factory creating one per publish, for a notification
+   * type. Handlers run in the order they were added.
+   */
+  subscribe<TNotification>(
+    notificationType: AnyConstructor,
+    handler: HandlerSource<NotificationHandler<TNotification>>,
+  ): void {
+    const handlers = this.notificationHandlers.get(notificationType.name) ?? [];
+    handlers.push(handler);
+    this.notificationHandlers.set(notificationType.name, handlers);
+  }
+
   /**
    * Add a cross-cutting pipeline behavior.
    * Behaviors with lower `order` run first (default order is 0).
+   * With `requestTypes`, it only wraps requests of those types.
    */
-  addBehavior<TRequest, TResponse>(behavior: PipelineBehavior<TRequest, TResponse>): void {
-    this.behaviors.push(behavior);
-    this.behaviors.sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  addBehavior<TRequest, TResponse>(
+    behavior: PipelineBehavior<TRequest, TResponse>,
+    options: BehaviorOptions = {},
+  ): void {
+    this.behaviors.push({ behavior, requestTypes: options.requestTypes });
+    this.behaviors.sort((a, b) => (a.behavior.order ?? 0) - (b.behavior.order ?? 0));
+  }
+
+  /**
+   * Add a behavior wrapping streaming requests, ordered like {@link addBehavior}.
+   */
+  addStreamBehavior<TRequest, TItem>(
+    behavior: StreamPipelineBehavior<TRequest, TItem>,
+    options: BehaviorOptions = {},
+  ): void {
+    this.streamBehaviors.push({ behavior, requestTypes: options.requestTypes });
+    this.streamBehaviors.sort((a, b) => (a.behavior.order ?? 0) - (b.behavior.order ?? 0));
   }
 
   /**
@@ -38,28 +117,92 @@ export class Mediator {
    */
   async send<TResponse>(request: MediatorRequest<TResponse>): Promise<TResponse> {
     const key = request.constructor.name;
-    const handler = this.handlers.get(key) as RequestHandler<unknown, TResponse> | undefined;
+    const source = this.handlers.get(key) as
+      | HandlerSource<RequestHandler<unknown, TResponse>>
+      | undefined;
 
-    if (handler === undefined) {
+    if (source === undefined) {
       throw new Error(`No handler registered for request: ${key}`);
     }
 
-    return this.runPipeline(request, handler, 0);
+    const behaviors = applicable(this.behaviors, request) as PipelineBehavior<unknown, TResponse>[];
+    return this.runPipeline(request, resolve(source), behaviors, 0);
+  }
+
+  /**
+   * Dispatch a streaming request through the stream pipeline and to its handler.
+   * Throws if no stream handler is registered for the request type.
+   */
+  stream<TItem>(request: StreamRequest<TItem>): AsyncIterable<TItem> {
+    const key = request.constructor.name;
+    const source = this.streamHandlers.get(key) as
+      | HandlerSource<StreamRequestHandler<unknown, TItem>>
+      | undefined;
+
+    if (source === undefined) {
+      throw new Error(`No stream handler registered for request: ${key}`);
+    }
+
+    const behaviors = applicable(this.streamBehaviors, request) as StreamPipelineBehavior<
+      unknown,
+      TItem
+    >[];
+    return this.runStreamPipeline(request, resolve(source), behaviors, 0);
+  }
+
+  /**
+   * Deliver a notification to all its handlers using `strategy`, by default
+   * the one the mediator was created with. Does nothing without handlers.
+   */
+  async publish(
+    notification: object,
+    strategy: PublishStrategy = this.publishStrategy,
+  ): Promise<void> {
+    const sources = this.notificationHandlers.get(notification.constructor.name) ?? [];
+    const deliver = (source: HandlerSource<NotificationHandler<unknown>>): Promise<void> =>
+      resolve(source).handle(notification);
+
+    switch (strategy) {
+      case 'sequential':
+        for (const source of sources) await deliver(source);
+        return;
+      case 'parallel':
+        return settleAll(sources.map(deliver), notification);
+      case 'fire-and-forget':
+        for (const source of sources) {
+          deliver(source).catch((error: unknown) => this.onPublishError(error, notification));
+        }
+    }
   }
 
   private runPipeline<TResponse>(
     request: unknown,
     handler: RequestHandler<unknown, TResponse>,
+    behaviors: readonly PipelineBehavior<unknown, TResponse>[],
     index: number,
   ): Promise<TResponse> {
-    if (index >= this.behaviors.length) {
+    const behavior = behaviors[index];
+    if (behavior === undefined) {
+      return handler.handle(request);
+    }
+
+    return behavior.handle(request, () => this.runPipeline(request, handler, behaviors, index + 1));
+  }
+
+  private runStreamPipeline<TItem>(
+    request: unknown,
+    handler: StreamRequestHandler<unknown, TItem>,
+    behaviors: readonly StreamPipelineBehavior<unknown, TItem>[],
+    index: number,
+  ): AsyncIterable<TItem> {
+    const behavior = behaviors[index];
+    if (behavior === undefined) {
       return handler.handle(request);
     }
 
-    const behavior = this.behaviors[index]!;
     return behavior.handle(request, () =>
-      this.runPipeline(request, handler, index + 1),
-    ) as Promise<TResponse>;
+      this.runStreamPipeline(request, handler, behaviors, index + 1),
+    );
   }
 
   /** Number of registered request handlers. */
@@ -71,4 +214,40 @@ export class Mediator {
   behaviorCount(): number {
     return this.behaviors.length;
   }
+
+  /** Number of handlers subscribed to a notification type. */
+  notificationHandlerCount(notificationType: AnyConstructor): number {
+    return this.notificationHandlers.get(notificationType.name)?.length ?? 0;
+  }
+}
+
+function resolve<THandler>(source: HandlerSource<THandler>): THandler {
+  return typeof source === 'function' ? (source as () => THandler)() : source;
+}
+
+function applicable<TBehavior>(
+  behaviors: readonly Registered<TBehavior>[],
+  request: object,
+): TBehavior[] {
+  return behaviors
+    .filter(
+      ({ requestTypes }) =>
+        requestTypes === undefined || requestTypes.some((type) => request instanceof type),
+    )
+    .map(({ behavior }) => behavior);
+}
+
+/** Waits for every handler; rethrows a single failure, or all of them as an `AggregateError`. */
+async function settleAll(deliveries: Promise<void>[], notification: object): Promise<void> {
+  const results = await Promise.allSettled(deliveries);
+  const errors = results.flatMap((result): unknown[] =>
+    result.status === 'rejected' ? [result.reason] : [],
+  );
+  if (errors.length === 1) throw errors[0];
+  if (errors.length > 1) {
+    throw new AggregateError(
+      errors,
+      `${errors.length} handlers failed for notification: ${notification.constructor.name}`,
+    );
+  }
 }
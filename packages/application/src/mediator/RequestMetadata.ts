@@ -0,0 +1,45 @@
+import type { RetryPolicy } from '@marcusprado02/resilience';
+
+/**
+ * Declares how the built-in pipeline behaviors treat a request type.
+ * Set it as a static `metadata` property of the request class; subclasses
+ * inherit it.
+ *
+ * @example
+ * ```ts
+ * class PlaceOrderCommand extends MediatorRequest<string> {
+ *   static readonly metadata: RequestMetadata = {
+ *     transactional: true,
+ *     permission: 'orders:place',
+ *     retry: { maxAttempts: 3, delayMs: 100 },
+ *   };
+ * }
+ * ```
+ */
+export interface RequestMetadata {
+  /** Name used in metrics and spans. Defaults to the request class name. */
+  readonly name?: string;
+  /** Runs the handler inside a `UnitOfWork` transaction (UnitOfWorkBehavior). */
+  readonly transactional?: boolean;
+  /** Permission the current principal must be granted (AuthorizationBehavior). */
+  readonly permission?: string;
+  /** Retries the handler with this policy (ResilienceBehavior). */
+  readonly retry?: RetryPolicy;
+  /** Name of the circuit breaker guarding the handler (ResilienceBehavior). */
+  readonly circuitBreaker?: string;
+  /** How long the response of an idempotent request is kept (IdempotencyBehavior). */
+  readonly idempotencyTtlMs?: number;
+}
+
+/**
+ * The metadata declared on the request's class, or an empty object.
+ */
+export function requestMetadata(request: unknown): RequestMetadata {
+  const type = (request as object).constructor as { readonly metadata?: RequestMetadata };
+  return type.metadata ?? {};
+}
+
+/** The name of the request in metrics and spans. */
+export function requestName(request: unknown): string {
+  return requestMetadata(request).name ?? (request as object).constructor.name;
+}
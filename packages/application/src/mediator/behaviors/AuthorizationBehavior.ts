@@ -0,0 +1,63 @@
+import { Permission, PolicyDecision } from '@marcusprado02/security';
+import type { AuthenticatedPrincipal, PolicyEnginePort } from '@marcusprado02/security';
+import type { PipelineBehavior } from '../types.js';
+import { requestMetadata } from '../RequestMetadata.js';
+
+/**
+ * Thrown when the current principal may not send a request.
+ */
+export class MediatorAuthorizationError extends Error {
+  constructor(
+    public readonly requestType: string,
+    public readonly permission: string,
+    public readonly principalId?: string,
+  ) {
+    super(
+      principalId === undefined
+        ? `Unauthenticated request: ${requestType} requires "${permission}"`
+        : `Principal "${principalId}" lacks "${permission}" for request: ${requestType}`,
+    );
+    this.name = 'MediatorAuthorizationError';
+  }
+}
+
+/**
+ * Pipeline behavior that checks the `permission` declared in the request
+ * metadata against a {@link PolicyEnginePort}. Requests without a permission
+ * pass through. Ordered at 15 — after logging, before validation.
+ *
+ * @param policyEngine      Decides whether the principal holds the permission.
+ * @param resolvePrincipal  The principal sending the request, e.g. from the
+ *                          request itself or an async-local context.
+ */
+export class AuthorizationBehavior<
+  TRequest = unknown,
+  TResponse = unknown,
+> implements PipelineBehavior<TRequest, TResponse> {
+  readonly order = 15;
+
+  constructor(
+    private readonly policyEngine: PolicyEnginePort,
+    private readonly resolvePrincipal: (
+      request: TRequest,
+    ) => AuthenticatedPrincipal | undefined | Promise<AuthenticatedPrincipal | undefined>,
+  ) {}
+
+  async handle(request: TRequest, next: () => Promise<TResponse>): Promise<TResponse> {
+    const { permission } = requestMetadata(request);
+    if (permission === undefined) {
+      return next();
+    }
+
+    const requestType = (request as object).constructor.name;
+    const principal = await this.resolvePrincipal(request);
+    if (principal === undefined) {
+      throw new MediatorAuthorizationError(requestType, permission);
+    }
+    const decision = await this.policyEngine.evaluate(principal, Permission.create(permission));
+    if (decision !== PolicyDecision.ALLOW) {
+      throw new MediatorAuthorizationError(requestType, permission, principal.id);
+    }
+    return next();
+  }
+}
@@ -0,0 +1,71 @@
+import type { PipelineBehavior } from '../types.js';
+import type { IdempotencyStorePort } from '../../idempotency/IdempotencyStorePort';
+import type { IdempotencyMetrics } from '../../idempotency/IdempotencyMetrics';
+import { IdempotencyKey } from '../../idempotency/IdempotencyKey';
+import { IdempotencyConflictError } from '../../idempotency/IdempotencyConflictError';
+import { requestMetadata } from '../RequestMetadata.js';
+
+/**
+ * Pipeline behavior that handles requests carrying an `idempotencyKey` at
+ * most once, like `IdempotentUseCase`: a repeated request gets the stored
+ * response, a concurrent duplicate fails with {@link IdempotencyConflictError}
+ * and a failed handler releases the key so the request can be retried.
+ * Requests without a key pass through. Ordered at 40 — before retries and
+ * transactions, so they all happen within the first request.
+ *
+ * @param store         Stores the keys and responses.
+ * @param defaultTtlMs  How long responses are kept, unless the request
+ *                      metadata sets `idempotencyTtlMs`.
+ * @param metrics       Optional hit/miss/conflict counters.
+ */
+export class IdempotencyBehavior<
+  TRequest = unknown,
+  TResponse = unknown,
+> implements PipelineBehavior<TRequest, TResponse> {
+  readonly order = 40;
+
+  constructor(
+    private readonly store: IdempotencyStorePort<TResponse>,
+    private readonly defaultTtlMs: number,
+    private readonly metrics?: IdempotencyMetrics,
+  ) {}
+
+  async handle(request: TRequest, next: () => Promise<TResponse>): Promise<TResponse> {
+    const key = (request as { readonly idempotencyKey?: unknown }).idempotencyKey;
+    if (!(key instanceof IdempotencyKey)) {
+      return next();
+    }
+    const ttlMs = requestMetadata(request).idempotencyTtlMs ?? this.defaultTtlMs;
+
+    const cached = await this.store.getResult(key);
+    if (cached !== null) {
+      this.metrics?.recordHit();
+      return cached;
+    }
+    if (!(await this.store.tryAcquire(key, ttlMs))) {
+      return this.duplicate(key);
+    }
+
+    this.metrics?.recordMiss();
+    try {
+      const result = await next();
+      await this.store.storeResult(key, result, ttlMs);
+      return result;
+    } catch (error) {
+      await this.store.release(key);
+      this.metrics?.recordError();
+      throw error;
+    }
+  }
+
+  /** Another request holds the key — return its response if it completed. */
+  private async duplicate(key: IdempotencyKey): Promise<TResponse> {
+    const cached = await this.store.getResult(key);
+    if (cached !== null) {
+      this.metrics?.recordHit();
+      return cached;
+    }
+    this.metrics?.recordConflict();
+    throw new IdempotencyConflictError(key.value);
+  }
+}
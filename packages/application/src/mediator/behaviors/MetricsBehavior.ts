@@ -0,0 +1,38 @@
+import type { MetricsPort } from '@marcusprado02/kernel';
+import type { PipelineBehavior } from '../types.js';
+import { requestName } from '../RequestMetadata.js';
+
+/**
+ * Pipeline behavior that counts requests and records their duration through
+ * a {@link MetricsPort}, labelled by request name and outcome:
+ * `<prefix>.requests` (counter) and `<prefix>.duration_ms` (histogram).
+ * Ordered at 7 — it measures every other default behavior.
+ *
+ * @param metrics  Destination of the metrics.
+ * @param prefix   Prefix of the metric names. Default: `mediator`.
+ */
+export class MetricsBehavior<TRequest = unknown, TResponse = unknown> implements PipelineBehavior<
+  TRequest,
+  TResponse
+> {
+  readonly order = 7;
+
+  constructor(
+    private readonly metrics: MetricsPort,
+    private readonly prefix = 'mediator',
+  ) {}
+
+  async handle(request: TRequest, next: () => Promise<TResponse>): Promise<TResponse> {
+    const start = Date.now();
+    let outcome = 'failure';
+    try {
+      const result = await next();
+      outcome = 'success';
+      return result;
+    } finally {
+      const labels = { request: requestName(request), outcome };
+      this.metrics.incrementCounter(`${this.prefix}.requests`, 1, labels);
+      this.metrics.recordHistogram(`${this.prefix}.duration_ms`, Date.now() - start, labels);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { Retry } from '@marcusprado02/resilience';
+import type { CircuitBreaker } from '@marcusprado02/resilience';
+import type { PipelineBehavior } from '../types.js';
+import { requestMetadata } from '../RequestMetadata.js';
+
+/**
+ * Pipeline behavior that applies the `retry` policy and `circuitBreaker`
+ * declared in the request metadata. Every attempt goes through the breaker,
+ * and re-runs the inner behaviors and the handler. Ordered at 50.
+ *
+ * @param circuitBreakers  Breakers by name, shared by the requests naming them —
+ *                         typically one per downstream dependency.
+ */
+export class ResilienceBehavior<
+  TRequest = unknown,
+  TResponse = unknown,
+> implements PipelineBehavior<TRequest, TResponse> {
+  readonly order = 50;
+
+  constructor(private readonly circuitBreakers: Readonly<Record<string, CircuitBreaker>> = {}) {}
+
+  async handle(request: TRequest, next: () => Promise<TResponse>): Promise<TResponse> {
+    const { retry, circuitBreaker } = requestMetadata(request);
+    const breaker =
+      circuitBreaker === undefined ? undefined : this.breaker(request, circuitBreaker);
+    const attempt = breaker === undefined ? next : (): Promise<TResponse> => breaker.execute(next);
+    return retry === undefined ? attempt() : Retry.execute(attempt, retry);
+  }
+
+  private breaker(request: TRequest, name: string): CircuitBreaker {
+    const breaker = this.circuitBreakers[name];
+    if (breaker === undefined) {
+      const requestType = (request as object).constructor.name;
+      throw new Error(`Unknown circuit breaker "${name}" for request: ${requestType}`);
+    }
+    return breaker;
+  }
+}
@@ -0,0 +1,31 @@
+import type { TracerPort } from '@marcusprado02/kernel';
+import type { PipelineBehavior } from '../types.js';
+import { requestName } from '../RequestMetadata.js';
+
+/**
+ * Pipeline behavior that wraps every request in a span named after the
+ * request, recording the exception when the handler fails.
+ * Ordered at 5 — the outermost default behavior.
+ */
+export class TracingBehavior<TRequest = unknown, TResponse = unknown> implements PipelineBehavior<
+  TRequest,
+  TResponse
+> {
+  readonly order = 5;
+
+  constructor(private readonly tracer: TracerPort) {}
+
+  async handle(request: TRequest, next: () => Promise<TResponse>): Promise<TResponse> {
+    const name = requestName(request);
+    const span = this.tracer.startSpan(name, { 'mediator.request': name });
+    try {
+      return await next();
+    } catch (err) {
+      span.recordException(err instanceof Error ? err : new Error(String(err)));
+      span.setAttribute('error', true);
+      throw err;
+    } finally {
+      span.end();
+    }
+  }
+}
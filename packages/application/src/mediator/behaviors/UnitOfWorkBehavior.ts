@@ -0,0 +1,27 @@
+import type { PipelineBehavior } from '../types.js';
+import type { UnitOfWork } from '../../transactions/UnitOfWork';
+import { requestMetadata } from '../RequestMetadata.js';
+
+/**
+ * Pipeline behavior that runs the handlers of `transactional` requests inside
+ * a {@link UnitOfWork}. Ordered at 60 — the innermost default behavior, so
+ * every retry attempt gets its own transaction.
+ *
+ * @param unitOfWork  A shared unit of work, or a factory creating one per request.
+ */
+export class UnitOfWorkBehavior<
+  TRequest = unknown,
+  TResponse = unknown,
+> implements PipelineBehavior<TRequest, TResponse> {
+  readonly order = 60;
+
+  constructor(private readonly unitOfWork: UnitOfWork | (() => UnitOfWork)) {}
+
+  async handle(request: TRequest, next: () => Promise<TResponse>): Promise<TResponse> {
+    if (requestMetadata(request).transactional !== true) {
+      return next();
+    }
+    const unitOfWork = typeof this.unitOfWork === 'function' ? this.unitOfWork() : this.unitOfWork;
+    return unitOfWork.execute(next);
+  }
+}
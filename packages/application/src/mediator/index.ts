@@ -5,9 +5,28 @@ export type {
   PostProcessor,
   MediatorLogEntry,
   CacheEntry,
+  StreamRequestHandler,
+  StreamPipelineBehavior,
+  NotificationHandler,
+  HandlerFactory,
+  HandlerSource,
+  BehaviorOptions,
+  PublishStrategy,
+  MediatorOptions,
 } from './types.js';
-export { MediatorRequest } from './types.js';
+export type { RequestMetadata } from './RequestMetadata.js';
+export { MediatorRequest, StreamRequest } from './types.js';
 export { Mediator } from './Mediator.js';
 export { LoggingBehavior } from './behaviors/LoggingBehavior.js';
 export { ValidationBehavior, MediatorValidationError } from './behaviors/ValidationBehavior.js';
 export { CachingBehavior } from './behaviors/CachingBehavior.js';
+export { requestMetadata } from './RequestMetadata.js';
+export { UnitOfWorkBehavior } from './behaviors/UnitOfWorkBehavior.js';
+export {
+  AuthorizationBehavior,
+  MediatorAuthorizationError,
+} from './behaviors/AuthorizationBehavior.js';
+export { ResilienceBehavior } from './behaviors/ResilienceBehavior.js';
+export { MetricsBehavior } from './behaviors/MetricsBehavior.js';
+export { TracingBehavior } from './behaviors/TracingBehavior.js';
+export { IdempotencyBehavior } from './behaviors/IdempotencyBehavior.js';
@@ -21,6 +21,23 @@ export abstract class MediatorRequest<TResponse = void> {
   declare readonly _responseType: TResponse;
 }
 
+/**
+ * Abstract base class that encodes the item type of a streaming request.
+ * Extend it so that {@link Mediator.stream} infers the items it yields.
+ *
+ * @example
+ * ```ts
+ * class ExportOrdersQuery extends StreamRequest<Order> {
+ *   constructor(public readonly since: Date) { super(); }
+ * }
+ * for await (const order of mediator.stream(new ExportOrdersQuery(since))) { ... }
+ * ```
+ */
+export abstract class StreamRequest<TItem = unknown> {
+  /** @internal Phantom brand — never set at runtime. Carries the item type. */
+  declare readonly _itemType: TItem;
+}
+
 /**
  * Handles a single request type and returns a typed response.
  */
@@ -41,6 +58,69 @@ export interface PipelineBehavior<TRequest = unknown, TResponse = unknown> {
   handle(request: TRequest, next: () => Promise<TResponse>): Promise<TResponse>;
 }
 
+/**
+ * Handles a streaming request by yielding its items.
+ */
+export interface StreamRequestHandler<TRequest, TItem> {
+  handle(request: TRequest): AsyncIterable<TItem>;
+}
+
+/**
+ * Handles a notification. A notification type may have any number of handlers.
+ */
+export interface NotificationHandler<TNotification> {
+  handle(notification: TNotification): Promise<void>;
+}
+
+/**
+ * Creates the handler for a single dispatch, e.g. to give every request its
+ * own scoped dependencies such as a request-scoped `UnitOfWork`.
+ */
+export type HandlerFactory<THandler> = () => THandler;
+
+/** A handler instance shared by every dispatch, or a factory creating one per dispatch. */
+export type HandlerSource<THandler> = THandler | HandlerFactory<THandler>;
+
+/**
+ * Cross-cutting behavior that wraps a streaming request.
+ * Behaviors are chained in ascending `order` (lower runs first).
+ */
+export interface StreamPipelineBehavior<TRequest = unknown, TItem = unknown> {
+  /**
+   * Execution order within the pipeline. Lower numbers run first.
+   * Defaults to 0 when not provided.
+   */
+  readonly order?: number;
+  handle(request: TRequest, next: () => AsyncIterable<TItem>): AsyncIterable<TItem>;
+}
+
+/**
+ * Restricts a behavior to some request types.
+ */
+export interface BehaviorOptions {
+  /**
+   * The behavior only wraps requests that are instances of one of these
+   * types (subclasses included). Applies to every request when omitted.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  readonly requestTypes?: readonly (abstract new (...args: any[]) => unknown)[];
+}
+
+/**
+ * How {@link Mediator.publish} runs the handlers of a notification:
+ * - `sequential` — one after the other; the first failure stops the rest and rejects.
+ * - `parallel` — all at once; rejects once all settled if any failed.
+ * - `fire-and-forget` — starts all and resolves immediately; failures go to `onPublishError`.
+ */
+export type PublishStrategy = 'sequential' | 'parallel' | 'fire-and-forget';
+
+export interface MediatorOptions {
+  /** Strategy used by `publish` when none is given. Default: `sequential`. */
+  readonly publishStrategy?: PublishStrategy;
+  /** Receives failures of `fire-and-forget` handlers, which nothing awaits. */
+  readonly onPublishError?: (error: unknown, notification: object) => void;
+}
+
 /**
  * Runs logic before the request reaches the handler.
  * Convenience specialisation — implement and add as a PipelineBehavior.
@@ -1,8 +1,11 @@
-import type { Result } from '@marcusprado02/kernel';
+import type { Result, ResultAsync } from '@marcusprado02/kernel';
 
 /**
  * Use case interface for application layer operations.
+ *
+ * Implementations may return either a `Promise<Result>` or a chainable
+ * `ResultAsync`; both are awaitable to a `Result`.
  */
 export interface UseCase<TInput, TOutput, TError = Error> {
-  execute(input: TInput): Promise<Result<TOutput, TError>>;
+  execute(input: TInput): Promise<Result<TOutput, TError>> | ResultAsync<TOutput, TError>;
 }
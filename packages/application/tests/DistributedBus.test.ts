@@ -0,0 +1,301 @@
+import { describe, it, expect } from 'vitest';
+import { Result } from '@marcusprado02/kernel';
+import type {
+  EventConsumer,
+  EventEnvelope,
+  EventHandler,
+  EventPublisherPort,
+} from '@marcusprado02/messaging';
+import {
+  DistributedCommandBus,
+  DistributedQueryBus,
+  MessageTypeRegistry,
+  RemoteBusClient,
+  RemoteHandlerError,
+  RemoteHandlerHost,
+  RemoteRequestTimeoutError,
+  type Command,
+  type CommandHandler,
+  type Query,
+  type QueryHandler,
+} from '../src';
+
+// In-memory transport: JSON round-trips envelopes and delivers them asynchronously
+class LoopbackTransport {
+  readonly published: EventEnvelope[] = [];
+  readonly failures: unknown[] = [];
+  private readonly handlers = new Map<string, EventHandler<unknown>[]>();
+
+  readonly publisher: EventPublisherPort = {
+    publish: (envelope) => {
+      this.published.push(envelope);
+      const copy = JSON.parse(JSON.stringify(envelope)) as EventEnvelope;
+      for (const handler of this.handlers.get(envelope.eventType) ?? []) {
+        setTimeout(() => {
+          handler.handle(copy).catch((error: unknown) => this.failures.push(error));
+        }, 0);
+      }
+      return Promise.resolve();
+    },
+    publishBatch: async (envelopes) => {
+      for (const envelope of envelopes) await this.publisher.publish(envelope);
+    },
+  };
+
+  consumer(): EventConsumer {
+    return {
+      subscribe: (eventType, handler) => {
+        const handlers = this.handlers.get(eventType) ?? [];
+        handlers.push(handler as EventHandler<unknown>);
+        this.handlers.set(eventType, handlers);
+      },
+      start: () => Promise.resolve(),
+      stop: () => Promise.resolve(),
+    };
+  }
+}
+
+class OrderNotFoundError extends Error {
+  readonly code = 'ORDER_NOT_FOUND';
+  constructor(readonly orderId: string) {
+    super(`Order not found: ${orderId}`);
+    this.name = 'OrderNotFoundError';
+  }
+}
+
+class PlaceOrderCommand implements Command {
+  readonly _brand?: 'Command';
+  constructor(
+    public readonly customerId: string,
+    public readonly quantity: number,
+  ) {}
+}
+
+class CancelOrderCommand implements Command {
+  readonly _brand?: 'Command';
+  constructor(public readonly orderId: string) {}
+}
+
+class GetOrderQuery implements Query<{ id: string; total: number }> {
+  readonly _brand?: 'Query';
+  readonly _result?: { id: string; total: number };
+  constructor(public readonly orderId: string) {}
+
+  get cacheKey(): string {
+    return `order:${this.orderId}`;
+  }
+}
+
+const placeOrder: CommandHandler<PlaceOrderCommand, string, Error> = {
+  handle: (command) =>
+    Promise.resolve(
+      command.quantity > 0
+        ? Result.ok(`order-for-${command.customerId}`)
+        : Result.err(new Error('quantity must be positive')),
+    ),
+};
+
+function setup(options: { timeoutMs?: number; awaitReplies?: boolean } = {}) {
+  const transport = new LoopbackTransport();
+  const registry = new MessageTypeRegistry().registerError(OrderNotFoundError);
+  const client = new RemoteBusClient(transport.publisher, transport.consumer(), registry, {
+    replyTo: 'api.replies.1',
+    typePrefix: 'orders.',
+    timeoutMs: options.timeoutMs ?? 1000,
+  });
+  const commandBus = new DistributedCommandBus(
+    client,
+    options.awaitReplies === undefined ? {} : { awaitReplies: options.awaitReplies },
+  );
+  const queryBus = new DistributedQueryBus(client);
+  const host = new RemoteHandlerHost(
+    transport.consumer(),
+    transport.publisher,
+    new MessageTypeRegistry(),
+    { typePrefix: 'orders.' },
+  );
+  return { transport, client, commandBus, queryBus, host };
+}
+
+describe('DistributedCommandBus', () => {
+  it('sends commands to the remote handler and resolves with its result', async () => {
+    const { transport, client, commandBus, host } = setup();
+    host.registerCommand(PlaceOrderCommand, placeOrder);
+
+    const result = await commandBus.dispatch<PlaceOrderCommand, string>(
+      new PlaceOrderCommand('c-1', 2),
+    );
+
+    expect(result.unwrap()).toBe('order-for-c-1');
+    const [request, reply] = transport.published;
+    expect(request).toMatchObject({
+      eventType: 'orders.PlaceOrderCommand',
+      payload: { customerId: 'c-1', quantity: 2 },
+      metadata: { messageKind: 'command', replyTo: 'api.replies.1' },
+    });
+    expect(reply).toMatchObject({
+      eventType: 'api.replies.1',
+      correlationId: request?.eventId,
+      causationId: request?.eventId,
+    });
+    expect(client.pendingCount()).toBe(0);
+  });
+
+  it('transports Result errors, reviving registered error types', async () => {
+    const { commandBus, host } = setup();
+    host.registerCommand(CancelOrderCommand, {
+      handle: (command: CancelOrderCommand) =>
+        Promise.resolve(Result.err<void, Error>(new OrderNotFoundError(command.orderId))),
+    });
+
+    const result = await commandBus.dispatch(new CancelOrderCommand('o-9'));
+
+    const error = result.unwrapErr();
+    expect(error).toBeInstanceOf(OrderNotFoundError);
+    expect(error).toMatchObject({ message: 'Order not found: o-9', code: 'ORDER_NOT_FOUND' });
+    expect((error as OrderNotFoundError).orderId).toBe('o-9');
+  });
+
+  it('transports unregistered errors as RemoteHandlerError', async () => {
+    const { commandBus, host } = setup();
+    host.registerCommand(PlaceOrderCommand, placeOrder);
+
+    const result = await commandBus.dispatch(new PlaceOrderCommand('c-1', 0));
+
+    const error = result.unwrapErr();
+    expect(error).toBeInstanceOf(RemoteHandlerError);
+    expect(error).toMatchObject({ remoteName: 'Error', message: 'quantity must be positive' });
+  });
+
+  it('transports error values that are not Error instances', async () => {
+    const { commandBus, host } = setup();
+    host.registerCommand(CancelOrderCommand, {
+      handle: () => Promise.resolve(Result.err<void, unknown>({ reason: 'already shipped' })),
+    });
+
+    const result = await commandBus.dispatch<CancelOrderCommand, void, unknown>(
+      new CancelOrderCommand('o-1'),
+    );
+
+    expect(result.unwrapErr()).toEqual({ reason: 'already shipped' });
+  });
+
+  it('rethrows exceptions thrown by the remote handler', async () => {
+    const { commandBus, host } = setup();
+    host.registerCommand(CancelOrderCommand, {
+      handle: (command: CancelOrderCommand) =>
+        Promise.reject(new OrderNotFoundError(command.orderId)),
+    });
+
+    await expect(commandBus.dispatch(new CancelOrderCommand('o-2'))).rejects.toBeInstanceOf(
+      OrderNotFoundError,
+    );
+  });
+
+  it('rejects with RemoteRequestTimeoutError when no reply arrives in time', async () => {
+    const { client, commandBus } = setup({ timeoutMs: 20 });
+
+    const error = await commandBus.dispatch(new PlaceOrderCommand('c-1', 1)).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RemoteRequestTimeoutError);
+    expect(error.message).toBe('No reply for PlaceOrderCommand within 20ms');
+    expect(client.pendingCount()).toBe(0);
+  });
+
+  it('runs locally registered handlers in-process', async () => {
+    const { transport, commandBus } = setup();
+    commandBus.register(PlaceOrderCommand, placeOrder);
+
+    const result = await commandBus.dispatch(new PlaceOrderCommand('c-1', 1));
+
+    expect(result.unwrap()).toBe('order-for-c-1');
+    expect(transport.published).toEqual([]);
+  });
+
+  it('only publishes when not awaiting replies, leaving failures to the consumer', async () => {
+    const { transport, commandBus, host } = setup({ awaitReplies: false });
+    const handled: string[] = [];
+    host.registerCommand(CancelOrderCommand, {
+      handle: (command: CancelOrderCommand) => {
+        handled.push(command.orderId);
+        return Promise.reject(new Error('db down'));
+      },
+    });
+
+    const result = await commandBus.dispatch(new CancelOrderCommand('o-3'));
+    expect(result.isOk()).toBe(true);
+    expect(transport.published[0]?.metadata).toEqual({ messageKind: 'command' });
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(handled).toEqual(['o-3']);
+    expect(transport.failures).toEqual([new Error('db down')]);
+    expect(transport.published).toHaveLength(1);
+  });
+
+  it('rethrows publish failures without leaving the request pending', async () => {
+    const transport = new LoopbackTransport();
+    const client = new RemoteBusClient(
+      {
+        publish: () => Promise.reject(new Error('broker down')),
+        publishBatch: () => Promise.resolve(),
+      },
+      transport.consumer(),
+      new MessageTypeRegistry(),
+      { replyTo: 'replies' },
+    );
+
+    await expect(
+      new DistributedCommandBus(client).dispatch(new CancelOrderCommand('o-1')),
+    ).rejects.toThrow('broker down');
+    expect(client.pendingCount()).toBe(0);
+  });
+});
+
+describe('DistributedQueryBus', () => {
+  it('asks the remote handler, which receives a rebuilt query instance', async () => {
+    const { queryBus, host } = setup();
+    const handler: QueryHandler<GetOrderQuery, { id: string; total: number }, Error> = {
+      handle: (query) => {
+        expect(query).toBeInstanceOf(GetOrderQuery);
+        return Promise.resolve(Result.ok({ id: query.cacheKey, total: 42 }));
+      },
+    };
+    host.registerQuery(GetOrderQuery, handler);
+
+    const result = await queryBus.dispatch(new GetOrderQuery('o-1'));
+
+    expect(result.unwrap()).toEqual({ id: 'order:o-1', total: 42 });
+  });
+
+  it('uses the reviver registered for a message type', async () => {
+    const transport = new LoopbackTransport();
+    const registry = new MessageTypeRegistry().registerMessage(
+      GetOrderQuery,
+      (payload) => new GetOrderQuery(String(payload['orderId']).toUpperCase()),
+    );
+    const host = new RemoteHandlerHost(transport.consumer(), transport.publisher, registry);
+    host.registerQuery(GetOrderQuery, {
+      handle: (query: GetOrderQuery) => Promise.resolve(Result.ok({ id: query.orderId, total: 0 })),
+    });
+    const client = new RemoteBusClient(transport.publisher, transport.consumer(), registry, {
+      replyTo: 'replies',
+    });
+
+    const result = await new DistributedQueryBus(client).dispatch(new GetOrderQuery('o-1'));
+
+    expect(result.unwrap()).toEqual({ id: 'O-1', total: 0 });
+  });
+
+  it('runs locally registered handlers in-process', async () => {
+    const { transport, queryBus } = setup();
+    queryBus.register(GetOrderQuery, {
+      handle: (query: GetOrderQuery) => Promise.resolve(Result.ok({ id: query.orderId, total: 1 })),
+    });
+
+    expect((await queryBus.dispatch(new GetOrderQuery('o-1'))).unwrap()).toEqual({
+      id: 'o-1',
+      total: 1,
+    });
+    expect(transport.published).toEqual([]);
+  });
+});
@@ -4,7 +4,7 @@
 /* eslint-disable @typescript-eslint/no-unsafe-argument */
 /* eslint-disable @typescript-eslint/unbound-method */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { Result } from '@marcusprado02/kernel';
+import { Result, ResultAsync } from '@marcusprado02/kernel';
 import {
   IdempotencyKey,
   InMemoryIdempotencyStore,
@@ -235,4 +235,13 @@ describe('IdempotentUseCase', () => {
     expect(metrics.errors).toBe(1);
     expect(metrics.misses).toBe(1);
   });
+
+  it('accepts an inner use case that returns a ResultAsync', async () => {
+    const asyncInner: UseCase<SimpleInput, string> = {
+      execute: (input) => ResultAsync.ok<string, Error>(input.payload).map((p) => p.toUpperCase()),
+    };
+    const wrapped = new IdempotentUseCase(asyncInner, store, 60_000, metrics);
+    const result = await wrapped.execute(makeInput('uc-8', 'payload-uc-8'));
+    expect(result.unwrap()).toBe('PAYLOAD-UC-8');
+  });
 });
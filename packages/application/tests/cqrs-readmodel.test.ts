@@ -5,16 +5,26 @@
 /* eslint-disable @typescript-eslint/explicit-function-return-type */
 /* eslint-disable max-lines-per-function */
 /* eslint-disable @typescript-eslint/require-await */
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
   InMemoryReadModelStore,
+  SwappableReadModelStore,
+  InMemoryProjectionCheckpointStore,
+  ProjectionDaemon,
   BaseProjection,
   ProjectionRebuildManager,
   ConsistencyMonitor,
   InMemorySnapshotStore,
   shouldTakeSnapshot,
 } from '../src';
-import type { ProjectedEvent, ReadModel, Projection, Snapshot } from '../src';
+import type {
+  ProjectedEvent,
+  ReadModel,
+  Projection,
+  Snapshot,
+  PositionedProjectedEvent,
+  ProjectionEventSource,
+} from '../src';
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -380,6 +390,13 @@ describe('ConsistencyMonitor', () => {
     expect(monitor.getAverageLag('proj')).toBe(0);
   });
 
+  it('getEventsBehind() reports the distance between checkpoint and head', () => {
+    monitor.recordPosition('proj', 40, 100);
+    expect(monitor.getEventsBehind('proj')).toBe(60);
+    expect(monitor.getEventsBehind('unknown')).toBe(0);
+    expect(monitor.getReport().projections['proj']?.eventsBehind).toBe(60);
+  });
+
   it('getReport() returns empty projections after reset', () => {
     monitor.recordLag('proj', 500);
     monitor.reset();
@@ -490,3 +507,329 @@ describe('shouldTakeSnapshot', () => {
     expect(shouldTakeSnapshot(7, 5)).toBe(false);
   });
 });
+
+// ─── SwappableReadModelStore ─────────────────────────────────────────────────
+
+describe('SwappableReadModelStore', () => {
+  it('routes calls to the current target and swaps atomically', async () => {
+    const blue = new InMemoryReadModelStore<UserReadModel>();
+    const green = new InMemoryReadModelStore<UserReadModel>();
+    await blue.save(makeUserModel({ name: 'Blue' }));
+    await green.save(makeUserModel({ name: 'Green' }));
+    const store = new SwappableReadModelStore(blue);
+
+    expect((await store.findById('user-1'))?.name).toBe('Blue');
+    expect(store.swap(green)).toBe(blue);
+    expect((await store.findById('user-1'))?.name).toBe('Green');
+    await store.delete('user-1');
+    expect(green.size()).toBe(0);
+  });
+});
+
+// ─── ProjectionDaemon ────────────────────────────────────────────────────────
+
+class InMemoryEventSource implements ProjectionEventSource {
+  readonly events: PositionedProjectedEvent[] = [];
+
+  append(...events: ProjectedEvent[]): void {
+    for (const event of events) {
+      this.events.push({ position: this.events.length + 1, event });
+    }
+  }
+
+  async readAfter(position: number, limit: number): Promise<PositionedProjectedEvent[]> {
+    return this.events.filter((e) => e.position > position).slice(0, limit);
+  }
+
+  async headPosition(): Promise<number> {
+    return this.events.length;
+  }
+}
+
+function userCreated(id: string, name = id): ProjectedEvent {
+  return makeEvent({ eventId: `${id}-created`, aggregateId: id, payload: { name, email: '' } });
+}
+
+describe('ProjectionDaemon', () => {
+  let source: InMemoryEventSource;
+  let checkpoints: InMemoryProjectionCheckpointStore;
+  let users: InMemoryReadModelStore<UserReadModel>;
+  let projection: UserProjection;
+
+  beforeEach(() => {
+    source = new InMemoryEventSource();
+    checkpoints = new InMemoryProjectionCheckpointStore();
+    users = new InMemoryReadModelStore();
+    projection = new UserProjection(users);
+  });
+
+  it('projects events in batches and saves the checkpoint', async () => {
+    source.append(userCreated('u1'), userCreated('u2'), userCreated('u3'));
+    const daemon = new ProjectionDaemon(source, checkpoints, { batchSize: 2 });
+    daemon.register(projection);
+    const save = vi.spyOn(checkpoints, 'save');
+
+    await daemon.runOnce();
+    expect(users.size()).toBe(3);
+    expect(save.mock.calls).toEqual([
+      ['UserProjection', 2],
+      ['UserProjection', 3],
+    ]);
+    expect(daemon.getStatus('UserProjection')).toMatchObject({ position: 3, paused: false });
+  });
+
+  it('resumes from the stored checkpoint', async () => {
+    source.append(userCreated('u1'), userCreated('u2'));
+    await checkpoints.save('UserProjection', 1);
+    const daemon = new ProjectionDaemon(source, checkpoints);
+    daemon.register(projection);
+
+    await daemon.runOnce();
+    expect(projection.projected.map((e) => e.aggregateId)).toEqual(['u2']);
+  });
+
+  it('keeps events of one aggregate in order across partitions', async () => {
+    const order: string[] = [];
+    const slow: Projection = {
+      name: 'slow',
+      async project(event) {
+        await new Promise((resolve) => setTimeout(resolve, event.aggregateId === 'a' ? 5 : 0));
+        order.push(`${event.aggregateId}${event.aggregateVersion}`);
+      },
+      async reset() {},
+    };
+    for (let v = 1; v <= 3; v++) {
+      source.append(
+        makeEvent({ aggregateId: 'a', aggregateVersion: v }),
+        makeEvent({ aggregateId: 'b', aggregateVersion: v }),
+      );
+    }
+    const daemon = new ProjectionDaemon(source, checkpoints, { partitions: 4 });
+    daemon.register(slow);
+
+    await daemon.runOnce();
+    expect(order.filter((e) => e.startsWith('a'))).toEqual(['a1', 'a2', 'a3']);
+    expect(order.filter((e) => e.startsWith('b'))).toEqual(['b1', 'b2', 'b3']);
+    expect(order.indexOf('b3')).toBeLessThan(order.indexOf('a3'));
+  });
+
+  it('keeps the checkpoint at the failed batch and retries it on the next run', async () => {
+    source.append(userCreated('u1'), userCreated('u2'));
+    const daemon = new ProjectionDaemon(source, checkpoints, { batchSize: 1 });
+    daemon.register(projection);
+    const project = vi
+      .spyOn(projection, 'project')
+      .mockImplementationOnce(async () => undefined)
+      .mockRejectedValueOnce(new Error('db down'));
+
+    await daemon.runOnce();
+    expect(daemon.isHealthy()).toBe(false);
+    expect(daemon.getStatus('UserProjection').lastError?.message).toBe('db down');
+    expect(await checkpoints.load('UserProjection')).toBe(1);
+
+    await daemon.runOnce();
+    expect(project).toHaveBeenCalledTimes(3);
+    expect(daemon.isHealthy()).toBe(true);
+    expect(await checkpoints.load('UserProjection')).toBe(2);
+  });
+
+  it('waits on a hole near the head so an event committed late is still projected', async () => {
+    source.events.push({ position: 1, event: userCreated('u1') });
+    source.events.push({ position: 3, event: userCreated('u3') });
+    const daemon = new ProjectionDaemon(source, checkpoints, { gapTimeoutMs: 60_000 });
+    daemon.register(projection);
+
+    await daemon.runOnce();
+    expect(projection.projected.map((e) => e.aggregateId)).toEqual(['u1']);
+    expect(await checkpoints.load('UserProjection')).toBe(1);
+
+    source.events.splice(1, 0, { position: 2, event: userCreated('u2') });
+    await daemon.runOnce();
+    expect(projection.projected.map((e) => e.aggregateId)).toEqual(['u1', 'u2', 'u3']);
+    expect(await checkpoints.load('UserProjection')).toBe(3);
+  });
+
+  it('waits on a hole inside a full batch while catching up', async () => {
+    for (const position of [1, 3, 4, 5]) {
+      source.events.push({ position, event: userCreated(`u${position}`) });
+    }
+    const daemon = new ProjectionDaemon(source, checkpoints, {
+      batchSize: 3,
+      gapTimeoutMs: 60_000,
+    });
+    daemon.register(projection);
+
+    await daemon.runOnce();
+    expect(await checkpoints.load('UserProjection')).toBe(1);
+
+    source.events.splice(1, 0, { position: 2, event: userCreated('u2') });
+    await daemon.runOnce();
+    expect(projection.projected.map((e) => e.aggregateId)).toEqual(['u1', 'u2', 'u3', 'u4', 'u5']);
+    expect(await checkpoints.load('UserProjection')).toBe(5);
+  });
+
+  it('skips a hole that is still open after gapTimeoutMs', async () => {
+    vi.useFakeTimers();
+    try {
+      source.events.push({ position: 1, event: userCreated('u1') });
+      source.events.push({ position: 3, event: userCreated('u3') });
+      const daemon = new ProjectionDaemon(source, checkpoints, { gapTimeoutMs: 1_000 });
+      daemon.register(projection);
+
+      await daemon.runOnce();
+      vi.advanceTimersByTime(999);
+      await daemon.runOnce();
+      expect(await checkpoints.load('UserProjection')).toBe(1);
+
+      vi.advanceTimersByTime(1);
+      await daemon.runOnce();
+      expect(projection.projected.map((e) => e.aggregateId)).toEqual(['u1', 'u3']);
+      expect(await checkpoints.load('UserProjection')).toBe(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('does not run paused projections until resumed', async () => {
+    source.append(userCreated('u1'));
+    const daemon = new ProjectionDaemon(source, checkpoints);
+    daemon.register(projection);
+
+    daemon.pause('UserProjection');
+    await daemon.runOnce();
+    expect(users.size()).toBe(0);
+    expect(daemon.getStatus('UserProjection').paused).toBe(true);
+
+    daemon.resume('UserProjection');
+    await daemon.runOnce();
+    expect(users.size()).toBe(1);
+  });
+
+  it('reports lag and events behind to the ConsistencyMonitor', async () => {
+    const monitor = new ConsistencyMonitor();
+    source.append(userCreated('u1'), userCreated('u2'));
+    const daemon = new ProjectionDaemon(source, checkpoints, {}, monitor);
+    daemon.register(projection);
+
+    daemon.pause('UserProjection');
+    await daemon.runOnce();
+    expect(monitor.getSampleCount('UserProjection')).toBe(0);
+    expect(monitor.getEventsBehind('UserProjection')).toBe(2);
+
+    daemon.resume('UserProjection');
+    await daemon.runOnce();
+    expect(monitor.getSampleCount('UserProjection')).toBe(1);
+    expect(monitor.getEventsBehind('UserProjection')).toBe(0);
+  });
+
+  it('polls on a timer between start() and stop()', async () => {
+    vi.useFakeTimers();
+    try {
+      const daemon = new ProjectionDaemon(source, checkpoints, { pollIntervalMs: 100 });
+      daemon.register(projection);
+      daemon.start();
+      expect(daemon.isRunning()).toBe(true);
+
+      source.append(userCreated('u1'));
+      await vi.advanceTimersByTimeAsync(100);
+      expect(users.size()).toBe(1);
+
+      daemon.stop();
+      source.append(userCreated('u2'));
+      await vi.advanceTimersByTimeAsync(500);
+      expect(users.size()).toBe(1);
+      expect(daemon.isRunning()).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects duplicate registrations and unknown names', () => {
+    const daemon = new ProjectionDaemon(source, checkpoints);
+    daemon.register(projection);
+    expect(() => daemon.register(projection)).toThrow('already registered');
+    expect(() => daemon.pause('nope')).toThrow('not registered');
+    expect(() => new ProjectionDaemon(source, checkpoints, { partitions: 0 })).toThrow(
+      'positive integer',
+    );
+  });
+
+  describe('rebuild()', () => {
+    it('rebuilds a shadow read model and swaps it in', async () => {
+      source.append(userCreated('u1', 'Old'), userCreated('u2'));
+      const live = new SwappableReadModelStore(users);
+      const daemon = new ProjectionDaemon(source, checkpoints);
+      daemon.register(new UserProjection(live));
+      await daemon.runOnce();
+
+      const green = new InMemoryReadModelStore<UserReadModel>();
+      const shadow = new UserProjection(green);
+      source.append(
+        makeEvent({
+          aggregateId: 'u1',
+          aggregateVersion: 2,
+          eventType: 'UserNameUpdated',
+          payload: { name: 'New' },
+        }),
+      );
+      const result = await daemon.rebuild('UserProjection', shadow, () => {
+        live.swap(green);
+      });
+
+      expect(result).toMatchObject({
+        projectionName: 'UserProjection',
+        eventsProcessed: 3,
+        errors: 0,
+      });
+      expect((await live.findById('u1'))?.name).toBe('New');
+      expect(users.size()).toBe(2);
+      expect(await checkpoints.load('UserProjection')).toBe(3);
+
+      source.append(userCreated('u3'));
+      await daemon.runOnce();
+      expect(shadow.projected.map((e) => e.aggregateId)).toEqual(['u1', 'u2', 'u1', 'u3']);
+      expect(green.size()).toBe(3);
+    });
+
+    it('applies events appended during the rebuild before swapping', async () => {
+      source.append(userCreated('u1'));
+      const daemon = new ProjectionDaemon(source, checkpoints, { batchSize: 1 });
+      daemon.register(projection);
+      const shadow = new UserProjection(new InMemoryReadModelStore());
+      const project = shadow.project.bind(shadow);
+      vi.spyOn(shadow, 'project').mockImplementation(async (event) => {
+        if (event.aggregateId === 'u1') source.append(userCreated('u2'));
+        await project(event);
+      });
+
+      const result = await daemon.rebuild('UserProjection', shadow);
+      expect(result.eventsProcessed).toBe(2);
+      expect(daemon.getStatus('UserProjection').position).toBe(2);
+    });
+
+    it('rejects a shadow of another projection', async () => {
+      const daemon = new ProjectionDaemon(source, checkpoints);
+      daemon.register(projection);
+      const shadow: Projection = { name: 'OrderProjection', async project() {}, async reset() {} };
+      const reset = vi.spyOn(shadow, 'reset');
+
+      await expect(daemon.rebuild('UserProjection', shadow)).rejects.toThrow(
+        'cannot replace UserProjection',
+      );
+      expect(reset).not.toHaveBeenCalled();
+    });
+
+    it('leaves the live projection in place when the rebuild fails', async () => {
+      source.append(userCreated('u1'));
+      const daemon = new ProjectionDaemon(source, checkpoints);
+      daemon.register(projection);
+      const shadow = new UserProjection(new InMemoryReadModelStore());
+      vi.spyOn(shadow, 'project').mockRejectedValue(new Error('boom'));
+
+      await expect(daemon.rebuild('UserProjection', shadow)).rejects.toThrow('boom');
+      source.append(userCreated('u2'));
+      await daemon.runOnce();
+      expect(projection.projected).toHaveLength(2);
+    });
+  });
+});
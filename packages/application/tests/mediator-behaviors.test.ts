@@ -0,0 +1,385 @@
+/* eslint-disable @typescript-eslint/require-await */
+import { describe, it, expect } from 'vitest';
+import { CircuitBreaker, CircuitBreakerOpenError } from '@marcusprado02/resilience';
+import { PolicyDecision } from '@marcusprado02/security';
+import type { AuthenticatedPrincipal, PolicyEnginePort } from '@marcusprado02/security';
+import type { MetricsPort, SpanPort, TracerPort } from '@marcusprado02/kernel';
+import {
+  AuthorizationBehavior,
+  IdempotencyBehavior,
+  IdempotencyConflictError,
+  IdempotencyKey,
+  InMemoryIdempotencyStore,
+  Mediator,
+  MediatorAuthorizationError,
+  MediatorRequest,
+  MetricsBehavior,
+  ResilienceBehavior,
+  TracingBehavior,
+  UnitOfWorkBehavior,
+  requestMetadata,
+} from '../src';
+import type { RequestMetadata, UnitOfWork } from '../src';
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+class PlaceOrderCommand extends MediatorRequest<string> {
+  static readonly metadata: RequestMetadata = {
+    name: 'orders.place',
+    transactional: true,
+    permission: 'orders:place',
+  };
+
+  constructor(
+    public readonly customerId: string,
+    public readonly idempotencyKey?: IdempotencyKey,
+  ) {
+    super();
+  }
+}
+
+class GetOrderQuery extends MediatorRequest<string> {
+  constructor(public readonly orderId: string) {
+    super();
+  }
+}
+
+class ChargeCardCommand extends MediatorRequest<string> {
+  static readonly metadata: RequestMetadata = {
+    retry: { maxAttempts: 3, delayMs: 1 },
+    circuitBreaker: 'payments',
+  };
+}
+
+function makeMediator(handle: (request: object) => Promise<string>) {
+  const mediator = new Mediator();
+  for (const type of [PlaceOrderCommand, GetOrderQuery, ChargeCardCommand]) {
+    mediator.register(type, { handle });
+  }
+  return mediator;
+}
+
+class RecordingUnitOfWork implements UnitOfWork {
+  readonly log: string[] = [];
+  async begin() {
+    this.log.push('begin');
+  }
+  async commit() {
+    this.log.push('commit');
+  }
+  async rollback() {
+    this.log.push('rollback');
+  }
+  async execute<T>(work: () => Promise<T>): Promise<T> {
+    await this.begin();
+    try {
+      const result = await work();
+      await this.commit();
+      return result;
+    } catch (error) {
+      await this.rollback();
+      throw error;
+    }
+  }
+}
+
+// ─── requestMetadata ──────────────────────────────────────────────────────────
+
+describe('requestMetadata', () => {
+  it('reads the static metadata of the request class, inherited by subclasses', () => {
+    class PlaceVipOrderCommand extends PlaceOrderCommand {}
+    expect(requestMetadata(new PlaceVipOrderCommand('c-1'))).toBe(PlaceOrderCommand.metadata);
+  });
+
+  it('returns an empty object for requests without metadata', () => {
+    expect(requestMetadata(new GetOrderQuery('o-1'))).toEqual({});
+  });
+});
+
+// ─── UnitOfWorkBehavior ───────────────────────────────────────────────────────
+
+describe('UnitOfWorkBehavior', () => {
+  it('has order 60', () => {
+    expect(new UnitOfWorkBehavior(new RecordingUnitOfWork()).order).toBe(60);
+  });
+
+  it('wraps transactional requests in the unit of work', async () => {
+    const uow = new RecordingUnitOfWork();
+    const mediator = makeMediator(async () => {
+      uow.log.push('handle');
+      return 'order-1';
+    });
+    mediator.addBehavior(new UnitOfWorkBehavior(uow));
+
+    expect(await mediator.send(new PlaceOrderCommand('c-1'))).toBe('order-1');
+    expect(uow.log).toEqual(['begin', 'handle', 'commit']);
+  });
+
+  it('rolls back when the handler fails', async () => {
+    const uow = new RecordingUnitOfWork();
+    const mediator = makeMediator(async () => {
+      throw new Error('out of stock');
+    });
+    mediator.addBehavior(new UnitOfWorkBehavior(() => uow));
+
+    await expect(mediator.send(new PlaceOrderCommand('c-1'))).rejects.toThrow('out of stock');
+    expect(uow.log).toEqual(['begin', 'rollback']);
+  });
+
+  it('leaves other requests alone', async () => {
+    const uow = new RecordingUnitOfWork();
+    const mediator = makeMediator(async () => 'order');
+    mediator.addBehavior(new UnitOfWorkBehavior(uow));
+
+    await mediator.send(new GetOrderQuery('o-1'));
+    expect(uow.log).toEqual([]);
+  });
+});
+
+// ─── AuthorizationBehavior ────────────────────────────────────────────────────
+
+describe('AuthorizationBehavior', () => {
+  const alice: AuthenticatedPrincipal = {
+    id: 'alice',
+    roles: [],
+    permissions: ['orders:place'],
+  };
+  const policyEngine: PolicyEnginePort = {
+    evaluate: async (principal, permission) =>
+      principal.permissions.includes(permission.value) ? PolicyDecision.ALLOW : PolicyDecision.DENY,
+  };
+
+  it('lets principals holding the permission through', async () => {
+    const mediator = makeMediator(async () => 'order-1');
+    mediator.addBehavior(new AuthorizationBehavior(policyEngine, () => alice));
+
+    expect(await mediator.send(new PlaceOrderCommand('c-1'))).toBe('order-1');
+  });
+
+  it('rejects principals the policy engine denies', async () => {
+    const mediator = makeMediator(async () => 'order-1');
+    const bob = { ...alice, id: 'bob', permissions: [] };
+    mediator.addBehavior(new AuthorizationBehavior(policyEngine, async () => bob));
+
+    const error = await mediator.send(new PlaceOrderCommand('c-1')).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(MediatorAuthorizationError);
+    expect(error).toMatchObject({
+      requestType: 'PlaceOrderCommand',
+      permission: 'orders:place',
+      principalId: 'bob',
+      message: 'Principal "bob" lacks "orders:place" for request: PlaceOrderCommand',
+    });
+  });
+
+  it('rejects unauthenticated requests', async () => {
+    const mediator = makeMediator(async () => 'order-1');
+    mediator.addBehavior(new AuthorizationBehavior(policyEngine, () => undefined));
+
+    await expect(mediator.send(new PlaceOrderCommand('c-1'))).rejects.toThrow(
+      'Unauthenticated request: PlaceOrderCommand requires "orders:place"',
+    );
+  });
+
+  it('skips requests that declare no permission', async () => {
+    const mediator = makeMediator(async () => 'order-1');
+    mediator.addBehavior(new AuthorizationBehavior(policyEngine, () => undefined));
+
+    expect(await mediator.send(new GetOrderQuery('o-1'))).toBe('order-1');
+  });
+});
+
+// ─── ResilienceBehavior ───────────────────────────────────────────────────────
+
+describe('ResilienceBehavior', () => {
+  it('retries failing handlers with the declared policy', async () => {
+    let attempts = 0;
+    const mediator = makeMediator(async () => {
+      attempts++;
+      if (attempts < 3) throw new Error('gateway timeout');
+      return 'charged';
+    });
+    mediator.addBehavior(new ResilienceBehavior({ payments: new CircuitBreaker(5, 1000) }));
+
+    expect(await mediator.send(new ChargeCardCommand())).toBe('charged');
+    expect(attempts).toBe(3);
+  });
+
+  it('fails fast once the named circuit breaker opens', async () => {
+    let attempts = 0;
+    const mediator = makeMediator(async () => {
+      attempts++;
+      throw new Error('gateway down');
+    });
+    const payments = new CircuitBreaker(2, 60_000);
+    mediator.addBehavior(new ResilienceBehavior({ payments }));
+
+    await expect(mediator.send(new ChargeCardCommand())).rejects.toBeInstanceOf(
+      CircuitBreakerOpenError,
+    );
+    expect(attempts).toBe(2);
+  });
+
+  it('rejects requests naming an unknown circuit breaker', async () => {
+    const mediator = makeMediator(async () => 'charged');
+    mediator.addBehavior(new ResilienceBehavior());
+
+    await expect(mediator.send(new ChargeCardCommand())).rejects.toThrow(
+      'Unknown circuit breaker "payments" for request: ChargeCardCommand',
+    );
+  });
+
+  it('runs other requests once', async () => {
+    let attempts = 0;
+    const mediator = makeMediator(async () => {
+      attempts++;
+      throw new Error('not found');
+    });
+    mediator.addBehavior(new ResilienceBehavior());
+
+    await expect(mediator.send(new GetOrderQuery('o-1'))).rejects.toThrow('not found');
+    expect(attempts).toBe(1);
+  });
+});
+
+// ─── MetricsBehavior / TracingBehavior ────────────────────────────────────────
+
+describe('MetricsBehavior', () => {
+  function recordingMetrics() {
+    const calls: [string, string, number, Record<string, string> | undefined][] = [];
+    const metrics: MetricsPort = {
+      incrementCounter: (name, value = 1, labels) => calls.push(['counter', name, value, labels]),
+      recordHistogram: (name, value, labels) => calls.push(['histogram', name, value, labels]),
+      setGauge: () => undefined,
+    };
+    return { metrics, calls };
+  }
+
+  it('counts requests and records their duration by name and outcome', async () => {
+    const { metrics, calls } = recordingMetrics();
+    const mediator = makeMediator(async () => 'order-1');
+    mediator.addBehavior(new MetricsBehavior(metrics));
+
+    await mediator.send(new PlaceOrderCommand('c-1'));
+
+    const labels = { request: 'orders.place', outcome: 'success' };
+    expect(calls).toEqual([
+      ['counter', 'mediator.requests', 1, labels],
+      ['histogram', 'mediator.duration_ms', expect.any(Number), labels],
+    ]);
+  });
+
+  it('labels failures and uses the configured prefix', async () => {
+    const { metrics, calls } = recordingMetrics();
+    const mediator = makeMediator(async () => {
+      throw new Error('boom');
+    });
+    mediator.addBehavior(new MetricsBehavior(metrics, 'orders_api'));
+
+    await expect(mediator.send(new GetOrderQuery('o-1'))).rejects.toThrow('boom');
+    expect(calls[0]).toEqual([
+      'counter',
+      'orders_api.requests',
+      1,
+      { request: 'GetOrderQuery', outcome: 'failure' },
+    ]);
+  });
+});
+
+describe('TracingBehavior', () => {
+  function recordingTracer() {
+    const spans: { name: string; attributes: Record<string, unknown>; events: string[] }[] = [];
+    const tracer: TracerPort = {
+      startSpan: (name, attributes = {}) => {
+        const span = { name, attributes: { ...attributes }, events: [] as string[] };
+        spans.push(span);
+        const port: SpanPort = {
+          setAttribute: (key, value) => {
+            span.attributes[key] = value;
+          },
+          setAttributes: (attrs) => Object.assign(span.attributes, attrs),
+          recordException: (error) => span.events.push(`exception:${error.message}`),
+          end: () => span.events.push('end'),
+        };
+        return port;
+      },
+    };
+    return { tracer, spans };
+  }
+
+  it('wraps each request in a span named after it', async () => {
+    const { tracer, spans } = recordingTracer();
+    const mediator = makeMediator(async () => 'order-1');
+    mediator.addBehavior(new TracingBehavior(tracer));
+
+    await mediator.send(new PlaceOrderCommand('c-1'));
+
+    expect(spans).toEqual([
+      { name: 'orders.place', attributes: { 'mediator.request': 'orders.place' }, events: ['end'] },
+    ]);
+  });
+
+  it('records the exception of failed requests', async () => {
+    const { tracer, spans } = recordingTracer();
+    const mediator = makeMediator(async () => {
+      throw new Error('boom');
+    });
+    mediator.addBehavior(new TracingBehavior(tracer));
+
+    await expect(mediator.send(new GetOrderQuery('o-1'))).rejects.toThrow('boom');
+    expect(spans[0]?.attributes['error']).toBe(true);
+    expect(spans[0]?.events).toEqual(['exception:boom', 'end']);
+  });
+});
+
+// ─── IdempotencyBehavior ──────────────────────────────────────────────────────
+
+describe('IdempotencyBehavior', () => {
+  it('handles a request carrying an idempotency key only once', async () => {
+    let handled = 0;
+    const mediator = makeMediator(async () => `order-${++handled}`);
+    mediator.addBehavior(new IdempotencyBehavior(new InMemoryIdempotencyStore(), 60_000));
+    const key = IdempotencyKey.create('k-1');
+
+    expect(await mediator.send(new PlaceOrderCommand('c-1', key))).toBe('order-1');
+    expect(await mediator.send(new PlaceOrderCommand('c-1', key))).toBe('order-1');
+    expect(handled).toBe(1);
+  });
+
+  it('releases the key when the handler fails', async () => {
+    let handled = 0;
+    const mediator = makeMediator(async () => {
+      handled++;
+      if (handled === 1) throw new Error('transient');
+      return 'order-2';
+    });
+    mediator.addBehavior(new IdempotencyBehavior(new InMemoryIdempotencyStore(), 60_000));
+    const key = IdempotencyKey.create('k-1');
+
+    await expect(mediator.send(new PlaceOrderCommand('c-1', key))).rejects.toThrow('transient');
+    expect(await mediator.send(new PlaceOrderCommand('c-1', key))).toBe('order-2');
+  });
+
+  it('rejects a concurrent duplicate with IdempotencyConflictError', async () => {
+    let finish: (value: string) => void = () => undefined;
+    const mediator = makeMediator(() => new Promise<string>((resolve) => (finish = resolve)));
+    mediator.addBehavior(new IdempotencyBehavior(new InMemoryIdempotencyStore(), 60_000));
+    const key = IdempotencyKey.create('k-1');
+
+    const first = mediator.send(new PlaceOrderCommand('c-1', key));
+    await expect(mediator.send(new PlaceOrderCommand('c-1', key))).rejects.toBeInstanceOf(
+      IdempotencyConflictError,
+    );
+    finish('order-1');
+    expect(await first).toBe('order-1');
+  });
+
+  it('passes requests without a key through', async () => {
+    let handled = 0;
+    const mediator = makeMediator(async () => `order-${++handled}`);
+    mediator.addBehavior(new IdempotencyBehavior(new InMemoryIdempotencyStore(), 60_000));
+
+    await mediator.send(new PlaceOrderCommand('c-1'));
+    await mediator.send(new PlaceOrderCommand('c-1'));
+    expect(handled).toBe(2);
+  });
+});
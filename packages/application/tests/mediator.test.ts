@@ -14,8 +14,14 @@ import {
   MediatorValidationError,
   CachingBehavior,
   MediatorRequest,
+  StreamRequest,
+} from '../src';
+import type {
+  RequestHandler,
+  PipelineBehavior,
+  NotificationHandler,
+  StreamPipelineBehavior,
 } from '../src';
-import type { RequestHandler, PipelineBehavior } from '../src';
 
 // ─── Fixtures ─────────────────────────────────────────────────────────────────
 
@@ -410,3 +416,248 @@ describe('CachingBehavior', () => {
     expect(cache.order).toBe(30);
   });
 });
+
+// ─── Handler factories and per-type behaviors ────────────────────────────────
+
+describe('Mediator — handler factories', () => {
+  it('creates a handler per dispatch when registered with a factory', async () => {
+    const mediator = new Mediator();
+    const created: GetUserHandler[] = [];
+    mediator.register(GetUserQuery, () => {
+      const handler = new GetUserHandler();
+      created.push(handler);
+      return handler;
+    });
+
+    await mediator.send(new GetUserQuery('u-1'));
+    await mediator.send(new GetUserQuery('u-2'));
+
+    expect(created).toHaveLength(2);
+    expect(created.map((h) => h.calls)).toEqual([['u-1'], ['u-2']]);
+  });
+});
+
+describe('Mediator — per-type behaviors', () => {
+  it('applies a behavior only to the request types it was added for', async () => {
+    const mediator = new Mediator();
+    mediator.register(GetUserQuery, new GetUserHandler());
+    mediator.register(CreateUserCommand, new CreateUserHandler());
+    const seen: string[] = [];
+    const b: PipelineBehavior = {
+      handle: async (req, next) => {
+        seen.push((req as object).constructor.name);
+        return next();
+      },
+    };
+    mediator.addBehavior(b, { requestTypes: [CreateUserCommand] });
+
+    await mediator.send(new GetUserQuery('u-1'));
+    await mediator.send(new CreateUserCommand('Ann', 'a@b.com'));
+
+    expect(seen).toEqual(['CreateUserCommand']);
+    expect(mediator.behaviorCount()).toBe(1);
+  });
+
+  it('matches subclasses of the listed types', async () => {
+    class AdminQuery extends GetUserQuery {}
+    const mediator = new Mediator();
+    mediator.register(AdminQuery, new GetUserHandler());
+    const b: PipelineBehavior = { handle: async () => 'intercepted' };
+    mediator.addBehavior(b, { requestTypes: [GetUserQuery] });
+
+    expect(await mediator.send(new AdminQuery('u-1'))).toBe('intercepted');
+  });
+});
+
+// ─── Notifications ───────────────────────────────────────────────────────────
+
+class UserCreated {
+  constructor(public readonly userId: string) {}
+}
+
+function recordingHandler(
+  log: string[],
+  name: string,
+  delayMs = 0,
+): NotificationHandler<UserCreated> {
+  return {
+    handle: async (n) => {
+      log.push(`${name}:start:${n.userId}`);
+      await new Promise((r) => setTimeout(r, delayMs));
+      log.push(`${name}:end`);
+    },
+  };
+}
+
+describe('Mediator — notifications', () => {
+  it('publish() does nothing without handlers', async () => {
+    await expect(new Mediator().publish(new UserCreated('u-1'))).resolves.toBeUndefined();
+  });
+
+  it('sequential strategy runs handlers one after the other in subscription order', async () => {
+    const mediator = new Mediator();
+    const log: string[] = [];
+    mediator.subscribe(UserCreated, recordingHandler(log, 'a', 5));
+    mediator.subscribe(UserCreated, recordingHandler(log, 'b'));
+
+    await mediator.publish(new UserCreated('u-1'));
+
+    expect(log).toEqual(['a:start:u-1', 'a:end', 'b:start:u-1', 'b:end']);
+    expect(mediator.notificationHandlerCount(UserCreated)).toBe(2);
+  });
+
+  it('sequential strategy stops at the first failure', async () => {
+    const mediator = new Mediator();
+    const log: string[] = [];
+    mediator.subscribe(UserCreated, { handle: () => Promise.reject(new Error('boom')) });
+    mediator.subscribe(UserCreated, recordingHandler(log, 'b'));
+
+    await expect(mediator.publish(new UserCreated('u-1'))).rejects.toThrow('boom');
+    expect(log).toEqual([]);
+  });
+
+  it('parallel strategy starts every handler before any finishes', async () => {
+    const mediator = new Mediator({ publishStrategy: 'parallel' });
+    const log: string[] = [];
+    mediator.subscribe(UserCreated, recordingHandler(log, 'a', 5));
+    mediator.subscribe(UserCreated, recordingHandler(log, 'b'));
+
+    await mediator.publish(new UserCreated('u-1'));
+
+    expect(log).toEqual(['a:start:u-1', 'b:start:u-1', 'b:end', 'a:end']);
+  });
+
+  it('parallel strategy waits for all handlers and aggregates failures', async () => {
+    const mediator = new Mediator();
+    const log: string[] = [];
+    mediator.subscribe(UserCreated, { handle: () => Promise.reject(new Error('first')) });
+    mediator.subscribe(UserCreated, { handle: () => Promise.reject(new Error('second')) });
+    mediator.subscribe(UserCreated, recordingHandler(log, 'c', 5));
+
+    const error = await mediator.publish(new UserCreated('u-1'), 'parallel').catch((e) => e);
+
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(error.message).toBe('2 handlers failed for notification: UserCreated');
+    expect(error.errors.map((e: Error) => e.message)).toEqual(['first', 'second']);
+    expect(log).toEqual(['c:start:u-1', 'c:end']);
+  });
+
+  it('parallel strategy rethrows a single failure as is', async () => {
+    const mediator = new Mediator({ publishStrategy: 'parallel' });
+    const failure = new Error('only');
+    mediator.subscribe(UserCreated, { handle: () => Promise.reject(failure) });
+    mediator.subscribe(UserCreated, { handle: async () => undefined });
+
+    await expect(mediator.publish(new UserCreated('u-1'))).rejects.toBe(failure);
+  });
+
+  it('fire-and-forget strategy resolves immediately and reports failures', async () => {
+    const reported: unknown[] = [];
+    const mediator = new Mediator({
+      publishStrategy: 'fire-and-forget',
+      onPublishError: (error, notification) => reported.push([error, notification]),
+    });
+    const log: string[] = [];
+    const failure = new Error('boom');
+    mediator.subscribe(UserCreated, recordingHandler(log, 'a', 5));
+    mediator.subscribe(UserCreated, { handle: () => Promise.reject(failure) });
+    const notification = new UserCreated('u-1');
+
+    await mediator.publish(notification);
+    expect(log).toEqual(['a:start:u-1']);
+
+    await new Promise((r) => setTimeout(r, 10));
+    expect(log).toEqual(['a:start:u-1', 'a:end']);
+    expect(reported).toEqual([[failure, notification]]);
+  });
+
+  it('creates notification handlers per publish when subscribed with a factory', async () => {
+    const mediator = new Mediator();
+    let created = 0;
+    mediator.subscribe(UserCreated, () => {
+      created++;
+      return { handle: async () => undefined };
+    });
+
+    await mediator.publish(new UserCreated('u-1'));
+    await mediator.publish(new UserCreated('u-2'));
+
+    expect(created).toBe(2);
+  });
+});
+
+// ─── Streaming requests ──────────────────────────────────────────────────────
+
+class CountQuery extends StreamRequest<number> {
+  constructor(public readonly to: number) {
+    super();
+  }
+}
+
+class CountHandler {
+  async *handle(request: CountQuery): AsyncIterable<number> {
+    for (let i = 1; i <= request.to; i++) yield i;
+  }
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) result.push(item);
+  return result;
+}
+
+describe('Mediator — streaming requests', () => {
+  it('stream() yields the items of the registered handler', async () => {
+    const mediator = new Mediator();
+    mediator.registerStream(CountQuery, new CountHandler());
+
+    const items: number[] = await collect(mediator.stream(new CountQuery(3)));
+
+    expect(items).toEqual([1, 2, 3]);
+  });
+
+  it('stream() throws when no stream handler is registered', () => {
+    expect(() => new Mediator().stream(new CountQuery(1))).toThrow(
+      'No stream handler registered for request: CountQuery',
+    );
+  });
+
+  it('runs stream behaviors in order around the handler', async () => {
+    const mediator = new Mediator();
+    mediator.registerStream(CountQuery, () => new CountHandler());
+    const doubling: StreamPipelineBehavior<CountQuery, number> = {
+      order: 20,
+      async *handle(_request, next) {
+        for await (const item of next()) yield item * 2;
+      },
+    };
+    const limiting: StreamPipelineBehavior<CountQuery, number> = {
+      order: 10,
+      async *handle(_request, next) {
+        for await (const item of next()) {
+          if (item > 4) return;
+          yield item;
+        }
+      },
+    };
+    mediator.addStreamBehavior(doubling);
+    mediator.addStreamBehavior(limiting);
+
+    expect(await collect(mediator.stream(new CountQuery(5)))).toEqual([2, 4]);
+  });
+
+  it('skips stream behaviors added for other request types', async () => {
+    const mediator = new Mediator();
+    mediator.registerStream(CountQuery, new CountHandler());
+    mediator.addStreamBehavior(
+      {
+        async *handle() {
+          yield -1;
+        },
+      },
+      { requestTypes: [GetUserQuery] },
+    );
+
+    expect(await collect(mediator.stream(new CountQuery(2)))).toEqual([1, 2]);
+  });
+});
@@ -33,6 +33,18 @@ export interface RedisClientLike {
   quit(): Promise<string>;
 }
 
+/**
+ * A {@link RedisClientLike} that can also run Lua scripts, for adapters that
+ * need several commands to execute atomically.
+ *
+ * `eval` matches ioredis: the script, the number of keys, then the keys
+ * followed by the arguments. Script replies come back as numbers, strings,
+ * arrays of those, or `null`.
+ */
+export interface RedisScriptingClientLike extends RedisClientLike {
+  eval(script: string, numKeys: number, ...keysAndArgs: Array<string | number>): Promise<unknown>;
+}
+
 /**
  * Structural interface for a Redis client dedicated to pub/sub.
  *
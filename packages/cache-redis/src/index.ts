@@ -1,5 +1,9 @@
 // Client interfaces
-export type { RedisClientLike, RedisPubSubClientLike } from './RedisClientLike';
+export type {
+  RedisClientLike,
+  RedisPubSubClientLike,
+  RedisScriptingClientLike,
+} from './RedisClientLike';
 
 // Cache
 export { RedisCache } from './RedisCache';
@@ -3,9 +3,17 @@ import type { AppErrorCode } from './AppErrorCode';
 
 /**
  * Error that can be retried.
+ *
+ * `retryAfterMs` is the earliest the operation should be retried, e.g. from
+ * the `Retry-After` header of an HTTP 429 or 503.
  */
 export class RetryableError extends AppError {
-  constructor(message: string, code: AppErrorCode, cause?: Error) {
+  constructor(
+    message: string,
+    code: AppErrorCode,
+    cause?: Error,
+    public readonly retryAfterMs?: number,
+  ) {
     super(message, code, true, cause);
     this.name = 'RetryableError';
   }
@@ -0,0 +1,210 @@
+import type { EventStore, RecordedEvent, Unsubscribe } from './EventStore';
+import type { CheckpointStore } from './CheckpointStore';
+
+/** Handles one event of a {@link CatchUpSubscription}; a rejection is retried. */
+export type RecordedEventHandler = (recorded: RecordedEvent) => void | Promise<void>;
+
+export interface CatchUpSubscriptionOptions {
+  /** Maximum events read per `readAll` call. Default: 100. */
+  batchSize?: number;
+  /** Delay before retrying after a read, handler or checkpoint failure (ms). Default: 1000. */
+  retryDelayMs?: number;
+  /**
+   * How long a hole in the positions is waited on before it is skipped (ms).
+   * Durable stores may commit positions out of order, so a hole may belong to
+   * an append still in flight. Default: 5000.
+   */
+  gapTimeoutMs?: number;
+  /** Called when a read, handler or checkpoint save fails. */
+  onError?: (error: unknown) => void;
+  /** Called once the subscription has caught up with the head of the log and gone live. */
+  onLive?: () => void;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<CatchUpSubscriptionOptions, 'onError' | 'onLive'>> = {
+  batchSize: 100,
+  retryDelayMs: 1000,
+  gapTimeoutMs: 5000,
+};
+
+/**
+ * A persistent subscription to the `$all` stream.
+ *
+ * On start it loads its checkpoint, catches up on everything appended since
+ * with `readAll`, and then goes live: every append signalled through
+ * `EventStore.subscribe` is read the same way, so events reach the handler
+ * one at a time, in global order, whether they are old or new. The
+ * checkpoint is saved after each batch, making delivery at-least-once
+ * across restarts — handlers should be idempotent.
+ *
+ * A failing handler stops the subscription at that event, which is retried
+ * after `retryDelayMs`.
+ *
+ * @example
+ * ```ts
+ * const subscription = new CatchUpSubscription(store, checkpoints, 'order-summaries', async ({ event }) => {
+ *   await projection.project(event);
+ * });
+ * await subscription.start();
+ * // ...
+ * await subscription.stop();
+ * ```
+ */
+export class CatchUpSubscription {
+  private readonly options: Required<Omit<CatchUpSubscriptionOptions, 'onError' | 'onLive'>>;
+  private unsubscribe: Unsubscribe | undefined;
+  private checkpoint: Promise<number> | undefined;
+  private running: Promise<void> | undefined;
+  private queued: Promise<void> | undefined;
+  private retryHandle: ReturnType<typeof setTimeout> | undefined;
+  private gap: { readonly after: number; readonly since: number } | undefined;
+  private live = false;
+
+  private readonly errorHandler: ((error: unknown) => void) | undefined;
+  private readonly liveHandler: (() => void) | undefined;
+
+  constructor(
+    private readonly store: EventStore,
+    private readonly checkpoints: CheckpointStore,
+    readonly subscriptionId: string,
+    private readonly handler: RecordedEventHandler,
+    options: CatchUpSubscriptionOptions = {},
+  ) {
+    const { onError, onLive, ...rest } = options;
+    this.options = { ...DEFAULT_OPTIONS, ...rest };
+    this.errorHandler = onError;
+    this.liveHandler = onLive;
+  }
+
+  /** `true` once the subscription has caught up and is following new appends. */
+  get isLive(): boolean {
+    return this.live;
+  }
+
+  /** `true` between {@link start} and {@link stop}. */
+  get isRunning(): boolean {
+    return this.unsubscribe !== undefined;
+  }
+
+  /**
+   * Starts the subscription. Resolves after the first catch-up pass, which
+   * either reaches the head of the log or stops at a failure that will be
+   * retried (see {@link isLive}).
+   */
+  start(): Promise<void> {
+    if (this.unsubscribe !== undefined) return this.running ?? Promise.resolve();
+    // Listen before reading, so appends made during catch-up are not missed.
+    this.unsubscribe = this.store.subscribe(() => {
+      void this.pump();
+    });
+    return this.pump();
+  }
+
+  /** Stops following the log; resolves once the batch in progress is done. */
+  async stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    clearTimeout(this.retryHandle);
+    this.retryHandle = undefined;
+    this.live = false;
+    this.checkpoint = undefined;
+    await this.running;
+  }
+
+  /**
+   * Reads and handles everything after the checkpoint. A call made while a
+   * pass is in flight queues a single follow-up pass.
+   */
+  private pump(): Promise<void> {
+    if (this.unsubscribe === undefined) return Promise.resolve();
+    if (this.running !== undefined) {
+      this.queued ??= this.running.then(() => {
+        this.queued = undefined;
+        return this.pump();
+      });
+      return this.queued;
+    }
+    this.running = this.catchUp().finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  private async catchUp(): Promise<void> {
+    try {
+      this.checkpoint ??= this.loadCheckpoint();
+      let caughtUp = false;
+      while (!caughtUp && this.isRunning) {
+        const position = await this.checkpoint;
+        const batch = await this.store.readAll(position, this.options.batchSize);
+        const handled = await this.process(position, batch);
+        if (handled < batch.length) return;
+        caughtUp = batch.length < this.options.batchSize;
+      }
+      if (caughtUp) this.goLive();
+    } catch (error) {
+      this.errorHandler?.(error);
+      this.retry(this.options.retryDelayMs);
+    }
+  }
+
+  /** Handles a batch in order and saves the checkpoint; returns how many events were handled. */
+  private async process(position: number, batch: RecordedEvent[]): Promise<number> {
+    let current = position;
+    let handled = 0;
+    try {
+      for (const recorded of batch) {
+        if (!this.isRunning || !this.canAdvance(current, recorded.position)) break;
+        await this.handler(recorded);
+        current = recorded.position;
+        handled++;
+      }
+    } finally {
+      if (handled > 0) {
+        this.checkpoint = Promise.resolve(current);
+        await this.checkpoints.save(this.subscriptionId, current);
+      }
+    }
+    return handled;
+  }
+
+  private async loadCheckpoint(): Promise<number> {
+    try {
+      return (await this.checkpoints.load(this.subscriptionId)) ?? 0;
+    } catch (error) {
+      this.checkpoint = undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Holds back at a hole in the positions until it fills up or has been
+   * observed for `gapTimeoutMs`, so an append still in flight is not skipped.
+   */
+  private canAdvance(position: number, next: number): boolean {
+    if (next === position + 1) return true;
+    const now = Date.now();
+    if (this.gap?.after !== position) this.gap = { after: position, since: now };
+    const waited = now - this.gap.since;
+    if (waited >= this.options.gapTimeoutMs) {
+      this.gap = undefined;
+      return true;
+    }
+    this.retry(this.options.gapTimeoutMs - waited);
+    return false;
+  }
+
+  private goLive(): void {
+    if (this.live) return;
+    this.live = true;
+    this.liveHandler?.();
+  }
+
+  private retry(delayMs: number): void {
+    if (this.retryHandle !== undefined || !this.isRunning) return;
+    this.retryHandle = setTimeout(() => {
+      this.retryHandle = undefined;
+      void this.pump();
+    }, delayMs);
+  }
+}
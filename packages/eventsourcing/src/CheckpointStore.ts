@@ -0,0 +1,26 @@
+/**
+ * Persists how far a subscription has read the `$all` stream, so it can
+ * resume from there after a restart.
+ */
+export interface CheckpointStore {
+  /** Global position of the last processed event, or `undefined` if none was saved. */
+  load(subscriptionId: string): Promise<number | undefined>;
+  save(subscriptionId: string, position: number): Promise<void>;
+}
+
+/**
+ * In-memory implementation of {@link CheckpointStore}, intended for testing
+ * and local development.
+ */
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private readonly positions = new Map<string, number>();
+
+  load(subscriptionId: string): Promise<number | undefined> {
+    return Promise.resolve(this.positions.get(subscriptionId));
+  }
+
+  save(subscriptionId: string, position: number): Promise<void> {
+    this.positions.set(subscriptionId, position);
+    return Promise.resolve();
+  }
+}
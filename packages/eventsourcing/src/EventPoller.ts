@@ -0,0 +1,183 @@
+import type { DomainEventRegistry, SerializedDomainEvent } from '@marcusprado02/kernel';
+import type { EventHandler, RecordedEvent, Unsubscribe } from './EventStore';
+
+/** A serialized event together with its position in the global ordering. */
+export interface PositionedEvent {
+  readonly position: number;
+  readonly streamId: string;
+  readonly version: number;
+  readonly event: SerializedDomainEvent;
+}
+
+/** Rebuilds the domain event of a {@link PositionedEvent} read from storage. */
+export function toRecordedEvent(
+  positioned: PositionedEvent,
+  registry: DomainEventRegistry,
+): RecordedEvent {
+  const { position, streamId, version, event } = positioned;
+  return { position, streamId, version, event: registry.deserialize(event) };
+}
+
+/** Storage operations the poller needs from a durable event store. */
+export interface PollSource {
+  /** Highest global position written so far (0 when empty). */
+  headPosition(): Promise<number>;
+  /** Events with a global position greater than `position`, in order. */
+  readAfter(position: number, limit: number): Promise<PositionedEvent[]>;
+}
+
+export interface EventPollerOptions {
+  /** How often to poll the store (ms). Default: 1000. */
+  pollIntervalMs?: number;
+  /** Maximum events read per query. Default: 100. */
+  batchSize?: number;
+  /**
+   * How long a hole in the global positions is waited on before it is
+   * skipped (ms). Concurrent writers may commit positions out of order, so a
+   * hole usually fills up shortly; it is permanent after a failed append.
+   * Default: 5000.
+   */
+  gapTimeoutMs?: number;
+  /** Called when reading or a handler fails; polling continues afterwards. */
+  onError?: (error: unknown) => void;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<EventPollerOptions, 'onError'>> = {
+  pollIntervalMs: 1000,
+  batchSize: 100,
+  gapTimeoutMs: 5000,
+};
+
+/** Callbacks run when the first subscriber arrives / the last one leaves. */
+export interface EventPollerHooks {
+  onStart?: () => void;
+  onStop?: () => void;
+}
+
+/**
+ * Delivers events appended to a durable store to `EventStore.subscribe`
+ * handlers by polling the global position. Shared by the PostgreSQL and
+ * MongoDB stores; the timer only runs while there are subscribers.
+ */
+export class EventPoller {
+  private readonly handlers: EventHandler[] = [];
+  private readonly options: Required<Omit<EventPollerOptions, 'onError'>>;
+  private intervalHandle: ReturnType<typeof setInterval> | undefined;
+  private cursor: Promise<number> | undefined;
+  private polling: Promise<void> | undefined;
+  private queued: Promise<void> | undefined;
+  private gap: { readonly after: number; readonly since: number } | undefined;
+
+  private readonly errorHandler: ((error: unknown) => void) | undefined;
+
+  constructor(
+    private readonly source: PollSource,
+    private readonly registry: DomainEventRegistry,
+    options: EventPollerOptions = {},
+    private readonly hooks: EventPollerHooks = {},
+  ) {
+    const { onError, ...rest } = options;
+    this.options = { ...DEFAULT_OPTIONS, ...rest };
+    this.errorHandler = onError;
+  }
+
+  get active(): boolean {
+    return this.handlers.length > 0;
+  }
+
+  subscribe(handler: EventHandler): Unsubscribe {
+    this.handlers.push(handler);
+    this.start();
+    return () => {
+      const index = this.handlers.indexOf(handler);
+      if (index === -1) return;
+      this.handlers.splice(index, 1);
+      if (this.handlers.length === 0) this.stop();
+    };
+  }
+
+  /**
+   * Reads everything appended since the last poll and dispatches it.
+   * A call made while a poll is in flight queues a single follow-up poll, so
+   * events written in the meantime are not missed.
+   */
+  poll(): Promise<void> {
+    if (!this.active) return Promise.resolve();
+    if (this.polling !== undefined) {
+      this.queued ??= this.polling.then(() => {
+        this.queued = undefined;
+        return this.poll();
+      });
+      return this.queued;
+    }
+    this.polling = this.drain().finally(() => {
+      this.polling = undefined;
+    });
+    return this.polling;
+  }
+
+  private start(): void {
+    if (this.intervalHandle !== undefined) return;
+    // Subscribers only see events appended after they subscribed.
+    const head = this.source.headPosition();
+    this.cursor = head;
+    head.catch(() => {
+      if (this.cursor === head) this.cursor = undefined;
+    });
+    this.intervalHandle = setInterval(() => {
+      void this.poll();
+    }, this.options.pollIntervalMs);
+    this.hooks.onStart?.();
+  }
+
+  private stop(): void {
+    clearInterval(this.intervalHandle);
+    this.intervalHandle = undefined;
+    this.cursor = undefined;
+    this.hooks.onStop?.();
+  }
+
+  private async drain(): Promise<void> {
+    try {
+      let position = await (this.cursor ?? this.source.headPosition());
+      let batch: PositionedEvent[];
+      let blocked = false;
+      do {
+        batch = await this.source.readAfter(position, this.options.batchSize);
+        for (const { position: next, event } of batch) {
+          blocked = !this.canAdvance(position, next);
+          if (blocked) break;
+          this.dispatch(event);
+          position = next;
+          this.cursor = Promise.resolve(position);
+        }
+      } while (!blocked && batch.length === this.options.batchSize && this.active);
+    } catch (error) {
+      this.errorHandler?.(error);
+    }
+  }
+
+  /** Holds back at a hole in the positions until it fills up or times out. */
+  private canAdvance(position: number, next: number): boolean {
+    if (next === position + 1) return true;
+    const now = Date.now();
+    if (this.gap?.after !== position) {
+      this.gap = { after: position, since: now };
+      return false;
+    }
+    if (now - this.gap.since < this.options.gapTimeoutMs) return false;
+    this.gap = undefined;
+    return true;
+  }
+
+  private dispatch(serialized: SerializedDomainEvent): void {
+    const event = this.registry.deserialize(serialized);
+    for (const handler of [...this.handlers]) {
+      try {
+        handler(event);
+      } catch (error) {
+        this.errorHandler?.(error);
+      }
+    }
+  }
+}
@@ -67,8 +67,13 @@ export abstract class EventSourcedAggregate<TId> {
   /**
    * Rebuilds aggregate state from a historical event stream.
    * Call this when loading an aggregate from the event store.
+   *
+   * @param baseVersion  The version the current state corresponds to; pass a
+   *   snapshot's version after restoring its state, so the events that
+   *   follow it are counted on top. Defaults to the current version.
    */
-  loadFromHistory(events: DomainEvent[]): void {
+  loadFromHistory(events: DomainEvent[], baseVersion = this._version): void {
+    this._version = baseVersion;
     for (const event of events) {
       this.apply(event);
       this._version++;
@@ -0,0 +1,191 @@
+import type { DomainEvent, DomainEventPublisher } from '@marcusprado02/kernel';
+import { ConcurrencyError } from './EventStore';
+import type { EventStore } from './EventStore';
+import type { EventSourcedAggregate } from './EventSourcedAggregate';
+import type { SnapshotStore } from './Snapshot';
+import type { SnapshotPolicy } from './SnapshotPolicy';
+
+/** A save that lost the race against another writer of the same stream. */
+export interface ConcurrencyConflict {
+  readonly streamId: string;
+  /** Events the save tried to append. */
+  readonly uncommitted: readonly DomainEvent[];
+  /** Events other writers appended since the aggregate was loaded. */
+  readonly committed: readonly DomainEvent[];
+}
+
+/**
+ * Decides whether the events of a save can still be appended after the ones
+ * another writer committed first. Return `true` only when the two sets are
+ * independent (their order does not matter); `false` fails the save with the
+ * original {@link ConcurrencyError}.
+ */
+export type ConflictResolver = (conflict: ConcurrencyConflict) => boolean | Promise<boolean>;
+
+/** How the repository snapshots aggregates of one type. */
+export interface AggregateSnapshotOptions<TAggregate, TState> {
+  readonly store: SnapshotStore;
+  readonly policy: SnapshotPolicy;
+  /** Captures the aggregate's state. */
+  toState(aggregate: TAggregate): TState;
+  /** Restores captured state into an aggregate freshly built by `create`. */
+  restore(aggregate: TAggregate, state: TState): void;
+  /** Called when taking a snapshot fails; the save itself has already succeeded. */
+  onError?: (error: unknown) => void;
+}
+
+export interface EventSourcedRepositoryOptions<TAggregate, TId, TState = unknown> {
+  /** Creates an empty aggregate to restore a snapshot and replay history into. */
+  create: (id: TId) => TAggregate;
+  /** Maps an aggregate id to its stream (and snapshot) id. Default: `String(id)`. */
+  streamId?: (id: TId) => string;
+  snapshots?: AggregateSnapshotOptions<TAggregate, TState>;
+  /** Receives the events of every successful save. */
+  publisher?: DomainEventPublisher;
+  /** Without a resolver, a {@link ConcurrencyError} fails the save immediately. */
+  resolveConflict?: ConflictResolver;
+  /** Maximum appends retried after resolved conflicts. Default: 3. */
+  maxRetries?: number;
+}
+
+interface SnapshotMark {
+  readonly version: number;
+  readonly timestamp: Date;
+}
+
+/**
+ * Loads and saves {@link EventSourcedAggregate}s through an {@link EventStore}.
+ *
+ * - `load` restores the latest snapshot (when configured) and replays only
+ *   the events after it.
+ * - `save` appends the uncommitted events at the version the aggregate was
+ *   loaded at. On a {@link ConcurrencyError} the events committed in the
+ *   meantime are handed to `resolveConflict`; when it accepts them they are
+ *   applied to the aggregate and the append is retried on top of them.
+ * - After a save, the snapshot policy decides whether to take a snapshot,
+ *   and the events are published through the `DomainEventPublisher`.
+ *
+ * @example
+ * ```ts
+ * const accounts = new EventSourcedRepository(store, {
+ *   create: (id: string) => new BankAccount(id),
+ *   snapshots: {
+ *     store: snapshotStore,
+ *     policy: new EveryNEventsSnapshotPolicy(50),
+ *     toState: (account) => account.toSnapshot(),
+ *     restore: (account, state) => account.restore(state),
+ *   },
+ *   publisher,
+ * });
+ *
+ * const account = await accounts.load('acc-1');
+ * account?.deposit(100);
+ * if (account) await accounts.save(account);
+ * ```
+ */
+export class EventSourcedRepository<
+  TAggregate extends EventSourcedAggregate<TId>,
+  TId,
+  TState = unknown,
+> {
+  private readonly snapshotMarks = new WeakMap<TAggregate, SnapshotMark>();
+  private readonly maxRetries: number;
+
+  constructor(
+    private readonly store: EventStore,
+    private readonly options: EventSourcedRepositoryOptions<TAggregate, TId, TState>,
+  ) {
+    this.maxRetries = options.maxRetries ?? 3;
+  }
+
+  /** Returns the aggregate, or `undefined` when it has neither snapshot nor events. */
+  async load(id: TId): Promise<TAggregate | undefined> {
+    const streamId = this.streamIdOf(id);
+    const aggregate = this.options.create(id);
+    const snapshot = await this.options.snapshots?.store.get<TState>(streamId);
+    if (snapshot !== undefined) {
+      this.options.snapshots?.restore(aggregate, snapshot.state);
+      this.snapshotMarks.set(aggregate, snapshot);
+    }
+
+    const baseVersion = snapshot?.version ?? 0;
+    const events = await this.store.getEvents(streamId, baseVersion);
+    if (snapshot === undefined && events.length === 0) return undefined;
+    aggregate.loadFromHistory(events, baseVersion);
+    return aggregate;
+  }
+
+  /**
+   * Appends the aggregate's uncommitted events, marks them committed, then
+   * snapshots and publishes. A rejection from the publisher fails the save,
+   * but the events are stored by then.
+   */
+  async save(aggregate: TAggregate): Promise<void> {
+    const events = [...aggregate.getUncommittedEvents()];
+    if (events.length === 0) return;
+    const streamId = this.streamIdOf(aggregate.id);
+
+    await this.append(streamId, aggregate, events);
+    aggregate.markCommitted();
+    await this.snapshotIfDue(streamId, aggregate);
+    await this.options.publisher?.publish(events);
+  }
+
+  private async append(
+    streamId: string,
+    aggregate: TAggregate,
+    events: DomainEvent[],
+  ): Promise<void> {
+    let expectedVersion = aggregate.version - events.length;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.store.append(streamId, events, expectedVersion);
+        return;
+      } catch (error) {
+        if (!(error instanceof ConcurrencyError) || attempt >= this.maxRetries) throw error;
+        const committed = await this.store.getEvents(streamId, expectedVersion);
+        if (!(await this.resolve({ streamId, uncommitted: events, committed }))) throw error;
+        // Accepted events are independent of ours, so applying them last is safe.
+        aggregate.loadFromHistory(committed);
+        expectedVersion += committed.length;
+      }
+    }
+  }
+
+  private async resolve(conflict: ConcurrencyConflict): Promise<boolean> {
+    const resolver = this.options.resolveConflict;
+    return resolver === undefined ? false : resolver(conflict);
+  }
+
+  private async snapshotIfDue(streamId: string, aggregate: TAggregate): Promise<void> {
+    const snapshots = this.options.snapshots;
+    if (snapshots === undefined) return;
+    const mark = this.snapshotMarks.get(aggregate);
+    const now = new Date();
+    const due = snapshots.policy.shouldSnapshot({
+      aggregateId: streamId,
+      version: aggregate.version,
+      eventsSinceSnapshot: aggregate.version - (mark?.version ?? 0),
+      lastSnapshotAt: mark?.timestamp,
+      now,
+    });
+    if (!due) return;
+
+    try {
+      const snapshot = {
+        aggregateId: streamId,
+        version: aggregate.version,
+        state: snapshots.toState(aggregate),
+        timestamp: now,
+      };
+      await snapshots.store.save(snapshot);
+      this.snapshotMarks.set(aggregate, snapshot);
+    } catch (error) {
+      snapshots.onError?.(error);
+    }
+  }
+
+  private streamIdOf(id: TId): string {
+    return this.options.streamId?.(id) ?? String(id);
+  }
+}
@@ -1,5 +1,9 @@
 /* eslint-disable @typescript-eslint/no-unsafe-assignment */
-import type { DomainEvent } from '@marcusprado02/kernel';
+import type {
+  DomainEvent,
+  DomainEventRegistry,
+  SerializedDomainEvent,
+} from '@marcusprado02/kernel';
 
 /**
  * A callback that handles a single domain event.
@@ -11,6 +15,19 @@ export type EventHandler = (event: DomainEvent) => void;
  */
 export type Unsubscribe = () => void;
 
+/**
+ * An event read from the `$all` stream, together with its place in the
+ * global and per-stream ordering.
+ */
+export interface RecordedEvent {
+  /** Global position: strictly increasing across all streams, starting at 1. */
+  readonly position: number;
+  readonly streamId: string;
+  /** 1-based version of the event within its stream. */
+  readonly version: number;
+  readonly event: DomainEvent;
+}
+
 /**
  * Raised when an `append` operation encounters a version mismatch,
  * indicating a concurrent write conflict.
@@ -44,10 +61,19 @@ export interface EventStore {
 
   /**
    * Returns events from the stream, optionally starting from `fromVersion`
-   * (0-based index).
+   * (0-based index). Stores that persist events in serialized form rebuild
+   * them through a `DomainEventRegistry`, upcasting old schema versions.
    */
   getEvents(streamId: string, fromVersion?: number): Promise<DomainEvent[]>;
 
+  /**
+   * Reads the `$all` stream: the events of every stream in commit order,
+   * starting after the global position `fromPosition` (default 0, the
+   * beginning). Pass the position of the last processed event to resume.
+   * Durable stores may leave holes in the positions after failed appends.
+   */
+  readAll(fromPosition?: number, limit?: number): Promise<RecordedEvent[]>;
+
   /**
    * Subscribes to all future appends on any stream.
    * Returns an `Unsubscribe` callback to cancel the subscription.
@@ -55,21 +81,51 @@ export interface EventStore {
   subscribe(handler: EventHandler): Unsubscribe;
 }
 
+export interface InMemoryEventStoreOptions {
+  /**
+   * When set, events are kept serialized and rebuilt through the registry on
+   * read, so serialization and upcasting behave as in a durable store.
+   */
+  readonly registry?: DomainEventRegistry;
+}
+
+type StoredEvent = DomainEvent | SerializedDomainEvent;
+
+interface LogEntry {
+  readonly streamId: string;
+  readonly version: number;
+  readonly stored: StoredEvent;
+}
+
 /**
  * In-memory implementation of {@link EventStore}, intended for testing
  * and local development.
  */
 export class InMemoryEventStore implements EventStore {
-  private readonly streams = new Map<string, DomainEvent[]>();
+  private readonly streams = new Map<string, StoredEvent[]>();
+  private readonly log: LogEntry[] = [];
   private readonly handlers: EventHandler[] = [];
+  private readonly registry: DomainEventRegistry | undefined;
+
+  constructor(options: InMemoryEventStoreOptions = {}) {
+    this.registry = options.registry;
+  }
 
   append(streamId: string, events: DomainEvent[], expectedVersion: number): Promise<void> {
     const current = this.streams.get(streamId) ?? [];
     if (current.length !== expectedVersion) {
       return Promise.reject(new ConcurrencyError(streamId, expectedVersion, current.length));
     }
-    const updated = [...current, ...events];
-    this.streams.set(streamId, updated);
+    let encoded: StoredEvent[];
+    try {
+      encoded = events.map((event) => this.encode(event));
+    } catch (error) {
+      return Promise.reject(error as Error);
+    }
+    this.streams.set(streamId, [...current, ...encoded]);
+    encoded.forEach((stored, index) => {
+      this.log.push({ streamId, version: expectedVersion + index + 1, stored });
+    });
     for (const event of events) {
       for (const handler of this.handlers) {
         handler(event);
@@ -80,7 +136,27 @@ export class InMemoryEventStore implements EventStore {
 
   getEvents(streamId: string, fromVersion = 0): Promise<DomainEvent[]> {
     const events = this.streams.get(streamId) ?? [];
-    return Promise.resolve(events.slice(fromVersion));
+    try {
+      return Promise.resolve(events.slice(fromVersion).map((stored) => this.decode(stored)));
+    } catch (error) {
+      return Promise.reject(error as Error);
+    }
+  }
+
+  readAll(fromPosition = 0, limit?: number): Promise<RecordedEvent[]> {
+    const end = limit === undefined ? undefined : fromPosition + limit;
+    try {
+      return Promise.resolve(
+        this.log.slice(fromPosition, end).map(({ streamId, version, stored }, index) => ({
+          position: fromPosition + index + 1,
+          streamId,
+          version,
+          event: this.decode(stored),
+        })),
+      );
+    } catch (error) {
+      return Promise.reject(error as Error);
+    }
   }
 
   subscribe(handler: EventHandler): Unsubscribe {
@@ -92,4 +168,14 @@ export class InMemoryEventStore implements EventStore {
       }
     };
   }
+
+  private encode(event: DomainEvent): StoredEvent {
+    return this.registry === undefined ? event : this.registry.serialize(event);
+  }
+
+  private decode(stored: StoredEvent): DomainEvent {
+    return this.registry === undefined
+      ? (stored as DomainEvent)
+      : this.registry.deserialize(stored as SerializedDomainEvent);
+  }
 }
@@ -0,0 +1,49 @@
+/** What a {@link SnapshotPolicy} knows about an aggregate that was just saved. */
+export interface SnapshotPolicyContext {
+  readonly aggregateId: string;
+  /** Version of the aggregate after the save. */
+  readonly version: number;
+  /** Events stored since the last snapshot (or since the start of the stream). */
+  readonly eventsSinceSnapshot: number;
+  /** When the last snapshot was taken, if the aggregate was loaded from one. */
+  readonly lastSnapshotAt: Date | undefined;
+  readonly now: Date;
+}
+
+/** Decides when the repository takes a new snapshot of an aggregate. */
+export interface SnapshotPolicy {
+  shouldSnapshot(context: SnapshotPolicyContext): boolean;
+}
+
+/**
+ * Takes a snapshot once `interval` events have been stored since the last one.
+ *
+ * @example
+ * ```ts
+ * new EveryNEventsSnapshotPolicy(100)
+ * ```
+ */
+export class EveryNEventsSnapshotPolicy implements SnapshotPolicy {
+  constructor(private readonly interval: number) {
+    if (!Number.isInteger(interval) || interval < 1) {
+      throw new Error(`Snapshot interval must be a positive integer, got ${interval}`);
+    }
+  }
+
+  shouldSnapshot(context: SnapshotPolicyContext): boolean {
+    return context.eventsSinceSnapshot >= this.interval;
+  }
+}
+
+/**
+ * Takes a snapshot when the last one is older than `maxAgeMs`, or when the
+ * aggregate has none yet.
+ */
+export class TimeBasedSnapshotPolicy implements SnapshotPolicy {
+  constructor(private readonly maxAgeMs: number) {}
+
+  shouldSnapshot(context: SnapshotPolicyContext): boolean {
+    if (context.lastSnapshotAt === undefined) return true;
+    return context.now.getTime() - context.lastSnapshotAt.getTime() >= this.maxAgeMs;
+  }
+}
@@ -1,10 +1,16 @@
 /* eslint-disable @typescript-eslint/explicit-function-return-type */
 /* eslint-disable @typescript-eslint/no-unsafe-call */
-import { describe, it, expect, vi } from 'vitest';
-import { DomainEvent } from '@marcusprado02/kernel';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { DomainEvent, DomainEventRegistry } from '@marcusprado02/kernel';
 import { InMemoryEventStore, ConcurrencyError } from './EventStore';
 import { EventSourcedAggregate } from './EventSourcedAggregate';
 import { InMemorySnapshotStore } from './Snapshot';
+import { InMemoryCheckpointStore } from './CheckpointStore';
+import { CatchUpSubscription } from './CatchUpSubscription';
+import type { RecordedEvent } from './EventStore';
+import { EventSourcedRepository } from './EventSourcedRepository';
+import type { EventSourcedRepositoryOptions } from './EventSourcedRepository';
+import { EveryNEventsSnapshotPolicy, TimeBasedSnapshotPolicy } from './SnapshotPolicy';
 import type { Projection } from './Projection';
 import { ProjectionRunner } from './Projection';
 
@@ -45,6 +51,10 @@ class Counter extends EventSourcedAggregate<string> {
     return this._count;
   }
 
+  restore(count: number): void {
+    this._count = count;
+  }
+
   protected apply(event: DomainEvent): void {
     if (event instanceof CounterIncremented) this._count += event.by;
     if (event instanceof CounterReset) this._count = 0;
@@ -111,6 +121,98 @@ describe('InMemoryEventStore', () => {
     await store.append('stream-1', [new CounterIncremented(2)], 1);
     expect(received).toHaveLength(1); // no new events after unsub
   });
+
+  it('readAll returns events of every stream in append order with positions', async () => {
+    const store = new InMemoryEventStore();
+    const a1 = new CounterIncremented(1);
+    const b1 = new CounterIncremented(2);
+    const a2 = new CounterReset();
+    await store.append('a', [a1], 0);
+    await store.append('b', [b1], 0);
+    await store.append('a', [a2], 1);
+
+    const all = await store.readAll();
+    expect(all.map(({ position, streamId, version }) => [position, streamId, version])).toEqual([
+      [1, 'a', 1],
+      [2, 'b', 1],
+      [3, 'a', 2],
+    ]);
+    expect(all.map((r) => r.event)).toEqual([a1, b1, a2]);
+  });
+
+  it('readAll resumes after a position and honours the limit', async () => {
+    const store = new InMemoryEventStore();
+    await store.append(
+      'a',
+      [1, 2, 3, 4].map((n) => new CounterIncremented(n)),
+      0,
+    );
+
+    const page = await store.readAll(1, 2);
+    expect(page.map((r) => r.position)).toEqual([2, 3]);
+    expect(await store.readAll(4)).toEqual([]);
+  });
+});
+
+describe('InMemoryEventStore with a DomainEventRegistry', () => {
+  class ItemAdded extends DomainEvent {
+    static override readonly eventType = 'cart.item-added';
+    static override readonly eventVersion = 2;
+
+    constructor(
+      readonly sku: string,
+      readonly quantity: number,
+    ) {
+      super();
+    }
+  }
+
+  // Shape written before `quantity` existed.
+  class ItemAddedV1 extends DomainEvent {
+    static override readonly eventType = 'cart.item-added';
+
+    constructor(readonly sku: string) {
+      super();
+    }
+  }
+
+  const registry = new DomainEventRegistry()
+    .register(ItemAdded, {
+      fromPayload: (p) => new ItemAdded(p['sku'] as string, p['quantity'] as number),
+    })
+    .registerUpcaster({
+      eventType: ItemAdded.eventType,
+      fromVersion: 1,
+      upcast: (payload) => ({ ...payload, quantity: 1 }),
+    });
+
+  it('rebuilds equivalent instances on read', async () => {
+    const store = new InMemoryEventStore({ registry });
+    const event = new ItemAdded('sku-1', 3);
+    await store.append('cart-1', [event], 0);
+
+    const [read] = await store.getEvents('cart-1');
+    expect(read).not.toBe(event);
+    expect(read).toBeInstanceOf(ItemAdded);
+    expect(read?.eventId).toBe(event.eventId);
+    expect((read as ItemAdded).quantity).toBe(3);
+  });
+
+  it('upcasts events stored with an older schema version', async () => {
+    const store = new InMemoryEventStore({ registry });
+    await store.append('cart-1', [new ItemAddedV1('sku-1'), new ItemAdded('sku-2', 5)], 0);
+
+    const events = (await store.getEvents('cart-1')) as ItemAdded[];
+    expect(events.map((e) => [e.sku, e.quantity, e.eventVersion])).toEqual([
+      ['sku-1', 1, 2],
+      ['sku-2', 5, 2],
+    ]);
+  });
+
+  it('rejects events whose type is not registered', async () => {
+    const store = new InMemoryEventStore({ registry });
+    await expect(store.append('c-1', [new CounterReset()], 0)).rejects.toThrow(/not registered/);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -290,3 +392,375 @@ describe('ProjectionRunner', () => {
     expect(spy).toHaveBeenCalledTimes(2);
   });
 });
+
+// ---------------------------------------------------------------------------
+// Suite 6: CatchUpSubscription
+// ---------------------------------------------------------------------------
+
+describe('CatchUpSubscription', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const positions = (received: RecordedEvent[]) => received.map((r) => r.position);
+
+  it('catches up on history, then delivers live appends in order', async () => {
+    const store = new InMemoryEventStore();
+    await store.append('a', [new CounterIncremented(1), new CounterIncremented(2)], 0);
+    await store.append('b', [new CounterIncremented(3)], 0);
+    const received: RecordedEvent[] = [];
+    const onLive = vi.fn();
+    const subscription = new CatchUpSubscription(
+      store,
+      new InMemoryCheckpointStore(),
+      'counter-view',
+      (recorded) => {
+        received.push(recorded);
+      },
+      { batchSize: 2, onLive },
+    );
+
+    await subscription.start();
+    expect(positions(received)).toEqual([1, 2, 3]);
+    expect(subscription.isLive).toBe(true);
+    expect(onLive).toHaveBeenCalledOnce();
+
+    await store.append('b', [new CounterReset()], 1);
+    await vi.waitFor(() => expect(positions(received)).toEqual([1, 2, 3, 4]));
+    await subscription.stop();
+  });
+
+  it('resumes from the stored checkpoint after a restart', async () => {
+    const store = new InMemoryEventStore();
+    const checkpoints = new InMemoryCheckpointStore();
+    await store.append('a', [new CounterIncremented(1), new CounterIncremented(2)], 0);
+    const first: number[] = [];
+    const before = new CatchUpSubscription(store, checkpoints, 'view', (r) => {
+      first.push(r.position);
+    });
+    await before.start();
+    await before.stop();
+    expect(await checkpoints.load('view')).toBe(2);
+
+    await store.append('a', [new CounterIncremented(3)], 2);
+    const second: number[] = [];
+    const after = new CatchUpSubscription(store, checkpoints, 'view', (r) => {
+      second.push(r.position);
+    });
+    await after.start();
+    await after.stop();
+
+    expect(first).toEqual([1, 2]);
+    expect(second).toEqual([3]);
+    expect(await checkpoints.load('view')).toBe(3);
+  });
+
+  it('stops at a failing event, checkpoints the progress and retries it', async () => {
+    vi.useFakeTimers();
+    const store = new InMemoryEventStore();
+    const checkpoints = new InMemoryCheckpointStore();
+    await store.append(
+      'a',
+      [1, 2, 3].map((n) => new CounterIncremented(n)),
+      0,
+    );
+    const onError = vi.fn();
+    const received: number[] = [];
+    let failures = 1;
+    const subscription = new CatchUpSubscription(
+      store,
+      checkpoints,
+      'view',
+      async (recorded) => {
+        if (recorded.position === 2 && failures-- > 0) throw new Error('boom');
+        received.push(recorded.position);
+      },
+      { retryDelayMs: 500, onError },
+    );
+
+    await subscription.start();
+    expect(received).toEqual([1]);
+    expect(await checkpoints.load('view')).toBe(1);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'boom' }));
+    expect(subscription.isLive).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(received).toEqual([1, 2, 3]);
+    expect(subscription.isLive).toBe(true);
+    await subscription.stop();
+  });
+
+  it('waits for a hole near the head to fill before skipping it', async () => {
+    vi.useFakeTimers();
+    const recorded = (position: number): RecordedEvent => ({
+      position,
+      streamId: 's',
+      version: position,
+      event: new CounterIncremented(position),
+    });
+    const log = [recorded(1), recorded(3)];
+    const store = new InMemoryEventStore();
+    vi.spyOn(store, 'readAll').mockImplementation(async (from = 0) =>
+      log.filter((r) => r.position > from),
+    );
+    const received: number[] = [];
+    const subscription = new CatchUpSubscription(
+      store,
+      new InMemoryCheckpointStore(),
+      'view',
+      (r) => {
+        received.push(r.position);
+      },
+      { gapTimeoutMs: 1000 },
+    );
+
+    await subscription.start();
+    expect(received).toEqual([1]);
+
+    log.splice(1, 0, recorded(2));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(received).toEqual([1, 2, 3]);
+
+    log.push(recorded(5));
+    await vi.advanceTimersByTimeAsync(0);
+    await store.append('other', [new CounterReset()], 0);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(received).toEqual([1, 2, 3, 5]);
+    await subscription.stop();
+  });
+
+  it('waits for a hole inside a full batch while catching up', async () => {
+    vi.useFakeTimers();
+    const recorded = (position: number): RecordedEvent => ({
+      position,
+      streamId: 's',
+      version: position,
+      event: new CounterIncremented(position),
+    });
+    const log = [1, 3, 4, 5].map(recorded);
+    const store = new InMemoryEventStore();
+    vi.spyOn(store, 'readAll').mockImplementation(async (from = 0, limit = 100) =>
+      log.filter((r) => r.position > from).slice(0, limit),
+    );
+    const received: number[] = [];
+    const subscription = new CatchUpSubscription(
+      store,
+      new InMemoryCheckpointStore(),
+      'view',
+      (r) => {
+        received.push(r.position);
+      },
+      { batchSize: 3, gapTimeoutMs: 1000 },
+    );
+
+    await subscription.start();
+    expect(received).toEqual([1]);
+    expect(subscription.isLive).toBe(false);
+
+    log.splice(1, 0, recorded(2));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(received).toEqual([1, 2, 3, 4, 5]);
+    expect(subscription.isLive).toBe(true);
+    await subscription.stop();
+  });
+
+  it('does not deliver after stop', async () => {
+    const store = new InMemoryEventStore();
+    const handler = vi.fn();
+    const subscription = new CatchUpSubscription(
+      store,
+      new InMemoryCheckpointStore(),
+      'view',
+      handler,
+    );
+    await subscription.start();
+    await subscription.stop();
+    expect(subscription.isRunning).toBe(false);
+
+    await store.append('a', [new CounterIncremented(1)], 0);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Suite 7: EventSourcedRepository
+// ---------------------------------------------------------------------------
+
+describe('EventSourcedRepository', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createRepository = (
+    overrides: Partial<EventSourcedRepositoryOptions<Counter, string, number>> = {},
+  ) => {
+    const store = new InMemoryEventStore();
+    const snapshots = new InMemorySnapshotStore();
+    const repository = new EventSourcedRepository<Counter, string, number>(store, {
+      create: (id) => new Counter(id),
+      streamId: (id) => `counter-${id}`,
+      snapshots: {
+        store: snapshots,
+        policy: new EveryNEventsSnapshotPolicy(3),
+        toState: (counter) => counter.count,
+        restore: (counter, count) => counter.restore(count),
+      },
+      ...overrides,
+    });
+    return { store, snapshots, repository };
+  };
+
+  it('saves uncommitted events and loads the aggregate back', async () => {
+    const { store, repository } = createRepository();
+    const counter = Counter.create('c1');
+    counter.increment(5);
+
+    await repository.save(counter);
+    expect(counter.getUncommittedEvents()).toHaveLength(0);
+    expect(await store.getEvents('counter-c1')).toHaveLength(2);
+
+    const loaded = await repository.load('c1');
+    expect(loaded?.count).toBe(5);
+    expect(loaded?.version).toBe(2);
+    expect(await repository.load('missing')).toBeUndefined();
+  });
+
+  it('takes snapshots by policy and loads from the latest one', async () => {
+    const { store, snapshots, repository } = createRepository();
+    const counter = Counter.create('c1');
+    counter.increment(2);
+    await repository.save(counter);
+    expect(await snapshots.get('counter-c1')).toBeUndefined();
+
+    counter.increment(3);
+    await repository.save(counter);
+    expect(await snapshots.get('counter-c1')).toMatchObject({ version: 3, state: 5 });
+
+    counter.increment(1);
+    await repository.save(counter);
+    const getEvents = vi.spyOn(store, 'getEvents');
+    const loaded = await repository.load('c1');
+
+    expect(getEvents).toHaveBeenCalledWith('counter-c1', 3);
+    expect(loaded?.count).toBe(6);
+    expect(loaded?.version).toBe(4);
+  });
+
+  it('counts events since the snapshot an aggregate was loaded from', async () => {
+    const { snapshots, repository } = createRepository();
+    const counter = Counter.create('c1');
+    counter.increment(1);
+    counter.increment(1);
+    await repository.save(counter);
+
+    const loaded = (await repository.load('c1'))!;
+    loaded.increment(1);
+    loaded.increment(1);
+    await repository.save(loaded);
+    expect((await snapshots.get('counter-c1'))?.version).toBe(3);
+
+    loaded.increment(1);
+    await repository.save(loaded);
+    expect((await snapshots.get('counter-c1'))?.version).toBe(6);
+  });
+
+  it('fails on a conflict when no resolver is configured', async () => {
+    const { repository } = createRepository();
+    await repository.save(Counter.create('c1'));
+    const a = (await repository.load('c1'))!;
+    const b = (await repository.load('c1'))!;
+    a.increment(1);
+    b.increment(2);
+
+    await repository.save(a);
+    await expect(repository.save(b)).rejects.toBeInstanceOf(ConcurrencyError);
+  });
+
+  it('retries on top of concurrent events the resolver accepts', async () => {
+    const resolveConflict = vi.fn(() => true);
+    const { repository } = createRepository({ resolveConflict });
+    await repository.save(Counter.create('c1'));
+    const a = (await repository.load('c1'))!;
+    const b = (await repository.load('c1'))!;
+    a.increment(1);
+    b.increment(2);
+
+    await repository.save(a);
+    await repository.save(b);
+
+    expect(resolveConflict).toHaveBeenCalledWith({
+      streamId: 'counter-c1',
+      uncommitted: [expect.any(CounterIncremented)],
+      committed: [expect.any(CounterIncremented)],
+    });
+    expect(b.count).toBe(3);
+    expect(b.version).toBe(3);
+    expect((await repository.load('c1'))?.count).toBe(3);
+  });
+
+  it('rethrows the conflict when the resolver rejects it', async () => {
+    const { repository } = createRepository({ resolveConflict: () => false });
+    await repository.save(Counter.create('c1'));
+    const a = (await repository.load('c1'))!;
+    const b = (await repository.load('c1'))!;
+    a.reset();
+    b.increment(2);
+
+    await repository.save(a);
+    await expect(repository.save(b)).rejects.toBeInstanceOf(ConcurrencyError);
+  });
+
+  it('publishes saved events after committing them', async () => {
+    const publish = vi.fn(async () => undefined);
+    const { repository } = createRepository({
+      publisher: { publish, publishOne: vi.fn() },
+    });
+    const counter = Counter.create('c1');
+    const events = counter.getUncommittedEvents();
+
+    await repository.save(counter);
+    await repository.save(counter);
+    expect(publish).toHaveBeenCalledOnce();
+    expect(publish).toHaveBeenCalledWith(events);
+  });
+
+  it('reports snapshot failures without failing the save', async () => {
+    const onError = vi.fn();
+    const snapshots = new InMemorySnapshotStore();
+    vi.spyOn(snapshots, 'save').mockRejectedValue(new Error('disk full'));
+    const { store, repository } = createRepository({
+      snapshots: {
+        store: snapshots,
+        policy: new EveryNEventsSnapshotPolicy(1),
+        toState: (counter) => counter.count,
+        restore: (counter, count) => counter.restore(count),
+        onError,
+      },
+    });
+
+    await repository.save(Counter.create('c1'));
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'disk full' }));
+    expect(await store.getEvents('counter-c1')).toHaveLength(1);
+  });
+
+  it('TimeBasedSnapshotPolicy snapshots when the last snapshot is too old', () => {
+    const policy = new TimeBasedSnapshotPolicy(60_000);
+    const context = {
+      aggregateId: 'a',
+      version: 10,
+      eventsSinceSnapshot: 1,
+      now: new Date('2024-01-01T00:10:00Z'),
+    };
+    expect(policy.shouldSnapshot({ ...context, lastSnapshotAt: undefined })).toBe(true);
+    expect(
+      policy.shouldSnapshot({ ...context, lastSnapshotAt: new Date('2024-01-01T00:09:30Z') }),
+    ).toBe(false);
+    expect(
+      policy.shouldSnapshot({ ...context, lastSnapshotAt: new Date('2024-01-01T00:09:00Z') }),
+    ).toBe(true);
+  });
+
+  it('EveryNEventsSnapshotPolicy rejects a non-positive interval', () => {
+    expect(() => new EveryNEventsSnapshotPolicy(0)).toThrow('positive integer');
+  });
+});
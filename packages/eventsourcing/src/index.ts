@@ -1,8 +1,27 @@
-export type { EventHandler, Unsubscribe, EventStore } from './EventStore';
+export type {
+  EventHandler,
+  Unsubscribe,
+  EventStore,
+  RecordedEvent,
+  InMemoryEventStoreOptions,
+} from './EventStore';
 export { ConcurrencyError, InMemoryEventStore } from './EventStore';
+export type { CheckpointStore } from './CheckpointStore';
+export { InMemoryCheckpointStore } from './CheckpointStore';
+export type { CatchUpSubscriptionOptions, RecordedEventHandler } from './CatchUpSubscription';
+export { CatchUpSubscription } from './CatchUpSubscription';
 export { EventSourcedAggregate } from './EventSourcedAggregate';
 export type { Snapshot, SnapshotStore } from './Snapshot';
 export { InMemorySnapshotStore } from './Snapshot';
+export type { SnapshotPolicy, SnapshotPolicyContext } from './SnapshotPolicy';
+export { EveryNEventsSnapshotPolicy, TimeBasedSnapshotPolicy } from './SnapshotPolicy';
+export type {
+  AggregateSnapshotOptions,
+  ConcurrencyConflict,
+  ConflictResolver,
+  EventSourcedRepositoryOptions,
+} from './EventSourcedRepository';
+export { EventSourcedRepository } from './EventSourcedRepository';
 export type { Projection } from './Projection';
 export { ProjectionRunner } from './Projection';
 
@@ -15,3 +34,30 @@ export type {
   ReplayHandler,
   ProgressCallback,
 } from './replay/index';
+
+// Durable stores
+export {
+  PostgresEventStore,
+  PostgresSnapshotStore,
+  PostgresCheckpointStore,
+} from './postgres/index';
+export type {
+  PostgresEventStoreOptions,
+  PostgresSnapshotStoreOptions,
+  PostgresCheckpointStoreOptions,
+  PostgresClientLike,
+  PostgresListenerLike,
+  PostgresNotification,
+  PostgresQueryResult,
+} from './postgres/index';
+export { MongoEventStore, MongoSnapshotStore, MongoCheckpointStore } from './mongodb/index';
+export type {
+  MongoEventStoreOptions,
+  MongoCheckpointCollectionLike,
+  MongoCounterCollectionLike,
+  MongoDocument,
+  MongoEventCollectionLike,
+  MongoFindCursorLike,
+  MongoSnapshotCollectionLike,
+} from './mongodb/index';
+export type { EventPollerOptions } from './EventPoller';
@@ -0,0 +1,23 @@
+import type { CheckpointStore } from '../CheckpointStore';
+import type { MongoCheckpointCollectionLike } from './MongoClientLike';
+
+/**
+ * {@link CheckpointStore} keeping one document per subscription
+ * (`_id` = subscription id) in a MongoDB collection.
+ */
+export class MongoCheckpointStore implements CheckpointStore {
+  constructor(private readonly checkpoints: MongoCheckpointCollectionLike) {}
+
+  async load(subscriptionId: string): Promise<number | undefined> {
+    const doc = await this.checkpoints.findOne({ _id: subscriptionId });
+    return doc === null ? undefined : (doc['position'] as number);
+  }
+
+  async save(subscriptionId: string, position: number): Promise<void> {
+    await this.checkpoints.replaceOne(
+      { _id: subscriptionId },
+      { position, updatedAt: new Date() },
+      { upsert: true },
+    );
+  }
+}
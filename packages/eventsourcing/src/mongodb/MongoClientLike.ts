@@ -0,0 +1,63 @@
+/**
+ * Structural interfaces for the MongoDB collections used by the event and
+ * snapshot stores. They match the subset of the official driver's
+ * `Collection` API in use, so tests can run against in-process fakes:
+ *
+ * ```typescript
+ * const events = db.collection('events') as unknown as MongoEventCollectionLike;
+ * const counters = db.collection('counters') as unknown as MongoCounterCollectionLike;
+ * ```
+ */
+
+export type MongoDocument = Record<string, unknown>;
+
+export interface MongoFindCursorLike {
+  sort(sort: Record<string, 1 | -1>): MongoFindCursorLike;
+  limit(n: number): MongoFindCursorLike;
+  toArray(): Promise<MongoDocument[]>;
+}
+
+export interface MongoEventCollectionLike {
+  insertMany(documents: MongoDocument[], options: { ordered: boolean }): Promise<unknown>;
+  find(filter: MongoDocument): MongoFindCursorLike;
+  findOne(
+    filter: MongoDocument,
+    options?: { sort?: Record<string, 1 | -1> },
+  ): Promise<MongoDocument | null>;
+  createIndex(keys: Record<string, 1 | -1>, options?: { unique?: boolean }): Promise<string>;
+}
+
+/** Collection holding the global position sequence. */
+export interface MongoCounterCollectionLike {
+  findOneAndUpdate(
+    filter: MongoDocument,
+    update: MongoDocument,
+    options: { upsert: boolean; returnDocument: 'after' },
+  ): Promise<MongoDocument | null>;
+}
+
+export interface MongoSnapshotCollectionLike {
+  findOne(filter: MongoDocument): Promise<MongoDocument | null>;
+  replaceOne(
+    filter: MongoDocument,
+    replacement: MongoDocument,
+    options: { upsert: boolean },
+  ): Promise<unknown>;
+}
+
+/** Collection holding one checkpoint document per subscription. */
+export interface MongoCheckpointCollectionLike {
+  findOne(filter: MongoDocument): Promise<MongoDocument | null>;
+  replaceOne(
+    filter: MongoDocument,
+    replacement: MongoDocument,
+    options: { upsert: boolean },
+  ): Promise<unknown>;
+}
+
+/** `true` when the error is a duplicate key error (code 11000). */
+export function isDuplicateKeyError(error: unknown): boolean {
+  return (
+    typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 11000
+  );
+}
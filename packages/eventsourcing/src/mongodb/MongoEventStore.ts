@@ -0,0 +1,191 @@
+import type {
+  DomainEvent,
+  DomainEventRegistry,
+  EventPayload,
+  SerializedDomainEvent,
+} from '@marcusprado02/kernel';
+import { ConcurrencyError } from '../EventStore';
+import type { EventHandler, EventStore, RecordedEvent, Unsubscribe } from '../EventStore';
+import { EventPoller, toRecordedEvent } from '../EventPoller';
+import type { EventPollerOptions, PositionedEvent } from '../EventPoller';
+import { isDuplicateKeyError } from './MongoClientLike';
+import type {
+  MongoCounterCollectionLike,
+  MongoDocument,
+  MongoEventCollectionLike,
+} from './MongoClientLike';
+
+export interface MongoEventStoreOptions extends EventPollerOptions {
+  /** `_id` of the counter document holding the global position. Default: `'$all'`. */
+  counterId?: string;
+}
+
+/**
+ * {@link EventStore} backed by a MongoDB collection, one document per event.
+ *
+ * - Optimistic concurrency: the stream version is checked before inserting
+ *   and a unique `{ streamId, version }` index rejects concurrent writers;
+ *   both surface as {@link ConcurrencyError}. A conflicting writer always
+ *   collides on the first event, so an ordered `insertMany` stores nothing.
+ * - Global positions are reserved in blocks from a counter document, so they
+ *   increase across streams but may have gaps after failed appends.
+ * - `readAll` reads by global position; `subscribe` polls it.
+ *
+ * Call {@link MongoEventStore.ensureIndexes} once at startup.
+ *
+ * @example
+ * ```ts
+ * const store = new MongoEventStore(
+ *   db.collection('events') as unknown as MongoEventCollectionLike,
+ *   db.collection('counters') as unknown as MongoCounterCollectionLike,
+ *   registry,
+ * );
+ * await store.ensureIndexes();
+ * ```
+ */
+export class MongoEventStore implements EventStore {
+  private readonly poller: EventPoller;
+  private readonly counterId: string;
+
+  constructor(
+    private readonly events: MongoEventCollectionLike,
+    private readonly counters: MongoCounterCollectionLike,
+    private readonly registry: DomainEventRegistry,
+    options: MongoEventStoreOptions = {},
+  ) {
+    const { counterId = '$all', ...pollerOptions } = options;
+    this.counterId = counterId;
+    this.poller = new EventPoller(
+      {
+        headPosition: (): Promise<number> => this.headPosition(),
+        readAfter: (position, limit): Promise<PositionedEvent[]> => this.readAfter(position, limit),
+      },
+      registry,
+      pollerOptions,
+    );
+  }
+
+  /** Creates the unique stream/version index and the global position index. */
+  async ensureIndexes(): Promise<void> {
+    await this.events.createIndex({ streamId: 1, version: 1 }, { unique: true });
+    await this.events.createIndex({ position: 1 }, { unique: true });
+  }
+
+  async append(streamId: string, events: DomainEvent[], expectedVersion: number): Promise<void> {
+    const actual = await this.streamVersion(streamId);
+    if (actual !== expectedVersion) throw new ConcurrencyError(streamId, expectedVersion, actual);
+    if (events.length === 0) return;
+
+    const firstPosition = await this.reservePositions(events.length);
+    const documents = events.map((event, index) =>
+      toDocument(
+        this.registry.serialize(event),
+        streamId,
+        expectedVersion + index + 1,
+        firstPosition + index,
+      ),
+    );
+    try {
+      await this.events.insertMany(documents, { ordered: true });
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) throw error;
+      throw new ConcurrencyError(streamId, expectedVersion, await this.streamVersion(streamId));
+    }
+    if (this.poller.active) void this.poller.poll();
+  }
+
+  async getEvents(streamId: string, fromVersion = 0): Promise<DomainEvent[]> {
+    const documents = await this.events
+      .find({ streamId, version: { $gt: fromVersion } })
+      .sort({ version: 1 })
+      .toArray();
+    return documents.map((doc) => this.registry.deserialize(fromDocument(doc)));
+  }
+
+  async readAll(fromPosition = 0, limit?: number): Promise<RecordedEvent[]> {
+    const events = await this.readAfter(fromPosition, limit);
+    return events.map((positioned) => toRecordedEvent(positioned, this.registry));
+  }
+
+  subscribe(handler: EventHandler): Unsubscribe {
+    return this.poller.subscribe(handler);
+  }
+
+  /** Delivers newly appended events to subscribers without waiting for the timer. */
+  poll(): Promise<void> {
+    return this.poller.poll();
+  }
+
+  private async streamVersion(streamId: string): Promise<number> {
+    const last = await this.events.findOne({ streamId }, { sort: { version: -1 } });
+    return last === null ? 0 : (last['version'] as number);
+  }
+
+  /** Atomically advances the counter and returns the first reserved position. */
+  private async reservePositions(count: number): Promise<number> {
+    const counter = await this.counters.findOneAndUpdate(
+      { _id: this.counterId },
+      { $inc: { seq: count } },
+      { upsert: true, returnDocument: 'after' },
+    );
+    const last = counter?.['seq'];
+    if (typeof last !== 'number') {
+      throw new Error(`Counter "${this.counterId}" did not return a sequence value`);
+    }
+    return last - count + 1;
+  }
+
+  private async headPosition(): Promise<number> {
+    const last = await this.events.findOne({}, { sort: { position: -1 } });
+    return last === null ? 0 : (last['position'] as number);
+  }
+
+  private async readAfter(position: number, limit?: number): Promise<PositionedEvent[]> {
+    const cursor = this.events.find({ position: { $gt: position } }).sort({ position: 1 });
+    const documents = await (limit === undefined ? cursor : cursor.limit(limit)).toArray();
+    return documents.map((doc) => ({
+      position: doc['position'] as number,
+      streamId: doc['streamId'] as string,
+      version: doc['version'] as number,
+      event: fromDocument(doc),
+    }));
+  }
+}
+
+function toDocument(
+  event: SerializedDomainEvent,
+  streamId: string,
+  version: number,
+  position: number,
+): MongoDocument {
+  return {
+    _id: event.eventId,
+    streamId,
+    version,
+    position,
+    eventType: event.eventType,
+    eventVersion: event.eventVersion,
+    payload: event.payload,
+    occurredAt: new Date(event.occurredAt),
+    ...(event.correlationId !== undefined && { correlationId: event.correlationId }),
+    ...(event.causationId !== undefined && { causationId: event.causationId }),
+    ...(event.tenantId !== undefined && { tenantId: event.tenantId }),
+  };
+}
+
+function fromDocument(doc: MongoDocument): SerializedDomainEvent {
+  const optional = (key: string): string | undefined => doc[key] as string | undefined;
+  const correlationId = optional('correlationId');
+  const causationId = optional('causationId');
+  const tenantId = optional('tenantId');
+  return {
+    eventId: doc['_id'] as string,
+    eventType: doc['eventType'] as string,
+    eventVersion: doc['eventVersion'] as number,
+    occurredAt: new Date(doc['occurredAt'] as Date | string).toISOString(),
+    payload: doc['payload'] as EventPayload,
+    ...(correlationId !== undefined && { correlationId }),
+    ...(causationId !== undefined && { causationId }),
+    ...(tenantId !== undefined && { tenantId }),
+  };
+}
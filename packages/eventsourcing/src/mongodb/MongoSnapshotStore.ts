@@ -0,0 +1,40 @@
+import type { Snapshot, SnapshotStore } from '../Snapshot';
+import { isDuplicateKeyError } from './MongoClientLike';
+import type { MongoSnapshotCollectionLike } from './MongoClientLike';
+
+/**
+ * {@link SnapshotStore} keeping the latest snapshot per aggregate in a
+ * MongoDB collection (`_id` = aggregate id). A save never replaces a snapshot
+ * taken at a higher version, so a slow writer cannot roll a snapshot back.
+ */
+export class MongoSnapshotStore implements SnapshotStore {
+  constructor(private readonly snapshots: MongoSnapshotCollectionLike) {}
+
+  async save<TState>(snapshot: Snapshot<TState>): Promise<void> {
+    try {
+      await this.snapshots.replaceOne(
+        { _id: snapshot.aggregateId, version: { $lte: snapshot.version } },
+        {
+          version: snapshot.version,
+          state: snapshot.state,
+          timestamp: snapshot.timestamp,
+        },
+        { upsert: true },
+      );
+    } catch (error) {
+      // The upsert collides on `_id` when a newer snapshot is already stored.
+      if (!isDuplicateKeyError(error)) throw error;
+    }
+  }
+
+  async get<TState>(aggregateId: string): Promise<Snapshot<TState> | undefined> {
+    const doc = await this.snapshots.findOne({ _id: aggregateId });
+    if (doc === null) return undefined;
+    return {
+      aggregateId,
+      version: doc['version'] as number,
+      state: doc['state'] as TState,
+      timestamp: new Date(doc['timestamp'] as Date | string),
+    };
+  }
+}
@@ -0,0 +1,12 @@
+export { MongoEventStore } from './MongoEventStore.js';
+export type { MongoEventStoreOptions } from './MongoEventStore.js';
+export { MongoSnapshotStore } from './MongoSnapshotStore.js';
+export { MongoCheckpointStore } from './MongoCheckpointStore.js';
+export type {
+  MongoCheckpointCollectionLike,
+  MongoCounterCollectionLike,
+  MongoDocument,
+  MongoEventCollectionLike,
+  MongoFindCursorLike,
+  MongoSnapshotCollectionLike,
+} from './MongoClientLike.js';
@@ -0,0 +1,291 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+/* eslint-disable @typescript-eslint/require-await */
+import { describe, it, expect, vi } from 'vitest';
+import { DomainEvent, DomainEventRegistry } from '@marcusprado02/kernel';
+import { ConcurrencyError } from '../EventStore';
+import { MongoEventStore } from './MongoEventStore';
+import { MongoSnapshotStore } from './MongoSnapshotStore';
+import { MongoCheckpointStore } from './MongoCheckpointStore';
+import type {
+  MongoCheckpointCollectionLike,
+  MongoCounterCollectionLike,
+  MongoDocument,
+  MongoEventCollectionLike,
+  MongoFindCursorLike,
+  MongoSnapshotCollectionLike,
+} from './MongoClientLike';
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+class ItemShipped extends DomainEvent {
+  static override readonly eventType = 'warehouse.item-shipped';
+  static override readonly eventVersion = 2;
+
+  constructor(
+    readonly sku: string,
+    readonly carrier: string,
+  ) {
+    super();
+  }
+}
+
+const registry = new DomainEventRegistry()
+  .register(ItemShipped, {
+    fromPayload: (p) => new ItemShipped(p['sku'] as string, p['carrier'] as string),
+  })
+  .registerUpcaster({
+    eventType: ItemShipped.eventType,
+    fromVersion: 1,
+    upcast: (payload) => ({ ...payload, carrier: 'unknown' }),
+  });
+
+const duplicateKey = () => Object.assign(new Error('E11000 duplicate key'), { code: 11000 });
+
+type Condition = { $gt?: number; $lte?: number } | unknown;
+
+function matches(doc: MongoDocument, filter: MongoDocument): boolean {
+  return Object.entries(filter).every(([key, condition]: [string, Condition]) => {
+    const value = doc[key] as number;
+    if (typeof condition === 'object' && condition !== null) {
+      const { $gt, $lte } = condition as { $gt?: number; $lte?: number };
+      return ($gt === undefined || value > $gt) && ($lte === undefined || value <= $lte);
+    }
+    return value === condition;
+  });
+}
+
+function sortBy(docs: MongoDocument[], sort: Record<string, 1 | -1>): MongoDocument[] {
+  const [[key, direction]] = Object.entries(sort) as [[string, 1 | -1]];
+  return [...docs].sort((a, b) => ((a[key] as number) - (b[key] as number)) * direction);
+}
+
+class FakeCursor implements MongoFindCursorLike {
+  constructor(private docs: MongoDocument[]) {}
+
+  sort(sort: Record<string, 1 | -1>) {
+    this.docs = sortBy(this.docs, sort);
+    return this;
+  }
+
+  limit(n: number) {
+    this.docs = this.docs.slice(0, n);
+    return this;
+  }
+
+  async toArray() {
+    return this.docs;
+  }
+}
+
+/** In-process stand-in for the events collection with the store's unique indexes. */
+class FakeEventCollection implements MongoEventCollectionLike {
+  readonly docs: MongoDocument[] = [];
+  readonly indexes: Array<Record<string, 1 | -1>> = [];
+
+  async insertMany(documents: MongoDocument[]) {
+    for (const doc of documents) {
+      const clash = this.docs.some(
+        (d) =>
+          d['_id'] === doc['_id'] ||
+          (d['streamId'] === doc['streamId'] && d['version'] === doc['version']),
+      );
+      if (clash) throw duplicateKey();
+      this.docs.push(doc);
+    }
+  }
+
+  find(filter: MongoDocument) {
+    return new FakeCursor(this.docs.filter((d) => matches(d, filter)));
+  }
+
+  async findOne(filter: MongoDocument, options?: { sort?: Record<string, 1 | -1> }) {
+    const found = this.docs.filter((d) => matches(d, filter));
+    return (options?.sort === undefined ? found : sortBy(found, options.sort))[0] ?? null;
+  }
+
+  async createIndex(keys: Record<string, 1 | -1>) {
+    this.indexes.push(keys);
+    return Object.keys(keys).join('_');
+  }
+}
+
+class FakeCounters implements MongoCounterCollectionLike {
+  seq = 0;
+
+  async findOneAndUpdate(_filter: MongoDocument, update: MongoDocument) {
+    this.seq += (update['$inc'] as { seq: number }).seq;
+    return { _id: '$all', seq: this.seq };
+  }
+}
+
+const createStore = () => {
+  const events = new FakeEventCollection();
+  const counters = new FakeCounters();
+  return { events, counters, store: new MongoEventStore(events, counters, registry) };
+};
+
+// ── MongoEventStore ──────────────────────────────────────────────────────────
+
+describe('MongoEventStore', () => {
+  it('creates the unique stream/version and position indexes', async () => {
+    const { events, store } = createStore();
+    await store.ensureIndexes();
+    expect(events.indexes).toEqual([{ streamId: 1, version: 1 }, { position: 1 }]);
+  });
+
+  it('appends documents with stream versions and global positions', async () => {
+    const { events, store } = createStore();
+    await store.append('box-1', [new ItemShipped('a', 'dhl'), new ItemShipped('b', 'dhl')], 0);
+    await store.append('box-2', [new ItemShipped('c', 'ups')], 0);
+
+    expect(events.docs.map((d) => [d['streamId'], d['version'], d['position']])).toEqual([
+      ['box-1', 1, 1],
+      ['box-1', 2, 2],
+      ['box-2', 1, 3],
+    ]);
+    const read = (await store.getEvents('box-1', 1)) as ItemShipped[];
+    expect(read.map((e) => e.sku)).toEqual(['b']);
+    expect(read[0]).toBeInstanceOf(ItemShipped);
+  });
+
+  it('upcasts documents written with an older schema version', async () => {
+    const { events, store } = createStore();
+    events.docs.push({
+      _id: 'evt-old',
+      streamId: 'box-1',
+      version: 1,
+      position: 1,
+      eventType: ItemShipped.eventType,
+      eventVersion: 1,
+      payload: { sku: 'a' },
+      occurredAt: new Date('2024-01-01T00:00:00Z'),
+    });
+
+    const [event] = (await store.getEvents('box-1')) as ItemShipped[];
+    expect(event?.carrier).toBe('unknown');
+    expect(event?.eventId).toBe('evt-old');
+  });
+
+  it('rejects appends at a stale expected version', async () => {
+    const { store } = createStore();
+    await store.append('box-1', [new ItemShipped('a', 'dhl')], 0);
+    await expect(store.append('box-1', [new ItemShipped('b', 'dhl')], 0)).rejects.toBeInstanceOf(
+      ConcurrencyError,
+    );
+  });
+
+  it('maps duplicate key errors from a concurrent writer to ConcurrencyError', async () => {
+    const { events, store } = createStore();
+    const insert = events.insertMany.bind(events);
+    // Another writer lands version 1 between the version check and the insert.
+    vi.spyOn(events, 'insertMany').mockImplementationOnce(async (docs) => {
+      events.docs.push({ ...docs[0], _id: 'other' });
+      return insert(docs);
+    });
+
+    const error = await store.append('box-1', [new ItemShipped('a', 'dhl')], 0).catch((e) => e);
+    expect(error).toBeInstanceOf(ConcurrencyError);
+    expect((error as Error).message).toContain('got 1');
+  });
+
+  it('reads all streams in global position order', async () => {
+    const { store } = createStore();
+    await store.append('box-1', [new ItemShipped('a', 'dhl')], 0);
+    await store.append('box-2', [new ItemShipped('b', 'ups')], 0);
+    await store.append('box-1', [new ItemShipped('c', 'dhl')], 1);
+
+    const all = await store.readAll();
+    expect(all.map(({ position, streamId, version }) => [position, streamId, version])).toEqual([
+      [1, 'box-1', 1],
+      [2, 'box-2', 1],
+      [3, 'box-1', 2],
+    ]);
+    expect((await store.readAll(1, 1)).map((r) => (r.event as ItemShipped).sku)).toEqual(['b']);
+  });
+
+  it('delivers events appended after subscribing', async () => {
+    const { store } = createStore();
+    await store.append('box-1', [new ItemShipped('before', 'dhl')], 0);
+    const received: string[] = [];
+    const unsubscribe = store.subscribe((e) => received.push((e as ItemShipped).sku));
+
+    await store.append('box-1', [new ItemShipped('a', 'dhl')], 1);
+    await store.append('box-2', [new ItemShipped('b', 'ups')], 0);
+    await store.poll();
+    expect(received).toEqual(['a', 'b']);
+
+    unsubscribe();
+    await store.append('box-2', [new ItemShipped('c', 'ups')], 1);
+    await store.poll();
+    expect(received).toEqual(['a', 'b']);
+  });
+});
+
+// ── MongoSnapshotStore ───────────────────────────────────────────────────────
+
+class FakeSnapshots implements MongoSnapshotCollectionLike {
+  readonly docs = new Map<string, MongoDocument>();
+
+  async findOne(filter: MongoDocument) {
+    return this.docs.get(filter['_id'] as string) ?? null;
+  }
+
+  async replaceOne(filter: MongoDocument, replacement: MongoDocument) {
+    const id = filter['_id'] as string;
+    const existing = this.docs.get(id);
+    if (existing !== undefined && !matches(existing, { version: filter['version'] })) {
+      // An upsert whose filter misses an existing _id inserts a duplicate.
+      throw duplicateKey();
+    }
+    this.docs.set(id, { _id: id, ...replacement });
+  }
+}
+
+describe('MongoSnapshotStore', () => {
+  it('saves and loads the latest snapshot', async () => {
+    const store = new MongoSnapshotStore(new FakeSnapshots());
+    const timestamp = new Date('2024-03-01T00:00:00Z');
+    await store.save({ aggregateId: 'box-1', version: 4, state: { items: 2 }, timestamp });
+
+    expect(await store.get('box-1')).toEqual({
+      aggregateId: 'box-1',
+      version: 4,
+      state: { items: 2 },
+      timestamp,
+    });
+    expect(await store.get('missing')).toBeUndefined();
+  });
+
+  it('keeps the newer snapshot when an older one is saved', async () => {
+    const store = new MongoSnapshotStore(new FakeSnapshots());
+    await store.save({ aggregateId: 'a', version: 9, state: 'new', timestamp: new Date() });
+    await store.save({ aggregateId: 'a', version: 3, state: 'old', timestamp: new Date() });
+    await store.save({ aggregateId: 'a', version: 9, state: 'same', timestamp: new Date() });
+    expect((await store.get<string>('a'))?.state).toBe('same');
+  });
+});
+
+// ── MongoCheckpointStore ─────────────────────────────────────────────────────
+
+class FakeCheckpoints implements MongoCheckpointCollectionLike {
+  readonly docs = new Map<string, MongoDocument>();
+
+  async findOne(filter: MongoDocument) {
+    return this.docs.get(filter['_id'] as string) ?? null;
+  }
+
+  async replaceOne(filter: MongoDocument, replacement: MongoDocument) {
+    this.docs.set(filter['_id'] as string, { _id: filter['_id'], ...replacement });
+  }
+}
+
+describe('MongoCheckpointStore', () => {
+  it('saves, overwrites and loads checkpoints', async () => {
+    const store = new MongoCheckpointStore(new FakeCheckpoints());
+    expect(await store.load('view')).toBeUndefined();
+
+    await store.save('view', 3);
+    await store.save('view', 8);
+    expect(await store.load('view')).toBe(8);
+  });
+});
@@ -0,0 +1,51 @@
+import type { CheckpointStore } from '../CheckpointStore';
+import { assertIdentifier } from './PostgresClientLike';
+import type { PostgresClientLike } from './PostgresClientLike';
+
+export interface PostgresCheckpointStoreOptions {
+  /** Checkpoints table, optionally schema-qualified. Default: `'checkpoints'`. */
+  tableName?: string;
+}
+
+/**
+ * {@link CheckpointStore} keeping one row per subscription in a PostgreSQL
+ * table. Create the table with {@link PostgresCheckpointStore.schema}.
+ */
+export class PostgresCheckpointStore implements CheckpointStore {
+  private readonly table: string;
+
+  constructor(
+    private readonly client: PostgresClientLike,
+    options: PostgresCheckpointStoreOptions = {},
+  ) {
+    this.table = assertIdentifier(options.tableName ?? 'checkpoints');
+  }
+
+  /** DDL for the checkpoints table. */
+  static schema(tableName = 'checkpoints'): string {
+    return `CREATE TABLE IF NOT EXISTS ${assertIdentifier(tableName)} (
+  subscription_id TEXT PRIMARY KEY,
+  position BIGINT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);`;
+  }
+
+  async load(subscriptionId: string): Promise<number | undefined> {
+    const { rows } = await this.client.query<{ position: string | number }>(
+      `SELECT position FROM ${this.table} WHERE subscription_id = $1`,
+      [subscriptionId],
+    );
+    const row = rows[0];
+    return row === undefined ? undefined : Number(row.position);
+  }
+
+  async save(subscriptionId: string, position: number): Promise<void> {
+    await this.client.query(
+      `INSERT INTO ${this.table} (subscription_id, position, updated_at)
+VALUES ($1, $2, now())
+ON CONFLICT (subscription_id) DO UPDATE
+SET position = EXCLUDED.position, updated_at = EXCLUDED.updated_at`,
+      [subscriptionId, position],
+    );
+  }
+}
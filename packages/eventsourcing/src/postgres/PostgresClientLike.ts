@@ -0,0 +1,39 @@
+/**
+ * Structural interfaces for PostgreSQL clients; the query client and
+ * `assertIdentifier` come from `@marcusprado02/persistence`.
+ *
+ * They match the shape of `pg` (node-postgres) `Pool` / `Client` without
+ * importing the driver, so the stores stay driver-independent and tests can
+ * use in-process fakes. Cast at the infrastructure boundary:
+ *
+ * ```typescript
+ * import { Pool, Client } from 'pg';
+ * const pool = new Pool() as unknown as PostgresClientLike;
+ * const listener = new Client() as unknown as PostgresListenerLike; // dedicated connection
+ * ```
+ */
+
+export { assertIdentifier } from '@marcusprado02/persistence';
+export type { PostgresClientLike, PostgresQueryResult } from '@marcusprado02/persistence';
+
+export interface PostgresNotification {
+  readonly channel: string;
+  readonly payload?: string;
+}
+
+/**
+ * A dedicated connection used for `LISTEN`. It must not be a pool: pooled
+ * connections do not keep their listeners between queries.
+ */
+export interface PostgresListenerLike {
+  query(text: string): Promise<unknown>;
+  on(event: 'notification', listener: (message: PostgresNotification) => void): unknown;
+  removeListener(event: 'notification', listener: (message: PostgresNotification) => void): unknown;
+}
+
+/** `true` when the error is a unique constraint violation (SQLSTATE 23505). */
+export function isUniqueViolation(error: unknown): boolean {
+  return (
+    typeof error === 'object' && error !== null && (error as { code?: unknown }).code === '23505'
+  );
+}
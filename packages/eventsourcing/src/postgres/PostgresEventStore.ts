@@ -0,0 +1,252 @@
+import type {
+  DomainEvent,
+  DomainEventRegistry,
+  EventPayload,
+  SerializedDomainEvent,
+} from '@marcusprado02/kernel';
+import { ConcurrencyError } from '../EventStore';
+import type { EventHandler, EventStore, RecordedEvent, Unsubscribe } from '../EventStore';
+import { EventPoller, toRecordedEvent } from '../EventPoller';
+import type { EventPollerOptions, PositionedEvent } from '../EventPoller';
+import { assertIdentifier, isUniqueViolation } from './PostgresClientLike';
+import type {
+  PostgresClientLike,
+  PostgresListenerLike,
+  PostgresNotification,
+} from './PostgresClientLike';
+
+export interface PostgresEventStoreOptions extends EventPollerOptions {
+  /** Events table, optionally schema-qualified. Default: `'events'`. */
+  tableName?: string;
+  /**
+   * When set, `append` issues `pg_notify(channel, streamId)` and subscribers
+   * poll as soon as a notification arrives on `listener`, instead of waiting
+   * for the next poll interval.
+   */
+  notification?: {
+    readonly channel: string;
+    readonly listener: PostgresListenerLike;
+  };
+}
+
+interface EventRow {
+  readonly global_position: string | number;
+  readonly stream_id: string;
+  readonly version: number;
+  readonly event_id: string;
+  readonly event_type: string;
+  readonly event_version: number;
+  readonly payload: EventPayload;
+  readonly occurred_at: Date | string;
+  readonly correlation_id: string | null;
+  readonly causation_id: string | null;
+  readonly tenant_id: string | null;
+}
+
+/**
+ * {@link EventStore} backed by an append-only PostgreSQL table.
+ *
+ * - Optimistic concurrency: an append only inserts when the stream is still
+ *   at `expectedVersion`, and the `UNIQUE (stream_id, version)` constraint
+ *   rejects concurrent writers; both surface as {@link ConcurrencyError}.
+ * - Events are serialized through a `DomainEventRegistry`, so `getEvents`
+ *   upcasts old schema versions.
+ * - `global_position` (`BIGSERIAL`) orders events across streams and is
+ *   read by `readAll`; `subscribe` polls it, optionally woken up by
+ *   `LISTEN/NOTIFY`.
+ *
+ * Create the table with {@link PostgresEventStore.schema}.
+ *
+ * @example
+ * ```ts
+ * const store = new PostgresEventStore(pool as unknown as PostgresClientLike, registry, {
+ *   notification: { channel: 'events', listener },
+ * });
+ * await store.append('order-1', order.getUncommittedEvents(), order.version);
+ * ```
+ */
+export class PostgresEventStore implements EventStore {
+  private readonly table: string;
+  private readonly poller: EventPoller;
+  private readonly notification: PostgresEventStoreOptions['notification'];
+  private readonly onError: ((error: unknown) => void) | undefined;
+  private readonly onNotification = (message: PostgresNotification): void => {
+    if (message.channel === this.notification?.channel) void this.poller.poll();
+  };
+
+  constructor(
+    private readonly client: PostgresClientLike,
+    private readonly registry: DomainEventRegistry,
+    options: PostgresEventStoreOptions = {},
+  ) {
+    const { tableName = 'events', notification, ...pollerOptions } = options;
+    this.table = assertIdentifier(tableName);
+    if (notification !== undefined) assertIdentifier(notification.channel);
+    this.notification = notification;
+    this.onError = pollerOptions.onError;
+    this.poller = new EventPoller(
+      {
+        headPosition: (): Promise<number> => this.headPosition(),
+        readAfter: (position, limit): Promise<PositionedEvent[]> => this.readAfter(position, limit),
+      },
+      registry,
+      pollerOptions,
+      { onStart: (): void => this.listen(), onStop: (): void => this.unlisten() },
+    );
+  }
+
+  /** DDL for the events table and its indexes. */
+  static schema(tableName = 'events'): string {
+    const table = assertIdentifier(tableName);
+    const index = table.replace('.', '_');
+    return `CREATE TABLE IF NOT EXISTS ${table} (
+  global_position BIGSERIAL PRIMARY KEY,
+  stream_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  event_id TEXT NOT NULL UNIQUE,
+  event_type TEXT NOT NULL,
+  event_version INTEGER NOT NULL,
+  payload JSONB NOT NULL,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  correlation_id TEXT,
+  causation_id TEXT,
+  tenant_id TEXT,
+  CONSTRAINT ${index}_stream_version_key UNIQUE (stream_id, version)
+);`;
+  }
+
+  async append(streamId: string, events: DomainEvent[], expectedVersion: number): Promise<void> {
+    if (events.length === 0) {
+      await this.assertVersion(streamId, expectedVersion);
+      return;
+    }
+    const records = events.map((event, index) =>
+      toRecord(this.registry.serialize(event), expectedVersion + index + 1),
+    );
+    let inserted: number;
+    try {
+      const result = await this.client.query(
+        `INSERT INTO ${this.table}
+  (stream_id, version, event_id, event_type, event_version, payload, occurred_at, correlation_id, causation_id, tenant_id)
+SELECT $1, e.version, e.event_id, e.event_type, e.event_version, e.payload, e.occurred_at, e.correlation_id, e.causation_id, e.tenant_id
+FROM jsonb_to_recordset($3::jsonb) AS e(version INTEGER, event_id TEXT, event_type TEXT, event_version INTEGER, payload JSONB, occurred_at TIMESTAMPTZ, correlation_id TEXT, causation_id TEXT, tenant_id TEXT)
+WHERE (SELECT COALESCE(MAX(version), 0) FROM ${this.table} WHERE stream_id = $1) = $2
+ORDER BY e.version
+RETURNING global_position`,
+        [streamId, expectedVersion, JSON.stringify(records)],
+      );
+      inserted = result.rowCount ?? result.rows.length;
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+      inserted = 0;
+    }
+    if (inserted === 0) {
+      throw new ConcurrencyError(streamId, expectedVersion, await this.streamVersion(streamId));
+    }
+    await this.afterAppend(streamId);
+  }
+
+  async getEvents(streamId: string, fromVersion = 0): Promise<DomainEvent[]> {
+    const { rows } = await this.client.query<EventRow>(
+      `SELECT * FROM ${this.table} WHERE stream_id = $1 AND version > $2 ORDER BY version`,
+      [streamId, fromVersion],
+    );
+    return rows.map((row) => this.registry.deserialize(fromRow(row)));
+  }
+
+  async readAll(fromPosition = 0, limit?: number): Promise<RecordedEvent[]> {
+    const events = await this.readAfter(fromPosition, limit);
+    return events.map((positioned) => toRecordedEvent(positioned, this.registry));
+  }
+
+  subscribe(handler: EventHandler): Unsubscribe {
+    return this.poller.subscribe(handler);
+  }
+
+  /** Delivers newly appended events to subscribers without waiting for the timer. */
+  poll(): Promise<void> {
+    return this.poller.poll();
+  }
+
+  private async afterAppend(streamId: string): Promise<void> {
+    if (this.notification !== undefined) {
+      await this.client.query('SELECT pg_notify($1, $2)', [this.notification.channel, streamId]);
+    }
+    if (this.poller.active) void this.poller.poll();
+  }
+
+  private async assertVersion(streamId: string, expectedVersion: number): Promise<void> {
+    const actual = await this.streamVersion(streamId);
+    if (actual !== expectedVersion) throw new ConcurrencyError(streamId, expectedVersion, actual);
+  }
+
+  private async streamVersion(streamId: string): Promise<number> {
+    const { rows } = await this.client.query<{ version: string | number }>(
+      `SELECT COALESCE(MAX(version), 0) AS version FROM ${this.table} WHERE stream_id = $1`,
+      [streamId],
+    );
+    return Number(rows[0]?.version ?? 0);
+  }
+
+  private async headPosition(): Promise<number> {
+    const { rows } = await this.client.query<{ position: string | number }>(
+      `SELECT COALESCE(MAX(global_position), 0) AS position FROM ${this.table}`,
+    );
+    return Number(rows[0]?.position ?? 0);
+  }
+
+  private async readAfter(position: number, limit?: number): Promise<PositionedEvent[]> {
+    // `LIMIT NULL` reads without a limit.
+    const { rows } = await this.client.query<EventRow>(
+      `SELECT * FROM ${this.table} WHERE global_position > $1 ORDER BY global_position LIMIT $2`,
+      [position, limit ?? null],
+    );
+    return rows.map((row) => ({
+      position: Number(row.global_position),
+      streamId: row.stream_id,
+      version: row.version,
+      event: fromRow(row),
+    }));
+  }
+
+  private listen(): void {
+    if (this.notification === undefined) return;
+    const { channel, listener } = this.notification;
+    listener.on('notification', this.onNotification);
+    listener.query(`LISTEN ${channel}`).catch((error: unknown) => this.onError?.(error));
+  }
+
+  private unlisten(): void {
+    if (this.notification === undefined) return;
+    const { channel, listener } = this.notification;
+    listener.removeListener('notification', this.onNotification);
+    listener.query(`UNLISTEN ${channel}`).catch((error: unknown) => this.onError?.(error));
+  }
+}
+
+function toRecord(event: SerializedDomainEvent, version: number): Record<string, unknown> {
+  return {
+    version,
+    event_id: event.eventId,
+    event_type: event.eventType,
+    event_version: event.eventVersion,
+    payload: event.payload,
+    occurred_at: event.occurredAt,
+    correlation_id: event.correlationId ?? null,
+    causation_id: event.causationId ?? null,
+    tenant_id: event.tenantId ?? null,
+  };
+}
+
+function fromRow(row: EventRow): SerializedDomainEvent {
+  return {
+    eventId: row.event_id,
+    eventType: row.event_type,
+    eventVersion: row.event_version,
+    occurredAt: new Date(row.occurred_at).toISOString(),
+    payload: row.payload,
+    ...(row.correlation_id !== null && { correlationId: row.correlation_id }),
+    ...(row.causation_id !== null && { causationId: row.causation_id }),
+    ...(row.tenant_id !== null && { tenantId: row.tenant_id }),
+  };
+}
@@ -0,0 +1,76 @@
+import type { Snapshot, SnapshotStore } from '../Snapshot';
+import { assertIdentifier } from './PostgresClientLike';
+import type { PostgresClientLike } from './PostgresClientLike';
+
+export interface PostgresSnapshotStoreOptions {
+  /** Snapshots table, optionally schema-qualified. Default: `'snapshots'`. */
+  tableName?: string;
+}
+
+interface SnapshotRow {
+  readonly aggregate_id: string;
+  readonly version: number;
+  readonly state: unknown;
+  readonly taken_at: Date | string;
+}
+
+/**
+ * {@link SnapshotStore} keeping the latest snapshot per aggregate in a
+ * PostgreSQL table. A save never replaces a snapshot taken at a higher
+ * version, so a slow writer cannot roll a snapshot back.
+ *
+ * Create the table with {@link PostgresSnapshotStore.schema}. Snapshot state
+ * is stored as `JSONB` (parsed back by the driver) and must be
+ * JSON-serialisable.
+ */
+export class PostgresSnapshotStore implements SnapshotStore {
+  private readonly table: string;
+
+  constructor(
+    private readonly client: PostgresClientLike,
+    options: PostgresSnapshotStoreOptions = {},
+  ) {
+    this.table = assertIdentifier(options.tableName ?? 'snapshots');
+  }
+
+  /** DDL for the snapshots table. */
+  static schema(tableName = 'snapshots'): string {
+    return `CREATE TABLE IF NOT EXISTS ${assertIdentifier(tableName)} (
+  aggregate_id TEXT PRIMARY KEY,
+  version INTEGER NOT NULL,
+  state JSONB NOT NULL,
+  taken_at TIMESTAMPTZ NOT NULL
+);`;
+  }
+
+  async save<TState>(snapshot: Snapshot<TState>): Promise<void> {
+    await this.client.query(
+      `INSERT INTO ${this.table} (aggregate_id, version, state, taken_at)
+VALUES ($1, $2, $3::jsonb, $4)
+ON CONFLICT (aggregate_id) DO UPDATE
+SET version = EXCLUDED.version, state = EXCLUDED.state, taken_at = EXCLUDED.taken_at
+WHERE ${this.table}.version <= EXCLUDED.version`,
+      [
+        snapshot.aggregateId,
+        snapshot.version,
+        JSON.stringify(snapshot.state),
+        snapshot.timestamp.toISOString(),
+      ],
+    );
+  }
+
+  async get<TState>(aggregateId: string): Promise<Snapshot<TState> | undefined> {
+    const { rows } = await this.client.query<SnapshotRow>(
+      `SELECT aggregate_id, version, state, taken_at FROM ${this.table} WHERE aggregate_id = $1`,
+      [aggregateId],
+    );
+    const row = rows[0];
+    if (row === undefined) return undefined;
+    return {
+      aggregateId: row.aggregate_id,
+      version: row.version,
+      state: row.state as TState,
+      timestamp: new Date(row.taken_at),
+    };
+  }
+}
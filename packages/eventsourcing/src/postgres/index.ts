@@ -0,0 +1,12 @@
+export { PostgresEventStore } from './PostgresEventStore.js';
+export type { PostgresEventStoreOptions } from './PostgresEventStore.js';
+export { PostgresSnapshotStore } from './PostgresSnapshotStore.js';
+export type { PostgresSnapshotStoreOptions } from './PostgresSnapshotStore.js';
+export { PostgresCheckpointStore } from './PostgresCheckpointStore.js';
+export type { PostgresCheckpointStoreOptions } from './PostgresCheckpointStore.js';
+export type {
+  PostgresClientLike,
+  PostgresListenerLike,
+  PostgresNotification,
+  PostgresQueryResult,
+} from './PostgresClientLike.js';
@@ -0,0 +1,447 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+/* eslint-disable @typescript-eslint/require-await */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DomainEvent, DomainEventRegistry } from '@marcusprado02/kernel';
+import { ConcurrencyError } from '../EventStore';
+import { PostgresEventStore } from './PostgresEventStore';
+import { PostgresSnapshotStore } from './PostgresSnapshotStore';
+import { PostgresCheckpointStore } from './PostgresCheckpointStore';
+import type {
+  PostgresClientLike,
+  PostgresListenerLike,
+  PostgresNotification,
+  PostgresQueryResult,
+} from './PostgresClientLike';
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+class Deposited extends DomainEvent {
+  static override readonly eventType = 'account.deposited';
+  static override readonly eventVersion = 2;
+
+  constructor(
+    readonly amount: number,
+    readonly currency: string,
+  ) {
+    super();
+  }
+}
+
+const registry = new DomainEventRegistry()
+  .register(Deposited, {
+    fromPayload: (p) => new Deposited(p['amount'] as number, p['currency'] as string),
+  })
+  .registerUpcaster({
+    eventType: Deposited.eventType,
+    fromVersion: 1,
+    upcast: (payload) => ({ ...payload, currency: 'BRL' }),
+  });
+
+interface Row {
+  global_position: string;
+  stream_id: string;
+  version: number;
+  event_id: string;
+  event_type: string;
+  event_version: number;
+  payload: Record<string, unknown>;
+  occurred_at: Date;
+  correlation_id: string | null;
+  causation_id: string | null;
+  tenant_id: string | null;
+}
+
+interface Record_ {
+  version: number;
+  event_id: string;
+  event_type: string;
+  event_version: number;
+  payload: Record<string, unknown>;
+  occurred_at: string;
+  correlation_id: string | null;
+  causation_id: string | null;
+  tenant_id: string | null;
+}
+
+/**
+ * In-process stand-in for `pg.Pool` that understands the statements issued
+ * by the stores (recognised by their shape, not parsed as SQL).
+ */
+class FakePostgres implements PostgresClientLike {
+  rows: Row[] = [];
+  snapshots = new Map<string, { version: number; state: unknown; taken_at: Date }>();
+  notifications: Array<[string, string]> = [];
+  checkpoints = new Map<string, number>();
+  failNextInsert: unknown = undefined;
+  private sequence = 0;
+
+  async query<TRow>(text: string, values: readonly unknown[] = []) {
+    return this.run(text, values) as PostgresQueryResult<TRow>;
+  }
+
+  /** Writes a row directly, as an older release of the application would have. */
+  seed(row: Partial<Row> & Pick<Row, 'stream_id' | 'version' | 'payload'>): void {
+    this.sequence++;
+    this.rows.push({
+      global_position: String(this.sequence),
+      event_id: `seed-${this.sequence}`,
+      event_type: Deposited.eventType,
+      event_version: 1,
+      occurred_at: new Date('2024-01-01T00:00:00Z'),
+      correlation_id: null,
+      causation_id: null,
+      tenant_id: null,
+      ...row,
+    });
+  }
+
+  private run(text: string, values: readonly unknown[]): PostgresQueryResult<unknown> {
+    if (text.startsWith('INSERT INTO events')) return this.insertEvents(values);
+    if (text.startsWith('INSERT INTO snapshots')) return this.upsertSnapshot(values);
+    if (text.startsWith('INSERT INTO checkpoints')) {
+      this.checkpoints.set(values[0] as string, values[1] as number);
+      return { rows: [], rowCount: 1 };
+    }
+    if (text.startsWith('SELECT position FROM checkpoints')) {
+      const position = this.checkpoints.get(values[0] as string);
+      return result(position === undefined ? [] : [{ position: String(position) }]);
+    }
+    if (text.includes('MAX(version)')) {
+      return result([{ version: this.streamVersion(values[0] as string) }]);
+    }
+    if (text.includes('MAX(global_position)')) {
+      return result([{ position: String(this.sequence) }]);
+    }
+    if (text.includes('WHERE stream_id = $1 AND version > $2')) {
+      return result(
+        this.rows
+          .filter((r) => r.stream_id === values[0] && r.version > (values[1] as number))
+          .sort((a, b) => a.version - b.version),
+      );
+    }
+    if (text.includes('WHERE global_position > $1')) {
+      return result(
+        this.rows
+          .filter((r) => Number(r.global_position) > (values[0] as number))
+          .sort((a, b) => Number(a.global_position) - Number(b.global_position))
+          .slice(0, (values[1] as number | null) ?? undefined),
+      );
+    }
+    if (text.includes('pg_notify')) {
+      this.notifications.push([values[0] as string, values[1] as string]);
+      return result([]);
+    }
+    if (text.startsWith('SELECT aggregate_id')) {
+      const found = this.snapshots.get(values[0] as string);
+      return result(found === undefined ? [] : [{ aggregate_id: values[0], ...found }]);
+    }
+    throw new Error(`Unexpected query: ${text}`);
+  }
+
+  private insertEvents(values: readonly unknown[]): PostgresQueryResult<unknown> {
+    if (this.failNextInsert !== undefined) {
+      const error = this.failNextInsert;
+      this.failNextInsert = undefined;
+      throw error;
+    }
+    const [streamId, expected, json] = values as [string, number, string];
+    if (this.streamVersion(streamId) !== expected) return { rows: [], rowCount: 0 };
+    const records = JSON.parse(json) as Record_[];
+    const inserted = records.map((record) => {
+      this.sequence++;
+      const row: Row = {
+        ...record,
+        stream_id: streamId,
+        global_position: String(this.sequence),
+        occurred_at: new Date(record.occurred_at),
+      };
+      this.rows.push(row);
+      return { global_position: row.global_position };
+    });
+    return result(inserted);
+  }
+
+  private upsertSnapshot(values: readonly unknown[]): PostgresQueryResult<unknown> {
+    const [id, version, state, takenAt] = values as [string, number, string, string];
+    const existing = this.snapshots.get(id);
+    if (existing !== undefined && existing.version > version) return { rows: [], rowCount: 0 };
+    this.snapshots.set(id, { version, state: JSON.parse(state), taken_at: new Date(takenAt) });
+    return { rows: [], rowCount: 1 };
+  }
+
+  private streamVersion(streamId: string): number {
+    return this.rows
+      .filter((r) => r.stream_id === streamId)
+      .reduce((max, r) => Math.max(max, r.version), 0);
+  }
+}
+
+function result<T>(rows: T[]): PostgresQueryResult<T> {
+  return { rows, rowCount: rows.length };
+}
+
+class FakeListener implements PostgresListenerLike {
+  readonly statements: string[] = [];
+  private readonly listeners = new Set<(message: PostgresNotification) => void>();
+
+  async query(text: string) {
+    this.statements.push(text);
+  }
+
+  on(_event: 'notification', listener: (message: PostgresNotification) => void) {
+    this.listeners.add(listener);
+  }
+
+  removeListener(_event: 'notification', listener: (message: PostgresNotification) => void) {
+    this.listeners.delete(listener);
+  }
+
+  emit(message: PostgresNotification): void {
+    for (const listener of this.listeners) listener(message);
+  }
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ── PostgresEventStore: append / getEvents ───────────────────────────────────
+
+describe('PostgresEventStore', () => {
+  it('appends events with consecutive stream versions and reads them back', async () => {
+    const pg = new FakePostgres();
+    const store = new PostgresEventStore(pg, registry);
+    const first = new Deposited(10, 'USD');
+
+    await store.append('acc-1', [first, new Deposited(5, 'USD')], 0);
+    await store.append('acc-1', [new Deposited(1, 'USD')], 2);
+
+    expect(pg.rows.map((r) => r.version)).toEqual([1, 2, 3]);
+    const events = await store.getEvents('acc-1');
+    expect(events).toHaveLength(3);
+    expect(events[0]).toBeInstanceOf(Deposited);
+    expect(events[0]?.eventId).toBe(first.eventId);
+    expect((await store.getEvents('acc-1', 2)).map((e) => (e as Deposited).amount)).toEqual([1]);
+  });
+
+  it('upcasts rows written with an older schema version', async () => {
+    const pg = new FakePostgres();
+    pg.seed({ stream_id: 'acc-1', version: 1, payload: { amount: 7 } });
+    const store = new PostgresEventStore(pg, registry);
+
+    const [event] = (await store.getEvents('acc-1')) as Deposited[];
+    expect(event?.currency).toBe('BRL');
+    expect(event?.eventVersion).toBe(2);
+  });
+
+  it('rejects an append at a stale expected version', async () => {
+    const pg = new FakePostgres();
+    const store = new PostgresEventStore(pg, registry);
+    await store.append('acc-1', [new Deposited(1, 'USD')], 0);
+
+    const error = await store.append('acc-1', [new Deposited(2, 'USD')], 0).catch((e) => e);
+    expect(error).toBeInstanceOf(ConcurrencyError);
+    expect((error as Error).message).toContain('expected version 0, got 1');
+    expect(pg.rows).toHaveLength(1);
+  });
+
+  it('maps unique (stream_id, version) violations to ConcurrencyError', async () => {
+    const pg = new FakePostgres();
+    const store = new PostgresEventStore(pg, registry);
+    pg.failNextInsert = Object.assign(new Error('duplicate key'), { code: '23505' });
+
+    await expect(store.append('acc-1', [new Deposited(1, 'USD')], 0)).rejects.toBeInstanceOf(
+      ConcurrencyError,
+    );
+  });
+
+  it('propagates other database errors', async () => {
+    const pg = new FakePostgres();
+    const store = new PostgresEventStore(pg, registry);
+    pg.failNextInsert = new Error('connection reset');
+
+    await expect(store.append('acc-1', [new Deposited(1, 'USD')], 0)).rejects.toThrow(
+      'connection reset',
+    );
+  });
+
+  it('reads all streams in global position order', async () => {
+    const pg = new FakePostgres();
+    pg.seed({ stream_id: 'acc-1', version: 1, payload: { amount: 7 } });
+    const store = new PostgresEventStore(pg, registry);
+    await store.append('acc-2', [new Deposited(1, 'USD')], 0);
+    await store.append('acc-1', [new Deposited(2, 'USD')], 1);
+
+    const all = await store.readAll();
+    expect(all.map(({ position, streamId, version }) => [position, streamId, version])).toEqual([
+      [1, 'acc-1', 1],
+      [2, 'acc-2', 1],
+      [3, 'acc-1', 2],
+    ]);
+    expect((all[0]?.event as Deposited).currency).toBe('BRL');
+    expect((await store.readAll(1, 1)).map((r) => r.position)).toEqual([2]);
+  });
+
+  it('checks the expected version of empty appends', async () => {
+    const store = new PostgresEventStore(new FakePostgres(), registry);
+    await expect(store.append('acc-1', [], 0)).resolves.toBeUndefined();
+    await expect(store.append('acc-1', [], 3)).rejects.toBeInstanceOf(ConcurrencyError);
+  });
+
+  it('generates the table DDL and rejects unsafe identifiers', () => {
+    expect(PostgresEventStore.schema('es.events')).toContain(
+      'CONSTRAINT es_events_stream_version_key UNIQUE (stream_id, version)',
+    );
+    expect(
+      () => new PostgresEventStore(new FakePostgres(), registry, { tableName: 'x;drop' }),
+    ).toThrow(/Invalid PostgreSQL identifier/);
+  });
+});
+
+// ── PostgresEventStore: subscriptions ────────────────────────────────────────
+
+describe('PostgresEventStore subscriptions', () => {
+  it('delivers events appended after subscribing in global order', async () => {
+    const pg = new FakePostgres();
+    pg.seed({ stream_id: 'old', version: 1, payload: { amount: 1 } });
+    const store = new PostgresEventStore(pg, registry);
+    const received: number[] = [];
+    const unsubscribe = store.subscribe((e) => received.push((e as Deposited).amount));
+
+    await store.append('acc-1', [new Deposited(10, 'USD')], 0);
+    await store.append('acc-2', [new Deposited(20, 'USD')], 0);
+    await store.poll();
+    expect(received).toEqual([10, 20]);
+
+    unsubscribe();
+    await store.append('acc-1', [new Deposited(30, 'USD')], 1);
+    await store.poll();
+    expect(received).toEqual([10, 20]);
+  });
+
+  it('polls on an interval while there are subscribers', async () => {
+    vi.useFakeTimers();
+    const pg = new FakePostgres();
+    const store = new PostgresEventStore(pg, registry, { pollIntervalMs: 500 });
+    const handler = vi.fn();
+    store.subscribe(handler);
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Written by another process: no local poll is triggered.
+    pg.seed({ stream_id: 'acc-9', version: 1, payload: { amount: 3 } });
+    expect(handler).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('waits for holes in the global positions before skipping them', async () => {
+    vi.useFakeTimers();
+    const pg = new FakePostgres();
+    const store = new PostgresEventStore(pg, registry, { gapTimeoutMs: 1000 });
+    const received: number[] = [];
+    store.subscribe((e) => received.push((e as Deposited).amount));
+    await vi.advanceTimersByTimeAsync(0);
+
+    pg.seed({ stream_id: 'a', version: 1, payload: { amount: 1 }, global_position: '1' });
+    pg.seed({ stream_id: 'c', version: 1, payload: { amount: 3 }, global_position: '3' });
+    await store.poll();
+    expect(received).toEqual([1]);
+
+    // Position 2 commits late and is still delivered in order.
+    pg.rows.push({ ...pg.rows[0]!, stream_id: 'b', global_position: '2', payload: { amount: 2 } });
+    await store.poll();
+    expect(received).toEqual([1, 2, 3]);
+
+    pg.seed({ stream_id: 'e', version: 1, payload: { amount: 5 }, global_position: '5' });
+    await store.poll();
+    expect(received).toEqual([1, 2, 3]);
+    await vi.advanceTimersByTimeAsync(1000);
+    await store.poll();
+    expect(received).toEqual([1, 2, 3, 5]);
+  });
+
+  it('reports handler errors and keeps delivering', async () => {
+    const onError = vi.fn();
+    const store = new PostgresEventStore(new FakePostgres(), registry, { onError });
+    const received: number[] = [];
+    store.subscribe(() => {
+      throw new Error('boom');
+    });
+    store.subscribe((e) => received.push((e as Deposited).amount));
+
+    await store.append('acc-1', [new Deposited(1, 'USD')], 0);
+    await store.poll();
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'boom' }));
+    expect(received).toEqual([1]);
+  });
+
+  it('uses LISTEN/NOTIFY to wake subscribers up', async () => {
+    const pg = new FakePostgres();
+    const listener = new FakeListener();
+    const store = new PostgresEventStore(pg, registry, {
+      notification: { channel: 'es_events', listener },
+    });
+    const handler = vi.fn();
+    const unsubscribe = store.subscribe(handler);
+    expect(listener.statements).toEqual(['LISTEN es_events']);
+
+    await store.append('acc-1', [new Deposited(1, 'USD')], 0);
+    expect(pg.notifications).toEqual([['es_events', 'acc-1']]);
+
+    pg.seed({ stream_id: 'acc-2', version: 1, payload: { amount: 2 } });
+    listener.emit({ channel: 'es_events', payload: 'acc-2' });
+    await store.poll();
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    expect(listener.statements).toEqual(['LISTEN es_events', 'UNLISTEN es_events']);
+  });
+});
+
+// ── PostgresSnapshotStore ────────────────────────────────────────────────────
+
+describe('PostgresSnapshotStore', () => {
+  it('saves and loads the latest snapshot', async () => {
+    const store = new PostgresSnapshotStore(new FakePostgres());
+    const timestamp = new Date('2024-02-01T00:00:00Z');
+    await store.save({ aggregateId: 'acc-1', version: 10, state: { balance: 30 }, timestamp });
+
+    expect(await store.get('acc-1')).toEqual({
+      aggregateId: 'acc-1',
+      version: 10,
+      state: { balance: 30 },
+      timestamp,
+    });
+    expect(await store.get('missing')).toBeUndefined();
+  });
+
+  it('never replaces a snapshot with an older one', async () => {
+    const store = new PostgresSnapshotStore(new FakePostgres());
+    await store.save({ aggregateId: 'a', version: 10, state: 'new', timestamp: new Date() });
+    await store.save({ aggregateId: 'a', version: 5, state: 'old', timestamp: new Date() });
+    expect((await store.get<string>('a'))?.state).toBe('new');
+  });
+
+  it('generates the table DDL', () => {
+    expect(PostgresSnapshotStore.schema()).toContain('aggregate_id TEXT PRIMARY KEY');
+  });
+});
+
+// ── PostgresCheckpointStore ──────────────────────────────────────────────────
+
+describe('PostgresCheckpointStore', () => {
+  it('saves, overwrites and loads checkpoints', async () => {
+    const store = new PostgresCheckpointStore(new FakePostgres());
+    expect(await store.load('view')).toBeUndefined();
+
+    await store.save('view', 12);
+    await store.save('view', 40);
+    expect(await store.load('view')).toBe(40);
+  });
+
+  it('generates the table DDL', () => {
+    expect(PostgresCheckpointStore.schema('es.checkpoints')).toContain(
+      'CREATE TABLE IF NOT EXISTS es.checkpoints',
+    );
+  });
+});
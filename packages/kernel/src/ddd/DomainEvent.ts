@@ -5,11 +5,33 @@ import type { TenantId } from '../identity/TenantId';
 /**
  * Base class for domain events.
  * Domain events represent something that happened in the domain.
+ *
+ * Subclasses should declare a stable type name and schema version so the
+ * event can be stored and deserialized safely (see `DomainEventRegistry`).
+ * Without `eventType` the class name is used, which minifiers may rename.
+ *
+ * @example
+ * ```ts
+ * class OrderPlaced extends DomainEvent {
+ *   static override readonly eventType = 'orders.order-placed';
+ *   static override readonly eventVersion = 2;
+ *
+ *   constructor(readonly orderId: string, readonly total: number) {
+ *     super();
+ *   }
+ * }
+ * ```
  */
 export abstract class DomainEvent {
+  /** Stable type name; defaults to the class name when not declared. */
+  static readonly eventType?: string;
+  /** Schema version of the event payload. */
+  static readonly eventVersion: number = 1;
+
   public readonly occurredAt: Date;
   public readonly eventId: string;
   public readonly eventType: string;
+  public readonly eventVersion: number;
 
   // Context metadata
   public correlationId?: CorrelationId;
@@ -17,8 +39,10 @@ export abstract class DomainEvent {
   public tenantId?: TenantId;
 
   constructor() {
+    const eventClass = this.constructor as typeof DomainEvent;
     this.occurredAt = new Date();
     this.eventId = crypto.randomUUID();
-    this.eventType = this.constructor.name;
+    this.eventType = eventClass.eventType ?? eventClass.name;
+    this.eventVersion = eventClass.eventVersion;
   }
 }
@@ -0,0 +1,222 @@
+import type { DomainEvent } from './DomainEvent';
+import { CorrelationId } from '../identity/CorrelationId';
+import { CausationId } from '../identity/CausationId';
+import { TenantId } from '../identity/TenantId';
+
+/** Plain, storage-friendly representation of an event's own fields. */
+export type EventPayload = Record<string, unknown>;
+
+/**
+ * A domain event in serialized form, as written to an event store or carried
+ * inside a message envelope.
+ */
+export interface SerializedDomainEvent {
+  readonly eventId: string;
+  readonly eventType: string;
+  readonly eventVersion: number;
+  /** ISO-8601 timestamp. */
+  readonly occurredAt: string;
+  readonly payload: EventPayload;
+  readonly correlationId?: string;
+  readonly causationId?: string;
+  readonly tenantId?: string;
+}
+
+/**
+ * Migrates the payload of one event type from `fromVersion` to
+ * `fromVersion + 1`. Chained upcasters take old events up to the version the
+ * registered class currently declares (v1 → v2 → v3).
+ */
+export interface EventUpcaster {
+  readonly eventType: string;
+  readonly fromVersion: number;
+  upcast(payload: EventPayload): EventPayload;
+}
+
+/** A concrete `DomainEvent` subclass together with its static type metadata. */
+export type DomainEventClass<T extends DomainEvent = DomainEvent> = (abstract new (
+  ...args: never[]
+) => T) & {
+  readonly eventType?: string;
+  readonly eventVersion: number;
+};
+
+/** How to move a registered event class to and from its payload. */
+export interface DomainEventDefinition<T extends DomainEvent> {
+  /** Rebuilds the event from a payload already upcast to the current version. */
+  readonly fromPayload: (payload: EventPayload) => T;
+  /** Extracts the payload; defaults to the event's own enumerable fields. */
+  readonly toPayload?: (event: T) => EventPayload;
+}
+
+/**
+ * Raised when an event cannot be serialized or deserialized: unknown type,
+ * missing upcaster, or a stored version newer than the registered class.
+ */
+export class DomainEventRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DomainEventRegistryError';
+  }
+}
+
+interface Registration {
+  readonly version: number;
+  readonly fromPayload: (payload: EventPayload) => DomainEvent;
+  readonly toPayload: (event: DomainEvent) => EventPayload;
+}
+
+const ENVELOPE_FIELDS = new Set([
+  'eventId',
+  'eventType',
+  'eventVersion',
+  'occurredAt',
+  'correlationId',
+  'causationId',
+  'tenantId',
+]);
+
+function defaultPayload(event: DomainEvent): EventPayload {
+  return Object.fromEntries(Object.entries(event).filter(([key]) => !ENVELOPE_FIELDS.has(key)));
+}
+
+/**
+ * Maps stable event type names to event classes and upcasters, so stored or
+ * published events can be read back as instances of their current schema.
+ *
+ * @example
+ * ```ts
+ * const registry = new DomainEventRegistry()
+ *   .register(OrderPlaced, {
+ *     fromPayload: (p) => new OrderPlaced(p['orderId'] as string, p['total'] as number),
+ *   })
+ *   .registerUpcaster({
+ *     eventType: OrderPlaced.eventType,
+ *     fromVersion: 1,
+ *     upcast: ({ amount, ...rest }) => ({ ...rest, total: amount }),
+ *   });
+ *
+ * const stored = registry.serialize(new OrderPlaced('o-1', 10));
+ * const event = registry.deserialize(stored); // OrderPlaced
+ * ```
+ */
+export class DomainEventRegistry {
+  private readonly registrations = new Map<string, Registration>();
+  private readonly upcasters = new Map<string, EventUpcaster>();
+
+  /**
+   * Registers an event class under its declared static `eventType`.
+   * Throws when the class declares no type name or the name is taken.
+   */
+  register<T extends DomainEvent>(
+    eventClass: DomainEventClass<T>,
+    definition: DomainEventDefinition<T>,
+  ): this {
+    const { eventType, eventVersion } = eventClass;
+    if (eventType === undefined) {
+      throw new DomainEventRegistryError(
+        `${eventClass.name} must declare a static eventType to be registered`,
+      );
+    }
+    if (this.registrations.has(eventType)) {
+      throw new DomainEventRegistryError(`Event type "${eventType}" is already registered`);
+    }
+    const toPayload = definition.toPayload ?? defaultPayload;
+    this.registrations.set(eventType, {
+      version: eventVersion,
+      fromPayload: definition.fromPayload,
+      toPayload: toPayload as (event: DomainEvent) => EventPayload,
+    });
+    return this;
+  }
+
+  /** Registers the migration of `eventType` from `fromVersion` to the next version. */
+  registerUpcaster(upcaster: EventUpcaster): this {
+    const key = upcasterKey(upcaster.eventType, upcaster.fromVersion);
+    if (this.upcasters.has(key)) {
+      throw new DomainEventRegistryError(
+        `An upcaster for "${upcaster.eventType}" v${upcaster.fromVersion} is already registered`,
+      );
+    }
+    this.upcasters.set(key, upcaster);
+    return this;
+  }
+
+  has(eventType: string): boolean {
+    return this.registrations.has(eventType);
+  }
+
+  /** Current schema version of a registered event type. */
+  versionOf(eventType: string): number {
+    return this.lookup(eventType).version;
+  }
+
+  /** Serializes the event, recording the schema version its class declares. */
+  serialize(event: DomainEvent): SerializedDomainEvent {
+    const registration = this.lookup(event.eventType);
+    return {
+      eventId: event.eventId,
+      eventType: event.eventType,
+      eventVersion: event.eventVersion,
+      occurredAt: event.occurredAt.toISOString(),
+      payload: registration.toPayload(event),
+      ...(event.correlationId !== undefined && { correlationId: event.correlationId.value }),
+      ...(event.causationId !== undefined && { causationId: event.causationId.value }),
+      ...(event.tenantId !== undefined && { tenantId: event.tenantId.value }),
+    };
+  }
+
+  /**
+   * Runs the upcaster chain until the payload matches the registered version.
+   * Serialized events already at the current version are returned unchanged.
+   */
+  upcast(serialized: SerializedDomainEvent): SerializedDomainEvent {
+    const target = this.versionOf(serialized.eventType);
+    if (serialized.eventVersion > target) {
+      throw new DomainEventRegistryError(
+        `Event "${serialized.eventType}" v${serialized.eventVersion} is newer than the registered v${target}`,
+      );
+    }
+    let { payload } = serialized;
+    for (let version = serialized.eventVersion; version < target; version++) {
+      const upcaster = this.upcasters.get(upcasterKey(serialized.eventType, version));
+      if (upcaster === undefined) {
+        throw new DomainEventRegistryError(
+          `No upcaster registered for "${serialized.eventType}" v${version} → v${version + 1}`,
+        );
+      }
+      payload = upcaster.upcast(payload);
+    }
+    return { ...serialized, eventVersion: target, payload };
+  }
+
+  /** Upcasts and rebuilds the event, restoring its id, timestamp and context. */
+  deserialize(serialized: SerializedDomainEvent): DomainEvent {
+    const current = this.upcast(serialized);
+    const event = this.lookup(current.eventType).fromPayload(current.payload);
+    Object.assign(event as { eventId: string; occurredAt: Date }, {
+      eventId: current.eventId,
+      occurredAt: new Date(current.occurredAt),
+    });
+    if (current.correlationId !== undefined) {
+      event.correlationId = CorrelationId.fromString(current.correlationId);
+    }
+    if (current.causationId !== undefined) {
+      event.causationId = CausationId.fromString(current.causationId);
+    }
+    if (current.tenantId !== undefined) event.tenantId = TenantId.fromString(current.tenantId);
+    return event;
+  }
+
+  private lookup(eventType: string): Registration {
+    const registration = this.registrations.get(eventType);
+    if (registration === undefined) {
+      throw new DomainEventRegistryError(`Event type "${eventType}" is not registered`);
+    }
+    return registration;
+  }
+}
+
+function upcasterKey(eventType: string, fromVersion: number): string {
+  return `${eventType}@${fromVersion}`;
+}
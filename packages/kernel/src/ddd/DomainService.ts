@@ -13,9 +13,10 @@
  *   readonly serviceName = 'TransferService';
  *
  *   transfer(from: Account, to: Account, amount: Money): Result<void, DomainError> {
- *     const debitResult = from.debit(amount);
- *     if (debitResult.isErr()) return debitResult;
- *     return to.credit(amount);
+ *     return Result.gen(function* () {
+ *       yield* from.debit(amount);
+ *       yield* to.credit(amount);
+ *     });
  *   }
  * }
  * ```
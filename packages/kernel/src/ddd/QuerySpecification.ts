@@ -0,0 +1,300 @@
+import { Specification } from './Specification';
+
+/** Binary comparison operators supported by {@link QuerySpecification}. */
+export type ComparisonOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+/**
+ * Backend-neutral expression tree describing a query specification.
+ *
+ * Field names are dot-separated paths into the candidate (`'address.city'`).
+ * `like` patterns use SQL syntax: `%` matches any sequence, `_` a single
+ * character.
+ *
+ * Logic is two-valued: a null or missing field fails every test against a
+ * value, so `neq('x')` and negations match it. SQL adapters add an explicit
+ * `IS NULL` alternative where three-valued logic would drop such rows.
+ */
+export type SpecificationExpression =
+  | {
+      readonly kind: 'comparison';
+      readonly field: string;
+      readonly operator: ComparisonOperator;
+      readonly value: unknown;
+    }
+  | { readonly kind: 'in'; readonly field: string; readonly values: readonly unknown[] }
+  | {
+      readonly kind: 'between';
+      readonly field: string;
+      readonly min: unknown;
+      readonly max: unknown;
+    }
+  | {
+      readonly kind: 'like';
+      readonly field: string;
+      readonly pattern: string;
+      readonly caseInsensitive: boolean;
+    }
+  | { readonly kind: 'isNull'; readonly field: string }
+  | { readonly kind: 'and'; readonly operands: readonly SpecificationExpression[] }
+  | { readonly kind: 'or'; readonly operands: readonly SpecificationExpression[] }
+  | { readonly kind: 'not'; readonly operand: SpecificationExpression };
+
+/** Field names of `T` that can be used in a {@link QuerySpecification}. */
+export type SpecificationField<T> = Extract<keyof T, string>;
+
+/**
+ * Specification backed by a {@link SpecificationExpression} tree.
+ *
+ * It evaluates in memory like any other {@link Specification}, and persistence
+ * adapters can compile its `expression` into a native query (Prisma `where`,
+ * TypeORM query builder, MongoDB filter) so filtering is pushed down to the
+ * database instead of done in JavaScript.
+ *
+ * @example
+ * ```ts
+ * const user = QuerySpecification.of<User>();
+ * const activeAdults = user
+ *   .where('status').eq('active')
+ *   .and(user.where('age').gte(18))
+ *   .and(user.where('email').like('%@acme.com').not());
+ *
+ * activeAdults.isSatisfiedBy(someUser);  // in memory
+ * await userRepository.findBy(activeAdults); // compiled to the backend
+ * ```
+ */
+export class QuerySpecification<T> extends Specification<T> {
+  constructor(readonly expression: SpecificationExpression) {
+    super();
+  }
+
+  /** Returns a builder for specifications over `T`. */
+  static of<T>(): SpecificationBuilder<T> {
+    return new SpecificationBuilder<T>();
+  }
+
+  isSatisfiedBy(candidate: T): boolean {
+    return evaluate(this.expression, candidate);
+  }
+
+  override and(other: QuerySpecification<T>): QuerySpecification<T>;
+  override and(other: Specification<T>): Specification<T>;
+  override and(other: Specification<T>): Specification<T> {
+    if (!(other instanceof QuerySpecification)) return super.and(other);
+    return new QuerySpecification<T>({
+      kind: 'and',
+      operands: [this.expression, (other as QuerySpecification<T>).expression],
+    });
+  }
+
+  override or(other: QuerySpecification<T>): QuerySpecification<T>;
+  override or(other: Specification<T>): Specification<T>;
+  override or(other: Specification<T>): Specification<T> {
+    if (!(other instanceof QuerySpecification)) return super.or(other);
+    return new QuerySpecification<T>({
+      kind: 'or',
+      operands: [this.expression, (other as QuerySpecification<T>).expression],
+    });
+  }
+
+  override not(): QuerySpecification<T> {
+    return new QuerySpecification<T>({ kind: 'not', operand: this.expression });
+  }
+}
+
+/**
+ * Entry point for building {@link QuerySpecification}s over `T`.
+ * Obtain one through {@link QuerySpecification.of}.
+ */
+export class SpecificationBuilder<T> {
+  /** Starts a condition on a top-level field of `T`. */
+  where<K extends SpecificationField<T>>(field: K): FieldCondition<T, T[K]> {
+    return new FieldCondition<T, T[K]>(field);
+  }
+
+  /**
+   * Starts a condition on a nested field path (e.g. `'address.city'`).
+   * The path is not type-checked against `T`.
+   */
+  path<V = unknown>(field: string): FieldCondition<T, V> {
+    return new FieldCondition<T, V>(field);
+  }
+
+  /** Conjunction of all given specifications. */
+  all(...specs: QuerySpecification<T>[]): QuerySpecification<T> {
+    return new QuerySpecification<T>({ kind: 'and', operands: specs.map((s) => s.expression) });
+  }
+
+  /** Disjunction of all given specifications. */
+  any(...specs: QuerySpecification<T>[]): QuerySpecification<T> {
+    return new QuerySpecification<T>({ kind: 'or', operands: specs.map((s) => s.expression) });
+  }
+}
+
+/** Conditions available on a single field. */
+export class FieldCondition<T, V> {
+  constructor(private readonly field: string) {}
+
+  eq(value: V): QuerySpecification<T> {
+    return this.compare('eq', value);
+  }
+
+  neq(value: V): QuerySpecification<T> {
+    return this.compare('neq', value);
+  }
+
+  gt(value: NonNullable<V>): QuerySpecification<T> {
+    return this.compare('gt', value);
+  }
+
+  gte(value: NonNullable<V>): QuerySpecification<T> {
+    return this.compare('gte', value);
+  }
+
+  lt(value: NonNullable<V>): QuerySpecification<T> {
+    return this.compare('lt', value);
+  }
+
+  lte(value: NonNullable<V>): QuerySpecification<T> {
+    return this.compare('lte', value);
+  }
+
+  in(values: readonly V[]): QuerySpecification<T> {
+    return new QuerySpecification<T>({ kind: 'in', field: this.field, values });
+  }
+
+  notIn(values: readonly V[]): QuerySpecification<T> {
+    return this.in(values).not();
+  }
+
+  /** Inclusive range: `min <= field <= max`. */
+  between(min: NonNullable<V>, max: NonNullable<V>): QuerySpecification<T> {
+    return new QuerySpecification<T>({ kind: 'between', field: this.field, min, max });
+  }
+
+  /** SQL-style pattern match (`%` any sequence, `_` one character). */
+  like(pattern: string): QuerySpecification<T> {
+    return new QuerySpecification<T>({
+      kind: 'like',
+      field: this.field,
+      pattern,
+      caseInsensitive: false,
+    });
+  }
+
+  /** Case-insensitive variant of {@link like}. */
+  ilike(pattern: string): QuerySpecification<T> {
+    return new QuerySpecification<T>({
+      kind: 'like',
+      field: this.field,
+      pattern,
+      caseInsensitive: true,
+    });
+  }
+
+  isNull(): QuerySpecification<T> {
+    return new QuerySpecification<T>({ kind: 'isNull', field: this.field });
+  }
+
+  isNotNull(): QuerySpecification<T> {
+    return this.isNull().not();
+  }
+
+  private compare(operator: ComparisonOperator, value: unknown): QuerySpecification<T> {
+    return new QuerySpecification<T>({ kind: 'comparison', field: this.field, operator, value });
+  }
+}
+
+/**
+ * Converts a SQL `LIKE` pattern into an anchored regular expression source.
+ * Exposed so adapters that lack native `LIKE` (e.g. MongoDB) match the same
+ * semantics as the in-memory evaluation.
+ */
+export function likePatternToRegExpSource(pattern: string): string {
+  let source = '';
+  for (const ch of pattern) {
+    if (ch === '%') source += '.*';
+    else if (ch === '_') source += '.';
+    else source += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+  return `^${source}$`;
+}
+
+function evaluate(expression: SpecificationExpression, candidate: unknown): boolean {
+  switch (expression.kind) {
+    case 'comparison':
+      return compare(readPath(candidate, expression.field), expression.operator, expression.value);
+    case 'in': {
+      const actual = readPath(candidate, expression.field);
+      return expression.values.some((v) => compare(actual, 'eq', v));
+    }
+    case 'between': {
+      const actual = readPath(candidate, expression.field);
+      return compare(actual, 'gte', expression.min) && compare(actual, 'lte', expression.max);
+    }
+    case 'like':
+      return matchesLike(readPath(candidate, expression.field), expression);
+    case 'isNull':
+      return isNullish(readPath(candidate, expression.field));
+    case 'and':
+      return expression.operands.every((op) => evaluate(op, candidate));
+    case 'or':
+      return expression.operands.some((op) => evaluate(op, candidate));
+    case 'not':
+      return !evaluate(expression.operand, candidate);
+  }
+}
+
+function readPath(candidate: unknown, path: string): unknown {
+  let current: unknown = candidate;
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function isNullish(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+function normalize(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function compare(actual: unknown, operator: ComparisonOperator, expected: unknown): boolean {
+  const a = normalize(actual);
+  const b = normalize(expected);
+  if (operator === 'eq') return a === b || (isNullish(a) && isNullish(b));
+  if (operator === 'neq') return !compare(actual, 'eq', expected);
+  if (isNullish(a) || isNullish(b) || typeof a !== typeof b) return false;
+  return order(a as number | string | bigint, operator, b as number | string | bigint);
+}
+
+function order(
+  left: number | string | bigint,
+  operator: 'gt' | 'gte' | 'lt' | 'lte',
+  right: number | string | bigint,
+): boolean {
+  switch (operator) {
+    case 'gt':
+      return left > right;
+    case 'gte':
+      return left >= right;
+    case 'lt':
+      return left < right;
+    case 'lte':
+      return left <= right;
+  }
+}
+
+function matchesLike(
+  actual: unknown,
+  expression: { readonly pattern: string; readonly caseInsensitive: boolean },
+): boolean {
+  if (typeof actual !== 'string') return false;
+  const regex = new RegExp(
+    likePatternToRegExpSource(expression.pattern),
+    expression.caseInsensitive ? 'is' : 's',
+  );
+  return regex.test(actual);
+}
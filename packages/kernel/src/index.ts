@@ -6,7 +6,26 @@ export { DomainEvent } from './ddd/DomainEvent';
 export type { DomainEventEnvelope } from './ddd/DomainEventEnvelope';
 export type { DomainEventPublisher } from './ddd/DomainEventPublisher';
 export { DomainEventRecorder } from './ddd/DomainEventRecorder';
+export { DomainEventRegistry, DomainEventRegistryError } from './ddd/DomainEventRegistry';
+export type {
+  DomainEventClass,
+  DomainEventDefinition,
+  EventPayload,
+  EventUpcaster,
+  SerializedDomainEvent,
+} from './ddd/DomainEventRegistry';
 export { Specification } from './ddd/Specification';
+export {
+  QuerySpecification,
+  SpecificationBuilder,
+  FieldCondition,
+  likePatternToRegExpSource,
+} from './ddd/QuerySpecification';
+export type {
+  SpecificationExpression,
+  ComparisonOperator,
+  SpecificationField,
+} from './ddd/QuerySpecification';
 export { Factory } from './ddd/Factory';
 export type { Repository } from './ddd/Repository';
 export { AbstractRepository } from './ddd/Repository';
@@ -22,7 +41,7 @@ export { ULID } from './identity/ULID';
 export { UUID } from './identity/UUID';
 
 // Functional Primitives
-export { Result } from './primitives/Result';
+export { Result, ResultAsync } from './primitives/Result';
 export { Option } from './primitives/Option';
 export { Either } from './primitives/Either';
 
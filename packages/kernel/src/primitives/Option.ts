@@ -20,6 +20,43 @@ export class Option<T> {
     return value !== null && value !== undefined ? Option.some(value) : Option.none();
   }
 
+  /**
+   * Generator-based "do notation". Inside the body, `yield* option` unwraps a
+   * `Some` value or short-circuits the whole block with `None`. The returned
+   * value becomes the `Some` value.
+   *
+   * @example
+   * ```ts
+   * const city = Option.gen(function* () {
+   *   const user = yield* findUser(id);
+   *   const address = yield* Option.fromNullable(user.address);
+   *   return address.city;
+   * });
+   * ```
+   */
+  static gen<T>(body: () => Generator<Option<never>, T, unknown>): Option<T> {
+    const iterator = body();
+    const step = iterator.next();
+    if (step.done === true) return Option.some(step.value);
+    // Run any `finally` blocks in the body before short-circuiting.
+    iterator.return(undefined as never);
+    return Option.none();
+  }
+
+  /**
+   * Async variant of {@link Option.gen}; the body may `yield* await` promises
+   * of options.
+   */
+  static async genAsync<T>(
+    body: () => AsyncGenerator<Option<never>, T, unknown>,
+  ): Promise<Option<T>> {
+    const iterator = body();
+    const step = await iterator.next();
+    if (step.done === true) return Option.some(step.value);
+    await iterator.return(undefined as never);
+    return Option.none();
+  }
+
   isSome(): this is { unwrap(): T } {
     return this._isSome;
   }
@@ -58,4 +95,16 @@ export class Option<T> {
   toNullable(): T | null {
     return this._isSome ? (this._value as T) : null;
   }
+
+  /**
+   * Makes an option usable with `yield*` inside {@link Option.gen}: yields
+   * `None` (short-circuiting the block) or returns the `Some` value.
+   */
+  *[Symbol.iterator](): Generator<Option<never>, T, unknown> {
+    if (this._isSome) return this._value as T;
+    yield this as unknown as Option<never>;
+    // Option.gen stops at the first None and never resumes; other iterators
+    // (e.g. structural equality in tests) just see a single element.
+    return undefined as never;
+  }
 }
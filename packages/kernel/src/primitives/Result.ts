@@ -53,6 +53,83 @@ export class Result<T, E = Error> {
     return Result.all(items.map(fn));
   }
 
+  /**
+   * Wraps a promise that may reject into a {@link ResultAsync}. A rejection is
+   * converted into an `Err` through `errorFn`.
+   */
+  static fromPromise<T, E>(
+    promise: PromiseLike<T>,
+    errorFn: (error: unknown) => E,
+  ): ResultAsync<T, E> {
+    return ResultAsync.fromPromise(promise, errorFn);
+  }
+
+  /**
+   * Wraps a function that may throw so that it returns a `Result` instead.
+   * A thrown value is converted into an `Err` through `errorFn`.
+   *
+   * @example
+   * ```ts
+   * const safeParse = Result.fromThrowable(JSON.parse, () => new Error('Invalid JSON'));
+   * const parsed = safeParse('{"a":1}'); // Ok({ a: 1 })
+   * ```
+   */
+  static fromThrowable<A extends readonly unknown[], T, E>(
+    fn: (...args: A) => T,
+    errorFn: (error: unknown) => E,
+  ): (...args: A) => Result<T, E> {
+    return (...args: A): Result<T, E> => {
+      try {
+        return Result.ok(fn(...args));
+      } catch (error) {
+        return Result.err(errorFn(error));
+      }
+    };
+  }
+
+  /**
+   * Generator-based "do notation". Inside the body, `yield* result` unwraps an
+   * `Ok` value or short-circuits the whole block with the first `Err`. The
+   * returned value becomes the `Ok` value; the error type is the union of all
+   * yielded results' error types.
+   *
+   * @example
+   * ```ts
+   * const order = Result.gen(function* () {
+   *   const email = yield* Email.create(input.email);   // Err: InvalidEmail
+   *   const qty = yield* Quantity.create(input.qty);    // Err: InvalidQuantity
+   *   return new Order(email, qty);
+   * }); // Result<Order, InvalidEmail | InvalidQuantity>
+   * ```
+   */
+  static gen<Y extends Result<never, unknown>, T>(
+    body: () => Generator<Y, T, unknown>,
+  ): Result<T, ResultErrorOf<Y>> {
+    const iterator = body();
+    const step = iterator.next();
+    if (step.done === true) return Result.ok(step.value);
+    // Run any `finally` blocks in the body before short-circuiting.
+    iterator.return(undefined as never);
+    return step.value as unknown as Result<T, ResultErrorOf<Y>>;
+  }
+
+  /**
+   * Async variant of {@link Result.gen}. The body is an async generator, so it
+   * can `yield* await promiseOfResult` or `yield* resultAsync` directly.
+   */
+  static genAsync<Y extends Result<never, unknown>, T>(
+    body: () => AsyncGenerator<Y, T, unknown>,
+  ): ResultAsync<T, ResultErrorOf<Y>> {
+    const run = async (): Promise<Result<T, ResultErrorOf<Y>>> => {
+      const iterator = body();
+      const step = await iterator.next();
+      if (step.done === true) return Result.ok(step.value);
+      await iterator.return(undefined as never);
+      return step.value as unknown as Result<T, ResultErrorOf<Y>>;
+    };
+    return ResultAsync.fromResult(run());
+  }
+
   /**
    * Splits an array of Results into separate `oks` and `errs` arrays.
    */
@@ -197,4 +274,225 @@ export class Result<T, E = Error> {
     if (this._isOk) return this;
     return fn(this._error as E);
   }
+
+  /**
+   * Makes a result usable with `yield*` inside {@link Result.gen}: yields itself
+   * when `Err` (short-circuiting the block) and returns the value when `Ok`.
+   */
+  *[Symbol.iterator](): Generator<Result<never, E>, T, unknown> {
+    if (this._isOk) return this._value as T;
+    yield this as unknown as Result<never, E>;
+    // Result.gen stops at the first Err and never resumes; other iterators
+    // (e.g. structural equality in tests) just see a single element.
+    return undefined as never;
+  }
+
+  /**
+   * Lifts this result into a {@link ResultAsync} so it can be chained with
+   * asynchronous steps.
+   */
+  toAsync(): ResultAsync<T, E> {
+    return ResultAsync.fromResult(this);
+  }
+}
+
+type ResultErrorOf<Y> = Y extends Result<never, infer E> ? E : never;
+
+type ResultLike<T, E> = Result<T, E> | ResultAsync<T, E> | PromiseLike<Result<T, E>>;
+
+type OkOf<R> = R extends ResultAsync<infer T, unknown> ? T : never;
+type ErrOf<R> = R extends ResultAsync<unknown, infer E> ? E : never;
+
+/**
+ * Chainable wrapper around `Promise<Result<T, E>>`.
+ *
+ * `ResultAsync` is awaitable (it implements `PromiseLike<Result<T, E>>`), so it
+ * can be returned wherever a `Promise<Result>` is expected, while offering the
+ * same combinators as {@link Result} without nested `await` / `isOk()` ladders.
+ * Error types of chained steps are accumulated into a union.
+ *
+ * @example
+ * ```ts
+ * const dto = await ResultAsync.fromPromise(repo.findById(id), toNotFound)
+ *   .flatMap((user) => user.rename(name))
+ *   .tap((user) => repo.save(user))
+ *   .map(toDto);
+ * ```
+ */
+export class ResultAsync<T, E = Error> implements PromiseLike<Result<T, E>> {
+  private constructor(private readonly promise: Promise<Result<T, E>>) {}
+
+  static ok<T, E = never>(value: T): ResultAsync<T, E> {
+    return new ResultAsync(Promise.resolve(Result.ok<T, E>(value)));
+  }
+
+  static err<T = never, E = Error>(error: E): ResultAsync<T, E> {
+    return new ResultAsync(Promise.resolve(Result.err<T, E>(error)));
+  }
+
+  /**
+   * Wraps an existing `Result`, or a promise of one, without altering it.
+   * A rejected promise is propagated as a rejection, not converted to `Err`.
+   */
+  static fromResult<T, E>(result: Result<T, E> | PromiseLike<Result<T, E>>): ResultAsync<T, E> {
+    return new ResultAsync(Promise.resolve(result));
+  }
+
+  /**
+   * Wraps a promise that may reject. A rejection is converted into an `Err`
+   * through `errorFn`.
+   */
+  static fromPromise<T, E>(
+    promise: PromiseLike<T>,
+    errorFn: (error: unknown) => E,
+  ): ResultAsync<T, E> {
+    return new ResultAsync(
+      Promise.resolve(promise).then(
+        (value) => Result.ok<T, E>(value),
+        (error: unknown) => Result.err<T, E>(errorFn(error)),
+      ),
+    );
+  }
+
+  /**
+   * Wraps a promise that is known never to reject.
+   */
+  static fromSafePromise<T, E = never>(promise: PromiseLike<T>): ResultAsync<T, E> {
+    return new ResultAsync(Promise.resolve(promise).then((value) => Result.ok<T, E>(value)));
+  }
+
+  /**
+   * Collects an array of async results into a single result of an array.
+   * Resolves with the first `Err` (in array order), or `Ok<T[]>` if all succeed.
+   */
+  static all<T, E>(results: ReadonlyArray<ResultAsync<T, E>>): ResultAsync<T[], E> {
+    return new ResultAsync(Promise.all(results).then((settled) => Result.all(settled)));
+  }
+
+  /**
+   * Heterogeneous variant of {@link ResultAsync.all}: combines a tuple of async
+   * results into a tuple of values. The error type is the union of every
+   * member's error type.
+   *
+   * @example
+   * ```ts
+   * const combined = ResultAsync.combine([loadUser(id), loadCart(id)] as const);
+   * // ResultAsync<[User, Cart], UserNotFound | CartNotFound>
+   * ```
+   */
+  static combine<const R extends ReadonlyArray<ResultAsync<unknown, unknown>>>(
+    results: R,
+  ): ResultAsync<{ -readonly [K in keyof R]: OkOf<R[K]> }, ErrOf<R[number]>> {
+    return ResultAsync.all(results as ReadonlyArray<ResultAsync<unknown, ErrOf<R[number]>>>).map(
+      (values) => values as { -readonly [K in keyof R]: OkOf<R[K]> },
+    );
+  }
+
+  then<A = Result<T, E>, B = never>(
+    onfulfilled?: ((value: Result<T, E>) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null,
+  ): PromiseLike<A | B> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  map<U>(fn: (value: T) => U | PromiseLike<U>): ResultAsync<U, E> {
+    return new ResultAsync(
+      this.promise.then((r) =>
+        r.match<Promise<Result<U, E>> | Result<U, E>>({
+          ok: async (value) => Result.ok(await fn(value)),
+          err: (error) => Result.err(error),
+        }),
+      ),
+    );
+  }
+
+  mapErr<F>(fn: (error: E) => F | PromiseLike<F>): ResultAsync<T, F> {
+    return new ResultAsync(
+      this.promise.then((r) =>
+        r.match<Promise<Result<T, F>> | Result<T, F>>({
+          ok: (value) => Result.ok(value),
+          err: async (error) => Result.err(await fn(error)),
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Chains a step that may itself fail. The step may return a `Result`, a
+   * `ResultAsync` or a `Promise<Result>`; its error type joins the union.
+   */
+  flatMap<U, F = E>(fn: (value: T) => ResultLike<U, F>): ResultAsync<U, E | F> {
+    return new ResultAsync(
+      this.promise.then((r) =>
+        r.match<Promise<Result<U, E | F>> | Result<U, E | F>>({
+          ok: (value) => ResultAsync.settle<U, E | F>(fn(value)),
+          err: (error) => Result.err(error),
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Attempts to recover from an `Err`. The recovery may succeed with a value
+   * of a different type or fail with a different error.
+   */
+  orElse<U = T, F = E>(fn: (error: E) => ResultLike<U, F>): ResultAsync<T | U, F> {
+    return new ResultAsync(
+      this.promise.then((r) =>
+        r.match<Promise<Result<T | U, F>> | Result<T | U, F>>({
+          ok: (value) => Result.ok(value),
+          err: (error) => ResultAsync.settle<T | U, F>(fn(error)),
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Runs a side-effect on the contained value when `Ok` and waits for it to
+   * finish, then yields the original result unchanged.
+   */
+  tap(fn: (value: T) => unknown): ResultAsync<T, E> {
+    return new ResultAsync(
+      this.promise.then(async (r) => {
+        await r.match({ ok: fn, err: () => undefined });
+        return r;
+      }),
+    );
+  }
+
+  /**
+   * Runs a side-effect on the contained error when `Err` and waits for it to
+   * finish, then yields the original result unchanged.
+   */
+  tapErr(fn: (error: E) => unknown): ResultAsync<T, E> {
+    return new ResultAsync(
+      this.promise.then(async (r) => {
+        await r.match({ ok: () => undefined, err: fn });
+        return r;
+      }),
+    );
+  }
+
+  match<U>(patterns: {
+    ok: (value: T) => U | PromiseLike<U>;
+    err: (error: E) => U | PromiseLike<U>;
+  }): Promise<U> {
+    return this.promise.then((r) => r.match(patterns));
+  }
+
+  unwrapOr(defaultValue: T): Promise<T> {
+    return this.promise.then((r) => r.unwrapOr(defaultValue));
+  }
+
+  /**
+   * Makes an async result usable with `yield*` inside {@link Result.genAsync}.
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<Result<never, E>, T, unknown> {
+    const result = await this.promise;
+    return yield* result;
+  }
+
+  private static settle<T, E>(value: ResultLike<T, E>): Promise<Result<T, E>> {
+    return Promise.resolve(value);
+  }
 }
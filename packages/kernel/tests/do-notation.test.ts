@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, expectTypeOf } from 'vitest';
+import { Result, ResultAsync } from '../src/primitives/Result';
+import { Option } from '../src/primitives/Option';
+import { Either } from '../src/primitives/Either';
+
+class InvalidEmail extends Error {
+  readonly kind = 'invalid-email';
+}
+class InvalidQuantity extends Error {
+  readonly kind = 'invalid-quantity';
+}
+
+const parseEmail = (raw: string): Result<string, InvalidEmail> =>
+  raw.includes('@') ? Result.ok(raw) : Result.err(new InvalidEmail(raw));
+const parseQuantity = (raw: number): Result<number, InvalidQuantity> =>
+  raw > 0 ? Result.ok(raw) : Result.err(new InvalidQuantity(String(raw)));
+
+// ---------------------------------------------------------------------------
+// Suite 1: Result.gen
+// ---------------------------------------------------------------------------
+
+describe('Result.gen', () => {
+  it('returns Ok with the body return value when every step succeeds', () => {
+    const result = Result.gen(function* () {
+      const email = yield* parseEmail('a@b.c');
+      const qty = yield* parseQuantity(2);
+      return `${email}x${qty}`;
+    });
+    expect(result.unwrap()).toBe('a@b.cx2');
+  });
+
+  it('infers the union of yielded error types', () => {
+    const result = Result.gen(function* () {
+      const email = yield* parseEmail('a@b.c');
+      const qty = yield* parseQuantity(2);
+      return { email, qty };
+    });
+    expectTypeOf(result).toEqualTypeOf<
+      Result<{ email: string; qty: number }, InvalidEmail | InvalidQuantity>
+    >();
+  });
+
+  it('short-circuits on the first Err', () => {
+    const after = vi.fn();
+    const result = Result.gen(function* () {
+      yield* parseEmail('nope');
+      after();
+      return yield* parseQuantity(-1);
+    });
+    expect(after).not.toHaveBeenCalled();
+    expect(result.unwrapErr()).toBeInstanceOf(InvalidEmail);
+  });
+
+  it('runs finally blocks in the body when short-circuiting', () => {
+    const cleanup = vi.fn();
+    Result.gen(function* () {
+      try {
+        return yield* parseQuantity(0);
+      } finally {
+        cleanup();
+      }
+    });
+    expect(cleanup).toHaveBeenCalledOnce();
+  });
+
+  it('returns Ok for a body without yields', () => {
+    expect(
+      Result.gen(function* () {
+        return 1;
+      }).unwrap(),
+    ).toBe(1);
+  });
+
+  it('keeps Results with different values unequal under toEqual', () => {
+    expect(Result.ok(1)).not.toEqual(Result.ok(2));
+    expect(Result.ok(1)).toEqual(Result.ok(1));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Suite 2: Result.genAsync
+// ---------------------------------------------------------------------------
+
+describe('Result.genAsync', () => {
+  it('composes Promise<Result> and ResultAsync steps', async () => {
+    const loadQuantity = async (): Promise<Result<number, InvalidQuantity>> => parseQuantity(3);
+    const result = Result.genAsync(async function* () {
+      const email = yield* parseEmail('a@b.c');
+      const qty = yield* await loadQuantity();
+      const doubled = yield* ResultAsync.ok<number, InvalidQuantity>(qty * 2);
+      return `${email}:${doubled}`;
+    });
+
+    expectTypeOf(result).toEqualTypeOf<ResultAsync<string, InvalidEmail | InvalidQuantity>>();
+    expect((await result).unwrap()).toBe('a@b.c:6');
+  });
+
+  it('short-circuits on the first Err from a ResultAsync', async () => {
+    const after = vi.fn();
+    const result = await Result.genAsync(async function* () {
+      yield* ResultAsync.err<number, InvalidQuantity>(new InvalidQuantity('0'));
+      after();
+      return 1;
+    });
+    expect(after).not.toHaveBeenCalled();
+    expect(result.unwrapErr()).toBeInstanceOf(InvalidQuantity);
+  });
+
+  it('can be chained further as a ResultAsync', async () => {
+    const result = await Result.genAsync(async function* () {
+      return yield* parseQuantity(4);
+    }).map((n) => n + 1);
+    expect(result.unwrap()).toBe(5);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Suite 3: Option.gen / Option.genAsync
+// ---------------------------------------------------------------------------
+
+describe('Option.gen', () => {
+  const users = new Map([
+    ['1', { name: 'Ana', address: { city: 'Recife' } as { city: string } | null }],
+  ]);
+  const findUser = (id: string): Option<{ name: string; address: { city: string } | null }> =>
+    Option.fromNullable(users.get(id));
+
+  it('returns Some when every step is Some', () => {
+    const city = Option.gen(function* () {
+      const user = yield* findUser('1');
+      const address = yield* Option.fromNullable(user.address);
+      return address.city;
+    });
+    expect(city.unwrap()).toBe('Recife');
+  });
+
+  it('short-circuits on the first None', () => {
+    const after = vi.fn();
+    const city = Option.gen(function* () {
+      const user = yield* findUser('missing');
+      after();
+      return user.name;
+    });
+    expect(after).not.toHaveBeenCalled();
+    expect(city.isNone()).toBe(true);
+  });
+
+  it('composes promises of options in genAsync', async () => {
+    const name = await Option.genAsync(async function* () {
+      const user = yield* await Promise.resolve(findUser('1'));
+      return user.name;
+    });
+    expect(name.unwrap()).toBe('Ana');
+
+    const none = await Option.genAsync(async function* () {
+      return yield* await Promise.resolve(Option.none<string>());
+    });
+    expect(none.isNone()).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Suite 4: Either.gen / Either.genAsync
+// ---------------------------------------------------------------------------
+
+describe('Either.gen', () => {
+  const parsePrice = (raw: string): Either<'bad-price', number> =>
+    Number.isNaN(Number(raw)) ? Either.left('bad-price') : Either.right(Number(raw));
+  const parseQty = (raw: string): Either<'bad-qty', number> =>
+    Number.isInteger(Number(raw)) ? Either.right(Number(raw)) : Either.left('bad-qty');
+
+  it('returns Right when every step is Right and infers the left union', () => {
+    const total = Either.gen(function* () {
+      const price = yield* parsePrice('2.5');
+      const qty = yield* parseQty('4');
+      return price * qty;
+    });
+    expectTypeOf(total).toEqualTypeOf<Either<'bad-price' | 'bad-qty', number>>();
+    expect(total.getRight()).toBe(10);
+  });
+
+  it('short-circuits on the first Left', () => {
+    const total = Either.gen(function* () {
+      const price = yield* parsePrice('2.5');
+      const qty = yield* parseQty('1.5');
+      return price * qty;
+    });
+    expect(total.getLeft()).toBe('bad-qty');
+  });
+
+  it('composes promises of eithers in genAsync', async () => {
+    const total = await Either.genAsync(async function* () {
+      const price = yield* await Promise.resolve(parsePrice('x'));
+      return price;
+    });
+    expect(total.getLeft()).toBe('bad-price');
+
+    const ok = await Either.genAsync(async function* () {
+      return yield* await Promise.resolve(parseQty('3'));
+    });
+    expect(ok.getRight()).toBe(3);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Suite 5: structural equality of failed values
+// ---------------------------------------------------------------------------
+
+describe('structural equality', () => {
+  // toEqual iterates iterables, which runs the generators past their yield.
+  it('compares Err values with toEqual', () => {
+    const error = new Error('boom');
+    expect(Result.err(error)).toEqual(Result.err(error));
+    expect(Result.err('a')).not.toEqual(Result.err('b'));
+  });
+
+  it('compares None values with toEqual', () => {
+    expect(Option.none()).toEqual(Option.none());
+    expect(Option.none()).not.toEqual(Option.some(1));
+  });
+
+  it('compares Left values with toEqual', () => {
+    expect(Either.left('bad')).toEqual(Either.left('bad'));
+    expect(Either.left('bad')).not.toEqual(Either.left('worse'));
+  });
+
+  it('leaves generator short-circuiting intact', () => {
+    const result = Result.gen(function* () {
+      yield* Result.err('first');
+      return yield* Result.err('second');
+    });
+    expect(result).toEqual(Result.err('first'));
+  });
+});
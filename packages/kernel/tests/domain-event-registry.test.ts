@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { DomainEvent } from '../src/ddd/DomainEvent';
+import {
+  DomainEventRegistry,
+  DomainEventRegistryError,
+  type SerializedDomainEvent,
+} from '../src/ddd/DomainEventRegistry';
+import { CorrelationId } from '../src/identity/CorrelationId';
+import { TenantId } from '../src/identity/TenantId';
+
+class OrderPlaced extends DomainEvent {
+  static override readonly eventType = 'orders.order-placed';
+  static override readonly eventVersion = 3;
+
+  constructor(
+    readonly orderId: string,
+    readonly total: { amount: number; currency: string },
+  ) {
+    super();
+  }
+}
+
+class OrderCancelled extends DomainEvent {
+  static override readonly eventType = 'orders.order-cancelled';
+
+  constructor(readonly orderId: string) {
+    super();
+  }
+}
+
+class Unnamed extends DomainEvent {}
+
+const createRegistry = (): DomainEventRegistry =>
+  new DomainEventRegistry()
+    .register(OrderPlaced, {
+      fromPayload: (p) =>
+        new OrderPlaced(p['orderId'] as string, p['total'] as { amount: number; currency: string }),
+    })
+    .register(OrderCancelled, { fromPayload: (p) => new OrderCancelled(p['orderId'] as string) })
+    // v1 stored `amount` as a number of cents
+    .registerUpcaster({
+      eventType: OrderPlaced.eventType,
+      fromVersion: 1,
+      upcast: ({ amount, ...rest }) => ({ ...rest, amount: (amount as number) / 100 }),
+    })
+    // v2 had no currency
+    .registerUpcaster({
+      eventType: OrderPlaced.eventType,
+      fromVersion: 2,
+      upcast: ({ amount, ...rest }) => ({ ...rest, total: { amount, currency: 'BRL' } }),
+    });
+
+const storedV1: SerializedDomainEvent = {
+  eventId: 'evt-1',
+  eventType: 'orders.order-placed',
+  eventVersion: 1,
+  occurredAt: '2024-05-01T12:00:00.000Z',
+  payload: { orderId: 'o-1', amount: 1250 },
+  correlationId: 'corr-1',
+};
+
+// ---------------------------------------------------------------------------
+// Suite 1: declared type metadata
+// ---------------------------------------------------------------------------
+
+describe('DomainEvent type metadata', () => {
+  it('uses the declared static type name and version', () => {
+    const event = new OrderPlaced('o-1', { amount: 1, currency: 'BRL' });
+    expect(event.eventType).toBe('orders.order-placed');
+    expect(event.eventVersion).toBe(3);
+  });
+
+  it('falls back to the class name and version 1', () => {
+    const event = new Unnamed();
+    expect(event.eventType).toBe('Unnamed');
+    expect(event.eventVersion).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Suite 2: serialization round trip
+// ---------------------------------------------------------------------------
+
+describe('DomainEventRegistry serialization', () => {
+  it('serializes the event fields as payload and keeps the context', () => {
+    const event = new OrderPlaced('o-1', { amount: 12.5, currency: 'BRL' });
+    event.correlationId = CorrelationId.create('corr-1');
+    event.tenantId = TenantId.create('acme');
+
+    const serialized = createRegistry().serialize(event);
+
+    expect(serialized).toEqual({
+      eventId: event.eventId,
+      eventType: 'orders.order-placed',
+      eventVersion: 3,
+      occurredAt: event.occurredAt.toISOString(),
+      payload: { orderId: 'o-1', total: { amount: 12.5, currency: 'BRL' } },
+      correlationId: 'corr-1',
+      tenantId: 'acme',
+    });
+  });
+
+  it('round-trips to an equivalent instance', () => {
+    const registry = createRegistry();
+    const event = new OrderCancelled('o-9');
+
+    const restored = registry.deserialize(
+      JSON.parse(JSON.stringify(registry.serialize(event))) as SerializedDomainEvent,
+    );
+
+    expect(restored).toBeInstanceOf(OrderCancelled);
+    expect(restored.eventId).toBe(event.eventId);
+    expect(restored.occurredAt).toEqual(event.occurredAt);
+    expect((restored as OrderCancelled).orderId).toBe('o-9');
+  });
+
+  it('supports a custom payload mapping', () => {
+    const registry = new DomainEventRegistry().register(OrderCancelled, {
+      toPayload: (e) => ({ id: e.orderId }),
+      fromPayload: (p) => new OrderCancelled(p['id'] as string),
+    });
+    const serialized = registry.serialize(new OrderCancelled('o-2'));
+    expect(serialized.payload).toEqual({ id: 'o-2' });
+    expect((registry.deserialize(serialized) as OrderCancelled).orderId).toBe('o-2');
+  });
+
+  it('rejects unknown event types', () => {
+    expect(() => createRegistry().serialize(new Unnamed())).toThrow(DomainEventRegistryError);
+    expect(() => createRegistry().deserialize({ ...storedV1, eventType: 'nope' })).toThrow(
+      /not registered/,
+    );
+  });
+
+  it('requires a declared type name and unique registrations', () => {
+    expect(() =>
+      new DomainEventRegistry().register(Unnamed, { fromPayload: () => new Unnamed() }),
+    ).toThrow(/static eventType/);
+    expect(() =>
+      createRegistry().register(OrderCancelled, { fromPayload: () => new OrderCancelled('x') }),
+    ).toThrow(/already registered/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Suite 3: upcasting
+// ---------------------------------------------------------------------------
+
+describe('DomainEventRegistry upcasting', () => {
+  it('chains upcasters from the stored version to the current one', () => {
+    const upcast = createRegistry().upcast(storedV1);
+    expect(upcast.eventVersion).toBe(3);
+    expect(upcast.payload).toEqual({ orderId: 'o-1', total: { amount: 12.5, currency: 'BRL' } });
+  });
+
+  it('starts the chain at intermediate versions', () => {
+    const upcast = createRegistry().upcast({
+      ...storedV1,
+      eventVersion: 2,
+      payload: { orderId: 'o-1', amount: 3 },
+    });
+    expect(upcast.payload).toEqual({ orderId: 'o-1', total: { amount: 3, currency: 'BRL' } });
+  });
+
+  it('deserializes old events into the current class', () => {
+    const event = createRegistry().deserialize(storedV1) as OrderPlaced;
+    expect(event).toBeInstanceOf(OrderPlaced);
+    expect(event.total).toEqual({ amount: 12.5, currency: 'BRL' });
+    expect(event.eventId).toBe('evt-1');
+    expect(event.occurredAt.toISOString()).toBe('2024-05-01T12:00:00.000Z');
+    expect(event.correlationId?.value).toBe('corr-1');
+  });
+
+  it('fails when a step of the chain is missing', () => {
+    const registry = new DomainEventRegistry().register(OrderPlaced, {
+      fromPayload: () => new OrderPlaced('x', { amount: 0, currency: 'BRL' }),
+    });
+    expect(() => registry.upcast(storedV1)).toThrow(/No upcaster registered .* v1 → v2/);
+  });
+
+  it('refuses events newer than the registered version', () => {
+    expect(() => createRegistry().upcast({ ...storedV1, eventVersion: 4 })).toThrow(/newer/);
+  });
+
+  it('rejects duplicate upcasters', () => {
+    expect(() =>
+      createRegistry().registerUpcaster({
+        eventType: OrderPlaced.eventType,
+        fromVersion: 1,
+        upcast: (p) => p,
+      }),
+    ).toThrow(/already registered/);
+  });
+});
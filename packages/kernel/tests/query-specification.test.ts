@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { Specification } from '../src/ddd/Specification';
+import { QuerySpecification, likePatternToRegExpSource } from '../src/ddd/QuerySpecification';
+
+interface Customer {
+  name: string;
+  email: string;
+  age: number;
+  status: 'active' | 'blocked';
+  createdAt: Date;
+  deletedAt: Date | null;
+  address?: { city: string };
+}
+
+const customer = (overrides: Partial<Customer> = {}): Customer => ({
+  name: 'Ana Souza',
+  email: 'ana@acme.com',
+  age: 30,
+  status: 'active',
+  createdAt: new Date('2024-01-10T00:00:00Z'),
+  deletedAt: null,
+  address: { city: 'Recife' },
+  ...overrides,
+});
+
+const c = QuerySpecification.of<Customer>();
+
+// ---------------------------------------------------------------------------
+// Suite 1: field conditions
+// ---------------------------------------------------------------------------
+
+describe('QuerySpecification field conditions', () => {
+  it('evaluates equality and inequality', () => {
+    expect(c.where('status').eq('active').isSatisfiedBy(customer())).toBe(true);
+    expect(c.where('status').neq('active').isSatisfiedBy(customer())).toBe(false);
+  });
+
+  it('evaluates ordering comparisons', () => {
+    expect(c.where('age').gt(29).isSatisfiedBy(customer())).toBe(true);
+    expect(c.where('age').gte(30).isSatisfiedBy(customer())).toBe(true);
+    expect(c.where('age').lt(30).isSatisfiedBy(customer())).toBe(false);
+    expect(c.where('age').lte(30).isSatisfiedBy(customer())).toBe(true);
+  });
+
+  it('compares dates by instant', () => {
+    const spec = c.where('createdAt').gte(new Date('2024-01-01T00:00:00Z'));
+    expect(spec.isSatisfiedBy(customer())).toBe(true);
+    expect(
+      c.where('createdAt').eq(new Date('2024-01-10T00:00:00Z')).isSatisfiedBy(customer()),
+    ).toBe(true);
+  });
+
+  it('never orders null values', () => {
+    expect(c.where('deletedAt').lt(new Date()).isSatisfiedBy(customer())).toBe(false);
+  });
+
+  it('uses two-valued logic on null: negations and neq match null fields', () => {
+    expect(c.where('deletedAt').neq(new Date()).isSatisfiedBy(customer())).toBe(true);
+    expect(c.where('deletedAt').lt(new Date()).not().isSatisfiedBy(customer())).toBe(true);
+  });
+
+  it('evaluates in / notIn', () => {
+    expect(c.where('status').in(['active', 'blocked']).isSatisfiedBy(customer())).toBe(true);
+    expect(c.where('status').notIn(['blocked']).isSatisfiedBy(customer())).toBe(true);
+  });
+
+  it('evaluates inclusive ranges', () => {
+    expect(c.where('age').between(30, 40).isSatisfiedBy(customer())).toBe(true);
+    expect(c.where('age').between(31, 40).isSatisfiedBy(customer())).toBe(false);
+  });
+
+  it('evaluates like and ilike patterns', () => {
+    expect(c.where('email').like('%@acme.com').isSatisfiedBy(customer())).toBe(true);
+    expect(c.where('email').like('%@ACME.com').isSatisfiedBy(customer())).toBe(false);
+    expect(c.where('email').ilike('%@ACME.com').isSatisfiedBy(customer())).toBe(true);
+    expect(c.where('name').like('An_ %').isSatisfiedBy(customer())).toBe(true);
+  });
+
+  it('treats regex metacharacters in like patterns literally', () => {
+    expect(
+      c
+        .where('email')
+        .like('ana@acme.com')
+        .isSatisfiedBy(customer({ email: 'anaXacmeYcom' })),
+    ).toBe(false);
+  });
+
+  it('evaluates null checks, including missing fields', () => {
+    expect(c.where('deletedAt').isNull().isSatisfiedBy(customer())).toBe(true);
+    expect(c.where('deletedAt').isNotNull().isSatisfiedBy(customer())).toBe(false);
+    expect(
+      c
+        .where('address')
+        .isNull()
+        .isSatisfiedBy(customer({ address: undefined })),
+    ).toBe(true);
+  });
+
+  it('reads nested paths', () => {
+    expect(c.path<string>('address.city').eq('Recife').isSatisfiedBy(customer())).toBe(true);
+    expect(
+      c
+        .path('address.city')
+        .eq('Recife')
+        .isSatisfiedBy(customer({ address: undefined })),
+    ).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Suite 2: composition
+// ---------------------------------------------------------------------------
+
+describe('QuerySpecification composition', () => {
+  it('builds and / or / not expression trees', () => {
+    const spec = c
+      .where('status')
+      .eq('active')
+      .and(c.where('age').gte(18))
+      .or(c.where('name').eq('root').not());
+    expect(spec).toBeInstanceOf(QuerySpecification);
+    expect(spec.expression.kind).toBe('or');
+    expect(spec.isSatisfiedBy(customer({ status: 'blocked', name: 'root' }))).toBe(false);
+    expect(spec.isSatisfiedBy(customer({ status: 'blocked' }))).toBe(true);
+  });
+
+  it('combines many specifications with all / any', () => {
+    const all = c.all(c.where('age').gt(18), c.where('status').eq('active'));
+    const any = c.any(c.where('age').gt(99), c.where('status').eq('active'));
+    expect(all.expression).toEqual({
+      kind: 'and',
+      operands: [
+        { kind: 'comparison', field: 'age', operator: 'gt', value: 18 },
+        { kind: 'comparison', field: 'status', operator: 'eq', value: 'active' },
+      ],
+    });
+    expect(all.isSatisfiedBy(customer())).toBe(true);
+    expect(any.isSatisfiedBy(customer())).toBe(true);
+  });
+
+  it('falls back to an in-memory specification when combined with a plain one', () => {
+    class IsAdult extends Specification<Customer> {
+      isSatisfiedBy(candidate: Customer): boolean {
+        return candidate.age >= 18;
+      }
+    }
+    const spec = c.where('status').eq('active').and(new IsAdult());
+    expect(spec).not.toBeInstanceOf(QuerySpecification);
+    expect(spec.isSatisfiedBy(customer())).toBe(true);
+    expect(c.where('status').eq('blocked').or(new IsAdult()).isSatisfiedBy(customer())).toBe(true);
+  });
+});
+
+describe('likePatternToRegExpSource', () => {
+  it('anchors the pattern and translates wildcards', () => {
+    expect(likePatternToRegExpSource('a%b_c.')).toBe('^a.*b.c\\.$');
+  });
+});
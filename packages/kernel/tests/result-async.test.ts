@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, expectTypeOf } from 'vitest';
+import { Result, ResultAsync } from '../src/primitives/Result';
+
+class NotFound extends Error {
+  readonly kind = 'not-found';
+}
+class Invalid extends Error {
+  readonly kind = 'invalid';
+}
+
+const okAsync = <T>(v: T): ResultAsync<T, Error> => ResultAsync.ok(v);
+const errAsync = (msg: string): ResultAsync<number, Error> => ResultAsync.err(new Error(msg));
+
+// ---------------------------------------------------------------------------
+// Suite 1: Result.fromPromise / Result.fromThrowable
+// ---------------------------------------------------------------------------
+
+describe('Result.fromPromise', () => {
+  it('resolves to Ok when the promise fulfils', async () => {
+    const result = await Result.fromPromise(Promise.resolve(7), () => new Error('x'));
+    expect(result.unwrap()).toBe(7);
+  });
+
+  it('converts a rejection into Err through the error mapper', async () => {
+    const result = await Result.fromPromise(
+      Promise.reject(new Error('boom')),
+      (e) => new NotFound(String(e)),
+    );
+    expect(result.isErr()).toBe(true);
+    expect(result.unwrapErr()).toBeInstanceOf(NotFound);
+    expect(result.unwrapErr().message).toContain('boom');
+  });
+});
+
+describe('Result.fromThrowable', () => {
+  it('returns Ok when the wrapped function returns', () => {
+    const parse = Result.fromThrowable(
+      (s: string) => JSON.parse(s) as unknown,
+      () => new Invalid('bad json'),
+    );
+    expect(parse('{"a":1}').unwrap()).toEqual({ a: 1 });
+  });
+
+  it('returns Err when the wrapped function throws', () => {
+    const parse = Result.fromThrowable(
+      (s: string) => JSON.parse(s) as unknown,
+      () => new Invalid('bad json'),
+    );
+    const result = parse('{');
+    expect(result.isErr()).toBe(true);
+    expect(result.unwrapErr().kind).toBe('invalid');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Suite 2: construction and awaiting
+// ---------------------------------------------------------------------------
+
+describe('ResultAsync construction', () => {
+  it('is awaitable as a Result', async () => {
+    const result = await okAsync(1);
+    expect(result.isOk()).toBe(true);
+    expect(result.unwrap()).toBe(1);
+  });
+
+  it('wraps an existing Result with toAsync()', async () => {
+    const result = await Result.ok<number, Error>(3)
+      .toAsync()
+      .map((n) => n * 2);
+    expect(result.unwrap()).toBe(6);
+  });
+
+  it('wraps a Promise<Result> with fromResult', async () => {
+    const result = await ResultAsync.fromResult(
+      Promise.resolve(Result.err<number, Error>(new Error('e'))),
+    );
+    expect(result.unwrapErr().message).toBe('e');
+  });
+
+  it('wraps a safe promise with fromSafePromise', async () => {
+    const result = await ResultAsync.fromSafePromise(Promise.resolve('v'));
+    expect(result.unwrap()).toBe('v');
+  });
+
+  it('propagates rejections from fromResult instead of converting them', async () => {
+    await expect(ResultAsync.fromResult(Promise.reject(new Error('infra')))).rejects.toThrow(
+      'infra',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Suite 3: combinators
+// ---------------------------------------------------------------------------
+
+describe('ResultAsync.map / mapErr', () => {
+  it('maps Ok values with sync or async functions', async () => {
+    const result = await okAsync(2)
+      .map((n) => n + 1)
+      .map(async (n) => Promise.resolve(n * 10));
+    expect(result.unwrap()).toBe(30);
+  });
+
+  it('skips map on Err', async () => {
+    const fn = vi.fn();
+    const result = await errAsync('fail').map(fn);
+    expect(fn).not.toHaveBeenCalled();
+    expect(result.unwrapErr().message).toBe('fail');
+  });
+
+  it('maps Err values with mapErr', async () => {
+    const result = await errAsync('fail').mapErr((e) => new Invalid(e.message));
+    expect(result.unwrapErr()).toBeInstanceOf(Invalid);
+  });
+
+  it('leaves Ok untouched in mapErr', async () => {
+    const result = await okAsync(5).mapErr(() => 'never');
+    expect(result.unwrap()).toBe(5);
+  });
+});
+
+describe('ResultAsync.flatMap', () => {
+  it('chains Result, ResultAsync and Promise<Result> steps', async () => {
+    const result = await okAsync(1)
+      .flatMap((n) => Result.ok(n + 1))
+      .flatMap((n) => ResultAsync.ok(n + 1))
+      .flatMap((n) => Promise.resolve(Result.ok(n + 1)));
+    expect(result.unwrap()).toBe(4);
+  });
+
+  it('short-circuits on the first Err and accumulates the error union', async () => {
+    const second = vi.fn(() => ResultAsync.ok<number, Invalid>(0));
+    const chained = ResultAsync.ok<number, NotFound>(1)
+      .flatMap(() => ResultAsync.err<number, Invalid>(new Invalid('first')))
+      .flatMap(second);
+
+    expectTypeOf(chained).toEqualTypeOf<ResultAsync<number, NotFound | Invalid>>();
+    const result = await chained;
+    expect(second).not.toHaveBeenCalled();
+    expect(result.unwrapErr().message).toBe('first');
+  });
+});
+
+describe('ResultAsync.orElse', () => {
+  it('recovers from Err', async () => {
+    const result = await errAsync('fail').orElse(() => Result.ok(0));
+    expect(result.unwrap()).toBe(0);
+  });
+
+  it('can replace the error type', async () => {
+    const result = await errAsync('fail').orElse((e) => ResultAsync.err(new NotFound(e.message)));
+    expect(result.unwrapErr()).toBeInstanceOf(NotFound);
+  });
+
+  it('does not call the recovery on Ok', async () => {
+    const fn = vi.fn(() => Result.ok(0));
+    const result = await okAsync(9).orElse(fn);
+    expect(fn).not.toHaveBeenCalled();
+    expect(result.unwrap()).toBe(9);
+  });
+});
+
+describe('ResultAsync.tap / tapErr', () => {
+  it('awaits the side-effect on Ok and keeps the value', async () => {
+    const seen: number[] = [];
+    const result = await okAsync(4).tap(async (n) => {
+      await Promise.resolve();
+      seen.push(n);
+    });
+    expect(seen).toEqual([4]);
+    expect(result.unwrap()).toBe(4);
+  });
+
+  it('runs tapErr only on Err', async () => {
+    const onErr = vi.fn();
+    const onOk = vi.fn();
+    await errAsync('x').tap(onOk).tapErr(onErr);
+    expect(onOk).not.toHaveBeenCalled();
+    expect(onErr).toHaveBeenCalledOnce();
+  });
+});
+
+describe('ResultAsync.match / unwrapOr', () => {
+  it('matches Ok and Err branches', async () => {
+    const patterns = { ok: (n: number) => `ok:${n}`, err: (e: Error) => `err:${e.message}` };
+    expect(await okAsync(1).match(patterns)).toBe('ok:1');
+    expect(await errAsync('e').match(patterns)).toBe('err:e');
+  });
+
+  it('accepts async match branches', async () => {
+    expect(await okAsync(1).match({ ok: async (n) => Promise.resolve(n + 1), err: () => 0 })).toBe(
+      2,
+    );
+  });
+
+  it('unwrapOr returns the default on Err', async () => {
+    expect(await errAsync('e').unwrapOr(42)).toBe(42);
+    expect(await okAsync(1).unwrapOr(42)).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Suite 4: all / combine
+// ---------------------------------------------------------------------------
+
+describe('ResultAsync.all', () => {
+  it('collects Ok values in order', async () => {
+    const result = await ResultAsync.all([okAsync(1), okAsync(2), okAsync(3)]);
+    expect(result.unwrap()).toEqual([1, 2, 3]);
+  });
+
+  it('returns the first Err in array order', async () => {
+    const result = await ResultAsync.all([okAsync(1), errAsync('a'), errAsync('b')]);
+    expect(result.unwrapErr().message).toBe('a');
+  });
+});
+
+describe('ResultAsync.combine', () => {
+  it('combines heterogeneous results into a typed tuple with an error union', async () => {
+    const combined = ResultAsync.combine([
+      ResultAsync.ok<string, NotFound>('user'),
+      ResultAsync.ok<number, Invalid>(3),
+    ] as const);
+
+    expectTypeOf(combined).toEqualTypeOf<ResultAsync<[string, number], NotFound | Invalid>>();
+    const result = await combined;
+    expect(result.unwrap()).toEqual(['user', 3]);
+  });
+
+  it('returns the first Err', async () => {
+    const result = await ResultAsync.combine([
+      ResultAsync.ok<string, NotFound>('user'),
+      ResultAsync.err<number, Invalid>(new Invalid('bad')),
+    ] as const);
+    expect(result.unwrapErr()).toBeInstanceOf(Invalid);
+  });
+});
@@ -1,3 +1,4 @@
+import type { EnvelopeUpcaster } from '@marcusprado02/messaging';
 import type { KafkaConfig as KafkaJSConfig } from 'kafkajs';
 
 /**
@@ -138,6 +139,12 @@ export interface KafkaConsumerOptions {
      */
     readonly multiplier: number;
   };
+
+  /**
+   * Migrates incoming envelopes to the current event schema before they reach
+   * handlers, e.g. an `EventEnvelopeSerializer` backed by a `DomainEventRegistry`
+   */
+  readonly upcaster?: EnvelopeUpcaster;
 }
 
 /**
@@ -230,7 +237,7 @@ export const DEFAULT_KAFKA_CONFIG: Required<Omit<KafkaConfig, 'brokers' | 'trans
 /**
  * Default consumer options
  */
-export const DEFAULT_CONSUMER_OPTIONS: Required<Omit<KafkaConsumerOptions, 'groupId' | 'topics'>> = {
+export const DEFAULT_CONSUMER_OPTIONS: Required<Omit<KafkaConsumerOptions, 'groupId' | 'topics' | 'upcaster'>> = {
   fromBeginning: false,
   autoCommit: false,
   autoCommitInterval: 5000,
@@ -2,7 +2,12 @@
 /* eslint-disable @typescript-eslint/no-unsafe-member-access -- kafkajs message properties */
 /* eslint-disable @typescript-eslint/no-unsafe-call -- kafkajs methods */
 /* eslint-disable @typescript-eslint/no-unsafe-argument -- envelope properties */
-import type { EventConsumer, EventHandler, EventEnvelope } from '@marcusprado02/messaging';
+import type {
+  EnvelopeUpcaster,
+  EventConsumer,
+  EventHandler,
+  EventEnvelope,
+} from '@marcusprado02/messaging';
 import type { Logger } from '@marcusprado02/observability';
 import type { Consumer, EachMessagePayload } from 'kafkajs';
 import type { KafkaConnection } from './KafkaConnection';
@@ -17,6 +22,7 @@ import { DEFAULT_CONSUMER_OPTIONS } from './KafkaConfig';
  * - Manual offset commit for at-least-once delivery
  * - Automatic partition rebalancing
  * - Message deduplication via eventId
+ * - Optional envelope upcasting to the current event schema
  * - Graceful shutdown
  *
  * @example
@@ -41,6 +47,7 @@ export class KafkaEventConsumer implements EventConsumer {
   private isRunning = false;
   private readonly processedMessages = new Set<string>();
   private readonly options: Required<KafkaConsumerOptions>;
+  private readonly upcaster: EnvelopeUpcaster | undefined;
 
   constructor(
     private readonly connection: KafkaConnection,
@@ -48,6 +55,7 @@ export class KafkaEventConsumer implements EventConsumer {
     options: KafkaConsumerOptions,
   ) {
     this.options = { ...DEFAULT_CONSUMER_OPTIONS, ...options } as Required<KafkaConsumerOptions>;
+    this.upcaster = options.upcaster;
   }
 
   /**
@@ -148,7 +156,9 @@ export class KafkaEventConsumer implements EventConsumer {
     const { topic, partition, message } = payload;
 
     try {
-      const envelope = JSON.parse(message.value?.toString() ?? '{}') as EventEnvelope<unknown>;
+      const envelope = this.upcast(
+        JSON.parse(message.value?.toString() ?? '{}') as EventEnvelope<unknown>,
+      );
 
       // Message deduplication
       if (this.processedMessages.has(envelope.eventId)) {
@@ -237,4 +247,8 @@ export class KafkaEventConsumer implements EventConsumer {
   }
   /* eslint-enable max-lines-per-function */
   /* eslint-enable complexity */
+
+  private upcast(envelope: EventEnvelope<unknown>): EventEnvelope<unknown> {
+    return this.upcaster === undefined ? envelope : this.upcaster.upcast(envelope);
+  }
 }
@@ -4,11 +4,11 @@
 /* eslint-disable @typescript-eslint/unbound-method -- Vitest mocking pattern */
 /* eslint-disable max-lines-per-function -- Test files naturally have longer functions */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import type { Producer, Admin, Kafka, Consumer } from 'kafkajs';
+import type { Producer, Admin, Kafka, Consumer, EachMessagePayload } from 'kafkajs';
 import { KafkaConnection } from './KafkaConnection';
 import { KafkaEventPublisher } from './KafkaEventPublisher';
 import { KafkaEventConsumer } from './KafkaEventConsumer';
-import type { EventEnvelope, EventHandler } from '@marcusprado02/messaging';
+import type { EnvelopeUpcaster, EventEnvelope, EventHandler } from '@marcusprado02/messaging';
 import type { Logger } from '@marcusprado02/observability';
 
 // Mock kafkajs
@@ -340,6 +340,44 @@ describe('Kafka Adapter', () => {
       // No error should be thrown
       expect(true).toBe(true);
     });
+
+    it('should upcast envelopes before dispatching to handlers', async () => {
+      const upcaster: EnvelopeUpcaster = {
+        upcast: (envelope) => ({
+          ...envelope,
+          eventVersion: '2.0',
+          payload: { ...(envelope.payload as object), plan: 'free' },
+        }),
+      };
+      const upcastingConsumer = new KafkaEventConsumer(connection, mockLogger, {
+        groupId: 'test-group',
+        topics: ['UserCreated'],
+        upcaster,
+      });
+      const handler: EventHandler<unknown> = {
+        handle: vi.fn().mockResolvedValue(undefined),
+      };
+      upcastingConsumer.subscribe('UserCreated', handler);
+      await upcastingConsumer.start();
+
+      const { eachMessage } = vi.mocked(mockConsumer.run!).mock.calls[0]![0]!;
+      const envelope: EventEnvelope = {
+        eventId: 'evt-1',
+        eventType: 'UserCreated',
+        eventVersion: '1.0',
+        timestamp: new Date().toISOString(),
+        payload: { userId: 'u-1' },
+      };
+      await eachMessage!({
+        topic: 'UserCreated',
+        partition: 0,
+        message: { value: Buffer.from(JSON.stringify(envelope)), offset: '0' },
+      } as unknown as EachMessagePayload);
+
+      expect(handler.handle).toHaveBeenCalledWith(
+        expect.objectContaining({ eventVersion: '2.0', payload: { userId: 'u-1', plan: 'free' } }),
+      );
+    });
   });
 
   describe('Configuration', () => {
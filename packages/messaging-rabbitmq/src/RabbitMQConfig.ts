@@ -1,3 +1,5 @@
+import type { EnvelopeUpcaster } from '@marcusprado02/messaging';
+
 /**
  * RabbitMQ configuration
  */
@@ -79,6 +81,8 @@ export interface RabbitMQConsumerOptions {
   enableRetry?: boolean;
   maxRetries?: number;
   retryDelay?: number;
+  /** Migrates incoming envelopes to the current event schema before dispatch */
+  upcaster?: EnvelopeUpcaster;
 }
 
 /**
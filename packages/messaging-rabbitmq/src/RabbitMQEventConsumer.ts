@@ -15,6 +15,7 @@ import type { RabbitMQConsumerOptions } from './RabbitMQConfig';
  * - Auto-retry with exponential backoff
  * - Dead Letter Queue for failed messages
  * - Message deduplication via messageId
+ * - Optional envelope upcasting to the current event schema
  * - Graceful shutdown
  *
  * @example
@@ -137,7 +138,7 @@ export class RabbitMQEventConsumer implements EventConsumer {
     const channel = this.connection.getChannel();
 
     try {
-      const envelope = JSON.parse(msg.content.toString()) as EventEnvelope<unknown>;
+      const envelope = this.upcast(JSON.parse(msg.content.toString()) as EventEnvelope<unknown>);
 
       // Message deduplication
       if (this.processedMessages.has(envelope.eventId)) {
@@ -190,6 +191,14 @@ export class RabbitMQEventConsumer implements EventConsumer {
     }
   }
 
+  /**
+   * Apply the configured upcaster, if any
+   */
+  private upcast(envelope: EventEnvelope<unknown>): EventEnvelope<unknown> {
+    const { upcaster } = this.options;
+    return upcaster === undefined ? envelope : upcaster.upcast(envelope);
+  }
+
   /**
    * Check if message should be retried
    */
@@ -6,11 +6,11 @@
 /* eslint-disable @typescript-eslint/unbound-method -- Vitest mocking pattern */
 /* eslint-disable max-lines-per-function -- Test files naturally have longer functions */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import type { Channel, ChannelModel, Connection } from 'amqplib';
+import type { Channel, ChannelModel, Connection, ConsumeMessage } from 'amqplib';
 import { RabbitMQConnection } from './RabbitMQConnection';
 import { RabbitMQEventPublisher } from './RabbitMQEventPublisher';
 import { RabbitMQEventConsumer } from './RabbitMQEventConsumer';
-import type { EventEnvelope, EventHandler } from '@marcusprado02/messaging';
+import type { EnvelopeUpcaster, EventEnvelope, EventHandler } from '@marcusprado02/messaging';
 import type { Logger } from '@marcusprado02/observability';
 
 // Mock amqplib
@@ -294,6 +294,41 @@ describe('RabbitMQ Adapter', () => {
       // No error should be thrown
       expect(true).toBe(true);
     });
+
+    it('should upcast envelopes before dispatching to handlers', async () => {
+      const upcaster: EnvelopeUpcaster = {
+        upcast: (envelope) => ({
+          ...envelope,
+          eventVersion: '2.0',
+          payload: { ...(envelope.payload as object), plan: 'free' },
+        }),
+      };
+      const upcastingConsumer = new RabbitMQEventConsumer(connection, mockLogger, {
+        queue: 'test-queue',
+        upcaster,
+      });
+      const handler: EventHandler<unknown> = {
+        handle: vi.fn().mockResolvedValue(undefined),
+      };
+      upcastingConsumer.subscribe('UserCreated', handler);
+      await upcastingConsumer.start();
+
+      const onMessage = vi.mocked(mockChannel.consume!).mock.calls[0]![1];
+      const envelope: EventEnvelope = {
+        eventId: 'evt-1',
+        eventType: 'UserCreated',
+        eventVersion: '1.0',
+        timestamp: new Date().toISOString(),
+        payload: { userId: 'u-1' },
+      };
+      const msg = { content: Buffer.from(JSON.stringify(envelope)), properties: { headers: {} } };
+      onMessage(msg as unknown as ConsumeMessage);
+      await vi.waitFor(() => expect(mockChannel.ack).toHaveBeenCalledWith(msg));
+
+      expect(handler.handle).toHaveBeenCalledWith(
+        expect.objectContaining({ eventVersion: '2.0', payload: { userId: 'u-1', plan: 'free' } }),
+      );
+    });
   });
 
   describe('Dead Letter Queue', () => {
@@ -0,0 +1,103 @@
+import type {
+  DomainEvent,
+  DomainEventRegistry,
+  EventPayload,
+  SerializedDomainEvent,
+} from '@marcusprado02/kernel';
+import type { EventEnvelope } from './EventEnvelope';
+
+/**
+ * Migrates an incoming envelope to the current schema of its event type.
+ * Consumers apply it before dispatching to handlers.
+ */
+export interface EnvelopeUpcaster {
+  upcast(envelope: EventEnvelope<unknown>): EventEnvelope<unknown>;
+}
+
+/**
+ * Converts domain events to and from {@link EventEnvelope}s using a kernel
+ * `DomainEventRegistry` for type names, payload mapping and upcasting.
+ *
+ * Envelope versions are written as `"<version>.0"`; only the major part is
+ * read back, so existing `'1.0'` / `'2.0'` envelopes map to versions 1 and 2.
+ *
+ * @example
+ * ```typescript
+ * const serializer = new EventEnvelopeSerializer(registry);
+ * await publisher.publish(serializer.toEnvelope(new OrderPlaced('o-1', 10)));
+ *
+ * // consumer side
+ * const event = serializer.fromEnvelope(envelope); // upcast to the current OrderPlaced
+ * ```
+ */
+export class EventEnvelopeSerializer implements EnvelopeUpcaster {
+  constructor(private readonly registry: DomainEventRegistry) {}
+
+  toEnvelope(event: DomainEvent, metadata?: Record<string, unknown>): EventEnvelope<EventPayload> {
+    const serialized = this.registry.serialize(event);
+    return {
+      eventId: serialized.eventId,
+      eventType: serialized.eventType,
+      eventVersion: formatVersion(serialized.eventVersion),
+      timestamp: serialized.occurredAt,
+      ...(serialized.correlationId !== undefined && { correlationId: serialized.correlationId }),
+      ...(serialized.causationId !== undefined && { causationId: serialized.causationId }),
+      ...(serialized.tenantId !== undefined && { tenantId: serialized.tenantId }),
+      payload: serialized.payload,
+      ...(metadata !== undefined && { metadata }),
+    };
+  }
+
+  /** Upcasts the envelope and rebuilds the registered domain event. */
+  fromEnvelope(envelope: EventEnvelope<unknown>): DomainEvent {
+    return this.registry.deserialize(toSerialized(envelope));
+  }
+
+  /**
+   * Returns the envelope with its payload upcast to the registered version.
+   * Envelopes of unregistered event types pass through unchanged.
+   */
+  upcast(envelope: EventEnvelope<unknown>): EventEnvelope<unknown> {
+    if (!this.registry.has(envelope.eventType)) return envelope;
+    const current = this.registry.upcast(toSerialized(envelope));
+    if (current.eventVersion === parseVersion(envelope.eventVersion)) return envelope;
+    return {
+      ...envelope,
+      eventVersion: formatVersion(current.eventVersion),
+      payload: current.payload,
+    };
+  }
+
+  serialize(event: DomainEvent, metadata?: Record<string, unknown>): string {
+    return JSON.stringify(this.toEnvelope(event, metadata));
+  }
+
+  deserialize(raw: string): DomainEvent {
+    return this.fromEnvelope(JSON.parse(raw) as EventEnvelope<unknown>);
+  }
+}
+
+function formatVersion(version: number): string {
+  return `${version}.0`;
+}
+
+function parseVersion(version: string): number {
+  const major = Number.parseInt(version, 10);
+  if (Number.isNaN(major)) {
+    throw new Error(`Invalid event envelope version "${version}"`);
+  }
+  return major;
+}
+
+function toSerialized(envelope: EventEnvelope<unknown>): SerializedDomainEvent {
+  return {
+    eventId: envelope.eventId,
+    eventType: envelope.eventType,
+    eventVersion: parseVersion(envelope.eventVersion),
+    occurredAt: envelope.timestamp,
+    payload: envelope.payload as EventPayload,
+    ...(envelope.correlationId !== undefined && { correlationId: envelope.correlationId }),
+    ...(envelope.causationId !== undefined && { causationId: envelope.causationId }),
+    ...(envelope.tenantId !== undefined && { tenantId: envelope.tenantId }),
+  };
+}
@@ -0,0 +1,100 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+import { describe, it, expect } from 'vitest';
+import { CorrelationId, DomainEvent, DomainEventRegistry } from '@marcusprado02/kernel';
+import { EventEnvelopeSerializer } from './EventEnvelopeSerializer';
+import type { EventEnvelope } from './EventEnvelope';
+
+class UserRegistered extends DomainEvent {
+  static override readonly eventType = 'users.user-registered';
+  static override readonly eventVersion = 2;
+
+  constructor(
+    readonly userId: string,
+    readonly fullName: string,
+  ) {
+    super();
+  }
+}
+
+const registry = new DomainEventRegistry()
+  .register(UserRegistered, {
+    fromPayload: (p) => new UserRegistered(p['userId'] as string, p['fullName'] as string),
+  })
+  .registerUpcaster({
+    eventType: UserRegistered.eventType,
+    fromVersion: 1,
+    upcast: ({ firstName, lastName, ...rest }) => ({
+      ...rest,
+      fullName: `${String(firstName)} ${String(lastName)}`,
+    }),
+  });
+
+const serializer = new EventEnvelopeSerializer(registry);
+
+const v1Envelope: EventEnvelope = {
+  eventId: 'evt-1',
+  eventType: 'users.user-registered',
+  eventVersion: '1.0',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  correlationId: 'corr-1',
+  payload: { userId: 'u-1', firstName: 'Ana', lastName: 'Souza' },
+};
+
+// ── toEnvelope / fromEnvelope ────────────────────────────────────────────────
+
+describe('EventEnvelopeSerializer', () => {
+  it('builds an envelope from a registered event', () => {
+    const event = new UserRegistered('u-1', 'Ana Souza');
+    event.correlationId = CorrelationId.create('corr-9');
+
+    const envelope = serializer.toEnvelope(event, { source: 'users' });
+
+    expect(envelope).toEqual({
+      eventId: event.eventId,
+      eventType: 'users.user-registered',
+      eventVersion: '2.0',
+      timestamp: event.occurredAt.toISOString(),
+      correlationId: 'corr-9',
+      payload: { userId: 'u-1', fullName: 'Ana Souza' },
+      metadata: { source: 'users' },
+    });
+  });
+
+  it('round-trips through JSON', () => {
+    const event = new UserRegistered('u-2', 'Bia Lima');
+    const restored = serializer.deserialize(serializer.serialize(event));
+
+    expect(restored).toBeInstanceOf(UserRegistered);
+    expect(restored.eventId).toBe(event.eventId);
+    expect((restored as UserRegistered).fullName).toBe('Bia Lima');
+  });
+
+  it('upcasts old envelopes when rebuilding the event', () => {
+    const event = serializer.fromEnvelope(v1Envelope) as UserRegistered;
+    expect(event.fullName).toBe('Ana Souza');
+    expect(event.eventVersion).toBe(2);
+    expect(event.correlationId?.value).toBe('corr-1');
+  });
+
+  it('upcasts envelopes in place for consumers', () => {
+    const upcast = serializer.upcast(v1Envelope);
+    expect(upcast).toEqual({
+      ...v1Envelope,
+      eventVersion: '2.0',
+      payload: { userId: 'u-1', fullName: 'Ana Souza' },
+    });
+  });
+
+  it('passes current and unregistered envelopes through unchanged', () => {
+    const current = { ...v1Envelope, eventVersion: '2.0' };
+    const foreign = { ...v1Envelope, eventType: 'billing.invoice-paid' };
+    expect(serializer.upcast(current)).toBe(current);
+    expect(serializer.upcast(foreign)).toBe(foreign);
+  });
+
+  it('rejects malformed versions', () => {
+    expect(() => serializer.upcast({ ...v1Envelope, eventVersion: 'v1' })).toThrow(
+      /Invalid event envelope version/,
+    );
+  });
+});
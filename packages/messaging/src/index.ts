@@ -1,6 +1,8 @@
 // Envelope
 export { EventName, EventVersion } from './envelope/EventName';
 export type { EventEnvelope } from './envelope/EventEnvelope';
+export { EventEnvelopeSerializer } from './envelope/EventEnvelopeSerializer';
+export type { EnvelopeUpcaster } from './envelope/EventEnvelopeSerializer';
 
 // Publisher
 export type { EventPublisherPort } from './publisher/EventPublisherPort';
@@ -8,9 +8,12 @@ import type { UserPreferencesStore } from './UserPreferencesStore';
 // Helpers
 // ---------------------------------------------------------------------------
 
-function isRateLimited(rateLimiter: RateLimiter | undefined, notification: Notification): boolean {
+async function isRateLimited(
+  rateLimiter: RateLimiter | undefined,
+  notification: Notification,
+): Promise<boolean> {
   if (rateLimiter === undefined) return false;
-  return !rateLimiter.isAllowed(notification.channel, notification.recipient.userId);
+  return !(await rateLimiter.tryAcquire(notification.channel, notification.recipient.userId));
 }
 
 function isOptedOut(prefs: UserPreferencesStore | undefined, notification: Notification): boolean {
@@ -33,12 +36,6 @@ function applyTemplate(
   return { ...notification, body };
 }
 
-function recordDelay(rateLimiter: RateLimiter | undefined, notification: Notification): void {
-  if (rateLimiter !== undefined) {
-    rateLimiter.record(notification.channel, notification.recipient.userId);
-  }
-}
-
 function skippedResult(id: string, reason: string): SendResult {
   return { notificationId: id, status: 'skipped', failureReason: reason };
 }
@@ -81,10 +78,9 @@ export class ManagedNotificationAdapter implements NotificationPort {
     if (isOptedOut(this.preferences, notification)) {
       return skippedResult(notification.id, 'opted out');
     }
-    if (isRateLimited(this.rateLimiter, notification)) {
+    if (await isRateLimited(this.rateLimiter, notification)) {
       return skippedResult(notification.id, 'rate limited');
     }
-    recordDelay(this.rateLimiter, notification);
     const resolved = applyTemplate(this.templates, notification);
     return this.inner.send(resolved);
   }
@@ -1,3 +1,4 @@
+import type { DistributedRateLimiter } from '@marcusprado02/resilience';
 import type { NotificationChannel, RateLimitConfig } from './NotificationTypes';
 
 // ---------------------------------------------------------------------------
@@ -16,11 +17,22 @@ function pruneOldTimestamps(timestamps: number[], windowMs: number, now: number)
 // RateLimiter
 // ---------------------------------------------------------------------------
 
+export interface RateLimiterOptions {
+  /**
+   * Shares the limits between replicas, e.g. a `RedisRateLimiter` from
+   * `@marcusprado02/resilience`. {@link RateLimiter.tryAcquire} then consumes
+   * from it, and `windowMs` and `maxCount` are unused.
+   */
+  readonly distributed?: DistributedRateLimiter;
+}
+
 /**
  * Sliding-window rate limiter keyed by (channel, userId).
  *
  * Call {@link isAllowed} before sending; call {@link record} after a successful
- * send to register the timestamp.
+ * send to register the timestamp. Both only see the sends of this process:
+ * use {@link tryAcquire} with a `distributed` limiter to share the limit
+ * between replicas.
  *
  * @example
  * ```ts
@@ -34,7 +46,24 @@ function pruneOldTimestamps(timestamps: number[], windowMs: number, now: number)
 export class RateLimiter {
   private readonly windows = new Map<string, number[]>();
 
-  constructor(private readonly config: RateLimitConfig) {}
+  constructor(
+    private readonly config: RateLimitConfig,
+    private readonly options: RateLimiterOptions = {},
+  ) {}
+
+  /**
+   * Consume one send for the channel + user. Return `true` if it is within
+   * the limit — of the distributed limiter when one is configured.
+   */
+  async tryAcquire(channel: NotificationChannel, userId: string): Promise<boolean> {
+    if (this.options.distributed !== undefined) {
+      const decision = await this.options.distributed.consume(windowKey(channel, userId));
+      return decision.allowed;
+    }
+    if (!this.isAllowed(channel, userId)) return false;
+    this.record(channel, userId);
+    return true;
+  }
 
   /**
    * Return `true` if the user is still within the allowed window for the channel.
@@ -24,6 +24,7 @@ export {
 
 // Utilities
 export { RateLimiter } from './RateLimiter';
+export type { RateLimiterOptions } from './RateLimiter';
 export { TemplateEngine } from './TemplateEngine';
 export { UserPreferencesStore } from './UserPreferencesStore';
 
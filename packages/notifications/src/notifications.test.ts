@@ -1,4 +1,5 @@
 import { describe, expect, it, vi } from 'vitest';
+import { InMemoryRateLimiter } from '@marcusprado02/resilience';
 import {
   InMemoryNotificationAdapter,
   ManagedNotificationAdapter,
@@ -201,6 +202,26 @@ describe('RateLimiter', () => {
     expect(limiter.isAllowed('email', 'u2')).toBe(true);
     expect(limiter.isAllowed('email', 'u1')).toBe(false);
   });
+
+  it('tryAcquire records the send while under limit', async () => {
+    const limiter = new RateLimiter({ windowMs: 60_000, maxCount: 1 });
+    expect(await limiter.tryAcquire('email', 'u1')).toBe(true);
+    expect(await limiter.tryAcquire('email', 'u1')).toBe(false);
+    expect(limiter.getCount('email', 'u1')).toBe(1);
+  });
+
+  it('tryAcquire shares the limit through a distributed limiter', async () => {
+    const distributed = new InMemoryRateLimiter({
+      type: 'sliding-log',
+      limit: 1,
+      windowMs: 60_000,
+    });
+    const replicaA = new RateLimiter({ windowMs: 60_000, maxCount: 1 }, { distributed });
+    const replicaB = new RateLimiter({ windowMs: 60_000, maxCount: 1 }, { distributed });
+    expect(await replicaA.tryAcquire('email', 'u1')).toBe(true);
+    expect(await replicaB.tryAcquire('email', 'u1')).toBe(false);
+    expect(await replicaB.tryAcquire('sms', 'u1')).toBe(true);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,26 @@
+import type { EventEnvelope } from '@marcusprado02/messaging';
+import type { InboxMessage } from './InboxStorePort';
+
+/**
+ * Row (or document) layout shared by the database inbox stores. `eventId`
+ * should carry a unique index, so a redelivered event cannot be saved twice.
+ */
+export interface InboxRecord {
+  readonly id: string;
+  readonly eventId: string;
+  readonly eventType: string;
+  readonly envelope: EventEnvelope;
+  readonly receivedAt: Date;
+  readonly processedAt: Date | null;
+}
+
+export function toInboxRecord(message: InboxMessage): InboxRecord {
+  return {
+    id: message.id,
+    eventId: message.eventEnvelope.eventId,
+    eventType: message.eventEnvelope.eventType,
+    envelope: message.eventEnvelope,
+    receivedAt: message.receivedAt,
+    processedAt: message.processedAt ?? null,
+  };
+}
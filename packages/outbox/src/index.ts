@@ -1,12 +1,46 @@
 // Outbox
-export type { OutboxMessage, OutboxStorePort } from './outbox/OutboxStorePort';
+export type {
+  OutboxChangeNotifier,
+  OutboxClaimRequest,
+  OutboxMessage,
+  OutboxStorePort,
+} from './outbox/OutboxStorePort';
 export { InMemoryOutboxStore } from './outbox/InMemoryOutboxStore';
+export type { OutboxEventWriterOptions } from './outbox/OutboxEventWriter';
+export { OutboxEventWriter } from './outbox/OutboxEventWriter';
+export type { OutboxRecord } from './outbox/OutboxRecord';
 
 // Inbox
 export type { InboxMessage, InboxStorePort } from './inbox/InboxStorePort';
 export { InMemoryInboxStore } from './inbox/InMemoryInboxStore';
+export type { InboxRecord } from './inbox/InboxRecord';
 
 // Relay
 export type { OutboxRelayOptions } from './relay/OutboxRelay';
 export { OutboxRelay } from './relay/OutboxRelay';
 export { OutboxRelayMetrics } from './relay/OutboxRelayMetrics';
+
+// Prisma
+export type { PrismaOutboxDelegateLike } from './prisma/PrismaOutboxStore';
+export { PrismaOutboxStore } from './prisma/PrismaOutboxStore';
+export type { PrismaInboxDelegateLike } from './prisma/PrismaInboxStore';
+export { PrismaInboxStore } from './prisma/PrismaInboxStore';
+
+// TypeORM
+export type {
+  TypeORMRepositoryLike,
+  TypeORMSelectQueryBuilderLike,
+  TypeORMUpdateQueryBuilderLike,
+} from './typeorm/TypeORMRepositoryLike';
+export { TypeORMOutboxStore } from './typeorm/TypeORMOutboxStore';
+export { TypeORMInboxStore } from './typeorm/TypeORMInboxStore';
+
+// MongoDB
+export type {
+  MongoDocument,
+  MongoFindCursorLike,
+  MongoSessionOptions,
+  MongoStoreCollectionLike,
+} from './mongodb/MongoCollectionLike';
+export { MongoOutboxStore } from './mongodb/MongoOutboxStore';
+export { MongoInboxStore } from './mongodb/MongoInboxStore';
@@ -0,0 +1,37 @@
+/**
+ * Structural interfaces for the MongoDB collections used by the outbox and
+ * inbox stores — the subset of the official driver's `Collection` API in use.
+ */
+
+export type MongoDocument = Record<string, unknown>;
+
+/** Driver options carrying the transaction's `ClientSession`, if any. */
+export interface MongoSessionOptions {
+  session?: unknown;
+}
+
+export interface MongoFindCursorLike {
+  sort(sort: Record<string, 1 | -1>): MongoFindCursorLike;
+  limit(n: number): MongoFindCursorLike;
+  toArray(): Promise<MongoDocument[]>;
+}
+
+export interface MongoStoreCollectionLike {
+  insertOne(document: MongoDocument, options?: MongoSessionOptions): Promise<unknown>;
+  find(filter: MongoDocument, options?: MongoSessionOptions): MongoFindCursorLike;
+  updateOne(
+    filter: MongoDocument,
+    update: MongoDocument,
+    options?: MongoSessionOptions,
+  ): Promise<{ matchedCount: number }>;
+  updateMany(
+    filter: MongoDocument,
+    update: MongoDocument,
+    options?: MongoSessionOptions,
+  ): Promise<unknown>;
+  countDocuments(
+    filter: MongoDocument,
+    options?: MongoSessionOptions & { limit?: number },
+  ): Promise<number>;
+  createIndex(keys: Record<string, 1 | -1>, options?: { unique?: boolean }): Promise<string>;
+}
@@ -0,0 +1,40 @@
+import type { InboxMessage, InboxStorePort } from '../inbox/InboxStorePort';
+import { toInboxRecord } from '../inbox/InboxRecord';
+import type { MongoSessionOptions, MongoStoreCollectionLike } from './MongoCollectionLike';
+
+/**
+ * {@link InboxStorePort} keeping one document per received message
+ * (`_id` = message id). {@link ensureIndexes} creates the unique `eventId`
+ * index that rejects a second save of the same event.
+ */
+export class MongoInboxStore implements InboxStorePort {
+  private readonly options: MongoSessionOptions;
+
+  constructor(
+    private readonly collection: MongoStoreCollectionLike,
+    session?: unknown,
+  ) {
+    this.options = session === undefined ? {} : { session };
+  }
+
+  async ensureIndexes(): Promise<void> {
+    await this.collection.createIndex({ eventId: 1 }, { unique: true });
+  }
+
+  async isDuplicate(eventId: string): Promise<boolean> {
+    return (await this.collection.countDocuments({ eventId }, { ...this.options, limit: 1 })) > 0;
+  }
+
+  async save(message: InboxMessage): Promise<void> {
+    const { id, ...record } = toInboxRecord(message);
+    await this.collection.insertOne({ _id: id, ...record }, this.options);
+  }
+
+  async markAsProcessed(id: string): Promise<void> {
+    await this.collection.updateOne(
+      { _id: id },
+      { $set: { processedAt: new Date() } },
+      this.options,
+    );
+  }
+}
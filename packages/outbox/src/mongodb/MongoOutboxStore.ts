@@ -0,0 +1,119 @@
+import type { OutboxClaimRequest, OutboxMessage, OutboxStorePort } from '../outbox/OutboxStorePort';
+import { fromOutboxRecord, toOutboxRecord } from '../outbox/OutboxRecord';
+import { CLAIM_SCAN_FACTOR, claimInOrder } from '../outbox/claimInOrder';
+import type {
+  MongoDocument,
+  MongoSessionOptions,
+  MongoStoreCollectionLike,
+} from './MongoCollectionLike';
+
+const PENDING = { publishedAt: null, deadLetteredAt: null };
+const NO_LEASE = { lockedBy: null, lockedUntil: null };
+
+/**
+ * {@link OutboxStorePort} keeping one document per message (`_id` = message
+ * id). Pass the transaction's session to write atomically with the
+ * aggregate; call {@link ensureIndexes} once at startup.
+ *
+ * Messages are claimed with one conditional `updateOne` each, so two
+ * instances never hold the same lease.
+ */
+export class MongoOutboxStore implements OutboxStorePort {
+  private readonly options: MongoSessionOptions;
+
+  constructor(
+    private readonly collection: MongoStoreCollectionLike,
+    session?: unknown,
+  ) {
+    this.options = session === undefined ? {} : { session };
+  }
+
+  async ensureIndexes(): Promise<void> {
+    await this.collection.createIndex({ publishedAt: 1, deadLetteredAt: 1, createdAt: 1 });
+  }
+
+  async save(message: OutboxMessage): Promise<void> {
+    const { id, ...record } = toOutboxRecord(message);
+    await this.collection.insertOne({ _id: id, ...record }, this.options);
+  }
+
+  async getUnpublished(limit: number): Promise<OutboxMessage[]> {
+    return this.find(PENDING, limit);
+  }
+
+  async markAsPublished(id: string): Promise<void> {
+    const now = new Date();
+    await this.collection.updateOne(
+      { _id: id },
+      {
+        $set: { publishedAt: now, lastAttemptAt: now, error: null, ...NO_LEASE },
+        $inc: { attempts: 1 },
+      },
+      this.options,
+    );
+  }
+
+  async markAsFailed(id: string, error: string): Promise<void> {
+    await this.collection.updateOne(
+      { _id: id },
+      { $set: { lastAttemptAt: new Date(), error, ...NO_LEASE }, $inc: { attempts: 1 } },
+      this.options,
+    );
+  }
+
+  async claimBatch(request: OutboxClaimRequest): Promise<OutboxMessage[]> {
+    const { owner, limit, leaseMs } = request;
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + leaseMs);
+    const pending = await this.find(PENDING, limit * CLAIM_SCAN_FACTOR);
+    return claimInOrder(pending, request, lockedUntil, async (message) => {
+      const { matchedCount } = await this.collection.updateOne(
+        {
+          _id: message.id,
+          ...PENDING,
+          $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }, { lockedBy: owner }],
+        },
+        { $set: { lockedBy: owner, lockedUntil } },
+        this.options,
+      );
+      return matchedCount === 1;
+    });
+  }
+
+  async release(ids: readonly string[], owner: string): Promise<void> {
+    await this.collection.updateMany(
+      { _id: { $in: ids }, lockedBy: owner },
+      { $set: NO_LEASE },
+      this.options,
+    );
+  }
+
+  async deadLetter(id: string, reason: string): Promise<void> {
+    await this.collection.updateOne(
+      { _id: id },
+      { $set: { error: reason, deadLetteredAt: new Date(), ...NO_LEASE } },
+      this.options,
+    );
+  }
+
+  async getDeadLettered(limit: number): Promise<OutboxMessage[]> {
+    return this.find({ deadLetteredAt: { $ne: null } }, limit);
+  }
+
+  async requeue(id: string): Promise<void> {
+    await this.collection.updateOne(
+      { _id: id, deadLetteredAt: { $ne: null } },
+      { $set: { deadLetteredAt: null, attempts: 0, error: null, lastAttemptAt: null } },
+      this.options,
+    );
+  }
+
+  private async find(filter: MongoDocument, limit: number): Promise<OutboxMessage[]> {
+    const docs = await this.collection
+      .find(filter, this.options)
+      .sort({ createdAt: 1 })
+      .limit(limit)
+      .toArray();
+    return docs.map((doc) => fromOutboxRecord({ ...doc, id: doc['_id'] }));
+  }
+}
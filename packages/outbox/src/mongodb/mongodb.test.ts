@@ -0,0 +1,189 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+/* eslint-disable @typescript-eslint/require-await */
+import { describe, it, expect, vi } from 'vitest';
+import type { EventEnvelope } from '@marcusprado02/messaging';
+import { MongoOutboxStore } from './MongoOutboxStore';
+import { MongoInboxStore } from './MongoInboxStore';
+import type {
+  MongoDocument,
+  MongoFindCursorLike,
+  MongoSessionOptions,
+  MongoStoreCollectionLike,
+} from './MongoCollectionLike';
+
+const envelope = (eventId: string): EventEnvelope => ({
+  eventId,
+  eventType: 'orders.order-placed',
+  eventVersion: '1.0',
+  timestamp: new Date().toISOString(),
+  payload: { orderId: 'o-1' },
+});
+
+/** Evaluates the subset of query operators the stores use. */
+function matches(doc: MongoDocument, filter: MongoDocument): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$or') return (condition as MongoDocument[]).some((f) => matches(doc, f));
+    const value = doc[key] ?? null;
+    if (condition === null || typeof condition !== 'object') return value === condition;
+    const { $lte, $ne, $in } = condition as { $lte?: Date; $ne?: null; $in?: unknown[] };
+    if ($lte !== undefined) return value instanceof Date && value <= $lte;
+    if ($in !== undefined) return $in.includes(value);
+    return $ne === null ? value !== null : true;
+  });
+}
+
+function applyUpdate(doc: MongoDocument, update: MongoDocument): void {
+  Object.assign(doc, update['$set']);
+  const inc = (update['$inc'] ?? {}) as Record<string, number>;
+  for (const [key, by] of Object.entries(inc)) doc[key] = (doc[key] as number) + by;
+}
+
+function cursorOf(docs: MongoDocument[]): MongoFindCursorLike {
+  return {
+    sort: (sort) => {
+      const [[key, direction]] = Object.entries(sort) as [[string, 1 | -1]];
+      return cursorOf(
+        [...docs].sort(
+          (a, b) => ((a[key] as Date).getTime() - (b[key] as Date).getTime()) * direction,
+        ),
+      );
+    },
+    limit: (n) => cursorOf(docs.slice(0, n)),
+    toArray: async () => docs,
+  };
+}
+
+function fakeCollection(docs: MongoDocument[], sessions: unknown[]): MongoStoreCollectionLike {
+  const track = (options?: MongoSessionOptions) => sessions.push(options?.session);
+  return {
+    insertOne: async (doc, options) => {
+      track(options);
+      docs.push({ ...doc });
+    },
+    find: (filter, options) => {
+      track(options);
+      return cursorOf(docs.filter((doc) => matches(doc, filter)));
+    },
+    updateOne: async (filter, update, options) => {
+      track(options);
+      const doc = docs.find((d) => matches(d, filter));
+      if (doc !== undefined) applyUpdate(doc, update);
+      return { matchedCount: doc === undefined ? 0 : 1 };
+    },
+    updateMany: async (filter, update, options) => {
+      track(options);
+      docs.filter((d) => matches(d, filter)).forEach((doc) => applyUpdate(doc, update));
+    },
+    countDocuments: async (filter, options) => {
+      track(options);
+      return docs.filter((doc) => matches(doc, filter)).length;
+    },
+    createIndex: async (keys) => Object.keys(keys).join('_'),
+  };
+}
+
+describe('MongoOutboxStore', () => {
+  it('writes with the given session and reads unpublished messages oldest first', async () => {
+    const docs: MongoDocument[] = [];
+    const sessions: unknown[] = [];
+    const session = { id: 'session-1' };
+    const store = new MongoOutboxStore(fakeCollection(docs, sessions), session);
+    await store.save({
+      id: 'm-2',
+      eventEnvelope: envelope('m-2'),
+      createdAt: new Date(2),
+      attempts: 0,
+    });
+    await store.save({
+      id: 'm-1',
+      eventEnvelope: envelope('m-1'),
+      createdAt: new Date(1),
+      attempts: 0,
+    });
+
+    const unpublished = await store.getUnpublished(10);
+
+    expect(docs[0]).toMatchObject({ _id: 'm-2', publishedAt: null });
+    expect(unpublished.map((m) => m.id)).toEqual(['m-1', 'm-2']);
+    expect(sessions.every((s) => s === session)).toBe(true);
+  });
+
+  it('records failures and publication', async () => {
+    const docs: MongoDocument[] = [];
+    const store = new MongoOutboxStore(fakeCollection(docs, []));
+    await store.save({
+      id: 'm-1',
+      eventEnvelope: envelope('m-1'),
+      createdAt: new Date(),
+      attempts: 0,
+    });
+
+    await store.markAsFailed('m-1', 'broker down');
+    expect((await store.getUnpublished(1))[0]).toMatchObject({ attempts: 1, error: 'broker down' });
+
+    await store.markAsPublished('m-1');
+    expect(docs[0]).toMatchObject({ attempts: 2, error: null });
+    expect(await store.getUnpublished(1)).toHaveLength(0);
+  });
+});
+
+describe('MongoOutboxStore leases and dead letters', () => {
+  const message = (id: string, at: number, partitionKey: string) => ({
+    id,
+    eventEnvelope: envelope(id),
+    createdAt: new Date(at),
+    attempts: 0,
+    partitionKey,
+  });
+
+  it('holds back a partition while another owner leases its head', async () => {
+    const store = new MongoOutboxStore(fakeCollection([], []));
+    await store.save(message('a-1', 1, 'order-a'));
+    await store.save(message('a-2', 2, 'order-a'));
+    await store.save(message('b-1', 3, 'order-b'));
+
+    const first = await store.claimBatch({ owner: 'relay-1', limit: 1, leaseMs: 60_000 });
+    const second = await store.claimBatch({ owner: 'relay-2', limit: 10, leaseMs: 60_000 });
+
+    expect(first.map((m) => m.id)).toEqual(['a-1']);
+    expect(second.map((m) => m.id)).toEqual(['b-1']);
+
+    await store.markAsPublished('a-1');
+    const third = await store.claimBatch({ owner: 'relay-2', limit: 10, leaseMs: 60_000 });
+    expect(third.map((m) => m.id)).toEqual(['a-2', 'b-1']);
+  });
+
+  it('dead-letters, lists and requeues messages', async () => {
+    const store = new MongoOutboxStore(fakeCollection([], []));
+    await store.save(message('m-1', 1, 'order-a'));
+
+    await store.deadLetter('m-1', 'max attempts exceeded');
+    expect(await store.getUnpublished(10)).toEqual([]);
+    expect((await store.getDeadLettered(10))[0]).toMatchObject({ error: 'max attempts exceeded' });
+
+    await store.requeue('m-1');
+    expect((await store.getUnpublished(10))[0]).toMatchObject({ id: 'm-1', attempts: 0 });
+  });
+});
+
+describe('MongoInboxStore', () => {
+  it('detects duplicates by event id and marks messages processed', async () => {
+    const docs: MongoDocument[] = [];
+    const store = new MongoInboxStore(fakeCollection(docs, []));
+    await store.save({ id: 'in-1', eventEnvelope: envelope('evt-1'), receivedAt: new Date() });
+
+    expect(await store.isDuplicate('evt-1')).toBe(true);
+    expect(await store.isDuplicate('evt-2')).toBe(false);
+    await store.markAsProcessed('in-1');
+    expect(docs[0]?.['processedAt']).toBeInstanceOf(Date);
+  });
+
+  it('ensureIndexes creates a unique event id index', async () => {
+    const collection = fakeCollection([], []);
+    const createIndex = vi.spyOn(collection, 'createIndex');
+
+    await new MongoInboxStore(collection).ensureIndexes();
+
+    expect(createIndex).toHaveBeenCalledWith({ eventId: 1 }, { unique: true });
+  });
+});
@@ -4,6 +4,8 @@
 /* eslint-disable @typescript-eslint/no-unsafe-argument */
 /* eslint-disable @typescript-eslint/unbound-method */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DomainEvent, DomainEventRegistry } from '@marcusprado02/kernel';
+import { EventEnvelopeSerializer } from '@marcusprado02/messaging';
 import type { EventEnvelope, EventPublisherPort } from '@marcusprado02/messaging';
 import type { OutboxMessage } from './outbox/OutboxStorePort';
 import type { InboxMessage } from './inbox/InboxStorePort';
@@ -11,6 +13,7 @@ import { InMemoryOutboxStore } from './outbox/InMemoryOutboxStore';
 import { InMemoryInboxStore } from './inbox/InMemoryInboxStore';
 import { OutboxRelayMetrics } from './relay/OutboxRelayMetrics';
 import { OutboxRelay } from './relay/OutboxRelay';
+import { OutboxEventWriter } from './outbox/OutboxEventWriter';
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -96,6 +99,121 @@ describe('InMemoryOutboxStore', () => {
   });
 });
 
+describe('InMemoryOutboxStore leases', () => {
+  let store: InMemoryOutboxStore;
+
+  beforeEach(async () => {
+    store = new InMemoryOutboxStore();
+    await store.save(makeOutboxMessage({ id: 'a-1', partitionKey: 'order-a' }));
+    await store.save(makeOutboxMessage({ id: 'a-2', partitionKey: 'order-a' }));
+    await store.save(makeOutboxMessage({ id: 'b-1', partitionKey: 'order-b' }));
+  });
+
+  it('claimBatch does not hand the same message to two owners', async () => {
+    const first = await store.claimBatch({ owner: 'relay-1', limit: 10, leaseMs: 60_000 });
+    const second = await store.claimBatch({ owner: 'relay-2', limit: 10, leaseMs: 60_000 });
+    expect(first.map((m) => m.id)).toEqual(['a-1', 'a-2', 'b-1']);
+    expect(second).toEqual([]);
+  });
+
+  it('claimBatch skips partitions whose earlier message is leased to another owner', async () => {
+    await store.claimBatch({ owner: 'relay-1', limit: 1, leaseMs: 60_000 });
+    const second = await store.claimBatch({ owner: 'relay-2', limit: 10, leaseMs: 60_000 });
+    expect(second.map((m) => m.id)).toEqual(['b-1']);
+  });
+
+  it('expired and released leases can be claimed again', async () => {
+    await store.claimBatch({ owner: 'relay-1', limit: 1, leaseMs: -1 });
+    await store.claimBatch({ owner: 'relay-2', limit: 1, leaseMs: 60_000 });
+    expect(store.getAll()[0]?.lockedBy).toBe('relay-2');
+
+    await store.release(['a-1'], 'relay-1'); // not the owner: no effect
+    expect(store.getAll()[0]?.lockedBy).toBe('relay-2');
+    await store.release(['a-1'], 'relay-2');
+    expect(store.getAll()[0]).not.toHaveProperty('lockedBy');
+  });
+
+  it('dead-lettered messages are listed and can be requeued', async () => {
+    await store.deadLetter('a-1', 'poison message');
+    expect((await store.getUnpublished(10)).map((m) => m.id)).toEqual(['a-2', 'b-1']);
+    const [dead] = await store.getDeadLettered(10);
+    expect(dead).toMatchObject({ id: 'a-1', error: 'poison message' });
+
+    await store.requeue('a-1');
+    expect(await store.getDeadLettered(10)).toEqual([]);
+    expect(store.getAll()[0]).toMatchObject({ attempts: 0 });
+    expect(store.getAll()[0]).not.toHaveProperty('error');
+  });
+});
+
+// ─── OutboxEventWriter ─────────────────────────────────────────────────────────
+
+class OrderPlaced extends DomainEvent {
+  static override readonly eventType = 'orders.order-placed';
+
+  constructor(readonly orderId: string) {
+    super();
+  }
+}
+
+describe('OutboxEventWriter', () => {
+  const serializer = new EventEnvelopeSerializer(
+    new DomainEventRegistry().register(OrderPlaced, {
+      fromPayload: (p) => new OrderPlaced(p['orderId'] as string),
+    }),
+  );
+
+  it('saves one unpublished message per event through the transaction-bound store', async () => {
+    const store = new InMemoryOutboxStore();
+    const storeFor = vi.fn().mockReturnValue(store);
+    const writer = new OutboxEventWriter<string>(storeFor, serializer);
+    const event = new OrderPlaced('o-1');
+
+    await writer.write([event], 'tx-1');
+
+    expect(storeFor).toHaveBeenCalledWith('tx-1');
+    const [message] = store.getAll();
+    expect(message?.id).toBe(event.eventId);
+    expect(message?.attempts).toBe(0);
+    expect(message?.publishedAt).toBeUndefined();
+    expect(message?.eventEnvelope).toMatchObject({
+      eventId: event.eventId,
+      eventType: 'orders.order-placed',
+      payload: { orderId: 'o-1' },
+    });
+  });
+
+  it('adds envelope metadata from the options', async () => {
+    const store = new InMemoryOutboxStore();
+    const writer = new OutboxEventWriter(() => store, serializer, {
+      metadata: () => ({ source: 'orders-service' }),
+    });
+
+    await writer.write([new OrderPlaced('o-1')], undefined);
+
+    expect(store.getAll()[0]?.eventEnvelope.metadata).toEqual({ source: 'orders-service' });
+  });
+
+  it('sets the partition key and keeps the events of a write in order', async () => {
+    const store = new InMemoryOutboxStore();
+    const writer = new OutboxEventWriter(() => store, serializer, {
+      partitionKey: (event) => (event as OrderPlaced).orderId,
+    });
+
+    await writer.write([new OrderPlaced('o-1'), new OrderPlaced('o-1')], undefined);
+
+    const [first, second] = store.getAll();
+    expect(first?.partitionKey).toBe('o-1');
+    expect(first!.createdAt.getTime()).toBeLessThan(second!.createdAt.getTime());
+  });
+
+  it('does not touch the store when there are no events', async () => {
+    const storeFor = vi.fn();
+    await new OutboxEventWriter(storeFor, serializer).write([], undefined);
+    expect(storeFor).not.toHaveBeenCalled();
+  });
+});
+
 // ─── InMemoryInboxStore ────────────────────────────────────────────────────────
 
 describe('InMemoryInboxStore', () => {
@@ -237,3 +355,76 @@ describe('OutboxRelay', () => {
     expect(relay.isHealthy()).toBe(false);
   });
 });
+
+describe('OutboxRelay with several instances', () => {
+  let outboxStore: InMemoryOutboxStore;
+  let publisher: EventPublisherPort;
+
+  beforeEach(() => {
+    outboxStore = new InMemoryOutboxStore();
+    publisher = makePublisher();
+  });
+
+  it('two relays running concurrently publish each message once', async () => {
+    for (let i = 0; i < 4; i++) await outboxStore.save(makeOutboxMessage({ id: `m-${i}` }));
+    const relays = ['relay-1', 'relay-2'].map(
+      (owner) => new OutboxRelay(outboxStore, publisher, { owner, batchSize: 2 }),
+    );
+
+    await Promise.all(relays.map((relay) => relay.runOnce()));
+    await Promise.all(relays.map((relay) => relay.runOnce()));
+
+    expect(publisher.publish).toHaveBeenCalledTimes(4);
+  });
+
+  it('a failure holds back the rest of its partition only', async () => {
+    vi.mocked(publisher.publish).mockImplementation(async (envelope: EventEnvelope) => {
+      if (envelope.eventId === 'a-1') throw new Error('broker down');
+    });
+    await outboxStore.save(
+      makeOutboxMessage({ id: 'a-1', eventEnvelope: makeEnvelope('a-1'), partitionKey: 'a' }),
+    );
+    await outboxStore.save(
+      makeOutboxMessage({ id: 'a-2', eventEnvelope: makeEnvelope('a-2'), partitionKey: 'a' }),
+    );
+    await outboxStore.save(
+      makeOutboxMessage({ id: 'b-1', eventEnvelope: makeEnvelope('b-1'), partitionKey: 'b' }),
+    );
+    const relay = new OutboxRelay(outboxStore, publisher, { owner: 'relay-1' });
+
+    await relay.runOnce();
+
+    const published = vi.mocked(publisher.publish).mock.calls.map(([e]) => e.eventId);
+    expect(published.sort()).toEqual(['a-1', 'b-1']);
+    expect((await outboxStore.getUnpublished(10)).map((m) => m.id)).toEqual(['a-1', 'a-2']);
+    expect(outboxStore.getAll().every((m) => m.lockedBy === undefined)).toBe(true);
+    expect(relay.isHealthy()).toBe(false);
+  });
+
+  it('moves messages over maxAttempts to the dead-letter queue', async () => {
+    await outboxStore.save(makeOutboxMessage({ id: 'poison', attempts: 5 }));
+    const relay = new OutboxRelay(outboxStore, publisher);
+
+    await relay.runOnce();
+
+    expect(publisher.publish).not.toHaveBeenCalled();
+    expect((await outboxStore.getDeadLettered(10)).map((m) => m.id)).toEqual(['poison']);
+  });
+
+  it('push mode publishes as soon as the store signals new messages', async () => {
+    const relay = new OutboxRelay(outboxStore, publisher, {
+      notifier: outboxStore,
+      pollIntervalMs: 60_000,
+    });
+    relay.start();
+
+    await outboxStore.save(makeOutboxMessage({ id: 'm-1' }));
+    await outboxStore.save(makeOutboxMessage({ id: 'm-2' }));
+    await vi.waitFor(() => expect(publisher.publish).toHaveBeenCalledTimes(2));
+
+    relay.stop();
+    await outboxStore.save(makeOutboxMessage({ id: 'm-3' }));
+    await relay.runOnce();
+    expect(publisher.publish).toHaveBeenCalledTimes(3);
+  });
+});
@@ -1,43 +1,42 @@
-import type { OutboxMessage, OutboxStorePort } from './OutboxStorePort';
+import type {
+  OutboxChangeNotifier,
+  OutboxClaimRequest,
+  OutboxMessage,
+  OutboxStorePort,
+} from './OutboxStorePort';
+import { claimInOrder, isLeasedToOther } from './claimInOrder';
 
 /**
  * In-memory implementation of {@link OutboxStorePort}.
  * Intended for testing and single-process environments.
  */
-export class InMemoryOutboxStore implements OutboxStorePort {
+export class InMemoryOutboxStore implements OutboxStorePort, OutboxChangeNotifier {
   private readonly messages = new Map<string, OutboxMessage>();
+  private readonly listeners = new Set<() => void>();
 
   save(message: OutboxMessage): Promise<void> {
     this.messages.set(message.id, message);
+    for (const listener of this.listeners) listener();
     return Promise.resolve();
   }
 
   getUnpublished(limit: number): Promise<OutboxMessage[]> {
-    const result: OutboxMessage[] = [];
-
-    for (const msg of this.messages.values()) {
-      if (msg.publishedAt === undefined) {
-        result.push(msg);
-        if (result.length >= limit) break;
-      }
-    }
-
-    return Promise.resolve(result);
+    return Promise.resolve(this.pending().slice(0, limit));
   }
 
   markAsPublished(id: string): Promise<void> {
     const msg = this.messages.get(id);
     if (msg !== undefined) {
+      const now = new Date();
       // Destructure out `error` so it's absent (exactOptionalPropertyTypes disallows error: undefined)
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { error: _ignored, ...base } = msg;
-      const updated: OutboxMessage = {
+      const { error: _ignored, ...base } = withoutLease(msg);
+      this.messages.set(id, {
         ...base,
-        publishedAt: new Date(),
+        publishedAt: now,
         attempts: msg.attempts + 1,
-        lastAttemptAt: new Date(),
-      };
-      this.messages.set(id, updated);
+        lastAttemptAt: now,
+      });
     }
     return Promise.resolve();
   }
@@ -46,7 +45,7 @@ export class InMemoryOutboxStore implements OutboxStorePort {
     const msg = this.messages.get(id);
     if (msg !== undefined) {
       this.messages.set(id, {
-        ...msg,
+        ...withoutLease(msg),
         attempts: msg.attempts + 1,
         lastAttemptAt: new Date(),
         error,
@@ -55,6 +54,62 @@ export class InMemoryOutboxStore implements OutboxStorePort {
     return Promise.resolve();
   }
 
+  claimBatch(request: OutboxClaimRequest): Promise<OutboxMessage[]> {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + request.leaseMs);
+    return claimInOrder(this.pending(), request, lockedUntil, (message) => {
+      // Re-read: a concurrent claim may have changed the message since the scan.
+      const current = this.messages.get(message.id);
+      if (
+        current === undefined ||
+        !isPending(current) ||
+        isLeasedToOther(current, request.owner, now)
+      ) {
+        return Promise.resolve(false);
+      }
+      this.messages.set(message.id, { ...current, lockedBy: request.owner, lockedUntil });
+      return Promise.resolve(true);
+    });
+  }
+
+  release(ids: readonly string[], owner: string): Promise<void> {
+    for (const id of ids) {
+      const msg = this.messages.get(id);
+      if (msg?.lockedBy === owner) this.messages.set(id, withoutLease(msg));
+    }
+    return Promise.resolve();
+  }
+
+  deadLetter(id: string, reason: string): Promise<void> {
+    const msg = this.messages.get(id);
+    if (msg !== undefined) {
+      this.messages.set(id, { ...withoutLease(msg), error: reason, deadLetteredAt: new Date() });
+    }
+    return Promise.resolve();
+  }
+
+  getDeadLettered(limit: number): Promise<OutboxMessage[]> {
+    const dead = Array.from(this.messages.values()).filter((m) => m.deadLetteredAt !== undefined);
+    return Promise.resolve(dead.slice(0, limit));
+  }
+
+  requeue(id: string): Promise<void> {
+    const msg = this.messages.get(id);
+    if (msg?.deadLetteredAt !== undefined) {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { deadLetteredAt: _dead, lastAttemptAt: _last, error: _error, ...rest } = msg;
+      this.messages.set(id, { ...rest, attempts: 0 });
+    }
+    return Promise.resolve();
+  }
+
+  onMessagesSaved(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
   /** Returns all messages (for inspection in tests). */
   getAll(): OutboxMessage[] {
     return Array.from(this.messages.values());
@@ -64,4 +119,26 @@ export class InMemoryOutboxStore implements OutboxStorePort {
   size(): number {
     return this.messages.size;
   }
+
+  /** Removes all messages. */
+  clear(): void {
+    this.messages.clear();
+  }
+
+  private pending(): OutboxMessage[] {
+    return Array.from(this.messages.values())
+      .filter(isPending)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+}
+
+function isPending(message: OutboxMessage): boolean {
+  return message.publishedAt === undefined && message.deadLetteredAt === undefined;
+}
+
+/** Copy of the message without its lease fields. */
+function withoutLease(message: OutboxMessage): OutboxMessage {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { lockedBy: _owner, lockedUntil: _until, ...rest } = message;
+  return rest;
 }
@@ -0,0 +1,56 @@
+import type { DomainEvent } from '@marcusprado02/kernel';
+import type { EventEnvelopeSerializer } from '@marcusprado02/messaging';
+import type { OutboxStorePort } from './OutboxStorePort';
+
+export interface OutboxEventWriterOptions {
+  /** Extra envelope metadata for an event (e.g. the producing service). */
+  metadata?: (event: DomainEvent) => Record<string, unknown> | undefined;
+  /**
+   * Partition key of an event's message — usually its aggregate id — so the
+   * relay publishes the events of one aggregate in order.
+   */
+  partitionKey?: (event: DomainEvent) => string | undefined;
+}
+
+/**
+ * Turns domain events into {@link OutboxMessage}s and saves them through an
+ * outbox store bound to the caller's transaction, so they commit or roll
+ * back together with the aggregate change.
+ *
+ * It satisfies the `TransactionalEventSink` accepted by the Prisma, TypeORM
+ * and MongoDB units of work of `@marcusprado02/persistence-*`.
+ *
+ * @example
+ * ```ts
+ * const writer = new OutboxEventWriter(
+ *   (tx: PrismaClientLike) => new PrismaOutboxStore((tx as PrismaClient).outboxMessage),
+ *   new EventEnvelopeSerializer(registry),
+ * );
+ * const unitOfWork = new PrismaUnitOfWork(prisma, { events: writer });
+ * ```
+ */
+export class OutboxEventWriter<TTransaction> {
+  constructor(
+    private readonly storeFor: (transaction: TTransaction) => OutboxStorePort,
+    private readonly serializer: Pick<EventEnvelopeSerializer, 'toEnvelope'>,
+    private readonly options: OutboxEventWriterOptions = {},
+  ) {}
+
+  async write(events: readonly DomainEvent[], transaction: TTransaction): Promise<void> {
+    if (events.length === 0) return;
+    const store = this.storeFor(transaction);
+    const now = Date.now();
+    for (const [index, event] of events.entries()) {
+      const eventEnvelope = this.serializer.toEnvelope(event, this.options.metadata?.(event));
+      const partitionKey = this.options.partitionKey?.(event);
+      await store.save({
+        id: eventEnvelope.eventId,
+        eventEnvelope,
+        // Stores order by `createdAt`; distinct timestamps keep the events of a write in order.
+        createdAt: new Date(now + index),
+        attempts: 0,
+        ...(partitionKey !== undefined && { partitionKey }),
+      });
+    }
+  }
+}
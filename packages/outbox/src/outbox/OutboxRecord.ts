@@ -0,0 +1,56 @@
+import type { EventEnvelope } from '@marcusprado02/messaging';
+import type { OutboxMessage } from './OutboxStorePort';
+
+/**
+ * Row (or document) layout shared by the database outbox stores. Optional
+ * message fields are stored as `null`.
+ */
+export interface OutboxRecord {
+  readonly id: string;
+  readonly eventType: string;
+  readonly envelope: EventEnvelope;
+  readonly createdAt: Date;
+  readonly publishedAt: Date | null;
+  readonly attempts: number;
+  readonly lastAttemptAt: Date | null;
+  readonly error: string | null;
+  readonly partitionKey: string | null;
+  readonly lockedBy: string | null;
+  readonly lockedUntil: Date | null;
+  readonly deadLetteredAt: Date | null;
+}
+
+export function toOutboxRecord(message: OutboxMessage): OutboxRecord {
+  return {
+    id: message.id,
+    eventType: message.eventEnvelope.eventType,
+    envelope: message.eventEnvelope,
+    createdAt: message.createdAt,
+    publishedAt: message.publishedAt ?? null,
+    attempts: message.attempts,
+    lastAttemptAt: message.lastAttemptAt ?? null,
+    error: message.error ?? null,
+    partitionKey: message.partitionKey ?? null,
+    lockedBy: message.lockedBy ?? null,
+    lockedUntil: message.lockedUntil ?? null,
+    deadLetteredAt: message.deadLetteredAt ?? null,
+  };
+}
+
+export function fromOutboxRecord(record: Record<string, unknown>): OutboxMessage {
+  const { publishedAt, lastAttemptAt, error, partitionKey, lockedBy, lockedUntil, deadLetteredAt } =
+    record;
+  return {
+    id: record['id'] as string,
+    eventEnvelope: record['envelope'] as EventEnvelope,
+    createdAt: record['createdAt'] as Date,
+    attempts: record['attempts'] as number,
+    ...(publishedAt instanceof Date && { publishedAt }),
+    ...(lastAttemptAt instanceof Date && { lastAttemptAt }),
+    ...(typeof error === 'string' && { error }),
+    ...(typeof partitionKey === 'string' && { partitionKey }),
+    ...(typeof lockedBy === 'string' && { lockedBy }),
+    ...(lockedUntil instanceof Date && { lockedUntil }),
+    ...(deadLetteredAt instanceof Date && { deadLetteredAt }),
+  };
+}
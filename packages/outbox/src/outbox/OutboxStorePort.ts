@@ -8,11 +8,58 @@ export interface OutboxMessage {
   readonly attempts: number;
   readonly lastAttemptAt?: Date;
   readonly error?: string;
+  /**
+   * Messages sharing a key (typically the aggregate id) are published in
+   * `createdAt` order. Messages without one are not ordered.
+   */
+  readonly partitionKey?: string;
+  /** Relay instance currently holding the message's lease. */
+  readonly lockedBy?: string;
+  /** When the lease expires and other instances may claim the message. */
+  readonly lockedUntil?: Date;
+  /** Set once the message has been moved to the dead-letter queue. */
+  readonly deadLetteredAt?: Date;
+}
+
+export interface OutboxClaimRequest {
+  /** Identifies the relay instance claiming the messages. */
+  readonly owner: string;
+  /** Maximum number of messages to claim. */
+  readonly limit: number;
+  /** How long the claimed messages stay reserved for `owner` (ms). */
+  readonly leaseMs: number;
 }
 
 export interface OutboxStorePort {
   save(message: OutboxMessage): Promise<void>;
   getUnpublished(limit: number): Promise<OutboxMessage[]>;
+  /** Marks the message published and releases its lease. */
   markAsPublished(id: string): Promise<void>;
+  /** Records a failed attempt and releases the lease. */
   markAsFailed(id: string, error: string): Promise<void>;
+  /**
+   * Leases up to `limit` pending messages to `owner`, oldest first. A
+   * message is only claimed when no earlier pending message of its partition
+   * is leased to another owner, so each partition is relayed by one instance
+   * at a time. Messages whose lease expired can be claimed again.
+   */
+  claimBatch(request: OutboxClaimRequest): Promise<OutboxMessage[]>;
+  /** Gives up `owner`'s lease on messages it claimed but did not process. */
+  release(ids: readonly string[], owner: string): Promise<void>;
+  /** Moves the message to the dead-letter queue; it is no longer claimed. */
+  deadLetter(id: string, reason: string): Promise<void>;
+  /** Dead-lettered messages, oldest first. */
+  getDeadLettered(limit: number): Promise<OutboxMessage[]>;
+  /** Puts a dead-lettered message back in the queue with its attempts reset. */
+  requeue(id: string): Promise<void>;
+}
+
+/**
+ * Optional capability of a store that can signal new messages (e.g. via
+ * Postgres `LISTEN/NOTIFY` or MongoDB change streams), letting
+ * {@link OutboxRelay} publish on write instead of waiting for the next poll.
+ */
+export interface OutboxChangeNotifier {
+  /** Registers `listener` to be called after messages are saved; returns an unsubscribe function. */
+  onMessagesSaved(listener: () => void): () => void;
 }
@@ -0,0 +1,44 @@
+import type { OutboxClaimRequest, OutboxMessage } from './OutboxStorePort';
+
+/**
+ * Database stores read this many times the claim limit of pending messages,
+ * so messages leased to other instances do not starve the claim.
+ */
+export const CLAIM_SCAN_FACTOR = 4;
+
+/** `true` when the message is leased to someone other than `owner` at `now`. */
+export function isLeasedToOther(message: OutboxMessage, owner: string, now: Date): boolean {
+  return (
+    message.lockedBy !== undefined &&
+    message.lockedBy !== owner &&
+    message.lockedUntil !== undefined &&
+    message.lockedUntil > now
+  );
+}
+
+/**
+ * Claims messages from `pending` (sorted by `createdAt`) one by one through
+ * `tryClaim`, which must atomically lease a message unless another owner
+ * holds it. Once a partition has a message that could not be claimed, its
+ * later messages are skipped to preserve their order.
+ */
+export async function claimInOrder(
+  pending: readonly OutboxMessage[],
+  request: OutboxClaimRequest,
+  lockedUntil: Date,
+  tryClaim: (message: OutboxMessage) => Promise<boolean>,
+): Promise<OutboxMessage[]> {
+  const blocked = new Set<string>();
+  const claimed: OutboxMessage[] = [];
+  for (const message of pending) {
+    if (claimed.length >= request.limit) break;
+    const key = message.partitionKey;
+    if (key !== undefined && blocked.has(key)) continue;
+    if (await tryClaim(message)) {
+      claimed.push({ ...message, lockedBy: request.owner, lockedUntil });
+    } else if (key !== undefined) {
+      blocked.add(key);
+    }
+  }
+  return claimed;
+}
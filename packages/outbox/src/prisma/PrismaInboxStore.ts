@@ -0,0 +1,45 @@
+import type { InboxMessage, InboxStorePort } from '../inbox/InboxStorePort';
+import { toInboxRecord } from '../inbox/InboxRecord';
+
+/** Subset of a Prisma model delegate used by the inbox store. */
+export interface PrismaInboxDelegateLike {
+  create(args: { data: Record<string, unknown> }): Promise<unknown>;
+  count(args: { where: Record<string, unknown> }): Promise<number>;
+  updateMany(args: {
+    where: Record<string, unknown>;
+    data: Record<string, unknown>;
+  }): Promise<unknown>;
+}
+
+/**
+ * {@link InboxStorePort} backed by a Prisma model:
+ *
+ * ```prisma
+ * model InboxMessage {
+ *   id          String    @id
+ *   eventId     String    @unique
+ *   eventType   String
+ *   envelope    Json
+ *   receivedAt  DateTime
+ *   processedAt DateTime?
+ * }
+ * ```
+ *
+ * Saving an event id twice fails on the unique index; run `save` and the
+ * handler's writes in one transaction to process each event exactly once.
+ */
+export class PrismaInboxStore implements InboxStorePort {
+  constructor(private readonly model: PrismaInboxDelegateLike) {}
+
+  async isDuplicate(eventId: string): Promise<boolean> {
+    return (await this.model.count({ where: { eventId } })) > 0;
+  }
+
+  async save(message: InboxMessage): Promise<void> {
+    await this.model.create({ data: { ...toInboxRecord(message) } });
+  }
+
+  async markAsProcessed(id: string): Promise<void> {
+    await this.model.updateMany({ where: { id }, data: { processedAt: new Date() } });
+  }
+}
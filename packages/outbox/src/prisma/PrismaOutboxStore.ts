@@ -0,0 +1,127 @@
+import type { OutboxClaimRequest, OutboxMessage, OutboxStorePort } from '../outbox/OutboxStorePort';
+import { fromOutboxRecord, toOutboxRecord } from '../outbox/OutboxRecord';
+import { CLAIM_SCAN_FACTOR, claimInOrder } from '../outbox/claimInOrder';
+
+/**
+ * Subset of a Prisma model delegate used by the outbox store. Pass the
+ * delegate of the transaction client (`tx.outboxMessage`) to write in the
+ * same transaction as the aggregate.
+ */
+export interface PrismaOutboxDelegateLike {
+  create(args: { data: Record<string, unknown> }): Promise<unknown>;
+  findMany(args: {
+    where: Record<string, unknown>;
+    orderBy: Record<string, 'asc' | 'desc'>;
+    take: number;
+  }): Promise<Record<string, unknown>[]>;
+  updateMany(args: {
+    where: Record<string, unknown>;
+    data: Record<string, unknown>;
+  }): Promise<{ count: number }>;
+}
+
+const PENDING = { publishedAt: null, deadLetteredAt: null };
+const NO_LEASE = { lockedBy: null, lockedUntil: null };
+
+/**
+ * {@link OutboxStorePort} backed by a Prisma model:
+ *
+ * ```prisma
+ * model OutboxMessage {
+ *   id             String    @id
+ *   eventType      String
+ *   envelope       Json
+ *   createdAt      DateTime
+ *   publishedAt    DateTime?
+ *   attempts       Int       @default(0)
+ *   lastAttemptAt  DateTime?
+ *   error          String?
+ *   partitionKey   String?
+ *   lockedBy       String?
+ *   lockedUntil    DateTime?
+ *   deadLetteredAt DateTime?
+ *
+ *   @@index([publishedAt, deadLetteredAt, createdAt])
+ * }
+ * ```
+ *
+ * Messages are claimed with one conditional `updateMany` each, so two
+ * instances never hold the same lease.
+ */
+export class PrismaOutboxStore implements OutboxStorePort {
+  constructor(private readonly model: PrismaOutboxDelegateLike) {}
+
+  async save(message: OutboxMessage): Promise<void> {
+    await this.model.create({ data: { ...toOutboxRecord(message) } });
+  }
+
+  async getUnpublished(limit: number): Promise<OutboxMessage[]> {
+    return this.find(PENDING, limit);
+  }
+
+  async markAsPublished(id: string): Promise<void> {
+    const now = new Date();
+    await this.model.updateMany({
+      where: { id },
+      data: {
+        publishedAt: now,
+        lastAttemptAt: now,
+        attempts: { increment: 1 },
+        error: null,
+        ...NO_LEASE,
+      },
+    });
+  }
+
+  async markAsFailed(id: string, error: string): Promise<void> {
+    await this.model.updateMany({
+      where: { id },
+      data: { lastAttemptAt: new Date(), attempts: { increment: 1 }, error, ...NO_LEASE },
+    });
+  }
+
+  async claimBatch(request: OutboxClaimRequest): Promise<OutboxMessage[]> {
+    const { owner, limit, leaseMs } = request;
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + leaseMs);
+    const pending = await this.find(PENDING, limit * CLAIM_SCAN_FACTOR);
+    return claimInOrder(pending, request, lockedUntil, async (message) => {
+      const { count } = await this.model.updateMany({
+        where: {
+          id: message.id,
+          ...PENDING,
+          OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }, { lockedBy: owner }],
+        },
+        data: { lockedBy: owner, lockedUntil },
+      });
+      return count === 1;
+    });
+  }
+
+  async release(ids: readonly string[], owner: string): Promise<void> {
+    await this.model.updateMany({ where: { id: { in: ids }, lockedBy: owner }, data: NO_LEASE });
+  }
+
+  async deadLetter(id: string, reason: string): Promise<void> {
+    await this.model.updateMany({
+      where: { id },
+      data: { error: reason, deadLetteredAt: new Date(), ...NO_LEASE },
+    });
+  }
+
+  async getDeadLettered(limit: number): Promise<OutboxMessage[]> {
+    return this.find({ deadLetteredAt: { not: null } }, limit);
+  }
+
+  async requeue(id: string): Promise<void> {
+    await this.model.updateMany({
+      where: { id, deadLetteredAt: { not: null } },
+      data: { deadLetteredAt: null, attempts: 0, error: null, lastAttemptAt: null },
+    });
+  }
+
+  private async find(where: Record<string, unknown>, take: number): Promise<OutboxMessage[]> {
+    const records = await this.model.findMany({ where, orderBy: { createdAt: 'asc' }, take });
+    return records.map(fromOutboxRecord);
+  }
+}
@@ -0,0 +1,159 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+/* eslint-disable @typescript-eslint/require-await */
+import { describe, it, expect } from 'vitest';
+import type { EventEnvelope } from '@marcusprado02/messaging';
+import type { OutboxMessage } from '../outbox/OutboxStorePort';
+import { PrismaOutboxStore } from './PrismaOutboxStore';
+import type { PrismaOutboxDelegateLike } from './PrismaOutboxStore';
+import { PrismaInboxStore } from './PrismaInboxStore';
+import type { PrismaInboxDelegateLike } from './PrismaInboxStore';
+
+const envelope = (eventId: string): EventEnvelope => ({
+  eventId,
+  eventType: 'orders.order-placed',
+  eventVersion: '1.0',
+  timestamp: new Date().toISOString(),
+  payload: { orderId: 'o-1' },
+});
+
+const message = (id: string, at: number, partitionKey?: string): OutboxMessage => ({
+  id,
+  eventEnvelope: envelope(id),
+  createdAt: new Date(at),
+  attempts: 0,
+  ...(partitionKey !== undefined && { partitionKey }),
+});
+
+type Row = Record<string, unknown>;
+
+/** Evaluates the subset of Prisma filters the stores use. */
+function matches(row: Row, where: Row): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'OR') return (condition as Row[]).some((branch) => matches(row, branch));
+    const value = row[key];
+    if (condition === null || typeof condition !== 'object') return value === condition;
+    const { lte, not, in: within } = condition as { lte?: Date; not?: null; in?: unknown[] };
+    if (lte !== undefined) return value instanceof Date && value <= lte;
+    if (within !== undefined) return within.includes(value);
+    return not === null ? value !== null : true;
+  });
+}
+
+/** Applies Prisma `data`, including `{ increment }` updates, to a row. */
+function applyData(row: Row, data: Row): void {
+  for (const [key, value] of Object.entries(data)) {
+    const increment = (value as { increment?: number } | null)?.increment;
+    row[key] = increment === undefined ? value : (row[key] as number) + increment;
+  }
+}
+
+function fakeDelegate(rows: Row[]): PrismaOutboxDelegateLike & PrismaInboxDelegateLike {
+  return {
+    create: async ({ data }) => rows.push({ ...data }),
+    findMany: async ({ where, take }) =>
+      rows
+        .filter((row) => matches(row, where))
+        .sort((a, b) => (a['createdAt'] as Date).getTime() - (b['createdAt'] as Date).getTime())
+        .slice(0, take)
+        .map((row) => ({ ...row })),
+    count: async ({ where }) => rows.filter((row) => matches(row, where)).length,
+    updateMany: async ({ where, data }) => {
+      const matched = rows.filter((row) => matches(row, where));
+      matched.forEach((row) => applyData(row, data));
+      return { count: matched.length };
+    },
+  };
+}
+
+describe('PrismaOutboxStore', () => {
+  it('stores messages as rows and returns the unpublished ones oldest first', async () => {
+    const rows: Row[] = [];
+    const store = new PrismaOutboxStore(fakeDelegate(rows));
+    await store.save(message('m-2', 2000));
+    await store.save(message('m-1', 1000));
+
+    expect(rows[0]).toMatchObject({ id: 'm-2', eventType: 'orders.order-placed', error: null });
+    const unpublished = await store.getUnpublished(10);
+    expect(unpublished.map((m) => m.id)).toEqual(['m-1', 'm-2']);
+    expect(unpublished[0]).not.toHaveProperty('publishedAt');
+    expect(unpublished[0]?.eventEnvelope.eventId).toBe('m-1');
+  });
+
+  it('records failures and publication', async () => {
+    const rows: Row[] = [];
+    const store = new PrismaOutboxStore(fakeDelegate(rows));
+    await store.save(message('m-1', 1000));
+
+    await store.markAsFailed('m-1', 'broker down');
+    expect((await store.getUnpublished(10))[0]).toMatchObject({
+      attempts: 1,
+      error: 'broker down',
+    });
+
+    await store.markAsPublished('m-1');
+    expect(rows[0]).toMatchObject({ attempts: 2, error: null });
+    expect(rows[0]?.['publishedAt']).toBeInstanceOf(Date);
+    expect(await store.getUnpublished(10)).toHaveLength(0);
+  });
+
+  it('leases messages to one owner and holds back later messages of a leased partition', async () => {
+    const rows: Row[] = [];
+    const store = new PrismaOutboxStore(fakeDelegate(rows));
+    await store.save(message('a-1', 1, 'order-a'));
+    await store.save(message('b-1', 2, 'order-b'));
+    await store.save(message('a-2', 3, 'order-a'));
+
+    const first = await store.claimBatch({ owner: 'relay-1', limit: 1, leaseMs: 60_000 });
+    const second = await store.claimBatch({ owner: 'relay-2', limit: 10, leaseMs: 60_000 });
+
+    expect(first.map((m) => m.id)).toEqual(['a-1']);
+    expect(first[0]).toMatchObject({ lockedBy: 'relay-1' });
+    expect(second.map((m) => m.id)).toEqual(['b-1']);
+
+    await store.release(['a-1'], 'relay-1');
+    const third = await store.claimBatch({ owner: 'relay-2', limit: 10, leaseMs: 60_000 });
+    expect(third.map((m) => m.id)).toEqual(['a-1', 'b-1', 'a-2']);
+  });
+
+  it('lets another owner claim a message whose lease expired', async () => {
+    const rows: Row[] = [];
+    const store = new PrismaOutboxStore(fakeDelegate(rows));
+    await store.save(message('m-1', 1));
+    await store.claimBatch({ owner: 'relay-1', limit: 10, leaseMs: -1 });
+
+    const claimed = await store.claimBatch({ owner: 'relay-2', limit: 10, leaseMs: 60_000 });
+
+    expect(claimed.map((m) => m.lockedBy)).toEqual(['relay-2']);
+  });
+
+  it('dead-letters, lists and requeues messages', async () => {
+    const rows: Row[] = [];
+    const store = new PrismaOutboxStore(fakeDelegate(rows));
+    await store.save({ ...message('m-1', 1), attempts: 5 });
+
+    await store.deadLetter('m-1', 'max attempts exceeded');
+    expect(await store.claimBatch({ owner: 'relay-1', limit: 10, leaseMs: 1000 })).toEqual([]);
+    const [dead] = await store.getDeadLettered(10);
+    expect(dead).toMatchObject({ id: 'm-1', error: 'max attempts exceeded' });
+    expect(dead?.deadLetteredAt).toBeInstanceOf(Date);
+
+    await store.requeue('m-1');
+    expect(await store.getDeadLettered(10)).toEqual([]);
+    expect((await store.getUnpublished(10))[0]).toMatchObject({ id: 'm-1', attempts: 0 });
+  });
+});
+
+describe('PrismaInboxStore', () => {
+  it('detects duplicates by event id and marks messages processed', async () => {
+    const rows: Row[] = [];
+    const store = new PrismaInboxStore(fakeDelegate(rows));
+    await store.save({ id: 'in-1', eventEnvelope: envelope('evt-1'), receivedAt: new Date() });
+
+    expect(await store.isDuplicate('evt-1')).toBe(true);
+    expect(await store.isDuplicate('evt-2')).toBe(false);
+
+    await store.markAsProcessed('in-1');
+    expect(rows[0]).toMatchObject({ eventId: 'evt-1' });
+    expect(rows[0]?.['processedAt']).toBeInstanceOf(Date);
+  });
+});
@@ -1,6 +1,10 @@
 import type { EventPublisherPort } from '@marcusprado02/messaging';
 
-import type { OutboxStorePort } from '../outbox/OutboxStorePort';
+import type {
+  OutboxChangeNotifier,
+  OutboxMessage,
+  OutboxStorePort,
+} from '../outbox/OutboxStorePort';
 import type { OutboxRelayMetrics } from './OutboxRelayMetrics';
 
 export interface OutboxRelayOptions {
@@ -12,79 +16,95 @@ export interface OutboxRelayOptions {
   maxAttempts?: number;
   /** Base delay (ms) for exponential back-off between retries. Default: 1000. */
   backoffBaseMs?: number;
+  /** Name this instance claims messages under. Default: a random UUID. */
+  owner?: string;
+  /**
+   * How long claimed messages stay reserved for this instance (ms). Should
+   * comfortably exceed the time to publish a batch. Default: 30000.
+   */
+  leaseMs?: number;
+  /**
+   * Push mode: relay as soon as the notifier signals new messages. Polling
+   * continues as a fallback for retries and expired leases, so
+   * `pollIntervalMs` can be raised.
+   */
+  notifier?: OutboxChangeNotifier;
 }
 
-const DEFAULT_OPTIONS: Required<OutboxRelayOptions> = {
+const DEFAULT_OPTIONS: Required<Omit<OutboxRelayOptions, 'owner' | 'notifier'>> = {
   pollIntervalMs: 1000,
   batchSize: 100,
   maxAttempts: 5,
   backoffBaseMs: 1000,
+  leaseMs: 30_000,
 };
 
 /**
- * Polls an {@link OutboxStorePort} and publishes pending messages via an
+ * Publishes pending messages of an {@link OutboxStorePort} via an
  * {@link EventPublisherPort}.  Supports exponential back-off, DLQ thresholding,
  * and optional metrics collection.
+ *
+ * Safe to run on several instances: each cycle leases a batch with
+ * `claimBatch`, so a message is relayed by one instance at a time (delivery
+ * stays at-least-once if a lease expires mid-publish). Messages of one
+ * partition are published in order — a failure or pending back-off holds
+ * back the rest of its partition — while partitions are published in
+ * parallel. A dead-lettered message no longer blocks its partition.
+ *
+ * @example
+ * ```ts
+ * const relay = new OutboxRelay(store, publisher, {
+ *   owner: process.env.HOSTNAME,
+ *   notifier: store, // push mode, if the store implements OutboxChangeNotifier
+ *   pollIntervalMs: 10_000,
+ * });
+ * relay.start();
+ * ```
  */
 export class OutboxRelay {
-  private readonly resolvedOptions: Required<OutboxRelayOptions>;
+  private readonly resolvedOptions: Required<Omit<OutboxRelayOptions, 'notifier'>>;
   private intervalHandle: ReturnType<typeof setInterval> | undefined;
+  private unsubscribe: (() => void) | undefined;
+  private running: Promise<void> | undefined;
+  private rerunRequested = false;
   private lastRunHadFailures = false;
 
   constructor(
     private readonly store: OutboxStorePort,
     private readonly publisher: EventPublisherPort,
-    options?: OutboxRelayOptions,
+    private readonly options?: OutboxRelayOptions,
     private readonly metrics?: OutboxRelayMetrics,
   ) {
-    this.resolvedOptions = { ...DEFAULT_OPTIONS, ...options };
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { notifier: _notifier, ...rest } = options ?? {};
+    this.resolvedOptions = { ...DEFAULT_OPTIONS, owner: crypto.randomUUID(), ...rest };
   }
 
   /**
-   * Executes a single poll cycle.  Intended for use in tests or on-demand
-   * triggers; `start()` calls this on a recurring timer.
+   * Executes a single relay cycle.  Intended for use in tests or on-demand
+   * triggers; `start()` calls this on a recurring timer. Calls made while a
+   * cycle is in progress join it.
    */
-  async runOnce(): Promise<void> {
-    const messages = await this.store.getUnpublished(this.resolvedOptions.batchSize);
-    let hadFailures = false;
-
-    for (const msg of messages) {
-      // DLQ: exceeded maximum attempts
-      if (msg.attempts >= this.resolvedOptions.maxAttempts) {
-        await this.store.markAsFailed(msg.id, 'max attempts exceeded');
-        this.metrics?.recordSkipped();
-        continue;
-      }
-
-      // Exponential back-off: skip if not yet eligible for retry
-      if (msg.attempts > 0 && msg.lastAttemptAt !== undefined) {
-        const backoffMs = this.resolvedOptions.backoffBaseMs * 2 ** (msg.attempts - 1);
-        if (Date.now() < msg.lastAttemptAt.getTime() + backoffMs) {
-          continue;
-        }
-      }
-
-      try {
-        await this.publisher.publish(msg.eventEnvelope);
-        await this.store.markAsPublished(msg.id);
-        this.metrics?.recordPublished();
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : String(err);
-        await this.store.markAsFailed(msg.id, errorMessage);
-        this.metrics?.recordFailed();
-        hadFailures = true;
+  runOnce(): Promise<void> {
+    this.running ??= this.relayBatch().finally(() => {
+      this.running = undefined;
+      if (this.rerunRequested) {
+        this.rerunRequested = false;
+        void this.runOnce();
       }
-    }
-
-    this.lastRunHadFailures = hadFailures;
+    });
+    return this.running;
   }
 
-  /** Starts the recurring poll timer. No-op if already running. */
+  /** Starts the recurring poll timer and push notifications. No-op if already running. */
   start(): void {
     if (this.intervalHandle !== undefined) return;
     this.intervalHandle = setInterval(() => {
       void this.runOnce();
     }, this.resolvedOptions.pollIntervalMs);
+    this.unsubscribe = this.options?.notifier?.onMessagesSaved(() => {
+      this.notify();
+    });
   }
 
   /** Stops the recurring poll timer. No-op if not running. */
@@ -92,6 +112,8 @@ export class OutboxRelay {
     if (this.intervalHandle === undefined) return;
     clearInterval(this.intervalHandle);
     this.intervalHandle = undefined;
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
   }
 
   /** Returns `true` if the relay is currently polling. */
@@ -103,4 +125,82 @@ export class OutboxRelay {
   isHealthy(): boolean {
     return !this.lastRunHadFailures;
   }
+
+  /** Runs a cycle now, or right after the one in progress so new messages are not missed. */
+  private notify(): void {
+    if (this.running !== undefined) {
+      this.rerunRequested = true;
+      return;
+    }
+    void this.runOnce();
+  }
+
+  private async relayBatch(): Promise<void> {
+    const { owner, batchSize, leaseMs } = this.resolvedOptions;
+    const messages = await this.store.claimBatch({ owner, limit: batchSize, leaseMs });
+    const failures = await Promise.all(
+      groupByPartition(messages).map((partition) => this.relayPartition(partition)),
+    );
+    this.lastRunHadFailures = failures.some(Boolean);
+  }
+
+  /** Publishes one partition's messages in order; returns `true` if a publish failed. */
+  private async relayPartition(messages: OutboxMessage[]): Promise<boolean> {
+    for (const [index, msg] of messages.entries()) {
+      // DLQ: exceeded maximum attempts
+      if (msg.attempts >= this.resolvedOptions.maxAttempts) {
+        await this.store.deadLetter(msg.id, 'max attempts exceeded');
+        this.metrics?.recordSkipped();
+        continue;
+      }
+
+      // Exponential back-off: hold the partition until the message is eligible for retry
+      if (this.isBackingOff(msg)) {
+        await this.releaseFrom(messages, index);
+        return false;
+      }
+
+      try {
+        await this.publisher.publish(msg.eventEnvelope);
+        await this.store.markAsPublished(msg.id);
+        this.metrics?.recordPublished();
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        await this.store.markAsFailed(msg.id, errorMessage);
+        this.metrics?.recordFailed();
+        await this.releaseFrom(messages, index + 1);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private isBackingOff(msg: OutboxMessage): boolean {
+    if (msg.attempts === 0 || msg.lastAttemptAt === undefined) return false;
+    const backoffMs = this.resolvedOptions.backoffBaseMs * 2 ** (msg.attempts - 1);
+    return Date.now() < msg.lastAttemptAt.getTime() + backoffMs;
+  }
+
+  private async releaseFrom(messages: OutboxMessage[], index: number): Promise<void> {
+    const ids = messages.slice(index).map((msg) => msg.id);
+    if (ids.length > 0) await this.store.release(ids, this.resolvedOptions.owner);
+  }
+}
+
+/** Groups messages by partition key, keeping their order; unkeyed messages stand alone. */
+function groupByPartition(messages: OutboxMessage[]): OutboxMessage[][] {
+  const partitions = new Map<string, OutboxMessage[]>();
+  const groups: OutboxMessage[][] = [];
+  for (const msg of messages) {
+    const key = msg.partitionKey;
+    const group = key === undefined ? undefined : partitions.get(key);
+    if (group !== undefined) {
+      group.push(msg);
+      continue;
+    }
+    const created = [msg];
+    groups.push(created);
+    if (key !== undefined) partitions.set(key, created);
+  }
+  return groups;
 }
@@ -0,0 +1,25 @@
+import type { InboxMessage, InboxStorePort } from '../inbox/InboxStorePort';
+import { toInboxRecord } from '../inbox/InboxRecord';
+import type { TypeORMRepositoryLike } from './TypeORMRepositoryLike';
+
+/**
+ * {@link InboxStorePort} backed by a TypeORM repository whose entity has the
+ * columns of {@link InboxRecord}: `id` (primary), `eventId` (unique),
+ * `eventType`, `envelope` (`simple-json` or `jsonb`), `receivedAt` and
+ * `processedAt` (nullable).
+ */
+export class TypeORMInboxStore implements InboxStorePort {
+  constructor(private readonly repository: TypeORMRepositoryLike) {}
+
+  async isDuplicate(eventId: string): Promise<boolean> {
+    return (await this.repository.count({ where: { eventId } })) > 0;
+  }
+
+  async save(message: InboxMessage): Promise<void> {
+    await this.repository.insert({ ...toInboxRecord(message) });
+  }
+
+  async markAsProcessed(id: string): Promise<void> {
+    await this.repository.update({ id }, { processedAt: new Date() });
+  }
+}
@@ -0,0 +1,112 @@
+import type { OutboxClaimRequest, OutboxMessage, OutboxStorePort } from '../outbox/OutboxStorePort';
+import { fromOutboxRecord, toOutboxRecord } from '../outbox/OutboxRecord';
+import { CLAIM_SCAN_FACTOR, claimInOrder } from '../outbox/claimInOrder';
+import type { TypeORMRepositoryLike } from './TypeORMRepositoryLike';
+
+const PENDING = 'message.publishedAt IS NULL AND message.deadLetteredAt IS NULL';
+const CLAIMABLE = `message.id = :id AND ${PENDING} AND (message.lockedUntil IS NULL OR message.lockedUntil <= :now OR message.lockedBy = :owner)`;
+const NO_LEASE = { lockedBy: null, lockedUntil: null };
+
+/**
+ * {@link OutboxStorePort} backed by a TypeORM repository whose entity has the
+ * columns of {@link OutboxRecord}: `id` (primary), `eventType`, `envelope`
+ * (`simple-json` or `jsonb`), `createdAt`, `attempts`, and the nullable
+ * `publishedAt`, `lastAttemptAt`, `error`, `partitionKey`, `lockedBy`,
+ * `lockedUntil` and `deadLetteredAt`, with an index on
+ * `(publishedAt, deadLetteredAt, createdAt)`.
+ *
+ * Messages are claimed with one conditional `UPDATE` each, so two instances
+ * never hold the same lease.
+ */
+export class TypeORMOutboxStore implements OutboxStorePort {
+  constructor(private readonly repository: TypeORMRepositoryLike) {}
+
+  async save(message: OutboxMessage): Promise<void> {
+    await this.repository.insert({ ...toOutboxRecord(message) });
+  }
+
+  async getUnpublished(limit: number): Promise<OutboxMessage[]> {
+    return this.find(PENDING, limit);
+  }
+
+  async markAsPublished(id: string): Promise<void> {
+    const now = new Date();
+    await this.repository.update(
+      { id },
+      {
+        publishedAt: now,
+        lastAttemptAt: now,
+        attempts: incrementAttempts,
+        error: null,
+        ...NO_LEASE,
+      },
+    );
+  }
+
+  async markAsFailed(id: string, error: string): Promise<void> {
+    await this.repository.update(
+      { id },
+      { lastAttemptAt: new Date(), attempts: incrementAttempts, error, ...NO_LEASE },
+    );
+  }
+
+  async claimBatch(request: OutboxClaimRequest): Promise<OutboxMessage[]> {
+    const { owner, limit, leaseMs } = request;
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + leaseMs);
+    const pending = await this.find(PENDING, limit * CLAIM_SCAN_FACTOR);
+    return claimInOrder(pending, request, lockedUntil, async (message) => {
+      const { affected } = await this.repository
+        .createQueryBuilder('message')
+        .update()
+        .set({ lockedBy: owner, lockedUntil })
+        .where(CLAIMABLE, { id: message.id, now, owner })
+        .execute();
+      return affected === 1;
+    });
+  }
+
+  async release(ids: readonly string[], owner: string): Promise<void> {
+    if (ids.length === 0) return;
+    await this.repository
+      .createQueryBuilder('message')
+      .update()
+      .set(NO_LEASE)
+      .where('message.id IN (:...ids) AND message.lockedBy = :owner', { ids, owner })
+      .execute();
+  }
+
+  async deadLetter(id: string, reason: string): Promise<void> {
+    await this.repository.update(
+      { id },
+      { error: reason, deadLetteredAt: new Date(), ...NO_LEASE },
+    );
+  }
+
+  async getDeadLettered(limit: number): Promise<OutboxMessage[]> {
+    return this.find('message.deadLetteredAt IS NOT NULL', limit);
+  }
+
+  async requeue(id: string): Promise<void> {
+    await this.repository
+      .createQueryBuilder('message')
+      .update()
+      .set({ deadLetteredAt: null, attempts: 0, error: null, lastAttemptAt: null })
+      .where('message.id = :id AND message.deadLetteredAt IS NOT NULL', { id })
+      .execute();
+  }
+
+  private async find(condition: string, limit: number): Promise<OutboxMessage[]> {
+    const records = await this.repository
+      .createQueryBuilder('message')
+      .where(condition)
+      .orderBy('message.createdAt', 'ASC')
+      .limit(limit)
+      .getMany();
+    return records.map(fromOutboxRecord);
+  }
+}
+
+function incrementAttempts(): string {
+  return 'attempts + 1';
+}
@@ -0,0 +1,28 @@
+/**
+ * Structural interfaces for the TypeORM `Repository` used by the outbox and
+ * inbox stores, so the package does not depend on `typeorm`. Pass
+ * `manager.getRepository(OutboxMessageEntity)` from a transaction's
+ * `EntityManager` to write in that transaction.
+ */
+
+export interface TypeORMUpdateQueryBuilderLike {
+  set(values: Record<string, unknown>): TypeORMUpdateQueryBuilderLike;
+  where(condition: string, parameters?: Record<string, unknown>): TypeORMUpdateQueryBuilderLike;
+  execute(): Promise<{ affected?: number | null }>;
+}
+
+export interface TypeORMSelectQueryBuilderLike {
+  where(condition: string, parameters?: Record<string, unknown>): TypeORMSelectQueryBuilderLike;
+  orderBy(sort: string, order: 'ASC' | 'DESC'): TypeORMSelectQueryBuilderLike;
+  limit(limit: number): TypeORMSelectQueryBuilderLike;
+  getMany(): Promise<Record<string, unknown>[]>;
+  update(): TypeORMUpdateQueryBuilderLike;
+}
+
+export interface TypeORMRepositoryLike {
+  insert(entity: Record<string, unknown>): Promise<unknown>;
+  /** Function values are raw SQL expressions (e.g. `() => 'attempts + 1'`). */
+  update(criteria: Record<string, unknown>, partial: Record<string, unknown>): Promise<unknown>;
+  count(options: { where: Record<string, unknown> }): Promise<number>;
+  createQueryBuilder(alias: string): TypeORMSelectQueryBuilderLike;
+}
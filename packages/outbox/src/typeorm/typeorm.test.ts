@@ -0,0 +1,175 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+/* eslint-disable @typescript-eslint/require-await */
+import { describe, it, expect } from 'vitest';
+import type { EventEnvelope } from '@marcusprado02/messaging';
+import type { OutboxMessage } from '../outbox/OutboxStorePort';
+import { TypeORMOutboxStore } from './TypeORMOutboxStore';
+import { TypeORMInboxStore } from './TypeORMInboxStore';
+import type {
+  TypeORMRepositoryLike,
+  TypeORMSelectQueryBuilderLike,
+  TypeORMUpdateQueryBuilderLike,
+} from './TypeORMRepositoryLike';
+
+const envelope = (eventId: string): EventEnvelope => ({
+  eventId,
+  eventType: 'orders.order-placed',
+  eventVersion: '1.0',
+  timestamp: new Date().toISOString(),
+  payload: { orderId: 'o-1' },
+});
+
+const message = (id: string, at: number, partitionKey?: string): OutboxMessage => ({
+  id,
+  eventEnvelope: envelope(id),
+  createdAt: new Date(at),
+  attempts: 0,
+  ...(partitionKey !== undefined && { partitionKey }),
+});
+
+type Row = Record<string, unknown>;
+
+const matches = (row: Row, where: Row) =>
+  Object.entries(where).every(([key, value]) => row[key] === value);
+
+/** Evaluates the SQL conditions the store issues, by their distinctive parts. */
+function evaluate(row: Row, condition: string, params: Row = {}): boolean {
+  const pending = row['publishedAt'] === null && row['deadLetteredAt'] === null;
+  if (condition.includes(':...ids')) {
+    return (
+      (params['ids'] as string[]).includes(row['id'] as string) &&
+      row['lockedBy'] === params['owner']
+    );
+  }
+  if (condition.includes('lockedUntil <= :now')) {
+    const until = row['lockedUntil'] as Date | null;
+    const free =
+      until === null || until <= (params['now'] as Date) || row['lockedBy'] === params['owner'];
+    return row['id'] === params['id'] && pending && free;
+  }
+  if (condition.includes('deadLetteredAt IS NOT NULL')) {
+    return (
+      row['deadLetteredAt'] !== null && (params['id'] === undefined || row['id'] === params['id'])
+    );
+  }
+  return pending;
+}
+
+function applyValues(row: Row, values: Row): void {
+  for (const [key, value] of Object.entries(values)) {
+    row[key] = typeof value === 'function' ? (row[key] as number) + 1 : value;
+  }
+}
+
+function fakeRepository(rows: Row[]): TypeORMRepositoryLike {
+  const updater = (values: Row = {}): TypeORMUpdateQueryBuilderLike => {
+    let condition = '';
+    let params: Row = {};
+    const builder: TypeORMUpdateQueryBuilderLike = {
+      set: (next) => updater(next),
+      where: (c, p) => {
+        condition = c;
+        params = p ?? {};
+        return builder;
+      },
+      execute: async () => {
+        const matched = rows.filter((row) => evaluate(row, condition, params));
+        matched.forEach((row) => applyValues(row, values));
+        return { affected: matched.length };
+      },
+    };
+    return builder;
+  };
+  const selector = (condition: string, limit: number): TypeORMSelectQueryBuilderLike => ({
+    where: (c) => selector(c, limit),
+    orderBy: () => selector(condition, limit),
+    limit: (n) => selector(condition, n),
+    getMany: async () =>
+      rows
+        .filter((row) => evaluate(row, condition))
+        .sort((a, b) => (a['createdAt'] as Date).getTime() - (b['createdAt'] as Date).getTime())
+        .slice(0, limit)
+        .map((row) => ({ ...row })),
+    update: () => updater(),
+  });
+  return {
+    insert: async (entity) => rows.push({ ...entity }),
+    update: async (criteria, partial) => {
+      rows.filter((r) => matches(r, criteria)).forEach((row) => applyValues(row, partial));
+    },
+    count: async ({ where }) => rows.filter((row) => matches(row, where)).length,
+    createQueryBuilder: () => selector('', Infinity),
+  };
+}
+
+describe('TypeORMOutboxStore', () => {
+  it('selects unpublished rows oldest first, up to the limit', async () => {
+    const store = new TypeORMOutboxStore(fakeRepository([]));
+    for (const [id, at] of [
+      ['m-3', 3],
+      ['m-1', 1],
+      ['m-2', 2],
+    ] as const) {
+      await store.save(message(id, at));
+    }
+
+    const unpublished = await store.getUnpublished(2);
+
+    expect(unpublished.map((m) => m.id)).toEqual(['m-1', 'm-2']);
+  });
+
+  it('increments attempts in SQL when marking failures and publication', async () => {
+    const rows: Row[] = [];
+    const store = new TypeORMOutboxStore(fakeRepository(rows));
+    await store.save(message('m-1', 1));
+
+    await store.markAsFailed('m-1', 'broker down');
+    await store.markAsPublished('m-1');
+
+    expect(rows[0]).toMatchObject({ attempts: 2, error: null, lockedBy: null });
+    expect(rows[0]?.['publishedAt']).toBeInstanceOf(Date);
+  });
+
+  it('claims with conditional updates and keeps partitions with one owner', async () => {
+    const store = new TypeORMOutboxStore(fakeRepository([]));
+    await store.save(message('a-1', 1, 'order-a'));
+    await store.save(message('a-2', 2, 'order-a'));
+    await store.save(message('b-1', 3, 'order-b'));
+
+    const first = await store.claimBatch({ owner: 'relay-1', limit: 1, leaseMs: 60_000 });
+    const second = await store.claimBatch({ owner: 'relay-2', limit: 10, leaseMs: 60_000 });
+    await store.release(['a-1'], 'relay-1');
+    const third = await store.claimBatch({ owner: 'relay-2', limit: 10, leaseMs: 60_000 });
+
+    expect(first.map((m) => m.id)).toEqual(['a-1']);
+    expect(second.map((m) => m.id)).toEqual(['b-1']);
+    expect(third.map((m) => m.id)).toEqual(['a-1', 'a-2', 'b-1']);
+  });
+
+  it('dead-letters, lists and requeues messages', async () => {
+    const store = new TypeORMOutboxStore(fakeRepository([]));
+    await store.save(message('m-1', 1));
+
+    await store.deadLetter('m-1', 'max attempts exceeded');
+    expect(await store.getUnpublished(10)).toEqual([]);
+    expect((await store.getDeadLettered(10)).map((m) => m.error)).toEqual([
+      'max attempts exceeded',
+    ]);
+
+    await store.requeue('m-1');
+    expect((await store.getUnpublished(10))[0]).toMatchObject({ id: 'm-1', attempts: 0 });
+  });
+});
+
+describe('TypeORMInboxStore', () => {
+  it('detects duplicates by event id and marks messages processed', async () => {
+    const rows: Row[] = [];
+    const store = new TypeORMInboxStore(fakeRepository(rows));
+    await store.save({ id: 'in-1', eventEnvelope: envelope('evt-1'), receivedAt: new Date() });
+
+    expect(await store.isDuplicate('evt-1')).toBe(true);
+    expect(await store.isDuplicate('evt-2')).toBe(false);
+    await store.markAsProcessed('in-1');
+    expect(rows[0]?.['processedAt']).toBeInstanceOf(Date);
+  });
+});
@@ -8,8 +8,10 @@
 /* eslint-disable @typescript-eslint/no-unsafe-assignment -- MongoDB framework boundary: collection methods return any */
 /* eslint-disable @typescript-eslint/no-unsafe-call -- MongoDB framework boundary: collection method calls */
 /* eslint-disable @typescript-eslint/no-unsafe-member-access -- MongoDB framework boundary: document property access */
-import type { RepositoryPort } from '@marcusprado02/persistence';
+import type { QuerySpecification } from '@marcusprado02/kernel';
+import type { AggregateTracker, RepositoryPort } from '@marcusprado02/persistence';
 import type { MongoMapper } from './MongoMapper';
+import { toMongoFilter } from './MongoSpecification';
 
 // ── Structural cursor interface ───────────────────────────────────────────────
 
@@ -78,6 +80,7 @@ export abstract class MongoRepository<TDomain, TId> implements RepositoryPort<TD
   constructor(
     protected readonly collection: MongoCollectionLike,
     protected readonly mapper: MongoMapper<TDomain>,
+    protected readonly aggregates?: AggregateTracker,
   ) {}
 
   /**
@@ -101,12 +104,14 @@ export abstract class MongoRepository<TDomain, TId> implements RepositoryPort<TD
   /**
    * Persist a domain entity (insert or replace).
    * Uses `replaceOne` with `{ upsert: true }` so callers do not need to
-   * distinguish new vs existing documents.
+   * distinguish new vs existing documents. A saved aggregate is registered
+   * with the unit of work's tracker, if any.
    */
   async save(entity: TDomain): Promise<void> {
     const id = this.extractId(entity);
     const doc = this.mapper.toDocument(entity);
     await this.collection.replaceOne(this.getFilter(id), doc, { upsert: true });
+    this.aggregates?.trackSaved(entity);
   }
 
   /**
@@ -128,6 +133,29 @@ export abstract class MongoRepository<TDomain, TId> implements RepositoryPort<TD
     return docs.map((d) => this.mapper.toDomain(d));
   }
 
+  /**
+   * Return the domain entities matching a query specification.
+   * The specification is compiled to a MongoDB filter, so filtering happens
+   * in the database.
+   */
+  async findBy(spec: QuerySpecification<TDomain>): Promise<TDomain[]> {
+    const docs = await this.collection.find(this.toFilter(spec)).toArray();
+    return docs.map((d) => this.mapper.toDomain(d));
+  }
+
+  /** Count the documents matching a query specification. */
+  async countBy(spec: QuerySpecification<TDomain>): Promise<number> {
+    return this.collection.countDocuments(this.toFilter(spec));
+  }
+
+  /**
+   * Map a domain field path used in specifications to the document field path.
+   * Override when the domain and document models use different names.
+   */
+  protected mapSpecificationField(field: string): string {
+    return field;
+  }
+
   /** Return `true` if a document with the given ID exists. */
   async exists(id: TId): Promise<boolean> {
     const count = await this.collection.countDocuments(this.getFilter(id));
@@ -138,4 +166,10 @@ export abstract class MongoRepository<TDomain, TId> implements RepositoryPort<TD
   async delete(id: TId): Promise<void> {
     await this.collection.deleteOne(this.getFilter(id));
   }
+
+  private toFilter(spec: QuerySpecification<TDomain>): Record<string, unknown> {
+    return toMongoFilter(spec.expression, {
+      mapField: (field) => this.mapSpecificationField(field),
+    });
+  }
 }
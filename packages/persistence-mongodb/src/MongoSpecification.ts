@@ -0,0 +1,73 @@
+/**
+ * Compiles kernel `QuerySpecification` expression trees into MongoDB filter
+ * documents so `MongoRepository.findBy(spec)` filters in the database.
+ */
+import { likePatternToRegExpSource, type SpecificationExpression } from '@marcusprado02/kernel';
+import type { SpecificationTranslationOptions } from '@marcusprado02/persistence';
+
+const COMPARISON_OPERATORS = {
+  eq: '$eq',
+  neq: '$ne',
+  gt: '$gt',
+  gte: '$gte',
+  lt: '$lt',
+  lte: '$lte',
+} as const;
+
+/**
+ * Translate a specification expression into a MongoDB filter document.
+ *
+ * Dotted field paths are passed through as MongoDB dot notation. `LIKE`
+ * patterns become anchored `$regex` filters with the same semantics as the
+ * in-memory evaluation; `isNull` also matches missing fields. MongoDB
+ * rejects an empty `$and` or `$or`, so an empty `and` compiles to `{}` and
+ * an empty `or` to a filter that matches nothing.
+ *
+ * @example
+ * ```typescript
+ * toMongoFilter(user.where('age').gte(18).or(user.where('role').in(['admin'])).expression);
+ * // → { $or: [{ age: { $gte: 18 } }, { role: { $in: ['admin'] } }] }
+ * ```
+ */
+export function toMongoFilter(
+  expression: SpecificationExpression,
+  options: SpecificationTranslationOptions = {},
+): Record<string, unknown> {
+  const mapField = options.mapField ?? ((field: string): string => field);
+  const translate = (expr: SpecificationExpression): Record<string, unknown> => {
+    switch (expr.kind) {
+      case 'comparison':
+        return { [mapField(expr.field)]: { [COMPARISON_OPERATORS[expr.operator]]: expr.value } };
+      case 'in':
+        return { [mapField(expr.field)]: { $in: [...expr.values] } };
+      case 'between':
+        return { [mapField(expr.field)]: { $gte: expr.min, $lte: expr.max } };
+      case 'like':
+        return {
+          [mapField(expr.field)]: {
+            $regex: likePatternToRegExpSource(expr.pattern),
+            $options: expr.caseInsensitive ? 'is' : 's',
+          },
+        };
+      case 'isNull':
+        return { [mapField(expr.field)]: null };
+      case 'and':
+        return combine('$and', expr.operands.map(translate));
+      case 'or':
+        return combine('$or', expr.operands.map(translate));
+      case 'not':
+        return { $nor: [translate(expr.operand)] };
+    }
+  };
+  return translate(expression);
+}
+
+/** MongoDB rejects an empty `$and` or `$or`: they compile to their identity instead. */
+function combine(
+  operator: '$and' | '$or',
+  operands: Record<string, unknown>[],
+): Record<string, unknown> {
+  if (operands.length > 0) return { [operator]: operands };
+  // `{}` matches every document, so `$nor: [{}]` matches none.
+  return operator === '$and' ? {} : { $nor: [{}] };
+}
@@ -6,6 +6,8 @@
  * transaction (requires a MongoDB replica set or sharded cluster).
  */
 import type { Result } from '@marcusprado02/kernel';
+import { AggregateTracker, rollbackOnErr } from '@marcusprado02/persistence';
+import type { TransactionalEventSink } from '@marcusprado02/persistence';
 
 // ── Structural interfaces ─────────────────────────────────────────────────────
 
@@ -30,12 +32,26 @@ export interface MongoClientLike {
 
 // ── Unit of Work ──────────────────────────────────────────────────────────────
 
+export interface MongoUnitOfWorkOptions {
+  /**
+   * Receives the uncommitted events of the aggregates tracked during a
+   * transaction, inside that transaction (e.g. an outbox writer).
+   */
+  events?: TransactionalEventSink<MongoSessionLike>;
+}
+
 /**
  * Unit of Work that delegates to MongoDB interactive transactions.
  *
  * Requires a MongoDB replica set or sharded cluster (transactions are not
  * available on standalone MongoDB instances in production).
  *
+ * Aggregates saved by a repository constructed with the tracker, or passed
+ * to `aggregates.track()`, have their uncommitted events written to the
+ * configured event sink before the transaction commits, and are marked
+ * committed once it has. The driver may retry the callback on
+ * transient errors; every attempt starts with an empty tracker.
+ *
  * @example
  * ```typescript
  * const uow = new MongoUnitOfWork(client);
@@ -45,22 +61,42 @@ export interface MongoClientLike {
  *   await orderCollection.insertOne(orderDoc, { session });
  *   // Committed atomically on success; rolled back on error
  * });
+ *
+ * // With a transactional outbox
+ * const outboxUow = new MongoUnitOfWork(client, { events: outboxWriter });
+ * await outboxUow.withTransaction(async (session, aggregates) => {
+ *   await orders.updateOne({ _id: order.id }, { $set: doc }, { session });
+ *   aggregates.track(order);
+ * });
  * ```
  */
 export class MongoUnitOfWork {
-  constructor(private readonly client: MongoClientLike) {}
+  constructor(
+    private readonly client: MongoClientLike,
+    private readonly options: MongoUnitOfWorkOptions = {},
+  ) {}
 
   /**
    * Execute work inside a MongoDB transaction.
    * The transaction is committed on success and rolled back on error.
    * The session is always released via `endSession()`.
    *
-   * @param work - Callback that receives the active session.
+   * @param work - Callback that receives the active session and the aggregate tracker.
    */
-  async withTransaction<T>(work: (session: MongoSessionLike) => Promise<T>): Promise<T> {
+  async withTransaction<T>(
+    work: (session: MongoSessionLike, aggregates: AggregateTracker) => Promise<T>,
+  ): Promise<T> {
     const session = this.client.startSession();
+    let aggregates = new AggregateTracker();
     try {
-      return await session.withTransaction(() => work(session));
+      const result = await session.withTransaction(async () => {
+        aggregates = new AggregateTracker();
+        const value = await work(session, aggregates);
+        await this.options.events?.write(aggregates.collectEvents(), session);
+        return value;
+      });
+      aggregates.markCommitted();
+      return result;
     } finally {
       await session.endSession();
     }
@@ -69,13 +105,19 @@ export class MongoUnitOfWork {
   /**
    * Execute work inside a transaction returning a `Result<T, E>` type.
    * Useful when the work function uses domain Result types instead of throwing.
+   * An Err aborts the transaction, without writing any events, and is
+   * returned as is.
    *
    * @param work - Callback returning `Result<T, E>`.
    */
   async withTransactionResult<T, E extends Error>(
-    work: (session: MongoSessionLike) => Promise<Result<T, E>>,
+    work: (session: MongoSessionLike, aggregates: AggregateTracker) => Promise<Result<T, E>>,
   ): Promise<Result<T, E>> {
-    return this.withTransaction(work);
+    return rollbackOnErr((abortOnErr) =>
+      this.withTransaction(async (session, aggregates) =>
+        abortOnErr(await work(session, aggregates)),
+      ),
+    );
   }
 
   /** Expose the underlying `MongoClientLike` for advanced use-cases. */
@@ -1,10 +1,11 @@
 // Repository
 export { MongoRepository } from './MongoRepository';
 export type { MongoCollectionLike, MongoCursorLike } from './MongoRepository';
+export { toMongoFilter } from './MongoSpecification';
 
 // Unit of Work
 export { MongoUnitOfWork } from './MongoUnitOfWork';
-export type { MongoClientLike, MongoSessionLike } from './MongoUnitOfWork';
+export type { MongoClientLike, MongoSessionLike, MongoUnitOfWorkOptions } from './MongoUnitOfWork';
 
 // Pagination
 export { MongoPaginator } from './MongoPaginator';
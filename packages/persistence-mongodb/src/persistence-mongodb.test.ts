@@ -9,8 +9,9 @@
  * Tests for @marcusprado02/persistence-mongodb adapter
  */
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { Result } from '@marcusprado02/kernel';
-import type { PageRequest } from '@marcusprado02/persistence';
+import { AggregateRoot, DomainEvent, Result, QuerySpecification } from '@marcusprado02/kernel';
+import { AggregateTracker } from '@marcusprado02/persistence';
+import type { PageRequest, TransactionalEventSink } from '@marcusprado02/persistence';
 import { MongoRepository } from './MongoRepository';
 import type { MongoCollectionLike, MongoCursorLike } from './MongoRepository';
 import type { MongoMapper } from './MongoMapper';
@@ -18,6 +19,7 @@ import { MongoUnitOfWork } from './MongoUnitOfWork';
 import type { MongoClientLike, MongoSessionLike } from './MongoUnitOfWork';
 import { MongoPaginator } from './MongoPaginator';
 import { withActivesOnly, softDeleteData, restoreData } from './MongoSoftDelete';
+import { toMongoFilter } from './MongoSpecification';
 
 // ── Shared test domain types ──────────────────────────────────────────────────
 
@@ -161,8 +163,116 @@ describe('MongoRepository', () => {
   });
 });
 
+// ── Query specifications ──────────────────────────────────────────────────────
+
+const userSpec = QuerySpecification.of<User>();
+
+describe('MongoRepository specifications', () => {
+  let cursor: MongoCursorLike;
+  let collection: MongoCollectionLike;
+  let repo: UserMongoRepository;
+
+  beforeEach(() => {
+    cursor = buildCursor();
+    collection = buildCollection(cursor);
+    repo = new UserMongoRepository(collection, buildMapper());
+  });
+
+  it('findBy() should query the collection with the compiled filter', async () => {
+    vi.mocked(cursor.toArray).mockResolvedValue([makeDoc('1')]);
+
+    const results = await repo.findBy(userSpec.where('name').eq('Alice'));
+
+    expect(results).toEqual([makeUser('1')]);
+    expect(collection.find).toHaveBeenCalledWith({ name: { $eq: 'Alice' } });
+  });
+
+  it('countBy() should count documents with the compiled filter', async () => {
+    vi.mocked(collection.countDocuments).mockResolvedValue(2);
+
+    const count = await repo.countBy(userSpec.where('email').isNotNull());
+
+    expect(count).toBe(2);
+    expect(collection.countDocuments).toHaveBeenCalledWith({ $nor: [{ email: null }] });
+  });
+});
+
+describe('toMongoFilter', () => {
+  interface Order {
+    status: string;
+    total: number;
+  }
+  const order = QuerySpecification.of<Order>();
+
+  it('translates comparisons, ranges and sets', () => {
+    expect(toMongoFilter(order.where('total').lte(10).expression)).toEqual({
+      total: { $lte: 10 },
+    });
+    expect(toMongoFilter(order.where('total').between(1, 5).expression)).toEqual({
+      total: { $gte: 1, $lte: 5 },
+    });
+    expect(toMongoFilter(order.where('status').notIn(['x']).expression)).toEqual({
+      $nor: [{ status: { $in: ['x'] } }],
+    });
+  });
+
+  it('translates boolean composition', () => {
+    const spec = order.all(
+      order.where('status').neq('void'),
+      order.any(order.where('total').gt(0)),
+    );
+    expect(toMongoFilter(spec.expression)).toEqual({
+      $and: [{ status: { $ne: 'void' } }, { $or: [{ total: { $gt: 0 } }] }],
+    });
+  });
+
+  it('compiles an empty all() to match everything and an empty any() to match nothing', () => {
+    expect(toMongoFilter(order.all().expression)).toEqual({});
+    expect(toMongoFilter(order.any().expression)).toEqual({ $nor: [{}] });
+    expect(toMongoFilter(order.any().not().expression)).toEqual({ $nor: [{ $nor: [{}] }] });
+  });
+
+  it('translates like patterns into anchored regular expressions', () => {
+    const filter = toMongoFilter(order.where('status').ilike('op_n%').expression);
+    const condition = filter['status'] as { $regex: string; $options: string };
+
+    expect(condition).toEqual({ $regex: '^op.n.*$', $options: 'is' });
+    expect(new RegExp(condition.$regex, condition.$options).test('OPEN-ORDER')).toBe(true);
+  });
+
+  it('applies the field mapping', () => {
+    const filter = toMongoFilter(order.where('status').isNull().expression, {
+      mapField: (field) => `meta.${field}`,
+    });
+    expect(filter).toEqual({ 'meta.status': null });
+  });
+});
+
 // ── MongoUnitOfWork ───────────────────────────────────────────────────────────
 
+class OrderPlaced extends DomainEvent {}
+
+class Order extends AggregateRoot<string> {
+  place(): void {
+    this.record(new OrderPlaced());
+  }
+}
+
+class OrderMongoRepository extends MongoRepository<Order, string> {
+  protected extractId(entity: Order): string {
+    return entity.id;
+  }
+
+  protected getFilter(id: string): Record<string, unknown> {
+    return { _id: id };
+  }
+}
+
+const orderMapper: MongoMapper<Order> = {
+  toDocument: (order) => ({ _id: order.id }),
+  toDomain: (doc) => new Order(doc['_id'] as string),
+};
+
 describe('MongoUnitOfWork', () => {
   let session: MongoSessionLike;
   let client: MongoClientLike;
@@ -186,7 +296,70 @@ describe('MongoUnitOfWork', () => {
     expect(result).toBe('done');
     expect(client.startSession).toHaveBeenCalledOnce();
     expect(session.withTransaction).toHaveBeenCalledOnce();
-    expect(work).toHaveBeenCalledWith(session);
+    expect(work).toHaveBeenCalledWith(session, expect.any(AggregateTracker));
+  });
+
+  it('withTransaction() should write tracked aggregate events with the session', async () => {
+    const sink: TransactionalEventSink<MongoSessionLike> = {
+      write: vi.fn().mockResolvedValue(undefined),
+    };
+    const order = new Order('o-1');
+    order.place();
+    const [placed] = order.getUncommittedEvents();
+
+    await new MongoUnitOfWork(client, { events: sink }).withTransaction(
+      async (_session, aggregates) => {
+        aggregates.track(order);
+      },
+    );
+
+    expect(sink.write).toHaveBeenCalledWith([placed], session);
+    expect(order.getUncommittedEvents()).toHaveLength(0);
+  });
+
+  it('withTransaction() should write the events of aggregates saved by a repository with the tracker', async () => {
+    const sink: TransactionalEventSink<MongoSessionLike> = {
+      write: vi.fn().mockResolvedValue(undefined),
+    };
+    const order = new Order('o-1');
+    order.place();
+    const [placed] = order.getUncommittedEvents();
+    const collection = buildCollection(buildCursor());
+
+    await new MongoUnitOfWork(client, { events: sink }).withTransaction(
+      async (_session, aggregates) => {
+        await new OrderMongoRepository(collection, orderMapper, aggregates).save(order);
+        await new UserMongoRepository(collection, buildMapper(), aggregates).save(makeUser());
+      },
+    );
+
+    expect(sink.write).toHaveBeenCalledWith([placed], session);
+    expect(order.getUncommittedEvents()).toHaveLength(0);
+  });
+
+  it('withTransaction() should give every driver retry a fresh tracker', async () => {
+    vi.mocked(session.withTransaction).mockImplementation(async (fn: () => Promise<unknown>) => {
+      await fn().catch(() => undefined); // transient error, retried by the driver
+      return fn();
+    });
+    const sink: TransactionalEventSink<MongoSessionLike> = {
+      write: vi.fn().mockResolvedValue(undefined),
+    };
+    const order = new Order('o-1');
+    order.place();
+    let attempts = 0;
+
+    await new MongoUnitOfWork(client, { events: sink }).withTransaction(
+      async (_session, aggregates) => {
+        aggregates.track(order);
+        attempts++;
+        if (attempts === 1) throw new Error('TransientTransactionError');
+      },
+    );
+
+    expect(sink.write).toHaveBeenCalledOnce();
+    expect(vi.mocked(sink.write).mock.calls[0]?.[0]).toHaveLength(1);
+    expect(order.version).toBe(1);
   });
 
   it('withTransactionResult() should return the Result value produced by work', async () => {
@@ -199,6 +372,27 @@ describe('MongoUnitOfWork', () => {
     expect(result.unwrap()).toBe(42);
   });
 
+  it('withTransactionResult() should abort without writing events when work returns an Err', async () => {
+    const sink: TransactionalEventSink<MongoSessionLike> = {
+      write: vi.fn().mockResolvedValue(undefined),
+    };
+    const order = new Order('o-1');
+    order.place();
+
+    const result = await new MongoUnitOfWork(client, { events: sink }).withTransactionResult(
+      async (_session, aggregates) => {
+        aggregates.track(order);
+        return Result.err<number, Error>(new Error('out of stock'));
+      },
+    );
+
+    expect(result.unwrapErr().message).toBe('out of stock');
+    await expect(vi.mocked(session.withTransaction).mock.results[0]?.value).rejects.toThrow();
+    expect(sink.write).not.toHaveBeenCalled();
+    expect(order.getUncommittedEvents()).toHaveLength(1);
+    expect(session.endSession).toHaveBeenCalledOnce();
+  });
+
   it('endSession() should be called after withTransaction completes', async () => {
     const work = vi.fn().mockResolvedValue(undefined);
 
@@ -8,8 +8,10 @@
 /* eslint-disable @typescript-eslint/no-unsafe-assignment -- Prisma framework boundary: delegate methods return any */
 /* eslint-disable @typescript-eslint/no-unsafe-member-access -- Prisma framework boundary: record properties */
 /* eslint-disable @typescript-eslint/no-unsafe-call -- Prisma framework boundary: delegate method calls */
-import type { RepositoryPort } from '@marcusprado02/persistence';
+import type { QuerySpecification } from '@marcusprado02/kernel';
+import type { AggregateTracker, RepositoryPort } from '@marcusprado02/persistence';
 import type { PrismaMapper } from './PrismaMapper';
+import { toPrismaWhere } from './PrismaSpecification';
 
 /**
  * Structural interface that matches the shape of every Prisma model delegate.
@@ -67,6 +69,7 @@ export abstract class PrismaRepository<TDomain, TId> implements RepositoryPort<T
   constructor(
     protected readonly model: PrismaModelDelegate,
     protected readonly mapper: PrismaMapper<TDomain>,
+    protected readonly aggregates?: AggregateTracker,
   ) {}
 
   /**
@@ -90,6 +93,7 @@ export abstract class PrismaRepository<TDomain, TId> implements RepositoryPort<T
   /**
    * Persist a domain entity (create or update).
    * Uses Prisma upsert so callers do not need to distinguish new vs existing.
+   * A saved aggregate is registered with the unit of work's tracker, if any.
    */
   async save(entity: TDomain): Promise<void> {
     const id = this.extractId(entity);
@@ -99,6 +103,7 @@ export abstract class PrismaRepository<TDomain, TId> implements RepositoryPort<T
       create: data,
       update: data,
     });
+    this.aggregates?.trackSaved(entity);
   }
 
   /**
@@ -122,6 +127,31 @@ export abstract class PrismaRepository<TDomain, TId> implements RepositoryPort<T
     return records.map((r) => this.mapper.toDomain(r));
   }
 
+  /**
+   * Return the domain entities matching a query specification.
+   * The specification is compiled to a Prisma `where` clause, so filtering
+   * happens in the database.
+   */
+  async findBy(spec: QuerySpecification<TDomain>): Promise<TDomain[]> {
+    const records = await this.model.findMany({ where: this.toWhere(spec) });
+    return records.map((r) => this.mapper.toDomain(r));
+  }
+
+  /**
+   * Count the records matching a query specification.
+   */
+  async countBy(spec: QuerySpecification<TDomain>): Promise<number> {
+    return this.model.count({ where: this.toWhere(spec) });
+  }
+
+  /**
+   * Map a domain field path used in specifications to the Prisma field name.
+   * Override when the domain and persistence models use different names.
+   */
+  protected mapSpecificationField(field: string): string {
+    return field;
+  }
+
   /**
    * Check whether an entity with the given ID exists.
    */
@@ -141,4 +171,10 @@ export abstract class PrismaRepository<TDomain, TId> implements RepositoryPort<T
       where: this.getWhereClause(id),
     });
   }
+
+  private toWhere(spec: QuerySpecification<TDomain>): Record<string, unknown> {
+    return toPrismaWhere(spec.expression, {
+      mapField: (field) => this.mapSpecificationField(field),
+    });
+  }
 }
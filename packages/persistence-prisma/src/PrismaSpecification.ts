@@ -0,0 +1,122 @@
+/**
+ * Compiles kernel `QuerySpecification` expression trees into Prisma `where`
+ * objects so `PrismaRepository.findBy(spec)` filters in the database.
+ */
+import type { SpecificationExpression } from '@marcusprado02/kernel';
+import {
+  UnsupportedSpecificationError,
+  needsNullBranch,
+  type FieldExpression,
+  type SpecificationTranslationOptions,
+} from '@marcusprado02/persistence';
+
+const BACKEND = 'Prisma';
+
+const COMPARISON_KEYS = {
+  eq: 'equals',
+  neq: 'not',
+  gt: 'gt',
+  gte: 'gte',
+  lt: 'lt',
+  lte: 'lte',
+} as const;
+
+/**
+ * Translate a specification expression into a Prisma `where` clause.
+ *
+ * Dotted field paths become nested relation filters (`'profile.city'` →
+ * `{ profile: { city: ... } }`). `LIKE` patterns are limited to what Prisma
+ * supports natively: `abc`, `abc%`, `%abc` and `%abc%`; any other pattern
+ * throws {@link UnsupportedSpecificationError}. Conditions that match null
+ * fields in memory — `neq('x')`, negations — get an `OR` with an `IS NULL`
+ * filter, as SQL would otherwise drop NULL rows (see `needsNullBranch`).
+ *
+ * @example
+ * ```typescript
+ * toPrismaWhere(user.where('age').gte(18).and(user.where('email').ilike('%@acme.com')).expression);
+ * // → { AND: [{ age: { gte: 18 } }, { email: { endsWith: '@acme.com', mode: 'insensitive' } }] }
+ * ```
+ */
+export function toPrismaWhere(
+  expression: SpecificationExpression,
+  options: SpecificationTranslationOptions = {},
+): Record<string, unknown> {
+  const mapField = options.mapField ?? ((field: string): string => field);
+  // Negations are pushed down to the fields (De Morgan) so each one can get
+  // the `IS NULL` alternative the in-memory semantics needs.
+  const translate = (expr: SpecificationExpression, negated: boolean): Record<string, unknown> => {
+    switch (expr.kind) {
+      case 'and':
+      case 'or': {
+        const operands = expr.operands.map((op) => translate(op, negated));
+        return (expr.kind === 'and') !== negated ? { AND: operands } : { OR: operands };
+      }
+      case 'not':
+        return translate(expr.operand, !negated);
+      case 'comparison':
+      case 'in':
+      case 'between':
+      case 'like':
+      case 'isNull':
+        return fieldFilter(expr, negated, mapField(expr.field));
+    }
+  };
+  return translate(expression, false);
+}
+
+function fieldFilter(
+  expr: FieldExpression,
+  negated: boolean,
+  field: string,
+): Record<string, unknown> {
+  const filter = onField(field, fieldCondition(expr));
+  const where = negated ? { NOT: filter } : filter;
+  return needsNullBranch(expr, negated) ? { OR: [where, onField(field, null)] } : where;
+}
+
+function fieldCondition(expr: FieldExpression): unknown {
+  switch (expr.kind) {
+    case 'comparison':
+      return { [COMPARISON_KEYS[expr.operator]]: expr.value };
+    case 'in':
+      return { in: [...expr.values] };
+    case 'between':
+      return { gte: expr.min, lte: expr.max };
+    case 'like':
+      return likeFilter(expr);
+    case 'isNull':
+      return null;
+  }
+}
+
+function onField(path: string, filter: unknown): Record<string, unknown> {
+  const segments = path.split('.');
+  let result: unknown = filter;
+  for (let i = segments.length - 1; i >= 0; i--) {
+    result = { [segments[i] as string]: result };
+  }
+  return result as Record<string, unknown>;
+}
+
+function likeFilter(
+  expr: Extract<SpecificationExpression, { kind: 'like' }>,
+): Record<string, unknown> {
+  const { pattern } = expr;
+  const leading = pattern.startsWith('%');
+  const trailing = pattern.length > 1 && pattern.endsWith('%');
+  const literal = pattern.slice(leading ? 1 : 0, trailing ? -1 : undefined);
+  if (/[%_]/.test(literal)) {
+    throw new UnsupportedSpecificationError(
+      BACKEND,
+      expr,
+      `pattern '${pattern}' needs wildcards that Prisma cannot express`,
+    );
+  }
+  let operator = 'equals';
+  if (leading && trailing) operator = 'contains';
+  else if (leading) operator = 'endsWith';
+  else if (trailing) operator = 'startsWith';
+  const filter: Record<string, unknown> = { [operator]: literal };
+  if (expr.caseInsensitive) filter['mode'] = 'insensitive';
+  return filter;
+}
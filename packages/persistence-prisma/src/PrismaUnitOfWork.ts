@@ -6,6 +6,8 @@
  */
 /* eslint-disable @typescript-eslint/no-unsafe-return -- Prisma $transaction callback returns inferred T */
 import type { Result } from '@marcusprado02/kernel';
+import { AggregateTracker, rollbackOnErr } from '@marcusprado02/persistence';
+import type { TransactionalEventSink } from '@marcusprado02/persistence';
 
 /**
  * Minimal structural interface for a PrismaClient instance.
@@ -17,9 +19,22 @@ export interface PrismaClientLike {
   $connect(): Promise<void>;
 }
 
+export interface PrismaUnitOfWorkOptions {
+  /**
+   * Receives the uncommitted events of the aggregates tracked during a
+   * transaction, inside that transaction (e.g. an outbox writer).
+   */
+  events?: TransactionalEventSink<PrismaClientLike>;
+}
+
 /**
  * Unit of Work that delegates to Prisma's interactive transactions.
  *
+ * Aggregates saved by a repository constructed with the tracker, or passed
+ * to `aggregates.track()`, have their uncommitted events written to the
+ * configured event sink before the transaction commits, and are marked
+ * committed once it has.
+ *
  * @example
  * ```typescript
  * const unitOfWork = new PrismaUnitOfWork(prisma);
@@ -32,29 +47,52 @@ export interface PrismaClientLike {
  *   await orderRepo.save(order);
  *   // Both writes are committed atomically
  * });
+ *
+ * // With a transactional outbox
+ * const outboxUnitOfWork = new PrismaUnitOfWork(prisma, { events: outboxWriter });
+ * await outboxUnitOfWork.transaction(async (tx, aggregates) => {
+ *   // OrderPlaced is stored in the same transaction
+ *   await new OrderRepository(tx.order, orderMapper, aggregates).save(order);
+ * });
  * ```
  */
 export class PrismaUnitOfWork {
-  constructor(private readonly prisma: PrismaClientLike) {}
+  constructor(
+    private readonly prisma: PrismaClientLike,
+    private readonly options: PrismaUnitOfWorkOptions = {},
+  ) {}
 
   /**
    * Execute work inside a Prisma interactive transaction.
    * The transaction is committed on success and rolled back on error.
    */
-  async transaction<T>(work: (tx: PrismaClientLike) => Promise<T>): Promise<T> {
-    return this.prisma.$transaction(work);
+  async transaction<T>(
+    work: (tx: PrismaClientLike, aggregates: AggregateTracker) => Promise<T>,
+  ): Promise<T> {
+    const aggregates = new AggregateTracker();
+    const result = await this.prisma.$transaction(async (tx) => {
+      const value = await work(tx, aggregates);
+      await this.options.events?.write(aggregates.collectEvents(), tx);
+      return value;
+    });
+    aggregates.markCommitted();
+    return result;
   }
 
   /**
    * Execute work inside a transaction returning a Result type.
    * Useful when the work function uses domain Result<T, E> instead of throwing.
+   * An Err rolls the transaction back, without writing any events, and is
+   * returned as is.
    *
    * Note: exceptions thrown inside `work` will still propagate.
    */
   async transactionResult<T, E extends Error>(
-    work: (tx: PrismaClientLike) => Promise<Result<T, E>>,
+    work: (tx: PrismaClientLike, aggregates: AggregateTracker) => Promise<Result<T, E>>,
   ): Promise<Result<T, E>> {
-    return this.prisma.$transaction(work);
+    return rollbackOnErr((abortOnErr) =>
+      this.transaction(async (tx, aggregates) => abortOnErr(await work(tx, aggregates))),
+    );
   }
 
   /**
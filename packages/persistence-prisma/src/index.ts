@@ -20,8 +20,10 @@
 export { PrismaRepository } from './PrismaRepository';
 export type { PrismaModelDelegate } from './PrismaRepository';
 
+export { toPrismaWhere } from './PrismaSpecification';
+
 export { PrismaUnitOfWork } from './PrismaUnitOfWork';
-export type { PrismaClientLike } from './PrismaUnitOfWork';
+export type { PrismaClientLike, PrismaUnitOfWorkOptions } from './PrismaUnitOfWork';
 
 export { PrismaPaginator } from './PrismaPaginator';
 
@@ -9,8 +9,9 @@
  * Tests for @marcusprado02/persistence-prisma adapter
  */
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { Result } from '@marcusprado02/kernel';
-import type { PageRequest } from '@marcusprado02/persistence';
+import { AggregateRoot, DomainEvent, Result, QuerySpecification } from '@marcusprado02/kernel';
+import { AggregateTracker, UnsupportedSpecificationError } from '@marcusprado02/persistence';
+import type { PageRequest, TransactionalEventSink } from '@marcusprado02/persistence';
 import { PrismaRepository } from './PrismaRepository';
 import type { PrismaModelDelegate } from './PrismaRepository';
 import type { PrismaMapper } from './PrismaMapper';
@@ -18,6 +19,7 @@ import { PrismaUnitOfWork } from './PrismaUnitOfWork';
 import type { PrismaClientLike } from './PrismaUnitOfWork';
 import { PrismaPaginator } from './PrismaPaginator';
 import { withActivesOnly, softDeleteData, restoreData } from './PrismaSoftDelete';
+import { toPrismaWhere } from './PrismaSpecification';
 
 // ── Shared test domain types ──────────────────────────────────────────────────
 
@@ -157,8 +159,228 @@ describe('PrismaRepository', () => {
   });
 });
 
+// ── Query specifications ──────────────────────────────────────────────────────
+
+const userSpec = QuerySpecification.of<User>();
+
+describe('PrismaRepository specifications', () => {
+  let model: PrismaModelDelegate;
+  let repo: UserPrismaRepository;
+
+  beforeEach(() => {
+    model = buildModel();
+    repo = new UserPrismaRepository(model, buildMapper());
+  });
+
+  it('findBy() should push the compiled where clause down to findMany', async () => {
+    vi.mocked(model.findMany).mockResolvedValue([makeRecord('1')]);
+
+    const results = await repo.findBy(userSpec.where('name').eq('Alice'));
+
+    expect(results).toEqual([makeUser('1')]);
+    expect(model.findMany).toHaveBeenCalledWith({ where: { name: { equals: 'Alice' } } });
+  });
+
+  it('countBy() should count with the compiled where clause', async () => {
+    vi.mocked(model.count).mockResolvedValue(3);
+
+    const count = await repo.countBy(userSpec.where('email').ilike('%@example.com'));
+
+    expect(count).toBe(3);
+    expect(model.count).toHaveBeenCalledWith({
+      where: { email: { endsWith: '@example.com', mode: 'insensitive' } },
+    });
+  });
+
+  it('findBy() should apply the field mapping hook', async () => {
+    class MappedRepository extends UserPrismaRepository {
+      protected override mapSpecificationField(field: string): string {
+        return field === 'name' ? 'full_name' : field;
+      }
+    }
+    vi.mocked(model.findMany).mockResolvedValue([]);
+
+    await new MappedRepository(model, buildMapper()).findBy(userSpec.where('name').eq('A'));
+
+    expect(model.findMany).toHaveBeenCalledWith({ where: { full_name: { equals: 'A' } } });
+  });
+});
+
+type Truth = boolean | null;
+
+/** Evaluates a flat Prisma `where` with SQL three-valued logic (`null` = UNKNOWN). */
+function sqlTruth(where: Record<string, unknown>, row: Record<string, unknown>): Truth {
+  const results = Object.entries(where).map(([key, filter]): Truth => {
+    if (key === 'AND')
+      return all((filter as Record<string, unknown>[]).map((f) => sqlTruth(f, row)));
+    if (key === 'OR')
+      return any((filter as Record<string, unknown>[]).map((f) => sqlTruth(f, row)));
+    if (key === 'NOT') return negate(sqlTruth(filter as Record<string, unknown>, row));
+    const value = row[key] ?? null;
+    if (filter === null) return value === null;
+    return all(
+      Object.entries(filter as Record<string, unknown>).map(([op, operand]) =>
+        compareSql(value, op, operand),
+      ),
+    );
+  });
+  return all(results);
+}
+
+function compareSql(value: unknown, op: string, operand: unknown): Truth {
+  if (op === 'not' && operand === null) return value !== null;
+  if (op === 'equals' && operand === null) return value === null;
+  if (value === null) return null;
+  const v = value as number;
+  switch (op) {
+    case 'equals':
+      return v === operand;
+    case 'not':
+      return v !== operand;
+    case 'in':
+      return (operand as unknown[]).includes(v);
+    case 'gt':
+      return v > (operand as number);
+    case 'gte':
+      return v >= (operand as number);
+    case 'lt':
+      return v < (operand as number);
+    case 'lte':
+      return v <= (operand as number);
+    default:
+      throw new Error(`unsupported operator ${op}`);
+  }
+}
+
+const all = (values: Truth[]): Truth =>
+  values.includes(false) ? false : values.includes(null) ? null : true;
+const any = (values: Truth[]): Truth =>
+  values.includes(true) ? true : values.includes(null) ? null : false;
+const negate = (value: Truth): Truth => (value === null ? null : !value);
+
+function sqlMatches(where: Record<string, unknown>, row: object): boolean {
+  return sqlTruth(where, row as Record<string, unknown>) === true;
+}
+
+describe('toPrismaWhere', () => {
+  interface Order {
+    status: string;
+    total: number;
+    placedAt: Date;
+    cancelledAt: Date | null;
+  }
+  const order = QuerySpecification.of<Order>();
+
+  it('translates comparisons, ranges and sets', () => {
+    expect(toPrismaWhere(order.where('total').gt(10).expression)).toEqual({ total: { gt: 10 } });
+    expect(toPrismaWhere(order.where('status').neq('x').expression)).toEqual({
+      OR: [{ status: { not: 'x' } }, { status: null }],
+    });
+    expect(toPrismaWhere(order.where('total').between(1, 5).expression)).toEqual({
+      total: { gte: 1, lte: 5 },
+    });
+    expect(toPrismaWhere(order.where('status').in(['a', 'b']).expression)).toEqual({
+      status: { in: ['a', 'b'] },
+    });
+  });
+
+  it('translates null checks and boolean composition', () => {
+    const spec = order
+      .where('cancelledAt')
+      .isNull()
+      .and(order.where('status').eq('open').or(order.where('total').lte(0).not()));
+
+    expect(toPrismaWhere(spec.expression)).toEqual({
+      AND: [
+        { cancelledAt: null },
+        {
+          OR: [
+            { status: { equals: 'open' } },
+            { OR: [{ NOT: { total: { lte: 0 } } }, { total: null }] },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('translates supported like patterns', () => {
+    expect(toPrismaWhere(order.where('status').like('op%').expression)).toEqual({
+      status: { startsWith: 'op' },
+    });
+    expect(toPrismaWhere(order.where('status').like('%pe%').expression)).toEqual({
+      status: { contains: 'pe' },
+    });
+    expect(toPrismaWhere(order.where('status').like('open').expression)).toEqual({
+      status: { equals: 'open' },
+    });
+  });
+
+  it('throws UnsupportedSpecificationError for inner wildcards', () => {
+    expect(() => toPrismaWhere(order.where('status').like('o_en').expression)).toThrow(
+      UnsupportedSpecificationError,
+    );
+  });
+
+  it('matches null fields exactly as the in-memory evaluation does', () => {
+    const rows: Order[] = [
+      { status: 'open', total: 5, placedAt: new Date(0), cancelledAt: null },
+      { status: 'x', total: 0, placedAt: new Date(0), cancelledAt: new Date(1) },
+      {
+        status: null as unknown as string,
+        total: null as unknown as number,
+        placedAt: new Date(0),
+        cancelledAt: null,
+      },
+    ];
+    const specs = [
+      order.where('status').neq('x'),
+      order.where('total').gt(1).not(),
+      order.where('status').in(['open']).not(),
+      order.where('status').eq('x').or(order.where('total').gte(1)).not(),
+      order.where('cancelledAt').isNull().not(),
+      order.where('status').neq('x').not(),
+    ];
+
+    for (const spec of specs) {
+      const where = toPrismaWhere(spec.expression);
+      expect(rows.filter((row) => sqlMatches(where, row))).toEqual(
+        rows.filter((row) => spec.isSatisfiedBy(row)),
+      );
+    }
+  });
+
+  it('nests dotted paths into relation filters', () => {
+    expect(toPrismaWhere(order.path('customer.city').eq('Recife').expression)).toEqual({
+      customer: { city: { equals: 'Recife' } },
+    });
+  });
+});
+
 // ── PrismaUnitOfWork ──────────────────────────────────────────────────────────
 
+class OrderPlaced extends DomainEvent {}
+
+class Order extends AggregateRoot<string> {
+  place(): void {
+    this.record(new OrderPlaced());
+  }
+}
+
+class OrderPrismaRepository extends PrismaRepository<Order, string> {
+  protected extractId(entity: Order): string {
+    return entity.id;
+  }
+
+  protected getWhereClause(id: string): Record<string, unknown> {
+    return { id };
+  }
+}
+
+const orderMapper: PrismaMapper<Order> = {
+  toPersistence: (order) => ({ id: order.id }),
+  toDomain: (record) => new Order(record['id'] as string),
+};
+
 describe('PrismaUnitOfWork', () => {
   let prisma: PrismaClientLike;
   let unitOfWork: PrismaUnitOfWork;
@@ -183,7 +405,56 @@ describe('PrismaUnitOfWork', () => {
 
     expect(result).toBe('done');
     expect(prisma.$transaction).toHaveBeenCalledOnce();
-    expect(work).toHaveBeenCalledWith(prisma);
+    expect(work).toHaveBeenCalledWith(prisma, expect.any(AggregateTracker));
+  });
+
+  it('transaction() should write tracked aggregate events to the sink inside the transaction', async () => {
+    const sink: TransactionalEventSink<PrismaClientLike> = {
+      write: vi.fn().mockResolvedValue(undefined),
+    };
+    const order = new Order('o-1');
+    order.place();
+    const [placed] = order.getUncommittedEvents();
+
+    await new PrismaUnitOfWork(prisma, { events: sink }).transaction(async (_tx, aggregates) => {
+      aggregates.track(order);
+    });
+
+    expect(sink.write).toHaveBeenCalledWith([placed], prisma);
+    expect(order.getUncommittedEvents()).toHaveLength(0);
+    expect(order.version).toBe(1);
+  });
+
+  it('transaction() should write the events of aggregates saved by a repository with the tracker', async () => {
+    const sink: TransactionalEventSink<PrismaClientLike> = {
+      write: vi.fn().mockResolvedValue(undefined),
+    };
+    const order = new Order('o-1');
+    order.place();
+    const [placed] = order.getUncommittedEvents();
+
+    await new PrismaUnitOfWork(prisma, { events: sink }).transaction(async (_tx, aggregates) => {
+      await new OrderPrismaRepository(buildModel(), orderMapper, aggregates).save(order);
+      await new UserPrismaRepository(buildModel(), buildMapper(), aggregates).save(makeUser());
+    });
+
+    expect(sink.write).toHaveBeenCalledWith([placed], prisma);
+    expect(order.getUncommittedEvents()).toHaveLength(0);
+  });
+
+  it('transaction() should keep aggregate events uncommitted when the transaction fails', async () => {
+    const sink: TransactionalEventSink<PrismaClientLike> = {
+      write: vi.fn().mockRejectedValue(new Error('outbox unavailable')),
+    };
+    const order = new Order('o-1');
+    order.place();
+
+    await expect(
+      new PrismaUnitOfWork(prisma, { events: sink }).transaction(async (_tx, aggregates) => {
+        aggregates.track(order);
+      }),
+    ).rejects.toThrow('outbox unavailable');
+    expect(order.getUncommittedEvents()).toHaveLength(1);
   });
 
   it('transactionResult() should return the Result value produced by work', async () => {
@@ -196,6 +467,34 @@ describe('PrismaUnitOfWork', () => {
     expect(result.unwrap()).toBe(42);
   });
 
+  it('transactionResult() should roll back without writing events when work returns an Err', async () => {
+    const sink: TransactionalEventSink<PrismaClientLike> = {
+      write: vi.fn().mockResolvedValue(undefined),
+    };
+    const order = new Order('o-1');
+    order.place();
+
+    const result = await new PrismaUnitOfWork(prisma, { events: sink }).transactionResult(
+      async (_tx, aggregates) => {
+        aggregates.track(order);
+        return Result.err<number, Error>(new Error('out of stock'));
+      },
+    );
+
+    expect(result.unwrapErr().message).toBe('out of stock');
+    await expect(vi.mocked(prisma.$transaction).mock.results[0]?.value).rejects.toThrow();
+    expect(sink.write).not.toHaveBeenCalled();
+    expect(order.getUncommittedEvents()).toHaveLength(1);
+  });
+
+  it('transactionResult() should still propagate exceptions thrown by work', async () => {
+    await expect(
+      unitOfWork.transactionResult(async () => {
+        throw new Error('connection lost');
+      }),
+    ).rejects.toThrow('connection lost');
+  });
+
   it('disconnect() should call $disconnect on the underlying client', async () => {
     await unitOfWork.disconnect();
 
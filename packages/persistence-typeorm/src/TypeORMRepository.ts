@@ -5,8 +5,10 @@
 /* eslint-disable @typescript-eslint/no-unsafe-member-access -- TypeORM framework boundary: entity properties */
 /* eslint-disable @typescript-eslint/no-unsafe-call -- TypeORM framework boundary: repository methods */
 import type { Repository, FindOptionsWhere, FindManyOptions, ObjectLiteral } from 'typeorm';
-import type { RepositoryPort } from '@marcusprado02/persistence';
+import type { QuerySpecification } from '@marcusprado02/kernel';
+import type { AggregateTracker, RepositoryPort } from '@marcusprado02/persistence';
 import type { TypeORMMapper } from './TypeORMMapper';
+import { toTypeORMWhere } from './TypeORMSpecification';
 
 /**
  * Abstract base repository for TypeORM
@@ -43,6 +45,7 @@ export abstract class TypeORMRepository<
   constructor(
     protected readonly repository: Repository<TPersistence>,
     protected readonly mapper: TypeORMMapper<TDomain, TPersistence>,
+    protected readonly aggregates?: AggregateTracker,
   ) {}
 
   /**
@@ -57,10 +60,12 @@ export abstract class TypeORMRepository<
 
   /**
    * Save domain entity to database
+   * A saved aggregate is registered with the unit of work's tracker, if any
    */
   async save(entity: TDomain): Promise<void> {
     const persistence = this.mapper.toPersistence(entity);
     await this.repository.save(persistence);
+    this.aggregates?.trackSaved(entity);
   }
 
   /**
@@ -85,6 +90,34 @@ export abstract class TypeORMRepository<
     return entities.map((e) => this.mapper.toDomain(e));
   }
 
+  /**
+   * Find entities matching a query specification.
+   * The specification is compiled to `FindOptionsWhere`, so filtering happens
+   * in the database.
+   */
+  async findBy(spec: QuerySpecification<TDomain>): Promise<TDomain[]> {
+    const where = this.toWhere(spec);
+    if (where.length === 0) return [];
+    return this.findMany({ where });
+  }
+
+  /**
+   * Count entities matching a query specification
+   */
+  async countBy(spec: QuerySpecification<TDomain>): Promise<number> {
+    const where = this.toWhere(spec);
+    if (where.length === 0) return 0;
+    return this.countMany({ where });
+  }
+
+  /**
+   * Map a domain field path used in specifications to the entity property.
+   * Override when the domain and persistence models use different names.
+   */
+  protected mapSpecificationField(field: string): string {
+    return field;
+  }
+
   /**
    * Check if entity exists by ID
    */
@@ -116,4 +149,10 @@ export abstract class TypeORMRepository<
   protected async countMany(options?: FindManyOptions<TPersistence>): Promise<number> {
     return await this.repository.count(options);
   }
+
+  private toWhere(spec: QuerySpecification<TDomain>): FindOptionsWhere<TPersistence>[] {
+    return toTypeORMWhere<TPersistence>(spec.expression, {
+      mapField: (field) => this.mapSpecificationField(field),
+    });
+  }
 }
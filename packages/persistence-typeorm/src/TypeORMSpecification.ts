@@ -0,0 +1,142 @@
+/**
+ * Compiles kernel `QuerySpecification` expression trees into TypeORM
+ * `FindOptionsWhere` so `TypeORMRepository.findBy(spec)` filters in the database.
+ */
+import {
+  And,
+  Between,
+  Equal,
+  ILike,
+  In,
+  IsNull,
+  LessThan,
+  LessThanOrEqual,
+  Like,
+  MoreThan,
+  MoreThanOrEqual,
+  Not,
+  type FindOperator,
+  type FindOptionsWhere,
+  type ObjectLiteral,
+} from 'typeorm';
+import type { SpecificationExpression } from '@marcusprado02/kernel';
+import {
+  needsNullBranch,
+  type FieldExpression,
+  type SpecificationTranslationOptions,
+} from '@marcusprado02/persistence';
+
+interface Condition {
+  readonly field: string;
+  readonly operator: FindOperator<unknown>;
+}
+
+/** A disjunction of conjunctions (disjunctive normal form). */
+type Conjunctions = Condition[][];
+
+/**
+ * Translate a specification expression into TypeORM `FindOptionsWhere`.
+ *
+ * `FindOptionsWhere` can only express an OR (array) of ANDs (object), so the
+ * expression is first normalised: negations are pushed down to field
+ * conditions (De Morgan) and `and` is distributed over `or`. Several
+ * conditions on the same field are combined with `And(...)`; dotted paths
+ * become nested relation/embedded filters. Conditions that match null fields
+ * in memory — `neq('x')`, negations — get an `IsNull()` alternative, as SQL
+ * would otherwise drop NULL rows (see `needsNullBranch`).
+ *
+ * An empty array means the specification can never match — note that TypeORM
+ * treats `where: []` as "no filter", so callers must short-circuit it.
+ *
+ * @example
+ * ```typescript
+ * toTypeORMWhere(user.where('age').gte(18).and(user.where('role').in(['a', 'b']).not()).expression);
+ * // → [{ age: MoreThanOrEqual(18), role: Not(In(['a', 'b'])) }]
+ * ```
+ */
+export function toTypeORMWhere<T extends ObjectLiteral>(
+  expression: SpecificationExpression,
+  options: SpecificationTranslationOptions = {},
+): FindOptionsWhere<T>[] {
+  const mapField = options.mapField ?? ((field: string): string => field);
+  return normalize(expression, false).map(
+    (conjunction) => toWhereObject(conjunction, mapField) as FindOptionsWhere<T>,
+  );
+}
+
+function normalize(expression: SpecificationExpression, negated: boolean): Conjunctions {
+  if (expression.kind === 'not') return normalize(expression.operand, !negated);
+  if (expression.kind === 'and' || expression.kind === 'or') {
+    const parts = expression.operands.map((op) => normalize(op, negated));
+    // De Morgan: a negated AND behaves as an OR of negations, and vice versa.
+    const conjunctive = (expression.kind === 'and') !== negated;
+    return conjunctive ? product(parts) : parts.flat();
+  }
+  const operator = toOperator(expression);
+  const condition = [{ field: expression.field, operator: negated ? Not(operator) : operator }];
+  return needsNullBranch(expression, negated)
+    ? [condition, [{ field: expression.field, operator: IsNull() }]]
+    : [condition];
+}
+
+function product(parts: Conjunctions[]): Conjunctions {
+  return parts.reduce<Conjunctions>(
+    (acc, part) => acc.flatMap((left) => part.map((right) => [...left, ...right])),
+    [[]],
+  );
+}
+
+function toOperator(expression: FieldExpression): FindOperator<unknown> {
+  switch (expression.kind) {
+    case 'comparison':
+      return comparisonOperator(expression.operator, expression.value);
+    case 'in':
+      return In([...expression.values]);
+    case 'between':
+      return Between(expression.min, expression.max);
+    case 'like':
+      return expression.caseInsensitive ? ILike(expression.pattern) : Like(expression.pattern);
+    case 'isNull':
+      return IsNull();
+  }
+}
+
+function comparisonOperator(
+  operator: Extract<SpecificationExpression, { kind: 'comparison' }>['operator'],
+  value: unknown,
+): FindOperator<unknown> {
+  const isNull = value === null || value === undefined;
+  switch (operator) {
+    case 'eq':
+      return isNull ? IsNull() : Equal(value);
+    case 'neq':
+      return Not(isNull ? IsNull() : Equal(value));
+    case 'gt':
+      return MoreThan(value);
+    case 'gte':
+      return MoreThanOrEqual(value);
+    case 'lt':
+      return LessThan(value);
+    case 'lte':
+      return LessThanOrEqual(value);
+  }
+}
+
+function toWhereObject(
+  conjunction: Condition[],
+  mapField: (field: string) => string,
+): Record<string, unknown> {
+  const where: Record<string, unknown> = {};
+  for (const { field, operator } of conjunction) {
+    const segments = mapField(field).split('.');
+    const leaf = segments.pop() as string;
+    let target = where;
+    for (const segment of segments) {
+      target[segment] ??= {};
+      target = target[segment] as Record<string, unknown>;
+    }
+    const existing = target[leaf] as FindOperator<unknown> | undefined;
+    target[leaf] = existing === undefined ? operator : And(existing, operator);
+  }
+  return where;
+}
@@ -6,10 +6,25 @@
 /* eslint-disable @typescript-eslint/no-unsafe-return -- TypeORM framework boundary: transaction callback returns any */
 import type { DataSource, EntityManager } from 'typeorm';
 import type { Result } from '@marcusprado02/kernel';
+import { AggregateTracker, rollbackOnErr } from '@marcusprado02/persistence';
+import type { TransactionalEventSink } from '@marcusprado02/persistence';
+
+export interface TypeORMUnitOfWorkOptions {
+  /**
+   * Receives the uncommitted events of the aggregates tracked during a
+   * transaction, inside that transaction (e.g. an outbox writer).
+   */
+  events?: TransactionalEventSink<EntityManager>;
+}
 
 /**
  * Unit of Work for managing transactions in TypeORM
  *
+ * Aggregates saved by a repository constructed with the tracker, or passed
+ * to `aggregates.track()`, have their uncommitted events written to the
+ * configured event sink before the transaction commits, and are marked
+ * committed once it has.
+ *
  * @example
  * ```typescript
  * const unitOfWork = new TypeORMUnitOfWork(dataSource);
@@ -23,30 +38,51 @@ import type { Result } from '@marcusprado02/kernel';
  *
  *   // Both saves are committed together
  * });
+ *
+ * // With a transactional outbox
+ * const outboxUnitOfWork = new TypeORMUnitOfWork(dataSource, { events: outboxWriter });
+ * await outboxUnitOfWork.transaction(async (manager, aggregates) => {
+ *   await new OrderRepository(manager.getRepository(OrderEntity), mapper, aggregates).save(order);
+ * });
  * ```
  */
 export class TypeORMUnitOfWork {
-  constructor(private readonly dataSource: DataSource) {}
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly options: TypeORMUnitOfWorkOptions = {},
+  ) {}
 
   /**
    * Execute work within a transaction
    * All operations are committed if successful, rolled back on error
    */
-  async transaction<T>(work: (manager: EntityManager) => Promise<T>): Promise<T> {
-    return await this.dataSource.transaction(work);
+  async transaction<T>(
+    work: (manager: EntityManager, aggregates: AggregateTracker) => Promise<T>,
+  ): Promise<T> {
+    const aggregates = new AggregateTracker();
+    const result = await this.dataSource.transaction(async (manager) => {
+      const value = await work(manager, aggregates);
+      await this.options.events?.write(aggregates.collectEvents(), manager);
+      return value;
+    });
+    aggregates.markCommitted();
+    return result;
   }
 
   /**
    * Execute work within a transaction with Result type
    * Returns Result.ok on success, Result.err on failure
+   * A Result.err rolls the transaction back without writing any events
    *
    * Note: The work function should handle errors internally and return Result.err()
    * Any exceptions thrown will propagate normally.
    */
   async transactionResult<T, E extends Error>(
-    work: (manager: EntityManager) => Promise<Result<T, E>>,
+    work: (manager: EntityManager, aggregates: AggregateTracker) => Promise<Result<T, E>>,
   ): Promise<Result<T, E>> {
-    return await this.dataSource.transaction(work);
+    return await rollbackOnErr((abortOnErr) =>
+      this.transaction(async (manager, aggregates) => abortOnErr(await work(manager, aggregates))),
+    );
   }
 
   /**
@@ -6,6 +6,8 @@
  */
 
 export { TypeORMRepository } from './TypeORMRepository';
+export { toTypeORMWhere } from './TypeORMSpecification';
 export { TypeORMUnitOfWork } from './TypeORMUnitOfWork';
+export type { TypeORMUnitOfWorkOptions } from './TypeORMUnitOfWork';
 export { TypeORMPaginator } from './TypeORMPaginator';
 export type { TypeORMMapper } from './TypeORMMapper';
@@ -4,7 +4,8 @@
  * Tests for TypeORM Repository implementation
  */
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import type { Repository, FindOptionsWhere } from 'typeorm';
+import { Equal, type Repository, type FindOptionsWhere } from 'typeorm';
+import { QuerySpecification } from '@marcusprado02/kernel';
 import { TypeORMRepository } from './TypeORMRepository';
 import type { TypeORMMapper } from './TypeORMMapper';
 
@@ -168,4 +169,39 @@ describe('TypeORMRepository', () => {
       expect(repository.delete).toHaveBeenCalledWith({ id: '1' });
     });
   });
+
+  describe('findBy / countBy', () => {
+    const spec = QuerySpecification.of<User>();
+
+    it('should find entities with the compiled where clause', async () => {
+      vi.mocked(repository.find).mockResolvedValue([
+        { id: '1', name: 'John Doe', email: 'john@example.com' },
+      ]);
+
+      const result = await userRepository.findBy(spec.where('name').eq('John Doe'));
+
+      expect(result).toHaveLength(1);
+      expect(repository.find).toHaveBeenCalledWith({ where: [{ name: Equal('John Doe') }] });
+    });
+
+    it('should count entities with the compiled where clause', async () => {
+      vi.mocked(repository.count).mockResolvedValue(4);
+
+      const result = await userRepository.countBy(spec.where('email').eq('john@example.com'));
+
+      expect(result).toBe(4);
+      expect(repository.count).toHaveBeenCalledWith({
+        where: [{ email: Equal('john@example.com') }],
+      });
+    });
+
+    it('should not query when the specification can never match', async () => {
+      const never = spec.any();
+
+      expect(await userRepository.findBy(never)).toEqual([]);
+      expect(await userRepository.countBy(never)).toBe(0);
+      expect(repository.find).not.toHaveBeenCalled();
+      expect(repository.count).not.toHaveBeenCalled();
+    });
+  });
 });
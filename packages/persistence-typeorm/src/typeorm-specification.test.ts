@@ -0,0 +1,167 @@
+/**
+ * Tests for the TypeORM specification translator
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  And,
+  Between,
+  Equal,
+  ILike,
+  In,
+  IsNull,
+  LessThan,
+  Like,
+  MoreThan,
+  MoreThanOrEqual,
+  Not,
+  type FindOperator,
+} from 'typeorm';
+import { QuerySpecification } from '@marcusprado02/kernel';
+import { toTypeORMWhere } from './TypeORMSpecification';
+
+interface Order {
+  status: string;
+  total: number;
+  note: string | null;
+}
+
+const order = QuerySpecification.of<Order>();
+
+type Truth = boolean | null;
+
+const all = (values: Truth[]): Truth =>
+  values.includes(false) ? false : values.includes(null) ? null : true;
+
+/** Evaluates a flat find-options object with SQL three-valued logic (`null` = UNKNOWN). */
+function sqlTruth(where: Record<string, unknown>, row: object): Truth {
+  return all(
+    Object.entries(where).map(([field, op]) =>
+      operatorTruth(op as FindOperator<unknown>, (row as Record<string, unknown>)[field] ?? null),
+    ),
+  );
+}
+
+function operatorTruth(op: FindOperator<unknown>, value: unknown): Truth {
+  if (op.type === 'isNull') return value === null;
+  if (op.type === 'not') {
+    const inner = operatorTruth(op.child as FindOperator<unknown>, value);
+    return inner === null ? null : !inner;
+  }
+  if (op.type === 'and')
+    return all((op.value as FindOperator<unknown>[]).map((o) => operatorTruth(o, value)));
+  if (value === null) return null;
+  const v = value as number;
+  const operand = op.value as number;
+  switch (op.type) {
+    case 'equal':
+      return v === operand;
+    case 'in':
+      return (op.value as unknown[]).includes(v);
+    case 'moreThan':
+      return v > operand;
+    case 'moreThanOrEqual':
+      return v >= operand;
+    case 'lessThan':
+      return v < operand;
+    case 'lessThanOrEqual':
+      return v <= operand;
+    default:
+      throw new Error(`unsupported operator ${op.type}`);
+  }
+}
+
+describe('toTypeORMWhere', () => {
+  it('should translate field conditions into find operators', () => {
+    expect(toTypeORMWhere(order.where('total').gt(1).expression)).toEqual([{ total: MoreThan(1) }]);
+    expect(toTypeORMWhere(order.where('status').in(['a']).expression)).toEqual([
+      { status: In(['a']) },
+    ]);
+    expect(toTypeORMWhere(order.where('total').between(1, 2).expression)).toEqual([
+      { total: Between(1, 2) },
+    ]);
+    expect(toTypeORMWhere(order.where('status').like('a%').expression)).toEqual([
+      { status: Like('a%') },
+    ]);
+    expect(toTypeORMWhere(order.where('status').ilike('a%').expression)).toEqual([
+      { status: ILike('a%') },
+    ]);
+    expect(toTypeORMWhere(order.where('note').isNull().expression)).toEqual([{ note: IsNull() }]);
+  });
+
+  it('should map null equality to IsNull', () => {
+    expect(toTypeORMWhere(order.where('note').eq(null).expression)).toEqual([{ note: IsNull() }]);
+    expect(toTypeORMWhere(order.where('note').neq(null).expression)).toEqual([
+      { note: Not(IsNull()) },
+    ]);
+  });
+
+  it('should merge a conjunction into one object and combine repeated fields with And', () => {
+    const spec = order.all(
+      order.where('status').eq('open'),
+      order.where('total').gte(10),
+      order.where('total').lt(20),
+    );
+    expect(toTypeORMWhere(spec.expression)).toEqual([
+      { status: Equal('open'), total: And(MoreThanOrEqual(10), LessThan(20)) },
+    ]);
+  });
+
+  it('should distribute and over or', () => {
+    const spec = order
+      .where('status')
+      .eq('open')
+      .and(order.where('total').gt(0).or(order.where('note').isNotNull()));
+    expect(toTypeORMWhere(spec.expression)).toEqual([
+      { status: Equal('open'), total: MoreThan(0) },
+      { status: Equal('open'), note: Not(IsNull()) },
+    ]);
+  });
+
+  it('should push negations down to field conditions', () => {
+    const spec = order.where('status').eq('open').or(order.where('total').gt(0)).not();
+    expect(toTypeORMWhere(spec.expression)).toEqual([
+      { status: Not(Equal('open')), total: Not(MoreThan(0)) },
+      { status: Not(Equal('open')), total: IsNull() },
+      { status: IsNull(), total: Not(MoreThan(0)) },
+      { status: IsNull(), total: IsNull() },
+    ]);
+
+    const doubleNegation = order.where('status').eq('open').not().not();
+    expect(toTypeORMWhere(doubleNegation.expression)).toEqual([{ status: Equal('open') }]);
+  });
+
+  it('should match null fields exactly as the in-memory evaluation does', () => {
+    const rows: Order[] = [
+      { status: 'open', total: 5, note: null },
+      { status: 'x', total: 0, note: 'n' },
+      { status: null as unknown as string, total: null as unknown as number, note: null },
+    ];
+    const specs = [
+      order.where('status').neq('x'),
+      order.where('total').gt(1).not(),
+      order.where('status').in(['open']).not(),
+      order.where('status').eq('x').or(order.where('total').gte(1)).not(),
+      order.where('note').isNull().not(),
+      order.where('status').neq('x').not(),
+    ];
+
+    for (const spec of specs) {
+      const where = toTypeORMWhere<Order>(spec.expression) as Array<Record<string, unknown>>;
+      expect(rows.filter((row) => where.some((w) => sqlTruth(w, row) === true))).toEqual(
+        rows.filter((row) => spec.isSatisfiedBy(row)),
+      );
+    }
+  });
+
+  it('should nest dotted paths and apply the field mapping', () => {
+    const spec = order.path('customer.city').eq('Recife');
+    expect(
+      toTypeORMWhere(spec.expression, { mapField: (f) => f.replace('customer', 'buyer') }),
+    ).toEqual([{ buyer: { city: Equal('Recife') } }]);
+  });
+
+  it('should return no conjunctions for an empty disjunction', () => {
+    expect(toTypeORMWhere(order.any().expression)).toEqual([]);
+    expect(toTypeORMWhere(order.all().expression)).toEqual([{}]);
+  });
+});
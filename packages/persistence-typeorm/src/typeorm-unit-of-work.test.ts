@@ -0,0 +1,145 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment -- Vitest mock objects require any-typed assignments */
+/* eslint-disable @typescript-eslint/unbound-method -- Vitest mocking pattern requires unbound methods */
+/* eslint-disable @typescript-eslint/explicit-function-return-type -- test helper functions */
+/* eslint-disable max-lines-per-function -- test files naturally have longer functions */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { DataSource, EntityManager, FindOptionsWhere, Repository } from 'typeorm';
+import { AggregateRoot, DomainEvent, Result } from '@marcusprado02/kernel';
+import { AggregateTracker } from '@marcusprado02/persistence';
+import type { TransactionalEventSink } from '@marcusprado02/persistence';
+import { TypeORMRepository } from './TypeORMRepository';
+import { TypeORMUnitOfWork } from './TypeORMUnitOfWork';
+
+class OrderPlaced extends DomainEvent {}
+
+class Order extends AggregateRoot<string> {
+  place(): void {
+    this.record(new OrderPlaced());
+  }
+}
+
+interface OrderEntity {
+  id: string;
+}
+
+class OrderRepository extends TypeORMRepository<Order, string, OrderEntity> {
+  protected getIdValue(id: string): string {
+    return id;
+  }
+
+  protected getWhereClause(id: string): FindOptionsWhere<OrderEntity> {
+    return { id };
+  }
+}
+
+describe('TypeORMUnitOfWork', () => {
+  let manager: EntityManager;
+  let dataSource: DataSource;
+
+  beforeEach(() => {
+    manager = {} as EntityManager;
+    dataSource = {
+      transaction: vi
+        .fn()
+        .mockImplementation((fn: (m: EntityManager) => Promise<unknown>) => fn(manager)),
+      isInitialized: true,
+    } as unknown as DataSource;
+  });
+
+  it('transaction() should run work with the transactional entity manager', async () => {
+    const work = vi.fn().mockResolvedValue('done');
+
+    const result = await new TypeORMUnitOfWork(dataSource).transaction(work);
+
+    expect(result).toBe('done');
+    expect(work).toHaveBeenCalledWith(manager, expect.any(AggregateTracker));
+  });
+
+  it('transactionResult() should return the Result value produced by work', async () => {
+    const result = await new TypeORMUnitOfWork(dataSource).transactionResult(async () =>
+      Result.ok<number, Error>(42),
+    );
+
+    expect(result.unwrap()).toBe(42);
+  });
+
+  it('transactionResult() should roll back without writing events when work returns an Err', async () => {
+    const sink: TransactionalEventSink<EntityManager> = {
+      write: vi.fn().mockResolvedValue(undefined),
+    };
+    const order = new Order('o-1');
+    order.place();
+
+    const result = await new TypeORMUnitOfWork(dataSource, { events: sink }).transactionResult(
+      async (_manager, aggregates) => {
+        aggregates.track(order);
+        return Result.err<number, Error>(new Error('out of stock'));
+      },
+    );
+
+    expect(result.unwrapErr().message).toBe('out of stock');
+    await expect(vi.mocked(dataSource.transaction).mock.results[0]?.value).rejects.toThrow();
+    expect(sink.write).not.toHaveBeenCalled();
+    expect(order.getUncommittedEvents()).toHaveLength(1);
+  });
+
+  it('transaction() should write tracked aggregate events with the entity manager', async () => {
+    const sink: TransactionalEventSink<EntityManager> = {
+      write: vi.fn().mockResolvedValue(undefined),
+    };
+    const order = new Order('o-1');
+    order.place();
+    const [placed] = order.getUncommittedEvents();
+
+    await new TypeORMUnitOfWork(dataSource, { events: sink }).transaction(
+      async (_manager, aggregates) => {
+        aggregates.track(order);
+      },
+    );
+
+    expect(sink.write).toHaveBeenCalledWith([placed], manager);
+    expect(order.getUncommittedEvents()).toHaveLength(0);
+  });
+
+  it('transaction() should write the events of aggregates saved by a repository with the tracker', async () => {
+    const sink: TransactionalEventSink<EntityManager> = {
+      write: vi.fn().mockResolvedValue(undefined),
+    };
+    const order = new Order('o-1');
+    order.place();
+    const [placed] = order.getUncommittedEvents();
+    const entities = { save: vi.fn() } as unknown as Repository<OrderEntity>;
+    const mapper = {
+      toPersistence: (domain: Order) => ({ id: domain.id }),
+      toDomain: (entity: OrderEntity) => new Order(entity.id),
+    };
+
+    await new TypeORMUnitOfWork(dataSource, { events: sink }).transaction(
+      async (_manager, aggregates) => {
+        await new OrderRepository(entities, mapper, aggregates).save(order);
+      },
+    );
+
+    expect(sink.write).toHaveBeenCalledWith([placed], manager);
+    expect(order.getUncommittedEvents()).toHaveLength(0);
+  });
+
+  it('transaction() should leave events uncommitted when the work fails', async () => {
+    const sink: TransactionalEventSink<EntityManager> = {
+      write: vi.fn().mockResolvedValue(undefined),
+    };
+    const order = new Order('o-1');
+    order.place();
+
+    await expect(
+      new TypeORMUnitOfWork(dataSource, { events: sink }).transaction(
+        async (_manager, aggregates) => {
+          aggregates.track(order);
+          throw new Error('constraint violated');
+        },
+      ),
+    ).rejects.toThrow('constraint violated');
+    expect(sink.write).not.toHaveBeenCalled();
+    expect(order.getUncommittedEvents()).toHaveLength(1);
+  });
+});
@@ -25,3 +25,20 @@ export { N1Detector } from './query/N1Detector';
 export { QueryResultCache } from './query/QueryResultCache';
 export { ConnectionPoolMonitor } from './query/ConnectionPoolMonitor';
 export { QueryPlanner } from './query/QueryPlanner';
+
+// Specification translation
+export type {
+  FieldExpression,
+  SpecificationTranslationOptions,
+} from './specification/SpecificationTranslation';
+export { needsNullBranch } from './specification/SpecificationTranslation';
+export { UnsupportedSpecificationError } from './specification/UnsupportedSpecificationError';
+
+// PostgreSQL clients
+export type { PostgresClientLike, PostgresQueryResult } from './postgres/PostgresClientLike';
+export { assertIdentifier } from './postgres/PostgresClientLike';
+
+// Transactions
+export type { TransactionalEventSink } from './transactions/AggregateTracker';
+export { AggregateTracker } from './transactions/AggregateTracker';
+export { rollbackOnErr } from './transactions/rollbackOnErr';
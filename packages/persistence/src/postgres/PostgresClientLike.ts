@@ -0,0 +1,35 @@
+/**
+ * Structural interfaces for PostgreSQL clients.
+ *
+ * They match the shape of `pg` (node-postgres) `Pool` / `Client` without
+ * importing the driver, so adapters stay driver-independent and tests can
+ * use in-process fakes. Cast at the infrastructure boundary:
+ *
+ * ```typescript
+ * import { Pool } from 'pg';
+ * const pool = new Pool() as unknown as PostgresClientLike;
+ * ```
+ */
+
+export interface PostgresQueryResult<TRow> {
+  readonly rows: TRow[];
+  readonly rowCount: number | null;
+}
+
+/** A pool or client able to run parameterised queries. */
+export interface PostgresClientLike {
+  query<TRow = Record<string, unknown>>(
+    text: string,
+    values?: readonly unknown[],
+  ): Promise<PostgresQueryResult<TRow>>;
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+/** Validates a (optionally schema-qualified) table or channel name used in SQL text. */
+export function assertIdentifier(name: string): string {
+  if (!IDENTIFIER.test(name)) {
+    throw new Error(`Invalid PostgreSQL identifier "${name}"`);
+  }
+  return name;
+}
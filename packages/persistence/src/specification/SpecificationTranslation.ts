@@ -0,0 +1,38 @@
+import { QuerySpecification, type SpecificationExpression } from '@marcusprado02/kernel';
+
+/**
+ * Options shared by the persistence adapters' specification translators.
+ */
+export interface SpecificationTranslationOptions {
+  /**
+   * Maps a domain field path used in the specification to the persistence
+   * field/column name. Defaults to the identity mapping.
+   */
+  readonly mapField?: (field: string) => string;
+}
+
+/** A specification expression that tests a single field. */
+export type FieldExpression = Exclude<SpecificationExpression, { kind: 'and' | 'or' | 'not' }>;
+
+/**
+ * Whether a SQL translation of `expression` — negated when `negated` — needs
+ * an explicit `OR field IS NULL` to match the in-memory semantics.
+ *
+ * In memory a null or missing field simply fails every test against a value,
+ * so `neq('x')` and `not(gt(5))` match it. SQL's three-valued logic makes
+ * both UNKNOWN on NULL and drops the row. Null tests themselves (`isNull`,
+ * `eq(null)`, `neq(null)`) are never UNKNOWN and need no branch.
+ */
+export function needsNullBranch(expression: FieldExpression, negated: boolean): boolean {
+  if (isNullTest(expression)) return false;
+  return new QuerySpecification<unknown>(expression).isSatisfiedBy({}) !== negated;
+}
+
+function isNullTest(expression: FieldExpression): boolean {
+  if (expression.kind === 'isNull') return true;
+  return (
+    expression.kind === 'comparison' &&
+    (expression.operator === 'eq' || expression.operator === 'neq') &&
+    (expression.value === null || expression.value === undefined)
+  );
+}
@@ -0,0 +1,17 @@
+import type { SpecificationExpression } from '@marcusprado02/kernel';
+
+/**
+ * Thrown by a specification translator when an expression cannot be expressed
+ * in the target backend's native query language (e.g. an arbitrary `LIKE`
+ * pattern for Prisma). Callers may fall back to in-memory evaluation.
+ */
+export class UnsupportedSpecificationError extends Error {
+  constructor(
+    readonly backend: string,
+    readonly expression: SpecificationExpression,
+    reason: string,
+  ) {
+    super(`Cannot translate '${expression.kind}' specification to ${backend}: ${reason}`);
+    this.name = 'UnsupportedSpecificationError';
+  }
+}
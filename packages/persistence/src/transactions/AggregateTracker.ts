@@ -0,0 +1,62 @@
+import { AggregateRoot } from '@marcusprado02/kernel';
+import type { DomainEvent } from '@marcusprado02/kernel';
+
+/**
+ * Writes domain events inside the transaction of a unit of work, so they are
+ * stored atomically with the state change (e.g. as transactional outbox
+ * messages).
+ *
+ * @template TTransaction  The transaction handle of the unit of work
+ *   (Prisma transaction client, TypeORM `EntityManager`, MongoDB session).
+ */
+export interface TransactionalEventSink<TTransaction> {
+  write(events: readonly DomainEvent[], transaction: TTransaction): Promise<void>;
+}
+
+/**
+ * Collects the aggregates saved during a unit of work. When the work is done
+ * the unit of work writes their uncommitted events to its
+ * {@link TransactionalEventSink} before committing, and marks them
+ * committed once the transaction succeeded.
+ *
+ * Repositories constructed with the tracker register every aggregate they
+ * save; {@link track} covers writes made without a repository.
+ *
+ * @example
+ * ```typescript
+ * await unitOfWork.transaction(async (tx, aggregates) => {
+ *   await new OrderRepository(tx.order, mapper, aggregates).save(order);
+ * });
+ * ```
+ */
+export class AggregateTracker {
+  private readonly aggregates = new Set<AggregateRoot<unknown>>();
+
+  /** Registers a saved aggregate; tracking the same instance twice is a no-op. */
+  track(aggregate: AggregateRoot<unknown>): void {
+    this.aggregates.add(aggregate);
+  }
+
+  /** Registers a saved entity if it is an aggregate root; other entities carry no events. */
+  trackSaved(entity: unknown): void {
+    if (entity instanceof AggregateRoot) this.track(entity as AggregateRoot<unknown>);
+  }
+
+  /** Uncommitted events of all tracked aggregates, in tracking order. */
+  collectEvents(): DomainEvent[] {
+    return Array.from(this.aggregates).flatMap((aggregate) => [
+      ...aggregate.getUncommittedEvents(),
+    ]);
+  }
+
+  /** Marks the events of all tracked aggregates as committed. */
+  markCommitted(): void {
+    for (const aggregate of this.aggregates) {
+      aggregate.markEventsAsCommitted();
+    }
+  }
+
+  get size(): number {
+    return this.aggregates.size;
+  }
+}
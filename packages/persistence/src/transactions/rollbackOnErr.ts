@@ -0,0 +1,43 @@
+import type { Result } from '@marcusprado02/kernel';
+
+/** Aborts a transaction whose work returned an Err; never leaves {@link rollbackOnErr}. */
+class ErrRollback extends Error {
+  constructor() {
+    super('Transaction rolled back: the work returned an Err');
+    this.name = 'ErrRollback';
+  }
+}
+
+/**
+ * Runs a transaction whose work returns a `Result`, rolling it back when the
+ * work returns an Err. `run` starts the transaction and passes the work's
+ * result through `abortOnErr`, which throws on an Err so that the transaction
+ * aborts before its event sink is written; the Err is then returned as is.
+ *
+ * @example
+ * ```typescript
+ * transactionResult<T, E>(work: ...): Promise<Result<T, E>> {
+ *   return rollbackOnErr((abortOnErr) =>
+ *     this.transaction(async (tx, aggregates) => abortOnErr(await work(tx, aggregates))),
+ *   );
+ * }
+ * ```
+ */
+export async function rollbackOnErr<T, E>(
+  run: (abortOnErr: (result: Result<T, E>) => Result<T, E>) => Promise<Result<T, E>>,
+): Promise<Result<T, E>> {
+  let failed: Result<T, E> | undefined;
+  const abortOnErr = (result: Result<T, E>): Result<T, E> => {
+    if (result.isErr()) {
+      failed = result;
+      throw new ErrRollback();
+    }
+    return result;
+  };
+  try {
+    return await run(abortOnErr);
+  } catch (error) {
+    if (error instanceof ErrRollback && failed !== undefined) return failed;
+    throw error;
+  }
+}
@@ -0,0 +1,156 @@
+import { StateMachine } from './StateMachine.js';
+import type { TransitionRule } from './types.js';
+
+/** Events a declarative state machine reacts to are discriminated by `type`. */
+export interface MachineEvent {
+  readonly type: string;
+}
+
+/** Side effect run on entry to / exit from a state or when a transition is taken. */
+export type MachineAction<TContext, TEvent> = (
+  context: TContext,
+  event: TEvent,
+) => void | Promise<void>;
+
+/** Enables a transition only when it returns `true`. */
+export type MachineGuard<TContext, TEvent> = (context: TContext, event: TEvent) => boolean;
+
+export interface MachineTransition<TState, TContext, TEvent> {
+  readonly target: TState;
+  readonly guard?: MachineGuard<TContext, TEvent>;
+  readonly actions?: readonly MachineAction<TContext, TEvent>[];
+}
+
+export interface MachineStateNode<TState, TContext, TEvent> {
+  /**
+   * Transitions by event type. With several candidates for one event type,
+   * the first whose guard passes is taken.
+   */
+  readonly on?: Readonly<
+    Record<
+      string,
+      | MachineTransition<TState, TContext, TEvent>
+      | readonly MachineTransition<TState, TContext, TEvent>[]
+    >
+  >;
+  readonly entry?: readonly MachineAction<TContext, TEvent>[];
+  readonly exit?: readonly MachineAction<TContext, TEvent>[];
+  /** A process reaching a final state is complete. */
+  readonly final?: boolean;
+}
+
+export interface MachineDefinition<TState extends string, TContext, TEvent> {
+  readonly initial: TState;
+  readonly states: Readonly<Record<TState, MachineStateNode<TState, TContext, TEvent>>>;
+}
+
+/**
+ * {@link StateMachine} described declaratively: per-state transitions keyed
+ * by event type, with guards and entry/exit/transition actions.
+ *
+ * The transition rules inherited from `StateMachine` are derived from the
+ * definition, so `canTransition` / `getAllowedTransitions` keep working.
+ *
+ * @example
+ * ```ts
+ * const machine = new DeclarativeStateMachine<OrderState, Ctx, OrderEvent>({
+ *   initial: 'pending',
+ *   states: {
+ *     pending: { on: { OrderPlaced: { target: 'awaiting-payment' } } },
+ *     'awaiting-payment': {
+ *       entry: [(ctx) => ctx.scheduleTimeout(30 * 60_000)],
+ *       on: {
+ *         PaymentReceived: { target: 'paid', guard: (_ctx, e) => e.amount > 0 },
+ *         'process.timeout': { target: 'cancelled', actions: [cancelOrder] },
+ *       },
+ *     },
+ *     paid: { final: true },
+ *     cancelled: { final: true },
+ *   },
+ * });
+ * ```
+ */
+export class DeclarativeStateMachine<
+  TState extends string,
+  TContext,
+  TEvent extends MachineEvent,
+> extends StateMachine<TState> {
+  constructor(readonly definition: MachineDefinition<TState, TContext, TEvent>) {
+    super(rulesOf(definition));
+  }
+
+  get initial(): TState {
+    return this.definition.initial;
+  }
+
+  isFinal(state: TState): boolean {
+    return this.definition.states[state].final === true;
+  }
+
+  /** Event types the state has transitions for. */
+  getAcceptedEvents(state: TState): string[] {
+    return Object.keys(this.definition.states[state].on ?? {});
+  }
+
+  /** Runs the entry actions of the initial state, e.g. when a process starts. */
+  async enterInitial(context: TContext, event: TEvent): Promise<void> {
+    await runActions(this.definition.states[this.definition.initial].entry, context, event);
+  }
+
+  /**
+   * Takes the first enabled transition for `event` from `state`, running the
+   * exit actions of `state`, the transition's actions and the entry actions
+   * of the target, in that order. Returns the target state, or `undefined`
+   * when no transition is enabled (the event is ignored).
+   */
+  async send(state: TState, event: TEvent, context: TContext): Promise<TState | undefined> {
+    const transition = this.enabledTransition(state, event, context);
+    if (transition === undefined) return undefined;
+    await runActions(this.definition.states[state].exit, context, event);
+    await runActions(transition.actions, context, event);
+    await runActions(this.definition.states[transition.target].entry, context, event);
+    return transition.target;
+  }
+
+  private enabledTransition(
+    state: TState,
+    event: TEvent,
+    context: TContext,
+  ): MachineTransition<TState, TContext, TEvent> | undefined {
+    const candidates = this.definition.states[state].on?.[event.type];
+    if (candidates === undefined) return undefined;
+    return listOf(candidates).find((candidate) => candidate.guard?.(context, event) ?? true);
+  }
+}
+
+function rulesOf<TState extends string, TContext, TEvent>(
+  definition: MachineDefinition<TState, TContext, TEvent>,
+): TransitionRule<TState>[] {
+  const rules: TransitionRule<TState>[] = [];
+  for (const from of Object.keys(definition.states) as TState[]) {
+    for (const candidates of Object.values(definition.states[from].on ?? {})) {
+      for (const { target } of listOf(candidates)) {
+        if (!rules.some((rule) => rule.from === from && rule.to === target)) {
+          rules.push({ from, to: target });
+        }
+      }
+    }
+  }
+  return rules;
+}
+
+/** @internal Normalises a single transition or a list of candidates to a list. */
+export function listOf<T>(candidates: T | readonly T[]): readonly T[] {
+  return Array.isArray(candidates) ? (candidates as readonly T[]) : [candidates as T];
+}
+
+/** @internal Runs actions one after another. */
+export async function runActions<TContext, TEvent>(
+  actions: readonly MachineAction<TContext, TEvent>[] | undefined,
+  context: TContext,
+  event: TEvent,
+): Promise<void> {
+  for (const action of actions ?? []) {
+    await action(context, event);
+  }
+}
@@ -1,3 +1,5 @@
+import { ProcessConcurrencyError } from './ProcessConcurrencyError.js';
+import { ProcessCorrelationConflictError } from './ProcessCorrelationConflictError.js';
 import type { ProcessState, ProcessStatus, ProcessStore } from './types.js';
 
 /**
@@ -8,7 +10,18 @@ export class InMemoryProcessStore<TState = unknown> implements ProcessStore<TSta
   private readonly byId = new Map<string, ProcessState<TState>>();
   private readonly byCorrelation = new Map<string, string>(); // correlationId → processId
 
-  save(state: ProcessState<TState>): Promise<void> {
+  save(state: ProcessState<TState>, expectedVersion?: number): Promise<void> {
+    const actualVersion = this.byId.get(state.id)?.version ?? 0;
+    if (expectedVersion !== undefined && actualVersion !== expectedVersion) {
+      return Promise.reject(new ProcessConcurrencyError(state.id, expectedVersion, actualVersion));
+    }
+    const holder =
+      state.correlationId !== undefined ? this.byCorrelation.get(state.correlationId) : undefined;
+    if (state.correlationId !== undefined && holder !== undefined && holder !== state.id) {
+      return Promise.reject(
+        new ProcessCorrelationConflictError(state.correlationId, state.id, holder),
+      );
+    }
     const clone = structuredClone(state);
 
     // Update correlation index
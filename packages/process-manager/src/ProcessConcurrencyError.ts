@@ -0,0 +1,17 @@
+/**
+ * Thrown by a {@link ProcessStore} when a process state is saved with an
+ * `expectedVersion` that no longer matches the stored one — another handler
+ * saved the process in the meantime.
+ */
+export class ProcessConcurrencyError extends Error {
+  constructor(
+    readonly processId: string,
+    readonly expectedVersion: number,
+    readonly actualVersion: number,
+  ) {
+    super(
+      `Process '${processId}' was modified concurrently: expected version ${expectedVersion}, found ${actualVersion}`,
+    );
+    this.name = 'ProcessConcurrencyError';
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Thrown by a {@link ProcessStore} when a process is saved under a
+ * correlation id that another process already holds — e.g. two handlers
+ * started a process for the same business key concurrently.
+ */
+export class ProcessCorrelationConflictError extends Error {
+  constructor(
+    readonly correlationId: string,
+    readonly processId: string,
+    readonly existingProcessId: string,
+  ) {
+    super(
+      `Process '${processId}' cannot use correlation id '${correlationId}': it belongs to process '${existingProcessId}'`,
+    );
+    this.name = 'ProcessCorrelationConflictError';
+  }
+}
@@ -0,0 +1,281 @@
+import type { JobRegistration, SchedulerPort } from '@marcusprado02/scheduler';
+import type { DeclarativeStateMachine, MachineEvent } from './DeclarativeStateMachine.js';
+import { ProcessConcurrencyError } from './ProcessConcurrencyError.js';
+import { ProcessCorrelationConflictError } from './ProcessCorrelationConflictError.js';
+import { ProcessCorrelator } from './ProcessCorrelator.js';
+import type { ProcessMonitor } from './ProcessMonitor.js';
+import type { ProcessState, ProcessStore } from './types.js';
+
+/** Event type of the event delivered when a process timeout expires. */
+export const PROCESS_TIMEOUT = 'process.timeout';
+
+export interface ProcessTimeoutEvent extends MachineEvent {
+  readonly type: typeof PROCESS_TIMEOUT;
+  readonly processId: string;
+  readonly timeoutAt: Date;
+}
+
+/** What guards and actions of a managed process can see and do. */
+export interface ProcessContext<TState> {
+  /** The process being advanced, including its current (pre-transition) state. */
+  readonly process: Readonly<ProcessState<TState>>;
+  /** Delivers a {@link ProcessTimeoutEvent} after `delayMs`, replacing any pending timeout. */
+  scheduleTimeout(delayMs: number): void;
+  cancelTimeout(): void;
+}
+
+export interface ProcessDefinition<TState extends string, TEvent extends MachineEvent> {
+  readonly name: string;
+  readonly machine: DeclarativeStateMachine<
+    TState,
+    ProcessContext<TState>,
+    TEvent | ProcessTimeoutEvent
+  >;
+  /** Business key the event belongs to (e.g. an order id); `undefined` to ignore the event. */
+  correlate(event: TEvent): string | undefined;
+  /** Event types that start a new process when no instance is correlated yet. */
+  readonly startedBy: readonly string[];
+}
+
+export interface ProcessManagerRuntimeOptions {
+  /** Caches correlation keys of running processes. Default: a new correlator. */
+  correlator?: ProcessCorrelator;
+  monitor?: ProcessMonitor;
+  /**
+   * Times an event is re-applied after a {@link ProcessConcurrencyError} or a
+   * {@link ProcessCorrelationConflictError}. Default: 3.
+   */
+  maxConflictRetries?: number;
+  /** Generates ids of new processes. Default: `crypto.randomUUID()`. */
+  generateId?: () => string;
+}
+
+/**
+ * Runs a {@link ProcessDefinition}: routes events to process instances, drives
+ * their {@link DeclarativeStateMachine} and persists them in a {@link ProcessStore}.
+ *
+ * - Events are correlated by business key, through the {@link ProcessCorrelator}
+ *   first and the store's correlation index otherwise.
+ * - Every save passes the version the process was loaded at; when another
+ *   handler saved it first, the event is re-applied to the fresh state, so
+ *   actions may run more than once and should be idempotent. Likewise, when
+ *   another handler started a process for the same key first, the store
+ *   rejects the duplicate and the event is applied to that process instead.
+ * - Timeouts requested through {@link ProcessContext.scheduleTimeout} are
+ *   persisted as `timeoutAt` and registered as one-off jobs on a
+ *   {@link SchedulerPort}. When the job runs, a `process.timeout` event is
+ *   delivered to the machine; without a transition for it the process ends
+ *   `timed-out`. Call {@link recover} on startup to re-register the timeouts
+ *   of running processes with a non-durable scheduler.
+ *
+ * @example
+ * ```ts
+ * const runtime = new ProcessManagerRuntime(orderFulfilment, store, scheduler, { monitor });
+ * await runtime.recover();
+ * consumer.subscribe('OrderPlaced', { handle: (e) => runtime.handle(e.payload) });
+ * ```
+ */
+export class ProcessManagerRuntime<TState extends string, TEvent extends MachineEvent> {
+  private readonly correlator: ProcessCorrelator;
+  private readonly maxConflictRetries: number;
+  private readonly generateId: () => string;
+
+  constructor(
+    private readonly definition: ProcessDefinition<TState, TEvent>,
+    private readonly store: ProcessStore<TState>,
+    private readonly scheduler: SchedulerPort,
+    private readonly options: ProcessManagerRuntimeOptions = {},
+  ) {
+    this.correlator = options.correlator ?? new ProcessCorrelator();
+    this.maxConflictRetries = options.maxConflictRetries ?? 3;
+    this.generateId = options.generateId ?? ((): string => crypto.randomUUID());
+  }
+
+  /**
+   * Applies an event to the process it correlates to, starting a process when
+   * the event type is one of `startedBy`. Returns the process afterwards, or
+   * `undefined` when the event belongs to no process. Events for finished
+   * processes, and events the current state has no transition for, are ignored.
+   */
+  async handle(event: TEvent): Promise<ProcessState<TState> | undefined> {
+    const key = this.definition.correlate(event);
+    if (key === undefined) return undefined;
+    return this.withConflictRetries(async () => {
+      const process = await this.findByKey(key);
+      if (process?.status === 'running') return this.apply(process, event);
+      // Finished processes keep their key, so a redelivered start is not a new process.
+      if (process !== undefined) return process;
+      if (!this.definition.startedBy.includes(event.type)) return undefined;
+      return this.start(key, event);
+    });
+  }
+
+  /**
+   * Delivers the timeout that was due at `timeoutAt`. Ignored when the
+   * process has finished or its timeout was rescheduled or cancelled since.
+   */
+  async deliverTimeout(
+    processId: string,
+    timeoutAt: Date,
+  ): Promise<ProcessState<TState> | undefined> {
+    const delivered = await this.withConflictRetries(async () => {
+      const process = await this.store.findById(processId);
+      if (process?.status !== 'running' || process.timeoutAt?.getTime() !== timeoutAt.getTime()) {
+        return undefined;
+      }
+      return this.apply(process, { type: PROCESS_TIMEOUT, processId, timeoutAt });
+    });
+    if (delivered !== undefined) this.options.monitor?.onTimedOut(processId);
+    return delivered;
+  }
+
+  /** Registers the timeouts of running processes with the scheduler; returns how many. */
+  async recover(): Promise<number> {
+    let recovered = 0;
+    for (const process of await this.store.findByStatus('running')) {
+      if (process.name !== this.definition.name) continue;
+      if (process.correlationId !== undefined) {
+        this.correlator.register(process.correlationId, process.id);
+      }
+      if (process.timeoutAt === undefined) continue;
+      this.schedule(process.id, process.timeoutAt);
+      recovered++;
+    }
+    return recovered;
+  }
+
+  private async start(key: string, event: TEvent): Promise<ProcessState<TState>> {
+    const now = new Date();
+    const process: ProcessState<TState> = {
+      id: this.generateId(),
+      name: this.definition.name,
+      status: 'running',
+      currentState: this.definition.machine.initial,
+      startedAt: now,
+      updatedAt: now,
+      correlationId: key,
+      version: 0,
+    };
+    const started = await this.apply(process, event, true);
+    this.options.monitor?.onStarted(started.id);
+    if (started.status === 'running') this.correlator.register(key, started.id);
+    return started;
+  }
+
+  private async apply(
+    process: ProcessState<TState>,
+    event: TEvent | ProcessTimeoutEvent,
+    starting = false,
+  ): Promise<ProcessState<TState>> {
+    const { machine } = this.definition;
+    const timedOut = event.type === PROCESS_TIMEOUT;
+    const draft: ProcessState<TState> = { ...process };
+    // A delivered timeout has fired; actions may schedule the next one.
+    if (timedOut) delete draft.timeoutAt;
+    const context = contextOf(draft);
+
+    if (starting) await machine.enterInitial(context, event);
+    const next = await machine.send(draft.currentState, event, context);
+    if (next === undefined && !starting && !timedOut) return process;
+
+    const saved = await this.save(this.settle(draft, next, timedOut), process.version ?? 0);
+    this.syncTimeout(process, saved);
+    if (saved.status !== 'running') this.finish(saved);
+    return saved;
+  }
+
+  /** Moves the draft to the target state and derives the process status from it. */
+  private settle(
+    draft: ProcessState<TState>,
+    next: TState | undefined,
+    timedOut: boolean,
+  ): ProcessState<TState> {
+    if (next !== undefined) draft.currentState = next;
+    if (this.definition.machine.isFinal(draft.currentState)) draft.status = 'completed';
+    else if (next === undefined && timedOut) draft.status = 'timed-out';
+    if (draft.status !== 'running') delete draft.timeoutAt;
+    return draft;
+  }
+
+  private async save(
+    draft: ProcessState<TState>,
+    expectedVersion: number,
+  ): Promise<ProcessState<TState>> {
+    const saved = { ...draft, version: expectedVersion + 1, updatedAt: new Date() };
+    await this.store.save(saved, expectedVersion);
+    return saved;
+  }
+
+  /** Makes the scheduler match the saved `timeoutAt` once the save succeeded. */
+  private syncTimeout(previous: ProcessState<TState>, saved: ProcessState<TState>): void {
+    if (previous.timeoutAt?.getTime() === saved.timeoutAt?.getTime()) return;
+    if (saved.timeoutAt === undefined) this.unschedule(saved.id);
+    else this.schedule(saved.id, saved.timeoutAt);
+  }
+
+  private finish(process: ProcessState<TState>): void {
+    if (process.correlationId !== undefined) this.correlator.deregister(process.correlationId);
+    if (process.status === 'completed') this.options.monitor?.onCompleted(process.id);
+  }
+
+  private schedule(processId: string, timeoutAt: Date): void {
+    this.unschedule(processId);
+    const registration: JobRegistration = {
+      jobId: this.timeoutJobId(processId),
+      job: {
+        name: `${this.definition.name}.timeout`,
+        execute: async () => {
+          await this.deliverTimeout(processId, timeoutAt);
+        },
+      },
+      schedule: { kind: 'once', runAtMs: timeoutAt.getTime() },
+    };
+    this.scheduler.register(registration);
+  }
+
+  private unschedule(processId: string): void {
+    const jobId = this.timeoutJobId(processId);
+    if (this.scheduler.isRegistered(jobId)) this.scheduler.unregister(jobId);
+  }
+
+  private timeoutJobId(processId: string): string {
+    return `${this.definition.name}:timeout:${processId}`;
+  }
+
+  private async findByKey(key: string): Promise<ProcessState<TState> | undefined> {
+    const processId = this.correlator.resolve(key);
+    const process =
+      processId !== undefined
+        ? await this.store.findById(processId)
+        : await this.store.findByCorrelationId(key);
+    return process?.name === this.definition.name ? process : undefined;
+  }
+
+  private async withConflictRetries<T>(task: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await task();
+      } catch (error) {
+        if (!isConflict(error) || attempt >= this.maxConflictRetries) throw error;
+      }
+    }
+  }
+}
+
+function isConflict(error: unknown): boolean {
+  return (
+    error instanceof ProcessConcurrencyError || error instanceof ProcessCorrelationConflictError
+  );
+}
+
+function contextOf<TState>(draft: ProcessState<TState>): ProcessContext<TState> {
+  return {
+    process: draft,
+    scheduleTimeout: (delayMs): void => {
+      draft.timeoutAt = new Date(Date.now() + delayMs);
+    },
+    cancelTimeout: (): void => {
+      delete draft.timeoutAt;
+    },
+  };
+}
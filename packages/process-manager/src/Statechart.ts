@@ -0,0 +1,562 @@
+import { listOf, runActions } from './DeclarativeStateMachine.js';
+import type { MachineAction, MachineEvent, MachineGuard } from './DeclarativeStateMachine.js';
+
+export interface StatechartTransition<TContext, TEvent> {
+  /**
+   * Target state: a sibling of the source (`'shipping'`), a path below a
+   * sibling (`'payment.card'`) or a path from the root (`'checkout.review'`).
+   * Without a target the transition only runs its actions.
+   */
+  readonly target?: string;
+  readonly guard?: MachineGuard<TContext, TEvent>;
+  readonly actions?: readonly MachineAction<TContext, TEvent>[];
+}
+
+export interface StatechartNode<TContext, TEvent> {
+  /**
+   * `parallel` keeps every child state (region) active at once; `history`
+   * re-enters the children of its parent that were active when it was last
+   * exited. Nodes with `states` are compound, others atomic.
+   */
+  readonly type?: 'parallel' | 'history';
+  /** Child entered by default. Default: the first child. */
+  readonly initial?: string;
+  readonly states?: Readonly<Record<string, StatechartNode<TContext, TEvent>>>;
+  /**
+   * Transitions by event type. An event is handled by the innermost active
+   * state with an enabled transition for it; with several candidates, the
+   * first whose guard passes is taken.
+   */
+  readonly on?: Readonly<
+    Record<
+      string,
+      StatechartTransition<TContext, TEvent> | readonly StatechartTransition<TContext, TEvent>[]
+    >
+  >;
+  /** Taken once a final child (compound) or every region (parallel) is done. */
+  readonly onDone?: StatechartTransition<TContext, TEvent>;
+  readonly entry?: readonly MachineAction<TContext, TEvent>[];
+  readonly exit?: readonly MachineAction<TContext, TEvent>[];
+  readonly final?: boolean;
+  /** History states only: remember direct children (default) or atomic descendants. */
+  readonly history?: 'shallow' | 'deep';
+  /** History states only: child of the parent entered while nothing is recorded yet. */
+  readonly target?: string;
+}
+
+export interface StatechartDefinition<TContext, TEvent> {
+  readonly type?: 'parallel';
+  readonly initial?: string;
+  readonly states: Readonly<Record<string, StatechartNode<TContext, TEvent>>>;
+}
+
+/**
+ * Serializable state of a running statechart, e.g. to keep in
+ * `ProcessState.currentState`.
+ */
+export interface StatechartSnapshot {
+  /** Active atomic states, as dotted paths from the root. */
+  readonly value: readonly string[];
+  /** States recorded by history states, by history state path. */
+  readonly history: Readonly<Record<string, readonly string[]>>;
+}
+
+export type ScxmlStateType = 'atomic' | 'compound' | 'parallel' | 'final' | 'history';
+
+export interface ScxmlTransition {
+  /** Event type, or `done.state.<id>` for `onDone` transitions. */
+  readonly event: string;
+  readonly target?: string;
+  /** Name of the guard function. */
+  readonly cond?: string;
+  /** Names of the action functions. */
+  readonly actions: readonly string[];
+}
+
+export interface ScxmlState {
+  readonly id: string;
+  readonly type: ScxmlStateType;
+  readonly initial?: string;
+  readonly history?: 'shallow' | 'deep';
+  readonly onentry: readonly string[];
+  readonly onexit: readonly string[];
+  readonly transitions: readonly ScxmlTransition[];
+  readonly states: readonly ScxmlState[];
+}
+
+/** SCXML-like JSON description of a statechart. */
+export interface ScxmlDocument {
+  readonly version: '1.0';
+  readonly type: 'compound' | 'parallel';
+  readonly initial?: string;
+  readonly states: readonly ScxmlState[];
+}
+
+interface StateNode<TContext, TEvent> {
+  readonly id: string;
+  readonly key: string;
+  readonly parent: StateNode<TContext, TEvent> | undefined;
+  readonly kind: ScxmlStateType;
+  /** Document order; parents come before their children. */
+  readonly order: number;
+  readonly node: StatechartNode<TContext, TEvent>;
+  readonly children: StateNode<TContext, TEvent>[];
+}
+
+interface Selected<TContext, TEvent> {
+  readonly source: StateNode<TContext, TEvent>;
+  readonly transition: StatechartTransition<TContext, TEvent>;
+}
+
+type History = Record<string, readonly string[]>;
+
+/**
+ * Hierarchical state machine (statechart) with nested states, parallel
+ * regions and shallow/deep history, following SCXML semantics for the
+ * order of exit, transition and entry actions.
+ *
+ * The machine itself is stateless: {@link start} and {@link send} take and
+ * return a serializable {@link StatechartSnapshot}.
+ *
+ * @example
+ * ```ts
+ * const chart = new Statechart<Ctx, OnboardingEvent>({
+ *   initial: 'verification',
+ *   states: {
+ *     verification: {
+ *       type: 'parallel',
+ *       onDone: { target: 'active' },
+ *       states: {
+ *         email: { states: { pending: { on: { EmailVerified: { target: 'done' } } }, done: { final: true } } },
+ *         identity: { states: { pending: { on: { IdVerified: { target: 'done' } } }, done: { final: true } } },
+ *       },
+ *     },
+ *     active: { final: true },
+ *   },
+ * });
+ * let snapshot = await chart.start(ctx, event);
+ * snapshot = (await chart.send(snapshot, { type: 'EmailVerified' }, ctx)) ?? snapshot;
+ * ```
+ */
+export class Statechart<TContext, TEvent extends MachineEvent> {
+  private readonly nodes = new Map<string, StateNode<TContext, TEvent>>();
+  private readonly root: StateNode<TContext, TEvent>;
+
+  constructor(readonly definition: StatechartDefinition<TContext, TEvent>) {
+    this.root = this.build('', '', undefined, definition);
+    for (const state of this.nodes.values()) this.validate(state);
+  }
+
+  /** Enters the initial configuration, running entry actions outside-in. */
+  async start(context: TContext, event: TEvent): Promise<StatechartSnapshot> {
+    const entered = new Set<StateNode<TContext, TEvent>>();
+    this.addDescendants(this.root, entered, {});
+    const configuration = byDocumentOrder(entered);
+    for (const state of configuration) await runActions(state.node.entry, context, event);
+    return this.settle(snapshotOf(configuration, {}), context, event);
+  }
+
+  /**
+   * Handles an event: every active atomic state contributes the enabled
+   * transition of its innermost handling ancestor (so parallel regions can
+   * each react). Returns the new snapshot, or `undefined` when no transition
+   * is enabled.
+   */
+  async send(
+    snapshot: StatechartSnapshot,
+    event: TEvent,
+    context: TContext,
+  ): Promise<StatechartSnapshot | undefined> {
+    const selected = this.select(snapshot, event, context);
+    if (selected.length === 0) return undefined;
+    let current = snapshot;
+    for (const transition of selected) {
+      current = await this.take(current, transition, context, event);
+    }
+    return this.settle(current, context, event);
+  }
+
+  /** True when `stateId` (a dotted path) or one of its descendants is active. */
+  matches(snapshot: StatechartSnapshot, stateId: string): boolean {
+    return snapshot.value.some((leaf) => leaf === stateId || leaf.startsWith(`${stateId}.`));
+  }
+
+  /** True once the machine reached a top-level final state (every region, if parallel). */
+  isDone(snapshot: StatechartSnapshot): boolean {
+    return this.isComplete(this.root, this.configuration(snapshot));
+  }
+
+  /** Event types some active state has transitions for. */
+  getAcceptedEvents(snapshot: StatechartSnapshot): string[] {
+    const events = new Set<string>();
+    for (const state of this.configuration(snapshot)) {
+      for (const type of Object.keys(state.node.on ?? {})) events.add(type);
+    }
+    return [...events];
+  }
+
+  /** Describes the machine as SCXML-like JSON (see also `toMermaid` / `toDot`). */
+  toScxml(): ScxmlDocument {
+    const initial = this.root.kind === 'compound' ? this.initialChild(this.root).id : undefined;
+    return {
+      version: '1.0',
+      type: this.root.kind === 'parallel' ? 'parallel' : 'compound',
+      ...(initial !== undefined && { initial }),
+      states: this.root.children.map((child) => this.describe(child)),
+    };
+  }
+
+  private async take(
+    snapshot: StatechartSnapshot,
+    { source, transition }: Selected<TContext, TEvent>,
+    context: TContext,
+    event: TEvent,
+  ): Promise<StatechartSnapshot> {
+    const configuration = this.configuration(snapshot);
+    // An earlier transition of the same step may have exited the source.
+    if (!configuration.includes(source)) return snapshot;
+    if (transition.target === undefined) {
+      await runActions(transition.actions, context, event);
+      return snapshot;
+    }
+    const target = this.resolve(source, transition.target);
+    const domain = this.domainOf(source, target);
+    const exited = byDocumentOrder(configuration.filter((s) => isDescendant(s, domain))).reverse();
+    const history = recordHistory(exited, configuration, snapshot.history);
+    const entered = this.entrySet(domain, target, history);
+
+    for (const state of exited) await runActions(state.node.exit, context, event);
+    await runActions(transition.actions, context, event);
+    for (const state of entered) await runActions(state.node.entry, context, event);
+    return snapshotOf([...configuration.filter((s) => !exited.includes(s)), ...entered], history);
+  }
+
+  /** Takes `onDone` transitions of completed states until none is left. */
+  private async settle(
+    snapshot: StatechartSnapshot,
+    context: TContext,
+    event: TEvent,
+  ): Promise<StatechartSnapshot> {
+    let current = snapshot;
+    const fired = new Set<StateNode<TContext, TEvent>>();
+    for (;;) {
+      const configuration = this.configuration(current);
+      const done = configuration
+        .filter((s) => s.node.onDone !== undefined && !fired.has(s))
+        .reverse()
+        .find((s) => this.isComplete(s, configuration));
+      if (done?.node.onDone === undefined) return current;
+      fired.add(done);
+      current = await this.take(
+        current,
+        { source: done, transition: done.node.onDone },
+        context,
+        event,
+      );
+    }
+  }
+
+  private select(
+    snapshot: StatechartSnapshot,
+    event: TEvent,
+    context: TContext,
+  ): Selected<TContext, TEvent>[] {
+    const selected: Selected<TContext, TEvent>[] = [];
+    for (const id of snapshot.value) {
+      const found = this.enabledFrom(this.nodeOf(id), event, context);
+      if (found !== undefined && !selected.some((s) => s.source === found.source)) {
+        selected.push(found);
+      }
+    }
+    return selected;
+  }
+
+  private enabledFrom(
+    leaf: StateNode<TContext, TEvent>,
+    event: TEvent,
+    context: TContext,
+  ): Selected<TContext, TEvent> | undefined {
+    // The root has no parent and no transitions of its own.
+    for (let state = leaf; state.parent !== undefined; state = state.parent) {
+      const candidates = state.node.on?.[event.type];
+      if (candidates === undefined) continue;
+      const transition = listOf(candidates).find((c) => c.guard?.(context, event) ?? true);
+      if (transition !== undefined) return { source: state, transition };
+    }
+    return undefined;
+  }
+
+  /** States entered when a transition from inside `domain` targets `target`. */
+  private entrySet(
+    domain: StateNode<TContext, TEvent>,
+    target: StateNode<TContext, TEvent>,
+    history: History,
+  ): StateNode<TContext, TEvent>[] {
+    const entered = new Set(ancestorsBelow(target, domain));
+    this.addTarget(target, entered, history);
+    // Regions of parallel states on the way that the target is not in are entered by default.
+    for (const state of [domain, ...byDocumentOrder(entered)]) {
+      if (state.kind !== 'parallel') continue;
+      for (const region of regionsOf(state)) {
+        if ([...entered].some((s) => s === region || isDescendant(s, region))) continue;
+        this.addTarget(region, entered, history);
+      }
+    }
+    return byDocumentOrder(entered);
+  }
+
+  private addTarget(
+    state: StateNode<TContext, TEvent>,
+    entered: Set<StateNode<TContext, TEvent>>,
+    history: History,
+  ): void {
+    if (state.kind === 'history') {
+      this.restoreHistory(state, entered, history);
+      return;
+    }
+    entered.add(state);
+    this.addDescendants(state, entered, history);
+  }
+
+  private addDescendants(
+    state: StateNode<TContext, TEvent>,
+    entered: Set<StateNode<TContext, TEvent>>,
+    history: History,
+  ): void {
+    if (state.kind === 'compound') {
+      this.addTarget(this.initialChild(state), entered, history);
+    } else if (state.kind === 'parallel') {
+      for (const region of regionsOf(state)) this.addTarget(region, entered, history);
+    }
+  }
+
+  private restoreHistory(
+    historyState: StateNode<TContext, TEvent>,
+    entered: Set<StateNode<TContext, TEvent>>,
+    history: History,
+  ): void {
+    const parent = historyState.parent ?? this.root;
+    const recorded = history[historyState.id];
+    if (recorded === undefined) {
+      const fallback = historyState.node.target;
+      const child =
+        fallback === undefined ? this.initialChild(parent) : this.childOf(parent, fallback);
+      this.addTarget(child, entered, history);
+      return;
+    }
+    for (const id of recorded) {
+      const state = this.nodeOf(id);
+      for (const ancestor of ancestorsBelow(state, parent)) entered.add(ancestor);
+      entered.add(state);
+      this.addDescendants(state, entered, history);
+    }
+  }
+
+  /** Innermost compound state (or the root) that contains both source and target. */
+  private domainOf(
+    source: StateNode<TContext, TEvent>,
+    target: StateNode<TContext, TEvent>,
+  ): StateNode<TContext, TEvent> {
+    for (let state = source.parent; state !== undefined; state = state.parent) {
+      if (state.kind === 'compound' && isDescendant(target, state)) return state;
+    }
+    return this.root;
+  }
+
+  private isComplete(
+    state: StateNode<TContext, TEvent>,
+    configuration: StateNode<TContext, TEvent>[],
+  ): boolean {
+    if (state.kind === 'parallel') {
+      return regionsOf(state).every((region) => this.isComplete(region, configuration));
+    }
+    if (state.kind === 'final') return true;
+    return configuration.some((s) => s.parent === state && s.kind === 'final');
+  }
+
+  /** Active states (atomic states and their ancestors, without the root). */
+  private configuration(snapshot: StatechartSnapshot): StateNode<TContext, TEvent>[] {
+    const active = new Set<StateNode<TContext, TEvent>>();
+    for (const id of snapshot.value) {
+      const state = this.nodeOf(id);
+      for (const ancestor of ancestorsBelow(state, this.root)) active.add(ancestor);
+      active.add(state);
+    }
+    return byDocumentOrder(active);
+  }
+
+  private build(
+    key: string,
+    id: string,
+    parent: StateNode<TContext, TEvent> | undefined,
+    node: StatechartNode<TContext, TEvent>,
+  ): StateNode<TContext, TEvent> {
+    if (key.includes('.')) throw new Error(`State names cannot contain '.': '${id}'`);
+    const state: StateNode<TContext, TEvent> = {
+      id,
+      key,
+      parent,
+      kind: kindOf(node),
+      order: this.nodes.size,
+      node,
+      children: [],
+    };
+    this.nodes.set(id, state);
+    for (const [childKey, child] of Object.entries(node.states ?? {})) {
+      state.children.push(
+        this.build(childKey, id === '' ? childKey : `${id}.${childKey}`, state, child),
+      );
+    }
+    return state;
+  }
+
+  private validate(state: StateNode<TContext, TEvent>): void {
+    if (state.kind === 'compound') this.initialChild(state);
+    if (state.kind === 'history' && state.node.target !== undefined) {
+      this.childOf(state.parent ?? this.root, state.node.target);
+    }
+    for (const { transition } of transitionsOf(state)) {
+      if (transition.target !== undefined) this.resolve(state, transition.target);
+    }
+  }
+
+  private describe(state: StateNode<TContext, TEvent>): ScxmlState {
+    const initial = state.kind === 'compound' ? this.initialChild(state).id : undefined;
+    return {
+      id: state.id,
+      type: state.kind,
+      ...(initial !== undefined && { initial }),
+      ...(state.kind === 'history' && { history: state.node.history ?? 'shallow' }),
+      onentry: namesOf(state.node.entry),
+      onexit: namesOf(state.node.exit),
+      transitions: transitionsOf(state).map(({ event, transition }) => ({
+        event,
+        ...(transition.target !== undefined && {
+          target: this.resolve(state, transition.target).id,
+        }),
+        ...(transition.guard !== undefined && { cond: nameOf(transition.guard, 'guard') }),
+        actions: namesOf(transition.actions),
+      })),
+      states: state.children.map((child) => this.describe(child)),
+    };
+  }
+
+  private resolve(
+    source: StateNode<TContext, TEvent>,
+    target: string,
+  ): StateNode<TContext, TEvent> {
+    const scope = source.parent ?? this.root;
+    const resolved =
+      this.nodes.get(scope === this.root ? target : `${scope.id}.${target}`) ??
+      this.nodes.get(target);
+    if (resolved === undefined || resolved === this.root) {
+      throw new Error(`Unknown target state '${target}' in transition from '${source.id}'`);
+    }
+    return resolved;
+  }
+
+  private initialChild(state: StateNode<TContext, TEvent>): StateNode<TContext, TEvent> {
+    const key = state.node.initial ?? state.children.find((c) => c.kind !== 'history')?.key;
+    if (key === undefined) throw new Error(`State '${state.id}' has no child states`);
+    return this.childOf(state, key);
+  }
+
+  private childOf(state: StateNode<TContext, TEvent>, key: string): StateNode<TContext, TEvent> {
+    const child = state.children.find((c) => c.key === key);
+    if (child === undefined) throw new Error(`State '${state.id}' has no child state '${key}'`);
+    return child;
+  }
+
+  private nodeOf(id: string): StateNode<TContext, TEvent> {
+    const state = this.nodes.get(id);
+    if (state === undefined || state === this.root) throw new Error(`Unknown state '${id}'`);
+    return state;
+  }
+}
+
+function kindOf<TContext, TEvent>(node: StatechartNode<TContext, TEvent>): ScxmlStateType {
+  if (node.type !== undefined) return node.type;
+  if (node.final === true) return 'final';
+  return Object.keys(node.states ?? {}).length > 0 ? 'compound' : 'atomic';
+}
+
+function transitionsOf<TContext, TEvent>(
+  state: StateNode<TContext, TEvent>,
+): { event: string; transition: StatechartTransition<TContext, TEvent> }[] {
+  const transitions = Object.entries(state.node.on ?? {}).flatMap(([event, candidates]) =>
+    listOf(candidates).map((transition) => ({ event, transition })),
+  );
+  const { onDone } = state.node;
+  if (onDone !== undefined)
+    transitions.push({ event: `done.state.${state.id}`, transition: onDone });
+  return transitions;
+}
+
+/** Remembers, for each history state of an exited state, what was active below it. */
+function recordHistory<TContext, TEvent>(
+  exited: StateNode<TContext, TEvent>[],
+  configuration: StateNode<TContext, TEvent>[],
+  previous: History,
+): History {
+  const history: History = { ...previous };
+  for (const state of exited) {
+    for (const historyState of state.children.filter((c) => c.kind === 'history')) {
+      const deep = historyState.node.history === 'deep';
+      history[historyState.id] = configuration
+        .filter((s) => (deep ? isLeaf(s) && isDescendant(s, state) : s.parent === state))
+        .map((s) => s.id);
+    }
+  }
+  return history;
+}
+
+function snapshotOf<TContext, TEvent>(
+  configuration: Iterable<StateNode<TContext, TEvent>>,
+  history: History,
+): StatechartSnapshot {
+  const value = byDocumentOrder(configuration)
+    .filter(isLeaf)
+    .map((s) => s.id);
+  return { value, history };
+}
+
+function isLeaf<TContext, TEvent>(state: StateNode<TContext, TEvent>): boolean {
+  return state.kind === 'atomic' || state.kind === 'final';
+}
+
+function isDescendant<TContext, TEvent>(
+  state: StateNode<TContext, TEvent>,
+  ancestor: StateNode<TContext, TEvent>,
+): boolean {
+  return state !== ancestor && (ancestor.id === '' || state.id.startsWith(`${ancestor.id}.`));
+}
+
+/** Ancestors of `state` strictly below `top`, outermost first. */
+function ancestorsBelow<TContext, TEvent>(
+  state: StateNode<TContext, TEvent>,
+  top: StateNode<TContext, TEvent>,
+): StateNode<TContext, TEvent>[] {
+  const ancestors: StateNode<TContext, TEvent>[] = [];
+  for (let s = state.parent; s !== undefined && s !== top; s = s.parent) ancestors.unshift(s);
+  return ancestors;
+}
+
+function regionsOf<TContext, TEvent>(
+  state: StateNode<TContext, TEvent>,
+): StateNode<TContext, TEvent>[] {
+  return state.children.filter((c) => c.kind !== 'history');
+}
+
+function byDocumentOrder<TContext, TEvent>(
+  states: Iterable<StateNode<TContext, TEvent>>,
+): StateNode<TContext, TEvent>[] {
+  return [...new Set(states)].sort((a, b) => a.order - b.order);
+}
+
+function nameOf(fn: (...args: never[]) => unknown, fallback: string): string {
+  return fn.name === '' ? fallback : fn.name;
+}
+
+function namesOf(actions: readonly ((...args: never[]) => unknown)[] | undefined): string[] {
+  return (actions ?? []).map((action) => nameOf(action, 'action'));
+}
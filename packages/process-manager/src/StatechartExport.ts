@@ -0,0 +1,179 @@
+import { Statechart } from './Statechart.js';
+import type {
+  ScxmlDocument,
+  ScxmlState,
+  ScxmlTransition,
+  StatechartDefinition,
+} from './Statechart.js';
+
+/**
+ * Anything describing a state machine: a {@link Statechart}, a
+ * `DeclarativeStateMachine` or their definition.
+ */
+export type StatechartSource =
+  | StatechartDefinition<never, never>
+  | { readonly definition: StatechartDefinition<never, never> };
+
+/** Describes a state machine as SCXML-like JSON, e.g. to diff it in reviews. */
+export function toScxml(source: StatechartSource): ScxmlDocument {
+  const definition = 'definition' in source ? source.definition : source;
+  return new Statechart<never, never>(definition).toScxml();
+}
+
+/**
+ * Renders a state machine as a Mermaid `stateDiagram-v2`. Compound states
+ * become composite states, parallel regions are separated by `--`.
+ */
+export function toMermaid(source: StatechartSource): string {
+  const document = toScxml(source);
+  const lines = ['stateDiagram-v2'];
+  if (document.type === 'parallel') {
+    document.states.forEach((region, index) => {
+      if (index > 0) lines.push('  --');
+      lines.push(...mermaidState(region, '  '));
+    });
+  } else {
+    lines.push(...mermaidScope(document.initial, document.states, '  '));
+  }
+  for (const state of flatten(document.states)) {
+    for (const transition of state.transitions) {
+      if (transition.target === undefined) continue;
+      lines.push(
+        `  ${mermaidId(state.id)} --> ${mermaidId(transition.target)} : ${label(transition)}`,
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Renders a state machine as a Graphviz DOT digraph. Compound and parallel
+ * states become clusters (parallel ones dashed); transitions from or to them
+ * attach to the cluster.
+ */
+export function toDot(source: StatechartSource): string {
+  const document = toScxml(source);
+  const lines = [
+    'digraph statechart {',
+    '  compound=true;',
+    '  node [shape=box, style=rounded];',
+    '  "__initial" [shape=point];',
+  ];
+  if (document.initial !== undefined) lines.push(`  "__initial" -> ${quote(document.initial)};`);
+  for (const state of document.states) lines.push(...dotState(state, '  '));
+
+  const composite = new Set(
+    flatten(document.states)
+      .filter(isComposite)
+      .map((s) => s.id),
+  );
+  for (const state of flatten(document.states)) {
+    for (const transition of state.transitions) {
+      if (transition.target === undefined) continue;
+      lines.push(
+        `  ${dotEdge(state.id, transition.target, composite)} [label=${quote(label(transition))}];`,
+      );
+    }
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function mermaidScope(
+  initial: string | undefined,
+  states: readonly ScxmlState[],
+  indent: string,
+): string[] {
+  const lines = initial === undefined ? [] : [`${indent}[*] --> ${mermaidId(initial)}`];
+  for (const state of states) lines.push(...mermaidState(state, indent));
+  return lines;
+}
+
+function mermaidState(state: ScxmlState, indent: string): string[] {
+  const id = mermaidId(state.id);
+  if (state.type === 'history') {
+    return [`${indent}state "${state.history === 'deep' ? 'H*' : 'H'}" as ${id}`];
+  }
+  if (state.type === 'final') {
+    return [`${indent}state "${keyOf(state.id)}" as ${id}`, `${indent}${id} --> [*]`];
+  }
+  if (!isComposite(state)) return [`${indent}state "${keyOf(state.id)}" as ${id}`];
+
+  const inner = `${indent}  `;
+  const body =
+    state.type === 'parallel'
+      ? state.states.flatMap((region, index) => [
+          ...(index > 0 ? [`${inner}--`] : []),
+          ...mermaidState(region, inner),
+        ])
+      : mermaidScope(state.initial, state.states, inner);
+  return [`${indent}state ${id} {`, ...body, `${indent}}`];
+}
+
+function dotState(state: ScxmlState, indent: string): string[] {
+  if (!isComposite(state)) return [`${indent}${quote(state.id)} [${dotAttributes(state)}];`];
+
+  const inner = `${indent}  `;
+  const anchor = quote(`${state.id}.__initial`);
+  const lines = [
+    `${indent}subgraph ${quote(`cluster_${state.id}`)} {`,
+    `${inner}label=${quote(keyOf(state.id))};`,
+    ...(state.type === 'parallel' ? [`${inner}style=dashed;`] : []),
+    `${inner}${anchor} [shape=point${state.type === 'parallel' ? ', style=invis' : ''}];`,
+  ];
+  if (state.initial !== undefined) lines.push(`${inner}${anchor} -> ${quote(state.initial)};`);
+  for (const child of state.states) lines.push(...dotState(child, inner));
+  lines.push(`${indent}}`);
+  return lines;
+}
+
+function dotAttributes(state: ScxmlState): string {
+  if (state.type === 'history') {
+    return `label=${quote(state.history === 'deep' ? 'H*' : 'H')}, shape=circle`;
+  }
+  const final = state.type === 'final' ? ', peripheries=2' : '';
+  return `label=${quote(keyOf(state.id))}${final}`;
+}
+
+/** Edges from or to composite states attach to the cluster through its anchor node. */
+function dotEdge(from: string, to: string, composite: ReadonlySet<string>): string {
+  const attributes: string[] = [];
+  let tail = quote(from);
+  let head = quote(to);
+  if (composite.has(from)) {
+    tail = quote(`${from}.__initial`);
+    attributes.push(`ltail=${quote(`cluster_${from}`)}`);
+  }
+  if (composite.has(to)) {
+    head = quote(`${to}.__initial`);
+    attributes.push(`lhead=${quote(`cluster_${to}`)}`);
+  }
+  const suffix = attributes.length > 0 ? ` [${attributes.join(', ')}]` : '';
+  return `${tail} -> ${head}${suffix}`;
+}
+
+function label(transition: ScxmlTransition): string {
+  return transition.cond === undefined
+    ? transition.event
+    : `${transition.event} [${transition.cond}]`;
+}
+
+function flatten(states: readonly ScxmlState[]): ScxmlState[] {
+  return states.flatMap((state) => [state, ...flatten(state.states)]);
+}
+
+function isComposite(state: ScxmlState): boolean {
+  return state.type === 'compound' || state.type === 'parallel';
+}
+
+function keyOf(id: string): string {
+  return id.slice(id.lastIndexOf('.') + 1);
+}
+
+function mermaidId(id: string): string {
+  return id.replace(/[^A-Za-z0-9_]/g, '_');
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '\\"')}"`;
+}
@@ -12,3 +12,34 @@ export { ProcessTimeoutScheduler } from './ProcessTimeoutScheduler.js';
 export { ProcessCorrelator } from './ProcessCorrelator.js';
 export { InMemoryProcessStore } from './InMemoryProcessStore.js';
 export { ProcessMonitor } from './ProcessMonitor.js';
+export { ProcessConcurrencyError } from './ProcessConcurrencyError.js';
+export { ProcessCorrelationConflictError } from './ProcessCorrelationConflictError.js';
+export { DeclarativeStateMachine } from './DeclarativeStateMachine.js';
+export type {
+  MachineEvent,
+  MachineAction,
+  MachineGuard,
+  MachineTransition,
+  MachineStateNode,
+  MachineDefinition,
+} from './DeclarativeStateMachine.js';
+export { ProcessManagerRuntime, PROCESS_TIMEOUT } from './ProcessManagerRuntime.js';
+export type {
+  ProcessTimeoutEvent,
+  ProcessContext,
+  ProcessDefinition,
+  ProcessManagerRuntimeOptions,
+} from './ProcessManagerRuntime.js';
+export { Statechart } from './Statechart.js';
+export type {
+  StatechartTransition,
+  StatechartNode,
+  StatechartDefinition,
+  StatechartSnapshot,
+  ScxmlStateType,
+  ScxmlTransition,
+  ScxmlState,
+  ScxmlDocument,
+} from './Statechart.js';
+export { toScxml, toMermaid, toDot } from './StatechartExport.js';
+export type { StatechartSource } from './StatechartExport.js';
@@ -15,8 +15,25 @@ import {
   ProcessCorrelator,
   InMemoryProcessStore,
   ProcessMonitor,
+  ProcessConcurrencyError,
+  ProcessCorrelationConflictError,
+  DeclarativeStateMachine,
+  ProcessManagerRuntime,
+  Statechart,
+  toScxml,
+  toMermaid,
+  toDot,
 } from './index';
-import type { TransitionRule, ProcessState, ProcessStatus } from './index';
+import type {
+  TransitionRule,
+  ProcessState,
+  ProcessStatus,
+  ProcessContext,
+  ProcessDefinition,
+  ProcessTimeoutEvent,
+  StatechartDefinition,
+} from './index';
+import { InMemoryScheduler } from '@marcusprado02/scheduler';
 
 // ─── Shared domain fixtures ───────────────────────────────────────────────────
 
@@ -621,3 +638,503 @@ describe('ProcessMonitor', () => {
     expect(monitor.getEvents()).toHaveLength(4);
   });
 });
+
+// ─── Declarative state machine & runtime ──────────────────────────────────────
+
+type PaymentState = 'idle' | 'awaiting-payment' | 'paid' | 'cancelled';
+
+type PaymentEvent =
+  | { type: 'OrderPlaced'; orderId: string }
+  | { type: 'PaymentReceived'; orderId: string; amount: number }
+  | { type: 'OrderCancelled'; orderId: string };
+
+type PaymentCtx = ProcessContext<PaymentState>;
+
+function makePaymentDefinition(log: string[] = []): ProcessDefinition<PaymentState, PaymentEvent> {
+  const machine = new DeclarativeStateMachine<
+    PaymentState,
+    PaymentCtx,
+    PaymentEvent | ProcessTimeoutEvent
+  >({
+    initial: 'idle',
+    states: {
+      idle: {
+        entry: [() => void log.push('enter:idle')],
+        exit: [() => void log.push('exit:idle')],
+        on: { OrderPlaced: { target: 'awaiting-payment' } },
+      },
+      'awaiting-payment': {
+        entry: [(ctx) => ctx.scheduleTimeout(60_000), () => void log.push('enter:awaiting')],
+        on: {
+          PaymentReceived: [
+            {
+              target: 'paid',
+              guard: (_ctx, e) => e.type === 'PaymentReceived' && e.amount > 0,
+              actions: [() => void log.push('ship')],
+            },
+          ],
+          OrderCancelled: { target: 'cancelled' },
+          'process.timeout': { target: 'cancelled', actions: [() => void log.push('expire')] },
+        },
+      },
+      paid: { final: true },
+      cancelled: { final: true },
+    },
+  });
+  return {
+    name: 'payment',
+    machine,
+    correlate: (event) => event.orderId,
+    startedBy: ['OrderPlaced'],
+  };
+}
+
+describe('DeclarativeStateMachine', () => {
+  const machine = makePaymentDefinition().machine;
+
+  it('derives transition rules from the definition', () => {
+    expect(machine.canTransition('idle', 'awaiting-payment')).toBe(true);
+    expect(machine.canTransition('idle', 'paid')).toBe(false);
+    expect(machine.getAllowedTransitions('awaiting-payment')).toEqual(['paid', 'cancelled']);
+    expect(machine.getAcceptedEvents('awaiting-payment')).toEqual([
+      'PaymentReceived',
+      'OrderCancelled',
+      'process.timeout',
+    ]);
+  });
+
+  it('runs exit, transition and entry actions in order', async () => {
+    const log: string[] = [];
+    const { machine: m } = makePaymentDefinition(log);
+    const ctx = { scheduleTimeout: vi.fn(), cancelTimeout: vi.fn() } as unknown as PaymentCtx;
+
+    await m.enterInitial(ctx, { type: 'OrderPlaced', orderId: 'o-1' });
+    const next = await m.send('idle', { type: 'OrderPlaced', orderId: 'o-1' }, ctx);
+
+    expect(next).toBe('awaiting-payment');
+    expect(log).toEqual(['enter:idle', 'exit:idle', 'enter:awaiting']);
+    expect(ctx.scheduleTimeout).toHaveBeenCalledWith(60_000);
+  });
+
+  it('ignores events whose guard fails or that have no transition', async () => {
+    const ctx = { scheduleTimeout: vi.fn(), cancelTimeout: vi.fn() } as unknown as PaymentCtx;
+    const rejected = { type: 'PaymentReceived' as const, orderId: 'o-1', amount: 0 };
+    expect(await machine.send('awaiting-payment', rejected, ctx)).toBeUndefined();
+    expect(await machine.send('paid', { type: 'OrderCancelled', orderId: 'o-1' }, ctx)).toBe(
+      undefined,
+    );
+  });
+
+  it('reports final states', () => {
+    expect(machine.isFinal('paid')).toBe(true);
+    expect(machine.isFinal('idle')).toBe(false);
+  });
+});
+
+describe('InMemoryProcessStore optimistic versioning', () => {
+  it('rejects a save whose expected version is stale', async () => {
+    const store = new InMemoryProcessStore<OrderState>();
+    await store.save(makeOrderState({ version: 1 }), 0);
+
+    await expect(store.save(makeOrderState({ version: 2 }), 0)).rejects.toBeInstanceOf(
+      ProcessConcurrencyError,
+    );
+    await store.save(makeOrderState({ version: 2 }), 1);
+    expect((await store.findById('proc-1'))?.version).toBe(2);
+  });
+
+  it('rejects a second process under a taken correlation id', async () => {
+    const store = new InMemoryProcessStore<OrderState>();
+    await store.save(makeOrderState({ correlationId: 'o-1' }), 0);
+
+    await expect(
+      store.save(makeOrderState({ id: 'proc-2', correlationId: 'o-1' }), 0),
+    ).rejects.toBeInstanceOf(ProcessCorrelationConflictError);
+    await store.save(makeOrderState({ correlationId: 'o-1', version: 1 }), 0);
+    expect(store.size()).toBe(1);
+  });
+
+  it('saves unconditionally without an expected version', async () => {
+    const store = new InMemoryProcessStore<OrderState>();
+    await store.save(makeOrderState({ version: 5 }));
+    await store.save(makeOrderState());
+    expect(store.size()).toBe(1);
+  });
+});
+
+describe('ProcessManagerRuntime', () => {
+  function setup(log: string[] = []) {
+    const store = new InMemoryProcessStore<PaymentState>();
+    const scheduler = new InMemoryScheduler();
+    const monitor = new ProcessMonitor();
+    let ids = 0;
+    const runtime = new ProcessManagerRuntime(makePaymentDefinition(log), store, scheduler, {
+      monitor,
+      generateId: () => `proc-${++ids}`,
+    });
+    return { store, scheduler, monitor, runtime };
+  }
+
+  it('starts a process, persists it and schedules its timeout', async () => {
+    const { store, scheduler, monitor, runtime } = setup();
+
+    const process = await runtime.handle({ type: 'OrderPlaced', orderId: 'o-1' });
+
+    expect(process).toMatchObject({
+      id: 'proc-1',
+      currentState: 'awaiting-payment',
+      correlationId: 'o-1',
+      version: 1,
+    });
+    expect(process?.timeoutAt).toBeInstanceOf(Date);
+    expect((await store.findByCorrelationId('o-1'))?.version).toBe(1);
+    expect(scheduler.isRegistered('payment:timeout:proc-1')).toBe(true);
+    expect(monitor.getMetrics().started).toBe(1);
+  });
+
+  it('routes correlated events and completes the process in a final state', async () => {
+    const log: string[] = [];
+    const { scheduler, monitor, runtime } = setup(log);
+    await runtime.handle({ type: 'OrderPlaced', orderId: 'o-1' });
+
+    const paid = await runtime.handle({ type: 'PaymentReceived', orderId: 'o-1', amount: 10 });
+
+    expect(paid).toMatchObject({ currentState: 'paid', status: 'completed', version: 2 });
+    expect(paid?.timeoutAt).toBeUndefined();
+    expect(scheduler.isRegistered('payment:timeout:proc-1')).toBe(false);
+    expect(log).toContain('ship');
+    expect(monitor.getMetrics().completed).toBe(1);
+  });
+
+  it('ignores uncorrelated events, unhandled events and redelivered starts', async () => {
+    const { store, runtime } = setup();
+
+    expect(await runtime.handle({ type: 'OrderCancelled', orderId: 'o-9' })).toBeUndefined();
+    await runtime.handle({ type: 'OrderPlaced', orderId: 'o-1' });
+    const ignored = await runtime.handle({ type: 'PaymentReceived', orderId: 'o-1', amount: 0 });
+    await runtime.handle({ type: 'OrderCancelled', orderId: 'o-1' });
+    const redelivered = await runtime.handle({ type: 'OrderPlaced', orderId: 'o-1' });
+
+    expect(ignored?.version).toBe(1);
+    expect(redelivered?.status).toBe('completed');
+    expect(store.size()).toBe(1);
+  });
+
+  it('delivers the timeout through the scheduler', async () => {
+    const log: string[] = [];
+    const { store, scheduler, monitor, runtime } = setup(log);
+    await runtime.handle({ type: 'OrderPlaced', orderId: 'o-1' });
+
+    const record = await scheduler.trigger('payment:timeout:proc-1');
+
+    expect(record.status).toBe('succeeded');
+    expect(await store.findById('proc-1')).toMatchObject({
+      currentState: 'cancelled',
+      status: 'completed',
+    });
+    expect(log).toContain('expire');
+    expect(monitor.getMetrics().timedOut).toBe(1);
+    expect(scheduler.isRegistered('payment:timeout:proc-1')).toBe(false);
+  });
+
+  it('marks the process timed-out when the state has no timeout transition', async () => {
+    const { store, runtime } = setup();
+    const timeoutAt = new Date('2026-01-01T00:00:00Z');
+    await store.save({
+      id: 'proc-7',
+      name: 'payment',
+      status: 'running',
+      currentState: 'idle',
+      startedAt: new Date(),
+      updatedAt: new Date(),
+      timeoutAt,
+      version: 3,
+    });
+
+    const timedOut = await runtime.deliverTimeout('proc-7', timeoutAt);
+
+    expect(timedOut).toMatchObject({ status: 'timed-out', version: 4 });
+    expect(timedOut?.timeoutAt).toBeUndefined();
+  });
+
+  it('ignores stale timeouts', async () => {
+    const { store, runtime } = setup();
+    const process = await runtime.handle({ type: 'OrderPlaced', orderId: 'o-1' });
+
+    expect(await runtime.deliverTimeout('proc-1', new Date(0))).toBeUndefined();
+    expect((await store.findById('proc-1'))?.version).toBe(process?.version);
+  });
+
+  it('re-registers pending timeouts after a restart', async () => {
+    const { store, runtime } = setup();
+    await runtime.handle({ type: 'OrderPlaced', orderId: 'o-1' });
+
+    // A fresh runtime and scheduler, as after a process restart.
+    const scheduler = new InMemoryScheduler();
+    const restarted = new ProcessManagerRuntime(makePaymentDefinition(), store, scheduler);
+    expect(await restarted.recover()).toBe(1);
+
+    await scheduler.trigger('payment:timeout:proc-1');
+    expect((await store.findById('proc-1'))?.currentState).toBe('cancelled');
+  });
+
+  it('re-applies the event after a concurrent save', async () => {
+    const { store, runtime } = setup();
+    await runtime.handle({ type: 'OrderPlaced', orderId: 'o-1' });
+    const save = store.save.bind(store);
+    let raced = false;
+    vi.spyOn(store, 'save').mockImplementation(async (state, expectedVersion) => {
+      if (!raced) {
+        raced = true;
+        const current = (await store.findById(state.id))!;
+        await save({ ...current, version: (current.version ?? 0) + 1 });
+      }
+      return save(state, expectedVersion);
+    });
+
+    const paid = await runtime.handle({ type: 'PaymentReceived', orderId: 'o-1', amount: 10 });
+
+    expect(paid).toMatchObject({ status: 'completed', version: 3 });
+  });
+
+  it('starts one process when start events for the same key arrive concurrently', async () => {
+    const { store, monitor, runtime } = setup();
+
+    const [first, second] = await Promise.all([
+      runtime.handle({ type: 'OrderPlaced', orderId: 'o-1' }),
+      runtime.handle({ type: 'OrderPlaced', orderId: 'o-1' }),
+    ]);
+
+    expect(store.size()).toBe(1);
+    expect(second?.id).toBe(first?.id);
+    expect(monitor.getMetrics().started).toBe(1);
+  });
+
+  it('gives up after maxConflictRetries', async () => {
+    const store = new InMemoryProcessStore<PaymentState>();
+    const runtime = new ProcessManagerRuntime(
+      makePaymentDefinition(),
+      store,
+      new InMemoryScheduler(),
+      { maxConflictRetries: 1 },
+    );
+    vi.spyOn(store, 'save').mockRejectedValue(new ProcessConcurrencyError('p', 0, 1));
+
+    await expect(runtime.handle({ type: 'OrderPlaced', orderId: 'o-1' })).rejects.toBeInstanceOf(
+      ProcessConcurrencyError,
+    );
+    expect(store.save).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ─── Statecharts ──────────────────────────────────────────────────────────────
+
+interface ChartEvent {
+  type: string;
+  method?: string;
+}
+
+function makeCheckoutChart(log: string[] = []): StatechartDefinition<unknown, ChartEvent> {
+  const track = (entry: string) => () => void log.push(entry);
+  return {
+    initial: 'cart',
+    states: {
+      cart: { on: { Checkout: { target: 'checkout' } }, exit: [track('exit:cart')] },
+      checkout: {
+        entry: [track('enter:checkout')],
+        exit: [track('exit:checkout')],
+        on: { Suspend: { target: 'suspended' } },
+        onDone: { target: 'completed' },
+        initial: 'payment',
+        states: {
+          payment: {
+            entry: [track('enter:payment')],
+            initial: 'choosing',
+            states: {
+              choosing: {
+                on: {
+                  Choose: [
+                    {
+                      target: 'card',
+                      guard: function isCard(_ctx, e) {
+                        return e.method === 'card';
+                      },
+                    },
+                    { target: 'invoice' },
+                  ],
+                },
+              },
+              card: {
+                entry: [track('enter:card')],
+                on: { Paid: { target: 'checkout.fulfilment' } },
+              },
+              invoice: { on: { Paid: { target: 'checkout.fulfilment' } } },
+            },
+          },
+          fulfilment: {
+            type: 'parallel',
+            onDone: { target: 'done' },
+            states: {
+              shipping: {
+                states: { packing: { on: { Shipped: { target: 'sent' } } }, sent: { final: true } },
+              },
+              billing: {
+                states: {
+                  open: { on: { Invoiced: { target: 'closed' } } },
+                  closed: { final: true },
+                },
+              },
+            },
+          },
+          done: { final: true },
+          resume: { type: 'history', history: 'deep' },
+        },
+      },
+      suspended: { on: { Resume: { target: 'checkout.resume' } } },
+      completed: { final: true },
+    },
+  };
+}
+
+describe('Statechart', () => {
+  it('enters nested initial states and runs entry actions outside-in', async () => {
+    const log: string[] = [];
+    const chart = new Statechart(makeCheckoutChart(log));
+    let snapshot = await chart.start(undefined, { type: 'start' });
+    expect(snapshot.value).toEqual(['cart']);
+
+    snapshot = (await chart.send(snapshot, { type: 'Checkout' }, undefined))!;
+
+    expect(snapshot.value).toEqual(['checkout.payment.choosing']);
+    expect(log).toEqual(['exit:cart', 'enter:checkout', 'enter:payment']);
+    expect(chart.matches(snapshot, 'checkout.payment')).toBe(true);
+    expect(chart.matches(snapshot, 'cart')).toBe(false);
+  });
+
+  it('picks the first transition whose guard passes', async () => {
+    const chart = new Statechart(makeCheckoutChart());
+    const choosing = { value: ['checkout.payment.choosing'], history: {} };
+
+    const card = await chart.send(choosing, { type: 'Choose', method: 'card' }, undefined);
+    const invoice = await chart.send(choosing, { type: 'Choose', method: 'cash' }, undefined);
+
+    expect(card?.value).toEqual(['checkout.payment.card']);
+    expect(invoice?.value).toEqual(['checkout.payment.invoice']);
+  });
+
+  it('returns undefined when no transition is enabled', async () => {
+    const chart = new Statechart(makeCheckoutChart());
+    expect(await chart.send({ value: ['cart'], history: {} }, { type: 'Paid' }, undefined)).toBe(
+      undefined,
+    );
+  });
+
+  it('activates every parallel region and completes when all are done', async () => {
+    const chart = new Statechart(makeCheckoutChart());
+    let snapshot = (await chart.send(
+      { value: ['checkout.payment.card'], history: {} },
+      { type: 'Paid' },
+      undefined,
+    ))!;
+    expect(snapshot.value).toEqual([
+      'checkout.fulfilment.shipping.packing',
+      'checkout.fulfilment.billing.open',
+    ]);
+    expect(chart.getAcceptedEvents(snapshot)).toEqual(['Suspend', 'Shipped', 'Invoiced']);
+
+    snapshot = (await chart.send(snapshot, { type: 'Shipped' }, undefined))!;
+    expect(chart.isDone(snapshot)).toBe(false);
+    snapshot = (await chart.send(snapshot, { type: 'Invoiced' }, undefined))!;
+
+    // fulfilment done → checkout.done → checkout done → completed
+    expect(snapshot.value).toEqual(['completed']);
+    expect(chart.isDone(snapshot)).toBe(true);
+  });
+
+  it('restores the deep history of a state that was left', async () => {
+    const chart = new Statechart(makeCheckoutChart());
+    const shipped = {
+      value: ['checkout.fulfilment.shipping.sent', 'checkout.fulfilment.billing.open'],
+      history: {},
+    };
+
+    const suspended = (await chart.send(shipped, { type: 'Suspend' }, undefined))!;
+    expect(suspended.value).toEqual(['suspended']);
+    expect(suspended.history['checkout.resume']).toEqual(shipped.value);
+
+    const resumed = await chart.send(suspended, { type: 'Resume' }, undefined);
+    expect(resumed?.value).toEqual(shipped.value);
+  });
+
+  it('enters the default state of a history state without recorded history', async () => {
+    const chart = new Statechart(makeCheckoutChart());
+    const resumed = await chart.send(
+      { value: ['suspended'], history: {} },
+      { type: 'Resume' },
+      undefined,
+    );
+    expect(resumed?.value).toEqual(['checkout.payment.choosing']);
+  });
+
+  it('rejects definitions with unknown targets', () => {
+    expect(() => new Statechart({ states: { a: { on: { Go: { target: 'nowhere' } } } } })).toThrow(
+      "Unknown target state 'nowhere' in transition from 'a'",
+    );
+  });
+});
+
+describe('Statechart export', () => {
+  it('describes the machine as SCXML-like JSON', () => {
+    const document = toScxml(makeCheckoutChart());
+    const checkout = document.states.find((s) => s.id === 'checkout');
+
+    expect(document).toMatchObject({ version: '1.0', type: 'compound', initial: 'cart' });
+    expect(checkout).toMatchObject({ type: 'compound', initial: 'checkout.payment' });
+    expect(checkout?.transitions).toEqual([
+      { event: 'Suspend', target: 'suspended', actions: [] },
+      { event: 'done.state.checkout', target: 'completed', actions: [] },
+    ]);
+    const choosing = checkout?.states[0]?.states[0];
+    expect(choosing?.transitions[0]).toEqual({
+      event: 'Choose',
+      target: 'checkout.payment.card',
+      cond: 'isCard',
+      actions: [],
+    });
+    expect(checkout?.states.find((s) => s.type === 'history')).toMatchObject({ history: 'deep' });
+  });
+
+  it('renders Mermaid with composite states and parallel regions', () => {
+    const mermaid = toMermaid(makeCheckoutChart());
+
+    expect(mermaid.split('\n')[0]).toBe('stateDiagram-v2');
+    expect(mermaid).toContain('[*] --> cart');
+    expect(mermaid).toContain('state checkout {');
+    expect(mermaid).toContain('state checkout_fulfilment {');
+    expect(mermaid).toMatch(
+      /state checkout_fulfilment_shipping \{[\s\S]*--[\s\S]*state checkout_fulfilment_billing/,
+    );
+    expect(mermaid).toContain(
+      'checkout_payment_choosing --> checkout_payment_card : Choose [isCard]',
+    );
+    expect(mermaid).toContain('state "H*" as checkout_resume');
+  });
+
+  it('renders DOT with clusters', () => {
+    const dot = toDot(makeCheckoutChart());
+
+    expect(dot.startsWith('digraph statechart {')).toBe(true);
+    expect(dot).toContain('subgraph "cluster_checkout" {');
+    expect(dot).toContain('"__initial" -> "cart";');
+    expect(dot).toContain(
+      '"cart" -> "checkout.__initial" [lhead="cluster_checkout"] [label="Checkout"];',
+    );
+    expect(dot).toContain('"completed" [label="completed", peripheries=2];');
+  });
+
+  it('exports flat declarative machines', () => {
+    const { machine } = makePaymentDefinition();
+    expect(toScxml(machine).initial).toBe('idle');
+    expect(toMermaid(machine)).toContain('idle --> awaiting_payment : OrderPlaced');
+  });
+});
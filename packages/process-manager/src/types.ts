@@ -16,6 +16,8 @@ export interface ProcessState<TState = unknown> {
   correlationId?: string;
   timeoutAt?: Date;
   error?: unknown;
+  /** Number of times the state was saved; used for optimistic concurrency. */
+  version?: number;
 }
 
 /**
@@ -50,7 +52,14 @@ export interface ProcessEvent {
  * Persistence contract for process states.
  */
 export interface ProcessStore<TState = unknown> {
-  save(state: ProcessState<TState>): Promise<void>;
+  /**
+   * Saves the state. When `expectedVersion` is given, the save is rejected
+   * with a `ProcessConcurrencyError` unless the stored state is still at that
+   * version (`0` for a process that was never saved). A correlation id is
+   * unique: saving a state whose `correlationId` belongs to another process
+   * is rejected with a `ProcessCorrelationConflictError`.
+   */
+  save(state: ProcessState<TState>, expectedVersion?: number): Promise<void>;
   findById(id: string): Promise<ProcessState<TState> | undefined>;
   findByCorrelationId(correlationId: string): Promise<ProcessState<TState> | undefined>;
   findByStatus(status: ProcessStatus): Promise<ProcessState<TState>[]>;
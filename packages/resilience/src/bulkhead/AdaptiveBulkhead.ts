@@ -0,0 +1,90 @@
+import type { Clock } from '@marcusprado02/kernel';
+import { SystemClock } from '@marcusprado02/kernel';
+import { TimeoutError } from '../timeouts/Timeout';
+import { BulkheadRejectedError } from './Bulkhead';
+import type { ConcurrencyLimit } from './limits/ConcurrencyLimit';
+
+export interface AdaptiveBulkheadOptions {
+  /** How the limit adapts, e.g. `new Gradient2Limit()`. */
+  readonly limit: ConcurrencyLimit;
+  /**
+   * Share of the limit each priority class may use, e.g.
+   * `{ critical: 1, interactive: 0.9, batch: 0.5 }`: as load grows, the
+   * classes with the lower shares are shed first. Every class may still run
+   * one call while the limit is at least 1. Calls without a priority, or with
+   * one not listed, may use the whole limit.
+   */
+  readonly priorities?: Readonly<Record<string, number>>;
+  /**
+   * Whether a failure means the dependency is overloaded, which lowers the
+   * limit. Default: a `TimeoutError`. Other failures are not sampled.
+   */
+  readonly isDropped?: (error: unknown) => boolean;
+  readonly clock?: Clock;
+}
+
+/**
+ * Bulkhead whose concurrency limit follows the dependency's latency and drops
+ * instead of being fixed: it lets more calls through while the dependency
+ * keeps up and fewer as it slows down. Calls over the limit are rejected
+ * right away with {@link BulkheadRejectedError} — shedding load instead of
+ * queuing it — so it replaces a {@link Bulkhead} wherever one is used.
+ *
+ * @example
+ * ```typescript
+ * const bulkhead = new AdaptiveBulkhead({
+ *   limit: new Gradient2Limit({ maxLimit: 100 }),
+ *   priorities: { checkout: 1, search: 0.7 },
+ * });
+ *
+ * await bulkhead.execute(() => inventory.reserve(order), 'checkout');
+ * ```
+ */
+export class AdaptiveBulkhead {
+  private active = 0;
+  private readonly clock: Clock;
+  private readonly isDropped: (error: unknown) => boolean;
+
+  constructor(private readonly options: AdaptiveBulkheadOptions) {
+    this.clock = options.clock ?? new SystemClock();
+    this.isDropped = options.isDropped ?? ((error): boolean => error instanceof TimeoutError);
+  }
+
+  async execute<T>(fn: () => Promise<T>, priority?: string): Promise<T> {
+    if (this.active >= this.capacity(priority)) {
+      throw new BulkheadRejectedError('Concurrency limit reached — request rejected');
+    }
+    const inflight = ++this.active;
+    const startedAt = this.clock.timestamp();
+    try {
+      const result = await fn();
+      this.sample(startedAt, inflight, false);
+      return result;
+    } catch (error) {
+      if (this.isDropped(error)) this.sample(startedAt, inflight, true);
+      throw error;
+    } finally {
+      this.active--;
+    }
+  }
+
+  getLimit(): number {
+    return this.options.limit.getLimit();
+  }
+
+  getActiveCount(): number {
+    return this.active;
+  }
+
+  private capacity(priority: string | undefined): number {
+    const share = priority === undefined ? 1 : (this.options.priorities?.[priority] ?? 1);
+    const limit = this.options.limit.getLimit();
+    // A small share of a low limit would otherwise round down to no call at all.
+    return Math.max(Math.floor(limit * share), Math.min(limit, 1));
+  }
+
+  private sample(startedAt: number, inflight: number, dropped: boolean): void {
+    const rttMs = this.clock.timestamp() - startedAt;
+    this.options.limit.update({ rttMs, inflight, dropped });
+  }
+}
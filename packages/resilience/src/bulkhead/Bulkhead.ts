@@ -1,6 +1,8 @@
+import { abortReason } from '../shared/abort';
+
 export class BulkheadRejectedError extends Error {
-  constructor() {
-    super('Bulkhead queue is full — request rejected');
+  constructor(message = 'Bulkhead queue is full — request rejected') {
+    super(message);
     this.name = 'BulkheadRejectedError';
   }
 }
@@ -18,8 +20,12 @@ export class Bulkhead {
     private readonly maxQueue: number,
   ) {}
 
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
-    await this.acquireSlot();
+  /**
+   * Runs `fn` once a slot is free. A call still queued when `signal` aborts
+   * leaves the queue and rejects with the abort reason instead of running.
+   */
+  async execute<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquireSlot(signal);
     try {
       return await fn();
     } finally {
@@ -27,7 +33,11 @@ export class Bulkhead {
     }
   }
 
-  private acquireSlot(): Promise<void> {
+  private acquireSlot(signal: AbortSignal | undefined): Promise<void> {
+    if (signal?.aborted === true) {
+      return Promise.reject(abortReason(signal));
+    }
+
     if (this.active < this.maxConcurrent) {
       this.active++;
       return Promise.resolve();
@@ -37,8 +47,23 @@ export class Bulkhead {
       return Promise.reject(new BulkheadRejectedError());
     }
 
-    return new Promise<void>(resolve => {
-      this.queue.push(resolve);
+    if (signal === undefined) {
+      return new Promise<void>((resolve) => {
+        this.queue.push(resolve);
+      });
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = (): void => {
+        this.queue.splice(this.queue.indexOf(grant), 1);
+        reject(abortReason(signal));
+      };
+      const grant = (): void => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      this.queue.push(grant);
+      signal.addEventListener('abort', onAbort, { once: true });
     });
   }
 
@@ -0,0 +1,48 @@
+import type { ConcurrencyLimit, ConcurrencySample } from './ConcurrencyLimit';
+import { clamp } from './ConcurrencyLimit';
+
+export interface AimdLimitOptions {
+  /** Default: `20`. */
+  readonly initialLimit?: number;
+  /** Default: `1`. */
+  readonly minLimit?: number;
+  /** Default: `200`. */
+  readonly maxLimit?: number;
+  /** What the limit is multiplied by on a drop. Default: `0.9`. */
+  readonly backoffRatio?: number;
+  /** Calls slower than this count as drops. Default: `5_000`. */
+  readonly timeoutMs?: number;
+}
+
+/**
+ * Additive increase, multiplicative decrease: the limit grows by one while
+ * calls succeed and at least half of it is used, and shrinks by
+ * `backoffRatio` on every drop. Reacts to failures only, not to latency.
+ */
+export class AimdLimit implements ConcurrencyLimit {
+  private limit: number;
+  private readonly minLimit: number;
+  private readonly maxLimit: number;
+  private readonly backoffRatio: number;
+  private readonly timeoutMs: number;
+
+  constructor(options: AimdLimitOptions = {}) {
+    this.minLimit = options.minLimit ?? 1;
+    this.maxLimit = options.maxLimit ?? 200;
+    this.limit = clamp(options.initialLimit ?? 20, this.minLimit, this.maxLimit);
+    this.backoffRatio = options.backoffRatio ?? 0.9;
+    this.timeoutMs = options.timeoutMs ?? 5_000;
+  }
+
+  getLimit(): number {
+    return this.limit;
+  }
+
+  update({ rttMs, inflight, dropped }: ConcurrencySample): void {
+    if (dropped || rttMs > this.timeoutMs) {
+      this.limit = Math.max(this.minLimit, Math.floor(this.limit * this.backoffRatio));
+    } else if (inflight * 2 >= this.limit) {
+      this.limit = Math.min(this.maxLimit, this.limit + 1);
+    }
+  }
+}
@@ -0,0 +1,22 @@
+/** What one call through an {@link AdaptiveBulkhead} tells its limit. */
+export interface ConcurrencySample {
+  /** How long the call took. */
+  readonly rttMs: number;
+  /** Calls in flight when this one started, itself included. */
+  readonly inflight: number;
+  /** Whether the call timed out or was otherwise dropped by an overloaded dependency. */
+  readonly dropped: boolean;
+}
+
+/**
+ * An algorithm that estimates how many concurrent calls a dependency can take
+ * from the latency and drops it shows, after Netflix's concurrency-limits.
+ */
+export interface ConcurrencyLimit {
+  getLimit(): number;
+  update(sample: ConcurrencySample): void;
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
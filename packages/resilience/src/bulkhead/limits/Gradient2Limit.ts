@@ -0,0 +1,93 @@
+import type { ConcurrencyLimit, ConcurrencySample } from './ConcurrencyLimit';
+import { clamp } from './ConcurrencyLimit';
+
+export interface Gradient2LimitOptions {
+  /** Default: `20`. */
+  readonly initialLimit?: number;
+  /** Default: `1`. */
+  readonly minLimit?: number;
+  /** Default: `200`. */
+  readonly maxLimit?: number;
+  /** Share of each change applied, from 0 to 1. Default: `0.2`. */
+  readonly smoothing?: number;
+  /** How much slower than the long-term latency calls may get before the limit shrinks. Default: `1.5`. */
+  readonly rttTolerance?: number;
+  /** Samples averaged into the long-term latency. Default: `600`. */
+  readonly longWindow?: number;
+  /** Calls allowed to queue on top of the estimate, so the limit can probe upwards. Default: `4`. */
+  readonly queueSize?: number;
+}
+
+/**
+ * Gradient2: compares each call's latency with a long-term average of
+ * latencies and scales the limit by their ratio — down to half when calls
+ * are much slower, unchanged when they are within `rttTolerance` — plus
+ * `queueSize` to keep probing. Following the average instead of the fastest
+ * call seen makes it robust to latency that drifts over time.
+ */
+export class Gradient2Limit implements ConcurrencyLimit {
+  private limit: number;
+  private readonly longRtt: ExponentialAverage;
+  private readonly minLimit: number;
+  private readonly maxLimit: number;
+  private readonly smoothing: number;
+  private readonly rttTolerance: number;
+  private readonly queueSize: number;
+
+  constructor(options: Gradient2LimitOptions = {}) {
+    this.minLimit = options.minLimit ?? 1;
+    this.maxLimit = options.maxLimit ?? 200;
+    this.limit = clamp(options.initialLimit ?? 20, this.minLimit, this.maxLimit);
+    this.smoothing = options.smoothing ?? 0.2;
+    this.rttTolerance = options.rttTolerance ?? 1.5;
+    this.queueSize = options.queueSize ?? 4;
+    this.longRtt = new ExponentialAverage(options.longWindow ?? 600, 10);
+  }
+
+  getLimit(): number {
+    return Math.floor(this.limit);
+  }
+
+  update({ rttMs, inflight }: ConcurrencySample): void {
+    if (rttMs <= 0) return;
+    let longRttMs = this.longRtt.add(rttMs);
+    // Let the average recover quickly once a latency spike is over.
+    if (longRttMs / rttMs > 2) longRttMs = this.longRtt.scale(0.95);
+    // Not using the limit says nothing about whether it could be higher.
+    if (inflight < this.limit / 2) return;
+    const gradient = clamp((this.rttTolerance * longRttMs) / rttMs, 0.5, 1);
+    const target = this.limit * gradient + this.queueSize;
+    this.limit = clamp(
+      this.limit * (1 - this.smoothing) + target * this.smoothing,
+      this.minLimit,
+      this.maxLimit,
+    );
+  }
+}
+
+/** A plain average over the first `warmup` samples, exponential afterwards. */
+class ExponentialAverage {
+  private value = 0;
+  private count = 0;
+
+  constructor(
+    private readonly window: number,
+    private readonly warmup: number,
+  ) {}
+
+  add(sample: number): number {
+    if (this.count < this.warmup) {
+      this.count++;
+      this.value += (sample - this.value) / this.count;
+    } else {
+      const factor = 2 / (this.window + 1);
+      this.value = this.value * (1 - factor) + sample * factor;
+    }
+    return this.value;
+  }
+
+  scale(factor: number): number {
+    this.value *= factor;
+    return this.value;
+  }
+}
@@ -0,0 +1,74 @@
+import type { ConcurrencyLimit, ConcurrencySample } from './ConcurrencyLimit';
+import { clamp } from './ConcurrencyLimit';
+
+export interface VegasLimitOptions {
+  /** Default: `20`. */
+  readonly initialLimit?: number;
+  /** Default: `1`. */
+  readonly minLimit?: number;
+  /** Default: `1_000`. */
+  readonly maxLimit?: number;
+  /** Share of each change applied, from 0 to 1. Default: `1`. */
+  readonly smoothing?: number;
+  /**
+   * Samples, in multiples of the limit, after which the no-load latency is
+   * measured anew so that it follows lasting changes. Default: `30`.
+   */
+  readonly probeMultiplier?: number;
+}
+
+/**
+ * TCP Vegas: estimates the queue in front of the dependency from how much
+ * slower calls are than the fastest one seen (the no-load latency), grows the
+ * limit while that queue is short and shrinks it once it is long or calls
+ * are dropped. Steps scale with `log10(limit)`.
+ */
+export class VegasLimit implements ConcurrencyLimit {
+  private limit: number;
+  private noLoadRttMs = 0;
+  private samples = 0;
+  private readonly minLimit: number;
+  private readonly maxLimit: number;
+  private readonly smoothing: number;
+  private readonly probeMultiplier: number;
+
+  constructor(options: VegasLimitOptions = {}) {
+    this.minLimit = options.minLimit ?? 1;
+    this.maxLimit = options.maxLimit ?? 1_000;
+    this.limit = clamp(options.initialLimit ?? 20, this.minLimit, this.maxLimit);
+    this.smoothing = options.smoothing ?? 1;
+    this.probeMultiplier = options.probeMultiplier ?? 30;
+  }
+
+  getLimit(): number {
+    return Math.floor(this.limit);
+  }
+
+  update({ rttMs, inflight, dropped }: ConcurrencySample): void {
+    if (rttMs <= 0) return;
+    this.samples++;
+    if (this.samples >= this.probeMultiplier * this.limit) {
+      this.samples = 0;
+      this.noLoadRttMs = rttMs;
+      return;
+    }
+    if (this.noLoadRttMs === 0 || rttMs < this.noLoadRttMs) {
+      this.noLoadRttMs = rttMs;
+      return;
+    }
+    const target = clamp(this.target(rttMs, inflight, dropped), this.minLimit, this.maxLimit);
+    this.limit = this.limit * (1 - this.smoothing) + target * this.smoothing;
+  }
+
+  private target(rttMs: number, inflight: number, dropped: boolean): number {
+    const step = Math.max(1, Math.floor(Math.log10(this.limit)));
+    if (dropped) return this.limit - step;
+    // Not using the limit says nothing about whether it could be higher.
+    if (inflight * 2 < this.limit) return this.limit;
+    const queue = Math.ceil(this.limit * (1 - this.noLoadRttMs / rttMs));
+    if (queue <= step) return this.limit + 6 * step;
+    if (queue < 3 * step) return this.limit + step;
+    if (queue > 6 * step) return this.limit - step;
+    return this.limit;
+  }
+}
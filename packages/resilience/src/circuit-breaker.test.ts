@@ -0,0 +1,291 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+/* eslint-disable @typescript-eslint/require-await */
+/* eslint-disable max-lines-per-function */
+import { describe, it, expect } from 'vitest';
+import type { Clock } from '@marcusprado02/kernel';
+import {
+  CircuitBreaker,
+  CircuitBreakerOpenError,
+  CircuitBreakerState,
+} from './circuitbreaker/CircuitBreaker';
+import type { CircuitBreakerStateChange } from './circuitbreaker/CircuitBreaker';
+
+class ManualClock implements Clock {
+  constructor(private time = 0) {}
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  timestamp(): number {
+    return this.time;
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
+
+const ok = async () => 'ok';
+const boom = async () => {
+  throw new Error('boom');
+};
+
+async function call(breaker: CircuitBreaker, fn: () => Promise<string>): Promise<string> {
+  try {
+    return await breaker.execute(fn);
+  } catch (error) {
+    return error instanceof CircuitBreakerOpenError ? 'rejected' : 'failed';
+  }
+}
+
+/** An operation the clock says took `ms`. */
+function taking(clock: ManualClock, ms: number, fn = ok) {
+  return async () => {
+    clock.advance(ms);
+    return fn();
+  };
+}
+
+// ─── Consecutive failures (positional constructor) ───────────────────────────
+
+describe('CircuitBreaker(failureThreshold, resetTimeoutMs)', () => {
+  it('opens after failureThreshold consecutive failures', async () => {
+    const breaker = new CircuitBreaker(3, 1_000);
+
+    await call(breaker, boom);
+    await call(breaker, boom);
+    await call(breaker, ok);
+    await call(breaker, boom);
+    await call(breaker, boom);
+    expect(breaker.getState()).toBe(CircuitBreakerState.CLOSED);
+
+    await call(breaker, boom);
+    expect(breaker.getState()).toBe(CircuitBreakerState.OPEN);
+    expect(await call(breaker, ok)).toBe('rejected');
+  });
+});
+
+// ─── Sliding windows ─────────────────────────────────────────────────────────
+
+describe('CircuitBreaker — count-based window', () => {
+  it('opens once the failure rate reaches the threshold over minimumCalls', async () => {
+    const breaker = new CircuitBreaker({
+      slidingWindow: { type: 'count', size: 4 },
+      minimumCalls: 4,
+      failureRateThreshold: 50,
+    });
+
+    await call(breaker, boom);
+    await call(breaker, boom);
+    await call(breaker, ok);
+    expect(breaker.getState()).toBe(CircuitBreakerState.CLOSED);
+
+    await call(breaker, ok);
+    expect(breaker.getState()).toBe(CircuitBreakerState.OPEN);
+    expect(breaker.getMetrics()).toEqual({
+      calls: 4,
+      failedCalls: 2,
+      slowCalls: 0,
+      failureRate: 50,
+      slowCallRate: 0,
+    });
+  });
+
+  it('forgets calls that slid out of the window', async () => {
+    const breaker = new CircuitBreaker({
+      slidingWindow: { type: 'count', size: 3 },
+      failureRateThreshold: 100,
+    });
+
+    await call(breaker, boom);
+    await call(breaker, boom);
+    await call(breaker, ok);
+    await call(breaker, boom);
+    await call(breaker, boom);
+
+    expect(breaker.getState()).toBe(CircuitBreakerState.CLOSED);
+    expect(breaker.getMetrics().failedCalls).toBe(2);
+  });
+
+  it('opens on the slow-call rate', async () => {
+    const clock = new ManualClock();
+    const breaker = new CircuitBreaker({
+      slidingWindow: { type: 'count', size: 2 },
+      slowCallDurationMs: 100,
+      slowCallRateThreshold: 100,
+      clock,
+    });
+
+    await call(breaker, taking(clock, 100));
+    expect(breaker.getState()).toBe(CircuitBreakerState.CLOSED);
+    await call(breaker, taking(clock, 250));
+
+    expect(breaker.getState()).toBe(CircuitBreakerState.OPEN);
+    expect(breaker.getMetrics().slowCallRate).toBe(100);
+  });
+});
+
+describe('CircuitBreaker — time-based window', () => {
+  it('only counts the calls of the last durationMs', async () => {
+    const clock = new ManualClock();
+    const breaker = new CircuitBreaker({
+      slidingWindow: { type: 'time', durationMs: 10_000 },
+      minimumCalls: 3,
+      failureRateThreshold: 100,
+      clock,
+    });
+
+    await call(breaker, boom);
+    await call(breaker, boom);
+    clock.advance(11_000);
+    await call(breaker, boom);
+    expect(breaker.getState()).toBe(CircuitBreakerState.CLOSED);
+    expect(breaker.getMetrics().calls).toBe(1);
+
+    clock.advance(2_000);
+    await call(breaker, boom);
+    await call(breaker, boom);
+    expect(breaker.getState()).toBe(CircuitBreakerState.OPEN);
+  });
+});
+
+// ─── Open & half-open ────────────────────────────────────────────────────────
+
+describe('CircuitBreaker — half-open trials', () => {
+  async function openBreaker(clock: ManualClock, permittedCallsInHalfOpen: number) {
+    const breaker = new CircuitBreaker({
+      slidingWindow: { type: 'count', size: 2 },
+      failureRateThreshold: 50,
+      resetTimeoutMs: 5_000,
+      permittedCallsInHalfOpen,
+      clock,
+    });
+    await call(breaker, boom);
+    await call(breaker, boom);
+    return breaker;
+  }
+
+  it('rejects calls until resetTimeoutMs has elapsed', async () => {
+    const clock = new ManualClock();
+    const breaker = await openBreaker(clock, 1);
+
+    clock.advance(4_999);
+    expect(await call(breaker, ok)).toBe('rejected');
+    clock.advance(1);
+    expect(await call(breaker, ok)).toBe('ok');
+    expect(breaker.getState()).toBe(CircuitBreakerState.CLOSED);
+  });
+
+  it('lets only permittedCallsInHalfOpen trial calls through at once', async () => {
+    const clock = new ManualClock();
+    const breaker = await openBreaker(clock, 2);
+    clock.advance(5_000);
+
+    const releases: (() => void)[] = [];
+    const pending = () => new Promise<string>((resolve) => releases.push(() => resolve('ok')));
+    const first = breaker.execute(pending);
+    const second = breaker.execute(pending);
+
+    await expect(breaker.execute(ok)).rejects.toBeInstanceOf(CircuitBreakerOpenError);
+    expect(breaker.getState()).toBe(CircuitBreakerState.HALF_OPEN);
+
+    releases.forEach((release) => release());
+    await Promise.all([first, second]);
+    expect(breaker.getState()).toBe(CircuitBreakerState.CLOSED);
+  });
+
+  it('opens again when the trial calls exceed the thresholds', async () => {
+    const clock = new ManualClock();
+    const breaker = await openBreaker(clock, 2);
+    clock.advance(5_000);
+
+    await call(breaker, ok);
+    expect(breaker.getState()).toBe(CircuitBreakerState.HALF_OPEN);
+    await call(breaker, boom);
+
+    expect(breaker.getState()).toBe(CircuitBreakerState.OPEN);
+    expect(await call(breaker, ok)).toBe('rejected');
+  });
+});
+
+// ─── Error classification ────────────────────────────────────────────────────
+
+describe('CircuitBreaker — isFailure', () => {
+  class NotFoundError extends Error {}
+
+  it('rethrows errors that are not failures without recording them', async () => {
+    const breaker = new CircuitBreaker({
+      slidingWindow: { type: 'count', size: 2 },
+      failureRateThreshold: 50,
+      isFailure: (error) => !(error instanceof NotFoundError),
+    });
+    const notFound = async () => {
+      throw new NotFoundError('order not found');
+    };
+
+    await expect(breaker.execute(notFound)).rejects.toBeInstanceOf(NotFoundError);
+    await expect(breaker.execute(notFound)).rejects.toBeInstanceOf(NotFoundError);
+
+    expect(breaker.getState()).toBe(CircuitBreakerState.CLOSED);
+    expect(breaker.getMetrics().calls).toBe(0);
+  });
+});
+
+// ─── Manual control & listeners ──────────────────────────────────────────────
+
+describe('CircuitBreaker — manual control', () => {
+  it('rejects every call while forced open', async () => {
+    const breaker = new CircuitBreaker();
+    breaker.forceOpen();
+
+    expect(breaker.getState()).toBe(CircuitBreakerState.FORCED_OPEN);
+    expect(await call(breaker, ok)).toBe('rejected');
+  });
+
+  it('lets every call through without recording it while forced closed', async () => {
+    const breaker = new CircuitBreaker({ slidingWindow: { type: 'count', size: 1 } });
+    breaker.forceClosed();
+
+    expect(await call(breaker, boom)).toBe('failed');
+    expect(await call(breaker, boom)).toBe('failed');
+    expect(breaker.getState()).toBe(CircuitBreakerState.FORCED_CLOSED);
+    expect(breaker.getMetrics().calls).toBe(0);
+  });
+
+  it('closes and forgets recorded calls on reset', async () => {
+    const breaker = new CircuitBreaker(1, 60_000);
+    await call(breaker, boom);
+    expect(breaker.getState()).toBe(CircuitBreakerState.OPEN);
+
+    breaker.reset();
+
+    expect(breaker.getState()).toBe(CircuitBreakerState.CLOSED);
+    expect(breaker.getMetrics().calls).toBe(0);
+    expect(await call(breaker, ok)).toBe('ok');
+  });
+
+  it('notifies state changes until the listener is removed', async () => {
+    const clock = new ManualClock();
+    const changes: CircuitBreakerStateChange[] = [];
+    const breaker = new CircuitBreaker({
+      slidingWindow: { type: 'count', size: 1 },
+      resetTimeoutMs: 1_000,
+      permittedCallsInHalfOpen: 1,
+      clock,
+    });
+    const unsubscribe = breaker.onStateChange((change) => changes.push(change));
+
+    await call(breaker, boom);
+    clock.advance(1_000);
+    await call(breaker, ok);
+    unsubscribe();
+    breaker.forceOpen();
+
+    expect(changes).toEqual([
+      { from: CircuitBreakerState.CLOSED, to: CircuitBreakerState.OPEN },
+      { from: CircuitBreakerState.OPEN, to: CircuitBreakerState.HALF_OPEN },
+      { from: CircuitBreakerState.HALF_OPEN, to: CircuitBreakerState.CLOSED },
+    ]);
+  });
+});
@@ -1,7 +1,22 @@
+import type { Clock } from '@marcusprado02/kernel';
+import { SystemClock } from '@marcusprado02/kernel';
+import type {
+  CallOutcome,
+  SlidingWindow,
+  SlidingWindowOptions,
+  WindowSnapshot,
+} from './SlidingWindow';
+import { createSlidingWindow } from './SlidingWindow';
+import type { CircuitBreakerStateStore } from './CircuitBreakerStateStore';
+
 export enum CircuitBreakerState {
   CLOSED = 'CLOSED',
   OPEN = 'OPEN',
   HALF_OPEN = 'HALF_OPEN',
+  /** Opened with `forceOpen()`: rejects every call until `reset()` or `forceClosed()`. */
+  FORCED_OPEN = 'FORCED_OPEN',
+  /** Closed with `forceClosed()`: lets every call through without recording it. */
+  FORCED_CLOSED = 'FORCED_CLOSED',
 }
 
 export class CircuitBreakerOpenError extends Error {
@@ -11,50 +26,308 @@ export class CircuitBreakerOpenError extends Error {
   }
 }
 
+export interface CircuitBreakerOptions {
+  /** Calls the rates are computed over. Default: the last 100 calls. */
+  readonly slidingWindow?: SlidingWindowOptions;
+  /** Calls the window must hold before the breaker may open. Default: 100, at most the count window size. */
+  readonly minimumCalls?: number;
+  /** Percentage of failed calls at or above which the breaker opens. Default: 50. */
+  readonly failureRateThreshold?: number;
+  /** Calls taking at least this long are slow. Default: no call is slow. */
+  readonly slowCallDurationMs?: number;
+  /** Percentage of slow calls at or above which the breaker opens. Default: 100. */
+  readonly slowCallRateThreshold?: number;
+  /** Time the breaker stays open before letting trial calls through. Default: 60 000. */
+  readonly resetTimeoutMs?: number;
+  /** Trial calls let through in HALF_OPEN; their rates decide whether it closes or opens again. Default: 10. */
+  readonly permittedCallsInHalfOpen?: number;
+  /**
+   * Whether an error counts as a failure. Errors that do not — say a
+   * `NonRetryableError` or a 4xx response — are rethrown without being
+   * recorded. Default: every error is a failure.
+   */
+  readonly isFailure?: (error: unknown) => boolean;
+  /**
+   * Shares transitions with the breakers of the same `name` on other
+   * instances: each call first adopts a newer state from `store`, and each
+   * transition is written to it. Sliding windows stay local. The breaker
+   * keeps working on its own state while the store is unavailable, or slower
+   * to answer than `timeoutMs` (default: 50).
+   */
+  readonly shared?: {
+    readonly store: CircuitBreakerStateStore;
+    readonly name: string;
+    readonly timeoutMs?: number;
+  };
+  readonly clock?: Clock;
+}
+
+export interface CircuitBreakerStateChange {
+  readonly from: CircuitBreakerState;
+  readonly to: CircuitBreakerState;
+}
+
+export type CircuitBreakerStateListener = (change: CircuitBreakerStateChange) => void;
+
+/** The calls of the current sliding window; rates are percentages. */
+export interface CircuitBreakerMetrics extends WindowSnapshot {
+  readonly failureRate: number;
+  readonly slowCallRate: number;
+}
+
+interface Settings {
+  readonly minimumCalls: number;
+  readonly failureRateThreshold: number;
+  readonly slowCallDurationMs: number;
+  readonly slowCallRateThreshold: number;
+  readonly resetTimeoutMs: number;
+  readonly permittedCallsInHalfOpen: number;
+  readonly isFailure: (error: unknown) => boolean;
+}
+
+const EMPTY: WindowSnapshot = { calls: 0, failedCalls: 0, slowCalls: 0 };
+
+/**
+ * Circuit breaker over a sliding window of calls: it opens once the window
+ * holds `minimumCalls` and the failure rate or the slow-call rate reaches
+ * its threshold, rejects calls with {@link CircuitBreakerOpenError} for
+ * `resetTimeoutMs`, then lets `permittedCallsInHalfOpen` trial calls through
+ * and closes or opens again depending on their rates.
+ *
+ * `new CircuitBreaker(failureThreshold, resetTimeoutMs)` opens after
+ * `failureThreshold` consecutive failures and closes after one successful
+ * trial call.
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({
+ *   slidingWindow: { type: 'time', durationMs: 60_000 },
+ *   minimumCalls: 20,
+ *   failureRateThreshold: 50,
+ *   slowCallDurationMs: 2_000,
+ *   slowCallRateThreshold: 80,
+ *   resetTimeoutMs: 30_000,
+ *   permittedCallsInHalfOpen: 5,
+ *   isFailure: (error) => !(error instanceof NonRetryableError),
+ * });
+ * breaker.onStateChange(({ from, to }) => logger.warn(`payments breaker ${from} -> ${to}`));
+ * ```
+ */
 export class CircuitBreaker {
   private state = CircuitBreakerState.CLOSED;
-  private failures = 0;
-  private lastFailureTime?: number;
+  /** Incremented on every transition, so calls started before one are not recorded after it. */
+  private generation = 0;
+  /** When the current state was entered; for OPEN, when the reset timeout started. */
+  private changedAt = 0;
+  private trialsStarted = 0;
+  private trials = EMPTY;
+  private readonly window: SlidingWindow;
+  private readonly settings: Settings;
+  private readonly clock: Clock;
+  private readonly shared: CircuitBreakerOptions['shared'];
+  private readonly listeners: CircuitBreakerStateListener[] = [];
 
-  constructor(
-    private readonly failureThreshold: number,
-    private readonly resetTimeoutMs: number,
-  ) {}
+  constructor(options?: CircuitBreakerOptions);
+  constructor(failureThreshold: number, resetTimeoutMs: number);
+  constructor(options: CircuitBreakerOptions | number = {}, resetTimeoutMs?: number) {
+    const resolved =
+      typeof options === 'number' ? consecutiveFailures(options, resetTimeoutMs) : options;
+    const slidingWindow = resolved.slidingWindow ?? { type: 'count', size: 100 };
+    this.window = createSlidingWindow(slidingWindow);
+    this.clock = resolved.clock ?? new SystemClock();
+    this.settings = resolveSettings(resolved, slidingWindow);
+    this.shared = resolved.shared;
+  }
 
   async execute<T>(fn: () => Promise<T>): Promise<T> {
-    if (this.state === CircuitBreakerState.OPEN) {
-      if (Date.now() - (this.lastFailureTime ?? 0) > this.resetTimeoutMs) {
-        this.state = CircuitBreakerState.HALF_OPEN;
-      } else {
-        throw new CircuitBreakerOpenError();
-      }
-    }
+    if (this.shared !== undefined) await this.adoptSharedState(this.shared);
+    this.acquirePermission();
+    const generation = this.generation;
+    const start = this.clock.timestamp();
 
     try {
       const result = await fn();
-      this.onSuccess();
+      this.onCompleted(generation, start, false);
       return result;
     } catch (error) {
-      this.onFailure();
+      if (this.settings.isFailure(error)) this.onCompleted(generation, start, true);
+      else this.onIgnored(generation);
       throw error;
     }
   }
 
-  private onSuccess(): void {
-    this.failures = 0;
-    this.state = CircuitBreakerState.CLOSED;
+  getState(): CircuitBreakerState {
+    return this.state;
+  }
+
+  /** Rates over the calls of the sliding window. */
+  getMetrics(): CircuitBreakerMetrics {
+    return withRates(this.window.snapshot(this.clock.timestamp()));
+  }
+
+  /** Rejects every call until {@link reset} or {@link forceClosed}. */
+  forceOpen(): void {
+    this.transition(CircuitBreakerState.FORCED_OPEN);
+  }
+
+  /** Lets every call through, without recording it, until {@link reset} or {@link forceOpen}. */
+  forceClosed(): void {
+    this.transition(CircuitBreakerState.FORCED_CLOSED);
+  }
+
+  /** Closes the breaker and forgets the recorded calls. */
+  reset(): void {
+    this.window.reset();
+    this.transition(CircuitBreakerState.CLOSED);
+  }
+
+  /** Listens to state transitions. Returns a function removing the listener. */
+  onStateChange(listener: CircuitBreakerStateListener): () => void {
+    this.listeners.push(listener);
+    return (): void => {
+      const index = this.listeners.indexOf(listener);
+      if (index >= 0) this.listeners.splice(index, 1);
+    };
+  }
+
+  private acquirePermission(): void {
+    if (this.state === CircuitBreakerState.FORCED_OPEN) throw new CircuitBreakerOpenError();
+    if (this.state === CircuitBreakerState.OPEN) {
+      if (this.clock.timestamp() - this.changedAt < this.settings.resetTimeoutMs) {
+        throw new CircuitBreakerOpenError();
+      }
+      this.transition(CircuitBreakerState.HALF_OPEN);
+    }
+    if (this.state === CircuitBreakerState.HALF_OPEN) {
+      if (this.trialsStarted >= this.settings.permittedCallsInHalfOpen) {
+        throw new CircuitBreakerOpenError();
+      }
+      this.trialsStarted++;
+    }
+  }
+
+  private onCompleted(generation: number, start: number, failed: boolean): void {
+    if (generation !== this.generation) return;
+    const now = this.clock.timestamp();
+    const outcome: CallOutcome = { failed, slow: now - start >= this.settings.slowCallDurationMs };
+
+    if (this.state === CircuitBreakerState.CLOSED) {
+      this.window.record(outcome, now);
+      if (this.exceedsThresholds(this.window.snapshot(now), this.settings.minimumCalls)) {
+        this.transition(CircuitBreakerState.OPEN);
+      }
+    } else if (this.state === CircuitBreakerState.HALF_OPEN) {
+      this.trials = {
+        calls: this.trials.calls + 1,
+        failedCalls: this.trials.failedCalls + (outcome.failed ? 1 : 0),
+        slowCalls: this.trials.slowCalls + (outcome.slow ? 1 : 0),
+      };
+      this.onTrialCompleted();
+    }
   }
 
-  private onFailure(): void {
-    this.failures++;
-    this.lastFailureTime = Date.now();
+  /** An ignored error frees its HALF_OPEN trial slot for another call. */
+  private onIgnored(generation: number): void {
+    if (generation === this.generation && this.state === CircuitBreakerState.HALF_OPEN) {
+      this.trialsStarted--;
+    }
+  }
 
-    if (this.failures >= this.failureThreshold) {
-      this.state = CircuitBreakerState.OPEN;
+  private onTrialCompleted(): void {
+    const permitted = this.settings.permittedCallsInHalfOpen;
+    if (this.exceedsThresholds(this.trials, permitted)) {
+      this.transition(CircuitBreakerState.OPEN);
+    } else if (this.trials.calls >= permitted) {
+      this.transition(CircuitBreakerState.CLOSED);
     }
   }
 
-  getState(): CircuitBreakerState {
-    return this.state;
+  private exceedsThresholds(snapshot: WindowSnapshot, minimumCalls: number): boolean {
+    if (snapshot.calls < minimumCalls) return false;
+    const { failureRate, slowCallRate } = withRates(snapshot);
+    return (
+      failureRate >= this.settings.failureRateThreshold ||
+      slowCallRate >= this.settings.slowCallRateThreshold
+    );
+  }
+
+  private async adoptSharedState({
+    store,
+    name,
+    timeoutMs = 50,
+  }: NonNullable<CircuitBreakerOptions['shared']>): Promise<void> {
+    const shared = await within(store.get(name), timeoutMs).catch(() => undefined);
+    if (shared === undefined || shared.changedAt <= this.changedAt) return;
+    if (shared.state === this.state) this.changedAt = shared.changedAt;
+    else this.transition(shared.state, shared.changedAt);
+  }
+
+  /** Enters `to`; transitions of this instance, unlike adopted ones, are shared. */
+  private transition(to: CircuitBreakerState, adoptedAt?: number): void {
+    const from = this.state;
+    if (from === to) return;
+    this.state = to;
+    this.generation++;
+    this.changedAt = adoptedAt ?? this.clock.timestamp();
+    if (to === CircuitBreakerState.CLOSED) this.window.reset();
+    if (to === CircuitBreakerState.HALF_OPEN) {
+      this.trialsStarted = 0;
+      this.trials = EMPTY;
+    }
+    if (this.shared !== undefined && adoptedAt === undefined) {
+      const { store, name } = this.shared;
+      store.set(name, { state: to, changedAt: this.changedAt }).catch(() => undefined);
+    }
+    for (const listener of [...this.listeners]) listener({ from, to });
   }
 }
+
+/** What `promise` resolves to, or `undefined` when it takes longer than `ms`. */
+function within<T>(promise: Promise<T>, ms: number): Promise<T | undefined> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<undefined>((resolve) => {
+    timer = setTimeout(() => resolve(undefined), ms);
+  });
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
+
+/** The options of `new CircuitBreaker(failureThreshold, resetTimeoutMs)`. */
+function consecutiveFailures(
+  failureThreshold: number,
+  resetTimeoutMs = 60_000,
+): CircuitBreakerOptions {
+  return {
+    slidingWindow: { type: 'count', size: failureThreshold },
+    minimumCalls: failureThreshold,
+    failureRateThreshold: 100,
+    resetTimeoutMs,
+    permittedCallsInHalfOpen: 1,
+  };
+}
+
+function resolveSettings(
+  options: CircuitBreakerOptions,
+  slidingWindow: SlidingWindowOptions,
+): Settings {
+  const minimumCalls = options.minimumCalls ?? 100;
+  return {
+    minimumCalls:
+      slidingWindow.type === 'count' ? Math.min(minimumCalls, slidingWindow.size) : minimumCalls,
+    failureRateThreshold: options.failureRateThreshold ?? 50,
+    slowCallDurationMs: options.slowCallDurationMs ?? Infinity,
+    slowCallRateThreshold: options.slowCallRateThreshold ?? 100,
+    resetTimeoutMs: options.resetTimeoutMs ?? 60_000,
+    permittedCallsInHalfOpen: options.permittedCallsInHalfOpen ?? 10,
+    isFailure: options.isFailure ?? ((): boolean => true),
+  };
+}
+
+function withRates(snapshot: WindowSnapshot): CircuitBreakerMetrics {
+  const rate = (count: number): number =>
+    snapshot.calls === 0 ? 0 : (count / snapshot.calls) * 100;
+  return {
+    ...snapshot,
+    failureRate: rate(snapshot.failedCalls),
+    slowCallRate: rate(snapshot.slowCalls),
+  };
+}
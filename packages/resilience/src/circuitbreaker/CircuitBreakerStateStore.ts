@@ -0,0 +1,31 @@
+import type { CircuitBreakerState } from './CircuitBreaker';
+
+/** A breaker's state as shared between the instances of a service. */
+export interface SharedCircuitBreakerState {
+  readonly state: CircuitBreakerState;
+  /** Epoch milliseconds of the transition into `state`. */
+  readonly changedAt: number;
+}
+
+/**
+ * Where circuit breakers of the same name publish their transitions, so that
+ * a breaker opening on one instance opens on all of them.
+ */
+export interface CircuitBreakerStateStore {
+  get(name: string): Promise<SharedCircuitBreakerState | undefined>;
+  set(name: string, state: SharedCircuitBreakerState): Promise<void>;
+}
+
+/** {@link CircuitBreakerStateStore} in process memory, e.g. for tests. */
+export class InMemoryCircuitBreakerStateStore implements CircuitBreakerStateStore {
+  private readonly states = new Map<string, SharedCircuitBreakerState>();
+
+  get(name: string): Promise<SharedCircuitBreakerState | undefined> {
+    return Promise.resolve(this.states.get(name));
+  }
+
+  set(name: string, state: SharedCircuitBreakerState): Promise<void> {
+    this.states.set(name, state);
+    return Promise.resolve();
+  }
+}
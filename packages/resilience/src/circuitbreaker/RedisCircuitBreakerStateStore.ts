@@ -0,0 +1,39 @@
+import type { RedisClientLike } from '@marcusprado02/cache-redis';
+import type {
+  CircuitBreakerStateStore,
+  SharedCircuitBreakerState,
+} from './CircuitBreakerStateStore';
+
+export interface RedisCircuitBreakerStateStoreOptions {
+  /** Prefix of every key: `<prefix>:<name>`. Default: `'circuitbreaker'`. */
+  readonly keyPrefix?: string;
+}
+
+/**
+ * {@link CircuitBreakerStateStore} on Redis string keys holding the state as
+ * JSON. Writes are last-writer-wins; breakers ignore states older than their
+ * own, so a late write only delays the others' next transition.
+ */
+export class RedisCircuitBreakerStateStore implements CircuitBreakerStateStore {
+  private readonly prefix: string;
+
+  constructor(
+    private readonly client: RedisClientLike,
+    options: RedisCircuitBreakerStateStoreOptions = {},
+  ) {
+    this.prefix = options.keyPrefix ?? 'circuitbreaker';
+  }
+
+  async get(name: string): Promise<SharedCircuitBreakerState | undefined> {
+    const raw = await this.client.get(this.key(name));
+    return raw === null ? undefined : (JSON.parse(raw) as SharedCircuitBreakerState);
+  }
+
+  async set(name: string, state: SharedCircuitBreakerState): Promise<void> {
+    await this.client.set(this.key(name), JSON.stringify(state));
+  }
+
+  private key(name: string): string {
+    return `${this.prefix}:${name}`;
+  }
+}
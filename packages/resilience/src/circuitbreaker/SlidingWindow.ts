@@ -0,0 +1,119 @@
+/** Which calls a circuit breaker computes its failure and slow-call rates over. */
+export type SlidingWindowOptions =
+  /** The last `size` calls. */
+  | { readonly type: 'count'; readonly size: number }
+  /** The calls of the last `durationMs`, aggregated in buckets of at most one second. */
+  | { readonly type: 'time'; readonly durationMs: number };
+
+/** Outcome of one recorded call. */
+export interface CallOutcome {
+  readonly failed: boolean;
+  readonly slow: boolean;
+}
+
+/** Totals over the calls currently in a window. */
+export interface WindowSnapshot {
+  readonly calls: number;
+  readonly failedCalls: number;
+  readonly slowCalls: number;
+}
+
+export interface SlidingWindow {
+  record(outcome: CallOutcome, now: number): void;
+  snapshot(now: number): WindowSnapshot;
+  reset(): void;
+}
+
+export function createSlidingWindow(options: SlidingWindowOptions): SlidingWindow {
+  return options.type === 'count'
+    ? new CountBasedWindow(options.size)
+    : new TimeBasedWindow(options.durationMs);
+}
+
+const EMPTY: WindowSnapshot = { calls: 0, failedCalls: 0, slowCalls: 0 };
+
+function add(totals: WindowSnapshot, outcome: CallOutcome, sign: 1 | -1): WindowSnapshot {
+  return {
+    calls: totals.calls + sign,
+    failedCalls: totals.failedCalls + (outcome.failed ? sign : 0),
+    slowCalls: totals.slowCalls + (outcome.slow ? sign : 0),
+  };
+}
+
+/** Ring buffer of the last `size` outcomes with running totals. */
+class CountBasedWindow implements SlidingWindow {
+  private readonly outcomes: (CallOutcome | undefined)[];
+  private next = 0;
+  private totals = EMPTY;
+
+  constructor(private readonly size: number) {
+    this.outcomes = new Array<CallOutcome | undefined>(size).fill(undefined);
+  }
+
+  record(outcome: CallOutcome): void {
+    const evicted = this.outcomes[this.next];
+    if (evicted !== undefined) this.totals = add(this.totals, evicted, -1);
+    this.outcomes[this.next] = outcome;
+    this.totals = add(this.totals, outcome, 1);
+    this.next = (this.next + 1) % this.size;
+  }
+
+  snapshot(): WindowSnapshot {
+    return this.totals;
+  }
+
+  reset(): void {
+    this.outcomes.fill(undefined);
+    this.next = 0;
+    this.totals = EMPTY;
+  }
+}
+
+interface Bucket {
+  readonly start: number;
+  totals: WindowSnapshot;
+}
+
+/** Buckets of `bucketMs`, dropped once they fall out of the last `durationMs`. */
+class TimeBasedWindow implements SlidingWindow {
+  private readonly bucketMs: number;
+  private buckets: Bucket[] = [];
+
+  constructor(private readonly durationMs: number) {
+    this.bucketMs = Math.max(1, Math.min(1_000, durationMs));
+  }
+
+  record(outcome: CallOutcome, now: number): void {
+    this.evict(now);
+    const start = now - (now % this.bucketMs);
+    let bucket = this.buckets[this.buckets.length - 1];
+    if (bucket?.start !== start) {
+      bucket = { start, totals: EMPTY };
+      this.buckets.push(bucket);
+    }
+    bucket.totals = add(bucket.totals, outcome, 1);
+  }
+
+  snapshot(now: number): WindowSnapshot {
+    this.evict(now);
+    return this.buckets.reduce<WindowSnapshot>(
+      (totals, bucket) => ({
+        calls: totals.calls + bucket.totals.calls,
+        failedCalls: totals.failedCalls + bucket.totals.failedCalls,
+        slowCalls: totals.slowCalls + bucket.totals.slowCalls,
+      }),
+      EMPTY,
+    );
+  }
+
+  reset(): void {
+    this.buckets = [];
+  }
+
+  private evict(now: number): void {
+    const oldest = now - this.durationMs;
+    while (this.buckets.length > 0 && (this.buckets[0]?.start ?? 0) + this.bucketMs <= oldest) {
+      this.buckets.shift();
+    }
+  }
+}
@@ -0,0 +1,267 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+/* eslint-disable @typescript-eslint/require-await */
+/* eslint-disable max-lines-per-function */
+import { describe, it, expect } from 'vitest';
+import type { Clock } from '@marcusprado02/kernel';
+import { AdaptiveBulkhead } from './bulkhead/AdaptiveBulkhead';
+import { BulkheadRejectedError } from './bulkhead/Bulkhead';
+import { AimdLimit } from './bulkhead/limits/AimdLimit';
+import type { ConcurrencyLimit, ConcurrencySample } from './bulkhead/limits/ConcurrencyLimit';
+import { Gradient2Limit } from './bulkhead/limits/Gradient2Limit';
+import { VegasLimit } from './bulkhead/limits/VegasLimit';
+import { ResiliencePipelineBuilder } from './pipeline/ResiliencePipelineBuilder';
+import type { ResilienceEvent } from './pipeline/ResilienceEvent';
+import { TimeoutError } from './timeouts/Timeout';
+
+class ManualClock implements Clock {
+  constructor(private time = 0) {}
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  timestamp(): number {
+    return this.time;
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
+
+/** A limit that never changes and records what it is told. */
+class FixedLimit implements ConcurrencyLimit {
+  readonly samples: ConcurrencySample[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  getLimit(): number {
+    return this.limit;
+  }
+
+  update(sample: ConcurrencySample): void {
+    this.samples.push(sample);
+  }
+}
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+const sample = (rttMs: number, inflight: number, dropped = false): ConcurrencySample => ({
+  rttMs,
+  inflight,
+  dropped,
+});
+
+// ─── AIMD ────────────────────────────────────────────────────────────────────
+
+describe('AimdLimit', () => {
+  it('grows by one per success while at least half the limit is in use', () => {
+    const limit = new AimdLimit({ initialLimit: 10 });
+
+    limit.update(sample(10, 6));
+    limit.update(sample(10, 6));
+
+    expect(limit.getLimit()).toBe(12);
+  });
+
+  it('does not grow while the limit is mostly unused', () => {
+    const limit = new AimdLimit({ initialLimit: 10 });
+
+    limit.update(sample(10, 4));
+
+    expect(limit.getLimit()).toBe(10);
+  });
+
+  it('backs off on drops and on calls slower than the timeout', () => {
+    const limit = new AimdLimit({ initialLimit: 100, backoffRatio: 0.5, timeoutMs: 1_000 });
+
+    limit.update(sample(10, 100, true));
+    expect(limit.getLimit()).toBe(50);
+
+    limit.update(sample(2_000, 50));
+    expect(limit.getLimit()).toBe(25);
+  });
+
+  it('stays within its bounds', () => {
+    const limit = new AimdLimit({ initialLimit: 3, minLimit: 2, maxLimit: 4, backoffRatio: 0.1 });
+
+    limit.update(sample(10, 3, true));
+    expect(limit.getLimit()).toBe(2);
+
+    for (let i = 0; i < 5; i++) limit.update(sample(10, 4));
+    expect(limit.getLimit()).toBe(4);
+  });
+});
+
+// ─── Vegas ───────────────────────────────────────────────────────────────────
+
+describe('VegasLimit', () => {
+  it('grows while calls are as fast as without load', () => {
+    const limit = new VegasLimit({ initialLimit: 20 });
+    limit.update(sample(10, 20));
+
+    limit.update(sample(10, 20));
+
+    expect(limit.getLimit()).toBe(26);
+  });
+
+  it('shrinks once latency shows a long queue', () => {
+    const limit = new VegasLimit({ initialLimit: 20 });
+    limit.update(sample(10, 20));
+
+    limit.update(sample(40, 20));
+
+    expect(limit.getLimit()).toBe(19);
+  });
+
+  it('shrinks on drops', () => {
+    const limit = new VegasLimit({ initialLimit: 20 });
+    limit.update(sample(10, 20));
+
+    limit.update(sample(10, 20, true));
+
+    expect(limit.getLimit()).toBe(19);
+  });
+
+  it('does not change while the limit is mostly unused', () => {
+    const limit = new VegasLimit({ initialLimit: 20 });
+    limit.update(sample(10, 20));
+
+    limit.update(sample(40, 5));
+
+    expect(limit.getLimit()).toBe(20);
+  });
+});
+
+// ─── Gradient2 ───────────────────────────────────────────────────────────────
+
+describe('Gradient2Limit', () => {
+  it('probes upwards while latency is steady', () => {
+    const limit = new Gradient2Limit({ initialLimit: 20, smoothing: 1 });
+
+    limit.update(sample(10, 20));
+
+    expect(limit.getLimit()).toBe(24);
+  });
+
+  it('shrinks when calls get much slower than the long-term latency', () => {
+    const limit = new Gradient2Limit({ initialLimit: 100, smoothing: 1, queueSize: 0 });
+    for (let i = 0; i < 10; i++) limit.update(sample(10, 100));
+
+    limit.update(sample(100, 100));
+
+    expect(limit.getLimit()).toBe(50);
+  });
+
+  it('does not change while the limit is mostly unused', () => {
+    const limit = new Gradient2Limit({ initialLimit: 20 });
+
+    limit.update(sample(10, 5));
+
+    expect(limit.getLimit()).toBe(20);
+  });
+});
+
+// ─── Adaptive bulkhead ───────────────────────────────────────────────────────
+
+describe('AdaptiveBulkhead', () => {
+  it('rejects calls over the current limit', async () => {
+    const bulkhead = new AdaptiveBulkhead({ limit: new FixedLimit(1) });
+    const running = deferred();
+    const first = bulkhead.execute(() => running.promise);
+
+    await expect(bulkhead.execute(async () => 'second')).rejects.toBeInstanceOf(
+      BulkheadRejectedError,
+    );
+    expect(bulkhead.getActiveCount()).toBe(1);
+
+    running.resolve();
+    await first;
+    await expect(bulkhead.execute(async () => 'third')).resolves.toBe('third');
+  });
+
+  it('sheds the priority classes with the lower shares first', async () => {
+    const bulkhead = new AdaptiveBulkhead({
+      limit: new FixedLimit(4),
+      priorities: { critical: 1, batch: 0.5 },
+    });
+    const running = deferred();
+    const hold = () => running.promise;
+    const held = [bulkhead.execute(hold, 'batch'), bulkhead.execute(hold, 'batch')];
+
+    await expect(bulkhead.execute(hold, 'batch')).rejects.toBeInstanceOf(BulkheadRejectedError);
+    held.push(bulkhead.execute(hold, 'critical'), bulkhead.execute(hold));
+    await expect(bulkhead.execute(hold, 'critical')).rejects.toBeInstanceOf(BulkheadRejectedError);
+
+    running.resolve();
+    await Promise.all(held);
+  });
+
+  it('lets a small share of a low limit run one call', async () => {
+    const bulkhead = new AdaptiveBulkhead({
+      limit: new FixedLimit(1),
+      priorities: { batch: 0.5 },
+    });
+    const running = deferred();
+    const first = bulkhead.execute(() => running.promise, 'batch');
+
+    await expect(bulkhead.execute(async () => 'second', 'batch')).rejects.toBeInstanceOf(
+      BulkheadRejectedError,
+    );
+
+    running.resolve();
+    await first;
+  });
+
+  it('samples the latency and concurrency of successful calls', async () => {
+    const clock = new ManualClock();
+    const limit = new FixedLimit(10);
+    const bulkhead = new AdaptiveBulkhead({ limit, clock });
+    const running = deferred();
+    const first = bulkhead.execute(async () => {
+      await running.promise;
+      clock.advance(30);
+    });
+
+    await bulkhead.execute(async () => clock.advance(5));
+    running.resolve();
+    await first;
+
+    expect(limit.samples).toEqual([sample(5, 2), sample(35, 1)]);
+  });
+
+  it('samples timeouts as drops and ignores other failures', async () => {
+    const limit = new FixedLimit(10);
+    const bulkhead = new AdaptiveBulkhead({ limit, clock: new ManualClock() });
+
+    await expect(
+      bulkhead.execute(async () => {
+        throw new TimeoutError(100);
+      }),
+    ).rejects.toBeInstanceOf(TimeoutError);
+    await expect(
+      bulkhead.execute(async () => {
+        throw new Error('invalid');
+      }),
+    ).rejects.toThrow('invalid');
+
+    expect(limit.samples).toEqual([sample(0, 1, true)]);
+  });
+
+  it('replaces a bulkhead in a pipeline', async () => {
+    const events: ResilienceEvent[] = [];
+    const pipeline = new ResiliencePipelineBuilder('inventory')
+      .addBulkhead(new AdaptiveBulkhead({ limit: new FixedLimit(0) }))
+      .onEvent((event) => events.push(event))
+      .build();
+
+    await expect(pipeline.execute(async () => 'ok')).rejects.toBeInstanceOf(BulkheadRejectedError);
+    expect(events.map((e) => e.type)).toEqual(['bulkhead-rejected']);
+  });
+});
@@ -0,0 +1,360 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+/* eslint-disable @typescript-eslint/require-await */
+/* eslint-disable max-lines-per-function */
+import { describe, it, expect } from 'vitest';
+import type { RedisScriptingClientLike } from '@marcusprado02/cache-redis';
+import type { Clock } from '@marcusprado02/kernel';
+import { CircuitBreaker, CircuitBreakerState } from './circuitbreaker/CircuitBreaker';
+import type {
+  CircuitBreakerStateStore,
+  SharedCircuitBreakerState,
+} from './circuitbreaker/CircuitBreakerStateStore';
+import { InMemoryCircuitBreakerStateStore } from './circuitbreaker/CircuitBreakerStateStore';
+import { RedisCircuitBreakerStateStore } from './circuitbreaker/RedisCircuitBreakerStateStore';
+import { InMemoryRateLimiter } from './ratelimit/distributed/InMemoryRateLimiter';
+import { RedisRateLimiter } from './ratelimit/distributed/RedisRateLimiter';
+
+class ManualClock implements Clock {
+  constructor(private time = 0) {}
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  timestamp(): number {
+    return this.time;
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
+
+/** String keys plus a scripted `eval` replying from a queue. */
+class FakeRedis implements RedisScriptingClientLike {
+  readonly data = new Map<string, string>();
+  readonly evals: { script: string; numKeys: number; keysAndArgs: (string | number)[] }[] = [];
+  readonly replies: unknown[] = [];
+
+  eval(script: string, numKeys: number, ...keysAndArgs: (string | number)[]): Promise<unknown> {
+    this.evals.push({ script, numKeys, keysAndArgs });
+    return Promise.resolve(this.replies.shift());
+  }
+
+  get(key: string): Promise<string | null> {
+    return Promise.resolve(this.data.get(key) ?? null);
+  }
+
+  set(key: string, value: string): Promise<string | null> {
+    this.data.set(key, value);
+    return Promise.resolve('OK');
+  }
+
+  del(key: string): Promise<number> {
+    return Promise.resolve(this.data.delete(key) ? 1 : 0);
+  }
+
+  exists(key: string): Promise<number> {
+    return Promise.resolve(this.data.has(key) ? 1 : 0);
+  }
+
+  keys(): Promise<string[]> {
+    return Promise.resolve([...this.data.keys()]);
+  }
+
+  publish(): Promise<number> {
+    return Promise.resolve(0);
+  }
+
+  ping(): Promise<string> {
+    return Promise.resolve('PONG');
+  }
+
+  quit(): Promise<string> {
+    return Promise.resolve('OK');
+  }
+}
+
+async function consumeTimes(limiter: InMemoryRateLimiter, key: string, times: number) {
+  const decisions = [];
+  for (let i = 0; i < times; i++) decisions.push(await limiter.consume(key));
+  return decisions;
+}
+
+// ─── In-memory algorithms ────────────────────────────────────────────────────
+
+describe('InMemoryRateLimiter — token bucket', () => {
+  it('allows bursts of capacity, then refills continuously', async () => {
+    const clock = new ManualClock();
+    const limiter = new InMemoryRateLimiter(
+      { type: 'token-bucket', capacity: 3, refillPerSecond: 1 },
+      { clock },
+    );
+
+    const burst = await consumeTimes(limiter, 'user-1', 3);
+    expect(burst.map((d) => d.remaining)).toEqual([2, 1, 0]);
+    expect(await limiter.consume('user-1')).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: 1000,
+    });
+
+    clock.advance(500);
+    expect((await limiter.consume('user-1')).retryAfterMs).toBe(500);
+    clock.advance(500);
+    expect((await limiter.consume('user-1')).allowed).toBe(true);
+  });
+
+  it('keeps a separate bucket per key', async () => {
+    const limiter = new InMemoryRateLimiter({
+      type: 'token-bucket',
+      capacity: 1,
+      refillPerSecond: 0.001,
+    });
+
+    expect((await limiter.consume('a')).allowed).toBe(true);
+    expect((await limiter.consume('a')).allowed).toBe(false);
+    expect((await limiter.consume('b')).allowed).toBe(true);
+  });
+});
+
+describe('InMemoryRateLimiter — sliding log', () => {
+  it('allows at most limit requests in any window', async () => {
+    const clock = new ManualClock();
+    const limiter = new InMemoryRateLimiter(
+      { type: 'sliding-log', limit: 2, windowMs: 1000 },
+      { clock },
+    );
+
+    expect((await limiter.consume('k')).remaining).toBe(1);
+    clock.advance(400);
+    expect((await limiter.consume('k')).remaining).toBe(0);
+    clock.advance(200);
+    expect(await limiter.consume('k')).toEqual({ allowed: false, remaining: 0, retryAfterMs: 400 });
+
+    clock.advance(400);
+    expect(await limiter.consume('k')).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+  });
+
+  it('never allows a cost above the limit', async () => {
+    const limiter = new InMemoryRateLimiter({ type: 'sliding-log', limit: 2, windowMs: 1000 });
+    expect(await limiter.consume('k', 3)).toEqual({
+      allowed: false,
+      remaining: 2,
+      retryAfterMs: 1000,
+    });
+  });
+});
+
+describe('InMemoryRateLimiter — sliding window counter', () => {
+  it('weights the previous window by its overlap with the sliding window', async () => {
+    const clock = new ManualClock(100);
+    const limiter = new InMemoryRateLimiter(
+      { type: 'sliding-window', limit: 10, windowMs: 1000 },
+      { clock },
+    );
+
+    await consumeTimes(limiter, 'k', 10);
+    expect(await limiter.consume('k')).toEqual({ allowed: false, remaining: 0, retryAfterMs: 900 });
+
+    // Halfway through the next window, half of the previous 10 still count.
+    clock.advance(1400);
+    const decisions = await consumeTimes(limiter, 'k', 5);
+    expect(decisions.map((d) => d.remaining)).toEqual([4, 3, 2, 1, 0]);
+    expect(await limiter.consume('k')).toEqual({ allowed: false, remaining: 0, retryAfterMs: 100 });
+
+    clock.advance(100);
+    expect((await limiter.consume('k')).allowed).toBe(true);
+  });
+});
+
+describe('InMemoryRateLimiter — GCRA', () => {
+  it('spaces requests evenly after a burst', async () => {
+    const clock = new ManualClock();
+    const limiter = new InMemoryRateLimiter({ type: 'gcra', limit: 2, periodMs: 1000 }, { clock });
+
+    const burst = await consumeTimes(limiter, 'k', 2);
+    expect(burst.map((d) => d.remaining)).toEqual([1, 0]);
+    expect(await limiter.consume('k')).toEqual({ allowed: false, remaining: 0, retryAfterMs: 500 });
+
+    clock.advance(500);
+    expect((await limiter.consume('k')).allowed).toBe(true);
+    expect((await limiter.consume('k')).allowed).toBe(false);
+  });
+
+  it('limits bursts to burst requests', async () => {
+    const limiter = new InMemoryRateLimiter(
+      { type: 'gcra', limit: 10, periodMs: 1000, burst: 1 },
+      { clock: new ManualClock() },
+    );
+
+    expect((await limiter.consume('k')).allowed).toBe(true);
+    expect(await limiter.consume('k')).toEqual({ allowed: false, remaining: 0, retryAfterMs: 100 });
+  });
+
+  it('forgets a key on reset', async () => {
+    const limiter = new InMemoryRateLimiter({ type: 'gcra', limit: 1, periodMs: 60_000 });
+
+    await limiter.consume('k');
+    expect((await limiter.consume('k')).allowed).toBe(false);
+    await limiter.reset('k');
+    expect((await limiter.consume('k')).allowed).toBe(true);
+  });
+});
+
+// ─── Redis ───────────────────────────────────────────────────────────────────
+
+describe('RedisRateLimiter', () => {
+  it('runs one script per decision with the prefixed key and the algorithm settings', async () => {
+    const redis = new FakeRedis();
+    redis.replies.push([1, 19, 0]);
+    const limiter = new RedisRateLimiter(
+      redis,
+      { type: 'gcra', limit: 100, periodMs: 60_000 },
+      { keyPrefix: 'ratelimit:api' },
+    );
+
+    expect(await limiter.consume('user-1', 2)).toEqual({
+      allowed: true,
+      remaining: 19,
+      retryAfterMs: 0,
+    });
+    expect(redis.evals).toHaveLength(1);
+    expect(redis.evals[0]?.script).toContain("redis.call('TIME')");
+    expect(redis.evals[0]?.numKeys).toBe(1);
+    expect(redis.evals[0]?.keysAndArgs).toEqual(['ratelimit:api:user-1', 100, 60_000, 100, 2]);
+  });
+
+  it('tags sliding log entries with a unique id', async () => {
+    const redis = new FakeRedis();
+    redis.replies.push([0, 0, 250]);
+    const limiter = new RedisRateLimiter(
+      redis,
+      { type: 'sliding-log', limit: 5, windowMs: 1000 },
+      { generateId: () => 'req-1' },
+    );
+
+    expect(await limiter.consume('ip:10.0.0.1')).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: 250,
+    });
+    expect(redis.evals[0]?.keysAndArgs).toEqual(['ratelimit:ip:10.0.0.1', 5, 1000, 1, 'req-1']);
+    expect(redis.evals[0]?.script).toContain('ZREMRANGEBYSCORE');
+  });
+
+  it('uses a different script per algorithm', async () => {
+    const redis = new FakeRedis();
+    redis.replies.push([1, 0, 0], [1, 0, 0]);
+
+    await new RedisRateLimiter(redis, {
+      type: 'token-bucket',
+      capacity: 10,
+      refillPerSecond: 5,
+    }).consume('k');
+    await new RedisRateLimiter(redis, {
+      type: 'sliding-window',
+      limit: 10,
+      windowMs: 1000,
+    }).consume('k');
+
+    expect(redis.evals[0]?.script).toContain("'tokens'");
+    expect(redis.evals[1]?.script).toContain("'previous'");
+    expect(redis.evals[1]?.keysAndArgs).toEqual(['ratelimit:k', 10, 1000, 1]);
+  });
+
+  it('rejects an unexpected script reply', async () => {
+    const redis = new FakeRedis();
+    redis.replies.push('OK');
+    const limiter = new RedisRateLimiter(redis, { type: 'gcra', limit: 1, periodMs: 1000 });
+
+    await expect(limiter.consume('k')).rejects.toThrow('Unexpected rate limit script reply: "OK"');
+  });
+
+  it('deletes the key on reset', async () => {
+    const redis = new FakeRedis();
+    redis.data.set('ratelimit:k', '123');
+
+    await new RedisRateLimiter(redis, { type: 'gcra', limit: 1, periodMs: 1000 }).reset('k');
+
+    expect(redis.data.has('ratelimit:k')).toBe(false);
+  });
+});
+
+// ─── Shared circuit breaker state ────────────────────────────────────────────
+
+describe('CircuitBreaker — shared state', () => {
+  const boom = async () => {
+    throw new Error('boom');
+  };
+
+  function sharedBreaker(store: CircuitBreakerStateStore, clock: ManualClock) {
+    return new CircuitBreaker({
+      slidingWindow: { type: 'count', size: 1 },
+      resetTimeoutMs: 1000,
+      permittedCallsInHalfOpen: 1,
+      shared: { store, name: 'payments' },
+      clock,
+    });
+  }
+
+  it('opens and closes breakers of the same name on every instance', async () => {
+    const clock = new ManualClock(1);
+    const store = new InMemoryCircuitBreakerStateStore();
+    const a = sharedBreaker(store, clock);
+    const b = sharedBreaker(store, clock);
+
+    await expect(a.execute(boom)).rejects.toThrow('boom');
+    await expect(b.execute(async () => 'ok')).rejects.toThrow('Circuit breaker is open');
+    expect(b.getState()).toBe(CircuitBreakerState.OPEN);
+
+    clock.advance(1000);
+    await expect(b.execute(async () => 'ok')).resolves.toBe('ok');
+    await expect(a.execute(async () => 'ok')).resolves.toBe('ok');
+    expect(a.getState()).toBe(CircuitBreakerState.CLOSED);
+    expect(await store.get('payments')).toEqual({
+      state: CircuitBreakerState.CLOSED,
+      changedAt: 1001,
+    });
+  });
+
+  it('keeps working on its local state when the store fails', async () => {
+    const failing: CircuitBreakerStateStore = {
+      get: () => Promise.reject(new Error('store down')),
+      set: () => Promise.reject(new Error('store down')),
+    };
+    const breaker = sharedBreaker(failing, new ManualClock());
+
+    await expect(breaker.execute(boom)).rejects.toThrow('boom');
+    expect(breaker.getState()).toBe(CircuitBreakerState.OPEN);
+  });
+
+  it('stops waiting for a slow store after timeoutMs', async () => {
+    const hanging: CircuitBreakerStateStore = {
+      get: () => new Promise(() => undefined),
+      set: async () => undefined,
+    };
+    const breaker = new CircuitBreaker({
+      shared: { store: hanging, name: 'payments', timeoutMs: 5 },
+    });
+
+    await expect(breaker.execute(async () => 'ok')).resolves.toBe('ok');
+  });
+});
+
+describe('RedisCircuitBreakerStateStore', () => {
+  it('stores states as JSON under the prefixed name', async () => {
+    const redis = new FakeRedis();
+    const store = new RedisCircuitBreakerStateStore(redis, { keyPrefix: 'cb' });
+    const state: SharedCircuitBreakerState = {
+      state: CircuitBreakerState.OPEN,
+      changedAt: 42,
+    };
+
+    expect(await store.get('payments')).toBeUndefined();
+    await store.set('payments', state);
+
+    expect(JSON.parse(redis.data.get('cb:payments') ?? '')).toEqual(state);
+    expect(await store.get('payments')).toEqual(state);
+  });
+});
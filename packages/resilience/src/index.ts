@@ -2,17 +2,54 @@
 export { Timeout, TimeoutError } from './timeouts/Timeout';
 
 // Retries
-export { Retry } from './retries/Retry';
-export type { RetryPolicy } from './retries/Retry';
+export { Retry, isRetryable, retryAfterMs } from './retries/Retry';
+export type { RetryAttempt, RetryJitter, RetryOptions, RetryPolicy } from './retries/Retry';
+export { RetryBudget } from './retries/RetryBudget';
+export type { RetryBudgetOptions } from './retries/RetryBudget';
 
 // Circuit Breaker
-export { CircuitBreaker, CircuitBreakerState, CircuitBreakerOpenError } from './circuitbreaker/CircuitBreaker';
+export {
+  CircuitBreaker,
+  CircuitBreakerState,
+  CircuitBreakerOpenError,
+} from './circuitbreaker/CircuitBreaker';
+export type {
+  CircuitBreakerOptions,
+  CircuitBreakerMetrics,
+  CircuitBreakerStateChange,
+  CircuitBreakerStateListener,
+} from './circuitbreaker/CircuitBreaker';
+export type { SlidingWindowOptions } from './circuitbreaker/SlidingWindow';
+export { InMemoryCircuitBreakerStateStore } from './circuitbreaker/CircuitBreakerStateStore';
+export type {
+  CircuitBreakerStateStore,
+  SharedCircuitBreakerState,
+} from './circuitbreaker/CircuitBreakerStateStore';
+export { RedisCircuitBreakerStateStore } from './circuitbreaker/RedisCircuitBreakerStateStore';
+export type { RedisCircuitBreakerStateStoreOptions } from './circuitbreaker/RedisCircuitBreakerStateStore';
 
 // Rate Limiting
-export { RateLimiter } from './ratelimit/RateLimiter';
+export { RateLimiter, RateLimitExceededError } from './ratelimit/RateLimiter';
+export type {
+  DistributedRateLimiter,
+  RateLimitAlgorithm,
+  RateLimitDecision,
+} from './ratelimit/distributed/RateLimitAlgorithm';
+export { InMemoryRateLimiter } from './ratelimit/distributed/InMemoryRateLimiter';
+export { RedisRateLimiter } from './ratelimit/distributed/RedisRateLimiter';
+export type { RedisRateLimiterOptions } from './ratelimit/distributed/RedisRateLimiter';
 
 // Bulkhead
 export { Bulkhead, BulkheadRejectedError } from './bulkhead/Bulkhead';
+export { AdaptiveBulkhead } from './bulkhead/AdaptiveBulkhead';
+export type { AdaptiveBulkheadOptions } from './bulkhead/AdaptiveBulkhead';
+export type { ConcurrencyLimit, ConcurrencySample } from './bulkhead/limits/ConcurrencyLimit';
+export { AimdLimit } from './bulkhead/limits/AimdLimit';
+export type { AimdLimitOptions } from './bulkhead/limits/AimdLimit';
+export { VegasLimit } from './bulkhead/limits/VegasLimit';
+export type { VegasLimitOptions } from './bulkhead/limits/VegasLimit';
+export { Gradient2Limit } from './bulkhead/limits/Gradient2Limit';
+export type { Gradient2LimitOptions } from './bulkhead/limits/Gradient2Limit';
 
 // Fallback
 export { Fallback } from './fallback/Fallback';
@@ -24,3 +61,37 @@ export type { HedgeOptions } from './hedge/Hedge';
 // Health
 export { HealthCheck } from './health/HealthCheck';
 export type { HealthStatus, HealthIndicator, HealthReport } from './health/HealthCheck';
+
+// Pipeline
+export { ResiliencePipeline } from './pipeline/ResiliencePipeline';
+export type { ResilienceExecuteOptions } from './pipeline/ResiliencePipeline';
+export { ResiliencePipelineBuilder } from './pipeline/ResiliencePipelineBuilder';
+export type { ResiliencePipelineOptions } from './pipeline/ResiliencePipelineBuilder';
+export {
+  ResiliencePipelineRegistry,
+  ResiliencePipelineNotFoundError,
+} from './pipeline/ResiliencePipelineRegistry';
+export type { ResiliencePipelineRegistryOptions } from './pipeline/ResiliencePipelineRegistry';
+export { ResilienceConfigSchema } from './pipeline/ResilienceConfigSchema';
+export {
+  BulkheadStrategy,
+  CircuitBreakerStrategy,
+  FallbackStrategy,
+  HedgeStrategy,
+  RateLimiterStrategy,
+  RetryStrategy,
+  TimeoutStrategy,
+} from './pipeline/strategies';
+export type {
+  FallbackStrategyOptions,
+  HedgeStrategyOptions,
+  Next,
+  ResilienceStrategy,
+  RetryStrategyOptions,
+  StrategyContext,
+} from './pipeline/strategies';
+export type {
+  ResilienceEvent,
+  ResilienceEventListener,
+  ResilienceEventType,
+} from './pipeline/ResilienceEvent';
@@ -0,0 +1,410 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+/* eslint-disable @typescript-eslint/require-await */
+/* eslint-disable max-lines-per-function */
+import { describe, it, expect, vi } from 'vitest';
+import type { MetricsPort } from '@marcusprado02/kernel';
+import { Bulkhead, BulkheadRejectedError } from './bulkhead/Bulkhead';
+import { CircuitBreaker, CircuitBreakerOpenError } from './circuitbreaker/CircuitBreaker';
+import { RateLimitExceededError } from './ratelimit/RateLimiter';
+import { TimeoutError } from './timeouts/Timeout';
+import type { ResilienceEvent } from './pipeline/ResilienceEvent';
+import { ResiliencePipelineBuilder } from './pipeline/ResiliencePipelineBuilder';
+import {
+  ResiliencePipelineNotFoundError,
+  ResiliencePipelineRegistry,
+} from './pipeline/ResiliencePipelineRegistry';
+import { ResilienceConfigSchema } from './pipeline/ResilienceConfigSchema';
+
+function recordingMetrics() {
+  const counters: { name: string; labels: Record<string, string> | undefined }[] = [];
+  const histograms: { name: string; labels: Record<string, string> | undefined }[] = [];
+  const metrics: MetricsPort = {
+    incrementCounter: (name, _value, labels) => counters.push({ name, labels }),
+    recordHistogram: (name, _value, labels) => histograms.push({ name, labels }),
+    setGauge: () => undefined,
+  };
+  return { metrics, counters, histograms };
+}
+
+function failing(times: number, value = 'ok') {
+  let calls = 0;
+  const operation = vi.fn(async () => {
+    calls++;
+    if (calls <= times) throw new Error(`failure ${calls}`);
+    return value;
+  });
+  return operation;
+}
+
+/** Never settles on its own; rejects with the abort reason like a well-behaved operation. */
+function hanging(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener('abort', () => reject(signal.reason as Error), { once: true });
+  });
+}
+
+// ─── Builder & ordering ──────────────────────────────────────────────────────
+
+describe('ResiliencePipelineBuilder', () => {
+  it('runs the operation when no strategy is added', async () => {
+    const pipeline = new ResiliencePipelineBuilder().build();
+    await expect(pipeline.execute(async () => 42)).resolves.toBe(42);
+  });
+
+  it('wraps strategies in the canonical order whatever the order they were added in', async () => {
+    const events: ResilienceEvent[] = [];
+    // Timeout inside retry: every attempt gets its own timeout and is retried.
+    const pipeline = new ResiliencePipelineBuilder('ordered')
+      .addTimeout(20)
+      .addRetry({ maxAttempts: 3, delayMs: 1 })
+      .onEvent((event) => events.push(event))
+      .build();
+
+    let attempts = 0;
+    const result = await pipeline.execute((signal) => {
+      attempts++;
+      return attempts < 3 ? hanging(signal) : Promise.resolve('done');
+    });
+
+    expect(result).toBe('done');
+    expect(events.map((e) => e.type)).toEqual(['timeout', 'retry', 'timeout', 'retry']);
+    expect(events.every((e) => e.pipeline === 'ordered')).toBe(true);
+  });
+
+  it('replaces a strategy added twice', async () => {
+    const operation = failing(5);
+    const pipeline = new ResiliencePipelineBuilder()
+      .addRetry({ maxAttempts: 5, delayMs: 1 })
+      .addRetry({ maxAttempts: 2, delayMs: 1 })
+      .build();
+
+    await expect(pipeline.execute(operation)).rejects.toThrow('failure 2');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('configures strategies from plain options', async () => {
+    const events: ResilienceEvent[] = [];
+    const pipeline = new ResiliencePipelineBuilder()
+      .configure({ retry: { maxAttempts: 2, delayMs: 1 }, timeoutMs: 1_000 })
+      .onEvent((event) => events.push(event))
+      .build();
+
+    await expect(pipeline.execute(failing(1))).resolves.toBe('ok');
+    expect(events.map((e) => e.type)).toEqual(['retry']);
+  });
+});
+
+// ─── Timeout & cancellation ──────────────────────────────────────────────────
+
+describe('ResiliencePipeline — cancellation', () => {
+  it('aborts the signal of a timed-out operation and rejects with TimeoutError', async () => {
+    const pipeline = new ResiliencePipelineBuilder().addTimeout(10).build();
+    let received: AbortSignal | undefined;
+
+    const execution = pipeline.execute((signal) => {
+      received = signal;
+      return new Promise<string>(() => undefined);
+    });
+
+    await expect(execution).rejects.toBeInstanceOf(TimeoutError);
+    expect(received?.aborted).toBe(true);
+    expect(received?.reason).toBeInstanceOf(TimeoutError);
+  });
+
+  it('rejects right away with an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('cancelled'));
+    const operation = vi.fn(async () => 'never');
+
+    await expect(
+      new ResiliencePipelineBuilder().build().execute(operation, { signal: controller.signal }),
+    ).rejects.toThrow('cancelled');
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('stops retrying once the caller aborts', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn(async () => {
+      throw new Error('boom');
+    });
+    const pipeline = new ResiliencePipelineBuilder()
+      .addRetry({ maxAttempts: 10, delayMs: 1_000 })
+      .build();
+
+    const execution = pipeline.execute(operation, { signal: controller.signal });
+    setTimeout(() => controller.abort(new Error('cancelled')), 10);
+
+    await expect(execution).rejects.toThrow('cancelled');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects when the caller aborts even if the operation ignores the signal', async () => {
+    const controller = new AbortController();
+    const execution = new ResiliencePipelineBuilder()
+      .build()
+      .execute(() => new Promise<never>(() => undefined), { signal: controller.signal });
+    controller.abort(new Error('cancelled'));
+
+    await expect(execution).rejects.toThrow('cancelled');
+  });
+});
+
+// ─── Strategies & events ─────────────────────────────────────────────────────
+
+describe('ResiliencePipeline — strategies', () => {
+  it('emits retry events with attempt, delay and error', async () => {
+    const events: ResilienceEvent[] = [];
+    const pipeline = new ResiliencePipelineBuilder('orders')
+      .addRetry({ maxAttempts: 3, delayMs: 2, backoffMultiplier: 2 })
+      .onEvent((event) => events.push(event))
+      .build();
+
+    await expect(pipeline.execute(failing(2))).resolves.toBe('ok');
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'retry', pipeline: 'orders', attempt: 1, delayMs: 2 }),
+      expect.objectContaining({ type: 'retry', pipeline: 'orders', attempt: 2, delayMs: 4 }),
+    ]);
+  });
+
+  it('only retries failures accepted by shouldRetry', async () => {
+    const operation = failing(3);
+    const pipeline = new ResiliencePipelineBuilder()
+      .addRetry({ maxAttempts: 5, delayMs: 1, shouldRetry: () => false })
+      .build();
+
+    await expect(pipeline.execute(operation)).rejects.toThrow('failure 1');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('emits breaker transitions and rejections', async () => {
+    const events: string[] = [];
+    const breaker = new CircuitBreaker(2, 10_000);
+    const pipeline = new ResiliencePipelineBuilder()
+      .addCircuitBreaker(breaker)
+      .onEvent((event) => events.push(event.type))
+      .build();
+    const boom = async () => {
+      throw new Error('boom');
+    };
+
+    await expect(pipeline.execute(boom)).rejects.toThrow('boom');
+    await expect(pipeline.execute(boom)).rejects.toThrow('boom');
+    await expect(pipeline.execute(boom)).rejects.toBeInstanceOf(CircuitBreakerOpenError);
+
+    expect(events).toEqual(['circuit-opened', 'circuit-rejected']);
+  });
+
+  it('emits bulkhead-rejected when the bulkhead is full', async () => {
+    const events: string[] = [];
+    const pipeline = new ResiliencePipelineBuilder()
+      .addBulkhead(new Bulkhead(1, 0))
+      .onEvent((event) => events.push(event.type))
+      .build();
+    let release!: () => void;
+    const first = pipeline.execute(() => new Promise<void>((resolve) => (release = resolve)));
+
+    await expect(pipeline.execute(async () => 'second')).rejects.toBeInstanceOf(
+      BulkheadRejectedError,
+    );
+    release();
+    await first;
+    expect(events).toEqual(['bulkhead-rejected']);
+  });
+
+  it('does not run a call that timed out while queued in the bulkhead', async () => {
+    const bulkhead = new Bulkhead(1, 5);
+    const holder = new ResiliencePipelineBuilder().addBulkhead(bulkhead).build();
+    const pipeline = new ResiliencePipelineBuilder().addTimeout(10).addBulkhead(bulkhead).build();
+    let release!: () => void;
+    const first = holder.execute(() => new Promise<void>((resolve) => (release = resolve)));
+    const queued = vi.fn(async () => 'second');
+
+    await expect(pipeline.execute(queued)).rejects.toBeInstanceOf(TimeoutError);
+    expect(bulkhead.getQueueSize()).toBe(0);
+    release();
+    await first;
+    expect(queued).not.toHaveBeenCalled();
+  });
+
+  it('rejects with RateLimitExceededError once tokens run out', async () => {
+    const events: string[] = [];
+    const pipeline = new ResiliencePipelineBuilder()
+      .addRateLimiter({ maxTokens: 1, refillRatePerSecond: 0.001 })
+      .onEvent((event) => events.push(event.type))
+      .build();
+
+    await expect(pipeline.execute(async () => 1)).resolves.toBe(1);
+    await expect(pipeline.execute(async () => 2)).rejects.toBeInstanceOf(RateLimitExceededError);
+    expect(events).toEqual(['rate-limited']);
+  });
+
+  it('aborts the losing hedged copies', async () => {
+    const events: ResilienceEvent[] = [];
+    const signals: AbortSignal[] = [];
+    const pipeline = new ResiliencePipelineBuilder()
+      .addHedge({ copies: 2, delayMs: 5 })
+      .onEvent((event) => events.push(event))
+      .build();
+
+    const result = await pipeline.execute((signal) => {
+      signals.push(signal);
+      return signals.length === 1 ? hanging(signal) : Promise.resolve('hedged');
+    });
+
+    expect(result).toBe('hedged');
+    expect(signals).toHaveLength(2);
+    expect(signals[0]?.aborted).toBe(true);
+    expect(events).toEqual([{ type: 'hedge', pipeline: 'default', copy: 2 }]);
+  });
+
+  it('starts the next hedged copy right away when one fails', async () => {
+    const pipeline = new ResiliencePipelineBuilder()
+      .addHedge({ copies: 2, delayMs: 10_000 })
+      .build();
+    const operation = failing(1, 'second copy');
+
+    await expect(pipeline.execute(operation)).resolves.toBe('second copy');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('resolves with the fallback after the other strategies gave up', async () => {
+    const events: string[] = [];
+    const pipeline = new ResiliencePipelineBuilder()
+      .addRetry({ maxAttempts: 2, delayMs: 1 })
+      .addFallback({ fallback: (error) => ({ cached: true, reason: (error as Error).message }) })
+      .onEvent((event) => events.push(event.type))
+      .build();
+
+    const result: string | { cached: boolean; reason: string } = await pipeline.execute(
+      failing(5, 'fresh'),
+    );
+
+    expect(result).toEqual({ cached: true, reason: 'failure 2' });
+    expect(events).toEqual(['retry', 'fallback']);
+  });
+
+  it('does not fall back on failures rejected by shouldHandle', async () => {
+    const pipeline = new ResiliencePipelineBuilder()
+      .addFallback({ fallback: () => 'fallback', shouldHandle: () => false })
+      .build();
+
+    await expect(pipeline.execute(failing(1))).rejects.toThrow('failure 1');
+  });
+});
+
+// ─── Listeners & metrics ─────────────────────────────────────────────────────
+
+describe('ResiliencePipeline — observability', () => {
+  it('removes a listener with the function onEvent returns', async () => {
+    const listener = vi.fn();
+    const pipeline = new ResiliencePipelineBuilder()
+      .addRetry({ maxAttempts: 2, delayMs: 1 })
+      .build();
+    const unsubscribe = pipeline.onEvent(listener);
+
+    await pipeline.execute(failing(1));
+    unsubscribe();
+    await pipeline.execute(failing(1));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports executions, durations and events through MetricsPort', async () => {
+    const { metrics, counters, histograms } = recordingMetrics();
+    const pipeline = new ResiliencePipelineBuilder('payments')
+      .addRetry({ maxAttempts: 2, delayMs: 1 })
+      .withMetrics(metrics)
+      .build();
+
+    await pipeline.execute(failing(1));
+    await expect(pipeline.execute(failing(2))).rejects.toThrow();
+
+    expect(counters).toEqual([
+      { name: 'resilience.events', labels: { pipeline: 'payments', event: 'retry' } },
+      { name: 'resilience.executions', labels: { pipeline: 'payments', outcome: 'success' } },
+      { name: 'resilience.events', labels: { pipeline: 'payments', event: 'retry' } },
+      { name: 'resilience.executions', labels: { pipeline: 'payments', outcome: 'failure' } },
+    ]);
+    expect(histograms).toEqual([
+      { name: 'resilience.duration_ms', labels: { pipeline: 'payments', outcome: 'success' } },
+      { name: 'resilience.duration_ms', labels: { pipeline: 'payments', outcome: 'failure' } },
+    ]);
+  });
+});
+
+// ─── Registry & configuration ────────────────────────────────────────────────
+
+describe('ResiliencePipelineRegistry', () => {
+  it('registers pipelines under their names', () => {
+    const pipeline = new ResiliencePipelineBuilder('search').build();
+    const registry = new ResiliencePipelineRegistry().register(pipeline);
+
+    expect(registry.get('search')).toBe(pipeline);
+    expect(registry.has('search')).toBe(true);
+    expect(registry.names()).toEqual(['search']);
+  });
+
+  it('throws ResiliencePipelineNotFoundError for an unknown name', () => {
+    expect(() => new ResiliencePipelineRegistry().get('missing')).toThrow(
+      ResiliencePipelineNotFoundError,
+    );
+  });
+
+  it('builds configured pipelines with the shared metrics and listeners', async () => {
+    const { metrics, counters } = recordingMetrics();
+    const listener = vi.fn();
+    const registry = new ResiliencePipelineRegistry({ metrics, listeners: [listener] }).configure({
+      payments: { retry: { maxAttempts: 2, delayMs: 1 } },
+    });
+
+    await expect(registry.get('payments').execute(failing(1))).resolves.toBe('ok');
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'retry' }));
+    expect(counters).toContainEqual({
+      name: 'resilience.executions',
+      labels: { pipeline: 'payments', outcome: 'success' },
+    });
+  });
+});
+
+describe('ResilienceConfigSchema', () => {
+  it('reads named pipelines from flat keys', () => {
+    const result = new ResilienceConfigSchema().validate({
+      RESILIENCE__PAYMENTS_API__TIMEOUT_MS: '2000',
+      RESILIENCE__PAYMENTS_API__RETRY__MAX_ATTEMPTS: '3',
+      RESILIENCE__PAYMENTS_API__RETRY__DELAY_MS: '200',
+      RESILIENCE__PAYMENTS_API__CIRCUIT_BREAKER__FAILURE_THRESHOLD: '5',
+      RESILIENCE__PAYMENTS_API__CIRCUIT_BREAKER__RESET_TIMEOUT_MS: '30000',
+      RESILIENCE__SEARCH__BULKHEAD__MAX_CONCURRENT: '10',
+      RESILIENCE__SEARCH__BULKHEAD__MAX_QUEUE: '0',
+      RESILIENCE__SEARCH__HEDGE__DELAY_MS: '50',
+      DATABASE_URL: 'postgres://localhost',
+    });
+
+    expect(result.isOk()).toBe(true);
+    expect(result.unwrap()).toEqual({
+      'payments-api': {
+        timeoutMs: 2000,
+        retry: { maxAttempts: 3, delayMs: 200 },
+        circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 30000 },
+      },
+      search: { bulkhead: { maxConcurrent: 10, maxQueue: 0 }, hedge: { delayMs: 50 } },
+    });
+  });
+
+  it('reports unknown settings, invalid numbers and missing required settings', () => {
+    const result = new ResilienceConfigSchema('RES').validate({
+      RES__ORDERS__RETRY__MAX_ATTEMPTS: 'three',
+      RES__ORDERS__RETRY__JITTER: '1',
+      RES__ORDERS__RATE_LIMITER__MAX_TOKENS: '-1',
+      RES__ORDERS__BULKHEAD__MAX_CONCURRENT: '4',
+    });
+
+    expect(result.isErr()).toBe(true);
+    expect(result.unwrapErr()).toEqual([
+      'RES__ORDERS__RETRY__MAX_ATTEMPTS: expected a non-negative number',
+      'RES__ORDERS__RETRY__JITTER: unknown setting',
+      'RES__ORDERS__RATE_LIMITER__MAX_TOKENS: expected a non-negative number',
+      'RES__ORDERS__BULKHEAD__MAX_QUEUE: required',
+    ]);
+  });
+});
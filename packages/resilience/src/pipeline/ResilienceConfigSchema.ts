@@ -0,0 +1,129 @@
+import type { ConfigSchema } from '@marcusprado02/config';
+import { Result } from '@marcusprado02/kernel';
+import type { ResiliencePipelineOptions } from './ResiliencePipelineBuilder';
+
+type PipelinesConfig = Record<string, ResiliencePipelineOptions>;
+
+interface SectionSpec {
+  readonly fields: readonly string[];
+  readonly required: readonly string[];
+}
+
+/** The settings of each strategy, as they appear in {@link ResiliencePipelineOptions}. */
+const SECTIONS: Readonly<Record<string, SectionSpec>> = {
+  retry: {
+    fields: ['maxAttempts', 'delayMs', 'backoffMultiplier', 'maxDelayMs'],
+    required: ['maxAttempts', 'delayMs'],
+  },
+  circuitBreaker: {
+    fields: ['failureThreshold', 'resetTimeoutMs'],
+    required: ['failureThreshold', 'resetTimeoutMs'],
+  },
+  rateLimiter: {
+    fields: ['maxTokens', 'refillRatePerSecond'],
+    required: ['maxTokens', 'refillRatePerSecond'],
+  },
+  bulkhead: {
+    fields: ['maxConcurrent', 'maxQueue'],
+    required: ['maxConcurrent', 'maxQueue'],
+  },
+  hedge: { fields: ['copies', 'delayMs'], required: [] },
+};
+
+interface RawPipeline {
+  timeoutMs?: number;
+  readonly sections: Record<string, Record<string, number>>;
+}
+
+/**
+ * Reads named pipelines from flat configuration keys of the form
+ * `<PREFIX>__<PIPELINE>__<STRATEGY>__<SETTING>`, plus
+ * `<PREFIX>__<PIPELINE>__TIMEOUT_MS`:
+ *
+ * ```
+ * RESILIENCE__PAYMENTS__TIMEOUT_MS=2000
+ * RESILIENCE__PAYMENTS__RETRY__MAX_ATTEMPTS=3
+ * RESILIENCE__PAYMENTS__RETRY__DELAY_MS=200
+ * RESILIENCE__PAYMENTS__CIRCUIT_BREAKER__FAILURE_THRESHOLD=5
+ * RESILIENCE__PAYMENTS__CIRCUIT_BREAKER__RESET_TIMEOUT_MS=30000
+ * ```
+ *
+ * Pipeline names are lower-cased with `_` turned into `-` (`PAYMENTS_API`
+ * is `payments-api`); strategies and settings are those of
+ * {@link ResiliencePipelineOptions} in upper snake case. Unknown settings,
+ * values that are not non-negative numbers and missing required settings are
+ * reported as errors. Keys without the prefix are ignored.
+ */
+export class ResilienceConfigSchema implements ConfigSchema<PipelinesConfig> {
+  constructor(private readonly prefix = 'RESILIENCE') {}
+
+  validate(raw: Record<string, string | undefined>): Result<PipelinesConfig, string[]> {
+    const errors: string[] = [];
+    const pipelines = new Map<string, RawPipeline>();
+    for (const [key, value] of Object.entries(raw)) {
+      if (value === undefined || !key.startsWith(`${this.prefix}__`)) continue;
+      const error = this.collect(key, value, pipelines);
+      if (error !== undefined) errors.push(`${key}: ${error}`);
+    }
+    for (const [name, pipeline] of pipelines) errors.push(...this.missing(name, pipeline));
+    if (errors.length > 0) return Result.err(errors);
+
+    const config: PipelinesConfig = {};
+    for (const [name, { timeoutMs, sections }] of pipelines) {
+      config[name] = { ...(timeoutMs !== undefined && { timeoutMs }), ...sections };
+    }
+    return Result.ok(config);
+  }
+
+  /** Stores one setting; returns why it is invalid, if it is. */
+  private collect(
+    key: string,
+    value: string,
+    pipelines: Map<string, RawPipeline>,
+  ): string | undefined {
+    const setting = parseKey(key.slice(this.prefix.length + 2));
+    if (setting === undefined) return 'unknown setting';
+    const number = Number(value);
+    if (value.trim() === '' || !Number.isFinite(number) || number < 0) {
+      return 'expected a non-negative number';
+    }
+
+    const { name, section, field } = setting;
+    const pipeline = pipelines.get(name) ?? { sections: {} };
+    pipelines.set(name, pipeline);
+    if (field === undefined) pipeline.timeoutMs = number;
+    else pipeline.sections[section] = { ...pipeline.sections[section], [field]: number };
+    return undefined;
+  }
+
+  private missing(name: string, pipeline: RawPipeline): string[] {
+    const pipelineKey = name.toUpperCase().replace(/-/g, '_');
+    return Object.entries(pipeline.sections).flatMap(([section, values]) =>
+      (SECTIONS[section]?.required ?? [])
+        .filter((field) => values[field] === undefined)
+        .map(
+          (field) =>
+            `${this.prefix}__${pipelineKey}__${snakeCase(section)}__${snakeCase(field)}: required`,
+        ),
+    );
+  }
+}
+
+/** `PIPELINE__STRATEGY__SETTING` or `PIPELINE__TIMEOUT_MS`, if the setting exists. */
+function parseKey(key: string): { name: string; section: string; field?: string } | undefined {
+  const [pipelineKey = '', sectionKey = '', fieldKey, ...rest] = key.split('__');
+  if (pipelineKey === '' || rest.length > 0) return undefined;
+  const name = pipelineKey.toLowerCase().replace(/_/g, '-');
+  const section = camelCase(sectionKey);
+  if (fieldKey === undefined) return section === 'timeoutMs' ? { name, section } : undefined;
+  const field = camelCase(fieldKey);
+  return SECTIONS[section]?.fields.includes(field) === true ? { name, section, field } : undefined;
+}
+
+function camelCase(key: string): string {
+  return key.toLowerCase().replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+function snakeCase(name: string): string {
+  return name.replace(/[A-Z]/g, (char) => `_${char}`).toUpperCase();
+}
@@ -0,0 +1,34 @@
+/**
+ * Something a {@link ResiliencePipeline} strategy did or decided during an
+ * execution, e.g. to log it or alert on it.
+ */
+export type ResilienceEvent =
+  | {
+      readonly type: 'retry';
+      readonly pipeline: string;
+      /** The attempt that failed; the next one starts after `delayMs`. */
+      readonly attempt: number;
+      readonly delayMs: number;
+      readonly error: unknown;
+    }
+  | { readonly type: 'timeout'; readonly pipeline: string; readonly timeoutMs: number }
+  | {
+      readonly type: 'circuit-opened' | 'circuit-half-opened' | 'circuit-closed';
+      readonly pipeline: string;
+    }
+  | {
+      /** Rejected before reaching the operation: open breaker, no token, full bulkhead. */
+      readonly type: 'circuit-rejected' | 'rate-limited' | 'bulkhead-rejected';
+      readonly pipeline: string;
+    }
+  | {
+      readonly type: 'hedge';
+      readonly pipeline: string;
+      /** 2 for the first extra copy, 3 for the next, ... */
+      readonly copy: number;
+    }
+  | { readonly type: 'fallback'; readonly pipeline: string; readonly error: unknown };
+
+export type ResilienceEventType = ResilienceEvent['type'];
+
+export type ResilienceEventListener = (event: ResilienceEvent) => void;
@@ -0,0 +1,95 @@
+import type { MetricsPort } from '@marcusprado02/kernel';
+import { abortReason } from '../shared/abort';
+import type { ResilienceEvent, ResilienceEventListener } from './ResilienceEvent';
+import type { Next, ResilienceStrategy, StrategyContext } from './strategies';
+
+export interface ResilienceExecuteOptions {
+  /** Cancels the execution: delays end, timeouts and hedged copies abort. */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Resilience strategies composed around an operation; built with
+ * {@link ResiliencePipelineBuilder}. The operation receives an
+ * `AbortSignal` that aborts when a timeout expires, a hedged copy loses or
+ * the caller cancels, so it can stop its work.
+ *
+ * Metrics, when a `MetricsPort` is given, all carry a `pipeline` label:
+ * - `resilience.executions` — counter, labelled `outcome` (`success` / `failure`)
+ * - `resilience.duration_ms` — histogram, labelled `outcome`
+ * - `resilience.events` — counter, labelled `event` (the {@link ResilienceEvent} type)
+ *
+ * @typeParam TFallback  What a fallback strategy may resolve with instead of the operation.
+ */
+export class ResiliencePipeline<TFallback = never> {
+  private readonly listeners: ResilienceEventListener[];
+
+  constructor(
+    readonly name: string,
+    private readonly strategies: readonly ResilienceStrategy[],
+    listeners: readonly ResilienceEventListener[] = [],
+    private readonly metrics?: MetricsPort,
+  ) {
+    this.listeners = [...listeners];
+  }
+
+  /**
+   * Runs `operation` through the strategies. Rejects with the abort reason
+   * as soon as `options.signal` aborts, even if the operation ignores it.
+   */
+  async execute<T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    options: ResilienceExecuteOptions = {},
+  ): Promise<T | TFallback> {
+    const signal = options.signal ?? new AbortController().signal;
+    if (signal.aborted) throw abortReason(signal);
+
+    const context: StrategyContext = {
+      pipeline: this.name,
+      emit: (event): void => this.emit(event),
+    };
+    const run = this.strategies.reduceRight<Next>(
+      (next, strategy) =>
+        (innerSignal): Promise<unknown> =>
+          strategy.execute(next, innerSignal, context),
+      operation,
+    );
+
+    const start = Date.now();
+    let outcome = 'failure';
+    try {
+      const result = (await untilAborted(run(signal), signal)) as T | TFallback;
+      outcome = 'success';
+      return result;
+    } finally {
+      const labels = { pipeline: this.name, outcome };
+      this.metrics?.incrementCounter('resilience.executions', 1, labels);
+      this.metrics?.recordHistogram('resilience.duration_ms', Date.now() - start, labels);
+    }
+  }
+
+  /** Listens to the events of every execution. Returns a function removing the listener. */
+  onEvent(listener: ResilienceEventListener): () => void {
+    this.listeners.push(listener);
+    return (): void => {
+      const index = this.listeners.indexOf(listener);
+      if (index >= 0) this.listeners.splice(index, 1);
+    };
+  }
+
+  private emit(event: ResilienceEvent): void {
+    this.metrics?.incrementCounter('resilience.events', 1, {
+      pipeline: this.name,
+      event: event.type,
+    });
+    for (const listener of this.listeners) listener(event);
+  }
+}
+
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -0,0 +1,175 @@
+import type { MetricsPort } from '@marcusprado02/kernel';
+import { AdaptiveBulkhead } from '../bulkhead/AdaptiveBulkhead';
+import { Bulkhead } from '../bulkhead/Bulkhead';
+import { CircuitBreaker } from '../circuitbreaker/CircuitBreaker';
+import type { HedgeOptions } from '../hedge/Hedge';
+import { RateLimiter } from '../ratelimit/RateLimiter';
+import type { RetryPolicy } from '../retries/Retry';
+import type { ResilienceEventListener } from './ResilienceEvent';
+import { ResiliencePipeline } from './ResiliencePipeline';
+import type {
+  FallbackStrategyOptions,
+  ResilienceStrategy,
+  RetryStrategyOptions,
+} from './strategies';
+import {
+  BulkheadStrategy,
+  CircuitBreakerStrategy,
+  FallbackStrategy,
+  HedgeStrategy,
+  RateLimiterStrategy,
+  RetryStrategy,
+  TimeoutStrategy,
+} from './strategies';
+
+/**
+ * The strategies of a pipeline as plain data, e.g. read from configuration.
+ * Fallbacks need code and are added with the builder.
+ */
+export interface ResiliencePipelineOptions {
+  readonly timeoutMs?: number;
+  readonly retry?: RetryPolicy;
+  readonly circuitBreaker?: { readonly failureThreshold: number; readonly resetTimeoutMs: number };
+  readonly rateLimiter?: { readonly maxTokens: number; readonly refillRatePerSecond: number };
+  readonly bulkhead?: { readonly maxConcurrent: number; readonly maxQueue: number };
+  readonly hedge?: HedgeOptions;
+}
+
+/** Outermost first: the order strategies wrap the operation in, whatever the order they were added. */
+const STRATEGY_ORDER = [
+  'fallback',
+  'retry',
+  'circuitBreaker',
+  'rateLimiter',
+  'timeout',
+  'hedge',
+  'bulkhead',
+] as const;
+
+type StrategyKind = (typeof STRATEGY_ORDER)[number];
+
+/**
+ * Builds a {@link ResiliencePipeline}. Each strategy is added at most once —
+ * adding it again replaces it — and they always wrap the operation in this
+ * order, outermost first:
+ *
+ * fallback → retry → circuit breaker → rate limiter → timeout → hedge → bulkhead
+ *
+ * so every retry attempt is counted by the breaker, takes a token and gets
+ * its own timeout, within which hedged copies each take a bulkhead slot.
+ *
+ * @example
+ * ```typescript
+ * const pipeline = new ResiliencePipelineBuilder('payments')
+ *   .addRetry({ maxAttempts: 3, delayMs: 200, backoffMultiplier: 2 })
+ *   .addCircuitBreaker({ failureThreshold: 5, resetTimeoutMs: 30_000 })
+ *   .addTimeout(2_000)
+ *   .addFallback({ fallback: () => cachedQuote })
+ *   .onEvent((event) => logger.warn('resilience', event))
+ *   .withMetrics(metrics)
+ *   .build();
+ *
+ * const quote = await pipeline.execute((signal) => fetchQuote(orderId, { signal }));
+ * ```
+ */
+export class ResiliencePipelineBuilder<TFallback = never> {
+  private readonly strategies = new Map<StrategyKind, ResilienceStrategy>();
+  private readonly listeners: ResilienceEventListener[] = [];
+  private metrics: MetricsPort | undefined;
+
+  constructor(private readonly name = 'default') {}
+
+  /** Resolves with `fallback` instead of failing. */
+  addFallback<F>(options: FallbackStrategyOptions<F>): ResiliencePipelineBuilder<TFallback | F> {
+    this.strategies.set('fallback', new FallbackStrategy(options));
+    return this as ResiliencePipelineBuilder<TFallback | F>;
+  }
+
+  /** Retries failed attempts with the exponential backoff of a {@link RetryPolicy}. */
+  addRetry(options: RetryStrategyOptions): this {
+    return this.add('retry', new RetryStrategy(options));
+  }
+
+  /** Fails fast while the breaker is open. Pass an instance to share it between pipelines. */
+  addCircuitBreaker(
+    breaker: CircuitBreaker | NonNullable<ResiliencePipelineOptions['circuitBreaker']>,
+  ): this {
+    const instance =
+      breaker instanceof CircuitBreaker
+        ? breaker
+        : new CircuitBreaker(breaker.failureThreshold, breaker.resetTimeoutMs);
+    return this.add('circuitBreaker', new CircuitBreakerStrategy(instance));
+  }
+
+  /** Rejects with `RateLimitExceededError` when no token is left. */
+  addRateLimiter(
+    limiter: RateLimiter | NonNullable<ResiliencePipelineOptions['rateLimiter']>,
+  ): this {
+    const instance =
+      limiter instanceof RateLimiter
+        ? limiter
+        : new RateLimiter(limiter.maxTokens, limiter.refillRatePerSecond);
+    return this.add('rateLimiter', new RateLimiterStrategy(instance));
+  }
+
+  /** Aborts each attempt, and rejects with `TimeoutError`, after `timeoutMs`. */
+  addTimeout(timeoutMs: number): this {
+    return this.add('timeout', new TimeoutStrategy(timeoutMs));
+  }
+
+  /** Starts extra copies of slow attempts; the first to succeed wins. */
+  addHedge(options: HedgeOptions = {}): this {
+    return this.add(
+      'hedge',
+      new HedgeStrategy({ copies: options.copies ?? 2, delayMs: options.delayMs ?? 100 }),
+    );
+  }
+
+  /**
+   * Limits concurrent executions, to a fixed or an adaptive limit. Pass an
+   * instance to share it between pipelines.
+   */
+  addBulkhead(
+    bulkhead: Bulkhead | AdaptiveBulkhead | NonNullable<ResiliencePipelineOptions['bulkhead']>,
+  ): this {
+    const instance =
+      bulkhead instanceof Bulkhead || bulkhead instanceof AdaptiveBulkhead
+        ? bulkhead
+        : new Bulkhead(bulkhead.maxConcurrent, bulkhead.maxQueue);
+    return this.add('bulkhead', new BulkheadStrategy(instance));
+  }
+
+  /** Adds the strategies described by `options`. */
+  configure(options: ResiliencePipelineOptions): this {
+    if (options.retry !== undefined) this.addRetry(options.retry);
+    if (options.circuitBreaker !== undefined) this.addCircuitBreaker(options.circuitBreaker);
+    if (options.rateLimiter !== undefined) this.addRateLimiter(options.rateLimiter);
+    if (options.timeoutMs !== undefined) this.addTimeout(options.timeoutMs);
+    if (options.hedge !== undefined) this.addHedge(options.hedge);
+    if (options.bulkhead !== undefined) this.addBulkhead(options.bulkhead);
+    return this;
+  }
+
+  onEvent(listener: ResilienceEventListener): this {
+    this.listeners.push(listener);
+    return this;
+  }
+
+  withMetrics(metrics: MetricsPort): this {
+    this.metrics = metrics;
+    return this;
+  }
+
+  build(): ResiliencePipeline<TFallback> {
+    const strategies = STRATEGY_ORDER.flatMap((kind) => {
+      const strategy = this.strategies.get(kind);
+      return strategy === undefined ? [] : [strategy];
+    });
+    return new ResiliencePipeline<TFallback>(this.name, strategies, this.listeners, this.metrics);
+  }
+
+  private add(kind: StrategyKind, strategy: ResilienceStrategy): this {
+    this.strategies.set(kind, strategy);
+    return this;
+  }
+}
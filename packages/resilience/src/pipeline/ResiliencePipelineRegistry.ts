@@ -0,0 +1,74 @@
+import type { MetricsPort } from '@marcusprado02/kernel';
+import type { ResilienceEventListener } from './ResilienceEvent';
+import type { ResiliencePipeline } from './ResiliencePipeline';
+import type { ResiliencePipelineOptions } from './ResiliencePipelineBuilder';
+import { ResiliencePipelineBuilder } from './ResiliencePipelineBuilder';
+
+export class ResiliencePipelineNotFoundError extends Error {
+  constructor(public readonly pipelineName: string) {
+    super(`No resilience pipeline registered under: ${pipelineName}`);
+    this.name = 'ResiliencePipelineNotFoundError';
+  }
+}
+
+export interface ResiliencePipelineRegistryOptions {
+  /** Metrics of every pipeline the registry builds. */
+  readonly metrics?: MetricsPort;
+  /** Listeners of every pipeline the registry builds. */
+  readonly listeners?: readonly ResilienceEventListener[];
+}
+
+/**
+ * Named pipelines, looked up where they are used so that their strategies
+ * can be defined in one place — in code or from configuration.
+ *
+ * @example
+ * ```typescript
+ * const registry = new ResiliencePipelineRegistry({ metrics })
+ *   .configure(await new ConfigLoader(new ResilienceConfigSchema(), sources).load());
+ *
+ * await registry.get('payments').execute((signal) => gateway.charge(order, { signal }));
+ * ```
+ */
+export class ResiliencePipelineRegistry {
+  private readonly pipelines = new Map<string, ResiliencePipeline<unknown>>();
+
+  constructor(private readonly options: ResiliencePipelineRegistryOptions = {}) {}
+
+  /** A builder with the registry's metrics and listeners, e.g. to register a pipeline with a fallback. */
+  builder(name: string): ResiliencePipelineBuilder {
+    const builder = new ResiliencePipelineBuilder(name);
+    if (this.options.metrics !== undefined) builder.withMetrics(this.options.metrics);
+    for (const listener of this.options.listeners ?? []) builder.onEvent(listener);
+    return builder;
+  }
+
+  /** Registers a pipeline under its name, replacing any pipeline of that name. */
+  register(pipeline: ResiliencePipeline<unknown>): this {
+    this.pipelines.set(pipeline.name, pipeline);
+    return this;
+  }
+
+  /** Builds and registers a pipeline for each entry of `config`. */
+  configure(config: Readonly<Record<string, ResiliencePipelineOptions>>): this {
+    for (const [name, options] of Object.entries(config)) {
+      this.register(this.builder(name).configure(options).build());
+    }
+    return this;
+  }
+
+  /** Throws {@link ResiliencePipelineNotFoundError} when no pipeline has that name. */
+  get<TFallback = never>(name: string): ResiliencePipeline<TFallback> {
+    const pipeline = this.pipelines.get(name);
+    if (pipeline === undefined) throw new ResiliencePipelineNotFoundError(name);
+    return pipeline as ResiliencePipeline<TFallback>;
+  }
+
+  has(name: string): boolean {
+    return this.pipelines.has(name);
+  }
+
+  names(): string[] {
+    return [...this.pipelines.keys()];
+  }
+}
@@ -0,0 +1,239 @@
+import type { AdaptiveBulkhead } from '../bulkhead/AdaptiveBulkhead';
+import { Bulkhead, BulkheadRejectedError } from '../bulkhead/Bulkhead';
+import type { CircuitBreaker } from '../circuitbreaker/CircuitBreaker';
+import { CircuitBreakerOpenError, CircuitBreakerState } from '../circuitbreaker/CircuitBreaker';
+import type { RateLimiter } from '../ratelimit/RateLimiter';
+import { RateLimitExceededError } from '../ratelimit/RateLimiter';
+import type { RetryPolicy } from '../retries/Retry';
+import { Retry } from '../retries/Retry';
+import { abortReason } from '../shared/abort';
+import { TimeoutError } from '../timeouts/Timeout';
+import type { ResilienceEvent } from './ResilienceEvent';
+
+/** The rest of the pipeline, down to the operation. */
+export type Next = (signal: AbortSignal) => Promise<unknown>;
+
+/** What a strategy knows about the execution it takes part in. */
+export interface StrategyContext {
+  readonly pipeline: string;
+  emit(event: ResilienceEvent): void;
+}
+
+/** One resilience strategy wrapped around the rest of a pipeline. */
+export interface ResilienceStrategy {
+  execute(next: Next, signal: AbortSignal, context: StrategyContext): Promise<unknown>;
+}
+
+export type RetryStrategyOptions = RetryPolicy;
+
+export interface FallbackStrategyOptions<T> {
+  /** Produces the result when the rest of the pipeline failed. */
+  readonly fallback: (error: unknown, signal: AbortSignal) => T | Promise<T>;
+  /** Whether a failure falls back. Default: every failure. */
+  readonly shouldHandle?: (error: unknown) => boolean;
+}
+
+export class FallbackStrategy<T> implements ResilienceStrategy {
+  constructor(private readonly options: FallbackStrategyOptions<T>) {}
+
+  async execute(next: Next, signal: AbortSignal, context: StrategyContext): Promise<unknown> {
+    try {
+      return await next(signal);
+    } catch (error) {
+      if (signal.aborted || this.options.shouldHandle?.(error) === false) throw error;
+      context.emit({ type: 'fallback', pipeline: context.pipeline, error });
+      return this.options.fallback(error, signal);
+    }
+  }
+}
+
+/** Retries as {@link Retry} does; delays end early on abort. */
+export class RetryStrategy implements ResilienceStrategy {
+  constructor(private readonly options: RetryStrategyOptions) {}
+
+  execute(next: Next, signal: AbortSignal, context: StrategyContext): Promise<unknown> {
+    const policy: RetryPolicy = {
+      ...this.options,
+      onRetry: (attempt): void => {
+        context.emit({ type: 'retry', pipeline: context.pipeline, ...attempt });
+        this.options.onRetry?.(attempt);
+      },
+    };
+    return Retry.execute(next, policy, { signal });
+  }
+}
+
+const STATE_EVENTS = {
+  [CircuitBreakerState.OPEN]: 'circuit-opened',
+  [CircuitBreakerState.HALF_OPEN]: 'circuit-half-opened',
+  [CircuitBreakerState.CLOSED]: 'circuit-closed',
+  [CircuitBreakerState.FORCED_OPEN]: 'circuit-opened',
+  [CircuitBreakerState.FORCED_CLOSED]: 'circuit-closed',
+} as const;
+
+export class CircuitBreakerStrategy implements ResilienceStrategy {
+  constructor(private readonly breaker: CircuitBreaker) {}
+
+  async execute(next: Next, signal: AbortSignal, context: StrategyContext): Promise<unknown> {
+    const before = this.breaker.getState();
+    try {
+      return await this.breaker.execute(() => next(signal));
+    } catch (error) {
+      if (error instanceof CircuitBreakerOpenError) {
+        context.emit({ type: 'circuit-rejected', pipeline: context.pipeline });
+      }
+      throw error;
+    } finally {
+      const after = this.breaker.getState();
+      if (after !== before) context.emit({ type: STATE_EVENTS[after], pipeline: context.pipeline });
+    }
+  }
+}
+
+export class RateLimiterStrategy implements ResilienceStrategy {
+  constructor(private readonly limiter: RateLimiter) {}
+
+  async execute(next: Next, signal: AbortSignal, context: StrategyContext): Promise<unknown> {
+    if (!(await this.limiter.acquire())) {
+      context.emit({ type: 'rate-limited', pipeline: context.pipeline });
+      throw new RateLimitExceededError();
+    }
+    return next(signal);
+  }
+}
+
+/** Aborts the signal passed down, and rejects with {@link TimeoutError}, after `timeoutMs`. */
+export class TimeoutStrategy implements ResilienceStrategy {
+  constructor(private readonly timeoutMs: number) {}
+
+  async execute(next: Next, signal: AbortSignal, context: StrategyContext): Promise<unknown> {
+    const controller = linkedController(signal);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new TimeoutError(this.timeoutMs);
+        context.emit({ type: 'timeout', pipeline: context.pipeline, timeoutMs: this.timeoutMs });
+        controller.abort(error);
+        reject(error);
+      }, this.timeoutMs);
+    });
+    try {
+      return await Promise.race([next(controller.signal), timedOut]);
+    } finally {
+      clearTimeout(timer);
+      controller.release();
+    }
+  }
+}
+
+export interface HedgeStrategyOptions {
+  /** Number of copies to run at most, the first included. */
+  readonly copies: number;
+  /** Delay before starting the next copy while the previous ones are still running. */
+  readonly delayMs: number;
+}
+
+/**
+ * Speculative execution like {@link Hedge}: the first copy to succeed wins
+ * and the others are aborted. A failed copy starts the next one right away
+ * when no other copy is running.
+ */
+export class HedgeStrategy implements ResilienceStrategy {
+  constructor(private readonly options: HedgeStrategyOptions) {}
+
+  execute(next: Next, signal: AbortSignal, context: StrategyContext): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      new HedgedExecution(this.options, next, signal, context, resolve, reject).launch();
+    });
+  }
+}
+
+class HedgedExecution {
+  private readonly controllers: LinkedController[] = [];
+  private failures = 0;
+  private settled = false;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    private readonly options: HedgeStrategyOptions,
+    private readonly next: Next,
+    private readonly signal: AbortSignal,
+    private readonly context: StrategyContext,
+    private readonly resolve: (value: unknown) => void,
+    private readonly reject: (error: unknown) => void,
+  ) {}
+
+  launch(): void {
+    const copy = this.controllers.length + 1;
+    const controller = linkedController(this.signal);
+    this.controllers.push(controller);
+    if (copy > 1) this.context.emit({ type: 'hedge', pipeline: this.context.pipeline, copy });
+    if (copy < this.options.copies) {
+      this.timer = setTimeout(() => {
+        if (!this.signal.aborted) this.launch();
+      }, this.options.delayMs);
+    }
+    this.next(controller.signal).then(
+      (value) => this.settle(() => this.resolve(value)),
+      (error: unknown) => this.fail(error),
+    );
+  }
+
+  private fail(error: unknown): void {
+    if (this.settled) return;
+    this.failures++;
+    const running = this.controllers.length - this.failures;
+    if (this.controllers.length === this.options.copies || this.signal.aborted) {
+      if (running === 0) this.settle(() => this.reject(error));
+    } else if (running === 0) {
+      clearTimeout(this.timer);
+      this.launch();
+    }
+  }
+
+  private settle(complete: () => void): void {
+    if (this.settled) return;
+    this.settled = true;
+    clearTimeout(this.timer);
+    for (const controller of this.controllers) {
+      controller.abort(new Error('Another hedged copy completed first'));
+      controller.release();
+    }
+    complete();
+  }
+}
+
+export class BulkheadStrategy implements ResilienceStrategy {
+  constructor(private readonly bulkhead: Bulkhead | AdaptiveBulkhead) {}
+
+  async execute(next: Next, signal: AbortSignal, context: StrategyContext): Promise<unknown> {
+    try {
+      // Queued calls leave the queue once aborted, e.g. by an outer timeout.
+      if (this.bulkhead instanceof Bulkhead) {
+        return await this.bulkhead.execute(() => next(signal), signal);
+      }
+      if (signal.aborted) throw abortReason(signal);
+      return await this.bulkhead.execute(() => next(signal));
+    } catch (error) {
+      if (error instanceof BulkheadRejectedError) {
+        context.emit({ type: 'bulkhead-rejected', pipeline: context.pipeline });
+      }
+      throw error;
+    }
+  }
+}
+
+interface LinkedController extends AbortController {
+  /** Stops following the parent signal. */
+  release(): void;
+}
+
+/** A controller that aborts when `parent` does, and can also be aborted on its own. */
+function linkedController(parent: AbortSignal): LinkedController {
+  const controller = new AbortController() as LinkedController;
+  const onAbort = (): void => controller.abort(parent.reason);
+  if (parent.aborted) onAbort();
+  else parent.addEventListener('abort', onAbort, { once: true });
+  controller.release = (): void => parent.removeEventListener('abort', onAbort);
+  return controller;
+}
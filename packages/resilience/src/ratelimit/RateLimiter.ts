@@ -1,3 +1,10 @@
+export class RateLimitExceededError extends Error {
+  constructor() {
+    super('Rate limit exceeded — request rejected');
+    this.name = 'RateLimitExceededError';
+  }
+}
+
 export class RateLimiter {
   private tokens: number;
   private lastRefill: number;
@@ -0,0 +1,175 @@
+import type { Clock } from '@marcusprado02/kernel';
+import { SystemClock } from '@marcusprado02/kernel';
+import type {
+  DistributedRateLimiter,
+  RateLimitAlgorithm,
+  RateLimitDecision,
+} from './RateLimitAlgorithm';
+
+type Algorithm<T extends RateLimitAlgorithm['type']> = Extract<RateLimitAlgorithm, { type: T }>;
+
+interface Entry {
+  readonly state: unknown;
+  readonly expiresAt: number;
+}
+
+interface BucketState {
+  readonly tokens: number;
+  readonly ts: number;
+}
+
+interface WindowState {
+  readonly window: number;
+  readonly current: number;
+  readonly previous: number;
+}
+
+const ALLOWED = (remaining: number): RateLimitDecision => ({
+  allowed: true,
+  remaining,
+  retryAfterMs: 0,
+});
+
+const DENIED = (remaining: number, retryAfterMs: number): RateLimitDecision => ({
+  allowed: false,
+  remaining,
+  retryAfterMs,
+});
+
+/**
+ * {@link DistributedRateLimiter} in process memory running the same
+ * algorithms as the scripts of {@link RedisRateLimiter} — key expiry
+ * included — so tests and single-instance deployments get the same
+ * decisions without Redis. Time comes from the injected `Clock`.
+ */
+export class InMemoryRateLimiter implements DistributedRateLimiter {
+  private readonly entries = new Map<string, Entry>();
+  private readonly clock: Clock;
+
+  constructor(
+    private readonly algorithm: RateLimitAlgorithm,
+    options: { readonly clock?: Clock } = {},
+  ) {
+    this.clock = options.clock ?? new SystemClock();
+  }
+
+  consume(key: string, cost = 1): Promise<RateLimitDecision> {
+    const now = this.clock.timestamp();
+    const algorithm = this.algorithm;
+    switch (algorithm.type) {
+      case 'token-bucket':
+        return Promise.resolve(this.tokenBucket(algorithm, key, cost, now));
+      case 'sliding-log':
+        return Promise.resolve(this.slidingLog(algorithm, key, cost, now));
+      case 'sliding-window':
+        return Promise.resolve(this.slidingWindow(algorithm, key, cost, now));
+      case 'gcra':
+        return Promise.resolve(this.gcra(algorithm, key, cost, now));
+    }
+  }
+
+  reset(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  private tokenBucket(
+    { capacity, refillPerSecond }: Algorithm<'token-bucket'>,
+    key: string,
+    cost: number,
+    now: number,
+  ): RateLimitDecision {
+    const rate = refillPerSecond / 1000;
+    const state = this.read<BucketState>(key, now);
+    let tokens =
+      state === undefined
+        ? capacity
+        : Math.min(capacity, state.tokens + Math.max(0, now - state.ts) * rate);
+    const allowed = tokens >= cost;
+    if (allowed) tokens -= cost;
+    this.write(key, { tokens, ts: now }, Math.ceil(capacity / rate), now);
+    return allowed
+      ? ALLOWED(Math.floor(tokens))
+      : DENIED(Math.floor(tokens), Math.ceil((cost - tokens) / rate));
+  }
+
+  private slidingLog(
+    { limit, windowMs }: Algorithm<'sliding-log'>,
+    key: string,
+    cost: number,
+    now: number,
+  ): RateLimitDecision {
+    const log = (this.read<number[]>(key, now) ?? []).filter((at) => at > now - windowMs);
+    const count = log.length;
+    if (count + cost <= limit) {
+      this.write(key, [...log, ...new Array<number>(cost).fill(now)], windowMs, now);
+      return ALLOWED(limit - count - cost);
+    }
+    const freeing = log[count + cost - limit - 1];
+    const retryAfterMs =
+      cost <= limit && freeing !== undefined ? freeing + windowMs - now : windowMs;
+    return DENIED(Math.max(0, limit - count), retryAfterMs);
+  }
+
+  private slidingWindow(
+    { limit, windowMs }: Algorithm<'sliding-window'>,
+    key: string,
+    cost: number,
+    now: number,
+  ): RateLimitDecision {
+    const window = Math.floor(now / windowMs);
+    const elapsed = now - window * windowMs;
+    const state = this.read<WindowState>(key, now);
+    let current = 0;
+    let previous = 0;
+    if (state?.window === window) {
+      current = state.current;
+      previous = state.previous;
+    } else if (state?.window === window - 1) {
+      previous = state.current;
+    }
+    const estimate = (previous * (windowMs - elapsed)) / windowMs + current;
+    if (estimate + cost <= limit) {
+      this.write(key, { window, current: current + cost, previous }, windowMs * 2, now);
+      return ALLOWED(Math.floor(limit - estimate - cost));
+    }
+    let retryAfterMs = windowMs - elapsed;
+    if (previous > 0 && current + cost <= limit) {
+      retryAfterMs = Math.ceil(
+        windowMs - elapsed - ((limit - current - cost) * windowMs) / previous,
+      );
+    }
+    return DENIED(Math.max(0, Math.floor(limit - estimate)), Math.max(1, retryAfterMs));
+  }
+
+  private gcra(
+    { limit, periodMs, burst = limit }: Algorithm<'gcra'>,
+    key: string,
+    cost: number,
+    now: number,
+  ): RateLimitDecision {
+    const emission = periodMs / limit;
+    const tolerance = emission * burst;
+    const tat = Math.max(this.read<number>(key, now) ?? now, now);
+    const newTat = tat + emission * cost;
+    const allowAt = newTat - tolerance;
+    if (now < allowAt) {
+      return DENIED(
+        Math.max(0, Math.floor((tolerance - (tat - now)) / emission)),
+        Math.ceil(allowAt - now),
+      );
+    }
+    this.write(key, newTat, Math.max(1, Math.ceil(newTat - now)), now);
+    return ALLOWED(Math.floor((tolerance - (newTat - now)) / emission));
+  }
+
+  private read<T>(key: string, now: number): T | undefined {
+    const entry = this.entries.get(key);
+    if (entry === undefined || entry.expiresAt <= now) return undefined;
+    return entry.state as T;
+  }
+
+  private write(key: string, state: unknown, ttlMs: number, now: number): void {
+    this.entries.set(key, { state, expiresAt: now + ttlMs });
+  }
+}
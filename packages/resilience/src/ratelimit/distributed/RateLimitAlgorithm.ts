@@ -0,0 +1,40 @@
+/**
+ * How a {@link DistributedRateLimiter} counts requests.
+ *
+ * - `token-bucket` — holds up to `capacity` tokens, refilled continuously at
+ *   `refillPerSecond`; allows bursts of `capacity`.
+ * - `sliding-log` — at most `limit` requests in any `windowMs`, exactly, by
+ *   keeping the time of each request.
+ * - `sliding-window` — approximates `sliding-log` with two counters: the
+ *   previous fixed window, weighted by how much of it still overlaps the
+ *   sliding window, plus the current one. Constant memory per key.
+ * - `gcra` — Generic Cell Rate Algorithm: `limit` requests per `periodMs`,
+ *   evenly spaced, with bursts of up to `burst` (default `limit`). One
+ *   timestamp per key.
+ */
+export type RateLimitAlgorithm =
+  | { readonly type: 'token-bucket'; readonly capacity: number; readonly refillPerSecond: number }
+  | { readonly type: 'sliding-log'; readonly limit: number; readonly windowMs: number }
+  | { readonly type: 'sliding-window'; readonly limit: number; readonly windowMs: number }
+  | {
+      readonly type: 'gcra';
+      readonly limit: number;
+      readonly periodMs: number;
+      readonly burst?: number;
+    };
+
+export interface RateLimitDecision {
+  readonly allowed: boolean;
+  /** Units that could still be consumed right away. */
+  readonly remaining: number;
+  /** When denied, how long until the same cost may be allowed; `0` when allowed. */
+  readonly retryAfterMs: number;
+}
+
+/** A rate limiter keeping separate limits per key, e.g. per user or per IP. */
+export interface DistributedRateLimiter {
+  /** Consumes `cost` units (default 1) of `key`'s limit, if allowed. */
+  consume(key: string, cost?: number): Promise<RateLimitDecision>;
+  /** Forgets everything recorded for `key`. */
+  reset(key: string): Promise<void>;
+}
@@ -0,0 +1,195 @@
+import type { RedisScriptingClientLike } from '@marcusprado02/cache-redis';
+import type {
+  DistributedRateLimiter,
+  RateLimitAlgorithm,
+  RateLimitDecision,
+} from './RateLimitAlgorithm';
+
+/** Milliseconds from the Redis server clock, so every instance shares one time. */
+const NOW = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+`;
+
+// Every script replies { allowed (0/1), remaining, retryAfterMs }.
+
+const TOKEN_BUCKET = `${NOW}
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2]) / 1000
+local cost = tonumber(ARGV[3])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = capacity
+if state[1] then
+  tokens = math.min(capacity, tonumber(state[1]) + math.max(0, now - tonumber(state[2])) * rate)
+end
+local allowed = 0
+local retry = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+else
+  retry = math.ceil((cost - tokens) / rate)
+end
+redis.call('HSET', KEYS[1], 'tokens', string.format('%.6f', tokens), 'ts', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / rate))
+return { allowed, math.floor(tokens), retry }
+`;
+
+const SLIDING_LOG = `${NOW}
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+if count + cost <= limit then
+  for i = 1, cost do
+    redis.call('ZADD', KEYS[1], now, ARGV[4] .. ':' .. i)
+  end
+  redis.call('PEXPIRE', KEYS[1], window)
+  return { 1, limit - count - cost, 0 }
+end
+local retry = window
+if cost <= limit then
+  local index = count + cost - limit - 1
+  local freeing = redis.call('ZRANGE', KEYS[1], index, index, 'WITHSCORES')
+  retry = tonumber(freeing[2]) + window - now
+end
+return { 0, math.max(0, limit - count), retry }
+`;
+
+const SLIDING_WINDOW = `${NOW}
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local index = math.floor(now / window)
+local elapsed = now - index * window
+local state = redis.call('HMGET', KEYS[1], 'window', 'current', 'previous')
+local current = 0
+local previous = 0
+if state[1] then
+  local stored = tonumber(state[1])
+  if stored == index then
+    current = tonumber(state[2])
+    previous = tonumber(state[3])
+  elseif stored == index - 1 then
+    previous = tonumber(state[2])
+  end
+end
+local estimate = previous * (window - elapsed) / window + current
+if estimate + cost <= limit then
+  redis.call('HSET', KEYS[1], 'window', index, 'current', current + cost, 'previous', previous)
+  redis.call('PEXPIRE', KEYS[1], window * 2)
+  return { 1, math.floor(limit - estimate - cost), 0 }
+end
+local retry = window - elapsed
+if previous > 0 and current + cost <= limit then
+  retry = math.ceil(window - elapsed - (limit - current - cost) * window / previous)
+end
+return { 0, math.max(0, math.floor(limit - estimate)), math.max(1, retry) }
+`;
+
+const GCRA = `${NOW}
+local limit = tonumber(ARGV[1])
+local period = tonumber(ARGV[2])
+local burst = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+local emission = period / limit
+local tolerance = emission * burst
+local tat = now
+local stored = redis.call('GET', KEYS[1])
+if stored then
+  tat = math.max(tonumber(stored), now)
+end
+local newTat = tat + emission * cost
+local allowAt = newTat - tolerance
+if now < allowAt then
+  return { 0, math.max(0, math.floor((tolerance - (tat - now)) / emission)), math.ceil(allowAt - now) }
+end
+redis.call('SET', KEYS[1], string.format('%.3f', newTat), 'PX', math.max(1, math.ceil(newTat - now)))
+return { 1, math.floor((tolerance - (newTat - now)) / emission), 0 }
+`;
+
+export interface RedisRateLimiterOptions {
+  /** Prefix of every key: `<prefix>:<key>`. Default: `'ratelimit'`. */
+  readonly keyPrefix?: string;
+  /** Generates unique ids for the sliding log's entries. Default: `crypto.randomUUID()`. */
+  readonly generateId?: () => string;
+}
+
+/**
+ * {@link DistributedRateLimiter} on Redis, so every instance of a service
+ * shares the same limits. Each decision is one Lua script — read, decide and
+ * write happen atomically — timed by the Redis server clock, so instances
+ * with drifting clocks still agree. Requires Redis 5 or later.
+ *
+ * Keys expire once they no longer affect decisions. Use a distinct
+ * `keyPrefix` per limiter.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RedisRateLimiter(
+ *   redis as unknown as RedisScriptingClientLike,
+ *   { type: 'gcra', limit: 100, periodMs: 60_000, burst: 20 },
+ *   { keyPrefix: 'ratelimit:api' },
+ * );
+ *
+ * const decision = await limiter.consume(`user:${userId}`);
+ * if (!decision.allowed) return tooManyRequests(decision.retryAfterMs);
+ * ```
+ */
+export class RedisRateLimiter implements DistributedRateLimiter {
+  private readonly prefix: string;
+  private readonly generateId: () => string;
+
+  constructor(
+    private readonly client: RedisScriptingClientLike,
+    private readonly algorithm: RateLimitAlgorithm,
+    options: RedisRateLimiterOptions = {},
+  ) {
+    this.prefix = options.keyPrefix ?? 'ratelimit';
+    this.generateId = options.generateId ?? ((): string => crypto.randomUUID());
+  }
+
+  async consume(key: string, cost = 1): Promise<RateLimitDecision> {
+    const [script, args] = this.script(cost);
+    const reply = await this.client.eval(script, 1, this.key(key), ...args);
+    return parseReply(reply);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.del(this.key(key));
+  }
+
+  private script(cost: number): [string, Array<string | number>] {
+    const algorithm = this.algorithm;
+    switch (algorithm.type) {
+      case 'token-bucket':
+        return [TOKEN_BUCKET, [algorithm.capacity, algorithm.refillPerSecond, cost]];
+      case 'sliding-log':
+        return [SLIDING_LOG, [algorithm.limit, algorithm.windowMs, cost, this.generateId()]];
+      case 'sliding-window':
+        return [SLIDING_WINDOW, [algorithm.limit, algorithm.windowMs, cost]];
+      case 'gcra':
+        return [
+          GCRA,
+          [algorithm.limit, algorithm.periodMs, algorithm.burst ?? algorithm.limit, cost],
+        ];
+    }
+  }
+
+  private key(key: string): string {
+    return `${this.prefix}:${key}`;
+  }
+}
+
+function parseReply(reply: unknown): RateLimitDecision {
+  if (!Array.isArray(reply) || reply.length !== 3) {
+    throw new Error(`Unexpected rate limit script reply: ${JSON.stringify(reply)}`);
+  }
+  const [allowed, remaining, retryAfterMs] = reply.map(Number);
+  return {
+    allowed: allowed === 1,
+    remaining: remaining ?? 0,
+    retryAfterMs: retryAfterMs ?? 0,
+  };
+}
@@ -91,6 +91,27 @@ describe('Bulkhead', () => {
     await Promise.all([p1, p2, p3]);
     expect(order).toEqual([1, 2, 3]);
   });
+
+  it('drops a queued call once its signal aborts', async () => {
+    const bh = new Bulkhead(1, 5);
+    const controller = new AbortController();
+    let firstResolve!: () => void;
+    const block = new Promise<void>(r => {
+      firstResolve = r;
+    });
+    const queued = vi.fn(() => Promise.resolve(2));
+
+    const p1 = bh.execute(() => block.then(() => 1));
+    const p2 = bh.execute(queued, controller.signal);
+    controller.abort(new Error('cancelled'));
+
+    await expect(p2).rejects.toThrow('cancelled');
+    expect(bh.getQueueSize()).toBe(0);
+    firstResolve();
+    await p1;
+    expect(queued).not.toHaveBeenCalled();
+    expect(bh.getActiveCount()).toBe(0);
+  });
 });
 
 // ─── Fallback ────────────────────────────────────────────────────────────────
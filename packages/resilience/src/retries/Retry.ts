@@ -1,37 +1,142 @@
+import { AppError } from '@marcusprado02/errors';
+import { abortReason, sleep } from '../shared/abort';
+import type { RetryBudget } from './RetryBudget';
+
+/**
+ * How delays are randomised, so that clients failing together do not retry
+ * together:
+ * - `none`: the exponential delay itself.
+ * - `full`: anywhere between 0 and the exponential delay.
+ * - `equal`: half the exponential delay, plus up to the other half.
+ * - `decorrelated`: between `delayMs` and three times the previous delay.
+ */
+export type RetryJitter = 'none' | 'full' | 'equal' | 'decorrelated';
+
+/** A failed attempt that is about to be retried. */
+export interface RetryAttempt {
+  /** The attempt that failed, from 1. */
+  readonly attempt: number;
+  readonly error: unknown;
+  /** How long until the next attempt. */
+  readonly delayMs: number;
+}
+
 export interface RetryPolicy {
   readonly maxAttempts: number;
   readonly delayMs: number;
   readonly backoffMultiplier?: number;
   readonly maxDelayMs?: number;
+  /** Default: `'none'`. */
+  readonly jitter?: RetryJitter;
+  /** Whether a failure is worth retrying. Default: {@link isRetryable}. */
+  readonly shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /** Time from the first attempt after which no retry starts. */
+  readonly deadlineMs?: number;
+  /** Retries are only made while the budget allows them. */
+  readonly budget?: RetryBudget;
+  /** Called before waiting for each retry. */
+  readonly onRetry?: (attempt: RetryAttempt) => void;
+  /** Source of the jitter. Default: `Math.random`. */
+  readonly random?: () => number;
+}
+
+export interface RetryOptions {
+  /** Stops retrying, and ends the wait for the next attempt, once aborted. */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Whether `error` is worth retrying: `AppError`s say so themselves —
+ * `RetryableError` yes, `NonRetryableError` no — and any other error is
+ * assumed to be transient.
+ */
+export function isRetryable(error: unknown): boolean {
+  return error instanceof AppError ? error.retryable : true;
+}
+
+/**
+ * The `retryAfterMs` an error carries, e.g. from the `Retry-After` header of
+ * an HTTP 429 or 503.
+ */
+export function retryAfterMs(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null || !('retryAfterMs' in error)) return undefined;
+  const hint = error.retryAfterMs;
+  return typeof hint === 'number' && hint >= 0 ? hint : undefined;
 }
 
 export class Retry {
+  /**
+   * Runs `fn` until it succeeds or the policy gives up, then rethrows the
+   * last error. A failure waits at least the `retryAfterMs` it carries; the
+   * deadline and the budget are checked before each wait, so a retry that
+   * could not start in time is never waited for.
+   */
   static async execute<T>(
-    fn: () => Promise<T>,
+    fn: (signal: AbortSignal) => Promise<T>,
     policy: RetryPolicy,
+    options: RetryOptions = {},
   ): Promise<T> {
-    let lastError: Error | undefined;
-    let delay = policy.delayMs;
+    const signal = options.signal ?? new AbortController().signal;
+    const startedAt = Date.now();
+    const backoff = new Backoff(policy);
+    policy.budget?.recordCall();
 
-    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+    for (let attempt = 1; ; attempt++) {
+      if (signal.aborted) throw abortReason(signal);
       try {
-        return await fn();
+        return await fn(signal);
       } catch (error) {
-        lastError = error as Error;
-
-        if (attempt > 0 && attempt < policy.maxAttempts) {
-          await new Promise(resolve => setTimeout(resolve, delay));
-
-          if (policy.backoffMultiplier !== undefined && policy.backoffMultiplier > 0) {
-            delay = Math.min(
-              delay * policy.backoffMultiplier,
-              policy.maxDelayMs ?? Infinity,
-            );
-          }
-        }
+        const delayMs = Math.max(backoff.next(), retryAfterMs(error) ?? 0);
+        const resumesAt = Date.now() - startedAt + delayMs;
+        if (!canRetry(policy, attempt, error, signal, resumesAt)) throw error;
+        policy.onRetry?.({ attempt, error, delayMs });
+        await sleep(delayMs, signal);
       }
     }
+  }
+}
+
+function canRetry(
+  policy: RetryPolicy,
+  attempt: number,
+  error: unknown,
+  signal: AbortSignal,
+  resumesAt: number,
+): boolean {
+  return (
+    attempt < policy.maxAttempts &&
+    !signal.aborted &&
+    (policy.shouldRetry ?? isRetryable)(error, attempt) &&
+    resumesAt < (policy.deadlineMs ?? Infinity) &&
+    // Last, so that only retries actually made are withdrawn.
+    (policy.budget?.tryRetry() ?? true)
+  );
+}
 
-    throw lastError ?? new Error('Retry failed');
+/** The delays of a policy, one per failed attempt. */
+class Backoff {
+  private attempts = 0;
+  private previous: number;
+
+  constructor(private readonly policy: RetryPolicy) {
+    this.previous = policy.delayMs;
+  }
+
+  next(): number {
+    const { delayMs, backoffMultiplier = 0, maxDelayMs = Infinity } = this.policy;
+    const { jitter = 'none', random = Math.random } = this.policy;
+    const multiplier = backoffMultiplier > 0 ? backoffMultiplier : 1;
+    const base = Math.min(delayMs * multiplier ** this.attempts++, maxDelayMs);
+    switch (jitter) {
+      case 'none':
+        return base;
+      case 'full':
+        return random() * base;
+      case 'equal':
+        return base / 2 + (random() * base) / 2;
+      case 'decorrelated':
+        this.previous = Math.min(maxDelayMs, delayMs + random() * (this.previous * 3 - delayMs));
+        return this.previous;
+    }
   }
 }
@@ -0,0 +1,93 @@
+import type { Clock } from '@marcusprado02/kernel';
+import { SystemClock } from '@marcusprado02/kernel';
+
+export interface RetryBudgetOptions {
+  /** Retries allowed per call, e.g. `0.2` for one retry every five calls. Default: `0.2`. */
+  readonly ratio?: number;
+  /** Retries allowed per second regardless of traffic, so quiet periods can still retry. Default: `10`. */
+  readonly minRetriesPerSecond?: number;
+  /** Period over which calls and retries are counted. Default: `10_000`. */
+  readonly windowMs?: number;
+  readonly clock?: Clock;
+}
+
+interface Bucket {
+  readonly start: number;
+  calls: number;
+  retries: number;
+}
+
+/**
+ * Caps retries to a ratio of the calls made, counted over a sliding window.
+ * Share one budget between every caller of a dependency: when it fails for
+ * everyone, retries stay a fraction of the traffic instead of multiplying it
+ * into a retry storm.
+ *
+ * @example
+ * ```typescript
+ * const budget = new RetryBudget({ ratio: 0.1 });
+ *
+ * await Retry.execute(() => inventory.reserve(order), {
+ *   maxAttempts: 3,
+ *   delayMs: 100,
+ *   budget,
+ * });
+ * ```
+ */
+export class RetryBudget {
+  private readonly ratio: number;
+  private readonly reserve: number;
+  private readonly windowMs: number;
+  private readonly bucketMs: number;
+  private readonly clock: Clock;
+  private buckets: Bucket[] = [];
+
+  constructor(options: RetryBudgetOptions = {}) {
+    this.ratio = options.ratio ?? 0.2;
+    this.windowMs = options.windowMs ?? 10_000;
+    this.reserve = ((options.minRetriesPerSecond ?? 10) * this.windowMs) / 1000;
+    this.bucketMs = Math.max(1, Math.min(1000, this.windowMs));
+    this.clock = options.clock ?? new SystemClock();
+  }
+
+  /** Counts a call, which adds `ratio` retries to the budget. */
+  recordCall(): void {
+    this.current().calls++;
+  }
+
+  /** Withdraws one retry; `false` when the budget is spent. */
+  tryRetry(): boolean {
+    const { calls, retries } = this.totals();
+    if (retries + 1 > this.reserve + calls * this.ratio) return false;
+    this.current().retries++;
+    return true;
+  }
+
+  private current(): Bucket {
+    const now = this.clock.timestamp();
+    this.evict(now);
+    const start = now - (now % this.bucketMs);
+    const last = this.buckets[this.buckets.length - 1];
+    if (last?.start === start) return last;
+    const bucket = { start, calls: 0, retries: 0 };
+    this.buckets.push(bucket);
+    return bucket;
+  }
+
+  private totals(): { calls: number; retries: number } {
+    this.evict(this.clock.timestamp());
+    let calls = 0;
+    let retries = 0;
+    for (const bucket of this.buckets) {
+      calls += bucket.calls;
+      retries += bucket.retries;
+    }
+    return { calls, retries };
+  }
+
+  private evict(now: number): void {
+    this.buckets = this.buckets.filter(
+      (bucket) => bucket.start + this.bucketMs > now - this.windowMs,
+    );
+  }
+}
@@ -0,0 +1,244 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+/* eslint-disable @typescript-eslint/require-await */
+/* eslint-disable max-lines-per-function */
+import { describe, it, expect, vi } from 'vitest';
+import type { Clock } from '@marcusprado02/kernel';
+import { AppErrorCode, NonRetryableError, RetryableError } from '@marcusprado02/errors';
+import { Retry, isRetryable, retryAfterMs } from './retries/Retry';
+import type { RetryJitter, RetryPolicy } from './retries/Retry';
+import { RetryBudget } from './retries/RetryBudget';
+
+class ManualClock implements Clock {
+  constructor(private time = 0) {}
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  timestamp(): number {
+    return this.time;
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
+
+/** Fails `failures` times with `error`, then resolves `'ok'`. */
+function flaky(failures: number, error: unknown = new Error('boom')) {
+  let calls = 0;
+  const fn = vi.fn(async () => {
+    calls++;
+    if (calls <= failures) throw error;
+    return 'ok';
+  });
+  return fn;
+}
+
+async function delaysOf(policy: Omit<RetryPolicy, 'onRetry'>): Promise<number[]> {
+  const delays: number[] = [];
+  await Retry.execute(flaky(policy.maxAttempts - 1), {
+    ...policy,
+    onRetry: ({ delayMs }) => delays.push(delayMs),
+  });
+  return delays;
+}
+
+// ─── Attempts ────────────────────────────────────────────────────────────────
+
+describe('Retry', () => {
+  it('retries until the operation succeeds', async () => {
+    const fn = flaky(2);
+
+    await expect(Retry.execute(fn, { maxAttempts: 3, delayMs: 1 })).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('rethrows the last error once attempts run out', async () => {
+    const fn = flaky(5);
+
+    await expect(Retry.execute(fn, { maxAttempts: 2, delayMs: 1 })).rejects.toThrow('boom');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports each retry with its attempt, error and delay', async () => {
+    const error = new Error('boom');
+    const onRetry = vi.fn();
+
+    await Retry.execute(flaky(2, error), { maxAttempts: 3, delayMs: 1, onRetry });
+
+    expect(onRetry.mock.calls).toEqual([
+      [{ attempt: 1, error, delayMs: 1 }],
+      [{ attempt: 2, error, delayMs: 1 }],
+    ]);
+  });
+
+  // ─── Predicates ────────────────────────────────────────────────────────────
+
+  it('does not retry a NonRetryableError', async () => {
+    const fn = flaky(1, new NonRetryableError('invalid', AppErrorCode.VALIDATION_ERROR));
+
+    await expect(Retry.execute(fn, { maxAttempts: 3, delayMs: 1 })).rejects.toThrow('invalid');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a RetryableError', async () => {
+    const fn = flaky(1, new RetryableError('unavailable', AppErrorCode.NETWORK_ERROR));
+
+    await expect(Retry.execute(fn, { maxAttempts: 3, delayMs: 1 })).resolves.toBe('ok');
+  });
+
+  it('asks shouldRetry with the failed attempt', async () => {
+    const shouldRetry = vi.fn((_error: unknown, attempt: number) => attempt < 2);
+    const fn = flaky(5);
+
+    await expect(Retry.execute(fn, { maxAttempts: 5, delayMs: 1, shouldRetry })).rejects.toThrow(
+      'boom',
+    );
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(shouldRetry.mock.calls.map(([, attempt]) => attempt)).toEqual([1, 2]);
+  });
+
+  it('isRetryable follows AppError and treats other errors as transient', () => {
+    expect(isRetryable(new RetryableError('x', AppErrorCode.NETWORK_ERROR))).toBe(true);
+    expect(isRetryable(new NonRetryableError('x', AppErrorCode.VALIDATION_ERROR))).toBe(false);
+    expect(isRetryable(new Error('x'))).toBe(true);
+  });
+
+  // ─── Backoff and jitter ────────────────────────────────────────────────────
+
+  it('grows delays exponentially up to maxDelayMs', async () => {
+    await expect(
+      delaysOf({ maxAttempts: 5, delayMs: 1, backoffMultiplier: 2, maxDelayMs: 5 }),
+    ).resolves.toEqual([1, 2, 4, 5]);
+  });
+
+  it.each<[RetryJitter, number[]]>([
+    ['none', [1, 2, 4]],
+    ['full', [0.5, 1, 2]],
+    ['equal', [0.75, 1.5, 3]],
+    ['decorrelated', [2, 3.5, 5.75]],
+  ])('applies %s jitter', async (jitter, expected) => {
+    await expect(
+      delaysOf({ maxAttempts: 4, delayMs: 1, backoffMultiplier: 2, jitter, random: () => 0.5 }),
+    ).resolves.toEqual(expected);
+  });
+
+  // ─── Retry-After and deadline ──────────────────────────────────────────────
+
+  it('waits at least the retryAfterMs the error carries', async () => {
+    const error = new RetryableError('slow down', AppErrorCode.NETWORK_ERROR, undefined, 20);
+    const onRetry = vi.fn();
+
+    await Retry.execute(flaky(1, error), { maxAttempts: 2, delayMs: 1, onRetry });
+
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 20 }));
+  });
+
+  it('reads retryAfterMs from any error', () => {
+    expect(retryAfterMs(Object.assign(new Error('429'), { retryAfterMs: 1_500 }))).toBe(1_500);
+    expect(retryAfterMs(new Error('500'))).toBeUndefined();
+    expect(retryAfterMs('boom')).toBeUndefined();
+  });
+
+  it('gives up when the next attempt would start after the deadline', async () => {
+    const error = new RetryableError('slow down', AppErrorCode.NETWORK_ERROR, undefined, 60_000);
+    const fn = flaky(1, error);
+
+    await expect(Retry.execute(fn, { maxAttempts: 3, delayMs: 1, deadlineMs: 1_000 })).rejects.toBe(
+      error,
+    );
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  // ─── Cancellation ──────────────────────────────────────────────────────────
+
+  it('stops waiting and rejects with the reason once aborted', async () => {
+    const controller = new AbortController();
+    const fn = flaky(5);
+    const result = Retry.execute(
+      fn,
+      { maxAttempts: 5, delayMs: 60_000 },
+      {
+        signal: controller.signal,
+      },
+    );
+
+    await vi.waitFor(() => expect(fn).toHaveBeenCalledTimes(1));
+    controller.abort(new Error('cancelled'));
+
+    await expect(result).rejects.toThrow('cancelled');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('cancelled'));
+    const fn = flaky(0);
+
+    await expect(
+      Retry.execute(fn, { maxAttempts: 3, delayMs: 1 }, { signal: controller.signal }),
+    ).rejects.toThrow('cancelled');
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('passes the signal to the operation', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn(async (_signal: AbortSignal) => 'ok');
+
+    await Retry.execute(fn, { maxAttempts: 1, delayMs: 1 }, { signal: controller.signal });
+
+    expect(fn).toHaveBeenCalledWith(controller.signal);
+  });
+});
+
+// ─── Budget ──────────────────────────────────────────────────────────────────
+
+describe('RetryBudget', () => {
+  it('allows retries up to the ratio of calls', () => {
+    const budget = new RetryBudget({
+      ratio: 0.5,
+      minRetriesPerSecond: 0,
+      clock: new ManualClock(),
+    });
+    budget.recordCall();
+    expect(budget.tryRetry()).toBe(false);
+
+    budget.recordCall();
+    expect(budget.tryRetry()).toBe(true);
+    expect(budget.tryRetry()).toBe(false);
+  });
+
+  it('always allows the minimum retries per second', () => {
+    const budget = new RetryBudget({
+      ratio: 0,
+      minRetriesPerSecond: 1,
+      windowMs: 2_000,
+      clock: new ManualClock(),
+    });
+
+    expect(budget.tryRetry()).toBe(true);
+    expect(budget.tryRetry()).toBe(true);
+    expect(budget.tryRetry()).toBe(false);
+  });
+
+  it('forgets calls and retries older than the window', () => {
+    const clock = new ManualClock();
+    const budget = new RetryBudget({ ratio: 1, minRetriesPerSecond: 0, windowMs: 1_000, clock });
+    budget.recordCall();
+    expect(budget.tryRetry()).toBe(true);
+
+    clock.advance(1_000);
+    expect(budget.tryRetry()).toBe(false);
+    budget.recordCall();
+    expect(budget.tryRetry()).toBe(true);
+  });
+
+  it('stops Retry from retrying once spent', async () => {
+    const budget = new RetryBudget({ ratio: 0, minRetriesPerSecond: 0 });
+    const fn = flaky(1);
+
+    await expect(Retry.execute(fn, { maxAttempts: 3, delayMs: 1, budget })).rejects.toThrow('boom');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
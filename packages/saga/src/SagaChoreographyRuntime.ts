@@ -0,0 +1,302 @@
+import type { EventConsumer, EventEnvelope, EventPublisherPort } from '@marcusprado02/messaging';
+import type { SagaMonitor } from './SagaMonitor';
+import { SagaConcurrencyError } from './SagaStore';
+import type { SagaStore } from './SagaStore';
+import type { SagaState } from './types';
+
+/** How a choreographed saga reacts to one event type. */
+export interface ChoreographyReaction {
+  /** Event type the reaction handles. */
+  event: string;
+  /** Starts a new saga instance when the event is not correlated to one yet. */
+  starts?: boolean;
+  /** Follow-up commands or events to publish, e.g. `payment.charge` after `inventory.reserved`. */
+  react?: (envelope: EventEnvelope, saga: SagaState) => EventEnvelope[] | Promise<EventEnvelope[]>;
+  /** The saga completes successfully after this event. */
+  completes?: boolean;
+  /** The event reports a failure: the saga is compensated after this event. */
+  compensates?: boolean;
+}
+
+export interface ChoreographyDefinition {
+  name: string;
+  reactions: ChoreographyReaction[];
+  /** The saga is compensated when it has not completed this long after it started (ms). */
+  timeoutMs?: number;
+  /** Compensating events published when the saga fails or times out. */
+  compensate?: (saga: SagaState) => EventEnvelope[] | Promise<EventEnvelope[]>;
+}
+
+export interface SagaChoreographyRuntimeOptions {
+  /** How often deadlines are checked after `start()` (ms). Default: 1000. */
+  timeoutCheckIntervalMs?: number;
+  monitor?: SagaMonitor;
+  /** Times an event is re-applied after a {@link SagaConcurrencyError}. Default: 3. */
+  maxConflictRetries?: number;
+  /** Called when a deadline check started by `start()` fails; checking continues afterwards. */
+  onError?: (error: unknown) => void;
+}
+
+interface Route {
+  definition: ChoreographyDefinition;
+  reaction: ChoreographyReaction;
+}
+
+/** The saga an event belongs to; `created` until it has been saved for the first time. */
+interface CorrelatedSaga {
+  saga: SagaState;
+  created: boolean;
+}
+
+/**
+ * Runs choreographed sagas over a message broker.
+ *
+ * Events arrive through an {@link EventConsumer} and are correlated to saga
+ * instances by `metadata.sagaId`, falling back to `correlationId` (a starting
+ * event without either starts a saga under its own `eventId`). Progress is
+ * persisted in a {@link SagaStore}; follow-up envelopes are published through
+ * an {@link EventPublisherPort} carrying the saga id as `correlationId` and
+ * `metadata.sagaId`, so the services reacting to them keep the correlation.
+ *
+ * Each event advances a saga once: redelivered events (same `eventId`), and
+ * events for sagas that already finished, are ignored. Follow-ups are
+ * published before progress is saved, so a crash in between republishes them
+ * on redelivery.
+ *
+ * Every save passes the version the saga was loaded at. When another replica
+ * saved it first, the event is applied again to the fresh state, and a
+ * deadline is only compensated by the replica whose save wins.
+ *
+ * @example
+ * ```ts
+ * const runtime = new SagaChoreographyRuntime(consumer, publisher, store).register({
+ *   name: 'order-fulfilment',
+ *   timeoutMs: 60_000,
+ *   reactions: [
+ *     { event: 'order.placed', starts: true, react: (e) => [reserveStock(e)] },
+ *     { event: 'stock.reserved', react: (e) => [chargePayment(e)] },
+ *     { event: 'payment.charged', completes: true },
+ *     { event: 'payment.declined', compensates: true },
+ *   ],
+ *   compensate: (saga) => [releaseStock(saga.id)],
+ * });
+ * await runtime.start();
+ * ```
+ */
+export class SagaChoreographyRuntime {
+  private readonly routes = new Map<string, Route[]>();
+  private readonly definitions = new Map<string, ChoreographyDefinition>();
+  private readonly timeoutCheckIntervalMs: number;
+  private readonly maxConflictRetries: number;
+  private intervalHandle: ReturnType<typeof setInterval> | undefined;
+
+  constructor(
+    private readonly consumer: EventConsumer,
+    private readonly publisher: EventPublisherPort,
+    private readonly store: SagaStore,
+    private readonly options: SagaChoreographyRuntimeOptions = {},
+  ) {
+    this.timeoutCheckIntervalMs = options.timeoutCheckIntervalMs ?? 1000;
+    this.maxConflictRetries = options.maxConflictRetries ?? 3;
+  }
+
+  /**
+   * Subscribes to the event types of the definition. Call before {@link start}.
+   * A starting event names the saga it starts, so only one definition may
+   * start on each event type.
+   */
+  register(definition: ChoreographyDefinition): this {
+    if (this.definitions.has(definition.name)) {
+      throw new Error(`Choreography already registered: ${definition.name}`);
+    }
+    for (const { event, starts } of definition.reactions) {
+      const starter = this.routes.get(event)?.find((route) => route.reaction.starts === true);
+      if (starts === true && starter !== undefined) {
+        throw new Error(`Choreography ${starter.definition.name} already starts on ${event}`);
+      }
+    }
+    this.definitions.set(definition.name, definition);
+    for (const reaction of definition.reactions) {
+      const routes = this.routes.get(reaction.event);
+      if (routes !== undefined) {
+        routes.push({ definition, reaction });
+        continue;
+      }
+      this.routes.set(reaction.event, [{ definition, reaction }]);
+      this.consumer.subscribe(reaction.event, { handle: (envelope) => this.handle(envelope) });
+    }
+    return this;
+  }
+
+  /** Starts consuming and checking deadlines. */
+  async start(): Promise<void> {
+    await this.consumer.start();
+    this.intervalHandle ??= setInterval(() => {
+      this.checkTimeouts().catch((error: unknown) => this.options.onError?.(error));
+    }, this.timeoutCheckIntervalMs);
+  }
+
+  async stop(): Promise<void> {
+    clearInterval(this.intervalHandle);
+    this.intervalHandle = undefined;
+    await this.consumer.stop();
+  }
+
+  /** Delivers an envelope to the sagas it belongs to (the consumer's handler). */
+  async handle(envelope: EventEnvelope): Promise<void> {
+    for (const route of this.routes.get(envelope.eventType) ?? []) {
+      await this.withConflictRetries(() => this.advance(route, envelope));
+    }
+  }
+
+  /**
+   * Compensates running sagas past their deadline; returns how many timed
+   * out. Sagas another replica saved meanwhile are left to that replica.
+   */
+  async checkTimeouts(now = new Date()): Promise<number> {
+    let expired = 0;
+    for (const saga of await this.store.findByStatus('running')) {
+      const definition = this.definitions.get(saga.name);
+      if (definition === undefined || saga.deadline === undefined || saga.deadline > now) continue;
+      try {
+        await this.compensate(definition, saga, `Saga timed out after ${definition.timeoutMs}ms`);
+      } catch (error) {
+        if (error instanceof SagaConcurrencyError) continue;
+        throw error;
+      }
+      expired++;
+    }
+    return expired;
+  }
+
+  private async advance(route: Route, envelope: EventEnvelope): Promise<void> {
+    const { definition, reaction } = route;
+    const correlated = await this.sagaFor(route, envelope);
+    if (correlated === undefined) return;
+    const { saga, created } = correlated;
+    if (saga.name !== definition.name || saga.status !== 'running') return;
+    if (saga.steps?.some((step) => step.eventId === envelope.eventId) === true) return;
+
+    const followUps = (await reaction.react?.(envelope, saga)) ?? [];
+    await this.publish(followUps, saga.id, envelope);
+
+    const saved = await this.save(completeStep(saga, envelope, reaction.completes === true));
+    if (created) this.options.monitor?.onSagaStarted(saga.id);
+    if (reaction.completes === true) this.options.monitor?.onSagaCommitted(saga.id);
+    if (reaction.compensates === true) {
+      await this.compensate(definition, saved, `Failed at ${envelope.eventType}`);
+    }
+  }
+
+  /** Loads the correlated saga, or creates it for a starting event. */
+  private async sagaFor(
+    route: Route,
+    envelope: EventEnvelope,
+  ): Promise<CorrelatedSaga | undefined> {
+    const starts = route.reaction.starts === true;
+    const sagaId = correlationOf(envelope) ?? (starts ? envelope.eventId : undefined);
+    if (sagaId === undefined) return undefined;
+    const existing = await this.store.findById(sagaId);
+    if (existing !== undefined) return { saga: existing, created: false };
+    if (!starts) return undefined;
+
+    const now = new Date();
+    const { timeoutMs } = route.definition;
+    const saga: SagaState = {
+      id: sagaId,
+      name: route.definition.name,
+      status: 'running',
+      startedAt: now,
+      updatedAt: now,
+      completedSteps: 0,
+      steps: [],
+      ...(timeoutMs !== undefined && { deadline: new Date(now.getTime() + timeoutMs) }),
+    };
+    return { saga, created: true };
+  }
+
+  private async compensate(
+    definition: ChoreographyDefinition,
+    saga: SagaState,
+    reason: string,
+  ): Promise<void> {
+    const compensating = await this.save({
+      ...saga,
+      status: 'compensating',
+      error: reason,
+      updatedAt: new Date(),
+    });
+    try {
+      await this.publish((await definition.compensate?.(compensating)) ?? [], saga.id);
+    } catch (error) {
+      await this.save({ ...compensating, status: 'failed', updatedAt: new Date() });
+      this.options.monitor?.onSagaFailed(saga.id, error);
+      return;
+    }
+    await this.save({ ...compensating, status: 'compensated', updatedAt: new Date() });
+    this.options.monitor?.onSagaCompensated(saga.id);
+  }
+
+  /** Saves `state` as the version after the one it was loaded at. */
+  private async save(state: SagaState): Promise<SagaState> {
+    const expectedVersion = state.version ?? 0;
+    const saved = { ...state, version: expectedVersion + 1 };
+    await this.store.save(saved, expectedVersion);
+    return saved;
+  }
+
+  private async withConflictRetries(task: () => Promise<void>): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await task();
+        return;
+      } catch (error) {
+        if (!(error instanceof SagaConcurrencyError) || attempt >= this.maxConflictRetries) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private async publish(
+    envelopes: EventEnvelope[],
+    sagaId: string,
+    cause?: EventEnvelope,
+  ): Promise<void> {
+    if (envelopes.length === 0) return;
+    await this.publisher.publishBatch(
+      envelopes.map((envelope) => ({
+        ...envelope,
+        correlationId: sagaId,
+        ...(cause !== undefined && { causationId: cause.eventId }),
+        metadata: { ...envelope.metadata, sagaId },
+      })),
+    );
+  }
+}
+
+/** The saga after `envelope` completed a step, committed when the event completes it. */
+function completeStep(saga: SagaState, envelope: EventEnvelope, completes: boolean): SagaState {
+  const now = new Date();
+  return {
+    ...saga,
+    ...(completes && { status: 'committed' as const }),
+    updatedAt: now,
+    completedSteps: saga.completedSteps + 1,
+    steps: [
+      ...(saga.steps ?? []),
+      {
+        name: envelope.eventType,
+        eventId: envelope.eventId,
+        status: 'completed',
+        attempts: 1,
+        updatedAt: now,
+      },
+    ],
+  };
+}
+
+function correlationOf(envelope: EventEnvelope): string | undefined {
+  const sagaId = envelope.metadata?.['sagaId'];
+  return typeof sagaId === 'string' ? sagaId : envelope.correlationId;
+}
@@ -1,4 +1,5 @@
-import type { SagaMetrics, SagaEventRecord } from './types';
+import type { SagaStore } from './SagaStore';
+import type { SagaMetrics, SagaEventRecord, SagaState } from './types';
 
 export class SagaMonitor {
   private metrics: SagaMetrics = { started: 0, committed: 0, compensated: 0, failed: 0 };
@@ -25,6 +26,12 @@ export class SagaMonitor {
     this.events.push({ sagaId, event: 'failed', timestamp: new Date(), error: errorMsg });
   }
 
+  /** A saga left as it was, e.g. one `resumeAll` has no definition for. */
+  onSagaSkipped(sagaId: string, error: unknown): void {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    this.events.push({ sagaId, event: 'skipped', timestamp: new Date(), error: errorMsg });
+  }
+
   getMetrics(): Readonly<SagaMetrics> {
     return { ...this.metrics };
   }
@@ -33,8 +40,24 @@ export class SagaMonitor {
     return [...this.events];
   }
 
+  /** In-flight (`running` / `compensating`) sagas that have not progressed for `maxIdleMs`. */
+  async getStuckSagas(store: SagaStore, maxIdleMs: number, now = new Date()): Promise<SagaState[]> {
+    const inFlight = await findInFlight(store);
+    return inFlight.filter((saga) => now.getTime() - saga.updatedAt.getTime() >= maxIdleMs);
+  }
+
+  /** In-flight sagas started more than `maxAgeMs` ago, however recently they progressed. */
+  async getAgedSagas(store: SagaStore, maxAgeMs: number, now = new Date()): Promise<SagaState[]> {
+    const inFlight = await findInFlight(store);
+    return inFlight.filter((saga) => now.getTime() - saga.startedAt.getTime() >= maxAgeMs);
+  }
+
   reset(): void {
     this.metrics = { started: 0, committed: 0, compensated: 0, failed: 0 };
     this.events.length = 0;
   }
 }
+
+async function findInFlight(store: SagaStore): Promise<SagaState[]> {
+  return [...(await store.findByStatus('running')), ...(await store.findByStatus('compensating'))];
+}
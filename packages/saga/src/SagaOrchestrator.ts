@@ -0,0 +1,330 @@
+import type { SagaMonitor } from './SagaMonitor';
+import { SagaConcurrencyError } from './SagaStore';
+import type { SagaStore } from './SagaStore';
+import type {
+  SagaDefinition,
+  SagaRetryPolicy,
+  SagaState,
+  SagaStepContext,
+  SagaStepDefinition,
+  SagaStepState,
+} from './types';
+
+export class SagaDefinitionNotFoundError extends Error {
+  constructor(name: string) {
+    super(`No saga definition registered under: ${name}`);
+    this.name = 'SagaDefinitionNotFoundError';
+  }
+}
+
+export class SagaNotFoundError extends Error {
+  constructor(sagaId: string) {
+    super(`Saga not found: ${sagaId}`);
+    this.name = 'SagaNotFoundError';
+  }
+}
+
+export interface SagaOrchestratorOptions {
+  /** Receives started/committed/compensated/failed notifications. */
+  monitor?: SagaMonitor;
+  /** Generates ids for sagas started without one. Default: `crypto.randomUUID()`. */
+  generateId?: () => string;
+}
+
+const SINGLE_ATTEMPT: SagaRetryPolicy = { maxAttempts: 1 };
+
+type Attempt = { ok: true; output: unknown } | { ok: false; error: unknown };
+
+/**
+ * Runs {@link SagaDefinition}s and persists every step transition to a
+ * {@link SagaStore}, so a saga interrupted by a crash can be picked up again
+ * with {@link resume} / {@link resumeAll}.
+ *
+ * Steps run in order, each retried according to its policy. When a step
+ * fails for good, the completed steps are compensated in reverse order. A
+ * compensation that still fails after its retries stops the rollback and
+ * leaves the saga `failed`, with the step marked `compensation-failed`;
+ * once the cause is fixed, {@link retryCompensation} continues from there.
+ *
+ * Steps run at least once: an action interrupted by a crash reruns on
+ * resume, so actions and compensations must be idempotent.
+ *
+ * Every save passes the version the saga was loaded at, and a step is saved
+ * as running before its action starts. A replica whose save is rejected with
+ * a {@link SagaConcurrencyError} has lost the saga to another replica.
+ *
+ * @example
+ * ```ts
+ * const orchestrator = new SagaOrchestrator(store).register<PlaceOrder>({
+ *   name: 'place-order',
+ *   retry: { maxAttempts: 3, delayMs: 200, backoffMultiplier: 2 },
+ *   steps: [
+ *     {
+ *       name: 'reserve-stock',
+ *       action: ({ input }) => inventory.reserve(input.items),
+ *       compensation: (_ctx, reservationId) => inventory.release(reservationId as string),
+ *     },
+ *     { name: 'charge', action: ({ input }) => payments.charge(input.total) },
+ *   ],
+ * });
+ *
+ * await orchestrator.resumeAll(); // on startup
+ * const state = await orchestrator.start('place-order', { items, total });
+ * ```
+ */
+export class SagaOrchestrator {
+  private readonly definitions = new Map<string, SagaDefinition<never>>();
+  private readonly generateId: () => string;
+
+  constructor(
+    private readonly store: SagaStore,
+    private readonly options: SagaOrchestratorOptions = {},
+  ) {
+    this.generateId = options.generateId ?? ((): string => crypto.randomUUID());
+  }
+
+  register<TInput>(definition: SagaDefinition<TInput>): this {
+    const names = new Set(definition.steps.map((step) => step.name));
+    if (names.size !== definition.steps.length) {
+      throw new Error(`Saga ${definition.name} has duplicate step names`);
+    }
+    this.definitions.set(definition.name, definition as SagaDefinition<never>);
+    return this;
+  }
+
+  /** Starts a saga and runs it until it is committed, compensated or failed. */
+  async start<TInput>(name: string, input: TInput, sagaId = this.generateId()): Promise<SagaState> {
+    const definition = this.definitionOf(name);
+    const now = new Date();
+    const state = await this.save({
+      id: sagaId,
+      name,
+      status: 'running',
+      startedAt: now,
+      updatedAt: now,
+      completedSteps: 0,
+      input,
+      steps: [],
+    });
+    this.options.monitor?.onSagaStarted(sagaId);
+    return this.run(definition, state);
+  }
+
+  /** Continues a `running` or `compensating` saga from its last persisted step. */
+  async resume(sagaId: string): Promise<SagaState> {
+    const state = await this.load(sagaId);
+    return this.run(this.definitionOf(state.name), state);
+  }
+
+  /**
+   * Resumes every in-flight saga; call once on startup. A saga whose
+   * definition is no longer registered, or that another replica saved first,
+   * is left as it is and reported to the monitor as skipped, so it does not
+   * hold back the others.
+   */
+  async resumeAll(): Promise<SagaState[]> {
+    const inFlight = [
+      ...(await this.store.findByStatus('running')),
+      ...(await this.store.findByStatus('compensating')),
+    ];
+    const resumed: SagaState[] = [];
+    for (const state of inFlight) {
+      const definition = this.definitions.get(state.name);
+      if (definition === undefined) {
+        this.options.monitor?.onSagaSkipped(state.id, new SagaDefinitionNotFoundError(state.name));
+        continue;
+      }
+      try {
+        resumed.push(await this.run(definition, state));
+      } catch (error) {
+        if (!(error instanceof SagaConcurrencyError)) throw error;
+        this.options.monitor?.onSagaSkipped(state.id, error);
+      }
+    }
+    return resumed;
+  }
+
+  /** Operator action: continues the rollback of a saga left `failed` by a compensation. */
+  async retryCompensation(sagaId: string): Promise<SagaState> {
+    const state = await this.load(sagaId);
+    if (state.status !== 'failed') return state;
+    return this.run(this.definitionOf(state.name), { ...state, status: 'compensating' });
+  }
+
+  private async run(definition: SagaDefinition<never>, state: SagaState): Promise<SagaState> {
+    let current = state;
+    if (current.status === 'running') current = await this.forward(definition, current);
+    if (current.status === 'compensating') current = await this.compensate(definition, current);
+    return current;
+  }
+
+  private async forward(definition: SagaDefinition<never>, state: SagaState): Promise<SagaState> {
+    let current = state;
+    for (const step of definition.steps) {
+      const record = stepOf(current, step.name);
+      if (record?.status === 'completed') continue;
+
+      let attempts = record?.attempts ?? 0;
+      const result = await this.attempt(policyOf(definition, step), async (attempt) => {
+        attempts++;
+        current = await this.saveStep(current, step.name, { status: 'running', attempts });
+        return step.action(contextOf(current, attempt));
+      });
+
+      if (!result.ok) {
+        const error = messageOf(result.error);
+        current = await this.saveStep(
+          current,
+          step.name,
+          { status: 'failed', attempts, error },
+          {
+            status: 'compensating',
+            error,
+          },
+        );
+        return current;
+      }
+      current = await this.saveStep(
+        current,
+        step.name,
+        { status: 'completed', attempts, output: result.output },
+        { completedSteps: current.completedSteps + 1 },
+      );
+    }
+    current = await this.save({ ...current, status: 'committed' });
+    this.options.monitor?.onSagaCommitted(current.id);
+    return current;
+  }
+
+  private async compensate(
+    definition: SagaDefinition<never>,
+    state: SagaState,
+  ): Promise<SagaState> {
+    let current = state;
+    for (const step of [...definition.steps].reverse()) {
+      const record = stepOf(current, step.name);
+      if (record === undefined || !needsCompensation(record)) continue;
+
+      const compensation = step.compensation;
+      const result =
+        compensation === undefined
+          ? ({ ok: true, output: undefined } as const)
+          : await this.attempt(policyOf(definition, step), async (attempt) => {
+              current = await this.saveStep(current, step.name, { status: 'compensating' });
+              await compensation(contextOf(current, attempt), record.output);
+            });
+
+      if (!result.ok) {
+        const error = `Compensation of step ${step.name} failed: ${messageOf(result.error)}`;
+        current = await this.saveStep(
+          current,
+          step.name,
+          { status: 'compensation-failed', error: messageOf(result.error) },
+          { status: 'failed', error },
+        );
+        this.options.monitor?.onSagaFailed(current.id, result.error);
+        return current;
+      }
+      current = await this.saveStep(current, step.name, { status: 'compensated' });
+    }
+    current = await this.save({ ...current, status: 'compensated' });
+    this.options.monitor?.onSagaCompensated(current.id);
+    return current;
+  }
+
+  private async attempt(
+    policy: SagaRetryPolicy,
+    fn: (attempt: number) => Promise<unknown>,
+  ): Promise<Attempt> {
+    let delayMs = policy.delayMs ?? 0;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return { ok: true, output: await fn(attempt) };
+      } catch (error) {
+        const retryable = policy.retryable?.(error) ?? true;
+        if (attempt >= policy.maxAttempts || !retryable) return { ok: false, error };
+        await sleep(delayMs);
+        delayMs *= policy.backoffMultiplier ?? 1;
+      }
+    }
+  }
+
+  private async saveStep(
+    state: SagaState,
+    name: string,
+    changes: Partial<Omit<SagaStepState, 'name' | 'updatedAt'>>,
+    sagaChanges: Partial<SagaState> = {},
+  ): Promise<SagaState> {
+    const now = new Date();
+    const steps = state.steps ?? [];
+    const existing = steps.find((step) => step.name === name);
+    const updated: SagaStepState = {
+      ...(existing ?? { name, status: 'running', attempts: 0 }),
+      ...changes,
+      updatedAt: now,
+    };
+    return this.save({
+      ...state,
+      ...sagaChanges,
+      steps:
+        existing === undefined
+          ? [...steps, updated]
+          : steps.map((step) => (step === existing ? updated : step)),
+    });
+  }
+
+  /** Saves `state` as the version after the one it was loaded at. */
+  private async save(state: SagaState): Promise<SagaState> {
+    const expectedVersion = state.version ?? 0;
+    const saved = { ...state, version: expectedVersion + 1, updatedAt: new Date() };
+    await this.store.save(saved, expectedVersion);
+    return saved;
+  }
+
+  private async load(sagaId: string): Promise<SagaState> {
+    const state = await this.store.findById(sagaId);
+    if (state === undefined) throw new SagaNotFoundError(sagaId);
+    return state;
+  }
+
+  private definitionOf(name: string): SagaDefinition<never> {
+    const definition = this.definitions.get(name);
+    if (definition === undefined) throw new SagaDefinitionNotFoundError(name);
+    return definition;
+  }
+}
+
+function stepOf(state: SagaState, name: string): SagaStepState | undefined {
+  return state.steps?.find((step) => step.name === name);
+}
+
+function needsCompensation(step: SagaStepState): boolean {
+  return (
+    step.status === 'completed' ||
+    step.status === 'compensating' ||
+    step.status === 'compensation-failed'
+  );
+}
+
+function policyOf(
+  definition: SagaDefinition<never>,
+  step: SagaStepDefinition<never>,
+): SagaRetryPolicy {
+  return step.retry ?? definition.retry ?? SINGLE_ATTEMPT;
+}
+
+function contextOf(state: SagaState, attempt: number): SagaStepContext<never> {
+  const outputs: Record<string, unknown> = {};
+  for (const step of state.steps ?? []) {
+    if (step.status !== 'running' && step.status !== 'failed') outputs[step.name] = step.output;
+  }
+  return { sagaId: state.id, input: state.input as never, outputs, attempt };
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
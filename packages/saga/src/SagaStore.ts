@@ -1,7 +1,30 @@
 import type { SagaState, SagaStatus } from './types';
 
+/**
+ * Thrown by a {@link SagaStore} when a saga is saved with an `expectedVersion`
+ * that no longer matches the stored one — another replica saved the saga in
+ * the meantime.
+ */
+export class SagaConcurrencyError extends Error {
+  constructor(
+    readonly sagaId: string,
+    readonly expectedVersion: number,
+    readonly actualVersion: number,
+  ) {
+    super(
+      `Saga '${sagaId}' was modified concurrently: expected version ${expectedVersion}, found ${actualVersion}`,
+    );
+    this.name = 'SagaConcurrencyError';
+  }
+}
+
 export interface SagaStore {
-  save(state: SagaState): Promise<void>;
+  /**
+   * Saves the state. When `expectedVersion` is given, the save is rejected
+   * with a {@link SagaConcurrencyError} unless the stored state is still at
+   * that version (`0` for a saga that was never saved).
+   */
+  save(state: SagaState, expectedVersion?: number): Promise<void>;
   findById(id: string): Promise<SagaState | undefined>;
   findByStatus(status: SagaStatus): Promise<SagaState[]>;
   delete(id: string): Promise<void>;
@@ -10,20 +33,22 @@ export interface SagaStore {
 export class InMemorySagaStore implements SagaStore {
   private readonly store = new Map<string, SagaState>();
 
-  save(state: SagaState): Promise<void> {
-    this.store.set(state.id, { ...state });
+  save(state: SagaState, expectedVersion?: number): Promise<void> {
+    const actualVersion = this.store.get(state.id)?.version ?? 0;
+    if (expectedVersion !== undefined && actualVersion !== expectedVersion) {
+      return Promise.reject(new SagaConcurrencyError(state.id, expectedVersion, actualVersion));
+    }
+    this.store.set(state.id, copyState(state));
     return Promise.resolve();
   }
 
   findById(id: string): Promise<SagaState | undefined> {
     const state = this.store.get(id);
-    return Promise.resolve(state !== undefined ? { ...state } : undefined);
+    return Promise.resolve(state !== undefined ? copyState(state) : undefined);
   }
 
   findByStatus(status: SagaStatus): Promise<SagaState[]> {
-    const results = [...this.store.values()]
-      .filter((s) => s.status === status)
-      .map((s) => ({ ...s }));
+    const results = [...this.store.values()].filter((s) => s.status === status).map(copyState);
     return Promise.resolve(results);
   }
 
@@ -36,3 +61,9 @@ export class InMemorySagaStore implements SagaStore {
     return this.store.size;
   }
 }
+
+function copyState(state: SagaState): SagaState {
+  return state.steps === undefined
+    ? { ...state }
+    : { ...state, steps: state.steps.map((step) => ({ ...step })) };
+}
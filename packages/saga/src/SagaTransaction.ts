@@ -18,6 +18,7 @@ export class SagaTransaction {
   private readonly startedAt: number;
   private readonly timeoutMs: number | undefined;
   private readonly completedSteps: SagaStepRecord[] = [];
+  private readonly _compensationErrors: { step: string; error: unknown }[] = [];
   private _status: SagaStatus = 'running';
 
   constructor(options?: SagaTransactionOptions) {
@@ -33,6 +34,11 @@ export class SagaTransaction {
     return this.completedSteps.length;
   }
 
+  /** Compensations that threw during the last rollback, in the order they ran. */
+  get compensationErrors(): readonly { step: string; error: unknown }[] {
+    return [...this._compensationErrors];
+  }
+
   async step<T>(
     name: string,
     action: () => Promise<T>,
@@ -52,10 +58,17 @@ export class SagaTransaction {
     this._status = 'committed';
   }
 
+  /**
+   * Runs the compensations in reverse order. A failing compensation does not
+   * stop the others; it is recorded in {@link compensationErrors} and leaves
+   * the transaction `failed` instead of `compensated`. Use
+   * {@link SagaOrchestrator} when such failures must survive a restart.
+   */
   async rollback(): Promise<void> {
     this._status = 'compensating';
+    this._compensationErrors.length = 0;
     await this.runCompensations();
-    this._status = 'compensated';
+    this._status = this._compensationErrors.length > 0 ? 'failed' : 'compensated';
   }
 
   private async runCompensations(): Promise<void> {
@@ -65,12 +78,12 @@ export class SagaTransaction {
     }
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   private async runOneCompensation(step: SagaStepRecord): Promise<void> {
     try {
       await step.compensation();
-    } catch {
+    } catch (error) {
       // compensation failure is recorded but we continue compensating remaining steps
+      this._compensationErrors.push({ step: step.name, error });
     }
   }
 }
@@ -8,10 +8,28 @@ export type {
   ChoreographyEvent,
   ChoreographyHandler,
   SagaEventRecord,
+  SagaStepStatus,
+  SagaStepState,
+  SagaRetryPolicy,
+  SagaStepContext,
+  SagaStepDefinition,
+  SagaDefinition,
 } from './types';
 export { SagaTransaction, SagaTimeoutError, SagaStepError } from './SagaTransaction';
 export { Saga, sagaOk, sagaErr } from './Saga';
 export { SagaChoreography } from './SagaChoreography';
 export type { SagaStore } from './SagaStore';
-export { InMemorySagaStore } from './SagaStore';
+export { InMemorySagaStore, SagaConcurrencyError } from './SagaStore';
 export { SagaMonitor } from './SagaMonitor';
+export {
+  SagaOrchestrator,
+  SagaDefinitionNotFoundError,
+  SagaNotFoundError,
+} from './SagaOrchestrator';
+export type { SagaOrchestratorOptions } from './SagaOrchestrator';
+export { SagaChoreographyRuntime } from './SagaChoreographyRuntime';
+export type {
+  ChoreographyDefinition,
+  ChoreographyReaction,
+  SagaChoreographyRuntimeOptions,
+} from './SagaChoreographyRuntime';
@@ -13,7 +13,15 @@ import { Saga, sagaOk, sagaErr } from './Saga';
 import { SagaChoreography } from './SagaChoreography';
 import { InMemorySagaStore } from './SagaStore';
 import { SagaMonitor } from './SagaMonitor';
-import type { SagaResult, ChoreographyEvent, SagaState } from './types';
+import {
+  SagaOrchestrator,
+  SagaDefinitionNotFoundError,
+  SagaNotFoundError,
+} from './SagaOrchestrator';
+import type { SagaResult, ChoreographyEvent, SagaState, SagaDefinition } from './types';
+import { SagaChoreographyRuntime } from './SagaChoreographyRuntime';
+import type { ChoreographyDefinition } from './SagaChoreographyRuntime';
+import type { EventConsumer, EventEnvelope, EventHandler } from '@marcusprado02/messaging';
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
@@ -232,6 +240,20 @@ describe('SagaTransaction', () => {
     expect(log).toContain('c3');
   });
 
+  it('rollback() records compensation failures and ends failed', async () => {
+    const tx = new SagaTransaction();
+    await tx.step(
+      's1',
+      async () => 1,
+      async () => {
+        throw new Error('comp fail');
+      },
+    );
+    await tx.rollback();
+    expect(tx.status).toBe('failed');
+    expect(tx.compensationErrors).toEqual([{ step: 's1', error: new Error('comp fail') }]);
+  });
+
   it('compensation receives the step result value', async () => {
     let capturedValue = '';
     const tx = new SagaTransaction();
@@ -615,3 +637,540 @@ describe('SagaMonitor', () => {
     expect(events).toEqual(['started', 'committed']);
   });
 });
+
+// ── SagaOrchestrator ─────────────────────────────────────────────────────────
+
+interface PlaceOrder {
+  orderId: string;
+}
+
+function placeOrder(overrides?: {
+  charge?: () => Promise<unknown>;
+  release?: () => Promise<void>;
+  retry?: SagaDefinition['retry'];
+}): { definition: SagaDefinition<PlaceOrder>; calls: string[] } {
+  const calls: string[] = [];
+  const definition: SagaDefinition<PlaceOrder> = {
+    name: 'place-order',
+    ...(overrides?.retry !== undefined && { retry: overrides.retry }),
+    steps: [
+      {
+        name: 'reserve',
+        action: async ({ input }) => {
+          calls.push(`reserve:${input.orderId}`);
+          return 'reservation-1';
+        },
+        compensation: async (_ctx, output) => {
+          calls.push(`release:${String(output)}`);
+          await overrides?.release?.();
+        },
+      },
+      {
+        name: 'charge',
+        action: async ({ outputs }) => {
+          calls.push(`charge:${String(outputs['reserve'])}`);
+          return overrides?.charge?.() ?? 'payment-1';
+        },
+      },
+    ],
+  };
+  return { definition, calls };
+}
+
+describe('SagaOrchestrator', () => {
+  it('runs the steps in order and persists their outputs', async () => {
+    const store = new InMemorySagaStore();
+    const { definition, calls } = placeOrder();
+    const orchestrator = new SagaOrchestrator(store).register(definition);
+
+    const state = await orchestrator.start('place-order', { orderId: 'o-1' }, 'saga-1');
+
+    expect(calls).toEqual(['reserve:o-1', 'charge:reservation-1']);
+    expect(state.status).toBe('committed');
+    expect(state.completedSteps).toBe(2);
+    const stored = await store.findById('saga-1');
+    expect(stored?.steps?.map((s) => [s.name, s.status, s.output])).toEqual([
+      ['reserve', 'completed', 'reservation-1'],
+      ['charge', 'completed', 'payment-1'],
+    ]);
+  });
+
+  it('retries a failing step according to its policy', async () => {
+    const charge = vi.fn().mockRejectedValueOnce(new Error('timeout')).mockResolvedValue('p-1');
+    const { definition } = placeOrder({ charge, retry: { maxAttempts: 3 } });
+    const orchestrator = new SagaOrchestrator(new InMemorySagaStore()).register(definition);
+
+    const state = await orchestrator.start('place-order', { orderId: 'o-1' });
+
+    expect(state.status).toBe('committed');
+    expect(state.steps?.[1]).toMatchObject({ attempts: 2, output: 'p-1' });
+  });
+
+  it('does not retry errors the policy marks as permanent', async () => {
+    const charge = vi.fn().mockRejectedValue(new Error('card declined'));
+    const { definition } = placeOrder({
+      charge,
+      retry: { maxAttempts: 5, retryable: (e) => (e as Error).message !== 'card declined' },
+    });
+    const orchestrator = new SagaOrchestrator(new InMemorySagaStore()).register(definition);
+
+    await orchestrator.start('place-order', { orderId: 'o-1' });
+
+    expect(charge).toHaveBeenCalledTimes(1);
+  });
+
+  it('compensates completed steps in reverse order when a step fails', async () => {
+    const monitor = new SagaMonitor();
+    const { definition, calls } = placeOrder({
+      charge: () => Promise.reject(new Error('declined')),
+    });
+    const orchestrator = new SagaOrchestrator(new InMemorySagaStore(), { monitor }).register(
+      definition,
+    );
+
+    const state = await orchestrator.start('place-order', { orderId: 'o-1' });
+
+    expect(calls).toEqual(['reserve:o-1', 'charge:reservation-1', 'release:reservation-1']);
+    expect(state.status).toBe('compensated');
+    expect(state.error).toBe('declined');
+    expect(state.steps?.map((s) => s.status)).toEqual(['compensated', 'failed']);
+    expect(monitor.getMetrics()).toMatchObject({ started: 1, compensated: 1 });
+  });
+
+  it('marks the saga failed when a compensation fails, until an operator retries it', async () => {
+    const release = vi.fn().mockRejectedValueOnce(new Error('inventory offline'));
+    const monitor = new SagaMonitor();
+    const store = new InMemorySagaStore();
+    const { definition } = placeOrder({
+      charge: () => Promise.reject(new Error('declined')),
+      release,
+    });
+    const orchestrator = new SagaOrchestrator(store, { monitor }).register(definition);
+
+    const failed = await orchestrator.start('place-order', { orderId: 'o-1' }, 'saga-1');
+
+    expect(failed.status).toBe('failed');
+    expect(failed.error).toBe('Compensation of step reserve failed: inventory offline');
+    expect(failed.steps?.[0]?.status).toBe('compensation-failed');
+    expect(monitor.getMetrics().failed).toBe(1);
+    expect(await orchestrator.resumeAll()).toEqual([]);
+
+    const retried = await orchestrator.retryCompensation('saga-1');
+    expect(retried.status).toBe('compensated');
+    expect((await store.findById('saga-1'))?.steps?.[0]?.status).toBe('compensated');
+  });
+
+  it('resumes an interrupted saga from its last persisted step', async () => {
+    const store = new InMemorySagaStore();
+    await store.save(
+      makeState({
+        id: 'saga-1',
+        name: 'place-order',
+        completedSteps: 1,
+        input: { orderId: 'o-1' },
+        steps: [
+          {
+            name: 'reserve',
+            status: 'completed',
+            attempts: 1,
+            output: 'r-9',
+            updatedAt: new Date(),
+          },
+          { name: 'charge', status: 'running', attempts: 1, updatedAt: new Date() },
+        ],
+      }),
+    );
+    const { definition, calls } = placeOrder();
+    const orchestrator = new SagaOrchestrator(store).register(definition);
+
+    const [resumed] = await orchestrator.resumeAll();
+
+    expect(calls).toEqual(['charge:r-9']);
+    expect(resumed?.status).toBe('committed');
+    expect(resumed?.steps?.[1]?.attempts).toBe(2);
+  });
+
+  it('skips and reports in-flight sagas whose definition is no longer registered', async () => {
+    const store = new InMemorySagaStore();
+    await store.save(makeState({ id: 'saga-1', name: 'retired-saga' }));
+    await store.save(makeState({ id: 'saga-2', name: 'place-order', input: { orderId: 'o-2' } }));
+    const monitor = new SagaMonitor();
+    const { definition } = placeOrder();
+    const orchestrator = new SagaOrchestrator(store, { monitor }).register(definition);
+
+    const resumed = await orchestrator.resumeAll();
+
+    expect(resumed.map((s) => [s.id, s.status])).toEqual([['saga-2', 'committed']]);
+    expect((await store.findById('saga-1'))?.status).toBe('running');
+    expect(monitor.getEvents()).toContainEqual(
+      expect.objectContaining({
+        sagaId: 'saga-1',
+        event: 'skipped',
+        error: 'No saga definition registered under: retired-saga',
+      }),
+    );
+  });
+
+  it('resumes an in-flight saga on one replica when several resume at once', async () => {
+    const store = new InMemorySagaStore();
+    await store.save(makeState({ id: 'saga-1', name: 'place-order', input: { orderId: 'o-1' } }));
+    const replicas = [placeOrder(), placeOrder()];
+    const monitor = new SagaMonitor();
+    const orchestrators = replicas.map(({ definition }) =>
+      new SagaOrchestrator(store, { monitor }).register(definition),
+    );
+
+    const resumed = await Promise.all(orchestrators.map((o) => o.resumeAll()));
+
+    expect(resumed.map((states) => states.map((s) => s.status))).toEqual([['committed'], []]);
+    expect(replicas.flatMap(({ calls }) => calls)).toEqual(['reserve:o-1', 'charge:reservation-1']);
+    expect(monitor.getEvents()).toContainEqual(
+      expect.objectContaining({ sagaId: 'saga-1', event: 'skipped' }),
+    );
+    expect((await store.findById('saga-1'))?.version).toBe(5);
+  });
+
+  it('resumes a saga that crashed while compensating', async () => {
+    const store = new InMemorySagaStore();
+    await store.save(
+      makeState({
+        id: 'saga-1',
+        name: 'place-order',
+        status: 'compensating',
+        input: { orderId: 'o-1' },
+        steps: [
+          {
+            name: 'reserve',
+            status: 'compensating',
+            attempts: 1,
+            output: 'r-9',
+            updatedAt: new Date(),
+          },
+          { name: 'charge', status: 'failed', attempts: 1, updatedAt: new Date() },
+        ],
+      }),
+    );
+    const { definition, calls } = placeOrder();
+    const orchestrator = new SagaOrchestrator(store).register(definition);
+
+    const resumed = await orchestrator.resume('saga-1');
+
+    expect(calls).toEqual(['release:r-9']);
+    expect(resumed.status).toBe('compensated');
+  });
+
+  it('rejects unknown sagas and definitions', async () => {
+    const orchestrator = new SagaOrchestrator(new InMemorySagaStore());
+    await expect(orchestrator.start('nope', {})).rejects.toBeInstanceOf(
+      SagaDefinitionNotFoundError,
+    );
+    await expect(orchestrator.resume('missing')).rejects.toBeInstanceOf(SagaNotFoundError);
+  });
+});
+
+function envelope(eventType: string, overrides?: Partial<EventEnvelope>): EventEnvelope {
+  return {
+    eventId: `${eventType}-id`,
+    eventType,
+    eventVersion: '1',
+    timestamp: new Date().toISOString(),
+    payload: {},
+    ...overrides,
+  };
+}
+
+function fakeBroker() {
+  const handlers = new Map<string, EventHandler[]>();
+  const published: EventEnvelope[] = [];
+  const consumer: EventConsumer = {
+    subscribe: (eventType, handler) => {
+      handlers.set(eventType, [...(handlers.get(eventType) ?? []), handler as EventHandler]);
+    },
+    start: vi.fn(async () => undefined),
+    stop: vi.fn(async () => undefined),
+  };
+  const publisher = {
+    publish: vi.fn(async (e: EventEnvelope) => {
+      published.push(e);
+    }),
+    publishBatch: vi.fn(async (es: EventEnvelope[]) => {
+      published.push(...es);
+    }),
+  };
+  const deliver = async (e: EventEnvelope) => {
+    for (const handler of handlers.get(e.eventType) ?? []) await handler.handle(e);
+  };
+  return { consumer, publisher, published, handlers, deliver };
+}
+
+function fulfilment(overrides?: Partial<ChoreographyDefinition>): ChoreographyDefinition {
+  return {
+    name: 'fulfilment',
+    timeoutMs: 60_000,
+    reactions: [
+      { event: 'order.placed', starts: true, react: () => [envelope('stock.reserve')] },
+      { event: 'stock.reserved', react: () => [envelope('payment.charge')] },
+      { event: 'payment.charged', completes: true },
+      { event: 'payment.declined', compensates: true },
+    ],
+    compensate: () => [envelope('stock.release')],
+    ...overrides,
+  };
+}
+
+describe('SagaChoreographyRuntime', () => {
+  it('starts a saga, publishes follow-ups with its correlation and commits it', async () => {
+    const broker = fakeBroker();
+    const store = new InMemorySagaStore();
+    const monitor = new SagaMonitor();
+    new SagaChoreographyRuntime(broker.consumer, broker.publisher, store, { monitor }).register(
+      fulfilment(),
+    );
+
+    await broker.deliver(envelope('order.placed', { eventId: 'evt-1' }));
+    await broker.deliver(envelope('stock.reserved', { eventId: 'evt-2', correlationId: 'evt-1' }));
+    await broker.deliver(
+      envelope('payment.charged', { eventId: 'evt-3', metadata: { sagaId: 'evt-1' } }),
+    );
+
+    expect(broker.published.map((e) => e.eventType)).toEqual(['stock.reserve', 'payment.charge']);
+    expect(broker.published[1]).toMatchObject({
+      correlationId: 'evt-1',
+      causationId: 'evt-2',
+      metadata: { sagaId: 'evt-1' },
+    });
+    const saga = await store.findById('evt-1');
+    expect(saga?.status).toBe('committed');
+    expect(saga?.completedSteps).toBe(3);
+    expect(saga?.deadline).toBeInstanceOf(Date);
+    expect(monitor.getMetrics()).toMatchObject({ started: 1, committed: 1 });
+  });
+
+  it('uses the correlation id of the starting event as saga id', async () => {
+    const broker = fakeBroker();
+    const store = new InMemorySagaStore();
+    new SagaChoreographyRuntime(broker.consumer, broker.publisher, store).register(fulfilment());
+
+    await broker.deliver(envelope('order.placed', { correlationId: 'order-1' }));
+
+    expect((await store.findById('order-1'))?.name).toBe('fulfilment');
+  });
+
+  it('ignores redelivered events and events of unknown sagas', async () => {
+    const broker = fakeBroker();
+    const store = new InMemorySagaStore();
+    new SagaChoreographyRuntime(broker.consumer, broker.publisher, store).register(fulfilment());
+
+    await broker.deliver(envelope('order.placed', { eventId: 'evt-1' }));
+    await broker.deliver(envelope('order.placed', { eventId: 'evt-1' }));
+    await broker.deliver(envelope('stock.reserved', { correlationId: 'unknown' }));
+
+    expect(broker.published).toHaveLength(1);
+    expect(await store.findById('unknown')).toBeUndefined();
+    expect((await store.findById('evt-1'))?.completedSteps).toBe(1);
+  });
+
+  it('advances once per event id, even for repeated event types', async () => {
+    const broker = fakeBroker();
+    const store = new InMemorySagaStore();
+    new SagaChoreographyRuntime(broker.consumer, broker.publisher, store).register(fulfilment());
+
+    await broker.deliver(envelope('order.placed', { eventId: 'evt-1' }));
+    await broker.deliver(envelope('stock.reserved', { eventId: 'evt-2', correlationId: 'evt-1' }));
+    await broker.deliver(envelope('stock.reserved', { eventId: 'evt-3', correlationId: 'evt-1' }));
+    await broker.deliver(envelope('stock.reserved', { eventId: 'evt-2', correlationId: 'evt-1' }));
+
+    const saga = await store.findById('evt-1');
+    expect(saga?.steps?.map((step) => step.eventId)).toEqual(['evt-1', 'evt-2', 'evt-3']);
+    expect(broker.published.map((e) => e.eventType)).toEqual([
+      'stock.reserve',
+      'payment.charge',
+      'payment.charge',
+    ]);
+  });
+
+  it('re-applies an event to the fresh saga when another handler saved it first', async () => {
+    const broker = fakeBroker();
+    const store = new InMemorySagaStore();
+    new SagaChoreographyRuntime(broker.consumer, broker.publisher, store).register(fulfilment());
+    await broker.deliver(envelope('order.placed', { eventId: 'evt-1' }));
+
+    await Promise.all([
+      broker.deliver(envelope('stock.reserved', { eventId: 'evt-2', correlationId: 'evt-1' })),
+      broker.deliver(envelope('stock.reserved', { eventId: 'evt-3', correlationId: 'evt-1' })),
+    ]);
+
+    const saga = await store.findById('evt-1');
+    expect(saga).toMatchObject({ completedSteps: 3, version: 3 });
+    expect(saga?.steps?.map((step) => step.eventId)).toEqual(['evt-1', 'evt-2', 'evt-3']);
+  });
+
+  it('reports a saga as started only once it has been saved', async () => {
+    const broker = fakeBroker();
+    const store = new InMemorySagaStore();
+    const monitor = new SagaMonitor();
+    new SagaChoreographyRuntime(broker.consumer, broker.publisher, store, { monitor }).register(
+      fulfilment(),
+    );
+    vi.spyOn(store, 'save').mockRejectedValueOnce(new Error('db down'));
+
+    await expect(broker.deliver(envelope('order.placed', { eventId: 'evt-1' }))).rejects.toThrow(
+      'db down',
+    );
+    expect(monitor.getMetrics().started).toBe(0);
+
+    await broker.deliver(envelope('order.placed', { eventId: 'evt-1' }));
+    expect(monitor.getMetrics().started).toBe(1);
+  });
+
+  it('publishes compensating events when a failure event arrives', async () => {
+    const broker = fakeBroker();
+    const store = new InMemorySagaStore();
+    const monitor = new SagaMonitor();
+    new SagaChoreographyRuntime(broker.consumer, broker.publisher, store, { monitor }).register(
+      fulfilment(),
+    );
+
+    await broker.deliver(envelope('order.placed', { eventId: 'evt-1' }));
+    await broker.deliver(envelope('payment.declined', { correlationId: 'evt-1' }));
+    await broker.deliver(envelope('payment.charged', { correlationId: 'evt-1' }));
+
+    expect(broker.published.map((e) => e.eventType)).toEqual(['stock.reserve', 'stock.release']);
+    expect(broker.published[1]?.correlationId).toBe('evt-1');
+    const saga = await store.findById('evt-1');
+    expect(saga?.status).toBe('compensated');
+    expect(saga?.error).toBe('Failed at payment.declined');
+    expect(monitor.getMetrics().compensated).toBe(1);
+  });
+
+  it('fails the saga when compensating events cannot be published', async () => {
+    const broker = fakeBroker();
+    const store = new InMemorySagaStore();
+    new SagaChoreographyRuntime(broker.consumer, broker.publisher, store).register(
+      fulfilment({
+        compensate: () => {
+          throw new Error('broker down');
+        },
+      }),
+    );
+
+    await broker.deliver(envelope('order.placed', { eventId: 'evt-1' }));
+    await broker.deliver(envelope('payment.declined', { correlationId: 'evt-1' }));
+
+    expect((await store.findById('evt-1'))?.status).toBe('failed');
+  });
+
+  it('compensates sagas whose deadline expired', async () => {
+    const broker = fakeBroker();
+    const store = new InMemorySagaStore();
+    const runtime = new SagaChoreographyRuntime(broker.consumer, broker.publisher, store).register(
+      fulfilment({ timeoutMs: 1000 }),
+    );
+    await broker.deliver(envelope('order.placed', { eventId: 'evt-1' }));
+
+    expect(await runtime.checkTimeouts()).toBe(0);
+    expect(await runtime.checkTimeouts(new Date(Date.now() + 5000))).toBe(1);
+
+    const saga = await store.findById('evt-1');
+    expect(saga?.status).toBe('compensated');
+    expect(saga?.error).toBe('Saga timed out after 1000ms');
+    expect(broker.published.at(-1)?.eventType).toBe('stock.release');
+  });
+
+  it('compensates an expired saga once when replicas check timeouts together', async () => {
+    const store = new InMemorySagaStore();
+    const brokers = [fakeBroker(), fakeBroker()];
+    const [first, second] = brokers.map((broker) =>
+      new SagaChoreographyRuntime(broker.consumer, broker.publisher, store).register(
+        fulfilment({ timeoutMs: 1000 }),
+      ),
+    );
+    await brokers[0]?.deliver(envelope('order.placed', { eventId: 'evt-1' }));
+    const later = new Date(Date.now() + 5000);
+
+    const expired = await Promise.all([first?.checkTimeouts(later), second?.checkTimeouts(later)]);
+
+    expect(expired).toEqual([1, 0]);
+    const released = brokers
+      .flatMap((b) => b.published)
+      .filter((e) => e.eventType === 'stock.release');
+    expect(released).toHaveLength(1);
+    expect((await store.findById('evt-1'))?.status).toBe('compensated');
+  });
+
+  it('reports failed deadline checks instead of rejecting on the timer', async () => {
+    vi.useFakeTimers();
+    const broker = fakeBroker();
+    const store = new InMemorySagaStore();
+    vi.spyOn(store, 'findByStatus').mockRejectedValue(new Error('db down'));
+    const errors: unknown[] = [];
+    const runtime = new SagaChoreographyRuntime(broker.consumer, broker.publisher, store, {
+      timeoutCheckIntervalMs: 100,
+      onError: (error) => errors.push(error),
+    }).register(fulfilment());
+
+    await runtime.start();
+    await vi.advanceTimersByTimeAsync(250);
+    await runtime.stop();
+    vi.useRealTimers();
+
+    expect(errors).toEqual([new Error('db down'), new Error('db down')]);
+  });
+
+  it('subscribes once per event type and starts and stops the consumer', async () => {
+    const broker = fakeBroker();
+    const runtime = new SagaChoreographyRuntime(
+      broker.consumer,
+      broker.publisher,
+      new InMemorySagaStore(),
+    )
+      .register(fulfilment())
+      .register(
+        fulfilment({ name: 'other', reactions: [{ event: 'order.placed', completes: true }] }),
+      );
+
+    await runtime.start();
+    await runtime.stop();
+
+    expect(broker.handlers.get('order.placed')).toHaveLength(1);
+    expect(broker.consumer.start).toHaveBeenCalledOnce();
+    expect(broker.consumer.stop).toHaveBeenCalledOnce();
+    expect(() => runtime.register(fulfilment())).toThrow('already registered');
+  });
+
+  it('rejects a second definition starting on the same event type', () => {
+    const broker = fakeBroker();
+    const runtime = new SagaChoreographyRuntime(
+      broker.consumer,
+      broker.publisher,
+      new InMemorySagaStore(),
+    ).register(fulfilment());
+
+    expect(() =>
+      runtime.register({ name: 'loyalty', reactions: [{ event: 'order.placed', starts: true }] }),
+    ).toThrow('Choreography fulfilment already starts on order.placed');
+    expect(broker.handlers.get('order.placed')).toHaveLength(1);
+  });
+});
+
+describe('SagaMonitor stuck and aged sagas', () => {
+  it('reports in-flight sagas by idle time and by age', async () => {
+    const store = new InMemorySagaStore();
+    const now = new Date('2026-01-01T12:00:00Z');
+    const minutesAgo = (m: number) => new Date(now.getTime() - m * 60_000);
+    await store.save(
+      makeState({ id: 'idle', startedAt: minutesAgo(10), updatedAt: minutesAgo(10) }),
+    );
+    await store.save(
+      makeState({ id: 'old', status: 'compensating', startedAt: minutesAgo(90), updatedAt: now }),
+    );
+    await store.save(makeState({ id: 'done', status: 'committed', startedAt: minutesAgo(90) }));
+    const monitor = new SagaMonitor();
+
+    const stuck = await monitor.getStuckSagas(store, 5 * 60_000, now);
+    const aged = await monitor.getAgedSagas(store, 60 * 60_000, now);
+
+    expect(stuck.map((s) => s.id)).toEqual(['idle']);
+    expect(aged.map((s) => s.id)).toEqual(['old']);
+  });
+});
@@ -20,6 +20,72 @@ export interface SagaState {
   updatedAt: Date;
   completedSteps: number;
   error?: string;
+  /** Serializable input the saga was started with (orchestrated sagas). */
+  input?: unknown;
+  /** Outcome of each step reached so far (orchestrated sagas). */
+  steps?: SagaStepState[];
+  /** When the saga is compensated if it has not completed (choreographed sagas). */
+  deadline?: Date;
+  /** Number of times the state was saved; used for optimistic concurrency (choreographed sagas). */
+  version?: number;
+}
+
+export type SagaStepStatus =
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'compensating'
+  | 'compensated'
+  | 'compensation-failed';
+
+export interface SagaStepState {
+  name: string;
+  status: SagaStepStatus;
+  /** Attempts made at the action, across restarts. */
+  attempts: number;
+  /** Serializable result of the action, handed to later steps and the compensation. */
+  output?: unknown;
+  error?: string;
+  updatedAt: Date;
+  /** Event that completed the step (choreographed sagas). */
+  eventId?: string;
+}
+
+export interface SagaRetryPolicy {
+  /** Total attempts, including the first. */
+  maxAttempts: number;
+  /** Delay before the first retry (ms). Default: 0. */
+  delayMs?: number;
+  /** Factor applied to the delay after each retry. Default: 1. */
+  backoffMultiplier?: number;
+  /** Errors for which this returns `false` fail the step immediately. */
+  retryable?: (error: unknown) => boolean;
+}
+
+export interface SagaStepContext<TInput> {
+  sagaId: string;
+  input: TInput;
+  /** Outputs of the steps completed so far, by step name. */
+  outputs: Readonly<Record<string, unknown>>;
+  /** 1-based attempt number of the action or compensation. */
+  attempt: number;
+}
+
+export interface SagaStepDefinition<TInput> {
+  name: string;
+  /** Performs the step; must be idempotent, as it may rerun after a crash. Returns a serializable output. */
+  action: (context: SagaStepContext<TInput>) => Promise<unknown>;
+  /** Undoes a completed step, given its output. Must be idempotent too. */
+  compensation?: (context: SagaStepContext<TInput>, output: unknown) => Promise<void>;
+  /** Overrides the saga's retry policy for this step. */
+  retry?: SagaRetryPolicy;
+}
+
+export interface SagaDefinition<TInput = unknown> {
+  name: string;
+  steps: SagaStepDefinition<TInput>[];
+  /** Retry policy for actions and compensations. Default: a single attempt. */
+  retry?: SagaRetryPolicy;
 }
 
 export interface SagaStepRecord {
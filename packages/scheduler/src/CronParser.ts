@@ -1,19 +1,81 @@
 import { InvalidCronExpressionError } from './JobErrors';
+import { fromWallClock, localTimeZone, toWallClock } from './TimeZone';
 
 // ---------------------------------------------------------------------------
 // Parsed cron fields
 // ---------------------------------------------------------------------------
 
+/** Day-of-month rules that depend on the month: `L`, `L-n`, `LW` and `nW`. */
+export type MonthDayRule =
+  /** `L` / `L-n` — the last day of the month, or `offset` days before it. */
+  | { readonly kind: 'last'; readonly offset: number }
+  /** `LW` — the last weekday (Monday to Friday) of the month. */
+  | { readonly kind: 'last-weekday' }
+  /** `nW` — the weekday nearest to `day`, without leaving the month. */
+  | { readonly kind: 'nearest-weekday'; readonly day: number };
+
+/** Day-of-week rules that depend on the month: `dL` and `d#n`. */
+export type WeekDayRule =
+  /** `dL` — the last `weekDay` of the month. */
+  | { readonly kind: 'last'; readonly weekDay: number }
+  /** `d#n` — the `nth` `weekDay` of the month. */
+  | { readonly kind: 'nth'; readonly weekDay: number; readonly nth: number };
+
 export interface CronFields {
+  /** `undefined` for expressions without a seconds field: they fire at second 0. */
+  readonly seconds?: ReadonlySet<number>;
   readonly minutes: ReadonlySet<number>;
   readonly hours: ReadonlySet<number>;
   readonly monthDays: ReadonlySet<number>;
+  readonly monthDayRules: readonly MonthDayRule[];
   readonly months: ReadonlySet<number>;
+  /** 0 (Sunday) to 6 (Saturday). */
   readonly weekDays: ReadonlySet<number>;
+  readonly weekDayRules: readonly WeekDayRule[];
+  /** `undefined` for expressions without a year field: every year matches. */
+  readonly years?: ReadonlySet<number>;
+}
+
+// ---------------------------------------------------------------------------
+// Field specifications
+// ---------------------------------------------------------------------------
+
+interface FieldSpec {
+  readonly min: number;
+  readonly max: number;
+  /** Names accepted in place of numbers, starting at `min`. */
+  readonly names?: readonly string[];
 }
 
+const SECONDS: FieldSpec = { min: 0, max: 59 };
+const MINUTES: FieldSpec = { min: 0, max: 59 };
+const HOURS: FieldSpec = { min: 0, max: 23 };
+const MONTH_DAYS: FieldSpec = { min: 1, max: 31 };
+const MONTHS: FieldSpec = {
+  min: 1,
+  max: 12,
+  names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+};
+/** 7 is accepted as Sunday and normalised to 0. */
+const WEEK_DAYS: FieldSpec = {
+  min: 0,
+  max: 7,
+  names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'],
+};
+const YEARS: FieldSpec = { min: 1970, max: 2199 };
+
+const MACROS: Readonly<Record<string, string>> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
 // ---------------------------------------------------------------------------
-// Helpers
+// Parsing helpers
 // ---------------------------------------------------------------------------
 
 function expandRange(min: number, max: number, step = 1): Set<number> {
@@ -22,82 +84,293 @@ function expandRange(min: number, max: number, step = 1): Set<number> {
   return result;
 }
 
-function parseSingle(raw: string, min: number, max: number, expr: string): number {
-  const n = parseInt(raw.trim(), 10);
-  if (isNaN(n) || n < min || n > max) {
-    throw new InvalidCronExpressionError(expr, `value "${raw}" out of range [${min}-${max}]`);
+function parseSingle(raw: string, spec: FieldSpec, expr: string): number {
+  const value = raw.trim().toUpperCase();
+  const named = spec.names?.indexOf(value) ?? -1;
+  if (named >= 0) return spec.min + named;
+  const n = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (isNaN(n) || n < spec.min || n > spec.max) {
+    throw new InvalidCronExpressionError(
+      expr,
+      `value "${raw}" out of range [${spec.min}-${spec.max}]`,
+    );
   }
   return n;
 }
 
-function parseField(field: string, min: number, max: number, expr: string): Set<number> {
-  if (field === '*') return expandRange(min, max);
-
-  if (field.startsWith('*/')) {
-    const step = parseInt(field.slice(2), 10);
-    if (isNaN(step) || step <= 0) {
-      throw new InvalidCronExpressionError(expr, `invalid step in "${field}"`);
-    }
-    return expandRange(min, max, step);
+function parseStep(raw: string | undefined, part: string, expr: string): number {
+  if (raw === undefined) return 1;
+  const step = /^\d+$/.test(raw) ? parseInt(raw, 10) : NaN;
+  if (isNaN(step) || step <= 0) {
+    throw new InvalidCronExpressionError(expr, `invalid step in "${part}"`);
   }
+  return step;
+}
 
-  if (field.includes('-')) {
-    const [lo, hi] = field.split('-');
-    if (lo === undefined || hi === undefined) {
-      throw new InvalidCronExpressionError(expr, `invalid range "${field}"`);
-    }
-    const low = parseSingle(lo, min, max, expr);
-    const high = parseSingle(hi, min, max, expr);
-    if (low > high) throw new InvalidCronExpressionError(expr, `range start ${low} > end ${high}`);
-    return expandRange(low, high);
+/** One list element: `*`, `n`, `n-m`, each optionally followed by `/step`. */
+function parsePart(part: string, spec: FieldSpec, expr: string): Set<number> {
+  const [range = '', stepRaw, ...rest] = part.split('/');
+  if (range === '' || rest.length > 0) {
+    throw new InvalidCronExpressionError(expr, `invalid field "${part}"`);
   }
+  const step = parseStep(stepRaw, part, expr);
+  if (range === '*') return expandRange(spec.min, spec.max, step);
+
+  const [lo = '', hi, ...extra] = range.split('-');
+  if (extra.length > 0) throw new InvalidCronExpressionError(expr, `invalid range "${range}"`);
+  const low = parseSingle(lo, spec, expr);
+  // `n/step` runs from n to the end of the field.
+  const high =
+    hi !== undefined ? parseSingle(hi, spec, expr) : stepRaw !== undefined ? spec.max : low;
+  if (low > high) throw new InvalidCronExpressionError(expr, `range start ${low} > end ${high}`);
+  return expandRange(low, high, step);
+}
 
+function parseField(field: string, spec: FieldSpec, expr: string): Set<number> {
   const result = new Set<number>();
   for (const part of field.split(',')) {
-    result.add(parseSingle(part, min, max, expr));
+    for (const value of parsePart(part, spec, expr)) result.add(value);
   }
   return result;
 }
 
+function parseMonthDayRule(part: string, expr: string): MonthDayRule | undefined {
+  if (part === 'L') return { kind: 'last', offset: 0 };
+  if (part === 'LW') return { kind: 'last-weekday' };
+  const last = /^L-(\d+)$/.exec(part);
+  if (last?.[1] !== undefined) {
+    return { kind: 'last', offset: parseSingle(last[1], { min: 0, max: 30 }, expr) };
+  }
+  const nearest = /^(\d+)W$/.exec(part);
+  if (nearest?.[1] !== undefined) {
+    return { kind: 'nearest-weekday', day: parseSingle(nearest[1], MONTH_DAYS, expr) };
+  }
+  return undefined;
+}
+
+function parseWeekDayRule(part: string, expr: string): WeekDayRule | undefined {
+  const last = /^(\w+)L$/.exec(part);
+  if (last?.[1] !== undefined) {
+    return { kind: 'last', weekDay: parseSingle(last[1], WEEK_DAYS, expr) % 7 };
+  }
+  const nth = /^(\w+)#(\d+)$/.exec(part);
+  if (nth?.[1] !== undefined && nth[2] !== undefined) {
+    const weekDay = parseSingle(nth[1], WEEK_DAYS, expr) % 7;
+    return { kind: 'nth', weekDay, nth: parseSingle(nth[2], { min: 1, max: 5 }, expr) };
+  }
+  return undefined;
+}
+
+/** Day-of-month or day-of-week field: plain values, `?` and month-dependent rules. */
+function parseDayField<TRule>(
+  field: string,
+  spec: FieldSpec,
+  parseRule: (part: string, expr: string) => TRule | undefined,
+  expr: string,
+): { values: Set<number>; rules: TRule[] } {
+  if (field === '?') return { values: expandRange(spec.min, spec.max), rules: [] };
+  const values = new Set<number>();
+  const rules: TRule[] = [];
+  for (const part of field.toUpperCase().split(',')) {
+    const rule = parseRule(part, expr);
+    if (rule !== undefined) rules.push(rule);
+    else for (const value of parsePart(part, spec, expr)) values.add(value);
+  }
+  return { values, rules };
+}
+
+// ---------------------------------------------------------------------------
+// Matching helpers
+// ---------------------------------------------------------------------------
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekDayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function nearestWeekday(year: number, month: number, day: number): number | undefined {
+  const last = daysInMonth(year, month);
+  if (day > last) return undefined;
+  const weekDay = weekDayOf(year, month, day);
+  if (weekDay === 6) return day === 1 ? 3 : day - 1;
+  if (weekDay === 0) return day === last ? day - 2 : day + 1;
+  return day;
+}
+
+function matchesMonthDayRule(
+  rule: MonthDayRule,
+  year: number,
+  month: number,
+  day: number,
+): boolean {
+  const last = daysInMonth(year, month);
+  switch (rule.kind) {
+    case 'last':
+      return day === last - rule.offset;
+    case 'last-weekday':
+      return day === nearestWeekday(year, month, last);
+    case 'nearest-weekday':
+      return day === nearestWeekday(year, month, rule.day);
+  }
+}
+
+function matchesWeekDayRule(rule: WeekDayRule, year: number, month: number, day: number): boolean {
+  if (weekDayOf(year, month, day) !== rule.weekDay) return false;
+  if (rule.kind === 'last') return day + 7 > daysInMonth(year, month);
+  return Math.ceil(day / 7) === rule.nth;
+}
+
+function matchesDay(fields: CronFields, wall: Date): boolean {
+  const year = wall.getUTCFullYear();
+  const month = wall.getUTCMonth() + 1;
+  const day = wall.getUTCDate();
+  const monthDay =
+    fields.monthDays.has(day) ||
+    fields.monthDayRules.some((rule) => matchesMonthDayRule(rule, year, month, day));
+  const weekDay =
+    fields.weekDays.has(wall.getUTCDay()) ||
+    fields.weekDayRules.some((rule) => matchesWeekDayRule(rule, year, month, day));
+  return monthDay && weekDay;
+}
+
+type Unit = 'year' | 'month' | 'day' | 'hour' | 'minute' | 'second';
+
+const NO_SECONDS: ReadonlySet<number> = new Set([0]);
+
+/** The largest calendar unit of a wall clock that does not match, if any. */
+function firstMismatch(fields: CronFields, wallClockMs: number): Unit | undefined {
+  const wall = new Date(wallClockMs);
+  if (fields.years?.has(wall.getUTCFullYear()) === false) return 'year';
+  if (!fields.months.has(wall.getUTCMonth() + 1)) return 'month';
+  if (!matchesDay(fields, wall)) return 'day';
+  if (!fields.hours.has(wall.getUTCHours())) return 'hour';
+  if (!fields.minutes.has(wall.getUTCMinutes())) return 'minute';
+  if (!(fields.seconds ?? NO_SECONDS).has(wall.getUTCSeconds())) return 'second';
+  return undefined;
+}
+
+const UNIT_MS: Readonly<Record<'day' | 'hour' | 'minute' | 'second', number>> = {
+  day: 86_400_000,
+  hour: 3_600_000,
+  minute: 60_000,
+  second: 1_000,
+};
+
+function startOf(wallClockMs: number, unit: Unit): number {
+  const wall = new Date(wallClockMs);
+  if (unit === 'year') return Date.UTC(wall.getUTCFullYear(), 0);
+  if (unit === 'month') return Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth());
+  return Math.floor(wallClockMs / UNIT_MS[unit]) * UNIT_MS[unit];
+}
+
+/** Start of the next `unit` (forwards), or the last second of the previous one (backwards). */
+function skip(wallClockMs: number, unit: Unit, direction: 1 | -1): number {
+  if (direction === -1) return startOf(wallClockMs, unit) - 1_000;
+  const wall = new Date(wallClockMs);
+  if (unit === 'year') return Date.UTC(wall.getUTCFullYear() + 1, 0);
+  if (unit === 'month') return Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth() + 1);
+  return startOf(wallClockMs, unit) + UNIT_MS[unit];
+}
+
+/**
+ * How far {@link nextCronTime} and {@link previousCronTime} search without a
+ * year field. Between century years the calendar repeats every 28 years, so
+ * an expression that never matches within them never matches at all.
+ */
+const MAX_SEARCH_YEARS = 28;
+
+function searchLimit(fields: CronFields, fromWallClockMs: number, direction: 1 | -1): number {
+  const years = fields.years === undefined ? [] : [...fields.years];
+  if (years.length > 0) return direction === 1 ? Math.max(...years) : Math.min(...years);
+  return new Date(fromWallClockMs).getUTCFullYear() + direction * MAX_SEARCH_YEARS;
+}
+
+function search(
+  fields: CronFields,
+  fromMs: number,
+  direction: 1 | -1,
+  timeZone: string,
+): Date | undefined {
+  // The first whole second strictly after (or before) `fromMs`.
+  let wall =
+    direction === 1
+      ? toWallClock(fromMs, timeZone) + 1_000
+      : toWallClock(Math.ceil(fromMs / 1_000) * 1_000 - 1_000, timeZone);
+  const limit = searchLimit(fields, wall, direction);
+  while ((new Date(wall).getUTCFullYear() - limit) * direction <= 0) {
+    const unit = firstMismatch(fields, wall);
+    if (unit !== undefined) {
+      wall = skip(wall, unit, direction);
+      continue;
+    }
+    const instant = fromWallClock(wall, timeZone);
+    // A time shifted past a DST gap can land on the other side of `fromMs`.
+    if ((instant - fromMs) * direction > 0) return new Date(instant);
+    wall += direction * 1_000;
+  }
+  return undefined;
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
 /**
- * Parse a standard 5-field cron expression.
+ * Parse a cron expression.
  *
- * Fields: `minute hour dayOfMonth month dayOfWeek`
+ * Fields, separated by whitespace:
+ * - 5 fields: `minute hour dayOfMonth month dayOfWeek`
+ * - 6 fields: `second minute hour dayOfMonth month dayOfWeek`
+ * - 7 fields: `second minute hour dayOfMonth month dayOfWeek year`
  *
- * Supports: `*`, `*\/n`, `n`, `n-m`, comma-separated values.
+ * Every field supports `*`, `n`, `n-m`, steps (`*\/n`, `n-m/s`, `n/s`) and
+ * comma-separated lists. Months and days of week accept names (`JAN`, `MON`);
+ * days of week run from 0 (Sunday) to 6, 7 also being Sunday. Day fields
+ * also accept:
+ * - `?` — no constraint,
+ * - day of month: `L` (last day), `L-n` (n days before the last), `LW` (last
+ *   weekday) and `nW` (weekday nearest to day n, within the month),
+ * - day of week: `dL` (last d of the month) and `d#n` (nth d of the month).
+ *
+ * A day must match both the day-of-month and the day-of-week field; use `?`
+ * or `*` in one of them to constrain by the other only.
+ *
+ * The macros `@yearly`, `@annually`, `@monthly`, `@weekly`, `@daily`,
+ * `@midnight` and `@hourly` are accepted in place of an expression.
  *
  * @example `parseCron('0 9 * * 1-5')` — every weekday at 09:00
+ * @example `parseCron('0 30 18 LW * ?')` — 18:30:00 on the last weekday of each month
  */
 export function parseCron(expression: string): CronFields {
-  const parts = expression.trim().split(/\s+/);
-  if (parts.length !== 5) {
-    throw new InvalidCronExpressionError(expression, `expected 5 fields, got ${parts.length}`);
-  }
-  const [minF, hrF, domF, monF, wdF] = parts;
-  if (
-    minF === undefined ||
-    hrF === undefined ||
-    domF === undefined ||
-    monF === undefined ||
-    wdF === undefined
-  ) {
-    throw new InvalidCronExpressionError(expression, 'expected 5 fields');
+  const trimmed = expression.trim();
+  const parts = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (parts.length < 5 || parts.length > 7) {
+    throw new InvalidCronExpressionError(expression, `expected 5 to 7 fields, got ${parts.length}`);
   }
+  const offset = parts.length === 5 ? 0 : 1;
+  const field = (index: number): string => parts[index + offset] ?? '';
+  const monthDays = parseDayField(field(2), MONTH_DAYS, parseMonthDayRule, expression);
+  const weekDays = parseDayField(field(4), WEEK_DAYS, parseWeekDayRule, expression);
   return {
-    minutes: parseField(minF, 0, 59, expression),
-    hours: parseField(hrF, 0, 23, expression),
-    monthDays: parseField(domF, 1, 31, expression),
-    months: parseField(monF, 1, 12, expression),
-    weekDays: parseField(wdF, 0, 6, expression),
+    ...(offset === 1 && { seconds: parseField(parts[0] ?? '', SECONDS, expression) }),
+    minutes: parseField(field(0), MINUTES, expression),
+    hours: parseField(field(1), HOURS, expression),
+    monthDays: monthDays.values,
+    monthDayRules: monthDays.rules,
+    months: parseField(field(3), MONTHS, expression),
+    weekDays: new Set([...weekDays.values].map((day) => day % 7)),
+    weekDayRules: weekDays.rules,
+    ...(parts.length === 7 && { years: parseField(field(5), YEARS, expression) }),
   };
 }
 
 /**
- * Check whether the given {@link Date} matches parsed {@link CronFields}.
+ * Check whether the given {@link Date} matches parsed {@link CronFields}, as
+ * seen from `timeZone` (default: the host's). Seconds are only compared for
+ * expressions with a seconds field.
  *
  * @example
  * ```ts
@@ -105,12 +378,56 @@ export function parseCron(expression: string): CronFields {
  * matchesCron(fields, new Date('2026-02-23T09:00:00')); // true (Monday 09:00)
  * ```
  */
-export function matchesCron(fields: CronFields, date: Date): boolean {
-  return (
-    fields.minutes.has(date.getMinutes()) &&
-    fields.hours.has(date.getHours()) &&
-    fields.monthDays.has(date.getDate()) &&
-    fields.months.has(date.getMonth() + 1) &&
-    fields.weekDays.has(date.getDay())
-  );
+export function matchesCron(fields: CronFields, date: Date, timeZone?: string): boolean {
+  const wall = toWallClock(date.getTime(), timeZone ?? localTimeZone());
+  const mismatch = firstMismatch(fields, wall);
+  return mismatch === undefined || (mismatch === 'second' && fields.seconds === undefined);
+}
+
+/**
+ * Return the first fire time strictly after `after`, or `undefined` if there
+ * is none. Fields are evaluated on the wall clock of `timeZone`, an IANA
+ * name such as `'America/Sao_Paulo'` (default: the host's), across DST
+ * transitions:
+ * - a fire time skipped by a gap fires as far past the gap as it was past
+ *   its start (02:30 fires at 03:30 when clocks jump from 02:00 to 03:00),
+ * - a fire time repeated by an overlap fires once, at its first occurrence.
+ *
+ * @throws {InvalidTimeZoneError} for an unknown time zone.
+ *
+ * @example
+ * ```ts
+ * nextCronTime(parseCron('0 9 * * 1'), new Date('2026-02-23T09:00:00')); // 2026-03-02T09:00
+ * ```
+ */
+export function nextCronTime(fields: CronFields, after: Date, timeZone?: string): Date | undefined {
+  return search(fields, after.getTime(), 1, timeZone ?? localTimeZone());
+}
+
+/** Return up to `count` consecutive fire times after `after`; see {@link nextCronTime}. */
+export function nextCronTimes(
+  fields: CronFields,
+  after: Date,
+  count: number,
+  timeZone?: string,
+): Date[] {
+  const times: Date[] = [];
+  let next = nextCronTime(fields, after, timeZone);
+  while (next !== undefined && times.length < count) {
+    times.push(next);
+    next = times.length < count ? nextCronTime(fields, next, timeZone) : undefined;
+  }
+  return times;
+}
+
+/**
+ * Return the last fire time strictly before `before`, or `undefined` if there
+ * is none; time zones and DST are handled as in {@link nextCronTime}.
+ */
+export function previousCronTime(
+  fields: CronFields,
+  before: Date,
+  timeZone?: string,
+): Date | undefined {
+  return search(fields, before.getTime(), -1, timeZone ?? localTimeZone());
 }
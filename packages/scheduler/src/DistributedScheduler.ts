@@ -0,0 +1,446 @@
+import { JobConcurrencyLimitError, JobNotFoundError, JobPausedError } from './JobErrors';
+import { ConcurrencyLimiter } from './ConcurrencyLimiter';
+import { nextCronTime, parseCron, previousCronTime } from './CronParser';
+import type { CronFields } from './CronParser';
+import { JobRegistry } from './JobRegistry';
+import { assertTimeZone } from './TimeZone';
+import {
+  EMPTY_STATS,
+  ExecutionControls,
+  buildRunningRecord,
+  decrementActive,
+  defaultDelay,
+  incrementActive,
+  nextExecutionId,
+  runExecution,
+} from './JobExecution';
+import type { DelayFn, StatsInternal } from './JobExecution';
+import type { JobStore } from './JobStore';
+import type { SchedulerLock } from './SchedulerLock';
+import type { SchedulerPort } from './SchedulerPort';
+import type {
+  JobRecord,
+  JobRegistration,
+  JobScheduleConfig,
+  MisfirePolicy,
+  SchedulerStats,
+  TriggerOptions,
+} from './JobTypes';
+
+/**
+ * How instances sharing a store avoid firing a run twice:
+ * - `leader` — instances compete for a leader lease; only the leader fires jobs,
+ * - `per-run` — every instance polls, and a lock per fire time lets one of them run it.
+ */
+export type SchedulerCoordination = 'leader' | 'per-run';
+
+export interface DistributedSchedulerOptions {
+  /** Identifies this instance as a lock owner. Default: `crypto.randomUUID()`. */
+  readonly owner?: string;
+  /** Default: `'leader'`. */
+  readonly coordination?: SchedulerCoordination;
+  /** Interval between polls for due jobs when started (ms). Default: 1 000. */
+  readonly pollIntervalMs?: number;
+  /**
+   * TTL of the leader lease and of run locks (ms). The leader renews its
+   * lease on every poll, so it must exceed the poll interval. Default: 30 000.
+   */
+  readonly leaseMs?: number;
+  /** A run overdue by more than this counts as missed (ms). Default: 60 000. */
+  readonly misfireThresholdMs?: number;
+  /** Applied to jobs that do not set their own. Default: `'fire-once'`. */
+  readonly misfirePolicy?: MisfirePolicy;
+  /** Missed runs replayed per poll with `fire-all`; the rest follow on later polls. Default: 100. */
+  readonly maxCatchUpRuns?: number;
+  /** Prefix of lock keys. Default: `'scheduler'`. */
+  readonly keyPrefix?: string;
+  /** Waits between retries. Default: `setTimeout`. */
+  readonly delay?: DelayFn;
+  /** Clock, for tests. Default: `Date.now`. */
+  readonly now?: () => number;
+}
+
+type ResolvedOptions = Required<Omit<DistributedSchedulerOptions, 'owner'>>;
+
+const DEFAULT_OPTIONS: ResolvedOptions = {
+  coordination: 'leader',
+  pollIntervalMs: 1_000,
+  leaseMs: 30_000,
+  misfireThresholdMs: 60_000,
+  misfirePolicy: 'fire-once',
+  maxCatchUpRuns: 100,
+  keyPrefix: 'scheduler',
+  delay: defaultDelay,
+  now: Date.now,
+};
+
+/**
+ * {@link SchedulerPort} shared by several instances of a service. Fire times
+ * and execution records live in a {@link JobStore}; a {@link SchedulerLock}
+ * makes sure each run fires on one instance only.
+ *
+ * Every instance registers the same jobs and calls {@link start}. Each poll
+ * fires the runs that fell due since the stored next fire time, then stores
+ * the following one. Runs missed while no instance was polling are handled by
+ * the job's {@link MisfirePolicy}.
+ *
+ * Polls start runs without waiting for them, so a long run holds back neither
+ * other jobs nor the renewal of the leader lease. A job is not fired again on
+ * an instance while its previous runs there are still going; runs that fall
+ * due meanwhile are handled by its misfire policy.
+ *
+ * Runs are at-most-once: the next fire time is advanced before the job runs,
+ * so a run interrupted by a crash is not repeated. Runs that fall due while a
+ * job is paused are skipped; the paused flag lives in the store, so pausing
+ * on one instance pauses the job everywhere.
+ *
+ * @example
+ * ```ts
+ * const scheduler = new DistributedScheduler(
+ *   new RedisJobStore(redis),
+ *   new RedisSchedulerLock(redis),
+ *   { misfirePolicy: 'skip' },
+ * );
+ * scheduler.register({ jobId: 'report', job: reportJob, schedule: { kind: 'cron', expression: '0 6 * * *' } });
+ * scheduler.start();
+ * ```
+ */
+export class DistributedScheduler implements SchedulerPort {
+  private readonly registry = new JobRegistry();
+  private readonly limiters = new Map<string, ConcurrencyLimiter>();
+  private readonly cronFields = new Map<string, CronFields>();
+  private readonly options: ResolvedOptions;
+  private readonly owner: string;
+  private readonly controls = new ExecutionControls();
+  private stats: StatsInternal = EMPTY_STATS;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private running: Promise<number> | undefined;
+  /** Runs started by polls, by job. */
+  private readonly inFlight = new Map<string, Promise<void>>();
+  private leader = false;
+  private lastError: unknown;
+
+  constructor(
+    private readonly store: JobStore,
+    private readonly lock: SchedulerLock,
+    options: DistributedSchedulerOptions = {},
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.owner = options.owner ?? crypto.randomUUID();
+  }
+
+  register(registration: JobRegistration): void {
+    const { schedule } = registration;
+    // Parsing up front rejects invalid expressions and time zones at registration time.
+    const fields = schedule.kind === 'cron' ? parseCron(schedule.expression) : undefined;
+    if (schedule.kind === 'cron' && schedule.timeZone !== undefined) {
+      assertTimeZone(schedule.timeZone);
+    }
+    this.registry.register(registration);
+    this.limiters.set(registration.jobId, new ConcurrencyLimiter(registration.maxConcurrency ?? 1));
+    if (fields !== undefined) this.cronFields.set(registration.jobId, fields);
+  }
+
+  unregister(jobId: string): void {
+    this.registry.unregister(jobId);
+    this.limiters.delete(jobId);
+    this.cronFields.delete(jobId);
+  }
+
+  isRegistered(jobId: string): boolean {
+    return this.registry.has(jobId);
+  }
+
+  /** Runs a job immediately on this instance, outside its schedule. */
+  async trigger(
+    jobId: string,
+    metadata: Readonly<Record<string, unknown>> = {},
+    options: TriggerOptions = {},
+  ): Promise<JobRecord> {
+    const reg = this.registry.get(jobId);
+    if (reg === undefined) throw new JobNotFoundError(jobId);
+    if (await this.store.isPaused(jobId)) throw new JobPausedError(jobId);
+    return this.execute(reg, this.options.now(), metadata, options.signal);
+  }
+
+  /** Cancels an execution running on this instance. */
+  cancel(executionId: string): boolean {
+    return this.controls.cancel(executionId);
+  }
+
+  async pause(jobId: string): Promise<void> {
+    if (!this.registry.has(jobId)) throw new JobNotFoundError(jobId);
+    await this.store.setPaused(jobId, true);
+  }
+
+  async resume(jobId: string): Promise<void> {
+    if (!this.registry.has(jobId)) throw new JobNotFoundError(jobId);
+    await this.store.setPaused(jobId, false);
+  }
+
+  isPaused(jobId: string): Promise<boolean> {
+    return this.store.isPaused(jobId);
+  }
+
+  getRecord(executionId: string): Promise<JobRecord | undefined> {
+    return this.store.getRecord(executionId);
+  }
+
+  getJobHistory(jobId: string): Promise<readonly JobRecord[]> {
+    return this.store.getJobHistory(jobId);
+  }
+
+  /** Executions started by this instance. */
+  getStats(): Promise<SchedulerStats> {
+    return Promise.resolve({
+      totalExecutions: this.stats.total,
+      successfulExecutions: this.stats.succeeded,
+      failedExecutions: this.stats.failed,
+      cancelledExecutions: this.stats.cancelled,
+      activeExecutions: this.stats.active,
+    });
+  }
+
+  /**
+   * Fires the runs that are due, returning how many were started; they keep
+   * running after the poll (see {@link whenIdle}). Concurrent calls share the
+   * poll in progress.
+   */
+  runOnce(): Promise<number> {
+    this.running ??= this.poll().finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  start(): void {
+    if (this.timer !== undefined) return;
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, this.options.pollIntervalMs);
+  }
+
+  /** Resolves once the runs started by polls of this instance have finished. */
+  async whenIdle(): Promise<void> {
+    while (this.inFlight.size > 0) await Promise.all(this.inFlight.values());
+  }
+
+  /** Stops polling, waits for the poll and the runs in progress and gives up leadership. */
+  async stop(): Promise<void> {
+    if (this.timer !== undefined) clearInterval(this.timer);
+    this.timer = undefined;
+    await this.running;
+    await this.whenIdle();
+    if (this.leader) await this.lock.release(this.leaderKey(), this.owner);
+    this.leader = false;
+  }
+
+  isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /** Whether this instance held the leader lease at its last poll (`leader` coordination). */
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * `false` when the last poll, or a run it started, failed, e.g. because the
+   * store was unreachable.
+   */
+  isHealthy(): boolean {
+    return this.lastError === undefined;
+  }
+
+  private async poll(): Promise<number> {
+    try {
+      const fired = await this.fireDueJobs();
+      this.lastError = undefined;
+      return fired;
+    } catch (error) {
+      this.lastError = error;
+      return 0;
+    }
+  }
+
+  private async fireDueJobs(): Promise<number> {
+    const now = this.options.now();
+    if (this.options.coordination === 'leader') {
+      this.leader = await this.lock.acquire(this.leaderKey(), this.owner, this.options.leaseMs);
+      if (!this.leader) return 0;
+    }
+    const fired = await Promise.all(this.registry.getAll().map((reg) => this.fireDue(reg, now)));
+    return fired.reduce((sum, count) => sum + count, 0);
+  }
+
+  private async fireDue(reg: JobRegistration, now: number): Promise<number> {
+    if (this.inFlight.has(reg.jobId)) return 0;
+    const stored = await this.store.getNextFireTime(reg.jobId);
+    const next = stored === undefined ? await this.initialize(reg, now) : stored;
+    if (next === null || next > now) return 0;
+    if (!(await this.claim(reg.jobId, next))) return 0;
+
+    const policy = reg.misfirePolicy ?? this.options.misfirePolicy;
+    const runs = this.runsUntil(reg, next, now, policy);
+    await this.store.setNextFireTime(
+      reg.jobId,
+      this.followingFireTime(reg, runs, next, now, policy),
+    );
+    if (await this.store.isPaused(reg.jobId)) return 0;
+
+    if (runs.length > 0) this.launch(reg, runs);
+    return runs.length;
+  }
+
+  /** Starts `runs` one after the other without holding up the poll. */
+  private launch(reg: JobRegistration, runs: readonly number[]): void {
+    const done = this.runInOrder(reg, runs)
+      .catch((error: unknown) => {
+        this.lastError = error;
+      })
+      .finally(() => this.inFlight.delete(reg.jobId));
+    this.inFlight.set(reg.jobId, done);
+  }
+
+  private async runInOrder(reg: JobRegistration, runs: readonly number[]): Promise<void> {
+    for (const scheduledAtMs of runs) {
+      await this.execute(reg, scheduledAtMs, {}).catch((error: unknown) => {
+        // A run still in progress from a manual trigger: this run is dropped.
+        if (!(error instanceof JobConcurrencyLimitError)) throw error;
+      });
+    }
+  }
+
+  /** With `per-run` coordination, locks the run due at `fireAtMs` unless another instance fired it. */
+  private async claim(jobId: string, fireAtMs: number): Promise<boolean> {
+    if (this.options.coordination === 'leader') return true;
+    const key = `${this.options.keyPrefix}:run:${jobId}:${fireAtMs.toString()}`;
+    if (!(await this.lock.acquire(key, this.owner, this.options.leaseMs))) return false;
+    // Another instance may have fired the run and released its lock in between.
+    return (await this.store.getNextFireTime(jobId)) === fireAtMs;
+  }
+
+  /**
+   * The runs due from `first` up to `now` under `policy`. `fire-all` walks
+   * them, at most `maxCatchUpRuns` per poll; the other policies jump to the
+   * last one or to the misfire window, however long the job was missed.
+   */
+  private runsUntil(
+    reg: JobRegistration,
+    first: number,
+    now: number,
+    policy: MisfirePolicy,
+  ): readonly number[] {
+    const { maxCatchUpRuns, misfireThresholdMs } = this.options;
+    if (policy === 'fire-all') return this.fireTimesBetween(reg, first, now, maxCatchUpRuns);
+    if (policy === 'fire-once') return [this.lastFireTimeUntil(reg, first, now)];
+    const onTime = this.fireTimeFrom(reg, first, now - misfireThresholdMs);
+    if (onTime === null || onTime > now) return [];
+    return this.fireTimesBetween(reg, onTime, now, Number.POSITIVE_INFINITY);
+  }
+
+  /** Next fire time to store once `runs` fired; `fire-all` resumes a capped catch-up from there. */
+  private followingFireTime(
+    reg: JobRegistration,
+    runs: readonly number[],
+    first: number,
+    now: number,
+    policy: MisfirePolicy,
+  ): number | null {
+    const last = policy === 'fire-all' ? runs.at(-1) : this.lastFireTimeUntil(reg, first, now);
+    return this.fireTimeAfter(reg, last ?? now);
+  }
+
+  /** Up to `limit` fire times from `first` (a fire time itself) up to `now`. */
+  private fireTimesBetween(
+    reg: JobRegistration,
+    first: number,
+    now: number,
+    limit: number,
+  ): number[] {
+    const times = [first];
+    let next = this.fireTimeAfter(reg, first);
+    while (next !== null && next <= now && times.length < limit) {
+      times.push(next);
+      next = this.fireTimeAfter(reg, next);
+    }
+    return times;
+  }
+
+  /** The first fire time at or after `fromMs`, counting from the fire time `first`. */
+  private fireTimeFrom(reg: JobRegistration, first: number, fromMs: number): number | null {
+    const { schedule } = reg;
+    if (fromMs <= first) return first;
+    if (schedule.kind === 'once') return null;
+    if (schedule.kind === 'interval') {
+      return first + Math.ceil((fromMs - first) / schedule.intervalMs) * schedule.intervalMs;
+    }
+    return this.fireTimeAfter(reg, fromMs - 1);
+  }
+
+  /** The last fire time up to `now`, counting from the fire time `first` (itself due). */
+  private lastFireTimeUntil(reg: JobRegistration, first: number, now: number): number {
+    const { schedule } = reg;
+    if (schedule.kind === 'once') return first;
+    if (schedule.kind === 'interval') {
+      return first + Math.floor((now - first) / schedule.intervalMs) * schedule.intervalMs;
+    }
+    const fields = this.cronFields.get(reg.jobId) ?? parseCron(schedule.expression);
+    const last = previousCronTime(fields, new Date(now + 1), schedule.timeZone)?.getTime();
+    return Math.max(first, last ?? first);
+  }
+
+  /** Stores the first fire time of a job no instance has scheduled yet. */
+  private async initialize(reg: JobRegistration, now: number): Promise<number | null> {
+    const first = this.firstFireTime(reg, now);
+    await this.store.setNextFireTime(reg.jobId, first);
+    return first;
+  }
+
+  private firstFireTime(reg: JobRegistration, now: number): number | null {
+    const { schedule } = reg;
+    if (schedule.kind === 'once') return schedule.runAtMs;
+    if (schedule.kind === 'interval') {
+      return schedule.runImmediately === true ? now : now + schedule.intervalMs;
+    }
+    return this.fireTimeAfter(reg, now);
+  }
+
+  private fireTimeAfter(reg: JobRegistration, afterMs: number): number | null {
+    const schedule: JobScheduleConfig = reg.schedule;
+    if (schedule.kind === 'once') return null;
+    if (schedule.kind === 'interval') return afterMs + schedule.intervalMs;
+    const fields = this.cronFields.get(reg.jobId) ?? parseCron(schedule.expression);
+    return nextCronTime(fields, new Date(afterMs), schedule.timeZone)?.getTime() ?? null;
+  }
+
+  private async execute(
+    reg: JobRegistration,
+    scheduledAtMs: number,
+    metadata: Readonly<Record<string, unknown>>,
+    signal?: AbortSignal,
+  ): Promise<JobRecord> {
+    const limiter = this.limiters.get(reg.jobId);
+    if (limiter !== undefined && !limiter.isAllowed(reg.jobId)) {
+      throw new JobConcurrencyLimitError(reg.jobId, reg.maxConcurrency ?? 1);
+    }
+    limiter?.acquire(reg.jobId);
+    const base = buildRunningRecord(reg, nextExecutionId(), scheduledAtMs);
+    try {
+      await this.store.saveRecord(base);
+      this.stats = incrementActive(this.stats);
+      const controller = this.controls.open(base.executionId, signal);
+      const done = await runExecution(reg, base, metadata, controller, this.options.delay);
+      this.stats = decrementActive(this.stats, done.status);
+      await this.store.saveRecord(done);
+      return done;
+    } finally {
+      this.controls.close(base.executionId);
+      limiter?.release(reg.jobId);
+    }
+  }
+
+  private leaderKey(): string {
+    return `${this.options.keyPrefix}:leader`;
+  }
+}
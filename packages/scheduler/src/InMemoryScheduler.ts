@@ -1,96 +1,21 @@
-import { JobConcurrencyLimitError, JobNotFoundError } from './JobErrors';
+import { JobConcurrencyLimitError, JobNotFoundError, JobPausedError } from './JobErrors';
 import { ConcurrencyLimiter } from './ConcurrencyLimiter';
 import { JobRegistry } from './JobRegistry';
+import {
+  EMPTY_STATS,
+  ExecutionControls,
+  buildRunningRecord,
+  decrementActive,
+  defaultDelay,
+  incrementActive,
+  nextExecutionId,
+  runExecution,
+} from './JobExecution';
+import type { DelayFn, StatsInternal } from './JobExecution';
 import type { SchedulerPort } from './SchedulerPort';
-import type { Job, JobContext, JobRecord, JobRegistration, SchedulerStats } from './JobTypes';
+import type { JobRecord, JobRegistration, SchedulerStats, TriggerOptions } from './JobTypes';
 
-// ---------------------------------------------------------------------------
-// Injectable delay (avoids real timers in tests)
-// ---------------------------------------------------------------------------
-
-export type DelayFn = (ms: number) => Promise<void>;
-
-const defaultDelay: DelayFn = (ms) => new Promise<void>((resolve) => setTimeout(resolve, ms));
-
-// ---------------------------------------------------------------------------
-// Mutable stats
-// ---------------------------------------------------------------------------
-
-interface StatsInternal {
-  total: number;
-  succeeded: number;
-  failed: number;
-  active: number;
-}
-
-function incrementActive(s: StatsInternal): StatsInternal {
-  return { ...s, total: s.total + 1, active: s.active + 1 };
-}
-
-function decrementActive(s: StatsInternal, outcome: 'succeeded' | 'failed'): StatsInternal {
-  if (outcome === 'succeeded') return { ...s, succeeded: s.succeeded + 1, active: s.active - 1 };
-  return { ...s, failed: s.failed + 1, active: s.active - 1 };
-}
-
-// ---------------------------------------------------------------------------
-// Record helpers
-// ---------------------------------------------------------------------------
-
-let idCounter = 0;
-
-function nextExecutionId(): string {
-  idCounter += 1;
-  return `exec-${idCounter.toString()}-${Date.now().toString()}`;
-}
-
-function buildRunningRecord(reg: JobRegistration, executionId: string): JobRecord {
-  const now = Date.now();
-  return {
-    jobId: reg.jobId,
-    jobName: reg.job.name,
-    executionId,
-    status: 'running',
-    scheduledAtMs: now,
-    startedAtMs: now,
-    attemptNumber: 1,
-  };
-}
-
-function succeededRecord(base: JobRecord): JobRecord {
-  return { ...base, status: 'succeeded', completedAtMs: Date.now() };
-}
-
-function failedRecord(base: JobRecord, reason: string): JobRecord {
-  return { ...base, status: 'failed', completedAtMs: Date.now(), failureReason: reason };
-}
-
-function errorMessage(err: unknown): string {
-  return err instanceof Error ? err.message : String(err);
-}
-
-// ---------------------------------------------------------------------------
-// Retry helper
-// ---------------------------------------------------------------------------
-
-async function runWithRetries(
-  job: Job,
-  context: JobContext,
-  maxRetries: number,
-  backoffMs: number,
-  delay: DelayFn,
-): Promise<void> {
-  let lastErr: unknown;
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      await job.execute({ ...context, attemptNumber: attempt + 1 });
-      return;
-    } catch (err) {
-      lastErr = err;
-      if (attempt < maxRetries) await delay(backoffMs * 2 ** attempt);
-    }
-  }
-  throw lastErr;
-}
+export type { DelayFn } from './JobExecution';
 
 // ---------------------------------------------------------------------------
 // Scheduler
@@ -99,7 +24,7 @@ async function runWithRetries(
 /**
  * In-memory implementation of {@link SchedulerPort}.
  *
- * Executes jobs synchronously within `trigger()` — no real timers. Combine
+ * Executes jobs within `trigger()` — no real timers except for `timeoutMs`. Combine
  * with {@link IntervalRunner} to drive periodic execution.
  *
  * @example
@@ -115,7 +40,9 @@ export class InMemoryScheduler implements SchedulerPort {
   private readonly records = new Map<string, JobRecord>();
   private readonly history = new Map<string, string[]>();
   private readonly limiters = new Map<string, ConcurrencyLimiter>();
-  private stats: StatsInternal = { total: 0, succeeded: 0, failed: 0, active: 0 };
+  private readonly paused = new Set<string>();
+  private readonly controls = new ExecutionControls();
+  private stats: StatsInternal = EMPTY_STATS;
   private readonly delay: DelayFn;
 
   constructor(delayFn?: DelayFn) {
@@ -130,6 +57,7 @@ export class InMemoryScheduler implements SchedulerPort {
   unregister(jobId: string): void {
     this.registry.unregister(jobId);
     this.limiters.delete(jobId);
+    this.paused.delete(jobId);
   }
 
   isRegistered(jobId: string): boolean {
@@ -139,9 +67,11 @@ export class InMemoryScheduler implements SchedulerPort {
   async trigger(
     jobId: string,
     metadata: Readonly<Record<string, unknown>> = {},
+    options: TriggerOptions = {},
   ): Promise<JobRecord> {
     const reg = this.registry.get(jobId);
     if (reg === undefined) throw new JobNotFoundError(jobId);
+    if (this.paused.has(jobId)) throw new JobPausedError(jobId);
 
     const limiter = this.limiters.get(jobId);
     if (limiter !== undefined && !limiter.isAllowed(jobId)) {
@@ -155,48 +85,36 @@ export class InMemoryScheduler implements SchedulerPort {
     this.appendHistory(jobId, executionId);
     this.stats = incrementActive(this.stats);
 
-    return this.run(reg, base, metadata, limiter);
-  }
-
-  private async run(
-    reg: JobRegistration,
-    base: JobRecord,
-    metadata: Readonly<Record<string, unknown>>,
-    limiter: ConcurrencyLimiter | undefined,
-  ): Promise<JobRecord> {
-    const context: JobContext = {
-      jobId: base.jobId,
-      executionId: base.executionId,
-      scheduledAtMs: base.scheduledAtMs,
-      attemptNumber: 1,
-      metadata,
-    };
+    const controller = this.controls.open(executionId, options.signal);
     try {
-      await runWithRetries(
-        reg.job,
-        context,
-        reg.maxRetries ?? 0,
-        reg.retryBackoffMs ?? 100,
-        this.delay,
-      );
-      return this.finalize(base, 'succeeded', undefined, limiter);
-    } catch (err) {
-      return this.finalize(base, 'failed', errorMessage(err), limiter);
+      const done = await runExecution(reg, base, metadata, controller, this.delay);
+      this.records.set(executionId, done);
+      this.stats = decrementActive(this.stats, done.status);
+      return done;
+    } finally {
+      this.controls.close(executionId);
+      limiter?.release(jobId);
     }
   }
 
-  private finalize(
-    base: JobRecord,
-    outcome: 'succeeded' | 'failed',
-    reason: string | undefined,
-    limiter: ConcurrencyLimiter | undefined,
-  ): JobRecord {
-    const done =
-      outcome === 'succeeded' ? succeededRecord(base) : failedRecord(base, reason ?? 'unknown');
-    this.records.set(base.executionId, done);
-    this.stats = decrementActive(this.stats, outcome);
-    limiter?.release(base.jobId);
-    return done;
+  cancel(executionId: string): boolean {
+    return this.controls.cancel(executionId);
+  }
+
+  pause(jobId: string): Promise<void> {
+    if (!this.registry.has(jobId)) return Promise.reject(new JobNotFoundError(jobId));
+    this.paused.add(jobId);
+    return Promise.resolve();
+  }
+
+  resume(jobId: string): Promise<void> {
+    if (!this.registry.has(jobId)) return Promise.reject(new JobNotFoundError(jobId));
+    this.paused.delete(jobId);
+    return Promise.resolve();
+  }
+
+  isPaused(jobId: string): Promise<boolean> {
+    return Promise.resolve(this.paused.has(jobId));
   }
 
   private appendHistory(jobId: string, executionId: string): void {
@@ -222,6 +140,7 @@ export class InMemoryScheduler implements SchedulerPort {
       totalExecutions: this.stats.total,
       successfulExecutions: this.stats.succeeded,
       failedExecutions: this.stats.failed,
+      cancelledExecutions: this.stats.cancelled,
       activeExecutions: this.stats.active,
     });
   }
@@ -232,6 +151,7 @@ export class InMemoryScheduler implements SchedulerPort {
     this.records.clear();
     this.history.clear();
     this.limiters.clear();
-    this.stats = { total: 0, succeeded: 0, failed: 0, active: 0 };
+    this.paused.clear();
+    this.stats = EMPTY_STATS;
   }
 }
@@ -59,3 +59,61 @@ export class InvalidCronExpressionError extends Error {
     super(`Invalid cron expression "${expression}": ${reason}`);
   }
 }
+
+/** Thrown when a time zone is not a valid IANA time zone name. */
+export class InvalidTimeZoneError extends Error {
+  override readonly name = 'InvalidTimeZoneError';
+  constructor(readonly timeZone: string) {
+    super(`Invalid time zone "${timeZone}"`);
+  }
+}
+
+/** Thrown when triggering a paused job. */
+export class JobPausedError extends Error {
+  override readonly name = 'JobPausedError';
+  constructor(readonly jobId: string) {
+    super(`Job "${jobId}" is paused`);
+  }
+}
+
+/** Abort reason of an execution that ran longer than its `timeoutMs`. */
+export class JobTimeoutError extends Error {
+  override readonly name = 'JobTimeoutError';
+  constructor(
+    readonly jobId: string,
+    readonly timeoutMs: number,
+  ) {
+    super(`Job "${jobId}" timed out after ${timeoutMs}ms`);
+  }
+}
+
+/** Abort reason of a cancelled execution. */
+export class JobCancelledError extends Error {
+  override readonly name = 'JobCancelledError';
+  constructor(readonly executionId: string) {
+    super(`Execution "${executionId}" was cancelled`);
+  }
+}
+
+/** Thrown when a workflow definition is not a valid DAG of registered jobs. */
+export class InvalidWorkflowError extends Error {
+  override readonly name = 'InvalidWorkflowError';
+  constructor(
+    readonly workflowId: string,
+    reason: string,
+  ) {
+    super(`Invalid workflow "${workflowId}": ${reason}`);
+  }
+}
+
+/** Thrown by a workflow run as a job when one of its steps did not succeed. */
+export class WorkflowFailedError extends Error {
+  override readonly name = 'WorkflowFailedError';
+  constructor(
+    readonly workflowId: string,
+    readonly runId: string,
+    readonly failedSteps: readonly string[],
+  ) {
+    super(`Workflow "${workflowId}" run "${runId}" failed at ${failedSteps.join(', ')}`);
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Execution helpers shared by the {@link SchedulerPort} implementations:
+ * record construction, stats bookkeeping, retries, timeouts and cancellation.
+ */
+import { JobCancelledError, JobTimeoutError } from './JobErrors';
+import type { Job, JobContext, JobRecord, JobRegistration } from './JobTypes';
+
+// ---------------------------------------------------------------------------
+// Injectable delay (avoids real timers in tests)
+// ---------------------------------------------------------------------------
+
+export type DelayFn = (ms: number) => Promise<void>;
+
+export const defaultDelay: DelayFn = (ms) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// ---------------------------------------------------------------------------
+// Mutable stats
+// ---------------------------------------------------------------------------
+
+export interface StatsInternal {
+  total: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  active: number;
+}
+
+export const EMPTY_STATS: StatsInternal = {
+  total: 0,
+  succeeded: 0,
+  failed: 0,
+  cancelled: 0,
+  active: 0,
+};
+
+export function incrementActive(s: StatsInternal): StatsInternal {
+  return { ...s, total: s.total + 1, active: s.active + 1 };
+}
+
+export function decrementActive(s: StatsInternal, outcome: JobRecord['status']): StatsInternal {
+  if (outcome === 'succeeded') return { ...s, succeeded: s.succeeded + 1, active: s.active - 1 };
+  if (outcome === 'cancelled') return { ...s, cancelled: s.cancelled + 1, active: s.active - 1 };
+  return { ...s, failed: s.failed + 1, active: s.active - 1 };
+}
+
+// ---------------------------------------------------------------------------
+// Record helpers
+// ---------------------------------------------------------------------------
+
+/** Execution ids stay unique across the instances sharing a job store. */
+export function nextExecutionId(): string {
+  return crypto.randomUUID();
+}
+
+export function buildRunningRecord(
+  reg: JobRegistration,
+  executionId: string,
+  scheduledAtMs?: number,
+): JobRecord {
+  const now = Date.now();
+  return {
+    jobId: reg.jobId,
+    jobName: reg.job.name,
+    executionId,
+    status: 'running',
+    scheduledAtMs: scheduledAtMs ?? now,
+    startedAtMs: now,
+    attemptNumber: 1,
+  };
+}
+
+export function succeededRecord(base: JobRecord, result?: unknown): JobRecord {
+  return {
+    ...base,
+    status: 'succeeded',
+    completedAtMs: Date.now(),
+    ...(result !== undefined && { result }),
+  };
+}
+
+export function failedRecord(base: JobRecord, reason: string): JobRecord {
+  return { ...base, status: 'failed', completedAtMs: Date.now(), failureReason: reason };
+}
+
+export function cancelledRecord(base: JobRecord): JobRecord {
+  return { ...base, status: 'cancelled', completedAtMs: Date.now() };
+}
+
+export function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ---------------------------------------------------------------------------
+// Retry helper
+// ---------------------------------------------------------------------------
+
+function abortReason(signal: AbortSignal): Error {
+  const reason: unknown = signal.reason;
+  return reason instanceof Error ? reason : new Error(String(reason));
+}
+
+/** Settles like `promise`, or rejects with the abort reason as soon as `signal` aborts. */
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(abortReason(signal));
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Executes a job until an attempt succeeds, returning its result. Stops
+ * retrying, and rejects with the abort reason, once the context's signal
+ * aborts.
+ */
+export async function runWithRetries(
+  job: Job,
+  context: JobContext,
+  maxRetries: number,
+  backoffMs: number,
+  delay: DelayFn,
+): Promise<unknown> {
+  const { signal } = context;
+  let lastErr: unknown;
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      return await untilAborted(job.execute({ ...context, attemptNumber: attempt + 1 }), signal);
+    } catch (err) {
+      if (signal.aborted) throw abortReason(signal);
+      lastErr = err;
+      if (attempt < maxRetries) await untilAborted(delay(backoffMs * 2 ** attempt), signal);
+    }
+  }
+  throw lastErr;
+}
+
+// ---------------------------------------------------------------------------
+// Execution
+// ---------------------------------------------------------------------------
+
+/**
+ * Abort controllers of the executions running in a scheduler, so they can
+ * be cancelled by id or through a caller's signal.
+ */
+export class ExecutionControls {
+  private readonly running = new Map<
+    string,
+    { readonly controller: AbortController; readonly detach: () => void }
+  >();
+
+  /** Registers an execution; aborting `external` cancels it. */
+  open(executionId: string, external?: AbortSignal): AbortController {
+    const controller = new AbortController();
+    const onAbort = (): void => controller.abort(new JobCancelledError(executionId));
+    if (external?.aborted === true) onAbort();
+    else external?.addEventListener('abort', onAbort, { once: true });
+    this.running.set(executionId, {
+      controller,
+      detach: () => external?.removeEventListener('abort', onAbort),
+    });
+    return controller;
+  }
+
+  close(executionId: string): void {
+    this.running.get(executionId)?.detach();
+    this.running.delete(executionId);
+  }
+
+  cancel(executionId: string): boolean {
+    const controller = this.running.get(executionId)?.controller;
+    if (controller === undefined || controller.signal.aborted) return false;
+    controller.abort(new JobCancelledError(executionId));
+    return true;
+  }
+}
+
+/**
+ * Runs an execution to its final record: retries failures, fails it after
+ * the registration's `timeoutMs` and ends it `cancelled` when `controller`
+ * aborts with a {@link JobCancelledError}.
+ */
+export async function runExecution(
+  reg: JobRegistration,
+  base: JobRecord,
+  metadata: Readonly<Record<string, unknown>>,
+  controller: AbortController,
+  delay: DelayFn,
+): Promise<JobRecord> {
+  const { timeoutMs } = reg;
+  const timer =
+    timeoutMs === undefined
+      ? undefined
+      : setTimeout(() => controller.abort(new JobTimeoutError(reg.jobId, timeoutMs)), timeoutMs);
+  const context: JobContext = {
+    jobId: base.jobId,
+    executionId: base.executionId,
+    scheduledAtMs: base.scheduledAtMs,
+    attemptNumber: 1,
+    metadata,
+    signal: controller.signal,
+  };
+  try {
+    const result = await runWithRetries(
+      reg.job,
+      context,
+      reg.maxRetries ?? 0,
+      reg.retryBackoffMs ?? 100,
+      delay,
+    );
+    return succeededRecord(base, result);
+  } catch (err) {
+    if (err instanceof JobCancelledError) return cancelledRecord(base);
+    return failedRecord(base, errorMessage(err));
+  } finally {
+    clearTimeout(timer);
+  }
+}
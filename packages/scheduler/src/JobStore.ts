@@ -0,0 +1,90 @@
+import type { JobRecord } from './JobTypes';
+
+/**
+ * Persistence for execution records and fire times, shared by every instance
+ * of a distributed scheduler.
+ */
+export interface JobStore {
+  /** Insert or replace a record (records are saved when a run starts and when it ends). */
+  saveRecord(record: JobRecord): Promise<void>;
+
+  getRecord(executionId: string): Promise<JobRecord | undefined>;
+
+  /** Execution records of a job, oldest first. */
+  getJobHistory(jobId: string): Promise<readonly JobRecord[]>;
+
+  /**
+   * When the job fires next (epoch ms): `null` once it has no further runs
+   * (a fired one-off job), `undefined` when nothing is stored yet.
+   */
+  getNextFireTime(jobId: string): Promise<number | null | undefined>;
+
+  setNextFireTime(jobId: string, fireAtMs: number | null): Promise<void>;
+
+  isPaused(jobId: string): Promise<boolean>;
+
+  setPaused(jobId: string, paused: boolean): Promise<void>;
+}
+
+/**
+ * In-memory {@link JobStore}; state is lost on restart, so it only suits
+ * tests and single-instance setups.
+ */
+export class InMemoryJobStore implements JobStore {
+  private readonly records = new Map<string, JobRecord>();
+  private readonly history = new Map<string, string[]>();
+  private readonly fireTimes = new Map<string, number | null>();
+  private readonly paused = new Set<string>();
+
+  saveRecord(record: JobRecord): Promise<void> {
+    if (!this.records.has(record.executionId)) {
+      this.history.set(record.jobId, [
+        ...(this.history.get(record.jobId) ?? []),
+        record.executionId,
+      ]);
+    }
+    this.records.set(record.executionId, record);
+    return Promise.resolve();
+  }
+
+  getRecord(executionId: string): Promise<JobRecord | undefined> {
+    return Promise.resolve(this.records.get(executionId));
+  }
+
+  getJobHistory(jobId: string): Promise<readonly JobRecord[]> {
+    const ids = this.history.get(jobId) ?? [];
+    return Promise.resolve(
+      ids.flatMap((id) => {
+        const record = this.records.get(id);
+        return record === undefined ? [] : [record];
+      }),
+    );
+  }
+
+  getNextFireTime(jobId: string): Promise<number | null | undefined> {
+    return Promise.resolve(this.fireTimes.get(jobId));
+  }
+
+  setNextFireTime(jobId: string, fireAtMs: number | null): Promise<void> {
+    this.fireTimes.set(jobId, fireAtMs);
+    return Promise.resolve();
+  }
+
+  isPaused(jobId: string): Promise<boolean> {
+    return Promise.resolve(this.paused.has(jobId));
+  }
+
+  setPaused(jobId: string, paused: boolean): Promise<void> {
+    if (paused) this.paused.add(jobId);
+    else this.paused.delete(jobId);
+    return Promise.resolve();
+  }
+
+  /** Reset all state — useful between tests. */
+  clear(): void {
+    this.records.clear();
+    this.history.clear();
+    this.fireTimes.clear();
+    this.paused.clear();
+  }
+}
@@ -8,6 +8,11 @@ export interface JobContext {
   readonly scheduledAtMs: number;
   readonly attemptNumber: number;
   readonly metadata: Readonly<Record<string, unknown>>;
+  /**
+   * Aborted when the execution is cancelled or times out. Long-running jobs
+   * should pass it on (e.g. to `fetch`) or check it between units of work.
+   */
+  readonly signal: AbortSignal;
 }
 
 // ---------------------------------------------------------------------------
@@ -16,7 +21,8 @@ export interface JobContext {
 
 export interface Job {
   readonly name: string;
-  execute(context: JobContext): Promise<void>;
+  /** The resolved value becomes the execution's `result`, e.g. for downstream workflow steps. */
+  execute(context: JobContext): Promise<unknown>;
 }
 
 // ---------------------------------------------------------------------------
@@ -37,8 +43,10 @@ export interface IntervalScheduleConfig {
 
 export interface CronScheduleConfig {
   readonly kind: 'cron';
-  /** Standard 5-field cron expression: minute hour dayOfMonth month dayOfWeek */
+  /** Cron expression with 5 to 7 fields, or a macro such as `@daily` — see `parseCron`. */
   readonly expression: string;
+  /** IANA time zone the expression is evaluated in, e.g. `'Europe/Berlin'`. Default: the host's. */
+  readonly timeZone?: string;
 }
 
 export interface OnceScheduleConfig {
@@ -49,6 +57,15 @@ export interface OnceScheduleConfig {
 
 export type JobScheduleConfig = IntervalScheduleConfig | CronScheduleConfig | OnceScheduleConfig;
 
+/**
+ * What a scheduler does with runs that fell due while no instance was running
+ * (e.g. during a deployment):
+ * - `fire-once` — run the job once for all of them,
+ * - `fire-all` — run the job once per missed run,
+ * - `skip` — drop them and wait for the next fire time.
+ */
+export type MisfirePolicy = 'fire-once' | 'fire-all' | 'skip';
+
 // ---------------------------------------------------------------------------
 // Execution record (immutable snapshot per execution)
 // ---------------------------------------------------------------------------
@@ -63,6 +80,8 @@ export interface JobRecord {
   readonly completedAtMs?: number;
   readonly failureReason?: string;
   readonly attemptNumber: number;
+  /** Value resolved by a succeeded execution, if any. */
+  readonly result?: unknown;
 }
 
 // ---------------------------------------------------------------------------
@@ -76,6 +95,19 @@ export interface JobRegistration {
   readonly maxConcurrency?: number;
   readonly maxRetries?: number;
   readonly retryBackoffMs?: number;
+  /** Overrides the scheduler's misfire policy for this job. */
+  readonly misfirePolicy?: MisfirePolicy;
+  /**
+   * Fails an execution still running after this long (ms), retries included,
+   * and aborts its signal.
+   */
+  readonly timeoutMs?: number;
+}
+
+/** Options of a single {@link SchedulerPort.trigger} call. */
+export interface TriggerOptions {
+  /** Cancels the execution when aborted. */
+  readonly signal?: AbortSignal;
 }
 
 // ---------------------------------------------------------------------------
@@ -86,5 +118,6 @@ export interface SchedulerStats {
   readonly totalExecutions: number;
   readonly successfulExecutions: number;
   readonly failedExecutions: number;
+  readonly cancelledExecutions: number;
   readonly activeExecutions: number;
 }
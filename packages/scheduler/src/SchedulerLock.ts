@@ -0,0 +1,38 @@
+/**
+ * Expiring lock used by a distributed scheduler to elect a leader or to claim
+ * a single run. Locks expire after their TTL so a crashed holder cannot block
+ * the others forever.
+ */
+export interface SchedulerLock {
+  /**
+   * Acquire `key` for `owner` during `ttlMs`. Returns `true` when the lock was
+   * free or expired, and also when `owner` already holds it — the TTL is then
+   * extended, which is how a leader renews its lease.
+   */
+  acquire(key: string, owner: string, ttlMs: number): Promise<boolean>;
+
+  /** Release `key` if `owner` still holds it. */
+  release(key: string, owner: string): Promise<void>;
+}
+
+/** Process-local {@link SchedulerLock}, for tests and single-instance setups. */
+export class InMemorySchedulerLock implements SchedulerLock {
+  private readonly locks = new Map<string, { owner: string; expiresAtMs: number }>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  acquire(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const held = this.locks.get(key);
+    const now = this.now();
+    if (held !== undefined && held.owner !== owner && held.expiresAtMs > now) {
+      return Promise.resolve(false);
+    }
+    this.locks.set(key, { owner, expiresAtMs: now + ttlMs });
+    return Promise.resolve(true);
+  }
+
+  release(key: string, owner: string): Promise<void> {
+    if (this.locks.get(key)?.owner === owner) this.locks.delete(key);
+    return Promise.resolve();
+  }
+}
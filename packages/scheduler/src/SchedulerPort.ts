@@ -1,4 +1,4 @@
-import type { JobRecord, JobRegistration, SchedulerStats } from './JobTypes';
+import type { JobRecord, JobRegistration, SchedulerStats, TriggerOptions } from './JobTypes';
 
 /**
  * Primary port for the scheduling system.
@@ -14,8 +14,29 @@ export interface SchedulerPort {
   /** Remove a registered job. Throws {@link JobNotFoundError} if not registered. */
   unregister(jobId: string): void;
 
-  /** Immediately execute a job, respecting concurrency limits. */
-  trigger(jobId: string, metadata?: Readonly<Record<string, unknown>>): Promise<JobRecord>;
+  /**
+   * Immediately execute a job, respecting concurrency limits. Rejects with
+   * {@link JobPausedError} while the job is paused.
+   */
+  trigger(
+    jobId: string,
+    metadata?: Readonly<Record<string, unknown>>,
+    options?: TriggerOptions,
+  ): Promise<JobRecord>;
+
+  /**
+   * Cancel a running execution: its signal is aborted and it ends
+   * `cancelled` without waiting for the job to stop. Returns `false` when no
+   * such execution is running on this instance.
+   */
+  cancel(executionId: string): boolean;
+
+  /** Stop running a job until {@link resume}d. Throws {@link JobNotFoundError} if not registered. */
+  pause(jobId: string): Promise<void>;
+
+  resume(jobId: string): Promise<void>;
+
+  isPaused(jobId: string): Promise<boolean>;
 
   /** Retrieve a single execution record by its execution id. */
   getRecord(executionId: string): Promise<JobRecord | undefined>;
@@ -0,0 +1,84 @@
+import { InvalidTimeZoneError } from './JobErrors';
+
+// ---------------------------------------------------------------------------
+// Wall-clock conversions
+//
+// A "wall clock" is the date and time shown by clocks in a time zone,
+// encoded as epoch milliseconds as if it were UTC — `getUTCHours()` returns
+// the local hour. Arithmetic on wall clocks is free of DST transitions.
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 86_400_000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (formatter === undefined) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+    } catch {
+      throw new InvalidTimeZoneError(timeZone);
+    }
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** IANA name of the host's time zone. */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** Throws {@link InvalidTimeZoneError} unless `timeZone` is a known IANA time zone. */
+export function assertTimeZone(timeZone: string): string {
+  formatterFor(timeZone);
+  return timeZone;
+}
+
+/** Wall clock of `instantMs` in `timeZone`, to the second. */
+export function toWallClock(instantMs: number, timeZone: string): number {
+  const parts = formatterFor(timeZone).formatToParts(new Date(instantMs));
+  const part = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((p) => p.type === type)?.value);
+  return Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second'),
+  );
+}
+
+/**
+ * Instant at which clocks in `timeZone` show `wallClockMs`.
+ *
+ * - A time skipped by a DST gap resolves to the instant as far past the gap
+ *   as the time is past its start: with clocks jumping from 02:00 to 03:00,
+ *   02:30 resolves to 03:30.
+ * - A time repeated by a DST overlap resolves to its first occurrence.
+ */
+export function fromWallClock(wallClockMs: number, timeZone: string): number {
+  // Offsets a day apart bracket the (at most one) transition near the time.
+  const beforeTransition = wallClockMs - offsetAt(wallClockMs - DAY_MS, timeZone);
+  const afterTransition = wallClockMs - offsetAt(wallClockMs + DAY_MS, timeZone);
+  const matching = [beforeTransition, afterTransition].filter(
+    (instant) => toWallClock(instant, timeZone) === wallClockMs,
+  );
+  return matching.length > 0 ? Math.min(...matching) : beforeTransition;
+}
+
+function offsetAt(instantMs: number, timeZone: string): number {
+  const wholeSecond = Math.floor(instantMs / 1000) * 1000;
+  return toWallClock(wholeSecond, timeZone) - wholeSecond;
+}
@@ -0,0 +1,292 @@
+import { InvalidWorkflowError, WorkflowFailedError } from './JobErrors';
+import type { SchedulerPort } from './SchedulerPort';
+import type { Job, JobContext, JobRecord } from './JobTypes';
+
+// ---------------------------------------------------------------------------
+// Workflow definition
+// ---------------------------------------------------------------------------
+
+export interface WorkflowStep {
+  /** A job registered with the scheduler; it also identifies the step. */
+  readonly jobId: string;
+  /** Steps that must succeed before this one starts. */
+  readonly dependsOn?: readonly string[];
+}
+
+/** Steps forming a directed acyclic graph through their `dependsOn`. */
+export interface WorkflowDefinition {
+  readonly workflowId: string;
+  readonly steps: readonly WorkflowStep[];
+}
+
+// ---------------------------------------------------------------------------
+// Workflow run
+// ---------------------------------------------------------------------------
+
+export type WorkflowStepStatus = 'succeeded' | 'failed' | 'cancelled' | 'skipped';
+
+export interface WorkflowStepOutcome {
+  /** `skipped` when a step it depends on did not succeed, or the run was cancelled first. */
+  readonly status: WorkflowStepStatus;
+  /** The execution record, unless the step was skipped or could not be triggered. */
+  readonly record?: JobRecord;
+  readonly failureReason?: string;
+}
+
+export interface WorkflowRun {
+  readonly workflowId: string;
+  readonly runId: string;
+  /** `failed` when any step failed, `cancelled` when the run was cancelled. */
+  readonly status: 'succeeded' | 'failed' | 'cancelled';
+  readonly steps: Readonly<Record<string, WorkflowStepOutcome>>;
+}
+
+/** What a workflow step finds under `metadata.workflow` of its {@link JobContext}. */
+export interface WorkflowStepMetadata {
+  readonly workflowId: string;
+  readonly runId: string;
+  /** Parameters the run was started with. */
+  readonly params: Readonly<Record<string, unknown>>;
+  /** Results of the steps this one depends on, by job id. */
+  readonly upstream: Readonly<Record<string, unknown>>;
+}
+
+/** The workflow metadata of a step's context, or `undefined` outside a workflow. */
+export function workflowMetadata(context: JobContext): WorkflowStepMetadata | undefined {
+  return context.metadata['workflow'] as WorkflowStepMetadata | undefined;
+}
+
+export interface WorkflowRunOptions {
+  /** Cancels the running steps and skips the remaining ones when aborted. */
+  readonly signal?: AbortSignal;
+}
+
+export interface WorkflowRunnerOptions {
+  /** Generates ids of runs. Default: `crypto.randomUUID()`. */
+  readonly generateRunId?: () => string;
+}
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+/**
+ * Runs workflows of registered jobs on a {@link SchedulerPort}: each step is
+ * triggered once all the steps it depends on succeeded, so independent
+ * steps run in parallel (fan-out) and a step depending on several others
+ * waits for all of them (fan-in). A failed step skips everything downstream
+ * of it; unrelated branches still run.
+ *
+ * Steps go through `trigger`, so they keep their retries, timeouts,
+ * concurrency limits and history, and a paused job fails its step.
+ *
+ * @example
+ * ```ts
+ * const runner = new WorkflowRunner(scheduler);
+ * const nightly: WorkflowDefinition = {
+ *   workflowId: 'nightly',
+ *   steps: [
+ *     { jobId: 'extract-orders' },
+ *     { jobId: 'extract-customers' },
+ *     { jobId: 'build-report', dependsOn: ['extract-orders', 'extract-customers'] },
+ *   ],
+ * };
+ * // Run it every night at 02:00 like any other job
+ * scheduler.register({
+ *   jobId: 'nightly',
+ *   job: runner.toJob(nightly),
+ *   schedule: { kind: 'cron', expression: '0 2 * * *' },
+ * });
+ * ```
+ */
+export class WorkflowRunner {
+  private readonly generateRunId: () => string;
+
+  constructor(
+    private readonly scheduler: SchedulerPort,
+    options: WorkflowRunnerOptions = {},
+  ) {
+    this.generateRunId = options.generateRunId ?? ((): string => crypto.randomUUID());
+  }
+
+  /**
+   * Runs a workflow to completion. Rejects with {@link InvalidWorkflowError}
+   * when the steps do not form a DAG of registered jobs.
+   */
+  async run(
+    definition: WorkflowDefinition,
+    params: Readonly<Record<string, unknown>> = {},
+    options: WorkflowRunOptions = {},
+  ): Promise<WorkflowRun> {
+    this.validate(definition);
+    const run = new RunState(definition, this.generateRunId(), params);
+    const running = new Map<string, Promise<void>>();
+    for (;;) {
+      for (const step of run.ready(options.signal?.aborted === true)) {
+        running.set(
+          step.jobId,
+          this.runStep(run, step, options.signal).finally(() => running.delete(step.jobId)),
+        );
+      }
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
+    return run.result(options.signal?.aborted === true);
+  }
+
+  /**
+   * Wraps a workflow as a {@link Job}, e.g. to schedule it. The job resolves
+   * with the {@link WorkflowRun}, rejects with {@link WorkflowFailedError}
+   * when a step failed, and cancels the run when its own execution is.
+   */
+  toJob(definition: WorkflowDefinition, params: Readonly<Record<string, unknown>> = {}): Job {
+    return {
+      name: `workflow:${definition.workflowId}`,
+      execute: async (context): Promise<WorkflowRun> => {
+        const run = await this.run(definition, params, { signal: context.signal });
+        if (run.status === 'failed') {
+          const failed = Object.keys(run.steps).filter((id) => run.steps[id]?.status === 'failed');
+          throw new WorkflowFailedError(run.workflowId, run.runId, failed);
+        }
+        return run;
+      },
+    };
+  }
+
+  private async runStep(run: RunState, step: WorkflowStep, signal?: AbortSignal): Promise<void> {
+    const metadata: WorkflowStepMetadata = {
+      workflowId: run.definition.workflowId,
+      runId: run.runId,
+      params: run.params,
+      upstream: run.upstreamOf(step),
+    };
+    try {
+      const record = await this.scheduler.trigger(
+        step.jobId,
+        { workflow: metadata },
+        signal === undefined ? {} : { signal },
+      );
+      run.settle(step.jobId, {
+        status:
+          record.status === 'succeeded' || record.status === 'cancelled' ? record.status : 'failed',
+        record,
+        ...(record.failureReason !== undefined && { failureReason: record.failureReason }),
+      });
+    } catch (error) {
+      run.settle(step.jobId, {
+        status: 'failed',
+        failureReason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private validate({ workflowId, steps }: WorkflowDefinition): void {
+    const ids = new Set<string>();
+    for (const step of steps) {
+      if (ids.has(step.jobId)) {
+        throw new InvalidWorkflowError(workflowId, `duplicate step "${step.jobId}"`);
+      }
+      if (!this.scheduler.isRegistered(step.jobId)) {
+        throw new InvalidWorkflowError(workflowId, `job "${step.jobId}" is not registered`);
+      }
+      ids.add(step.jobId);
+    }
+    for (const step of steps) {
+      const unknown = (step.dependsOn ?? []).find((id) => !ids.has(id));
+      if (unknown !== undefined) {
+        throw new InvalidWorkflowError(
+          workflowId,
+          `"${step.jobId}" depends on unknown "${unknown}"`,
+        );
+      }
+    }
+    const cycle = findCycle(steps);
+    if (cycle !== undefined) {
+      throw new InvalidWorkflowError(workflowId, `cycle ${cycle.join(' -> ')}`);
+    }
+  }
+}
+
+/** Outcomes of one run as they settle. */
+class RunState {
+  private readonly outcomes = new Map<string, WorkflowStepOutcome>();
+  private readonly started = new Set<string>();
+
+  constructor(
+    readonly definition: WorkflowDefinition,
+    readonly runId: string,
+    readonly params: Readonly<Record<string, unknown>>,
+  ) {}
+
+  /**
+   * Steps to start now: those whose dependencies all succeeded. Steps that
+   * can no longer run — downstream of a step that did not succeed, or any
+   * step once `cancelled` — are settled as skipped.
+   */
+  ready(cancelled: boolean): WorkflowStep[] {
+    const ready: WorkflowStep[] = [];
+    // Skipping a step can make its dependents skippable in turn.
+    for (let changed = true; changed; ) {
+      changed = false;
+      for (const step of this.definition.steps) {
+        if (this.started.has(step.jobId)) continue;
+        const dependencies = (step.dependsOn ?? []).map((id) => this.outcomes.get(id)?.status);
+        if (cancelled || dependencies.some((s) => s !== undefined && s !== 'succeeded')) {
+          this.started.add(step.jobId);
+          this.outcomes.set(step.jobId, { status: 'skipped' });
+          changed = true;
+        } else if (dependencies.every((s) => s === 'succeeded')) {
+          this.started.add(step.jobId);
+          ready.push(step);
+        }
+      }
+    }
+    return ready;
+  }
+
+  settle(jobId: string, outcome: WorkflowStepOutcome): void {
+    this.outcomes.set(jobId, outcome);
+  }
+
+  upstreamOf(step: WorkflowStep): Record<string, unknown> {
+    return Object.fromEntries(
+      (step.dependsOn ?? []).map((id) => [id, this.outcomes.get(id)?.record?.result]),
+    );
+  }
+
+  result(cancelled: boolean): WorkflowRun {
+    const statuses = [...this.outcomes.values()].map((outcome) => outcome.status);
+    const status = statuses.includes('failed')
+      ? 'failed'
+      : cancelled || statuses.includes('cancelled')
+        ? 'cancelled'
+        : 'succeeded';
+    return {
+      workflowId: this.definition.workflowId,
+      runId: this.runId,
+      status,
+      steps: Object.fromEntries(this.outcomes),
+    };
+  }
+}
+
+/** A dependency cycle among the steps, as a path of job ids, if there is one. */
+function findCycle(steps: readonly WorkflowStep[]): string[] | undefined {
+  const dependencies = new Map(steps.map((step) => [step.jobId, step.dependsOn ?? []]));
+  const done = new Set<string>();
+  const visit = (id: string, path: string[]): string[] | undefined => {
+    if (path.includes(id)) return [...path.slice(path.indexOf(id)), id];
+    if (done.has(id)) return undefined;
+    for (const dependency of dependencies.get(id) ?? []) {
+      const cycle = visit(dependency, [...path, id]);
+      if (cycle !== undefined) return cycle;
+    }
+    done.add(id);
+    return undefined;
+  };
+  for (const step of steps) {
+    const cycle = visit(step.jobId, []);
+    if (cycle !== undefined) return cycle;
+  }
+  return undefined;
+}
@@ -0,0 +1,517 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DistributedScheduler,
+  InMemoryJobStore,
+  InMemorySchedulerLock,
+  InvalidCronExpressionError,
+  InvalidTimeZoneError,
+  JobNotFoundError,
+  JobPausedError,
+  nextCronTime,
+  parseCron,
+} from './index';
+import type { DistributedSchedulerOptions, Job, JobContext, JobRegistration } from './index';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const MINUTE = 60_000;
+const T0 = new Date('2026-03-02T10:00:00').getTime();
+
+function makeClock(start = T0) {
+  let now = start;
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+function recordingJob(runs: JobContext[], fail = false): Job {
+  return {
+    name: 'recording',
+    execute: (ctx) => {
+      runs.push(ctx);
+      return fail ? Promise.reject(new Error('boom')) : Promise.resolve();
+    },
+  };
+}
+
+function everyMinute(job: Job, overrides: Partial<JobRegistration> = {}): JobRegistration {
+  return { jobId: 'job-1', job, schedule: { kind: 'interval', intervalMs: MINUTE }, ...overrides };
+}
+
+function makeScheduler(
+  clock: ReturnType<typeof makeClock>,
+  options: DistributedSchedulerOptions = {},
+  store = new InMemoryJobStore(),
+  lock = new InMemorySchedulerLock(clock.now),
+) {
+  const scheduler = new DistributedScheduler(store, lock, {
+    now: clock.now,
+    delay: () => Promise.resolve(),
+    ...options,
+  });
+  return { scheduler, store, lock };
+}
+
+// ---------------------------------------------------------------------------
+// nextCronTime
+// ---------------------------------------------------------------------------
+
+describe('nextCronTime', () => {
+  it('returns the next matching minute strictly after the given date', () => {
+    const next = nextCronTime(parseCron('*/15 * * * *'), new Date('2026-03-02T10:15:00'));
+    expect(next).toEqual(new Date('2026-03-02T10:30:00'));
+  });
+
+  it('rolls over hours, days and months', () => {
+    const fields = parseCron('0 9 1 * *');
+    expect(nextCronTime(fields, new Date('2026-03-02T10:00:00'))).toEqual(
+      new Date('2026-04-01T09:00:00'),
+    );
+  });
+
+  it('honours the day of week', () => {
+    // 2026-03-02 is a Monday.
+    const next = nextCronTime(parseCron('30 8 * * 5'), new Date('2026-03-02T10:00:00'));
+    expect(next).toEqual(new Date('2026-03-06T08:30:00'));
+  });
+
+  it('returns undefined for an expression that never matches', () => {
+    expect(nextCronTime(parseCron('0 0 30 2 *'), new Date(T0))).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// DistributedScheduler
+// ---------------------------------------------------------------------------
+
+describe('DistributedScheduler — firing', () => {
+  it('schedules the first run on the first poll and fires it once due', async () => {
+    const clock = makeClock();
+    const runs: JobContext[] = [];
+    const { scheduler, store } = makeScheduler(clock);
+    scheduler.register(everyMinute(recordingJob(runs)));
+
+    expect(await scheduler.runOnce()).toBe(0);
+    expect(await store.getNextFireTime('job-1')).toBe(T0 + MINUTE);
+
+    clock.advance(MINUTE);
+    expect(await scheduler.runOnce()).toBe(1);
+    expect(runs[0]?.scheduledAtMs).toBe(T0 + MINUTE);
+    expect(await store.getNextFireTime('job-1')).toBe(T0 + 2 * MINUTE);
+  });
+
+  it('fires interval jobs with runImmediately on the first poll', async () => {
+    const clock = makeClock();
+    const runs: JobContext[] = [];
+    const { scheduler } = makeScheduler(clock);
+    scheduler.register({
+      jobId: 'job-1',
+      job: recordingJob(runs),
+      schedule: { kind: 'interval', intervalMs: MINUTE, runImmediately: true },
+    });
+
+    expect(await scheduler.runOnce()).toBe(1);
+  });
+
+  it('fires cron jobs at their next fire times', async () => {
+    const clock = makeClock(new Date('2026-03-02T10:07:00').getTime());
+    const runs: JobContext[] = [];
+    const { scheduler } = makeScheduler(clock);
+    scheduler.register({
+      jobId: 'cron',
+      job: recordingJob(runs),
+      schedule: { kind: 'cron', expression: '*/10 * * * *' },
+    });
+
+    await scheduler.runOnce();
+    clock.advance(3 * MINUTE);
+    await scheduler.runOnce();
+
+    expect(runs.map((r) => new Date(r.scheduledAtMs))).toEqual([new Date('2026-03-02T10:10:00')]);
+  });
+
+  it('evaluates cron jobs in their time zone', async () => {
+    const clock = makeClock(Date.UTC(2026, 0, 10, 11, 0));
+    const runs: JobContext[] = [];
+    const { scheduler, store } = makeScheduler(clock);
+    scheduler.register({
+      jobId: 'cron',
+      job: recordingJob(runs),
+      schedule: { kind: 'cron', expression: '0 9 * * *', timeZone: 'America/Sao_Paulo' },
+    });
+
+    await scheduler.runOnce();
+
+    expect(await store.getNextFireTime('cron')).toBe(Date.UTC(2026, 0, 10, 12, 0));
+    expect(() =>
+      scheduler.register({
+        jobId: 'bad-zone',
+        job: recordingJob(runs),
+        schedule: { kind: 'cron', expression: '@daily', timeZone: 'Nowhere/Special' },
+      }),
+    ).toThrow(InvalidTimeZoneError);
+  });
+
+  it('fires one-off jobs once', async () => {
+    const clock = makeClock();
+    const runs: JobContext[] = [];
+    const { scheduler, store } = makeScheduler(clock);
+    scheduler.register({
+      jobId: 'once',
+      job: recordingJob(runs),
+      schedule: { kind: 'once', runAtMs: T0 + MINUTE },
+    });
+
+    await scheduler.runOnce();
+    clock.advance(MINUTE);
+    await scheduler.runOnce();
+    clock.advance(MINUTE);
+    await scheduler.runOnce();
+
+    expect(runs).toHaveLength(1);
+    expect(await store.getNextFireTime('once')).toBeNull();
+  });
+
+  it('persists running and finished records in the store', async () => {
+    const clock = makeClock();
+    const { scheduler } = makeScheduler(clock);
+    scheduler.register(everyMinute(recordingJob([], true), { maxRetries: 1 }));
+
+    await scheduler.runOnce();
+    clock.advance(MINUTE);
+    await scheduler.runOnce();
+    await scheduler.whenIdle();
+
+    const [record] = await scheduler.getJobHistory('job-1');
+    expect(record?.status).toBe('failed');
+    expect(record?.failureReason).toBe('boom');
+    expect(record?.scheduledAtMs).toBe(T0 + MINUTE);
+    expect(await scheduler.getRecord(record?.executionId ?? '')).toEqual(record);
+    expect((await scheduler.getStats()).failedExecutions).toBe(1);
+  });
+
+  it('rejects invalid cron expressions at registration', () => {
+    const { scheduler } = makeScheduler(makeClock());
+    expect(() =>
+      scheduler.register({
+        jobId: 'bad',
+        job: recordingJob([]),
+        schedule: { kind: 'cron', expression: 'not a cron' },
+      }),
+    ).toThrow(InvalidCronExpressionError);
+    expect(scheduler.isRegistered('bad')).toBe(false);
+  });
+
+  it('triggers jobs manually and rejects unknown ones', async () => {
+    const runs: JobContext[] = [];
+    const { scheduler } = makeScheduler(makeClock());
+    scheduler.register(everyMinute(recordingJob(runs)));
+
+    const record = await scheduler.trigger('job-1', { reason: 'manual' });
+    expect(record.status).toBe('succeeded');
+    expect(runs[0]?.metadata).toEqual({ reason: 'manual' });
+    await expect(scheduler.trigger('missing')).rejects.toThrow(JobNotFoundError);
+  });
+
+  it('skips runs while a job is paused, on every instance', async () => {
+    const clock = makeClock();
+    const store = new InMemoryJobStore();
+    const lock = new InMemorySchedulerLock(clock.now);
+    const runs: JobContext[] = [];
+    const a = makeScheduler(clock, { owner: 'a' }, store, lock).scheduler;
+    const b = makeScheduler(clock, { owner: 'b' }, store, lock).scheduler;
+    a.register(everyMinute(recordingJob(runs)));
+    b.register(everyMinute(recordingJob(runs)));
+    await a.runOnce();
+
+    await b.pause('job-1');
+    clock.advance(MINUTE);
+    expect(await a.runOnce()).toBe(0);
+    await expect(a.trigger('job-1')).rejects.toThrow(JobPausedError);
+
+    await b.resume('job-1');
+    clock.advance(MINUTE);
+    expect(await a.runOnce()).toBe(1);
+    expect(runs.map((r) => r.scheduledAtMs)).toEqual([T0 + 2 * MINUTE]);
+  });
+
+  it('cancels executions running on this instance', async () => {
+    const { scheduler } = makeScheduler(makeClock());
+    const started: JobContext[] = [];
+    scheduler.register(
+      everyMinute({
+        name: 'slow',
+        execute: (ctx) => {
+          started.push(ctx);
+          return new Promise(() => undefined);
+        },
+      }),
+    );
+
+    const pending = scheduler.trigger('job-1');
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(scheduler.cancel(started[0]?.executionId ?? '')).toBe(true);
+
+    const record = await pending;
+    expect(record.status).toBe('cancelled');
+    expect(await scheduler.getRecord(record.executionId)).toEqual(record);
+  });
+
+  it('reports unhealthy when the store fails', async () => {
+    const clock = makeClock();
+    const store = new InMemoryJobStore();
+    store.getNextFireTime = () => Promise.reject(new Error('store down'));
+    const { scheduler } = makeScheduler(clock, {}, store);
+    scheduler.register(everyMinute(recordingJob([])));
+
+    expect(await scheduler.runOnce()).toBe(0);
+    expect(scheduler.isHealthy()).toBe(false);
+  });
+});
+
+describe('DistributedScheduler — misfires', () => {
+  async function afterDowntime(policy: 'fire-once' | 'fire-all' | 'skip') {
+    const clock = makeClock();
+    const runs: JobContext[] = [];
+    const { scheduler, store } = makeScheduler(clock, { misfirePolicy: policy });
+    scheduler.register(everyMinute(recordingJob(runs)));
+    await scheduler.runOnce();
+    // Down for ten minutes: runs at T0+1min … T0+10min fell due.
+    clock.advance(10 * MINUTE);
+    const fired = await scheduler.runOnce();
+    await scheduler.whenIdle();
+    return { runs, fired, next: await store.getNextFireTime('job-1') };
+  }
+
+  it('fire-once runs missed runs once', async () => {
+    const { runs, next } = await afterDowntime('fire-once');
+    expect(runs.map((r) => r.scheduledAtMs)).toEqual([T0 + 10 * MINUTE]);
+    expect(next).toBe(T0 + 11 * MINUTE);
+  });
+
+  it('fire-all runs every missed run in order', async () => {
+    const { runs, fired } = await afterDowntime('fire-all');
+    expect(fired).toBe(10);
+    expect(runs.map((r) => r.scheduledAtMs)).toEqual(
+      Array.from({ length: 10 }, (_, i) => T0 + (i + 1) * MINUTE),
+    );
+  });
+
+  it('skip drops missed runs but keeps the one on time', async () => {
+    const { runs, next } = await afterDowntime('skip');
+    // With the default 1-minute threshold only T0+9min and T0+10min are not missed.
+    expect(runs.map((r) => r.scheduledAtMs)).toEqual([T0 + 9 * MINUTE, T0 + 10 * MINUTE]);
+    expect(next).toBe(T0 + 11 * MINUTE);
+  });
+
+  it.each(['fire-once', 'skip'] as const)(
+    '%s jumps over a long outage to the last fire time',
+    async (misfirePolicy) => {
+      const clock = makeClock();
+      const runs: JobContext[] = [];
+      const { scheduler, store } = makeScheduler(clock, { misfirePolicy });
+      scheduler.register({
+        jobId: 'job-1',
+        job: recordingJob(runs),
+        schedule: { kind: 'cron', expression: '* * * * *' },
+      });
+      await scheduler.runOnce();
+      // Down for ten years: millions of minutely runs fell due.
+      const outage = 10 * 365 * 24 * 60 * MINUTE;
+      clock.advance(outage + 30_000);
+
+      await scheduler.runOnce();
+      await scheduler.whenIdle();
+
+      expect(runs.map((r) => r.scheduledAtMs)).toEqual([T0 + outage]);
+      expect(await store.getNextFireTime('job-1')).toBe(T0 + outage + MINUTE);
+    },
+  );
+
+  it('lets a job override the default policy', async () => {
+    const clock = makeClock();
+    const runs: JobContext[] = [];
+    const { scheduler } = makeScheduler(clock, { misfirePolicy: 'fire-all' });
+    scheduler.register(everyMinute(recordingJob(runs), { misfirePolicy: 'skip' }));
+    await scheduler.runOnce();
+    clock.advance(60 * MINUTE);
+
+    await scheduler.runOnce();
+    await scheduler.whenIdle();
+
+    expect(runs).toHaveLength(2);
+  });
+
+  it('caps fire-all catch-up per poll and resumes on the next one', async () => {
+    const clock = makeClock();
+    const runs: JobContext[] = [];
+    const { scheduler } = makeScheduler(clock, { misfirePolicy: 'fire-all', maxCatchUpRuns: 4 });
+    scheduler.register(everyMinute(recordingJob(runs)));
+    await scheduler.runOnce();
+    clock.advance(6 * MINUTE);
+
+    expect(await scheduler.runOnce()).toBe(4);
+    await scheduler.whenIdle();
+    expect(await scheduler.runOnce()).toBe(2);
+    await scheduler.whenIdle();
+    expect(await scheduler.runOnce()).toBe(0);
+  });
+});
+
+describe('DistributedScheduler — coordination', () => {
+  it('only the leader fires jobs', async () => {
+    const clock = makeClock();
+    const store = new InMemoryJobStore();
+    const lock = new InMemorySchedulerLock(clock.now);
+    const runs: JobContext[] = [];
+    const a = makeScheduler(clock, { owner: 'a' }, store, lock).scheduler;
+    const b = makeScheduler(clock, { owner: 'b' }, store, lock).scheduler;
+    a.register(everyMinute(recordingJob(runs)));
+    b.register(everyMinute(recordingJob(runs)));
+
+    await a.runOnce();
+    await b.runOnce();
+    clock.advance(MINUTE);
+    await Promise.all([a.runOnce(), b.runOnce()]);
+
+    expect(runs).toHaveLength(1);
+    expect(a.isLeader()).toBe(true);
+    expect(b.isLeader()).toBe(false);
+  });
+
+  it('hands leadership over when the leader stops', async () => {
+    const clock = makeClock();
+    const store = new InMemoryJobStore();
+    const lock = new InMemorySchedulerLock(clock.now);
+    const a = makeScheduler(clock, { owner: 'a' }, store, lock).scheduler;
+    const b = makeScheduler(clock, { owner: 'b' }, store, lock).scheduler;
+
+    await a.runOnce();
+    await a.stop();
+    await b.runOnce();
+
+    expect(a.isLeader()).toBe(false);
+    expect(b.isLeader()).toBe(true);
+  });
+
+  it('takes over after the leader lease expires', async () => {
+    const clock = makeClock();
+    const store = new InMemoryJobStore();
+    const lock = new InMemorySchedulerLock(clock.now);
+    const a = makeScheduler(clock, { owner: 'a', leaseMs: 5_000 }, store, lock).scheduler;
+    const b = makeScheduler(clock, { owner: 'b', leaseMs: 5_000 }, store, lock).scheduler;
+
+    await a.runOnce();
+    clock.advance(5_001);
+    await b.runOnce();
+
+    expect(b.isLeader()).toBe(true);
+  });
+
+  it('per-run coordination fires each run on one instance only', async () => {
+    const clock = makeClock();
+    const store = new InMemoryJobStore();
+    const lock = new InMemorySchedulerLock(clock.now);
+    const runs: JobContext[] = [];
+    const instances = ['a', 'b', 'c'].map(
+      (owner) => makeScheduler(clock, { owner, coordination: 'per-run' }, store, lock).scheduler,
+    );
+    for (const instance of instances) instance.register(everyMinute(recordingJob(runs)));
+
+    await Promise.all(instances.map((s) => s.runOnce()));
+    for (let i = 0; i < 3; i++) {
+      clock.advance(MINUTE);
+      await Promise.all(instances.map((s) => s.runOnce()));
+    }
+
+    expect(runs.map((r) => r.scheduledAtMs)).toEqual([
+      T0 + MINUTE,
+      T0 + 2 * MINUTE,
+      T0 + 3 * MINUTE,
+    ]);
+  });
+
+  it('coalesces concurrent polls', async () => {
+    const clock = makeClock();
+    const runs: JobContext[] = [];
+    const { scheduler } = makeScheduler(clock);
+    scheduler.register(everyMinute(recordingJob(runs)));
+    await scheduler.runOnce();
+    clock.advance(MINUTE);
+
+    const [first, second] = await Promise.all([scheduler.runOnce(), scheduler.runOnce()]);
+
+    expect(first).toBe(1);
+    expect(second).toBe(1);
+    expect(runs).toHaveLength(1);
+  });
+
+  it('keeps firing other jobs and renewing the lease during a long run', async () => {
+    const clock = makeClock();
+    const store = new InMemoryJobStore();
+    const lock = new InMemorySchedulerLock(clock.now);
+    const a = makeScheduler(clock, { owner: 'a', leaseMs: 5_000 }, store, lock).scheduler;
+    const b = makeScheduler(clock, { owner: 'b', leaseMs: 5_000 }, store, lock).scheduler;
+    let finish = (): void => undefined;
+    a.register({
+      jobId: 'slow',
+      job: { name: 'slow', execute: () => new Promise<void>((resolve) => (finish = resolve)) },
+      schedule: { kind: 'interval', intervalMs: MINUTE, runImmediately: true },
+    });
+    const fastRuns: JobContext[] = [];
+    a.register({
+      jobId: 'fast',
+      job: recordingJob(fastRuns),
+      schedule: { kind: 'interval', intervalMs: 4_000 },
+    });
+
+    expect(await a.runOnce()).toBe(1);
+    for (let i = 0; i < 2; i++) {
+      clock.advance(4_000);
+      expect(await a.runOnce()).toBe(1);
+      clock.advance(4_000);
+      await b.runOnce();
+    }
+
+    expect(fastRuns).toHaveLength(2);
+    expect(a.isLeader()).toBe(true);
+    expect(b.isLeader()).toBe(false);
+    finish();
+    await a.stop();
+  });
+
+  it('stop waits for the runs in progress', async () => {
+    const { scheduler } = makeScheduler(makeClock());
+    let finish = (): void => undefined;
+    scheduler.register({
+      jobId: 'slow',
+      job: { name: 'slow', execute: () => new Promise<void>((resolve) => (finish = resolve)) },
+      schedule: { kind: 'interval', intervalMs: MINUTE, runImmediately: true },
+    });
+    await scheduler.runOnce();
+
+    let stopped = false;
+    const stopping = scheduler.stop().then(() => (stopped = true));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(stopped).toBe(false);
+
+    finish();
+    await stopping;
+    const [record] = await scheduler.getJobHistory('slow');
+    expect(record?.status).toBe('succeeded');
+  });
+
+  it('start and stop control the polling loop', async () => {
+    const { scheduler } = makeScheduler(makeClock(), { pollIntervalMs: 10_000 });
+    scheduler.start();
+    expect(scheduler.isRunning()).toBe(true);
+    await scheduler.stop();
+    expect(scheduler.isRunning()).toBe(false);
+  });
+});
@@ -6,10 +6,12 @@ export type {
   JobRegistration,
   JobScheduleConfig,
   JobStatus,
+  MisfirePolicy,
   CronScheduleConfig,
   IntervalScheduleConfig,
   OnceScheduleConfig,
   SchedulerStats,
+  TriggerOptions,
 } from './JobTypes';
 
 // Port
@@ -18,16 +20,28 @@ export type { SchedulerPort } from './SchedulerPort';
 // Errors
 export {
   InvalidCronExpressionError,
+  InvalidTimeZoneError,
+  InvalidWorkflowError,
+  JobCancelledError,
   JobAlreadyRegisteredError,
   JobConcurrencyLimitError,
   JobExecutionError,
   JobMaxRetriesExceededError,
   JobNotFoundError,
+  JobPausedError,
+  JobTimeoutError,
+  WorkflowFailedError,
 } from './JobErrors';
 
 // Utilities
-export type { CronFields } from './CronParser';
-export { matchesCron, parseCron } from './CronParser';
+export type { CronFields, MonthDayRule, WeekDayRule } from './CronParser';
+export {
+  matchesCron,
+  nextCronTime,
+  nextCronTimes,
+  parseCron,
+  previousCronTime,
+} from './CronParser';
 export { ConcurrencyLimiter } from './ConcurrencyLimiter';
 export { JobRegistry } from './JobRegistry';
 
@@ -41,3 +55,33 @@ export type {
   TimerHandle,
 } from './IntervalRunner';
 export { IntervalRunner } from './IntervalRunner';
+
+// Workflows
+export type {
+  WorkflowDefinition,
+  WorkflowRun,
+  WorkflowRunOptions,
+  WorkflowRunnerOptions,
+  WorkflowStep,
+  WorkflowStepMetadata,
+  WorkflowStepOutcome,
+  WorkflowStepStatus,
+} from './WorkflowRunner';
+export { WorkflowRunner, workflowMetadata } from './WorkflowRunner';
+
+// Distributed scheduling
+export type { DistributedSchedulerOptions, SchedulerCoordination } from './DistributedScheduler';
+export { DistributedScheduler } from './DistributedScheduler';
+export type { JobStore } from './JobStore';
+export { InMemoryJobStore } from './JobStore';
+export type { SchedulerLock } from './SchedulerLock';
+export { InMemorySchedulerLock } from './SchedulerLock';
+export { RedisJobStore, RedisSchedulerLock } from './redis/index';
+export type { RedisJobStoreOptions } from './redis/index';
+export { PostgresJobStore, PostgresSchedulerLock } from './postgres/index';
+export type {
+  PostgresClientLike,
+  PostgresJobStoreOptions,
+  PostgresQueryResult,
+  PostgresSchedulerLockOptions,
+} from './postgres/index';
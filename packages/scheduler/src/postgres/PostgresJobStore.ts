@@ -0,0 +1,181 @@
+import { assertIdentifier } from '@marcusprado02/persistence';
+import type { PostgresClientLike } from '@marcusprado02/persistence';
+import type { JobStore } from '../JobStore';
+import type { JobRecord, JobStatus } from '../JobTypes';
+
+export interface PostgresJobStoreOptions {
+  /** Execution records table, optionally schema-qualified. Default: `'scheduler_job_records'`. */
+  recordsTable?: string;
+  /** Per-job state (next fire time, paused flag) table. Default: `'scheduler_jobs'`. */
+  jobsTable?: string;
+  /** Records kept per job; older ones are deleted. Default: 100. */
+  maxHistory?: number;
+}
+
+interface RecordRow {
+  readonly execution_id: string;
+  readonly job_id: string;
+  readonly job_name: string;
+  readonly status: JobStatus;
+  readonly scheduled_at_ms: string | number;
+  readonly started_at_ms: string | number | null;
+  readonly completed_at_ms: string | number | null;
+  readonly failure_reason: string | null;
+  readonly attempt_number: number;
+  readonly result: unknown;
+}
+
+interface JobRow {
+  readonly next_fire_at_ms: string | number | null;
+  readonly finished: boolean;
+}
+
+const RECORD_COLUMNS = `execution_id, job_id, job_name, status, scheduled_at_ms, started_at_ms,
+  completed_at_ms, failure_reason, attempt_number, result`;
+
+/**
+ * {@link JobStore} on two PostgreSQL tables: one row per execution record and
+ * one row per job holding its next fire time and paused flag. Times are epoch
+ * milliseconds in `BIGINT` columns, which drivers return as strings; results
+ * are stored as `JSONB` and must be JSON-serialisable. Saving a record deletes
+ * the job's records beyond the latest `maxHistory`.
+ *
+ * Create the tables with {@link PostgresJobStore.schema}.
+ */
+export class PostgresJobStore implements JobStore {
+  private readonly records: string;
+  private readonly jobs: string;
+  private readonly maxHistory: number;
+
+  constructor(
+    private readonly client: PostgresClientLike,
+    options: PostgresJobStoreOptions = {},
+  ) {
+    this.records = assertIdentifier(options.recordsTable ?? 'scheduler_job_records');
+    this.jobs = assertIdentifier(options.jobsTable ?? 'scheduler_jobs');
+    this.maxHistory = options.maxHistory ?? 100;
+  }
+
+  /** DDL for the records and jobs tables. */
+  static schema(recordsTable = 'scheduler_job_records', jobsTable = 'scheduler_jobs'): string {
+    const records = assertIdentifier(recordsTable);
+    return `CREATE TABLE IF NOT EXISTS ${records} (
+  execution_id TEXT PRIMARY KEY,
+  job_id TEXT NOT NULL,
+  job_name TEXT NOT NULL,
+  status TEXT NOT NULL,
+  scheduled_at_ms BIGINT NOT NULL,
+  started_at_ms BIGINT,
+  completed_at_ms BIGINT,
+  failure_reason TEXT,
+  attempt_number INTEGER NOT NULL,
+  result JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS ${records.replace('.', '_')}_job_idx ON ${records} (job_id, created_at);
+CREATE TABLE IF NOT EXISTS ${assertIdentifier(jobsTable)} (
+  job_id TEXT PRIMARY KEY,
+  next_fire_at_ms BIGINT,
+  finished BOOLEAN NOT NULL DEFAULT false,
+  paused BOOLEAN NOT NULL DEFAULT false
+);`;
+  }
+
+  async saveRecord(record: JobRecord): Promise<void> {
+    await this.client.query(
+      `INSERT INTO ${this.records} (${RECORD_COLUMNS})
+VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10::jsonb)
+ON CONFLICT (execution_id) DO UPDATE
+SET status = EXCLUDED.status, started_at_ms = EXCLUDED.started_at_ms,
+  completed_at_ms = EXCLUDED.completed_at_ms, failure_reason = EXCLUDED.failure_reason,
+  attempt_number = EXCLUDED.attempt_number, result = EXCLUDED.result`,
+      [
+        record.executionId,
+        record.jobId,
+        record.jobName,
+        record.status,
+        record.scheduledAtMs,
+        record.startedAtMs ?? null,
+        record.completedAtMs ?? null,
+        record.failureReason ?? null,
+        record.attemptNumber,
+        record.result === undefined ? null : JSON.stringify(record.result),
+      ],
+    );
+    await this.client.query(
+      `DELETE FROM ${this.records} WHERE job_id = $1 AND execution_id NOT IN (
+  SELECT execution_id FROM ${this.records} WHERE job_id = $1
+  ORDER BY created_at DESC, execution_id DESC LIMIT $2
+)`,
+      [record.jobId, this.maxHistory],
+    );
+  }
+
+  async getRecord(executionId: string): Promise<JobRecord | undefined> {
+    const { rows } = await this.client.query<RecordRow>(
+      `SELECT ${RECORD_COLUMNS} FROM ${this.records} WHERE execution_id = $1`,
+      [executionId],
+    );
+    const row = rows[0];
+    return row === undefined ? undefined : toRecord(row);
+  }
+
+  async getJobHistory(jobId: string): Promise<readonly JobRecord[]> {
+    const { rows } = await this.client.query<RecordRow>(
+      `SELECT ${RECORD_COLUMNS} FROM ${this.records} WHERE job_id = $1 ORDER BY created_at`,
+      [jobId],
+    );
+    return rows.map(toRecord);
+  }
+
+  async getNextFireTime(jobId: string): Promise<number | null | undefined> {
+    const { rows } = await this.client.query<JobRow>(
+      `SELECT next_fire_at_ms, finished FROM ${this.jobs} WHERE job_id = $1`,
+      [jobId],
+    );
+    const row = rows[0];
+    if (row?.finished === true) return null;
+    // A row created by `setPaused` has no fire time yet.
+    return row?.next_fire_at_ms == null ? undefined : Number(row.next_fire_at_ms);
+  }
+
+  async setNextFireTime(jobId: string, fireAtMs: number | null): Promise<void> {
+    await this.client.query(
+      `INSERT INTO ${this.jobs} (job_id, next_fire_at_ms, finished) VALUES ($1, $2, $3)
+ON CONFLICT (job_id) DO UPDATE
+SET next_fire_at_ms = EXCLUDED.next_fire_at_ms, finished = EXCLUDED.finished`,
+      [jobId, fireAtMs, fireAtMs === null],
+    );
+  }
+
+  async isPaused(jobId: string): Promise<boolean> {
+    const { rows } = await this.client.query<{ paused: boolean }>(
+      `SELECT paused FROM ${this.jobs} WHERE job_id = $1`,
+      [jobId],
+    );
+    return rows[0]?.paused === true;
+  }
+
+  async setPaused(jobId: string, paused: boolean): Promise<void> {
+    await this.client.query(
+      `INSERT INTO ${this.jobs} (job_id, paused) VALUES ($1, $2)
+ON CONFLICT (job_id) DO UPDATE SET paused = EXCLUDED.paused`,
+      [jobId, paused],
+    );
+  }
+}
+
+function toRecord(row: RecordRow): JobRecord {
+  return {
+    executionId: row.execution_id,
+    jobId: row.job_id,
+    jobName: row.job_name,
+    status: row.status,
+    scheduledAtMs: Number(row.scheduled_at_ms),
+    ...(row.started_at_ms !== null && { startedAtMs: Number(row.started_at_ms) }),
+    ...(row.completed_at_ms !== null && { completedAtMs: Number(row.completed_at_ms) }),
+    ...(row.failure_reason !== null && { failureReason: row.failure_reason }),
+    attemptNumber: row.attempt_number,
+    ...(row.result !== null && { result: row.result }),
+  };
+}
@@ -0,0 +1,55 @@
+import { assertIdentifier } from '@marcusprado02/persistence';
+import type { PostgresClientLike } from '@marcusprado02/persistence';
+import type { SchedulerLock } from '../SchedulerLock';
+
+export interface PostgresSchedulerLockOptions {
+  /** Locks table, optionally schema-qualified. Default: `'scheduler_locks'`. */
+  tableName?: string;
+}
+
+/**
+ * {@link SchedulerLock} on a PostgreSQL table with one row per lock key.
+ * Acquiring is a single upsert that only takes over a row when it expired or
+ * already belongs to the caller, so it is atomic without advisory locks.
+ * Expiry uses the database clock.
+ *
+ * Create the table with {@link PostgresSchedulerLock.schema}.
+ */
+export class PostgresSchedulerLock implements SchedulerLock {
+  private readonly table: string;
+
+  constructor(
+    private readonly client: PostgresClientLike,
+    options: PostgresSchedulerLockOptions = {},
+  ) {
+    this.table = assertIdentifier(options.tableName ?? 'scheduler_locks');
+  }
+
+  /** DDL for the locks table. */
+  static schema(tableName = 'scheduler_locks'): string {
+    return `CREATE TABLE IF NOT EXISTS ${assertIdentifier(tableName)} (
+  lock_key TEXT PRIMARY KEY,
+  owner TEXT NOT NULL,
+  locked_until TIMESTAMPTZ NOT NULL
+);`;
+  }
+
+  async acquire(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const { rowCount } = await this.client.query(
+      `INSERT INTO ${this.table} (lock_key, owner, locked_until)
+VALUES ($1, $2, now() + $3 * interval '1 millisecond')
+ON CONFLICT (lock_key) DO UPDATE
+SET owner = EXCLUDED.owner, locked_until = EXCLUDED.locked_until
+WHERE ${this.table}.locked_until < now() OR ${this.table}.owner = EXCLUDED.owner`,
+      [key, owner, ttlMs],
+    );
+    return rowCount === 1;
+  }
+
+  async release(key: string, owner: string): Promise<void> {
+    await this.client.query(`DELETE FROM ${this.table} WHERE lock_key = $1 AND owner = $2`, [
+      key,
+      owner,
+    ]);
+  }
+}
@@ -0,0 +1,5 @@
+export { PostgresSchedulerLock } from './PostgresSchedulerLock';
+export type { PostgresSchedulerLockOptions } from './PostgresSchedulerLock';
+export { PostgresJobStore } from './PostgresJobStore';
+export type { PostgresJobStoreOptions } from './PostgresJobStore';
+export type { PostgresClientLike, PostgresQueryResult } from '@marcusprado02/persistence';
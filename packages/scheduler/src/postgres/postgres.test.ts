@@ -0,0 +1,243 @@
+import { describe, expect, it } from 'vitest';
+import type { PostgresClientLike, PostgresQueryResult } from '@marcusprado02/persistence';
+import { PostgresJobStore } from './PostgresJobStore';
+import { PostgresSchedulerLock } from './PostgresSchedulerLock';
+import type { JobRecord } from '../JobTypes';
+
+// ── Fake ─────────────────────────────────────────────────────────────────────
+
+interface LockRow {
+  owner: string;
+  lockedUntilMs: number;
+}
+
+/**
+ * In-process stand-in recognising the statements issued by the adapters.
+ * Numeric columns come back as strings, like `BIGINT` from `pg`.
+ */
+class FakePostgres implements PostgresClientLike {
+  readonly locks = new Map<string, LockRow>();
+  readonly records: Record<string, unknown>[] = [];
+  readonly jobs = new Map<
+    string,
+    { next_fire_at_ms: string | null; finished: boolean; paused: boolean }
+  >();
+  readonly statements: string[] = [];
+  nowMs = 0;
+
+  query<TRow>(text: string, values: readonly unknown[] = []): Promise<PostgresQueryResult<TRow>> {
+    this.statements.push(text);
+    const rows = this.execute(text, values) as TRow[] | number;
+    return Promise.resolve(
+      typeof rows === 'number' ? { rows: [], rowCount: rows } : { rows, rowCount: rows.length },
+    );
+  }
+
+  private execute(text: string, values: readonly unknown[]): unknown[] | number {
+    const [first, second, third] = values;
+    if (text.startsWith('INSERT INTO scheduler_locks')) {
+      return this.acquire(first as string, second as string, third as number);
+    }
+    if (text.startsWith('DELETE FROM scheduler_locks')) {
+      const held = this.locks.get(first as string);
+      if (held?.owner !== second) return 0;
+      this.locks.delete(first as string);
+      return 1;
+    }
+    if (text.startsWith('INSERT INTO scheduler_job_records')) return this.upsertRecord(values);
+    if (text.startsWith('DELETE FROM scheduler_job_records')) {
+      return this.trimRecords(first as string, second as number);
+    }
+    if (text.startsWith('SELECT') && text.includes('WHERE execution_id')) {
+      return this.records.filter((r) => r['execution_id'] === first);
+    }
+    if (text.startsWith('SELECT') && text.includes('WHERE job_id = $1 ORDER BY')) {
+      return this.records.filter((r) => r['job_id'] === first);
+    }
+    if (text.startsWith('SELECT next_fire_at_ms') || text.startsWith('SELECT paused')) {
+      const job = this.jobs.get(first as string);
+      return job === undefined ? [] : [job];
+    }
+    if (text.startsWith('INSERT INTO scheduler_jobs')) return this.upsertJob(text, values);
+    throw new Error(`Unexpected statement: ${text}`);
+  }
+
+  private acquire(key: string, owner: string, ttlMs: number): number {
+    const held = this.locks.get(key);
+    if (held !== undefined && held.lockedUntilMs >= this.nowMs && held.owner !== owner) return 0;
+    this.locks.set(key, { owner, lockedUntilMs: this.nowMs + ttlMs });
+    return 1;
+  }
+
+  private upsertJob(text: string, [jobId, value, finished]: readonly unknown[]): number {
+    const job = this.jobs.get(jobId as string) ?? {
+      next_fire_at_ms: null,
+      finished: false,
+      paused: false,
+    };
+    if (text.includes('(job_id, paused)')) job.paused = value as boolean;
+    else Object.assign(job, { next_fire_at_ms: value === null ? null : String(value), finished });
+    this.jobs.set(jobId as string, job);
+    return 1;
+  }
+
+  /** Records are kept in insertion order, which stands in for `created_at`. */
+  private trimRecords(jobId: string, keep: number): number {
+    const ids = this.records.filter((r) => r['job_id'] === jobId).map((r) => r['execution_id']);
+    const dropped = new Set(ids.slice(0, Math.max(0, ids.length - keep)));
+    const kept = this.records.filter((r) => !dropped.has(r['execution_id']));
+    this.records.splice(0, this.records.length, ...kept);
+    return dropped.size;
+  }
+
+  private upsertRecord(values: readonly unknown[]): number {
+    const columns = [
+      'execution_id',
+      'job_id',
+      'job_name',
+      'status',
+      'scheduled_at_ms',
+      'started_at_ms',
+      'completed_at_ms',
+      'failure_reason',
+      'attempt_number',
+      'result',
+    ];
+    const row = Object.fromEntries(
+      columns.map((column, i) => {
+        const value = values[i];
+        if (column === 'result')
+          return [column, value === null ? null : JSON.parse(value as string)];
+        return [column, column.endsWith('_ms') && value !== null ? String(value) : value];
+      }),
+    );
+    const index = this.records.findIndex((r) => r['execution_id'] === row['execution_id']);
+    if (index >= 0) this.records[index] = row;
+    else this.records.push(row);
+    return 1;
+  }
+}
+
+const running: JobRecord = {
+  jobId: 'job-1',
+  jobName: 'report',
+  executionId: 'e1',
+  status: 'running',
+  scheduledAtMs: 1_000,
+  startedAtMs: 1_001,
+  attemptNumber: 1,
+};
+
+// ── PostgresSchedulerLock ────────────────────────────────────────────────────
+
+describe('PostgresSchedulerLock', () => {
+  it('grants a free lock, renews it for its owner and refuses it to others', async () => {
+    const db = new FakePostgres();
+    const lock = new PostgresSchedulerLock(db);
+
+    expect(await lock.acquire('leader', 'a', 1_000)).toBe(true);
+    expect(await lock.acquire('leader', 'a', 1_000)).toBe(true);
+    expect(await lock.acquire('leader', 'b', 1_000)).toBe(false);
+    expect(db.statements[0]).toContain('ON CONFLICT (lock_key) DO UPDATE');
+  });
+
+  it('can be taken over once expired', async () => {
+    const db = new FakePostgres();
+    const lock = new PostgresSchedulerLock(db);
+    await lock.acquire('leader', 'a', 1_000);
+    db.nowMs = 1_001;
+
+    expect(await lock.acquire('leader', 'b', 1_000)).toBe(true);
+  });
+
+  it('only releases a lock held by the caller', async () => {
+    const db = new FakePostgres();
+    const lock = new PostgresSchedulerLock(db);
+    await lock.acquire('leader', 'a', 1_000);
+
+    await lock.release('leader', 'b');
+    expect(db.locks.has('leader')).toBe(true);
+    await lock.release('leader', 'a');
+    expect(db.locks.has('leader')).toBe(false);
+  });
+
+  it('validates the table name', () => {
+    expect(() => new PostgresSchedulerLock(new FakePostgres(), { tableName: 'x; DROP' })).toThrow(
+      'Invalid PostgreSQL identifier',
+    );
+    expect(PostgresSchedulerLock.schema()).toContain('CREATE TABLE IF NOT EXISTS scheduler_locks');
+  });
+});
+
+// ── PostgresJobStore ─────────────────────────────────────────────────────────
+
+describe('PostgresJobStore', () => {
+  it('upserts records and maps them back', async () => {
+    const store = new PostgresJobStore(new FakePostgres());
+    await store.saveRecord(running);
+    await store.saveRecord({
+      ...running,
+      status: 'failed',
+      completedAtMs: 1_500,
+      failureReason: 'boom',
+    });
+
+    expect(await store.getRecord('e1')).toEqual({
+      ...running,
+      status: 'failed',
+      completedAtMs: 1_500,
+      failureReason: 'boom',
+    });
+    expect(await store.getRecord('missing')).toBeUndefined();
+    expect(await store.getJobHistory('job-1')).toHaveLength(1);
+  });
+
+  it('keeps the latest maxHistory records per job', async () => {
+    const postgres = new FakePostgres();
+    const store = new PostgresJobStore(postgres, { maxHistory: 2 });
+    for (const id of ['e1', 'e2', 'e3']) await store.saveRecord({ ...running, executionId: id });
+    await store.saveRecord({ ...running, jobId: 'job-2', executionId: 'other' });
+
+    expect((await store.getJobHistory('job-1')).map((r) => r.executionId)).toEqual(['e2', 'e3']);
+    expect(await store.getRecord('e1')).toBeUndefined();
+    expect(await store.getRecord('other')).toBeDefined();
+  });
+
+  it('distinguishes unknown, finished and scheduled fire times', async () => {
+    const store = new PostgresJobStore(new FakePostgres());
+    expect(await store.getNextFireTime('job-1')).toBeUndefined();
+
+    await store.setNextFireTime('job-1', 60_000);
+    expect(await store.getNextFireTime('job-1')).toBe(60_000);
+
+    await store.setNextFireTime('job-1', null);
+    expect(await store.getNextFireTime('job-1')).toBeNull();
+  });
+
+  it('stores results as JSON', async () => {
+    const store = new PostgresJobStore(new FakePostgres());
+    await store.saveRecord({ ...running, status: 'succeeded', result: { rows: 3 } });
+
+    expect((await store.getRecord('e1'))?.result).toEqual({ rows: 3 });
+  });
+
+  it('pauses jobs without touching their fire time', async () => {
+    const store = new PostgresJobStore(new FakePostgres());
+    await store.setPaused('job-1', true);
+
+    expect(await store.isPaused('job-1')).toBe(true);
+    expect(await store.getNextFireTime('job-1')).toBeUndefined();
+
+    await store.setNextFireTime('job-1', 60_000);
+    await store.setPaused('job-1', false);
+    expect(await store.isPaused('job-1')).toBe(false);
+    expect(await store.getNextFireTime('job-1')).toBe(60_000);
+  });
+
+  it('creates both tables', () => {
+    const ddl = PostgresJobStore.schema('jobs.records', 'jobs.state');
+    expect(ddl).toContain('CREATE TABLE IF NOT EXISTS jobs.records');
+    expect(ddl).toContain('CREATE INDEX IF NOT EXISTS jobs_records_job_idx ON jobs.records');
+    expect(ddl).toContain('CREATE TABLE IF NOT EXISTS jobs.state');
+  });
+});
@@ -0,0 +1,127 @@
+import type { RedisScriptingClientLike } from '@marcusprado02/cache-redis';
+import type { JobStore } from '../JobStore';
+import type { JobRecord } from '../JobTypes';
+
+export interface RedisJobStoreOptions {
+  /** Prefix of every key. Default: `'scheduler'`. */
+  keyPrefix?: string;
+  /** Records kept per job; older ones are deleted. Default: 100. */
+  maxHistory?: number;
+}
+
+/** Stored in place of a fire time once a job has no further runs. */
+const NO_FURTHER_RUNS = 'none';
+
+/**
+ * Writes the record and, the first time, appends its id to the history list,
+ * deleting the records that fall out of it.
+ */
+const SAVE_RECORD = `
+local isNew = redis.call('EXISTS', KEYS[1]) == 0
+redis.call('SET', KEYS[1], ARGV[1])
+if isNew then
+  redis.call('RPUSH', KEYS[2], ARGV[2])
+  while redis.call('LLEN', KEYS[2]) > tonumber(ARGV[3]) do
+    redis.call('DEL', ARGV[4] .. redis.call('LPOP', KEYS[2]))
+  end
+end
+return 0
+`;
+
+/** Replies with the records of the ids in the history list, oldest first. */
+const HISTORY = `
+local ids = redis.call('LRANGE', KEYS[1], 0, -1)
+if #ids == 0 then return {} end
+for i, id in ipairs(ids) do ids[i] = ARGV[1] .. id end
+return redis.call('MGET', unpack(ids))
+`;
+
+/**
+ * {@link JobStore} on Redis keys:
+ * - `<prefix>:record:<executionId>` — the record as JSON,
+ * - `<prefix>:history:<jobId>` — list of the job's latest execution ids,
+ * - `<prefix>:next:<jobId>` — the next fire time,
+ * - `<prefix>:paused:<jobId>` — present while the job is paused.
+ *
+ * Records and the history list are written by one script, so instances
+ * saving records of the same job at once neither lose ids nor leave trimmed
+ * records behind. The script derives the record keys it deletes, so on Redis
+ * Cluster keep every key of a store in one slot with a hash-tagged prefix,
+ * e.g. `'{scheduler}'`.
+ */
+export class RedisJobStore implements JobStore {
+  private readonly prefix: string;
+  private readonly maxHistory: number;
+
+  constructor(
+    private readonly client: RedisScriptingClientLike,
+    options: RedisJobStoreOptions = {},
+  ) {
+    this.prefix = options.keyPrefix ?? 'scheduler';
+    this.maxHistory = options.maxHistory ?? 100;
+  }
+
+  async saveRecord(record: JobRecord): Promise<void> {
+    await this.client.eval(
+      SAVE_RECORD,
+      2,
+      this.recordKey(record.executionId),
+      this.historyKey(record.jobId),
+      JSON.stringify(record),
+      record.executionId,
+      this.maxHistory,
+      this.recordKey(''),
+    );
+  }
+
+  async getRecord(executionId: string): Promise<JobRecord | undefined> {
+    const raw = await this.client.get(this.recordKey(executionId));
+    return raw === null ? undefined : (JSON.parse(raw) as JobRecord);
+  }
+
+  async getJobHistory(jobId: string): Promise<readonly JobRecord[]> {
+    const reply = await this.client.eval(HISTORY, 1, this.historyKey(jobId), this.recordKey(''));
+    // A record deleted by a concurrent trim comes back as null.
+    return (reply as Array<string | null>)
+      .filter((raw): raw is string => raw !== null)
+      .map((raw) => JSON.parse(raw) as JobRecord);
+  }
+
+  async getNextFireTime(jobId: string): Promise<number | null | undefined> {
+    const raw = await this.client.get(this.nextKey(jobId));
+    if (raw === null) return undefined;
+    return raw === NO_FURTHER_RUNS ? null : Number(raw);
+  }
+
+  async setNextFireTime(jobId: string, fireAtMs: number | null): Promise<void> {
+    await this.client.set(
+      this.nextKey(jobId),
+      fireAtMs === null ? NO_FURTHER_RUNS : fireAtMs.toString(),
+    );
+  }
+
+  async isPaused(jobId: string): Promise<boolean> {
+    return (await this.client.exists(this.pausedKey(jobId))) === 1;
+  }
+
+  async setPaused(jobId: string, paused: boolean): Promise<void> {
+    if (paused) await this.client.set(this.pausedKey(jobId), '1');
+    else await this.client.del(this.pausedKey(jobId));
+  }
+
+  private recordKey(executionId: string): string {
+    return `${this.prefix}:record:${executionId}`;
+  }
+
+  private historyKey(jobId: string): string {
+    return `${this.prefix}:history:${jobId}`;
+  }
+
+  private nextKey(jobId: string): string {
+    return `${this.prefix}:next:${jobId}`;
+  }
+
+  private pausedKey(jobId: string): string {
+    return `${this.prefix}:paused:${jobId}`;
+  }
+}
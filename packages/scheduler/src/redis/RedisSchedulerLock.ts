@@ -0,0 +1,42 @@
+import { RedisLock } from '@marcusprado02/cache-redis';
+import type { RedisScriptingClientLike } from '@marcusprado02/cache-redis';
+import type { SchedulerLock } from '../SchedulerLock';
+
+/** Extends the lease if the key still holds the owner's id. */
+const RENEW = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/** Deletes the key if it still holds the owner's id. */
+const RELEASE = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * {@link SchedulerLock} on Redis keys holding the owner's id, acquired with
+ * `SET NX PX` through {@link RedisLock}. Renewal and release compare the
+ * owner and write in one script, so an instance whose lease expired never
+ * extends or deletes the lock of the instance that took it over.
+ */
+export class RedisSchedulerLock implements SchedulerLock {
+  private readonly lock: RedisLock;
+
+  constructor(private readonly client: RedisScriptingClientLike) {
+    this.lock = new RedisLock(client, 30_000);
+  }
+
+  async acquire(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    if (await this.lock.acquire(key, owner, ttlMs)) return true;
+    return (await this.client.eval(RENEW, 1, key, owner, ttlMs)) === 1;
+  }
+
+  async release(key: string, owner: string): Promise<void> {
+    await this.client.eval(RELEASE, 1, key, owner);
+  }
+}
@@ -0,0 +1,3 @@
+export { RedisSchedulerLock } from './RedisSchedulerLock';
+export { RedisJobStore } from './RedisJobStore';
+export type { RedisJobStoreOptions } from './RedisJobStore';
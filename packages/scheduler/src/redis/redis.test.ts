@@ -0,0 +1,222 @@
+import { describe, expect, it } from 'vitest';
+import type { RedisScriptingClientLike } from '@marcusprado02/cache-redis';
+import { RedisJobStore } from './RedisJobStore';
+import { RedisSchedulerLock } from './RedisSchedulerLock';
+import type { JobRecord } from '../JobTypes';
+
+// ── Fake ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Supports the `SET` options used by the adapters — NX, XX and PX — and runs
+ * their scripts, told apart by the commands they issue.
+ */
+class FakeRedis implements RedisScriptingClientLike {
+  readonly data = new Map<string, { value: string; expiresAtMs?: number }>();
+  readonly lists = new Map<string, string[]>();
+  nowMs = 0;
+
+  eval(script: string, _numKeys: number, ...keysAndArgs: Array<string | number>): Promise<unknown> {
+    const [key, ...args] = keysAndArgs.map(String) as [string, ...string[]];
+    if (script.includes('RPUSH')) return Promise.resolve(this.saveRecord(key, args));
+    if (script.includes('LRANGE')) return Promise.resolve(this.history(key, args[0] as string));
+    const held = this.live(key);
+    if (held === undefined || held.value !== args[0]) return Promise.resolve(0);
+    if (script.includes('PEXPIRE')) held.expiresAtMs = this.nowMs + Number(args[1]);
+    else this.data.delete(key);
+    return Promise.resolve(1);
+  }
+
+  get(key: string): Promise<string | null> {
+    return Promise.resolve(this.live(key)?.value ?? null);
+  }
+
+  set(key: string, value: string, ...options: Array<string | number>): Promise<string | null> {
+    const exists = this.live(key) !== undefined;
+    if ((options.includes('NX') && exists) || (options.includes('XX') && !exists)) {
+      return Promise.resolve(null);
+    }
+    const px = options.indexOf('PX');
+    const ttl = px >= 0 ? Number(options[px + 1]) : undefined;
+    this.data.set(key, ttl === undefined ? { value } : { value, expiresAtMs: this.nowMs + ttl });
+    return Promise.resolve('OK');
+  }
+
+  del(key: string): Promise<number> {
+    return Promise.resolve(this.data.delete(key) ? 1 : 0);
+  }
+
+  exists(key: string): Promise<number> {
+    return Promise.resolve(this.live(key) === undefined ? 0 : 1);
+  }
+
+  keys(): Promise<string[]> {
+    return Promise.resolve([...this.data.keys()]);
+  }
+
+  publish(): Promise<number> {
+    return Promise.resolve(0);
+  }
+
+  ping(): Promise<string> {
+    return Promise.resolve('PONG');
+  }
+
+  quit(): Promise<string> {
+    return Promise.resolve('OK');
+  }
+
+  private saveRecord(key: string, [historyKey, json, id, max, recordPrefix]: string[]): number {
+    const isNew = this.live(key) === undefined;
+    this.data.set(key, { value: json as string });
+    if (!isNew) return 0;
+    const ids = [...(this.lists.get(historyKey as string) ?? []), id as string];
+    for (const dropped of ids.splice(0, Math.max(0, ids.length - Number(max)))) {
+      this.data.delete(`${recordPrefix as string}${dropped}`);
+    }
+    this.lists.set(historyKey as string, ids);
+    return 0;
+  }
+
+  private history(historyKey: string, recordPrefix: string): Array<string | null> {
+    const ids = this.lists.get(historyKey) ?? [];
+    return ids.map((id) => this.live(`${recordPrefix}${id}`)?.value ?? null);
+  }
+
+  private live(key: string): { value: string; expiresAtMs?: number } | undefined {
+    const entry = this.data.get(key);
+    if (entry?.expiresAtMs !== undefined && entry.expiresAtMs <= this.nowMs) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+}
+
+function record(executionId: string, status: JobRecord['status'] = 'running'): JobRecord {
+  return {
+    jobId: 'job-1',
+    jobName: 'report',
+    executionId,
+    status,
+    scheduledAtMs: 1_000,
+    startedAtMs: 1_001,
+    attemptNumber: 1,
+  };
+}
+
+// ── RedisSchedulerLock ───────────────────────────────────────────────────────
+
+describe('RedisSchedulerLock', () => {
+  it('grants a free lock and refuses it to other owners', async () => {
+    const lock = new RedisSchedulerLock(new FakeRedis());
+    expect(await lock.acquire('leader', 'a', 1_000)).toBe(true);
+    expect(await lock.acquire('leader', 'b', 1_000)).toBe(false);
+  });
+
+  it('renews the lease of the current owner', async () => {
+    const redis = new FakeRedis();
+    const lock = new RedisSchedulerLock(redis);
+    await lock.acquire('leader', 'a', 1_000);
+    redis.nowMs = 900;
+
+    expect(await lock.acquire('leader', 'a', 1_000)).toBe(true);
+    redis.nowMs = 1_500;
+    expect(await lock.acquire('leader', 'b', 1_000)).toBe(false);
+  });
+
+  it('can be taken over once expired', async () => {
+    const redis = new FakeRedis();
+    const lock = new RedisSchedulerLock(redis);
+    await lock.acquire('leader', 'a', 1_000);
+    redis.nowMs = 1_000;
+
+    expect(await lock.acquire('leader', 'b', 1_000)).toBe(true);
+  });
+
+  it('neither renews nor releases a lock taken over by another owner', async () => {
+    const redis = new FakeRedis();
+    const lock = new RedisSchedulerLock(redis);
+    await lock.acquire('leader', 'a', 1_000);
+    redis.nowMs = 1_000;
+    await lock.acquire('leader', 'b', 1_000);
+
+    expect(await lock.acquire('leader', 'a', 5_000)).toBe(false);
+    await lock.release('leader', 'a');
+    expect(redis.data.get('leader')).toEqual({ value: 'b', expiresAtMs: 2_000 });
+  });
+
+  it('only releases a lock held by the caller', async () => {
+    const redis = new FakeRedis();
+    const lock = new RedisSchedulerLock(redis);
+    await lock.acquire('leader', 'a', 1_000);
+
+    await lock.release('leader', 'b');
+    expect(await redis.get('leader')).toBe('a');
+    await lock.release('leader', 'a');
+    expect(await redis.get('leader')).toBeNull();
+  });
+});
+
+// ── RedisJobStore ────────────────────────────────────────────────────────────
+
+describe('RedisJobStore', () => {
+  it('saves, updates and reads records', async () => {
+    const store = new RedisJobStore(new FakeRedis());
+    await store.saveRecord(record('e1'));
+    await store.saveRecord({ ...record('e1'), status: 'succeeded', completedAtMs: 1_200 });
+
+    expect(await store.getRecord('e1')).toMatchObject({
+      status: 'succeeded',
+      completedAtMs: 1_200,
+    });
+    expect(await store.getRecord('missing')).toBeUndefined();
+    expect((await store.getJobHistory('job-1')).map((r) => r.executionId)).toEqual(['e1']);
+  });
+
+  it('keeps the latest maxHistory records per job', async () => {
+    const redis = new FakeRedis();
+    const store = new RedisJobStore(redis, { keyPrefix: 'jobs', maxHistory: 2 });
+    for (const id of ['e1', 'e2', 'e3']) await store.saveRecord(record(id));
+
+    expect((await store.getJobHistory('job-1')).map((r) => r.executionId)).toEqual(['e2', 'e3']);
+    expect(await redis.exists('jobs:record:e1')).toBe(0);
+  });
+
+  it('keeps the ids of records saved by several instances at once', async () => {
+    const redis = new FakeRedis();
+    const a = new RedisJobStore(redis, { maxHistory: 2 });
+    const b = new RedisJobStore(redis, { maxHistory: 2 });
+
+    await Promise.all([
+      a.saveRecord(record('e1')),
+      b.saveRecord(record('e2')),
+      a.saveRecord(record('e3')),
+    ]);
+
+    expect((await a.getJobHistory('job-1')).map((r) => r.executionId)).toEqual(['e2', 'e3']);
+    expect([...redis.data.keys()].filter((key) => key.includes(':record:'))).toEqual([
+      'scheduler:record:e2',
+      'scheduler:record:e3',
+    ]);
+  });
+
+  it('distinguishes unknown, finished and scheduled fire times', async () => {
+    const store = new RedisJobStore(new FakeRedis());
+    expect(await store.getNextFireTime('job-1')).toBeUndefined();
+
+    await store.setNextFireTime('job-1', 60_000);
+    expect(await store.getNextFireTime('job-1')).toBe(60_000);
+
+    await store.setNextFireTime('job-1', null);
+    expect(await store.getNextFireTime('job-1')).toBeNull();
+  });
+
+  it('pauses and resumes jobs', async () => {
+    const store = new RedisJobStore(new FakeRedis());
+    await store.setPaused('job-1', true);
+    expect(await store.isPaused('job-1')).toBe(true);
+
+    await store.setPaused('job-1', false);
+    expect(await store.isPaused('job-1')).toBe(false);
+  });
+});
@@ -4,14 +4,19 @@ import {
   InMemoryScheduler,
   IntervalRunner,
   InvalidCronExpressionError,
+  InvalidTimeZoneError,
   JobAlreadyRegisteredError,
   JobConcurrencyLimitError,
   JobExecutionError,
   JobMaxRetriesExceededError,
   JobNotFoundError,
+  JobPausedError,
   JobRegistry,
   matchesCron,
+  nextCronTime,
+  nextCronTimes,
   parseCron,
+  previousCronTime,
 } from './index';
 import type { Job, JobContext, JobRecord } from './index';
 
@@ -29,7 +34,12 @@ function makeJob(name = 'test-job', executeFn?: (ctx: JobContext) => Promise<voi
 function makeRegistration(
   jobId = 'job-1',
   job?: Job,
-  overrides?: Partial<{ maxConcurrency: number; maxRetries: number; retryBackoffMs: number }>,
+  overrides?: Partial<{
+    maxConcurrency: number;
+    maxRetries: number;
+    retryBackoffMs: number;
+    timeoutMs: number;
+  }>,
 ) {
   return {
     jobId,
@@ -176,6 +186,199 @@ describe('matchesCron', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// CronParser — extended syntax
+// ---------------------------------------------------------------------------
+
+describe('CronParser — extended syntax', () => {
+  it('parses 6-field expressions with seconds', () => {
+    const fields = parseCron('*/20 0 12 * * *');
+    expect([...(fields.seconds ?? [])]).toEqual([0, 20, 40]);
+    expect(fields.minutes.has(0)).toBe(true);
+    expect(fields.years).toBeUndefined();
+  });
+
+  it('parses 7-field expressions with years', () => {
+    const fields = parseCron('0 0 0 1 1 ? 2027-2029');
+    expect([...(fields.years ?? [])]).toEqual([2027, 2028, 2029]);
+  });
+
+  it('accepts month and weekday names, case-insensitively', () => {
+    const fields = parseCron('0 9 * jan,Mar MON-FRI');
+    expect([...fields.months]).toEqual([1, 3]);
+    expect([...fields.weekDays]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('steps over ranges and from a start value', () => {
+    expect([...parseCron('1-30/10 * * * *').minutes]).toEqual([1, 11, 21]);
+    expect([...parseCron('50/5 * * * *').minutes]).toEqual([50, 55]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 5-7').weekDays]).toEqual([5, 6, 0]);
+  });
+
+  it('expands macros', () => {
+    expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+    expect(parseCron('@hourly')).toEqual(parseCron('0 * * * *'));
+    expect(parseCron('@weekly')).toEqual(parseCron('0 0 * * 0'));
+  });
+
+  it('parses L, W, # and ? day rules', () => {
+    expect(parseCron('0 0 L * ?').monthDayRules).toEqual([{ kind: 'last', offset: 0 }]);
+    expect(parseCron('0 0 L-2,LW * *').monthDayRules).toEqual([
+      { kind: 'last', offset: 2 },
+      { kind: 'last-weekday' },
+    ]);
+    expect(parseCron('0 0 15W * *').monthDayRules).toEqual([{ kind: 'nearest-weekday', day: 15 }]);
+    expect(parseCron('0 0 ? * FRIL').weekDayRules).toEqual([{ kind: 'last', weekDay: 5 }]);
+    expect(parseCron('0 0 ? * 1#2').weekDayRules).toEqual([{ kind: 'nth', weekDay: 1, nth: 2 }]);
+  });
+
+  it('rejects malformed expressions', () => {
+    for (const expression of [
+      '* * * * * * * *',
+      '0 0 * FOO *',
+      '0 0 ? * 1#6',
+      '0 0 32W * *',
+      '0 0 * * * ? 1969',
+      '1-2-3 * * * *',
+      '0/x * * * *',
+      '@reboot',
+    ]) {
+      expect(() => parseCron(expression), expression).toThrow(InvalidCronExpressionError);
+    }
+  });
+});
+
+describe('CronParser — fire times', () => {
+  const utc = (iso: string) => new Date(`${iso}Z`);
+
+  it('computes fire times to the second', () => {
+    const fields = parseCron('*/20 * * * * *');
+    expect(nextCronTimes(fields, utc('2026-03-02T10:00:50'), 3, 'UTC')).toEqual([
+      utc('2026-03-02T10:01:00'),
+      utc('2026-03-02T10:01:20'),
+      utc('2026-03-02T10:01:40'),
+    ]);
+  });
+
+  it('fires on the last day and the last weekday of the month', () => {
+    expect(nextCronTime(parseCron('0 12 L * ?'), utc('2026-02-01T00:00:00'), 'UTC')).toEqual(
+      utc('2026-02-28T12:00:00'),
+    );
+    // 2026-05-31 is a Sunday.
+    expect(nextCronTime(parseCron('0 12 LW * ?'), utc('2026-05-01T00:00:00'), 'UTC')).toEqual(
+      utc('2026-05-29T12:00:00'),
+    );
+  });
+
+  it('moves nW to the nearest weekday without leaving the month', () => {
+    // 2026-08-01 is a Saturday: 1W fires on Monday the 3rd, not in July.
+    expect(nextCronTime(parseCron('0 0 1W * ?'), utc('2026-07-31T00:00:00'), 'UTC')).toEqual(
+      utc('2026-08-03T00:00:00'),
+    );
+    // 2026-03-15 is a Sunday: 15W fires on Monday the 16th.
+    expect(nextCronTime(parseCron('0 0 15W * ?'), utc('2026-03-01T00:00:00'), 'UTC')).toEqual(
+      utc('2026-03-16T00:00:00'),
+    );
+  });
+
+  it('fires on the nth and the last weekday of the month', () => {
+    // Thanksgiving: fourth Thursday of November.
+    expect(nextCronTime(parseCron('0 0 ? NOV THU#4'), utc('2026-01-01T00:00:00'), 'UTC')).toEqual(
+      utc('2026-11-26T00:00:00'),
+    );
+    expect(nextCronTime(parseCron('0 0 ? * 5L'), utc('2026-03-01T00:00:00'), 'UTC')).toEqual(
+      utc('2026-03-27T00:00:00'),
+    );
+  });
+
+  it('honours the year field', () => {
+    const fields = parseCron('0 0 0 1 1 ? 2028');
+    expect(nextCronTime(fields, utc('2026-06-01T00:00:00'), 'UTC')).toEqual(
+      utc('2028-01-01T00:00:00'),
+    );
+    expect(nextCronTime(fields, utc('2028-06-01T00:00:00'), 'UTC')).toBeUndefined();
+  });
+
+  it('returns the previous fire time', () => {
+    const fields = parseCron('0 9 * * MON');
+    // 2026-03-04 is a Wednesday.
+    expect(previousCronTime(fields, utc('2026-03-04T00:00:00'), 'UTC')).toEqual(
+      utc('2026-03-02T09:00:00'),
+    );
+    expect(previousCronTime(fields, utc('2026-03-02T09:00:00'), 'UTC')).toEqual(
+      utc('2026-02-23T09:00:00'),
+    );
+    expect(previousCronTime(fields, new Date(Date.UTC(2026, 2, 2, 9, 0, 0, 1)), 'UTC')).toEqual(
+      utc('2026-03-02T09:00:00'),
+    );
+  });
+
+  it('evaluates fields on the wall clock of the time zone', () => {
+    const fields = parseCron('0 9 * * *');
+    expect(nextCronTime(fields, utc('2026-01-10T00:00:00'), 'America/Sao_Paulo')).toEqual(
+      utc('2026-01-10T12:00:00'),
+    );
+    expect(nextCronTime(fields, utc('2026-01-10T00:00:00'), 'Asia/Tokyo')).toEqual(
+      utc('2026-01-11T00:00:00'),
+    );
+    expect(matchesCron(fields, utc('2026-01-10T12:00:00'), 'America/Sao_Paulo')).toBe(true);
+    expect(matchesCron(fields, utc('2026-01-10T12:00:00'), 'UTC')).toBe(false);
+  });
+
+  it('keeps the local time across DST changes', () => {
+    const fields = parseCron('0 9 * * *');
+    // New York switches to daylight time on 2026-03-08.
+    expect(nextCronTimes(fields, utc('2026-03-07T00:00:00'), 2, 'America/New_York')).toEqual([
+      utc('2026-03-07T14:00:00'),
+      utc('2026-03-08T13:00:00'),
+    ]);
+  });
+
+  it('shifts fire times skipped by a DST gap past the gap', () => {
+    // Clocks in New York jump from 02:00 to 03:00 on 2026-03-08.
+    const fields = parseCron('30 2 * * *');
+    expect(nextCronTimes(fields, utc('2026-03-07T00:00:00'), 3, 'America/New_York')).toEqual([
+      utc('2026-03-07T07:30:00'), // 02:30 EST
+      utc('2026-03-08T07:30:00'), // 03:30 EDT
+      utc('2026-03-09T06:30:00'), // 02:30 EDT
+    ]);
+  });
+
+  it('fires times repeated by a DST overlap once', () => {
+    // Clocks in New York fall back from 02:00 to 01:00 on 2026-11-01.
+    const fields = parseCron('30 1 * * *');
+    expect(nextCronTimes(fields, utc('2026-10-31T12:00:00'), 3, 'America/New_York')).toEqual([
+      utc('2026-11-01T05:30:00'), // 01:30 EDT
+      utc('2026-11-02T06:30:00'), // 01:30 EST
+      utc('2026-11-03T06:30:00'),
+    ]);
+    expect(previousCronTime(fields, utc('2026-11-01T06:45:00'), 'America/New_York')).toEqual(
+      utc('2026-11-01T05:30:00'),
+    );
+  });
+
+  it('returns undefined when an expression never fires', () => {
+    expect(
+      nextCronTime(parseCron('0 0 30 2 *'), utc('2026-01-01T00:00:00'), 'UTC'),
+    ).toBeUndefined();
+    expect(
+      previousCronTime(parseCron('0 0 30 2 *'), utc('2026-01-01T00:00:00'), 'UTC'),
+    ).toBeUndefined();
+    expect(nextCronTimes(parseCron('0 0 30 2 *'), utc('2026-01-01T00:00:00'), 5, 'UTC')).toEqual(
+      [],
+    );
+  });
+
+  it('rejects unknown time zones', () => {
+    expect(() => nextCronTime(parseCron('@daily'), new Date(), 'Mars/Olympus_Mons')).toThrow(
+      InvalidTimeZoneError,
+    );
+  });
+});
+
 // ---------------------------------------------------------------------------
 // ConcurrencyLimiter
 // ---------------------------------------------------------------------------
@@ -432,6 +635,96 @@ describe('InMemoryScheduler — concurrency', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// InMemoryScheduler — results, cancellation, timeouts and pausing
+// ---------------------------------------------------------------------------
+
+/** A job that never finishes on its own but rejects once its signal aborts. */
+function abortableJob(started: JobContext[]): Job {
+  return makeJob('abortable', (ctx) => {
+    started.push(ctx);
+    return new Promise<void>((_resolve, reject) => {
+      ctx.signal.addEventListener('abort', () => reject(new Error('aborted')));
+    });
+  });
+}
+
+describe('InMemoryScheduler — lifecycle control', () => {
+  it('stores the value a job resolves with as the result', async () => {
+    const scheduler = new InMemoryScheduler(noDelay);
+    scheduler.register(
+      makeRegistration('count', { name: 'count', execute: () => Promise.resolve({ rows: 3 }) }),
+    );
+
+    const record = await scheduler.trigger('count');
+
+    expect(record.result).toEqual({ rows: 3 });
+  });
+
+  it('cancels a running execution by id', async () => {
+    const started: JobContext[] = [];
+    const scheduler = new InMemoryScheduler(noDelay);
+    scheduler.register(makeRegistration('slow', abortableJob(started)));
+
+    const pending = scheduler.trigger('slow');
+    const executionId = started[0]?.executionId ?? '';
+    expect(scheduler.cancel(executionId)).toBe(true);
+    const record = await pending;
+
+    expect(record.status).toBe('cancelled');
+    expect(started[0]?.signal.aborted).toBe(true);
+    expect(scheduler.cancel(executionId)).toBe(false);
+    expect((await scheduler.getStats()).cancelledExecutions).toBe(1);
+  });
+
+  it('cancels through the caller signal, without waiting for the job and without retrying', async () => {
+    const scheduler = new InMemoryScheduler(noDelay);
+    const attempts: JobContext[] = [];
+    scheduler.register(
+      makeRegistration(
+        'stubborn',
+        makeJob('stubborn', (ctx) => {
+          attempts.push(ctx);
+          return new Promise<void>(() => undefined);
+        }),
+        { maxRetries: 3 },
+      ),
+    );
+    const controller = new AbortController();
+
+    const pending = scheduler.trigger('stubborn', {}, { signal: controller.signal });
+    controller.abort();
+
+    expect((await pending).status).toBe('cancelled');
+    expect(attempts).toHaveLength(1);
+  });
+
+  it('fails executions that exceed their timeout and aborts their signal', async () => {
+    const started: JobContext[] = [];
+    const scheduler = new InMemoryScheduler(noDelay);
+    scheduler.register(makeRegistration('slow', abortableJob(started), { timeoutMs: 10 }));
+
+    const record = await scheduler.trigger('slow');
+
+    expect(record.status).toBe('failed');
+    expect(record.failureReason).toBe('Job "slow" timed out after 10ms');
+    expect(started[0]?.signal.aborted).toBe(true);
+  });
+
+  it('rejects triggers while a job is paused', async () => {
+    const scheduler = new InMemoryScheduler(noDelay);
+    scheduler.register(makeRegistration('job'));
+
+    await scheduler.pause('job');
+    expect(await scheduler.isPaused('job')).toBe(true);
+    await expect(scheduler.trigger('job')).rejects.toBeInstanceOf(JobPausedError);
+
+    await scheduler.resume('job');
+    expect((await scheduler.trigger('job')).status).toBe('succeeded');
+    await expect(scheduler.pause('missing')).rejects.toBeInstanceOf(JobNotFoundError);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // IntervalRunner
 // ---------------------------------------------------------------------------
@@ -559,6 +852,7 @@ describe('Index exports', () => {
     expect(JobConcurrencyLimitError).toBeDefined();
     expect(JobMaxRetriesExceededError).toBeDefined();
     expect(InvalidCronExpressionError).toBeDefined();
+    expect(JobPausedError).toBeDefined();
   });
 
   it('exports implementation classes', () => {
@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import {
+  InMemoryScheduler,
+  InvalidWorkflowError,
+  WorkflowFailedError,
+  WorkflowRunner,
+  workflowMetadata,
+} from './index';
+import type { Job, JobContext, WorkflowDefinition } from './index';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const noDelay = (): Promise<void> => Promise.resolve();
+
+function setup(jobs: Record<string, Job['execute']>): {
+  scheduler: InMemoryScheduler;
+  runner: WorkflowRunner;
+} {
+  const scheduler = new InMemoryScheduler(noDelay);
+  for (const [jobId, execute] of Object.entries(jobs)) {
+    scheduler.register({
+      jobId,
+      job: { name: jobId, execute },
+      schedule: { kind: 'interval', intervalMs: 1000 },
+    });
+  }
+  let runs = 0;
+  return {
+    scheduler,
+    runner: new WorkflowRunner(scheduler, { generateRunId: () => `run-${++runs}` }),
+  };
+}
+
+function recording(log: string[], id: string, result?: unknown): Job['execute'] {
+  return (ctx: JobContext) => {
+    log.push(`${id}:start`);
+    return Promise.resolve().then(() => {
+      log.push(`${id}:end`);
+      return result ?? workflowMetadata(ctx)?.upstream;
+    });
+  };
+}
+
+const diamond: WorkflowDefinition = {
+  workflowId: 'report',
+  steps: [
+    { jobId: 'orders' },
+    { jobId: 'customers' },
+    { jobId: 'build', dependsOn: ['orders', 'customers'] },
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// WorkflowRunner
+// ---------------------------------------------------------------------------
+
+describe('WorkflowRunner', () => {
+  it('runs independent steps in parallel and joins on their dependents', async () => {
+    const log: string[] = [];
+    const { runner } = setup({
+      orders: recording(log, 'orders', 10),
+      customers: recording(log, 'customers', 2),
+      build: recording(log, 'build'),
+    });
+
+    const run = await runner.run(diamond);
+
+    expect(run).toMatchObject({ workflowId: 'report', runId: 'run-1', status: 'succeeded' });
+    expect(log).toEqual([
+      'orders:start',
+      'customers:start',
+      'orders:end',
+      'customers:end',
+      'build:start',
+      'build:end',
+    ]);
+    expect(run.steps['build']?.record?.result).toEqual({ orders: 10, customers: 2 });
+  });
+
+  it('passes the run parameters and identity to every step', async () => {
+    const seen: unknown[] = [];
+    const { runner } = setup({
+      only: (ctx) => {
+        seen.push(workflowMetadata(ctx));
+        return Promise.resolve();
+      },
+    });
+
+    await runner.run({ workflowId: 'wf', steps: [{ jobId: 'only' }] }, { day: '2026-01-01' });
+
+    expect(seen).toEqual([
+      { workflowId: 'wf', runId: 'run-1', params: { day: '2026-01-01' }, upstream: {} },
+    ]);
+  });
+
+  it('skips the dependents of a failed step but still runs unrelated branches', async () => {
+    const log: string[] = [];
+    const { runner } = setup({
+      orders: () => Promise.reject(new Error('db down')),
+      customers: recording(log, 'customers'),
+      build: recording(log, 'build'),
+      publish: recording(log, 'publish'),
+    });
+
+    const run = await runner.run({
+      workflowId: 'report',
+      steps: [...diamond.steps, { jobId: 'publish', dependsOn: ['build'] }],
+    });
+
+    expect(run.status).toBe('failed');
+    expect(run.steps['orders']).toMatchObject({ status: 'failed', failureReason: 'db down' });
+    expect(run.steps['customers']?.status).toBe('succeeded');
+    expect(run.steps['build']).toEqual({ status: 'skipped' });
+    expect(run.steps['publish']).toEqual({ status: 'skipped' });
+    expect(log).toEqual(['customers:start', 'customers:end']);
+  });
+
+  it('fails a step whose job is paused', async () => {
+    const { scheduler, runner } = setup({ only: () => Promise.resolve() });
+    await scheduler.pause('only');
+
+    const run = await runner.run({ workflowId: 'wf', steps: [{ jobId: 'only' }] });
+
+    expect(run.steps['only']).toEqual({ status: 'failed', failureReason: 'Job "only" is paused' });
+  });
+
+  it.each([
+    [
+      'cycles',
+      [
+        { jobId: 'a', dependsOn: ['b'] },
+        { jobId: 'b', dependsOn: ['a'] },
+      ],
+      'cycle a -> b -> a',
+    ],
+    [
+      'unknown dependencies',
+      [{ jobId: 'a', dependsOn: ['missing'] }],
+      '"a" depends on unknown "missing"',
+    ],
+    ['unregistered jobs', [{ jobId: 'unregistered' }], 'job "unregistered" is not registered'],
+    ['duplicate steps', [{ jobId: 'a' }, { jobId: 'a' }], 'duplicate step "a"'],
+  ])('rejects workflows with %s', async (_case, steps, reason) => {
+    const { runner } = setup({ a: () => Promise.resolve(), b: () => Promise.resolve() });
+
+    const error = await runner.run({ workflowId: 'wf', steps }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(InvalidWorkflowError);
+    expect((error as Error).message).toBe(`Invalid workflow "wf": ${reason}`);
+  });
+
+  it('cancels running steps and skips the rest when its signal aborts', async () => {
+    const controller = new AbortController();
+    const { runner } = setup({
+      orders: () => new Promise(() => undefined),
+      customers: () => {
+        controller.abort();
+        return Promise.resolve();
+      },
+      build: () => Promise.resolve(),
+    });
+
+    const run = await runner.run(diamond, {}, { signal: controller.signal });
+
+    expect(run.status).toBe('cancelled');
+    expect(run.steps['orders']?.status).toBe('cancelled');
+    expect(run.steps['build']).toEqual({ status: 'skipped' });
+  });
+
+  it('wraps a workflow as a job that fails when a step failed', async () => {
+    const { scheduler, runner } = setup({
+      orders: () => Promise.resolve(),
+      customers: () => Promise.reject(new Error('api down')),
+      build: () => Promise.resolve(),
+    });
+    scheduler.register({
+      jobId: 'nightly',
+      job: runner.toJob(diamond),
+      schedule: { kind: 'cron', expression: '0 2 * * *' },
+    });
+
+    const record = await scheduler.trigger('nightly');
+
+    expect(record.status).toBe('failed');
+    expect(record.failureReason).toBe('Workflow "report" run "run-1" failed at customers');
+    expect(new WorkflowFailedError('report', 'run-1', ['customers']).failedSteps).toEqual([
+      'customers',
+    ]);
+  });
+});
@@ -35,7 +35,8 @@ export interface ControllerAdapterOptions {
  * Adapter to convert Express request handlers to use case executions
  *
  * This adapter bridges Express.js controllers with Clean Architecture use cases,
- * handling Result types and error propagation automatically.
+ * handling Result types and error propagation automatically. Use cases may
+ * return either a `Promise<Result>` or a `ResultAsync`.
  *
  * @param useCase - Use case to execute
  * @param options - Adapter configuration options
@@ -19,7 +19,10 @@ import {
   validateBody,
   ValidationError,
   type ValidatorFn,
+  ExpressControllerAdapter,
 } from '../src/index.js';
+import { Result, ResultAsync } from '@marcusprado02/kernel';
+import type { UseCase } from '@marcusprado02/application';
 import type { Logger } from '@marcusprado02/observability';
 
 describe('@marcusprado02/web-express', () => {
@@ -227,4 +230,33 @@ describe('@marcusprado02/web-express', () => {
       );
     });
   });
+
+  describe('ExpressControllerAdapter', () => {
+    const findUser: UseCase<{ id: string }, { id: string }, Error> = {
+      execute: (input) =>
+        ResultAsync.ok<string, Error>(input.id).flatMap((id) =>
+          id === 'missing'
+            ? Result.err<{ id: string }, Error>(new Error('User not found'))
+            : Result.ok({ id }),
+        ),
+    };
+
+    it('should send the Ok value of a use case returning ResultAsync', async () => {
+      app.get('/users/:id', ExpressControllerAdapter.adaptQuery(findUser));
+
+      const response = await request(app).get('/users/42');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ id: '42' });
+    });
+
+    it('should forward the Err of a ResultAsync to the error middleware', async () => {
+      app.get('/users/:id', ExpressControllerAdapter.adaptQuery(findUser));
+      app.use(errorHandlerMiddleware(mockLogger));
+
+      const response = await request(app).get('/users/missing');
+
+      expect(response.status).toBe(500);
+    });
+  });
 });
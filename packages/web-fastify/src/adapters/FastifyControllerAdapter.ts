@@ -20,7 +20,7 @@ export type FastifyRouteHandler = (request: FastifyRequest, reply: FastifyReply)
  * Adapter for Fastify controllers
  *
  * Converts use cases to Fastify route handlers with automatic:
- * - Result type handling (Ok/Err)
+ * - Result type handling (Ok/Err), for use cases returning `Promise<Result>` or `ResultAsync`
  * - HTTP status code mapping
  * - Error propagation to error handler
  *
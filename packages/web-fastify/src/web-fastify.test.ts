@@ -22,7 +22,7 @@ import {
   FastifyControllerAdapter,
   FastifyContextAdapter,
 } from './index';
-import { Result } from '@marcusprado02/kernel';
+import { Result, ResultAsync } from '@marcusprado02/kernel';
 import type { UseCase } from '@marcusprado02/application';
 import type { Logger } from '@marcusprado02/observability';
 
@@ -263,6 +263,42 @@ describe('Fastify Adapter - Controller Adapter', () => {
   });
 });
 
+describe('Fastify Adapter - Controller Adapter with ResultAsync', () => {
+  let app: FastifyInstance;
+
+  const asyncUseCase: UseCase<{ id: string }, { id: string; name: string }, Error> = {
+    execute: (input: { id: string }) =>
+      ResultAsync.fromPromise(Promise.resolve(input.id), () => new Error('lookup failed')).flatMap(
+        (id) =>
+          id === '404' ? Result.err(new Error('Not found')) : Result.ok({ id, name: 'Async User' }),
+      ),
+  };
+
+  beforeAll(async () => {
+    app = Fastify();
+    app.setErrorHandler(errorHandlerHook(mockLogger));
+    app.get('/users/:id', FastifyControllerAdapter.adaptQuery(asyncUseCase));
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should send the Ok value of a ResultAsync', async () => {
+    const response = await app.inject({ method: 'GET', url: '/users/7' });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({ id: '7', name: 'Async User' });
+  });
+
+  it('should propagate the Err of a ResultAsync to the error handler', async () => {
+    const response = await app.inject({ method: 'GET', url: '/users/404' });
+
+    expect(response.statusCode).toBe(500);
+  });
+});
+
 describe('Fastify Adapter - Context Adapter', () => {
   let app: FastifyInstance;
 
@@ -7,6 +7,7 @@
 /* eslint-disable @typescript-eslint/no-unsafe-member-access -- NestJS framework boundary: HttpStatus.TOO_MANY_REQUESTS */
 /* eslint-disable @typescript-eslint/require-await -- Guard interface requires async */
 import type { CanActivate, ExecutionContext } from '@nestjs/common';
+import type { DistributedRateLimiter } from '@marcusprado02/resilience';
 import {
   Injectable,
   HttpException,
@@ -21,6 +22,10 @@ interface RateLimitEntry {
 /**
  * Guard to enforce rate limiting per IP or user
  *
+ * Counts requests in process memory by default, so each replica allows
+ * `maxRequests`. Pass a `limiter` — e.g. a `RedisRateLimiter` — to share
+ * the limit between replicas; `maxRequests` and `windowMs` are then unused.
+ *
  * @example
  * ```typescript
  * @UseGuards(RateLimitGuard)
@@ -35,16 +40,28 @@ export class RateLimitGuard implements CanActivate {
   private readonly store = new Map<string, RateLimitEntry>();
   private readonly maxRequests: number;
   private readonly windowMs: number;
+  private readonly limiter: DistributedRateLimiter | undefined;
 
-  constructor(options: { maxRequests?: number; windowMs?: number } = {}) {
+  constructor(
+    options: { maxRequests?: number; windowMs?: number; limiter?: DistributedRateLimiter } = {}
+  ) {
     this.maxRequests = options.maxRequests ?? 100;
     this.windowMs = options.windowMs ?? 60000; // 1 minute
+    this.limiter = options.limiter;
   }
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
     const key = this.getKey(request);
 
+    if (this.limiter !== undefined) {
+      const decision = await this.limiter.consume(key);
+      if (!decision.allowed) {
+        throw this.tooManyRequests(Math.ceil(decision.retryAfterMs / 1000));
+      }
+      return true;
+    }
+
     const now = Date.now();
     const entry = this.store.get(key);
 
@@ -58,21 +75,24 @@ export class RateLimitGuard implements CanActivate {
     }
 
     if (entry.count >= this.maxRequests) {
-      const retryAfter = Math.ceil((entry.resetTime - now) / 1000);
-      throw new HttpException(
-        {
-          statusCode: HttpStatus.TOO_MANY_REQUESTS,
-          message: 'Too many requests',
-          retryAfter,
-        },
-        HttpStatus.TOO_MANY_REQUESTS
-      );
+      throw this.tooManyRequests(Math.ceil((entry.resetTime - now) / 1000));
     }
 
     entry.count++;
     return true;
   }
 
+  private tooManyRequests(retryAfter: number): HttpException {
+    return new HttpException(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message: 'Too many requests',
+        retryAfter,
+      },
+      HttpStatus.TOO_MANY_REQUESTS
+    );
+  }
+
   private getKey(request: { ip?: string; user?: { id: string } }): string {
     // Use user ID if authenticated, otherwise IP
     return request.user?.id ?? request.ip ?? 'unknown';
@@ -13,7 +13,9 @@ import type { TestingModule } from '@nestjs/testing';
 import { Test } from '@nestjs/testing';
 import { Controller, Get, Post, Body, UseInterceptors, UseGuards, Module } from '@nestjs/common';
 import request from 'supertest';
-import type { INestApplication } from '@nestjs/common';
+import type { ExecutionContext, INestApplication } from '@nestjs/common';
+import { HttpException } from '@nestjs/common';
+import { InMemoryRateLimiter } from '@marcusprado02/resilience';
 import {
   CommonsCoreModule,
   CommonsObservabilityModule,
@@ -256,6 +258,22 @@ describe('@marcusprado02/web-nestjs', () => {
       expect(response.status).toBe(429);
       expect(response.body.message).toContain('Too many requests');
     });
+
+    it('should share the limit between replicas through a distributed limiter', async () => {
+      const limiter = new InMemoryRateLimiter({ type: 'sliding-log', limit: 1, windowMs: 60000 });
+      const context = {
+        switchToHttp: () => ({ getRequest: () => ({ ip: '10.0.0.1' }) }),
+      } as unknown as ExecutionContext;
+      const replicaA = new RateLimitGuard({ limiter });
+      const replicaB = new RateLimitGuard({ limiter });
+
+      await expect(replicaA.canActivate(context)).resolves.toBe(true);
+      const error: unknown = await replicaB.canActivate(context).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(HttpException);
+      expect((error as HttpException).getStatus()).toBe(429);
+      expect((error as HttpException).getResponse()).toMatchObject({ retryAfter: 60 });
+    });
   });
 
   describe('Full Integration', () => {
@@ -5,6 +5,8 @@ export { MiddlewareChain } from './http/Middleware';
 
 // Middlewares
 export { correlationMiddleware } from './middlewares/CorrelationMiddleware';
+export { loadSheddingMiddleware } from './middlewares/LoadSheddingMiddleware';
+export type { LoadSheddingOptions } from './middlewares/LoadSheddingMiddleware';
 
 // HATEOAS
 export type { Link } from './hateoas/Link';
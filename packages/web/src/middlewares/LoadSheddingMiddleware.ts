@@ -0,0 +1,40 @@
+import type { Middleware } from '../http/Middleware';
+import type { HttpRequest } from '../http/HttpContext';
+import { ProblemDetailsBuilder, ProblemType } from '@marcusprado02/errors';
+import type { AdaptiveBulkhead } from '@marcusprado02/resilience';
+import { BulkheadRejectedError } from '@marcusprado02/resilience';
+
+export interface LoadSheddingOptions {
+  /** Limits the requests handled at once; its limit adapts to their latency. */
+  readonly bulkhead: AdaptiveBulkhead;
+  /** The priority class of a request, one of the bulkhead's `priorities`. Default: none. */
+  readonly priority?: (request: HttpRequest) => string | undefined;
+  /** Seconds clients are told to wait in `Retry-After`. Default: 1. */
+  readonly retryAfterSeconds?: number;
+}
+
+/**
+ * Sheds load: requests beyond the bulkhead's current limit get a 503 with
+ * `Retry-After` instead of reaching the handlers, lowest priorities first.
+ */
+export function loadSheddingMiddleware(options: LoadSheddingOptions): Middleware {
+  const retryAfter = String(options.retryAfterSeconds ?? 1);
+  return async (context, next) => {
+    try {
+      await options.bulkhead.execute(next, options.priority?.(context.request));
+    } catch (error) {
+      if (!(error instanceof BulkheadRejectedError)) throw error;
+      context.response = {
+        statusCode: 503,
+        headers: { ...context.response.headers, 'Retry-After': retryAfter },
+        body: ProblemDetailsBuilder.create(
+          ProblemType.SERVICE_UNAVAILABLE,
+          'Service Unavailable',
+          503,
+        )
+          .withDetail('The server is overloaded, retry later')
+          .build(),
+      };
+    }
+  };
+}
@@ -0,0 +1,99 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+import { describe, it, expect } from 'vitest';
+import { AdaptiveBulkhead } from '@marcusprado02/resilience';
+import type { ConcurrencyLimit } from '@marcusprado02/resilience';
+import { MiddlewareChain } from '../http/Middleware';
+import type { HttpContext } from '../http/HttpContext';
+import { loadSheddingMiddleware } from './LoadSheddingMiddleware';
+
+function context(path = '/orders'): HttpContext {
+  return {
+    request: { method: 'GET', url: path, path, headers: {}, query: {}, params: {} },
+    response: { statusCode: 200 },
+    locals: new Map(),
+  };
+}
+
+function fixedLimit(limit: number): ConcurrencyLimit {
+  return { getLimit: () => limit, update: () => undefined };
+}
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// loadSheddingMiddleware
+// ──────────────────────────────────────────────────────────────────────────────
+
+describe('loadSheddingMiddleware', () => {
+  it('lets requests within the limit through', async () => {
+    const bulkhead = new AdaptiveBulkhead({ limit: fixedLimit(1) });
+    const chain = new MiddlewareChain()
+      .use(loadSheddingMiddleware({ bulkhead }))
+      .use(async (ctx) => {
+        ctx.response = { statusCode: 201 };
+      });
+    const ctx = context();
+
+    await chain.execute(ctx);
+
+    expect(ctx.response.statusCode).toBe(201);
+  });
+
+  it('answers 503 with Retry-After beyond the limit', async () => {
+    const bulkhead = new AdaptiveBulkhead({ limit: fixedLimit(1) });
+    const running = deferred();
+    const shedding = loadSheddingMiddleware({ bulkhead, retryAfterSeconds: 5 });
+    const first = shedding(context(), () => running.promise);
+    const ctx = context();
+
+    await shedding(ctx, async () => undefined);
+
+    expect(ctx.response).toMatchObject({
+      statusCode: 503,
+      headers: { 'Retry-After': '5' },
+      body: { status: 503, title: 'Service Unavailable' },
+    });
+    running.resolve();
+    await first;
+  });
+
+  it('sheds low-priority requests first', async () => {
+    const bulkhead = new AdaptiveBulkhead({
+      limit: fixedLimit(2),
+      priorities: { health: 1, reports: 0.5 },
+    });
+    const shedding = loadSheddingMiddleware({
+      bulkhead,
+      priority: (request) => (request.path.startsWith('/reports') ? 'reports' : 'health'),
+    });
+    const running = deferred();
+    const first = shedding(context('/reports/1'), () => running.promise);
+    const report = context('/reports/2');
+    const health = context('/health');
+
+    await shedding(report, async () => undefined);
+    await shedding(health, async () => undefined);
+
+    expect(report.response.statusCode).toBe(503);
+    expect(health.response.statusCode).toBe(200);
+    running.resolve();
+    await first;
+  });
+
+  it('rethrows errors from the handlers', async () => {
+    const bulkhead = new AdaptiveBulkhead({ limit: fixedLimit(1) });
+    const shedding = loadSheddingMiddleware({ bulkhead });
+
+    await expect(
+      shedding(context(), async () => {
+        throw new Error('handler failed');
+      }),
+    ).rejects.toThrow('handler failed');
+  });
+});